@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, RefreshCw, RotateCcw, Wrench } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { trpc } from "@/lib/trpc";
+
+type RunStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+const STATUS_VARIANTS: Record<RunStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  running: "default",
+  completed: "outline",
+  failed: "destructive",
+  cancelled: "secondary",
+};
+
+const formatDuration = (ms?: number | null) => {
+  if (ms == null) return "—";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+};
+
+function RunSteps({ runId }: { runId: number }) {
+  const { data: run, isLoading } = trpc.agents.runs.get.useQuery({ id: runId });
+
+  if (isLoading) {
+    return <div className="h-16 bg-muted rounded animate-pulse" />;
+  }
+  if (!run || run.steps.length === 0) {
+    return <p className="text-sm text-muted-foreground">No steps were recorded for this run.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-muted ml-2 space-y-4">
+      {run.steps.map((step) => (
+        <li key={step.id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">Step {step.step}</span>
+            {step.provider && <span>{step.provider}</span>}
+            {step.model && <span>{step.model}</span>}
+            {step.latencyMs != null && <span>{formatDuration(step.latencyMs)}</span>}
+            {(step.promptTokens != null || step.completionTokens != null) && (
+              <span>
+                {step.promptTokens ?? 0} in / {step.completionTokens ?? 0} out tokens
+              </span>
+            )}
+          </div>
+          {step.thought && <p className="text-sm mt-1 whitespace-pre-wrap">{step.thought}</p>}
+          {step.toolName && (
+            <div className="mt-2 rounded-md bg-muted/50 p-2 text-xs font-mono">
+              <div className="flex items-center gap-1 font-semibold">
+                <Wrench className="w-3 h-3" />
+                {step.toolName}({JSON.stringify(step.toolInput ?? {})})
+              </div>
+              {step.observation && (
+                <pre className="mt-1 whitespace-pre-wrap break-all max-h-40 overflow-auto">{step.observation}</pre>
+              )}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function AgentRunTimeline({ agentId }: { agentId: number }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<RunStatus | "all">("all");
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const { data, isLoading, refetch } = trpc.agents.runs.list.useQuery(
+    { agentId, status: status === "all" ? undefined : status, limit: 25 },
+    {
+      refetchInterval: (query) =>
+        query.state.data?.runs.some((run) => run.status === "running" || run.status === "pending") ? 3000 : false,
+    }
+  );
+
+  const replayMutation = trpc.agents.runs.replay.useMutation({
+    onSuccess: (result) => {
+      toast({ title: "Replay finished", description: result.runId ? `New run #${result.runId}` : undefined });
+      refetch();
+    },
+    onError: (error) => {
+      toast({ title: "Replay failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const runs = data?.runs ?? [];
+
+  return (
+    <Card className="p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Run Timeline</h2>
+          <p className="text-sm text-muted-foreground">{data?.total ?? 0} recorded runs</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as RunStatus | "all")}
+            className="px-3 py-1.5 border rounded-md bg-background text-sm"
+          >
+            <option value="all">All statuses</option>
+            <option value="running">Running</option>
+            <option value="completed">Completed</option>
+            <option value="failed">Failed</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-24 bg-muted rounded animate-pulse" />
+      ) : runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          This agent has no recorded runs yet. Runs from workflows, schedules and replays appear here.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {runs.map((run) => (
+            <div key={run.id} className="border rounded-md">
+              <div
+                className="flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50"
+                onClick={() => setExpanded(expanded === run.id ? null : run.id)}
+              >
+                {expanded === run.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                <Badge variant={STATUS_VARIANTS[run.status as RunStatus] ?? "outline"}>{run.status}</Badge>
+                <Badge variant="outline">{run.source}</Badge>
+                <span className="flex-1 truncate text-sm">{run.goal}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {run.stepCount} steps · {run.promptTokens + run.completionTokens} tokens · {formatDuration(run.durationMs)}
+                </span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {format(new Date(run.createdAt), "PPp")}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Replay with the same input"
+                  disabled={replayMutation.isPending}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    replayMutation.mutate({ id: run.id });
+                  }}
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+              </div>
+              {expanded === run.id && (
+                <div className="border-t p-4 space-y-3">
+                  {run.error && (
+                    <div className="p-2 rounded bg-red-50 dark:bg-red-950 text-red-600 text-sm">{run.error}</div>
+                  )}
+                  <RunSteps runId={run.id} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,453 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, Download, Loader2, Plus, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+type BudgetScope = "workspace" | "provider" | "agent";
+type BudgetPeriod = "minute" | "hour" | "day" | "month";
+type BudgetMode = "hard_stop" | "degrade";
+
+const PERIODS: BudgetPeriod[] = ["minute", "hour", "day", "month"];
+
+const SCOPE_LABELS: Record<BudgetScope, string> = {
+  workspace: "Workspace",
+  provider: "Provider",
+  agent: "Agent",
+};
+
+const MODE_LABELS: Record<BudgetMode, string> = {
+  hard_stop: "Hard stop",
+  degrade: "Degrade to cheapest",
+};
+
+function utilizationClass(utilization: number): string {
+  if (utilization >= 1) return "[&>div]:bg-red-500";
+  if (utilization >= 0.8) return "[&>div]:bg-yellow-500";
+  return "";
+}
+
+function describeLimits(budget: {
+  tokenLimit?: number | null;
+  costLimit?: number | null;
+  requestLimit?: number | null;
+  used?: { tokens?: number; cost?: number; requests?: number };
+}): string {
+  const used = { tokens: 0, cost: 0, requests: 0, ...budget.used };
+  const parts: string[] = [];
+  if (budget.tokenLimit) parts.push(`${used.tokens.toLocaleString()} / ${budget.tokenLimit.toLocaleString()} tokens`);
+  if (budget.costLimit) parts.push(`$${used.cost.toFixed(4)} / $${budget.costLimit.toFixed(2)}`);
+  if (budget.requestLimit) parts.push(`${used.requests} / ${budget.requestLimit} requests`);
+  return parts.join(" · ");
+}
+
+function optionalNumber(value: string): number | null {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * A workspace's usage budgets with this period's spend, the alerts they have
+ * raised, and the ledger of reserved and settled requests behind them, with
+ * monthly invoice exports
+ */
+export function BudgetLedgerPanel() {
+  const [workspaceId, setWorkspaceId] = useState<number | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<BudgetScope>("workspace");
+  const [targetId, setTargetId] = useState<string>("");
+  const [period, setPeriod] = useState<BudgetPeriod>("month");
+  const [mode, setMode] = useState<BudgetMode>("hard_stop");
+  const [tokenLimit, setTokenLimit] = useState("");
+  const [costLimit, setCostLimit] = useState("");
+  const [requestLimit, setRequestLimit] = useState("");
+  const [invoiceMonth, setInvoiceMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const [exporting, setExporting] = useState(false);
+
+  const trpcUtils = trpc.useUtils();
+  const { data: workspaces } = trpc.workspaces.list.useQuery();
+  const { data: providers } = trpc.providers.list.useQuery({ enabledOnly: false });
+  const { data: agents } = trpc.agents.list.useQuery();
+
+  useEffect(() => {
+    if (workspaceId === null && workspaces?.[0]) setWorkspaceId(workspaces[0].id);
+  }, [workspaces, workspaceId]);
+
+  const enabled = { enabled: workspaceId !== null, refetchInterval: 30000 };
+  const { data: budgets, refetch: refetchBudgets } = trpc.budgets.list.useQuery({ workspaceId: workspaceId! }, enabled);
+  const { data: alerts } = trpc.budgets.alerts.useQuery({ workspaceId: workspaceId! }, enabled);
+  const { data: ledger } = trpc.budgets.ledger.useQuery({ workspaceId: workspaceId!, limit: 25 }, enabled);
+
+  const createBudget = trpc.budgets.create.useMutation({
+    onSuccess: () => {
+      toast.success("Budget created");
+      setShowDialog(false);
+      refetchBudgets();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteBudget = trpc.budgets.delete.useMutation({
+    onSuccess: () => refetchBudgets(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleExportInvoice = async (invoiceFormat: "csv" | "json") => {
+    setExporting(true);
+    try {
+      const invoice = await trpcUtils.providerAnalytics.exportInvoice.fetch({
+        workspaceId: workspaceId!,
+        month: invoiceMonth,
+        format: invoiceFormat,
+      });
+      const url = URL.createObjectURL(new Blob([invoice.content], { type: invoice.contentType }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = invoice.filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export invoice");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const workspaceAgents = agents?.filter((agent) => agent.workspaceId === workspaceId) ?? [];
+
+  const openDialog = () => {
+    setName("");
+    setScope("workspace");
+    setTargetId("");
+    setPeriod("month");
+    setMode("hard_stop");
+    setTokenLimit("");
+    setCostLimit("");
+    setRequestLimit("");
+    setShowDialog(true);
+  };
+
+  const handleCreate = () => {
+    const limits = {
+      tokenLimit: optionalNumber(tokenLimit) !== null ? Math.round(optionalNumber(tokenLimit)!) : null,
+      costLimit: optionalNumber(costLimit),
+      requestLimit: optionalNumber(requestLimit) !== null ? Math.round(optionalNumber(requestLimit)!) : null,
+    };
+    if (!name.trim()) {
+      toast.error("Give the budget a name");
+      return;
+    }
+    if (!limits.tokenLimit && !limits.costLimit && !limits.requestLimit) {
+      toast.error("Set a token, cost or request limit");
+      return;
+    }
+    if (scope !== "workspace" && !targetId) {
+      toast.error(`Choose the ${scope} this budget covers`);
+      return;
+    }
+    createBudget.mutate({
+      workspaceId: workspaceId!,
+      name: name.trim(),
+      scope,
+      providerId: scope === "provider" ? Number(targetId) : null,
+      agentId: scope === "agent" ? Number(targetId) : null,
+      period,
+      mode,
+      ...limits,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle>Budgets</CardTitle>
+          <CardDescription>
+            Token, cost and request budgets enforced before each request is routed, with alerts at 80% and 100%
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={workspaceId !== null ? String(workspaceId) : undefined}
+            onValueChange={(value) => setWorkspaceId(Number(value))}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Workspace" />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces?.map((workspace) => (
+                <SelectItem key={workspace.id} value={String(workspace.id)}>
+                  {workspace.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" className="gap-2" disabled={workspaceId === null} onClick={openDialog}>
+            <Plus className="h-4 w-4" />
+            New Budget
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* Budgets */}
+        {!budgets || budgets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No budgets for this workspace. Provider quotas and agent limits show up here once they are set.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {budgets.map((budget) => (
+              <div key={budget.key} className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{budget.name}</span>
+                    <Badge variant="outline">{SCOPE_LABELS[budget.scope]}</Badge>
+                    <Badge variant="outline">per {budget.period}</Badge>
+                    {budget.scope !== "provider" && (
+                      <Badge variant={budget.mode === "degrade" ? "secondary" : "outline"}>{MODE_LABELS[budget.mode]}</Badge>
+                    )}
+                    {budget.exhausted && <Badge variant="destructive">Spent</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    {describeLimits(budget)}
+                    {budget.budgetId !== null && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete budget"
+                        disabled={deleteBudget.isPending}
+                        onClick={() => {
+                          if (confirm(`Delete the "${budget.name}" budget?`)) {
+                            deleteBudget.mutate({ id: budget.budgetId! });
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <Progress
+                  value={Math.min(100, budget.utilization * 100)}
+                  className={utilizationClass(budget.utilization)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Alerts */}
+        {alerts && alerts.length > 0 && (
+          <div className="space-y-2">
+            <div className="font-semibold">Alerts</div>
+            <div className="rounded-md border divide-y">
+              {alerts.map((alert) => (
+                <div key={alert.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className={`h-4 w-4 ${alert.threshold >= 100 ? "text-red-500" : "text-yellow-500"}`} />
+                    {alert.budgetName} reached {alert.threshold}%
+                  </div>
+                  <span className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Ledger */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="font-semibold">Ledger</div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="month"
+                className="h-8 w-40"
+                aria-label="Invoice month"
+                value={invoiceMonth}
+                onChange={(e) => setInvoiceMonth(e.target.value)}
+              />
+              {(["csv", "json"] as const).map((invoiceFormat) => (
+                <Button
+                  key={invoiceFormat}
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  disabled={workspaceId === null || !invoiceMonth || exporting}
+                  onClick={() => handleExportInvoice(invoiceFormat)}
+                >
+                  <Download className="h-4 w-4" />
+                  {invoiceFormat.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {!ledger || ledger.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No usage recorded for this workspace yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Agent</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>{entry.providerName}</TableCell>
+                    <TableCell>{entry.modelName || "—"}</TableCell>
+                    <TableCell>{entry.agentId ? `#${entry.agentId}` : "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.status === "reserved" ? "secondary" : "outline"}>{entry.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.tokensUsed.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${(entry.costMicros / 1000000).toFixed(4)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Budget</DialogTitle>
+            <DialogDescription>
+              Spend counts over calendar periods in UTC. A spent provider budget takes that provider out of rotation.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="budget-name">Name</Label>
+              <Input id="budget-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Monthly API spend" />
+            </div>
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => {
+                  setScope(value as BudgetScope);
+                  setTargetId("");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_LABELS) as BudgetScope[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {SCOPE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{scope === "agent" ? "Agent" : "Provider"}</Label>
+              <Select value={targetId} onValueChange={setTargetId} disabled={scope === "workspace"}>
+                <SelectTrigger>
+                  <SelectValue placeholder={scope === "workspace" ? "All requests" : `Choose ${scope}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {scope === "provider" &&
+                    providers?.map((provider) => (
+                      <SelectItem key={provider.id} value={String(provider.id)}>
+                        {provider.name}
+                      </SelectItem>
+                    ))}
+                  {scope === "agent" &&
+                    workspaceAgents.map((agent) => (
+                      <SelectItem key={agent.id} value={String(agent.id)}>
+                        {agent.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as BudgetPeriod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIODS.map((value) => (
+                    <SelectItem key={value} value={value} className="capitalize">
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>When spent</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as BudgetMode)} disabled={scope === "provider"}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MODE_LABELS) as BudgetMode[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {MODE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-tokens">Token limit</Label>
+              <Input id="budget-tokens" type="number" min={1} value={tokenLimit} onChange={(e) => setTokenLimit(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-cost">Cost limit ($)</Label>
+              <Input id="budget-cost" type="number" min={0} step="0.01" value={costLimit} onChange={(e) => setCostLimit(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-requests">Request limit</Label>
+              <Input id="budget-requests" type="number" min={1} value={requestLimit} onChange={(e) => setRequestLimit(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={createBudget.isPending} className="gap-2">
+              {createBudget.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create Budget
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -10,7 +10,7 @@
  *   - Settings dropdown: Presets Setting, Categories Setting, Chat Theme, Language, Export Data
  *   - Presets & Categories CRUD dialogs (localStorage-backed)
  *   - Provider/Model selection panel (pass providers/models data)
- *   - File attachments, Paperclip/Plug/Mic icons
+ *   - File attachments (passed to onSend), Paperclip/Plug/Mic icons
  *   - Responsive (mobile-aware)
  *
  * Usage:
@@ -65,8 +65,8 @@ export interface ChatControlBoxProps {
   value: string;
   /** Input change handler (required) */
   onChange: (value: string) => void;
-  /** Send handler (required) */
-  onSend: () => void;
+  /** Send handler (required); receives files attached via the paperclip */
+  onSend: (attachments: File[]) => void;
 
   // --- Input state ---
   isStreaming?: boolean;
@@ -223,7 +223,7 @@ export function ChatControlBox({
   const selProv = providers?.find((p) => p.id === selectedProviderId);
   const selModel = providerModels?.find((m) => m.id === selectedModelId);
   const inputOff = disabled || !modelsEnabled;
-  const canSend = !inputOff && value.trim().length > 0;
+  const canSend = !inputOff && (value.trim().length > 0 || attachments.length > 0);
 
   // --- Textarea auto-grow ---
   const adjust = useCallback(() => {
@@ -259,11 +259,14 @@ export function ChatControlBox({
   };
   const delCat = (id: string) => { const u = categories.filter((c) => c.id !== id); setCategories(u); storeJSON(CATEGORIES_KEY, u); };
 
+  // --- Send (hands attachments to the caller and clears them) ---
+  const send = () => { onSend(attachments); setAttachments([]); };
+
   // --- Key handler ---
   const handleKey = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey && !isMobile) {
       e.preventDefault();
-      if (canSend && !isStreaming) onSend();
+      if (canSend && !isStreaming) send();
     }
   };
 
@@ -480,7 +483,7 @@ export function ChatControlBox({
               {isStreaming ? (
                 <button onClick={onStop} className="h-7 w-7 flex items-center justify-center rounded-full bg-destructive text-destructive-foreground transition-colors" title="Stop"><Square className="h-3 w-3" /></button>
               ) : (
-                <button onClick={onSend} disabled={!canSend} className="h-7 w-7 flex items-center justify-center rounded-full bg-primary text-primary-foreground transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Send (Enter)">
+                <button onClick={send} disabled={!canSend} className="h-7 w-7 flex items-center justify-center rounded-full bg-primary text-primary-foreground transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="Send (Enter)">
                   {inputOff ? <Loader2 className="h-4 w-4 animate-spin" /> : <SendIcon className="h-4 w-4" />}
                 </button>
               )}
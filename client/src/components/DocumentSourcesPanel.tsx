@@ -0,0 +1,425 @@
+import { useEffect, useRef, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CheckCircle, XCircle, AlertTriangle, Clock, Loader2, FolderSync, GitBranch,
+  Plus, RefreshCw, Trash2, List,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+interface Props {
+  workspaceId: number;
+}
+
+interface SourceForm {
+  name: string;
+  type: "folder" | "git";
+  path: string;
+  branch: string;
+  includePatterns: string;
+  excludePatterns: string;
+  cronExpression: string;
+  watch: boolean;
+}
+
+const EMPTY_FORM: SourceForm = {
+  name: "",
+  type: "folder",
+  path: "",
+  branch: "",
+  includePatterns: "",
+  excludePatterns: "node_modules, dist, build",
+  cronExpression: "",
+  watch: true,
+};
+
+function splitPatterns(value: string): string[] {
+  return value.split(/[,\n]/).map((pattern) => pattern.trim()).filter(Boolean);
+}
+
+export function DocumentSourcesPanel({ workspaceId }: Props) {
+  const [showAddDialog, setShowAddDialog] = useState(false);
+  const [form, setForm] = useState<SourceForm>(EMPTY_FORM);
+  const [filesSourceId, setFilesSourceId] = useState<number | null>(null);
+  const trpcUtils = trpc.useUtils();
+
+  const { data: sources, refetch } = trpc.documentSources.list.useQuery(
+    { workspaceId },
+    {
+      enabled: !!workspaceId,
+      refetchInterval: (query) => (query.state.data?.some((source) => source.status === "syncing") ? 3000 : false),
+    }
+  );
+
+  const { data: files, isLoading: filesLoading } = trpc.documentSources.files.useQuery(
+    { id: filesSourceId! },
+    { enabled: filesSourceId !== null }
+  );
+
+  // Refresh the document list once a sync finishes
+  const syncing = sources?.some((source) => source.status === "syncing") ?? false;
+  const wasSyncing = useRef(false);
+  useEffect(() => {
+    if (wasSyncing.current && !syncing) {
+      trpcUtils.documentsManagement.listDocuments.invalidate();
+    }
+    wasSyncing.current = syncing;
+  }, [syncing, trpcUtils]);
+
+  const createSource = trpc.documentSources.create.useMutation({
+    onSuccess: (source) => {
+      toast.success(`Source "${source.name}" added. Importing its files...`);
+      setShowAddDialog(false);
+      setForm(EMPTY_FORM);
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to add source: ${error.message}`);
+    },
+  });
+
+  const updateSource = trpc.documentSources.update.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      toast.error(`Failed to update source: ${error.message}`);
+    },
+  });
+
+  const deleteSource = trpc.documentSources.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Source deleted");
+      refetch();
+      trpcUtils.documentsManagement.listDocuments.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`Failed to delete source: ${error.message}`);
+    },
+  });
+
+  const syncSource = trpc.documentSources.sync.useMutation({
+    onSuccess: () => {
+      toast.success("Sync started");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(`Failed to start sync: ${error.message}`);
+    },
+  });
+
+  const handleCreate = () => {
+    createSource.mutate({
+      workspaceId,
+      name: form.name.trim(),
+      type: form.type,
+      path: form.path.trim(),
+      branch: form.type === "git" ? form.branch.trim() || null : null,
+      includePatterns: splitPatterns(form.includePatterns),
+      excludePatterns: splitPatterns(form.excludePatterns),
+      cronExpression: form.cronExpression.trim() || null,
+      watch: form.type === "folder" && form.watch,
+    });
+  };
+
+  const handleDelete = (id: number, name: string) => {
+    if (!confirm(`Delete source "${name}"? Its documents and their vectors will be removed as well.`)) {
+      return;
+    }
+    deleteSource.mutate({ id });
+  };
+
+  const getSyncBadge = (source: NonNullable<typeof sources>[number]) => {
+    if (source.status === "syncing") {
+      return (
+        <Badge variant="secondary" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Syncing
+        </Badge>
+      );
+    }
+    switch (source.lastSyncStatus) {
+      case "completed":
+        return (
+          <Badge variant="default" className="gap-1">
+            <CheckCircle className="h-3 w-3" />
+            Synced
+          </Badge>
+        );
+      case "partial":
+        return (
+          <Badge variant="outline" className="gap-1 text-amber-600 border-amber-600">
+            <AlertTriangle className="h-3 w-3" />
+            Partially synced
+          </Badge>
+        );
+      case "failed":
+        return (
+          <Badge variant="destructive" className="gap-1">
+            <XCircle className="h-3 w-3" />
+            Sync failed
+          </Badge>
+        );
+      default:
+        return (
+          <Badge variant="outline" className="gap-1">
+            <Clock className="h-3 w-3" />
+            Never synced
+          </Badge>
+        );
+    }
+  };
+
+  const filesSource = sources?.find((source) => source.id === filesSourceId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Sources</CardTitle>
+          <CardDescription>
+            Folders and Git repositories whose files are kept in sync with this workspace's documents
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setShowAddDialog(true)}>
+          <Plus className="h-4 w-4" />
+          Add Source
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!sources || sources.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No sources connected. Documents only arrive through manual upload.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {sources.map((source) => (
+              <div key={source.id} className="flex items-start justify-between gap-4 rounded-md border p-4">
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {source.type === "git" ? (
+                      <GitBranch className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <FolderSync className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    <span className="font-medium">{source.name}</span>
+                    {getSyncBadge(source)}
+                    {!source.enabled && <Badge variant="outline">Paused</Badge>}
+                    {source.watch && source.enabled && <Badge variant="outline">Watching</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono break-all">
+                    {source.path}
+                    {source.type === "git" && ` @ ${source.branch || "HEAD"}`}
+                    {source.lastRevision && ` (${source.lastRevision.slice(0, 8)})`}
+                  </p>
+                  <div className="flex items-center gap-4 text-xs text-muted-foreground flex-wrap">
+                    <span>{source.fileCount} files</span>
+                    {source.lastSyncAt && (
+                      <span>Last sync {formatDistanceToNow(new Date(source.lastSyncAt), { addSuffix: true })}</span>
+                    )}
+                    {source.lastSyncStats && (
+                      <span>
+                        +{source.lastSyncStats.added} added · {source.lastSyncStats.updated} updated ·{" "}
+                        {source.lastSyncStats.deleted} deleted
+                        {source.lastSyncStats.failed > 0 && ` · ${source.lastSyncStats.failed} failed`}
+                      </span>
+                    )}
+                    {source.nextSyncAt && (
+                      <span>Next sync {formatDistanceToNow(new Date(source.nextSyncAt), { addSuffix: true })}</span>
+                    )}
+                  </div>
+                  {source.lastError && <p className="text-xs text-destructive">{source.lastError}</p>}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={source.enabled}
+                    onCheckedChange={(enabled) => updateSource.mutate({ id: source.id, enabled })}
+                    title={source.enabled ? "Pause scheduled and watched syncs" : "Resume syncing"}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Sync now"
+                    disabled={source.status === "syncing" || syncSource.isPending}
+                    onClick={() => syncSource.mutate({ id: source.id })}
+                  >
+                    <RefreshCw className={`h-4 w-4 ${source.status === "syncing" ? "animate-spin" : ""}`} />
+                  </Button>
+                  <Button variant="outline" size="icon" title="Files" onClick={() => setFilesSourceId(source.id)}>
+                    <List className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Delete source"
+                    disabled={deleteSource.isPending}
+                    onClick={() => handleDelete(source.id, source.name)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add Source Dialog */}
+      <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Add Source</DialogTitle>
+            <DialogDescription>
+              Connect a directory or a local Git clone on the server. Its files are imported now and kept in sync.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="source-name">Name</Label>
+                <Input
+                  id="source-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Product docs"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={(type) => setForm({ ...form, type: type as SourceForm["type"] })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="folder">Folder</SelectItem>
+                    <SelectItem value="git">Git repository</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source-path">{form.type === "git" ? "Clone path" : "Directory"}</Label>
+              <Input
+                id="source-path"
+                value={form.path}
+                onChange={(e) => setForm({ ...form, path: e.target.value })}
+                placeholder={form.type === "git" ? "/srv/repos/handbook" : "/srv/shared/docs"}
+                className="font-mono"
+              />
+            </div>
+            {form.type === "git" && (
+              <div className="space-y-2">
+                <Label htmlFor="source-branch">Branch</Label>
+                <Input
+                  id="source-branch"
+                  value={form.branch}
+                  onChange={(e) => setForm({ ...form, branch: e.target.value })}
+                  placeholder="HEAD"
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="source-include">Include</Label>
+                <Input
+                  id="source-include"
+                  value={form.includePatterns}
+                  onChange={(e) => setForm({ ...form, includePatterns: e.target.value })}
+                  placeholder="docs/**, *.md"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="source-exclude">Exclude</Label>
+                <Input
+                  id="source-exclude"
+                  value={form.excludePatterns}
+                  onChange={(e) => setForm({ ...form, excludePatterns: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="source-cron">Schedule</Label>
+              <Input
+                id="source-cron"
+                value={form.cronExpression}
+                onChange={(e) => setForm({ ...form, cronExpression: e.target.value })}
+                placeholder="0 * * * * (leave empty to sync on demand)"
+                className="font-mono"
+              />
+            </div>
+            {form.type === "folder" && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="source-watch">Watch for changes</Label>
+                  <p className="text-xs text-muted-foreground">Sync a few seconds after files change</p>
+                </div>
+                <Switch
+                  id="source-watch"
+                  checked={form.watch}
+                  onCheckedChange={(watch) => setForm({ ...form, watch })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowAddDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={!form.name.trim() || !form.path.trim() || createSource.isPending}
+            >
+              {createSource.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Source
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Tracked Files Dialog */}
+      <Dialog open={filesSourceId !== null} onOpenChange={(open) => !open && setFilesSourceId(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{filesSource?.name} files</DialogTitle>
+            <DialogDescription>Files tracked by this source and the outcome of their last sync</DialogDescription>
+          </DialogHeader>
+          {filesLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : !files || files.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No files synced yet</p>
+          ) : (
+            <div className="space-y-1">
+              {files.map((file) => (
+                <div key={file.id} className="flex items-start justify-between gap-4 border-b py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-mono text-xs break-all">{file.path}</p>
+                    {file.error && <p className="text-xs text-destructive">{file.error}</p>}
+                  </div>
+                  {file.status === "synced" ? (
+                    <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 flex-shrink-0 text-destructive" />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
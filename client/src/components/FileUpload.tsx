@@ -13,7 +13,7 @@ interface FileUploadProps {
 
 export default function FileUpload({
   onUpload,
-  accept = ".pdf,.docx,.txt,.csv,.md",
+  accept = ".pdf,.docx,.pptx,.xlsx,.epub,.html,.htm,.txt,.csv,.md,.json,.yaml,.yml,.ts,.tsx,.js,.jsx,.py,.go,.rs,.java,.rb,.cs,.cpp,.c,.h,.sql,.sh",
   maxSize = 50,
   multiple = true,
 }: FileUploadProps) {
@@ -121,7 +121,7 @@ export default function FileUpload({
             Drop files here or click to browse
           </h3>
           <p className="text-sm text-muted-foreground mb-4">
-            Supported formats: PDF, DOCX, TXT, CSV, MD (Max {maxSize}MB per file)
+            Supported formats: PDF, DOCX, PPTX, XLSX, EPUB, HTML, TXT, CSV, MD, JSON, YAML and source code (Max {maxSize}MB per file)
           </p>
           <input
             type="file"
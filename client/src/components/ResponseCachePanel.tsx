@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+const RANGES = [7, 30, 90];
+
+interface Props {
+  // Fixes the workspace; without it the panel lets the user pick one
+  workspaceId?: number;
+}
+
+/**
+ * Response cache hit rate, misses and what the hits saved for a workspace,
+ * per day, with how many responses are cached and a way to clear them
+ */
+export function ResponseCachePanel({ workspaceId: fixedWorkspaceId }: Props) {
+  const [selectedWorkspaceId, setSelectedWorkspaceId] = useState<number | null>(null);
+  const [days, setDays] = useState(30);
+  const workspaceId = fixedWorkspaceId ?? selectedWorkspaceId;
+
+  const { data: workspaces } = trpc.workspaces.list.useQuery(undefined, { enabled: fixedWorkspaceId === undefined });
+
+  useEffect(() => {
+    if (selectedWorkspaceId === null && workspaces?.[0]) setSelectedWorkspaceId(workspaces[0].id);
+  }, [workspaces, selectedWorkspaceId]);
+
+  const { data: stats, isLoading, refetch } = trpc.providerAnalytics.getResponseCacheStats.useQuery(
+    { workspaceId: workspaceId!, days },
+    { enabled: workspaceId !== null, refetchInterval: 30000 }
+  );
+
+  const clearCache = trpc.providerAnalytics.clearResponseCache.useMutation({
+    onSuccess: ({ deleted }) => {
+      toast.success(`Cleared ${deleted} cached response${deleted === 1 ? "" : "s"}`);
+      refetch();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const handleClear = () => {
+    if (confirm("Clear every cached response of this workspace?")) {
+      clearCache.mutate({ workspaceId: workspaceId! });
+    }
+  };
+
+  const totals = stats?.totals;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle>Response Cache</CardTitle>
+          <CardDescription>
+            Requests answered from cached responses instead of a provider, and what that saved
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {fixedWorkspaceId === undefined && (
+            <Select
+              value={selectedWorkspaceId !== null ? String(selectedWorkspaceId) : undefined}
+              onValueChange={(value) => setSelectedWorkspaceId(Number(value))}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Workspace" />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaces?.map((workspace) => (
+                  <SelectItem key={workspace.id} value={String(workspace.id)}>
+                    {workspace.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGES.map((range) => (
+                <SelectItem key={range} value={String(range)}>
+                  Last {range} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClear}
+            disabled={workspaceId === null || clearCache.isPending || !stats?.entries}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !totals ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <p className="text-xs text-muted-foreground">Hit rate</p>
+                <p className="text-2xl font-bold">
+                  {totals.hitRate !== null ? `${(totals.hitRate * 100).toFixed(1)}%` : "N/A"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Hits (exact / semantic)</p>
+                <p className="text-2xl font-bold">
+                  {totals.exactHits.toLocaleString()} / {totals.semanticHits.toLocaleString()}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Misses</p>
+                <p className="text-2xl font-bold">{totals.misses.toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground">{totals.bypassed.toLocaleString()} bypassed</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Tokens saved</p>
+                <p className="text-2xl font-bold">{totals.tokensSaved.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Cost saved</p>
+                <p className="text-2xl font-bold">${totals.costSaved.toFixed(4)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {stats.entries.toLocaleString()} live entries
+                </p>
+              </div>
+            </div>
+
+            {stats.daily.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No cached requests in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead className="text-right">Exact hits</TableHead>
+                    <TableHead className="text-right">Semantic hits</TableHead>
+                    <TableHead className="text-right">Misses</TableHead>
+                    <TableHead className="text-right">Bypassed</TableHead>
+                    <TableHead className="text-right">Hit rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...stats.daily].reverse().map((row) => {
+                    const hits = row.exactHits + row.semanticHits;
+                    const lookups = hits + row.misses;
+                    return (
+                      <TableRow key={String(row.day)}>
+                        <TableCell>{format(new Date(row.day), "MMM d, yyyy")}</TableCell>
+                        <TableCell className="text-right">{row.exactHits.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.semanticHits.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.misses.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.bypassed.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          {lookups > 0 ? `${((hits / lookups) * 100).toFixed(1)}%` : "N/A"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
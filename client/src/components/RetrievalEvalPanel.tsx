@@ -0,0 +1,576 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Play, Plus, Trash2, GitCompare, ArrowUp, ArrowDown } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+type SearchMode = "vector" | "lexical" | "hybrid";
+
+const SEARCH_MODES: SearchMode[] = ["vector", "lexical", "hybrid"];
+const NO_JUDGE = "none";
+
+interface ParsedCase {
+  question: string;
+  expectedDocumentIds: number[];
+  expectedChunkIds: number[];
+  referenceAnswer: string | null;
+}
+
+/**
+ * One case per line: "question | doc:12, chunk:345 | optional reference answer"
+ */
+function parseCaseLines(text: string): { cases: ParsedCase[]; errors: string[] } {
+  const cases: ParsedCase[] = [];
+  const errors: string[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    const [question, expected = "", ...answer] = line.split("|").map((part) => part.trim());
+    const documentIds: number[] = [];
+    const chunkIds: number[] = [];
+    for (const id of expected.split(/[,\s]+/).filter(Boolean)) {
+      const match = /^(doc|chunk):(\d+)$/i.exec(id);
+      if (!match) {
+        errors.push(`Line ${index + 1}: "${id}" is not doc:<id> or chunk:<id>`);
+        continue;
+      }
+      (match[1].toLowerCase() === "doc" ? documentIds : chunkIds).push(Number(match[2]));
+    }
+    if (!question) {
+      errors.push(`Line ${index + 1}: missing question`);
+    } else if (documentIds.length === 0 && chunkIds.length === 0) {
+      errors.push(`Line ${index + 1}: no expected documents or chunks`);
+    } else {
+      cases.push({
+        question,
+        expectedDocumentIds: documentIds,
+        expectedChunkIds: chunkIds,
+        referenceAnswer: answer.join("|") || null,
+      });
+    }
+  });
+  return { cases, errors };
+}
+
+function formatScore(value: number | null | undefined): string {
+  return typeof value === "number" ? value.toFixed(3) : "—";
+}
+
+function Delta({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  if (Math.abs(value) < 0.0005) return <span className="text-muted-foreground">±0</span>;
+  return value > 0 ? (
+    <span className="inline-flex items-center text-green-600">
+      <ArrowUp className="h-3 w-3" />
+      {value.toFixed(3)}
+    </span>
+  ) : (
+    <span className="inline-flex items-center text-red-600">
+      <ArrowDown className="h-3 w-3" />
+      {Math.abs(value).toFixed(3)}
+    </span>
+  );
+}
+
+/**
+ * Evaluation sets for a workspace's retrieval: recall@k, MRR and nDCG per run,
+ * judged answer faithfulness, and run-to-run comparison
+ */
+export function RetrievalEvalPanel() {
+  const [workspaceId, setWorkspaceId] = useState<number | null>(null);
+  const [setId, setSetId] = useState<number | null>(null);
+  const [showSetDialog, setShowSetDialog] = useState(false);
+  const [newSetName, setNewSetName] = useState("");
+  const [caseText, setCaseText] = useState("");
+  const [k, setK] = useState(10);
+  const [label, setLabel] = useState("");
+  const [modes, setModes] = useState<SearchMode[]>([]);
+  const [judgeProviderId, setJudgeProviderId] = useState(NO_JUDGE);
+  const [judgeModel, setJudgeModel] = useState("");
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+
+  const { data: workspaces } = trpc.workspaces.list.useQuery();
+  const { data: providers } = trpc.providers.list.useQuery({ enabledOnly: true });
+
+  useEffect(() => {
+    if (workspaceId === null && workspaces?.[0]) setWorkspaceId(workspaces[0].id);
+  }, [workspaces, workspaceId]);
+
+  const { data: sets, refetch: refetchSets } = trpc.retrievalEval.listSets.useQuery(
+    { workspaceId: workspaceId! },
+    { enabled: workspaceId !== null }
+  );
+
+  useEffect(() => {
+    if (sets && !sets.some((set) => set.id === setId)) setSetId(sets[0]?.id ?? null);
+  }, [sets, setId]);
+
+  const { data: activeSet, refetch: refetchSet } = trpc.retrievalEval.getSet.useQuery(
+    { id: setId! },
+    { enabled: setId !== null }
+  );
+
+  const { data: runs, refetch: refetchRuns } = trpc.retrievalEval.runs.useQuery(
+    { setId: setId! },
+    {
+      enabled: setId !== null,
+      refetchInterval: (query) => (query.state.data?.some((run) => run.status === "running") ? 3000 : false),
+    }
+  );
+
+  const [baseRunId, runId] = compareIds.length === 2 ? [...compareIds].sort((a, b) => a - b) : [null, null];
+  const { data: comparison } = trpc.retrievalEval.compare.useQuery(
+    { baseRunId: baseRunId!, runId: runId! },
+    { enabled: baseRunId !== null && runId !== null }
+  );
+
+  const parsed = parseCaseLines(caseText);
+
+  const createSet = trpc.retrievalEval.createSet.useMutation({
+    onSuccess: (set) => {
+      toast.success(`Created "${set.name}" with ${set.cases.length} cases`);
+      setShowSetDialog(false);
+      setNewSetName("");
+      setCaseText("");
+      refetchSets().then(() => setSetId(set.id));
+    },
+    onError: (error) => toast.error(`Failed to create set: ${error.message}`),
+  });
+
+  const addCases = trpc.retrievalEval.addCases.useMutation({
+    onSuccess: (cases) => {
+      toast.success(`Added ${cases.length} cases`);
+      setShowSetDialog(false);
+      setCaseText("");
+      refetchSet();
+      refetchSets();
+    },
+    onError: (error) => toast.error(`Failed to add cases: ${error.message}`),
+  });
+
+  const deleteCase = trpc.retrievalEval.deleteCase.useMutation({
+    onSuccess: () => {
+      refetchSet();
+      refetchSets();
+    },
+    onError: (error) => toast.error(`Failed to delete case: ${error.message}`),
+  });
+
+  const deleteSet = trpc.retrievalEval.deleteSet.useMutation({
+    onSuccess: () => {
+      toast.success("Evaluation set deleted");
+      setSetId(null);
+      refetchSets();
+    },
+    onError: (error) => toast.error(`Failed to delete set: ${error.message}`),
+  });
+
+  const startRun = trpc.retrievalEval.run.useMutation({
+    onSuccess: (started) => {
+      toast.success(started.length > 1 ? `Started ${started.length} runs` : "Evaluation started");
+      refetchRuns();
+    },
+    onError: (error) => toast.error(`Failed to start evaluation: ${error.message}`),
+  });
+
+  const handleSaveCases = () => {
+    if (setId !== null && !newSetName.trim()) {
+      addCases.mutate({ setId, cases: parsed.cases });
+    } else {
+      createSet.mutate({ workspaceId: workspaceId!, name: newSetName.trim(), cases: parsed.cases });
+    }
+  };
+
+  const handleRun = () => {
+    const judge =
+      judgeProviderId !== NO_JUDGE
+        ? { providerId: Number(judgeProviderId), model: judgeModel.trim() || undefined }
+        : undefined;
+    startRun.mutate({
+      setId: setId!,
+      k,
+      label: label.trim() || undefined,
+      variants: modes.map((mode) => ({
+        label: [label.trim(), mode].filter(Boolean).join(" · "),
+        profile: { mode },
+      })),
+      // The judged answers are written by the same model
+      generator: judge,
+      judge,
+    });
+  };
+
+  const toggleCompare = (id: number) => {
+    setCompareIds((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids.slice(-1), id]));
+  };
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle>Retrieval Evaluation</CardTitle>
+          <CardDescription>
+            Score a workspace's retrieval against questions with known answers, and compare runs after changing
+            chunking, embeddings or search settings
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={workspaceId !== null ? String(workspaceId) : undefined}
+            onValueChange={(value) => {
+              setWorkspaceId(Number(value));
+              setCompareIds([]);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Workspace" />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces?.map((workspace) => (
+                <SelectItem key={workspace.id} value={String(workspace.id)}>
+                  {workspace.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={setId !== null ? String(setId) : undefined}
+            onValueChange={(value) => {
+              setSetId(Number(value));
+              setCompareIds([]);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Evaluation set" />
+            </SelectTrigger>
+            <SelectContent>
+              {sets?.map((set) => (
+                <SelectItem key={set.id} value={String(set.id)}>
+                  {set.name} ({set.caseCount})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={workspaceId === null}
+            onClick={() => {
+              setNewSetName("");
+              setShowSetDialog(true);
+            }}
+          >
+            <Plus className="h-4 w-4" />
+            {setId !== null ? "Cases" : "New Set"}
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {!activeSet ? (
+          <p className="text-sm text-muted-foreground">
+            No evaluation sets yet. Create one with questions and the documents or chunks that should answer them.
+          </p>
+        ) : (
+          <>
+            {/* Cases */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="font-semibold">
+                  {activeSet.name} · {activeSet.cases.length} cases
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-1 text-destructive"
+                  disabled={deleteSet.isPending}
+                  onClick={() => {
+                    if (confirm(`Delete "${activeSet.name}" with its cases and run history?`)) {
+                      deleteSet.mutate({ id: activeSet.id });
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete set
+                </Button>
+              </div>
+              <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+                {activeSet.cases.map((evalCase) => (
+                  <div key={evalCase.id} className="flex items-start justify-between gap-2 px-3 py-2 text-sm">
+                    <div className="flex-1">
+                      <div>{evalCase.question}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {evalCase.expectedChunkIds.length > 0
+                          ? `chunks ${evalCase.expectedChunkIds.join(", ")}`
+                          : `documents ${evalCase.expectedDocumentIds.join(", ")}`}
+                        {evalCase.referenceAnswer && " · has reference answer"}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete case"
+                      disabled={deleteCase.isPending}
+                      onClick={() => deleteCase.mutate({ id: evalCase.id })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Run */}
+            <div className="grid gap-4 md:grid-cols-5 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="eval-label">Label</Label>
+                <Input
+                  id="eval-label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="bge-base, 512 tokens"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="eval-k">k</Label>
+                <Input
+                  id="eval-k"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={k}
+                  onChange={(e) => setK(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Compare search modes</Label>
+                <div className="flex items-center gap-3 h-9">
+                  {SEARCH_MODES.map((mode) => (
+                    <label key={mode} className="flex items-center gap-1 text-sm capitalize">
+                      <Checkbox
+                        checked={modes.includes(mode)}
+                        onCheckedChange={(checked) =>
+                          setModes((current) => (checked ? [...current, mode] : current.filter((m) => m !== mode)))
+                        }
+                      />
+                      {mode}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Faithfulness judge</Label>
+                <div className="flex gap-2">
+                  <Select value={judgeProviderId} onValueChange={setJudgeProviderId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_JUDGE}>Retrieval only</SelectItem>
+                      {providers?.map((provider) => (
+                        <SelectItem key={provider.id} value={String(provider.id)}>
+                          {provider.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {judgeProviderId !== NO_JUDGE && (
+                    <Input value={judgeModel} onChange={(e) => setJudgeModel(e.target.value)} placeholder="Model" />
+                  )}
+                </div>
+              </div>
+              <Button
+                className="gap-2"
+                disabled={activeSet.cases.length === 0 || startRun.isPending}
+                onClick={handleRun}
+              >
+                {startRun.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                Run evaluation
+              </Button>
+            </div>
+
+            {/* History */}
+            {runs && runs.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">Select two runs to compare them.</div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <TableHead>Run</TableHead>
+                      <TableHead>Profile</TableHead>
+                      <TableHead className="text-right">Recall@k</TableHead>
+                      <TableHead className="text-right">MRR</TableHead>
+                      <TableHead className="text-right">nDCG</TableHead>
+                      <TableHead className="text-right">Faithfulness</TableHead>
+                      <TableHead className="text-right">Latency</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map((run) => (
+                      <TableRow key={run.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={compareIds.includes(run.id)}
+                            disabled={run.status !== "completed"}
+                            onCheckedChange={() => toggleCompare(run.id)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{run.label || `Run #${run.id}`}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })} · k={run.k}
+                          </div>
+                          {run.status === "running" && (
+                            <Badge variant="secondary" className="gap-1 mt-1">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              Running
+                            </Badge>
+                          )}
+                          {run.status === "failed" && (
+                            <Badge variant="destructive" className="mt-1" title={run.error ?? undefined}>
+                              Failed
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {run.profile.mode}
+                          {run.profile.reranker && ` + ${run.profile.reranker.model}`} ·{" "}
+                          {run.profile.embeddingModel ?? "default embeddings"} · {run.profile.chunking.strategy}{" "}
+                          {run.profile.chunking.size}
+                          {run.profile.chunking.tokenizer ? " tokens" : " chars"}
+                          {run.profile.chunking.parentSize && ` / parent ${run.profile.chunking.parentSize}`}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatScore(run.metrics?.recallAtK)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatScore(run.metrics?.mrr)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatScore(run.metrics?.ndcg)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatScore(run.metrics?.faithfulness)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {run.metrics ? `${run.metrics.latencyMs}ms` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {/* Comparison */}
+            {comparison && (
+              <div className="space-y-3 rounded-md border p-4">
+                <div className="flex items-center gap-2 font-semibold">
+                  <GitCompare className="h-4 w-4" />
+                  {comparison.candidate.label || `Run #${comparison.candidate.id}`} vs{" "}
+                  {comparison.base.label || `Run #${comparison.base.id}`}
+                </div>
+                <div className="grid grid-cols-5 gap-2 text-sm">
+                  <div>Recall@k <Delta value={comparison.deltas.recallAtK} /></div>
+                  <div>MRR <Delta value={comparison.deltas.mrr} /></div>
+                  <div>nDCG <Delta value={comparison.deltas.ndcg} /></div>
+                  <div>Faithfulness <Delta value={comparison.deltas.faithfulness} /></div>
+                  <div>Correctness <Delta value={comparison.deltas.answerCorrectness} /></div>
+                </div>
+                <div className="max-h-64 overflow-y-auto divide-y text-sm">
+                  {comparison.cases
+                    .filter((c) => c.change !== "unchanged")
+                    .map((c) => (
+                      <div key={c.caseId} className="flex items-center justify-between gap-4 py-1">
+                        <span className="flex-1">{c.question}</span>
+                        <span className="font-mono text-xs text-muted-foreground">
+                          nDCG {formatScore(c.base?.ndcg)} → {formatScore(c.candidate?.ndcg)}
+                        </span>
+                        <Badge
+                          variant={c.change === "regressed" ? "destructive" : "outline"}
+                          className={c.change === "improved" ? "text-green-600 border-green-600" : undefined}
+                        >
+                          {c.change}
+                        </Badge>
+                      </div>
+                    ))}
+                  {comparison.cases.every((c) => c.change === "unchanged") && (
+                    <p className="text-muted-foreground py-1">Every case ranked the same in both runs.</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {/* New Set / Add Cases Dialog */}
+      <Dialog open={showSetDialog} onOpenChange={setShowSetDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{setId !== null ? "Add Cases" : "New Evaluation Set"}</DialogTitle>
+            <DialogDescription>
+              One case per line: <code>question | doc:12, chunk:345 | optional reference answer</code>. Document and
+              chunk IDs are shown in the document preview on the Documents page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="eval-set-name">
+                {setId !== null ? "New set name (leave empty to add to the selected set)" : "Name"}
+              </Label>
+              <Input
+                id="eval-set-name"
+                value={newSetName}
+                onChange={(e) => setNewSetName(e.target.value)}
+                placeholder="Support FAQ"
+              />
+            </div>
+            <Textarea
+              value={caseText}
+              onChange={(e) => setCaseText(e.target.value)}
+              rows={10}
+              className="font-mono text-xs"
+              placeholder="How do I reset the router? | doc:12 | Hold the reset button for 10 seconds."
+            />
+            {parsed.errors.length > 0 && (
+              <div className="text-xs text-destructive space-y-1">
+                {parsed.errors.slice(0, 5).map((error) => (
+                  <div key={error}>{error}</div>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSetDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveCases}
+              disabled={
+                parsed.errors.length > 0 ||
+                createSet.isPending ||
+                addCases.isPending ||
+                (setId === null && !newSetName.trim()) ||
+                (setId !== null && !newSetName.trim() && parsed.cases.length === 0)
+              }
+            >
+              {(createSet.isPending || addCases.isPending) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save {parsed.cases.length} cases
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -59,6 +59,7 @@ export function RoutingAuditViewer({ workspaceId }: Props) {
 
   const getRouteColor = (route: string) => {
     if (route === 'PRIMARY') return 'bg-green-500/10 text-green-500 border-green-500/20';
+    if (route.startsWith('CACHE_')) return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
     if (route.startsWith('FALLBACK_1')) return 'bg-amber-500/10 text-amber-500 border-amber-500/20';
     return 'bg-red-500/10 text-red-500 border-red-500/20';
   };
@@ -221,6 +222,9 @@ export function RoutingAuditViewer({ workspaceId }: Props) {
                             {log.latencyMs}ms
                           </span>
                         )}
+                        {log.ttftMs != null && (
+                          <span>TTFT {log.ttftMs}ms</span>
+                        )}
                         {log.tokensUsed && (
                           <span>{log.tokensUsed} tokens</span>
                         )}
@@ -247,8 +251,59 @@ export function RoutingAuditViewer({ workspaceId }: Props) {
                             <span className="ml-2">${log.estimatedCost}</span>
                           </div>
                         )}
+                        {log.decision && (
+                          <div>
+                            <span className="text-muted-foreground">Strategy:</span>
+                            <span className="ml-2">{log.decision.strategy.replace("_", "-")}</span>
+                            {log.decision.explored && (
+                              <Badge variant="outline" className="ml-2 text-xs">Exploration</Badge>
+                            )}
+                          </div>
+                        )}
                       </div>
 
+                      {log.decision && log.decision.candidates.length > 0 && (
+                        <div>
+                          <span className="text-sm text-muted-foreground">Candidates:</span>
+                          <table className="mt-2 w-full text-xs">
+                            <thead className="text-muted-foreground">
+                              <tr className="text-left">
+                                <th className="font-normal py-1">Provider</th>
+                                <th className="font-normal py-1 text-right">Score</th>
+                                <th className="font-normal py-1 text-right">Adaptive</th>
+                                <th className="font-normal py-1 text-right">Errors</th>
+                                <th className="font-normal py-1 text-right">p95</th>
+                                <th className="font-normal py-1 text-right">Feedback</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {log.decision.candidates.map((candidate) => (
+                                <tr key={candidate.providerId} className={candidate.eligible ? "" : "text-muted-foreground line-through"}>
+                                  <td className="py-1">{candidate.providerName}</td>
+                                  <td className="py-1 text-right">{candidate.totalScore.toFixed(1)}</td>
+                                  <td className="py-1 text-right">{candidate.adaptiveScore?.toFixed(1) ?? "-"}</td>
+                                  <td className="py-1 text-right">
+                                    {candidate.observed?.errorRate != null
+                                      ? `${(candidate.observed.errorRate * 100).toFixed(1)}%`
+                                      : "-"}
+                                  </td>
+                                  <td className="py-1 text-right">
+                                    {candidate.observed?.p95LatencyMs != null
+                                      ? `${Math.round(candidate.observed.p95LatencyMs)}ms`
+                                      : "-"}
+                                  </td>
+                                  <td className="py-1 text-right">
+                                    {candidate.observed
+                                      ? `${candidate.observed.thumbsUp}/${candidate.observed.thumbsDown}`
+                                      : "-"}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+
                       {log.auditReasons && (log.auditReasons as string[]).length > 0 && (
                         <div>
                           <span className="text-sm text-muted-foreground">Routing Reasons:</span>
@@ -45,6 +45,8 @@ export default function TriggerCreationDialog({ open, onOpenChange }: TriggerCre
     ordering: "none" as "none" | "fifo",
     ingestionRetryPolicy: "{}",
     pollingInterval: 0,
+    schedule: "0 9 * * *",
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
     
     // Gate T7: Side-Effects Declaration
     sideEffects: ["workflow_state_write"],
@@ -125,6 +127,8 @@ export default function TriggerCreationDialog({ open, onOpenChange }: TriggerCre
       workflowContextSchema: JSON.parse(formData.workflowContextSchema),
       ingestionRetryPolicy: formData.ingestionRetryPolicy ? JSON.parse(formData.ingestionRetryPolicy) : undefined,
       pollingInterval: formData.pollingInterval || undefined,
+      schedule: formData.ingestionMode === "schedule" ? formData.schedule : undefined,
+      timezone: formData.ingestionMode === "schedule" ? formData.timezone : undefined,
       authorizationScopes: formData.authorizationScopes.length > 0 ? formData.authorizationScopes : undefined,
       errorTaxonomy: JSON.parse(JSON.stringify(formData.errorTaxonomy)),
       observabilityConfig: JSON.parse(formData.observabilityConfig),
@@ -397,6 +401,33 @@ export default function TriggerCreationDialog({ open, onOpenChange }: TriggerCre
                     />
                   </div>
                 )}
+                {formData.ingestionMode === "schedule" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="schedule">Cron Expression</Label>
+                      <Input
+                        id="schedule"
+                        value={formData.schedule}
+                        onChange={(e) => setFormData({ ...formData, schedule: e.target.value })}
+                        placeholder="0 9 * * MON-FRI"
+                        className="font-mono text-sm"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        minute hour day-of-month month day-of-week, or @hourly / @daily / @weekly.
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="timezone">Time Zone</Label>
+                      <Input
+                        id="timezone"
+                        value={formData.timezone}
+                        onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                        placeholder="Europe/Berlin"
+                      />
+                    </div>
+                    <SchedulePreview cronExpression={formData.schedule} timezone={formData.timezone} />
+                  </>
+                )}
               </>
             )}
 
@@ -643,3 +674,31 @@ export default function TriggerCreationDialog({ open, onOpenChange }: TriggerCre
     </Dialog>
   );
 }
+
+function SchedulePreview({ cronExpression, timezone }: { cronExpression: string; timezone: string }) {
+  const preview = trpc.schedules.preview.useQuery(
+    { cronExpression, timezone: timezone || "UTC", count: 10 },
+    { enabled: cronExpression.trim().length > 0 }
+  );
+
+  if (!cronExpression.trim()) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label>Next 10 Fire Times</Label>
+      {preview.isLoading ? (
+        <p className="text-xs text-muted-foreground">Calculating...</p>
+      ) : preview.data?.valid ? (
+        <div className="p-3 bg-muted/50 border rounded space-y-1 font-mono text-xs">
+          {preview.data.fireTimes.map((time) => (
+            <div key={time}>
+              {new Date(time).toLocaleString(undefined, { timeZone: timezone || "UTC", timeZoneName: "short" })}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-red-400">{preview.data?.error || "Invalid schedule"}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,348 @@
+import { useState, useEffect } from "react";
+import { trpc, type RouterInputs } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Save, Search, FileSearch, Quote } from "lucide-react";
+import { toast } from "sonner";
+
+type RetrievalProfile = Exclude<RouterInputs["workspaces"]["updateRetrievalProfile"], void>["retrievalProfile"];
+
+interface Props {
+  workspaceId: number;
+  onSave?: () => void;
+}
+
+const MODE_OPTIONS = [
+  { value: 'hybrid', label: 'Hybrid', description: 'Vector and keyword search, fused' },
+  { value: 'vector', label: 'Vector', description: 'Semantic similarity only' },
+  { value: 'lexical', label: 'Keyword', description: 'BM25 keyword matching only' },
+] as const;
+
+const RERANKER_OPTIONS = [
+  { value: 'none', label: 'No reranking' },
+  { value: 'bge-reranker', label: 'BGE Reranker (Best Quality)' },
+  { value: 'cross-encoder', label: 'MiniLM Cross-Encoder (Faster)' },
+  { value: 'lexical', label: 'Word overlap (No model)' },
+] as const;
+
+const CITATION_OPTIONS = [
+  { value: 'source', label: '[Source N]' },
+  { value: 'numeric', label: '[N]' },
+  { value: 'none', label: 'No citations' },
+] as const;
+
+export function WorkspaceRetrievalProfile({ workspaceId, onSave }: Props) {
+  const [profile, setProfile] = useState<RetrievalProfile>({
+    mode: 'hybrid',
+    vectorWeight: 1,
+    lexicalWeight: 1,
+    reranker: null,
+    topK: 5,
+    scoreThreshold: null,
+    maxContextTokens: 4000,
+    citationStyle: 'source',
+  });
+  const [query, setQuery] = useState("");
+  const [testQuery, setTestQuery] = useState("");
+
+  const { data: currentProfile, isLoading } = trpc.workspaces.getRetrievalProfile.useQuery(
+    { id: workspaceId },
+    { enabled: !!workspaceId }
+  );
+
+  // Re-runs whenever the profile changes, so edits preview before they are saved
+  const preview = trpc.workspaces.testRetrieval.useQuery(
+    { id: workspaceId, query: testQuery, retrievalProfile: profile },
+    { enabled: !!workspaceId && testQuery.length > 0, placeholderData: (previous) => previous }
+  );
+
+  const updateProfile = trpc.workspaces.updateRetrievalProfile.useMutation({
+    onSuccess: () => {
+      toast.success("Retrieval profile updated");
+      onSave?.();
+    },
+    onError: (error) => {
+      toast.error(`Failed to update: ${error.message}`);
+    },
+  });
+
+  useEffect(() => {
+    if (currentProfile) {
+      const { collection, embeddingModel, chunking, ...settings } = currentProfile;
+      setProfile(settings as RetrievalProfile);
+    }
+  }, [currentProfile]);
+
+  const handleSave = () => {
+    updateProfile.mutate({
+      id: workspaceId,
+      retrievalProfile: profile,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Search Settings */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Search className="h-4 w-4" />
+            Search
+          </CardTitle>
+          <CardDescription>
+            How chat and agents search collection{" "}
+            <span className="font-mono">{currentProfile?.collection}</span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            {MODE_OPTIONS.map((option) => {
+              const isSelected = profile.mode === option.value;
+              return (
+                <button
+                  key={option.value}
+                  onClick={() => setProfile({ ...profile, mode: option.value })}
+                  className={`p-4 rounded-lg border text-left transition-all ${
+                    isSelected
+                      ? "border-primary bg-primary/5 ring-2 ring-primary/20"
+                      : "border-border hover:border-primary/50"
+                  }`}
+                >
+                  <span className="font-medium block mb-1">{option.label}</span>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </button>
+              );
+            })}
+          </div>
+          {profile.mode === 'hybrid' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vector-weight">Vector Weight</Label>
+                <Input
+                  id="vector-weight"
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={profile.vectorWeight}
+                  onChange={(e) => setProfile({ ...profile, vectorWeight: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lexical-weight">Keyword Weight</Label>
+                <Input
+                  id="lexical-weight"
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.1}
+                  value={profile.lexicalWeight}
+                  onChange={(e) => setProfile({ ...profile, lexicalWeight: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="top-k">Chunks per Query</Label>
+              <Input
+                id="top-k"
+                type="number"
+                min={1}
+                max={50}
+                value={profile.topK}
+                onChange={(e) => setProfile({ ...profile, topK: parseInt(e.target.value) || 5 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="score-threshold">Minimum Similarity</Label>
+              <Input
+                id="score-threshold"
+                type="number"
+                min={-1}
+                max={1}
+                step={0.05}
+                placeholder="None"
+                value={profile.scoreThreshold ?? ""}
+                onChange={(e) =>
+                  setProfile({
+                    ...profile,
+                    scoreThreshold: e.target.value === "" ? null : parseFloat(e.target.value),
+                  })
+                }
+              />
+              <p className="text-xs text-muted-foreground">Applies to vector matches only</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Reranker</Label>
+              <Select
+                value={profile.reranker?.model ?? "none"}
+                onValueChange={(v) =>
+                  setProfile({
+                    ...profile,
+                    reranker: v === "none" ? null : { model: v, candidates: profile.reranker?.candidates ?? 20 },
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RERANKER_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {profile.reranker && (
+              <div className="space-y-2">
+                <Label htmlFor="rerank-candidates">Rerank Candidates</Label>
+                <Input
+                  id="rerank-candidates"
+                  type="number"
+                  min={1}
+                  max={200}
+                  value={profile.reranker.candidates}
+                  onChange={(e) =>
+                    setProfile({
+                      ...profile,
+                      reranker: { ...profile.reranker!, candidates: parseInt(e.target.value) || 20 },
+                    })
+                  }
+                />
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Context Settings */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Quote className="h-4 w-4" />
+            Context
+          </CardTitle>
+          <CardDescription>How retrieved chunks are passed to the model</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="max-context-tokens">Max Context Tokens</Label>
+              <Input
+                id="max-context-tokens"
+                type="number"
+                min={100}
+                value={profile.maxContextTokens}
+                onChange={(e) => setProfile({ ...profile, maxContextTokens: parseInt(e.target.value) || 4000 })}
+              />
+              <p className="text-xs text-muted-foreground">Lowest-ranked chunks are dropped first</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Citation Style</Label>
+              <Select
+                value={profile.citationStyle}
+                onValueChange={(v) => {
+                  const option = CITATION_OPTIONS.find((o) => o.value === v);
+                  if (option) setProfile({ ...profile, citationStyle: option.value });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CITATION_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Test Query */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <FileSearch className="h-4 w-4" />
+            Test Query
+          </CardTitle>
+          <CardDescription>Preview what chat would retrieve with the settings above, before saving</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setTestQuery(query.trim());
+            }}
+          >
+            <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Ask something your documents answer..." />
+            <Button type="submit" variant="outline" disabled={!query.trim()}>
+              {preview.isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </form>
+          {preview.error && <p className="text-sm text-destructive">{preview.error.message}</p>}
+          {preview.data && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="secondary">{preview.data.chunks.length} chunks</Badge>
+                <Badge variant="secondary">~{preview.data.contextTokens} tokens</Badge>
+                {preview.data.droppedChunks > 0 && (
+                  <Badge variant="outline">{preview.data.droppedChunks} over budget</Badge>
+                )}
+                <Badge variant="outline">{preview.data.latencyMs} ms</Badge>
+              </div>
+              {preview.data.chunks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No chunks matched this query.</p>
+              ) : (
+                preview.data.chunks.map((chunk, idx) => (
+                  <div key={idx} className="p-3 rounded-lg border space-y-1">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        #{idx + 1} · document {chunk.metadata?.documentId ?? "?"}, chunk {chunk.metadata?.chunkIndex ?? "?"}
+                      </span>
+                      <span className="font-mono">{chunk.score.toFixed(3)}</span>
+                    </div>
+                    <p className="text-sm line-clamp-3">{chunk.text}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={updateProfile.isPending}>
+          {updateProfile.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save Retrieval Profile
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { trpc } from "@/lib/trpc";
+import { trpc, type RouterInputs } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -7,16 +7,26 @@ import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Save, Shield, Zap, Server, Cloud, Settings } from "lucide-react";
+import { Loader2, Save, Shield, Zap, Server, Cloud, Settings, Activity, Database } from "lucide-react";
 import { toast } from "sonner";
 
-interface RoutingProfile {
-  defaultRoute: 'AUTO' | 'LOCAL_ONLY' | 'CLOUD_ALLOWED';
-  dataSensitivity: 'LOW' | 'MED' | 'HIGH';
-  qualityTier: 'FAST' | 'BALANCED' | 'BEST';
-  fallback: { enabled: boolean; maxHops: number };
-  pinnedProviderId?: number | null;
-}
+type RoutingProfile = Exclude<RouterInputs["workspaces"]["updateRoutingProfile"], void>["routingProfile"];
+type AdaptiveRouting = NonNullable<RoutingProfile["adaptive"]>;
+type ResponseCache = NonNullable<RoutingProfile["cache"]>;
+
+const DEFAULT_CACHE: ResponseCache = {
+  enabled: true,
+  ttlSeconds: 3600,
+  semantic: false,
+  similarityThreshold: 0.95,
+};
+
+const DEFAULT_ADAPTIVE: AdaptiveRouting = {
+  enabled: false,
+  exploration: 'thompson',
+  epsilon: 0.1,
+  windowMinutes: 60,
+};
 
 interface Props {
   workspaceId: number;
@@ -42,19 +52,24 @@ const ROUTE_OPTIONS = [
     description: 'Allow cloud providers when beneficial',
     icon: Cloud,
   },
-];
+] as const;
 
 const SENSITIVITY_OPTIONS = [
   { value: 'LOW', label: 'Low', description: 'General data, no restrictions' },
   { value: 'MED', label: 'Medium', description: 'Business data, prefer secure providers' },
   { value: 'HIGH', label: 'High', description: 'Sensitive data, local/no-egress only' },
-];
+] as const;
 
 const QUALITY_OPTIONS = [
   { value: 'FAST', label: 'Fast', description: 'Prioritize speed, use cheaper models' },
   { value: 'BALANCED', label: 'Balanced', description: 'Balance speed and quality' },
   { value: 'BEST', label: 'Best', description: 'Prioritize quality, use premium models' },
-];
+] as const;
+
+const EXPLORATION_OPTIONS = [
+  { value: 'thompson', label: 'Thompson sampling', description: 'Try uncertain providers in proportion to their chance of being best' },
+  { value: 'epsilon_greedy', label: 'Epsilon-greedy', description: 'Use the best provider, and a random one for a fixed share of requests' },
+] as const;
 
 export function WorkspaceRoutingProfile({ workspaceId, onSave }: Props) {
   const [profile, setProfile] = useState<RoutingProfile>({
@@ -122,7 +137,7 @@ export function WorkspaceRoutingProfile({ workspaceId, onSave }: Props) {
               return (
                 <button
                   key={option.value}
-                  onClick={() => setProfile({ ...profile, defaultRoute: option.value as any })}
+                  onClick={() => setProfile({ ...profile, defaultRoute: option.value })}
                   className={`p-4 rounded-lg border text-left transition-all ${
                     isSelected
                       ? "border-primary bg-primary/5 ring-2 ring-primary/20"
@@ -157,7 +172,7 @@ export function WorkspaceRoutingProfile({ workspaceId, onSave }: Props) {
               return (
                 <button
                   key={option.value}
-                  onClick={() => setProfile({ ...profile, dataSensitivity: option.value as any })}
+                  onClick={() => setProfile({ ...profile, dataSensitivity: option.value })}
                   className={`p-4 rounded-lg border text-left transition-all ${
                     isSelected
                       ? "border-primary bg-primary/5 ring-2 ring-primary/20"
@@ -201,7 +216,7 @@ export function WorkspaceRoutingProfile({ workspaceId, onSave }: Props) {
               return (
                 <button
                   key={option.value}
-                  onClick={() => setProfile({ ...profile, qualityTier: option.value as any })}
+                  onClick={() => setProfile({ ...profile, qualityTier: option.value })}
                   className={`p-4 rounded-lg border text-left transition-all ${
                     isSelected
                       ? "border-primary bg-primary/5 ring-2 ring-primary/20"
@@ -258,6 +273,23 @@ export function WorkspaceRoutingProfile({ workspaceId, onSave }: Props) {
               </p>
             </div>
           )}
+          {profile.fallback.enabled && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="fallback-resume" className="font-medium">Resume Interrupted Streams</Label>
+                <p className="text-xs text-muted-foreground">
+                  If a response breaks off partway, continue it on the next provider
+                </p>
+              </div>
+              <Switch
+                id="fallback-resume"
+                checked={profile.fallback.resumeMidStream ?? false}
+                onCheckedChange={(checked) =>
+                  setProfile({ ...profile, fallback: { ...profile.fallback, resumeMidStream: checked } })
+                }
+              />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -289,6 +321,182 @@ export function WorkspaceRoutingProfile({ workspaceId, onSave }: Props) {
         </CardContent>
       </Card>
 
+      {/* Adaptive Routing */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Activity className="h-4 w-4" />
+            Adaptive Routing
+          </CardTitle>
+          <CardDescription>Learn from observed latency, error rates and chat feedback</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="adaptive-enabled" className="font-medium">Enable Adaptive Routing</Label>
+              <p className="text-xs text-muted-foreground">Adjust provider scores from their recent performance</p>
+            </div>
+            <Switch
+              id="adaptive-enabled"
+              checked={profile.adaptive?.enabled ?? false}
+              onCheckedChange={(checked) =>
+                setProfile({ ...profile, adaptive: { ...DEFAULT_ADAPTIVE, ...profile.adaptive, enabled: checked } })
+              }
+            />
+          </div>
+          {profile.adaptive?.enabled && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                {EXPLORATION_OPTIONS.map((option) => {
+                  const isSelected = profile.adaptive?.exploration === option.value;
+                  return (
+                    <button
+                      key={option.value}
+                      onClick={() =>
+                        setProfile({ ...profile, adaptive: { ...profile.adaptive!, exploration: option.value } })
+                      }
+                      className={`p-4 rounded-lg border text-left transition-all ${
+                        isSelected
+                          ? "border-primary bg-primary/5 ring-2 ring-primary/20"
+                          : "border-border hover:border-primary/50"
+                      }`}
+                    >
+                      <span className="font-medium block mb-1">{option.label}</span>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {profile.adaptive.exploration === 'epsilon_greedy' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="adaptive-epsilon">Exploration Rate</Label>
+                    <Input
+                      id="adaptive-epsilon"
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={profile.adaptive.epsilon ?? DEFAULT_ADAPTIVE.epsilon}
+                      onChange={(e) =>
+                        setProfile({
+                          ...profile,
+                          adaptive: { ...profile.adaptive!, epsilon: parseFloat(e.target.value) || 0 },
+                        })
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">Share of requests sent to a random provider (0-1)</p>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="adaptive-window">Observation Window (minutes)</Label>
+                  <Input
+                    id="adaptive-window"
+                    type="number"
+                    min={5}
+                    max={10080}
+                    value={profile.adaptive.windowMinutes ?? DEFAULT_ADAPTIVE.windowMinutes}
+                    onChange={(e) =>
+                      setProfile({
+                        ...profile,
+                        adaptive: { ...profile.adaptive!, windowMinutes: parseInt(e.target.value) || 60 },
+                      })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">Latency and errors are scored over this window</p>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Response Cache */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Database className="h-4 w-4" />
+            Response Cache
+          </CardTitle>
+          <CardDescription>Answer repeated prompts without calling a provider again</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {profile.dataSensitivity === 'HIGH' && (
+            <p className="text-xs text-muted-foreground">
+              Responses are never cached while data sensitivity is High.
+            </p>
+          )}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="cache-enabled" className="font-medium">Enable Response Cache</Label>
+              <p className="text-xs text-muted-foreground">Reuse responses to identical requests until they expire</p>
+            </div>
+            <Switch
+              id="cache-enabled"
+              checked={(profile.cache ?? DEFAULT_CACHE).enabled}
+              onCheckedChange={(checked) =>
+                setProfile({ ...profile, cache: { ...DEFAULT_CACHE, ...profile.cache, enabled: checked } })
+              }
+            />
+          </div>
+          {(profile.cache ?? DEFAULT_CACHE).enabled && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="cache-ttl">Time to Live (minutes)</Label>
+                <Input
+                  id="cache-ttl"
+                  type="number"
+                  min={1}
+                  max={43200}
+                  value={Math.round((profile.cache?.ttlSeconds ?? DEFAULT_CACHE.ttlSeconds!) / 60)}
+                  onChange={(e) =>
+                    setProfile({
+                      ...profile,
+                      cache: { ...DEFAULT_CACHE, ...profile.cache, ttlSeconds: (parseInt(e.target.value) || 60) * 60 },
+                    })
+                  }
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="cache-semantic" className="font-medium">Semantic Matching</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Also reuse responses when the last question means nearly the same thing
+                  </p>
+                </div>
+                <Switch
+                  id="cache-semantic"
+                  checked={profile.cache?.semantic ?? false}
+                  onCheckedChange={(checked) =>
+                    setProfile({ ...profile, cache: { ...DEFAULT_CACHE, ...profile.cache, semantic: checked } })
+                  }
+                />
+              </div>
+              {profile.cache?.semantic && (
+                <div className="space-y-2">
+                  <Label htmlFor="cache-threshold">Similarity Threshold</Label>
+                  <Input
+                    id="cache-threshold"
+                    type="number"
+                    min={0.5}
+                    max={1}
+                    step={0.01}
+                    value={profile.cache.similarityThreshold ?? DEFAULT_CACHE.similarityThreshold}
+                    onChange={(e) =>
+                      setProfile({
+                        ...profile,
+                        cache: { ...profile.cache!, similarityThreshold: parseFloat(e.target.value) || DEFAULT_CACHE.similarityThreshold },
+                      })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">Cosine similarity a cached prompt needs to be reused (0.5-1)</p>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button onClick={handleSave} disabled={updateProfile.isPending}>
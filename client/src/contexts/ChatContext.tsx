@@ -4,10 +4,47 @@ import { createContext, useContext, useState, useEffect, useCallback, type React
 // TYPES
 // =============================================================================
 
+export interface ChatAttachment {
+  type: "image" | "document";
+  name: string;
+  mimeType?: string;
+  url?: string;
+  storageKey?: string;
+  text?: string; // Inline text for small text files
+}
+
+export interface ChatSource {
+  id: number; // The N in [Source N]
+  text: string;
+  score: number;
+  metadata?: { documentId?: number; chunkIndex?: number; [key: string]: any };
+}
+
+export interface ChatGroundingSentence {
+  index: number;
+  text: string;
+  citations: number[];
+  invalidCitations: number[];
+  score: number | null;
+  status: "supported" | "unsupported" | "invalid_citation" | "uncited";
+}
+
+export interface ChatGrounding {
+  sentences: ChatGroundingSentence[];
+  citedSources: number[];
+  invalidCitations: number[];
+  supportedRatio: number | null;
+}
+
 export interface ChatMessage {
   id: string;
   role: "user" | "assistant" | "system";
   content: string;
+  attachments?: ChatAttachment[];
+  sources?: ChatSource[]; // RAG chunks the answer was given
+  grounding?: ChatGrounding; // Citation check of the answer against its sources
+  routingRequestId?: string; // Unified routing request that produced the answer
+  feedback?: "up" | "down"; // The user's rating of a routed answer
   timestamp: string; // ISO string for serialization
 }
 
@@ -47,7 +84,8 @@ interface ChatContextValue {
   clearChat: (id: string) => void;
 
   // Messages
-  addMessage: (message: Omit<ChatMessage, "id" | "timestamp">) => void;
+  addMessage: (message: Omit<ChatMessage, "id" | "timestamp">) => string;
+  updateMessage: (id: string, updates: Partial<Omit<ChatMessage, "id">>) => void;
 
   // Archive
   archiveChat: (id: string) => void;
@@ -258,10 +296,21 @@ export function ChatProvider({ children }: { children: ReactNode }) {
           return updated;
         })
       );
+      return newMsg.id;
     },
     [currentChatId]
   );
 
+  const updateMessage = useCallback((id: string, updates: Partial<Omit<ChatMessage, "id">>) => {
+    setChats((prev) =>
+      prev.map((c) =>
+        c.messages.some((m) => m.id === id)
+          ? { ...c, messages: c.messages.map((m) => (m.id === id ? { ...m, ...updates } : m)) }
+          : c
+      )
+    );
+  }, []);
+
   // -------------------------------------------------------------------------
   // Archive
   // -------------------------------------------------------------------------
@@ -403,6 +452,7 @@ export function ChatProvider({ children }: { children: ReactNode }) {
     deleteChat,
     clearChat,
     addMessage,
+    updateMessage,
     archiveChat,
     unarchiveChat,
     saveChat,
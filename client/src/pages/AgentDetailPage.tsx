@@ -15,6 +15,7 @@ import {
 } from "@/components/ui/dialog";
 import { trpc } from "@/lib/trpc";
 import { format } from "date-fns";
+import { AgentRunTimeline } from "@/components/AgentRunTimeline";
 
 interface AgentConfig {
   name: string;
@@ -318,6 +319,9 @@ export default function AgentDetailPage() {
         </div>
       </Card>
 
+      {/* Run Timeline */}
+      <AgentRunTimeline agentId={agent.id} />
+
       {/* Metadata */}
       <Card className="p-6 mb-6 bg-muted/50">
         <h3 className="font-semibold mb-3">Metadata</h3>
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
 import { Loader2, TrendingUp, DollarSign, Zap, Activity } from "lucide-react";
+import { ResponseCachePanel } from "@/components/ResponseCachePanel";
 
 export default function Analytics() {
   const [selectedWorkspace, setSelectedWorkspace] = useState<number>(1); // Default workspace
@@ -17,7 +18,7 @@ export default function Analytics() {
   const totals = workspaceUsage?.reduce(
     (acc, usage) => ({
       tokens: acc.tokens + (usage.tokensUsed || 0),
-      cost: acc.cost + (usage.cost ? parseFloat(usage.cost) : 0),
+      cost: acc.cost + (usage.costMicros || 0) / 1000000,
       requests: acc.requests + 1,
     }),
     { tokens: 0, cost: 0, requests: 0 }
@@ -35,7 +36,7 @@ export default function Analytics() {
       };
     }
     acc[key]!.tokens += usage.tokensUsed || 0;
-    acc[key]!.cost += usage.cost ? parseFloat(usage.cost) : 0;
+    acc[key]!.cost += (usage.costMicros || 0) / 1000000;
     acc[key]!.requests += 1;
     return acc;
   }, {} as Record<string, { providerId: number; tokens: number; cost: number; requests: number }>);
@@ -223,7 +224,7 @@ export default function Analytics() {
                         <td className="p-2 text-sm text-muted-foreground">{usage.modelName}</td>
                         <td className="p-2 text-sm text-right">{usage.tokensUsed?.toLocaleString()}</td>
                         <td className="p-2 text-sm text-right">
-                          ${usage.cost ? parseFloat(usage.cost).toFixed(4) : "0.0000"}
+                          ${((usage.costMicros || 0) / 1000000).toFixed(4)}
                         </td>
                         <td className="p-2 text-sm text-right text-muted-foreground">
                           {usage.latencyMs ? `${usage.latencyMs}ms` : "-"}
@@ -240,6 +241,9 @@ export default function Analytics() {
           )}
         </CardContent>
       </Card>
+
+      {/* Response cache hits and misses */}
+      <ResponseCachePanel workspaceId={selectedWorkspace} />
     </div>
   );
 }
@@ -19,8 +19,8 @@ interface ExecutionLog {
 }
 
 interface Execution {
-  id: string;
-  workflowId: string;
+  id: number;
+  workflowId: number;
   workflowName: string;
   status: "queued" | "running" | "completed" | "failed" | "cancelled";
   startedAt: Date;
@@ -35,7 +35,30 @@ export default function AutomationExecutions() {
   const [, setLocation] = useLocation();
   
   // Fetch real executions from backend
-  const { data: executionsData, isLoading, refetch } = trpc.automation.getExecutions.useQuery({ limit: 50 });
+  const { data: executionsData, isLoading, refetch } = trpc.automation.getExecutions.useQuery(
+    { limit: 50 },
+    {
+      // Poll while anything is still in flight so node logs stream in
+      refetchInterval: (query) =>
+        query.state.data?.some((e: any) => ["pending", "queued", "running"].includes(e.status)) ? 2000 : false,
+    }
+  );
+
+  const cancelMutation = trpc.automation.cancelExecution.useMutation({
+    onSuccess: () => {
+      toast.success("Cancellation requested");
+      refetch();
+    },
+    onError: (error) => toast.error(`Failed to cancel: ${error.message}`),
+  });
+
+  const retryMutation = trpc.automation.retryExecution.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Execution ${data.executionId} queued for retry`);
+      refetch();
+    },
+    onError: (error) => toast.error(`Failed to retry: ${error.message}`),
+  });
   
   // Convert backend data to frontend format
   const executions: Execution[] = executionsData?.map((exec: any) => ({
@@ -48,7 +71,7 @@ export default function AutomationExecutions() {
     duration: exec.duration,
     error: exec.error,
     retryCount: exec.retryCount || 0,
-    logs: exec.logs || [],
+    logs: (exec.logs || []).map((log: any) => ({ ...log, timestamp: new Date(log.timestamp) })),
   })) || [];
 
   const [selectedExecution, setSelectedExecution] = useState<Execution | null>(null);
@@ -132,12 +155,12 @@ export default function AutomationExecutions() {
     return date.toLocaleTimeString();
   };
 
-  const handleCancel = (id: string) => {
-    toast.success(`Execution ${id} cancelled`);
+  const handleCancel = (id: number) => {
+    cancelMutation.mutate({ executionId: id });
   };
 
-  const handleRetry = (id: string) => {
-    toast.success(`Execution ${id} queued for retry`);
+  const handleRetry = (id: number) => {
+    retryMutation.mutate({ executionId: id });
   };
 
   const completedCount = executions.filter(e => e.status === "completed").length;
@@ -312,20 +335,22 @@ export default function AutomationExecutions() {
                   </div>
                   <div className="flex items-center gap-2">
                     {getStatusBadge(selectedExecution.status)}
-                    {selectedExecution.status === "running" && (
+                    {(selectedExecution.status === "running" || selectedExecution.status === "queued") && (
                       <Button
                         variant="outline"
                         size="sm"
+                        disabled={cancelMutation.isPending}
                         onClick={() => handleCancel(selectedExecution.id)}
                       >
                         <Square className="h-4 w-4 mr-2" />
                         Cancel
                       </Button>
                     )}
-                    {selectedExecution.status === "failed" && (
+                    {(selectedExecution.status === "failed" || selectedExecution.status === "cancelled") && (
                       <Button
                         variant="outline"
                         size="sm"
+                        disabled={retryMutation.isPending}
                         onClick={() => handleRetry(selectedExecution.id)}
                       >
                         <RefreshCw className="h-4 w-4 mr-2" />
@@ -7,7 +7,7 @@ import { CatalogSelect } from "@/components/CatalogSelect";
 import { useCatalogEntries } from "@/hooks/useCatalogEntries";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { trpc } from "@/lib/trpc";
-import { Loader2, MessageSquare, Bot, User as UserIcon, Sparkles, BookOpen, Route, History, Archive, Trash2, PenLine, BarChart3, Upload, Download, Zap } from "lucide-react";
+import { Loader2, MessageSquare, Bot, User as UserIcon, Sparkles, BookOpen, Route, History, Archive, Trash2, PenLine, BarChart3, Upload, Download, Zap, AlertTriangle, ThumbsUp, ThumbsDown } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
@@ -15,7 +15,173 @@ import { Streamdown } from "streamdown";
 import { clientProviderRouter, type WorkspaceRoutingProfile } from "@/lib/provider-router";
 import { ChatControlBox } from "@/components/ChatControlBox";
 import { useHeaderActions } from "@/components/MainLayout";
-import { ChatProvider, useChatContext, type ChatSession } from "@/contexts/ChatContext";
+import { useLocation } from "wouter";
+import {
+  ChatProvider,
+  useChatContext,
+  type ChatSession,
+  type ChatAttachment,
+  type ChatMessage,
+  type ChatSource,
+  type ChatGrounding,
+} from "@/contexts/ChatContext";
+
+// =============================================================================
+// ATTACHMENTS
+// =============================================================================
+
+const INLINE_TEXT_LIMIT = 100_000;
+
+function isInlineText(file: File): boolean {
+  return file.type.startsWith("text/") || /\.(md|json|csv|ya?ml|xml)$/i.test(file.name);
+}
+
+/** Upload a file to storage and describe it as a message content part */
+async function uploadAttachment(file: File, workspaceId: number | null): Promise<ChatAttachment> {
+  const form = new FormData();
+  form.append("file", file);
+  if (workspaceId) form.append("workspaceId", String(workspaceId));
+
+  const response = await fetch("/api/upload-attachment", { method: "POST", body: form });
+  if (!response.ok) {
+    throw new Error(`Upload failed for ${file.name} (${response.status})`);
+  }
+  const uploaded = await response.json();
+
+  return {
+    type: file.type.startsWith("image/") ? "image" : "document",
+    name: file.name,
+    mimeType: uploaded.mimeType || file.type,
+    url: uploaded.url,
+    storageKey: uploaded.key,
+    text: isInlineText(file) ? `[Document: ${file.name}]\n${(await file.text()).slice(0, INLINE_TEXT_LIMIT)}` : undefined,
+  };
+}
+
+/** Plain string content, or text + attachment parts when files are attached */
+function toRequestContent(content: string, attachments?: ChatAttachment[]) {
+  if (!attachments?.length) return content;
+  return [
+    ...(content ? [{ type: "text" as const, text: content }] : []),
+    ...attachments,
+  ];
+}
+
+function MessageAttachments({ attachments, isUser }: { attachments: ChatAttachment[]; isUser: boolean }) {
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {attachments.map((a, i) =>
+        a.type === "image" && a.url ? (
+          <img key={i} src={a.url} alt={a.name} className="max-h-40 rounded-md border" />
+        ) : (
+          <span key={i} className={`text-xs rounded px-2 py-1 ${isUser ? "bg-primary-foreground/20" : "bg-background"}`}>
+            {a.name}
+          </span>
+        )
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// SOURCES & GROUNDING
+// =============================================================================
+
+const GROUNDING_LABELS: Record<string, string> = {
+  unsupported: "Not supported by the cited source",
+  invalid_citation: "Cites a source that was not retrieved",
+};
+
+/** Retrieved sources, and answer sentences the citation check could not verify */
+function MessageSources({ sources, grounding }: { sources: ChatSource[]; grounding?: ChatGrounding }) {
+  const [, setLocation] = useLocation();
+  const flagged = grounding?.sentences.filter((s) => s.status === "unsupported" || s.status === "invalid_citation") ?? [];
+  const cited = new Set(grounding?.citedSources ?? []);
+
+  const openSource = (source: ChatSource) => {
+    const { documentId, chunkIndex } = source.metadata ?? {};
+    if (documentId === undefined) return;
+    setLocation(`/documents/dashboard?document=${documentId}${chunkIndex !== undefined ? `&chunk=${chunkIndex}` : ""}`);
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
+      {flagged.length > 0 && (
+        <div className="space-y-1">
+          {flagged.map((sentence) => (
+            <div key={sentence.index} className="flex gap-2 text-xs text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+              <span>
+                <span className="font-medium">{GROUNDING_LABELS[sentence.status]}:</span> {sentence.text}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap gap-1.5">
+        {sources.map((source) => (
+          <button
+            key={source.id}
+            onClick={() => openSource(source)}
+            title={[source.metadata?.heading, source.text.slice(0, 300)].filter(Boolean).join("\n\n")}
+            className={`text-xs rounded px-2 py-0.5 border transition-colors hover:border-primary ${
+              cited.has(source.id) ? "border-primary/40 bg-primary/5" : "border-border bg-background"
+            }`}
+          >
+            Source {source.id}
+            {source.metadata?.pageNumber != null && (
+              <span className="text-muted-foreground"> · p. {source.metadata.pageNumber}</span>
+            )}
+            {source.metadata?.chunkIndex !== undefined && (
+              <span className="text-muted-foreground"> · chunk {source.metadata.chunkIndex + 1}</span>
+            )}
+          </button>
+        ))}
+        {grounding && grounding.supportedRatio !== null && (
+          <span className="text-xs text-muted-foreground self-center">
+            {Math.round(grounding.supportedRatio * 100)}% of cited sentences supported
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// ROUTING FEEDBACK
+// =============================================================================
+
+/** Thumbs up/down on an answer from unified routing; adaptive routing learns from it */
+function MessageFeedback({ message, onRated }: { message: ChatMessage; onRated: (rating: "up" | "down") => void }) {
+  const rateResponse = trpc.chat.rateResponse.useMutation({
+    onError: (error) => toast.error(`Failed to send feedback: ${error.message}`),
+  });
+
+  const options = [
+    { rating: "up" as const, icon: ThumbsUp, label: "Good response" },
+    { rating: "down" as const, icon: ThumbsDown, label: "Bad response" },
+  ];
+
+  return (
+    <div className="mt-2 flex items-center gap-1">
+      {options.map(({ rating, icon: Icon, label }) => (
+        <Button
+          key={rating}
+          variant="ghost"
+          size="icon"
+          className={`h-6 w-6 ${message.feedback === rating ? "text-primary" : "text-muted-foreground"}`}
+          title={label}
+          disabled={rateResponse.isPending}
+          onClick={() =>
+            rateResponse.mutate({ requestId: message.routingRequestId!, rating }, { onSuccess: () => onRated(rating) })
+          }
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </Button>
+      ))}
+    </div>
+  );
+}
 
 // =============================================================================
 // CHAT HISTORY SIDEBAR
@@ -176,6 +342,7 @@ function ChatInner() {
     deleteChat,
     archiveChat,
     addMessage,
+    updateMessage,
     saveChat,
     exportChatData,
     getAnalytics,
@@ -301,8 +468,8 @@ function ChatInner() {
     }
   }, [settings.autoSave, messages.length, currentChatId, saveChat]);
 
-  const handleSend = async () => {
-    if (!input.trim()) {
+  const handleSend = async (files: File[] = []) => {
+    if (!input.trim() && files.length === 0) {
       toast.error("Please enter a message");
       return;
     }
@@ -319,8 +486,17 @@ function ChatInner() {
 
     const userContent = input.trim();
 
+    let attachments: ChatAttachment[] = [];
+    try {
+      attachments = await Promise.all(files.map((f) => uploadAttachment(f, selectedWorkspace)));
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+
     // Add user message to context
-    addMessage({ role: "user", content: userContent });
+    const userMessage = { role: "user" as const, content: userContent, attachments: attachments.length ? attachments : undefined };
+    addMessage(userMessage);
 
     setInput("");
     setIsStreaming(true);
@@ -347,13 +523,10 @@ function ChatInner() {
       }
 
       // Build message history from context messages + the new user message
-      const allMessages = [
-        ...messages.map(m => ({ role: m.role, content: m.content })),
-        { role: "user" as const, content: userContent },
-      ];
+      const allMessages: Array<Pick<ChatMessage, "role" | "content" | "attachments">> = [...messages, userMessage];
 
       const requestBody: Record<string, any> = {
-        messages: allMessages,
+        messages: allMessages.map(m => ({ role: m.role, content: toRequestContent(m.content, m.attachments) })),
         useRAG,
         workspaceId: selectedWorkspace,
       };
@@ -384,6 +557,7 @@ function ChatInner() {
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let accumulatedContent = "";
+      let assistantMessageId: string | null = null;
 
       if (!reader) {
         throw new Error('No response body');
@@ -405,7 +579,12 @@ function ChatInner() {
               setStreamingContent(accumulatedContent);
             } else if (data.type === 'complete') {
               // Add assistant message to context
-              addMessage({ role: "assistant", content: data.content });
+              assistantMessageId = addMessage({
+                role: "assistant",
+                content: data.content,
+                sources: data.sources,
+                routingRequestId: data.routing?.requestId,
+              });
               setStreamingContent("");
               setIsStreaming(false);
               if (data.routing) {
@@ -415,9 +594,9 @@ function ChatInner() {
                 });
               }
               // Persist conversation to DB (fire and forget)
-              const chatTitle = currentChat?.title || userContent.slice(0, 50);
+              const chatTitle = currentChat?.title || userContent.slice(0, 50) || attachments[0]?.name || "Attachment";
               const dbMessages = [
-                ...allMessages,
+                ...allMessages.map(m => ({ role: m.role, content: m.content })),
                 { role: "assistant" as const, content: data.content },
               ];
               saveConversationMutation.mutate({
@@ -426,6 +605,10 @@ function ChatInner() {
                 providerId: selectedProvider ?? undefined,
                 workspaceId: selectedWorkspace ?? undefined,
               });
+            } else if (data.type === 'grounding') {
+              if (assistantMessageId) {
+                updateMessage(assistantMessageId, { grounding: data.grounding });
+              }
             } else if (data.type === 'error') {
               toast.error(`Streaming error: ${data.error}`);
               setIsStreaming(false);
@@ -687,11 +870,20 @@ function ChatInner() {
                           : "bg-muted"
                       }`}
                     >
+                      {msg.attachments?.length ? (
+                        <MessageAttachments attachments={msg.attachments} isUser={msg.role === "user"} />
+                      ) : null}
                       {msg.role === "assistant" ? (
                         <Streamdown>{msg.content}</Streamdown>
                       ) : (
                         <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
                       )}
+                      {msg.role === "assistant" && msg.sources?.length ? (
+                        <MessageSources sources={msg.sources} grounding={msg.grounding} />
+                      ) : null}
+                      {msg.role === "assistant" && msg.routingRequestId ? (
+                        <MessageFeedback message={msg} onRated={(feedback) => updateMessage(msg.id, { feedback })} />
+                      ) : null}
                       {msg.timestamp && (
                         <p className={`text-xs mt-2 ${msg.role === "user" ? "text-primary-foreground/70" : "text-muted-foreground"}`}>
                           {new Date(msg.timestamp).toLocaleTimeString()}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,7 +19,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
 import { format } from "date-fns";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
+import { DocumentSourcesPanel } from "@/components/DocumentSourcesPanel";
 
 export default function DocumentsDashboard() {
   const [, setLocation] = useLocation();
@@ -30,6 +31,8 @@ export default function DocumentsDashboard() {
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [bulkActionMode, setBulkActionMode] = useState(false);
+  const [highlightedChunk, setHighlightedChunk] = useState<number | null>(null);
+  const searchString = useSearch();
 
   // Get user's workspaces and use the first one
   const { data: workspaces } = trpc.workspaces.list.useQuery();
@@ -42,6 +45,36 @@ export default function DocumentsDashboard() {
     enabled: !!activeWorkspaceId,
   });
 
+  // Source names for documents synced by a connector
+  const { data: sources } = trpc.documentSources.list.useQuery(
+    { workspaceId: activeWorkspaceId! },
+    { enabled: !!activeWorkspaceId }
+  );
+  const sourceNames = new Map((sources ?? []).map((source) => [source.id, source.name]));
+
+  const { data: storedChunks, isLoading: chunksLoading } = trpc.documentsManagement.getDocumentChunks.useQuery(
+    { documentId: selectedDocument?.id },
+    { enabled: showPreviewModal && !!selectedDocument }
+  );
+  // Parent sections repeat their children; preview the searchable chunks
+  const previewChunks = storedChunks?.filter((chunk) => !chunk.isParent);
+
+  // Chat sources link here as ?document=<id>&chunk=<index>
+  useEffect(() => {
+    const params = new URLSearchParams(searchString);
+    const documentId = Number(params.get("document"));
+    if (!documentId || !documents) return;
+
+    const document = documents.find((d) => d.id === documentId);
+    if (!document) {
+      toast.error("Source document not found in this workspace");
+      return;
+    }
+    setSelectedDocument(document);
+    setHighlightedChunk(params.has("chunk") ? Number(params.get("chunk")) : null);
+    setShowPreviewModal(true);
+  }, [searchString, documents]);
+
   const deleteDocumentMutation = trpc.documentsManagement.deleteDocument.useMutation({
     onSuccess: () => {
       toast.success("Document deleted successfully");
@@ -98,6 +131,7 @@ export default function DocumentsDashboard() {
 
   const handlePreviewDocument = (document: any) => {
     setSelectedDocument(document);
+    setHighlightedChunk(null);
     setShowPreviewModal(true);
   };
 
@@ -273,6 +307,9 @@ export default function DocumentsDashboard() {
         </Card>
       </div>
 
+      {/* Connected Sources */}
+      {activeWorkspaceId && <DocumentSourcesPanel workspaceId={activeWorkspaceId} />}
+
       {/* Search and Filters */}
       <Card>
         <CardHeader>
@@ -360,6 +397,10 @@ export default function DocumentsDashboard() {
                       <FileText className="h-5 w-5 text-muted-foreground flex-shrink-0" />
                       <h3 className="text-lg font-semibold">{document.filename}</h3>
                       {getStatusBadge(document.status || "pending")}
+                      {document.version > 1 && <Badge variant="outline">v{document.version}</Badge>}
+                      {document.sourceId && (
+                        <Badge variant="secondary">{sourceNames.get(document.sourceId) ?? "Source"}</Badge>
+                      )}
                     </div>
 
                     {/* Metadata */}
@@ -437,6 +478,10 @@ export default function DocumentsDashboard() {
             <div className="space-y-4">
               {/* Document Stats */}
               <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-sm font-medium">Document ID</p>
+                  <p className="text-sm text-muted-foreground font-mono">{selectedDocument.id}</p>
+                </div>
                 <div>
                   <p className="text-sm font-medium">Collection</p>
                   <p className="text-sm text-muted-foreground">{selectedDocument.collection}</p>
@@ -467,18 +512,36 @@ export default function DocumentsDashboard() {
               <div>
                 <h4 className="text-sm font-medium mb-2">Chunk Preview</h4>
                 <div className="space-y-2">
-                  <Card>
-                    <CardContent className="p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <Badge variant="outline">Chunk 1 of {selectedDocument.chunksCreated}</Badge>
-                        <span className="text-xs text-muted-foreground">1024 characters</span>
-                      </div>
-                      <p className="text-sm text-muted-foreground">
-                        This is a preview of the first chunk. In production, this would show the actual
-                        chunk content retrieved from the vector database...
-                      </p>
-                    </CardContent>
-                  </Card>
+                  {chunksLoading ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  ) : !previewChunks || previewChunks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No chunks stored for this document</p>
+                  ) : (
+                    previewChunks.map((chunk) => {
+                      const isHighlighted = chunk.chunkIndex === highlightedChunk;
+                      return (
+                        <Card
+                          key={chunk.id}
+                          ref={isHighlighted ? (el) => el?.scrollIntoView({ block: "center" }) : undefined}
+                          className={isHighlighted ? "ring-2 ring-primary" : undefined}
+                        >
+                          <CardContent className="p-4">
+                            <div className="flex items-center justify-between mb-2">
+                              <Badge variant={isHighlighted ? "default" : "outline"}>
+                                Chunk {chunk.chunkIndex + 1} of {previewChunks.length}
+                              </Badge>
+                              <span className="text-xs text-muted-foreground">
+                                chunk:{chunk.id} · {chunk.content.length} characters
+                                {chunk.tokenCount != null ? ` · ${chunk.tokenCount} tokens` : ""}
+                                {chunk.pageNumber ? ` · page ${chunk.pageNumber}` : ""}
+                              </span>
+                            </div>
+                            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{chunk.content}</p>
+                          </CardContent>
+                        </Card>
+                      );
+                    })
+                  )}
                 </div>
               </div>
             </div>
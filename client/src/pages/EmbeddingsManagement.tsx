@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { RetrievalEvalPanel } from "@/components/RetrievalEvalPanel";
 
 export default function EmbeddingsManagement() {
   const [text, setText] = useState("");
@@ -72,7 +73,7 @@ export default function EmbeddingsManagement() {
                 <SelectContent>
                   {modelsQuery.data?.map((model) => (
                     <SelectItem key={model.model} value={model.model}>
-                      {model.model} ({model.dimensions}d)
+                      {model.model} ({model.dimensions ? `${model.dimensions}d` : "provider"})
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -137,7 +138,7 @@ export default function EmbeddingsManagement() {
                         {model.device.toUpperCase()} • Max batch: {model.maxBatchSize}
                       </div>
                     </div>
-                    <Badge variant="outline">{model.dimensions}d</Badge>
+                    <Badge variant="outline">{model.dimensions ? `${model.dimensions}d` : "auto"}</Badge>
                   </div>
                 ))}
               </div>
@@ -228,6 +229,9 @@ export default function EmbeddingsManagement() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Retrieval Evaluation */}
+        <RetrievalEvalPanel />
       </div>
     </div>
   );
@@ -2,11 +2,14 @@ import { useEffect } from "react";
 import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { BudgetLedgerPanel } from "@/components/BudgetLedgerPanel";
+import { ResponseCachePanel } from "@/components/ResponseCachePanel";
 import { Activity, TrendingUp, DollarSign, Zap, CheckCircle2, XCircle, AlertCircle } from "lucide-react";
 
 /**
  * Provider Analytics Dashboard
- * Displays real-time provider health, performance metrics, cost analytics, and comparisons
+ * Displays real-time provider health, performance metrics, cost analytics, comparisons,
+ * response cache statistics, and workspace budgets with their usage ledger
  */
 
 export default function ProviderAnalytics() {
@@ -269,6 +272,14 @@ export default function ProviderAnalytics() {
           )}
         </CardContent>
       </Card>
+
+      {/* Response cache hits, misses and savings */}
+      <div className="my-6">
+        <ResponseCachePanel />
+      </div>
+
+      {/* Budgets and usage ledger */}
+      <BudgetLedgerPanel />
     </div>
   );
 }
@@ -13,7 +13,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "sonner";
-import { Plus, Settings, Trash2, CheckCircle, XCircle, Loader2, Cloud, Server, Zap, DollarSign, Activity, RefreshCw, Route, ClipboardList, ChevronDown } from "lucide-react";
+import { Plus, Settings, Trash2, CheckCircle, XCircle, Loader2, Cloud, Server, Zap, DollarSign, Activity, RefreshCw, Route, ClipboardList, ChevronDown, ShieldAlert } from "lucide-react";
 import { TestProviderButton } from "@/components/TestProviderButton";
 import { RoutingAuditViewer } from "@/components/RoutingAuditViewer";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -72,6 +72,12 @@ const providerTypeInfo: Record<ProviderType, { label: string; icon: React.ReactN
   },
 };
 
+const circuitStateInfo: Record<string, { label: string; className: string }> = {
+  closed: { label: "Closed", className: "bg-green-500/10 text-green-500 border-green-500/20" },
+  half_open: { label: "Half-open", className: "bg-yellow-500/10 text-yellow-500 border-yellow-500/20" },
+  open: { label: "Open", className: "bg-red-500/10 text-red-500 border-red-500/20" },
+};
+
 export default function Providers() {
   const [, navigate] = useLocation();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
@@ -112,6 +118,18 @@ export default function Providers() {
       toast.error(`Failed to delete provider: ${error.message}`);
     },
   });
+  const { data: circuits, refetch: refetchCircuits } = trpc.providers.circuitBreakers.list.useQuery(undefined, {
+    refetchInterval: 15000,
+  });
+  const resetCircuit = trpc.providers.circuitBreakers.reset.useMutation({
+    onSuccess: () => {
+      toast.success("Circuit reset");
+      refetchCircuits();
+    },
+    onError: (error) => {
+      toast.error(`Failed to reset circuit: ${error.message}`);
+    },
+  });
   const updateProvider = trpc.providers.update.useMutation({
     onSuccess: () => {
       toast.success("Provider updated");
@@ -210,6 +228,8 @@ export default function Providers() {
     }
   };
 
+  const getCircuit = (providerId: number) => circuits?.find(c => c.providerId === providerId);
+
   const cloudProviders = providers?.filter(p => ["openai", "anthropic", "google", "custom"].includes(p.type)) || [];
   const localProviders = providers?.filter(p => ["local-llamacpp", "local-ollama"].includes(p.type)) || [];
 
@@ -539,6 +559,8 @@ export default function Providers() {
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
               {providers?.map((provider) => {
                 const typeInfo = providerTypeInfo[provider.type as ProviderType] || providerTypeInfo.custom;
+                const circuit = getCircuit(provider.id);
+                const circuitInfo = circuit ? circuitStateInfo[circuit.state] : null;
                 return (
                   <Card key={provider.id} className="relative">
                     <CardHeader className="pb-3">
@@ -578,6 +600,40 @@ export default function Providers() {
                           {provider.costPer1kTokens ? `$${provider.costPer1kTokens}` : "N/A"}
                         </span>
                       </div>
+                      {circuit && circuitInfo && (
+                        <div className="space-y-1 text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">Circuit breaker</span>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className={circuitInfo.className}>
+                                {circuit.state !== "closed" && <ShieldAlert className="h-3 w-3 mr-1" />}
+                                {circuitInfo.label}
+                              </Badge>
+                              {circuit.state !== "closed" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2"
+                                  disabled={resetCircuit.isPending}
+                                  onClick={() => resetCircuit.mutate({ providerId: provider.id })}
+                                >
+                                  <RefreshCw className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                          {circuit.state === "open" && circuit.retryAt && (
+                            <p className="text-xs text-muted-foreground">
+                              Retrying after {new Date(circuit.retryAt).toLocaleTimeString()}
+                            </p>
+                          )}
+                          {circuit.state !== "closed" && circuit.lastError && (
+                            <p className="text-xs text-destructive truncate" title={circuit.lastError}>
+                              {circuit.lastError}
+                            </p>
+                          )}
+                        </div>
+                      )}
                       <div className="flex items-center gap-2 pt-2 border-t">
                         <Button
                           variant="outline"
@@ -6,6 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { RetrievalEvalPanel } from "@/components/RetrievalEvalPanel";
 import { Trash2, Search, Database } from "lucide-react";
 
 export default function VectorDBManagement() {
@@ -206,6 +207,9 @@ export default function VectorDBManagement() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Retrieval Evaluation */}
+        <RetrievalEvalPanel />
       </div>
     </div>
   );
@@ -15,9 +15,10 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, Save, Loader2, File, Bot, Settings as SettingsIcon, Route } from "lucide-react";
+import { ArrowLeft, Save, Loader2, File, Bot, Settings as SettingsIcon, Route, Search } from "lucide-react";
 import { toast } from "sonner";
 import { WorkspaceRoutingProfile } from "@/components/WorkspaceRoutingProfile";
+import { WorkspaceRetrievalProfile } from "@/components/WorkspaceRetrievalProfile";
 
 export default function WorkspaceDetail() {
   const params = useParams<{ id: string }>();
@@ -28,6 +29,11 @@ export default function WorkspaceDetail() {
   const [description, setDescription] = useState("");
   const [embeddingModel, setEmbeddingModel] = useState("");
   const [chunkingStrategy, setChunkingStrategy] = useState<"semantic" | "fixed" | "recursive">("semantic");
+  const [chunkingTokenizer, setChunkingTokenizer] = useState("characters");
+  const [chunkSize, setChunkSize] = useState("512");
+  const [chunkOverlap, setChunkOverlap] = useState("50");
+  const [parentChunkSize, setParentChunkSize] = useState("");
+  const [collectionName, setCollectionName] = useState("");
 
   const { data: workspace, isLoading } = trpc.workspaces.get.useQuery(
     { id: workspaceId! },
@@ -38,8 +44,13 @@ export default function WorkspaceDetail() {
     if (workspace) {
       setName(workspace.name);
       setDescription(workspace.description || "");
-      setEmbeddingModel(workspace.embeddingModel || "bge-small-en-v1.5");
+      setEmbeddingModel(workspace.embeddingModel || "default");
       setChunkingStrategy(workspace.chunkingStrategy || "semantic");
+      setChunkingTokenizer(workspace.chunkingTokenizer || "characters");
+      setChunkSize(String(workspace.chunkSize ?? 512));
+      setChunkOverlap(String(workspace.chunkOverlap ?? 50));
+      setParentChunkSize(workspace.parentChunkSize ? String(workspace.parentChunkSize) : "");
+      setCollectionName(workspace.collectionName || "");
     }
   }, [workspace]);
 
@@ -50,10 +61,15 @@ export default function WorkspaceDetail() {
 
   const { data: agents } = trpc.agents.list.useQuery();
 
+  // Local GGUF models can size chunks with their own vocabulary
+  const { data: models } = trpc.models.list.useQuery({});
+  const ggufModels = (models ?? []).filter((model) => model.fileFormat === "gguf" && model.filePath);
+
   const utils = trpc.useUtils();
   const updateMutation = trpc.workspaces.update.useMutation({
     onSuccess: () => {
       utils.workspaces.get.invalidate({ id: workspaceId! });
+      utils.workspaces.getRetrievalProfile.invalidate({ id: workspaceId! });
       utils.workspaces.list.invalidate();
       toast.success("Workspace updated successfully");
     },
@@ -69,8 +85,13 @@ export default function WorkspaceDetail() {
       id: workspaceId,
       name: name.trim(),
       description: description.trim() || undefined,
-      embeddingModel,
+      embeddingModel: embeddingModel === "default" ? null : embeddingModel,
       chunkingStrategy,
+      chunkingTokenizer: chunkingTokenizer === "characters" ? null : chunkingTokenizer,
+      chunkSize: Number(chunkSize) || 512,
+      chunkOverlap: Number(chunkOverlap) || 0,
+      parentChunkSize: Number(parentChunkSize) || null,
+      collectionName: collectionName.trim() || null,
     });
   };
 
@@ -126,6 +147,10 @@ export default function WorkspaceDetail() {
             <SettingsIcon className="mr-2 h-4 w-4" />
             Settings
           </TabsTrigger>
+          <TabsTrigger value="retrieval">
+            <Search className="mr-2 h-4 w-4" />
+            Retrieval
+          </TabsTrigger>
           <TabsTrigger value="routing">
             <Route className="mr-2 h-4 w-4" />
             Routing
@@ -187,9 +212,12 @@ export default function WorkspaceDetail() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="bge-small-en-v1.5">BGE Small EN v1.5</SelectItem>
-                    <SelectItem value="minilm-l6-v2">MiniLM L6 v2</SelectItem>
-                    <SelectItem value="e5-base-v2">E5 Base v2</SelectItem>
+                    <SelectItem value="default">Server default</SelectItem>
+                    <SelectItem value="bge-large-en">BGE Large EN (Best Quality)</SelectItem>
+                    <SelectItem value="bge-base-en">BGE Base EN (Balanced)</SelectItem>
+                    <SelectItem value="minilm-l6">MiniLM L6 (Fastest)</SelectItem>
+                    <SelectItem value="e5-large">E5 Large</SelectItem>
+                    <SelectItem value="e5-base">E5 Base</SelectItem>
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground">
@@ -212,6 +240,66 @@ export default function WorkspaceDetail() {
                   Method used to split documents into chunks
                 </p>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="tokenizer">Chunk Size Unit</Label>
+                <Select value={chunkingTokenizer} onValueChange={setChunkingTokenizer}>
+                  <SelectTrigger id="tokenizer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="characters">Characters</SelectItem>
+                    <SelectItem value="tiktoken:o200k_base">o200k_base tokens (GPT-4o and later)</SelectItem>
+                    <SelectItem value="tiktoken:cl100k_base">cl100k_base tokens (GPT-4, GPT-3.5)</SelectItem>
+                    <SelectItem value="tiktoken:p50k_base">p50k_base tokens (Codex)</SelectItem>
+                    <SelectItem value="tiktoken:r50k_base">r50k_base tokens (GPT-3)</SelectItem>
+                    {ggufModels.map((model) => (
+                      <SelectItem key={model.id} value={`gguf:${model.id}`}>
+                        {model.displayName} tokens (GGUF vocabulary)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Chunk sizes are counted in this tokenizer's tokens; pick the one your chat model uses
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="chunk-size">Chunk Size</Label>
+                  <Input id="chunk-size" type="number" min={1} value={chunkSize} onChange={(e) => setChunkSize(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="chunk-overlap">Overlap</Label>
+                  <Input id="chunk-overlap" type="number" min={0} value={chunkOverlap} onChange={(e) => setChunkOverlap(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="parent-chunk-size">Parent Size</Label>
+                  <Input
+                    id="parent-chunk-size"
+                    type="number"
+                    min={1}
+                    value={parentChunkSize}
+                    onChange={(e) => setParentChunkSize(e.target.value)}
+                    placeholder="Off"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                With a parent size, chunks of the chunk size are embedded for search and the larger parent section
+                they belong to is sent to the model. Changes apply to documents uploaded or re-synced afterwards.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="collection">Collection</Label>
+                <Input
+                  id="collection"
+                  value={collectionName}
+                  onChange={(e) => setCollectionName(e.target.value)}
+                  placeholder={`workspace-${workspace.id}`}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Vector collection documents are stored in and chat searches; existing documents stay in the previous collection
+                </p>
+              </div>
             </CardContent>
           </Card>
 
@@ -229,7 +317,7 @@ export default function WorkspaceDetail() {
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Collection Name</span>
-                <span className="font-mono">{workspace.collectionName}</span>
+                <span className="font-mono">{workspace.collectionName || `workspace-${workspace.id}`}</span>
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">Created</span>
@@ -243,6 +331,13 @@ export default function WorkspaceDetail() {
           </Card>
         </TabsContent>
 
+        {/* Retrieval Tab */}
+        <TabsContent value="retrieval" className="space-y-4">
+          {workspaceId && (
+            <WorkspaceRetrievalProfile workspaceId={workspaceId} />
+          )}
+        </TabsContent>
+
         {/* Routing Tab */}
         <TabsContent value="routing" className="space-y-4">
           {workspaceId && (
@@ -30,7 +30,7 @@ export default function Workspaces() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
-  const [embeddingModel, setEmbeddingModel] = useState("bge-small-en-v1.5");
+  const [embeddingModel, setEmbeddingModel] = useState("default");
   const [chunkingStrategy, setChunkingStrategy] = useState<"semantic" | "fixed" | "recursive">("semantic");
 
   const utils = trpc.useUtils();
@@ -68,7 +68,7 @@ export default function Workspaces() {
     createMutation.mutate({
       name: name.trim(),
       description: description.trim() || undefined,
-      embeddingModel,
+      embeddingModel: embeddingModel === "default" ? null : embeddingModel,
       chunkingStrategy,
     });
   };
@@ -138,9 +138,12 @@ export default function Workspaces() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="bge-small-en-v1.5">BGE Small EN v1.5</SelectItem>
-                    <SelectItem value="minilm-l6-v2">MiniLM L6 v2</SelectItem>
-                    <SelectItem value="e5-base-v2">E5 Base v2</SelectItem>
+                    <SelectItem value="default">Server default</SelectItem>
+                    <SelectItem value="bge-large-en">BGE Large EN (Best Quality)</SelectItem>
+                    <SelectItem value="bge-base-en">BGE Base EN (Balanced)</SelectItem>
+                    <SelectItem value="minilm-l6">MiniLM L6 (Fastest)</SelectItem>
+                    <SelectItem value="e5-large">E5 Large</SelectItem>
+                    <SelectItem value="e5-base">E5 Base</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -207,7 +210,7 @@ export default function Workspaces() {
                 <div className="space-y-3">
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-muted-foreground">Embedding Model</span>
-                    <span className="font-medium">{workspace.embeddingModel}</span>
+                    <span className="font-medium">{workspace.embeddingModel || "Default"}</span>
                   </div>
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-muted-foreground">Chunking</span>
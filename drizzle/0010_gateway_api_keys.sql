@@ -0,0 +1,22 @@
+-- OpenAI-Compatible Gateway: per-workspace hashed API keys
+
+CREATE TABLE IF NOT EXISTS "gateway_api_keys" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "name" varchar(255) NOT NULL,
+  "keyPrefix" varchar(20) NOT NULL,
+  "keyHash" varchar(64) NOT NULL UNIQUE,
+  "scopes" json NOT NULL,
+  "expiresAt" timestamp,
+  "revokedAt" timestamp,
+  "lastUsedAt" timestamp,
+  "createdBy" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_gwkey_workspace" ON "gateway_api_keys" ("workspaceId");
+
+DO $$ BEGIN
+  ALTER TABLE "gateway_api_keys" ADD CONSTRAINT "gateway_api_keys_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
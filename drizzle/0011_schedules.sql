@@ -0,0 +1,31 @@
+-- Scheduler: persistent cron schedules for WCP workflows and agents
+
+CREATE TABLE IF NOT EXISTS "schedules" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "userId" integer NOT NULL,
+  "workspaceId" integer,
+  "name" varchar(255) NOT NULL,
+  "targetType" varchar(20) NOT NULL,
+  "targetId" integer NOT NULL,
+  "cronExpression" varchar(255) NOT NULL,
+  "timezone" varchar(64) DEFAULT 'UTC' NOT NULL,
+  "missedRunPolicy" varchar(20) DEFAULT 'skip' NOT NULL,
+  "input" json,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "nextRunAt" timestamp,
+  "lastRunAt" timestamp,
+  "lastRunStatus" varchar(50),
+  "lastError" text,
+  "leaseOwner" varchar(100),
+  "leaseExpiresAt" timestamp,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "updatedAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_schedules_next_run" ON "schedules" ("enabled", "nextRunAt");
+CREATE INDEX IF NOT EXISTS "idx_schedules_target" ON "schedules" ("targetType", "targetId");
+
+DO $$ BEGIN
+  ALTER TABLE "schedules" ADD CONSTRAINT "schedules_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
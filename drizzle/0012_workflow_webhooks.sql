@@ -0,0 +1,36 @@
+-- Workflow webhooks: signed inbound HTTP triggers for WCP workflows
+
+CREATE TABLE IF NOT EXISTS "workflow_webhooks" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workflowId" integer NOT NULL,
+  "userId" integer NOT NULL,
+  "token" varchar(64) NOT NULL UNIQUE,
+  "secretKey" varchar(255) NOT NULL,
+  "signatureScheme" varchar(20) DEFAULT 'generic' NOT NULL,
+  "toleranceSeconds" integer DEFAULT 300 NOT NULL,
+  "payloadSchema" json,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "lastDeliveryAt" timestamp,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "updatedAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_workflow_webhooks_workflow" ON "workflow_webhooks" ("workflowId");
+
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "webhookId" integer NOT NULL,
+  "workflowId" integer NOT NULL,
+  "idempotencyKey" varchar(255) NOT NULL,
+  "status" varchar(20) NOT NULL,
+  "error" text,
+  "executionId" integer,
+  "receivedAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_webhook_deliveries_idempotency" ON "webhook_deliveries" ("webhookId", "idempotencyKey");
+
+DO $$ BEGIN
+  ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "workflow_webhooks"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
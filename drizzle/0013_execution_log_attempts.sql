@@ -0,0 +1,3 @@
+-- Automation execution logs: record how many attempts each node took
+
+ALTER TABLE "workflow_execution_logs" ADD COLUMN IF NOT EXISTS "attempts" integer DEFAULT 1 NOT NULL;
@@ -0,0 +1,75 @@
+-- Agent runs: persisted agent tasks, their step-level traces and orchestrated plans
+
+CREATE TABLE IF NOT EXISTS "agent_orchestrations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "userId" integer,
+  "goal" text NOT NULL,
+  "agentKeys" json NOT NULL,
+  "status" varchar(20) DEFAULT 'planning' NOT NULL,
+  "plan" json,
+  "result" json,
+  "error" text,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "completedAt" timestamp
+);
+
+CREATE INDEX IF NOT EXISTS "idx_agent_orchestrations_user" ON "agent_orchestrations" ("userId", "createdAt");
+
+CREATE TABLE IF NOT EXISTS "agent_runs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "userId" integer,
+  "agentId" integer,
+  "agentKey" varchar(255) NOT NULL,
+  "agentName" varchar(255),
+  "source" varchar(20) DEFAULT 'engine' NOT NULL,
+  "orchestrationId" integer,
+  "planStepId" varchar(100),
+  "replayOf" integer,
+  "goal" text NOT NULL,
+  "input" json,
+  "status" varchar(20) DEFAULT 'pending' NOT NULL,
+  "result" json,
+  "error" text,
+  "provider" varchar(100),
+  "model" varchar(255),
+  "promptTokens" integer DEFAULT 0 NOT NULL,
+  "completionTokens" integer DEFAULT 0 NOT NULL,
+  "stepCount" integer DEFAULT 0 NOT NULL,
+  "startedAt" timestamp,
+  "completedAt" timestamp,
+  "durationMs" integer,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "idx_agent_runs_agent" ON "agent_runs" ("agentId", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_agent_runs_agent_key" ON "agent_runs" ("agentKey", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_agent_runs_user" ON "agent_runs" ("userId", "createdAt");
+CREATE INDEX IF NOT EXISTS "idx_agent_runs_orchestration" ON "agent_runs" ("orchestrationId");
+
+DO $$ BEGIN
+  ALTER TABLE "agent_runs" ADD CONSTRAINT "agent_runs_orchestrationId_fkey" FOREIGN KEY ("orchestrationId") REFERENCES "agent_orchestrations"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "agent_run_steps" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "runId" integer NOT NULL,
+  "step" integer NOT NULL,
+  "thought" text,
+  "toolName" varchar(255),
+  "toolInput" json,
+  "observation" text,
+  "provider" varchar(100),
+  "model" varchar(255),
+  "promptTokens" integer,
+  "completionTokens" integer,
+  "latencyMs" integer,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_agent_run_steps_run_step" ON "agent_run_steps" ("runId", "step");
+
+DO $$ BEGIN
+  ALTER TABLE "agent_run_steps" ADD CONSTRAINT "agent_run_steps_runId_fkey" FOREIGN KEY ("runId") REFERENCES "agent_runs"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,13 @@
+-- Embedding collections: the model and dimension each vector collection was built with
+
+CREATE TABLE IF NOT EXISTS "embedding_collections" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "name" varchar(255) NOT NULL,
+  "workspaceId" integer,
+  "embeddingModel" varchar(255) NOT NULL,
+  "dimensions" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "updatedAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_embedding_collections_name" ON "embedding_collections" ("name");
@@ -0,0 +1,7 @@
+-- Vector store backends: workspaces without an explicit backend use the
+-- deployment default, and each collection records the store holding its vectors
+
+ALTER TABLE "workspaces" ALTER COLUMN "vectorDb" DROP DEFAULT;
+UPDATE "workspaces" SET "vectorDb" = NULL WHERE "vectorDb" = 'qdrant';
+
+ALTER TABLE "embedding_collections" ADD COLUMN IF NOT EXISTS "vectorStore" varchar(50);
@@ -0,0 +1,3 @@
+-- Workspace retrieval profile: search mode and hybrid fusion weights
+
+ALTER TABLE "workspaces" ADD COLUMN IF NOT EXISTS "retrievalProfile" json;
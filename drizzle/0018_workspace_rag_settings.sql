@@ -0,0 +1,10 @@
+-- Workspace RAG settings: collectionName and embeddingModel are read at ingestion and retrieval time
+
+-- Generated names never held vectors; chunk embeddings live in workspace-<id>
+UPDATE "workspaces" SET "collectionName" = NULL WHERE "collectionName" ~ '^workspace_[0-9]+$';
+
+-- The old UI offered model names the embedding engine does not know
+ALTER TABLE "workspaces" ALTER COLUMN "embeddingModel" DROP DEFAULT;
+UPDATE "workspaces" SET "embeddingModel" = NULL WHERE "embeddingModel" = 'bge-small-en-v1.5';
+UPDATE "workspaces" SET "embeddingModel" = 'minilm-l6' WHERE "embeddingModel" = 'minilm-l6-v2';
+UPDATE "workspaces" SET "embeddingModel" = 'e5-base' WHERE "embeddingModel" = 'e5-base-v2';
@@ -0,0 +1,41 @@
+-- Incremental re-ingestion: content hashes on documents and chunks, and a version history per document
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "contentHash" varchar(64);
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "version" integer DEFAULT 1 NOT NULL;
+
+-- Chunks ingested before this migration are hashed from their content on the next re-upload
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "contentHash" varchar(64);
+CREATE INDEX IF NOT EXISTS "idx_document_chunks_document_hash" ON "document_chunks" ("documentId", "contentHash");
+
+CREATE TABLE IF NOT EXISTS "document_versions" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "documentId" integer NOT NULL,
+  "version" integer NOT NULL,
+  "contentHash" varchar(64),
+  "fileType" varchar(50) NOT NULL,
+  "fileSize" integer NOT NULL,
+  "fileUrl" text NOT NULL,
+  "fileKey" varchar(500) NOT NULL,
+  "chunkCount" integer,
+  "chunksAdded" integer,
+  "chunksRemoved" integer,
+  "chunksUnchanged" integer,
+  "uploadedBy" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_document_versions_document_version" ON "document_versions" ("documentId", "version");
+
+-- Existing documents start their history at version 1
+INSERT INTO "document_versions" ("documentId", "version", "fileType", "fileSize", "fileUrl", "fileKey", "chunkCount", "uploadedBy", "createdAt")
+SELECT "id", "version", "fileType", "fileSize", "fileUrl", "fileKey", "chunkCount", "uploadedBy", "createdAt" FROM "documents"
+ON CONFLICT ("documentId", "version") DO NOTHING;
+
+DO $$ BEGIN
+  ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "document_versions" ADD CONSTRAINT "document_versions_uploadedBy_fkey" FOREIGN KEY ("uploadedBy") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,66 @@
+-- Document sources: folder and Git connectors that keep a workspace's documents in sync
+
+CREATE TABLE IF NOT EXISTS "document_sources" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "name" varchar(255) NOT NULL,
+  "type" varchar(20) NOT NULL,
+  "path" text NOT NULL,
+  "branch" varchar(255),
+  "includePatterns" json DEFAULT '[]'::json NOT NULL,
+  "excludePatterns" json DEFAULT '[]'::json NOT NULL,
+  "cronExpression" varchar(255),
+  "watch" boolean DEFAULT false NOT NULL,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "status" varchar(20) DEFAULT 'idle' NOT NULL,
+  "leaseExpiresAt" timestamp,
+  "lastSyncAt" timestamp,
+  "lastSyncStatus" varchar(50),
+  "lastSyncStats" json,
+  "lastError" text,
+  "lastRevision" varchar(64),
+  "fileCount" integer DEFAULT 0 NOT NULL,
+  "createdBy" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "updatedAt" timestamp DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS "document_source_files" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "sourceId" integer NOT NULL,
+  "path" varchar(1000) NOT NULL,
+  "documentId" integer,
+  "revision" varchar(64) NOT NULL,
+  "contentHash" varchar(64),
+  "status" varchar(20) NOT NULL,
+  "error" text,
+  "syncedAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_document_source_files_source_path" ON "document_source_files" ("sourceId", "path");
+
+ALTER TABLE "documents" ADD COLUMN IF NOT EXISTS "sourceId" integer;
+
+DO $$ BEGIN
+  ALTER TABLE "document_sources" ADD CONSTRAINT "document_sources_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "document_sources" ADD CONSTRAINT "document_sources_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "document_source_files" ADD CONSTRAINT "document_source_files_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "document_sources"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "document_source_files" ADD CONSTRAINT "document_source_files_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "documents"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "documents" ADD CONSTRAINT "documents_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "document_sources"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
@@ -0,0 +1,14 @@
+-- Token-aware chunking: per-workspace tokenizer and parent chunk size, token counts and parent/child links on chunks
+
+ALTER TABLE "workspaces" ADD COLUMN IF NOT EXISTS "chunkingTokenizer" varchar(100);
+ALTER TABLE "workspaces" ADD COLUMN IF NOT EXISTS "parentChunkSize" integer;
+
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "parentChunkId" integer;
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "isParent" boolean DEFAULT false NOT NULL;
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "tokenCount" integer;
+CREATE INDEX IF NOT EXISTS "idx_document_chunks_parent" ON "document_chunks" ("parentChunkId");
+
+DO $$ BEGIN
+  ALTER TABLE "document_chunks" ADD CONSTRAINT "document_chunks_parentChunkId_fkey" FOREIGN KEY ("parentChunkId") REFERENCES "document_chunks"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
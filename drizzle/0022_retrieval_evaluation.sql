@@ -0,0 +1,72 @@
+-- Retrieval evaluation: per-workspace question sets with expected documents/chunks, and scored runs
+
+CREATE TABLE IF NOT EXISTS "retrieval_eval_sets" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "name" varchar(255) NOT NULL,
+  "description" text,
+  "createdBy" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "updatedAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "idx_retrieval_eval_sets_workspace" ON "retrieval_eval_sets" ("workspaceId");
+
+CREATE TABLE IF NOT EXISTS "retrieval_eval_cases" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "setId" integer NOT NULL,
+  "question" text NOT NULL,
+  "expectedDocumentIds" json DEFAULT '[]'::json NOT NULL,
+  "expectedChunkIds" json DEFAULT '[]'::json NOT NULL,
+  "referenceAnswer" text,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "idx_retrieval_eval_cases_set" ON "retrieval_eval_cases" ("setId");
+
+CREATE TABLE IF NOT EXISTS "retrieval_eval_runs" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "setId" integer NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "label" varchar(255),
+  "k" integer NOT NULL,
+  "profile" json NOT NULL,
+  "generator" json,
+  "judge" json,
+  "status" varchar(20) DEFAULT 'running' NOT NULL,
+  "metrics" json,
+  "results" json DEFAULT '[]'::json NOT NULL,
+  "error" text,
+  "createdBy" integer NOT NULL,
+  "startedAt" timestamp DEFAULT now() NOT NULL,
+  "completedAt" timestamp
+);
+CREATE INDEX IF NOT EXISTS "idx_retrieval_eval_runs_set" ON "retrieval_eval_runs" ("setId", "startedAt");
+
+DO $$ BEGIN
+  ALTER TABLE "retrieval_eval_sets" ADD CONSTRAINT "retrieval_eval_sets_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "retrieval_eval_sets" ADD CONSTRAINT "retrieval_eval_sets_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "retrieval_eval_cases" ADD CONSTRAINT "retrieval_eval_cases_setId_fkey" FOREIGN KEY ("setId") REFERENCES "retrieval_eval_sets"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "retrieval_eval_runs" ADD CONSTRAINT "retrieval_eval_runs_setId_fkey" FOREIGN KEY ("setId") REFERENCES "retrieval_eval_sets"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "retrieval_eval_runs" ADD CONSTRAINT "retrieval_eval_runs_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "retrieval_eval_runs" ADD CONSTRAINT "retrieval_eval_runs_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
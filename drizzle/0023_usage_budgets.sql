@@ -0,0 +1,71 @@
+-- Usage budgets: ledger columns on provider_usage, per-workspace/provider/agent budgets and their threshold alerts
+
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "agentId" integer;
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "requestId" varchar(64);
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "status" varchar(20) DEFAULT 'settled' NOT NULL;
+CREATE INDEX IF NOT EXISTS "idx_provider_usage_workspace_created" ON "provider_usage" ("workspaceId", "createdAt");
+
+DO $$ BEGIN
+  ALTER TABLE "provider_usage" ADD CONSTRAINT "provider_usage_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "usage_budgets" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "name" varchar(255) NOT NULL,
+  "scope" varchar(20) NOT NULL,
+  "providerId" integer,
+  "agentId" integer,
+  "period" varchar(20) NOT NULL,
+  "tokenLimit" integer,
+  "costLimit" numeric(12, 4),
+  "requestLimit" integer,
+  "mode" varchar(20) DEFAULT 'hard_stop' NOT NULL,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "createdBy" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "updatedAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "idx_usage_budgets_workspace" ON "usage_budgets" ("workspaceId");
+
+CREATE TABLE IF NOT EXISTS "budget_alerts" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "budgetKey" varchar(100) NOT NULL,
+  "budgetName" varchar(255) NOT NULL,
+  "threshold" integer NOT NULL,
+  "periodStart" timestamp NOT NULL,
+  "utilization" varchar(20) NOT NULL,
+  "tokensUsed" integer NOT NULL,
+  "cost" varchar(20) NOT NULL,
+  "requests" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_budget_alerts_once" ON "budget_alerts" ("budgetKey", "threshold", "periodStart");
+CREATE INDEX IF NOT EXISTS "idx_budget_alerts_workspace" ON "budget_alerts" ("workspaceId", "createdAt");
+
+DO $$ BEGIN
+  ALTER TABLE "usage_budgets" ADD CONSTRAINT "usage_budgets_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "usage_budgets" ADD CONSTRAINT "usage_budgets_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "usage_budgets" ADD CONSTRAINT "usage_budgets_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "usage_budgets" ADD CONSTRAINT "usage_budgets_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
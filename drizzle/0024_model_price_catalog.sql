@@ -0,0 +1,80 @@
+-- Model price catalog: versioned per-model prices, and provider_usage costs in micro-dollars with the token split they were priced from
+
+CREATE TABLE IF NOT EXISTS "model_prices" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "providerType" varchar(50) NOT NULL,
+  "providerId" integer,
+  "model" varchar(255) NOT NULL,
+  "version" integer DEFAULT 1 NOT NULL,
+  "inputPerMillion" numeric(12, 6) NOT NULL,
+  "outputPerMillion" numeric(12, 6) NOT NULL,
+  "cachedInputPerMillion" numeric(12, 6),
+  "embeddingPerMillion" numeric(12, 6),
+  "perImage" numeric(12, 6),
+  "effectiveFrom" timestamp NOT NULL,
+  "notes" text,
+  "createdBy" integer,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "idx_model_prices_model" ON "model_prices" ("providerType", "model", "effectiveFrom");
+
+DO $$ BEGIN
+  ALTER TABLE "model_prices" ADD CONSTRAINT "model_prices_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "model_prices" ADD CONSTRAINT "model_prices_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE NO ACTION ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Seed the catalog with the prices the providers carried in code
+INSERT INTO "model_prices" ("providerType", "model", "inputPerMillion", "outputPerMillion", "cachedInputPerMillion", "embeddingPerMillion", "effectiveFrom", "notes")
+SELECT seed.*, '2025-01-01 00:00:00'::timestamp, 'Initial catalog'
+FROM (VALUES
+  ('openai', 'gpt-4.1', 2.0, 8.0, 0.5, NULL::numeric),
+  ('openai', 'gpt-4.1-mini', 0.4, 1.6, 0.1, NULL),
+  ('openai', 'gpt-4.1-nano', 0.1, 0.4, 0.025, NULL),
+  ('openai', 'o3', 10.0, 40.0, 2.5, NULL),
+  ('openai', 'o4-mini', 1.1, 4.4, 0.275, NULL),
+  ('openai', 'gpt-4o', 2.5, 10.0, 1.25, NULL),
+  ('openai', 'gpt-4o-mini', 0.15, 0.6, 0.075, NULL),
+  ('openai', 'text-embedding-3-small', 0, 0, NULL, 0.02),
+  ('openai', 'text-embedding-3-large', 0, 0, NULL, 0.13),
+  ('anthropic', 'claude-opus-4-6', 15.0, 75.0, 1.5, NULL),
+  ('anthropic', 'claude-opus-4-5', 15.0, 75.0, 1.5, NULL),
+  ('anthropic', 'claude-sonnet-4-5', 3.0, 15.0, 0.3, NULL),
+  ('anthropic', 'claude-sonnet-4', 3.0, 15.0, 0.3, NULL),
+  ('anthropic', 'claude-haiku-4-5', 0.8, 4.0, 0.08, NULL),
+  ('google', 'gemini-3-pro', 1.25, 5.0, NULL, NULL),
+  ('google', 'gemini-3-flash', 0.075, 0.3, NULL, NULL),
+  ('google', 'gemini-2.5-pro', 1.25, 5.0, NULL, NULL),
+  ('google', 'gemini-2.5-flash', 0.075, 0.3, NULL, NULL),
+  ('google', 'gemini-2.5-flash-lite', 0.0375, 0.15, NULL, NULL),
+  ('google', 'gemini-2.0-flash', 0.075, 0.3, NULL, NULL),
+  ('google', 'text-embedding-004', 0, 0, NULL, 0.01)
+) AS seed("providerType", "model", "inputPerMillion", "outputPerMillion", "cachedInputPerMillion", "embeddingPerMillion")
+WHERE NOT EXISTS (SELECT 1 FROM "model_prices");
+
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "kind" varchar(20) DEFAULT 'chat' NOT NULL;
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "promptTokens" integer;
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "completionTokens" integer;
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "cachedPromptTokens" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "imageCount" integer DEFAULT 0 NOT NULL;
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "costMicros" bigint DEFAULT 0 NOT NULL;
+ALTER TABLE "provider_usage" ADD COLUMN IF NOT EXISTS "priceId" integer;
+
+DO $$ BEGIN
+  ALTER TABLE "provider_usage" ADD CONSTRAINT "provider_usage_priceId_fkey" FOREIGN KEY ("priceId") REFERENCES "model_prices"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Carry the old dollar strings over to micro-dollars, then drop them
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'provider_usage' AND column_name = 'cost') THEN
+    UPDATE "provider_usage"
+      SET "costMicros" = ROUND(CAST("cost" AS numeric) * 1000000)
+      WHERE "cost" ~ '^-?[0-9]*\.?[0-9]+([eE][-+]?[0-9]+)?$';
+    ALTER TABLE "provider_usage" DROP COLUMN "cost";
+  END IF;
+END $$;
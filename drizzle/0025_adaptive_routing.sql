@@ -0,0 +1,57 @@
+-- Adaptive routing: per-attempt observations, chat feedback on routed responses, and the decision behind each routed request
+
+CREATE TABLE IF NOT EXISTS "routing_observations" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "providerId" integer NOT NULL,
+  "workspaceId" integer,
+  "requestId" varchar(64),
+  "success" boolean NOT NULL,
+  "streaming" boolean DEFAULT false NOT NULL,
+  "latencyMs" integer,
+  "ttftMs" integer,
+  "errorMessage" text,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE INDEX IF NOT EXISTS "idx_routing_observations_provider" ON "routing_observations" ("providerId", "createdAt");
+
+DO $$ BEGIN
+  ALTER TABLE "routing_observations" ADD CONSTRAINT "routing_observations_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "routing_observations" ADD CONSTRAINT "routing_observations_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "routing_feedback" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "providerId" integer NOT NULL,
+  "requestId" varchar(64) NOT NULL,
+  "userId" integer NOT NULL,
+  "rating" integer NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL,
+  "updatedAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_routing_feedback_once" ON "routing_feedback" ("requestId", "userId");
+CREATE INDEX IF NOT EXISTS "idx_routing_feedback_provider" ON "routing_feedback" ("providerId", "createdAt");
+
+DO $$ BEGIN
+  ALTER TABLE "routing_feedback" ADD CONSTRAINT "routing_feedback_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "routing_feedback" ADD CONSTRAINT "routing_feedback_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "routing_feedback" ADD CONSTRAINT "routing_feedback_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE "routing_audit_logs" ADD COLUMN IF NOT EXISTS "decision" json;
+ALTER TABLE "routing_audit_logs" ADD COLUMN IF NOT EXISTS "ttftMs" integer;
+CREATE INDEX IF NOT EXISTS "idx_routing_audit_logs_request" ON "routing_audit_logs" ("requestId");
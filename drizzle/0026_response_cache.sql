@@ -0,0 +1,51 @@
+-- Response cache in front of the provider router: cached responses and daily hit/miss counters per workspace
+
+CREATE TABLE IF NOT EXISTS "response_cache_entries" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "providerId" integer NOT NULL,
+  "cacheKey" varchar(64) NOT NULL,
+  "contextKey" varchar(64) NOT NULL,
+  "model" varchar(255),
+  "prompt" text,
+  "embedding" json,
+  "embeddingModel" varchar(255),
+  "response" json NOT NULL,
+  "chunks" json,
+  "tokensUsed" integer DEFAULT 0 NOT NULL,
+  "costMicros" bigint DEFAULT 0 NOT NULL,
+  "hitCount" integer DEFAULT 0 NOT NULL,
+  "lastHitAt" timestamp,
+  "expiresAt" timestamp NOT NULL,
+  "createdAt" timestamp DEFAULT now() NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_response_cache_entries_key" ON "response_cache_entries" ("workspaceId", "cacheKey");
+CREATE INDEX IF NOT EXISTS "idx_response_cache_entries_context" ON "response_cache_entries" ("workspaceId", "contextKey", "expiresAt");
+
+DO $$ BEGIN
+  ALTER TABLE "response_cache_entries" ADD CONSTRAINT "response_cache_entries_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE "response_cache_entries" ADD CONSTRAINT "response_cache_entries_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "providers"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "response_cache_stats" (
+  "id" serial PRIMARY KEY NOT NULL,
+  "workspaceId" integer NOT NULL,
+  "day" timestamp NOT NULL,
+  "exactHits" integer DEFAULT 0 NOT NULL,
+  "semanticHits" integer DEFAULT 0 NOT NULL,
+  "misses" integer DEFAULT 0 NOT NULL,
+  "bypassed" integer DEFAULT 0 NOT NULL,
+  "tokensSaved" bigint DEFAULT 0 NOT NULL,
+  "costSavedMicros" bigint DEFAULT 0 NOT NULL
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_response_cache_stats_day" ON "response_cache_stats" ("workspaceId", "day");
+
+DO $$ BEGIN
+  ALTER TABLE "response_cache_stats" ADD CONSTRAINT "response_cache_stats_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
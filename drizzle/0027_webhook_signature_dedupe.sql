@@ -0,0 +1,4 @@
+-- Webhook deliveries are de-duplicated on their signature digest as well as their idempotency key, so a signed body replayed under a new delivery id is still caught
+
+ALTER TABLE "webhook_deliveries" ADD COLUMN IF NOT EXISTS "signatureDigest" varchar(64);
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_webhook_deliveries_signature" ON "webhook_deliveries" ("webhookId", "signatureDigest");
@@ -16,6 +16,7 @@ import {
   providers,
   workspaceProviders,
   providerUsage,
+  modelPrices,
   providerHealthChecks,
   providerMetrics,
   routingAuditLogs,
@@ -150,6 +151,7 @@ export const workspaceProvidersRelations = relations(workspaceProviders, ({ one
 export const providerUsageRelations = relations(providerUsage, ({ one }) => ({
   workspace: one(workspaces, { fields: [providerUsage.workspaceId], references: [workspaces.id] }),
   provider: one(providers, { fields: [providerUsage.providerId], references: [providers.id] }),
+  price: one(modelPrices, { fields: [providerUsage.priceId], references: [modelPrices.id] }),
 }));
 
 export const providerHealthChecksRelations = relations(providerHealthChecks, ({ one }) => ({
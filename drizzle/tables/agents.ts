@@ -439,3 +439,103 @@ export const governanceAuditLogs = pgTable("governance_audit_logs", {
 
 export type GovernanceAuditLog = typeof governanceAuditLogs.$inferSelect;
 export type InsertGovernanceAuditLog = typeof governanceAuditLogs.$inferInsert;
+
+// ============================================================================
+// Agent Runs
+// ============================================================================
+
+export type AgentRunStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+export type AgentRunSource = "engine" | "workflow" | "schedule" | "orchestrator" | "replay";
+
+export interface AgentPlanStepRecord {
+  id: string;
+  agentId: string;
+  goal: string;
+  dependencies: string[];
+  status: "pending" | "running" | "completed" | "failed" | "skipped";
+  runId?: number | null;
+  error?: string;
+}
+
+export const agentOrchestrations = pgTable("agent_orchestrations", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId"),
+  goal: text("goal").notNull(),
+  agentKeys: json("agentKeys").$type<string[]>().notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("planning"),
+  plan: json("plan").$type<AgentPlanStepRecord[]>(),
+  result: json("result"),
+  error: text("error"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  completedAt: timestamp("completedAt"),
+}, (table) => ({
+  userIdx: index("idx_agent_orchestrations_user").on(table.userId, table.createdAt),
+}));
+
+export type AgentOrchestration = typeof agentOrchestrations.$inferSelect;
+export type InsertAgentOrchestration = typeof agentOrchestrations.$inferInsert;
+
+export const agentRuns = pgTable("agent_runs", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId"),
+
+  // Database agents set agentId; engine agents are identified by agentKey only
+  agentId: integer("agentId"),
+  agentKey: varchar("agentKey", { length: 255 }).notNull(),
+  agentName: varchar("agentName", { length: 255 }),
+
+  source: varchar("source", { length: 20 }).$type<AgentRunSource>().notNull().default("engine"),
+  orchestrationId: integer("orchestrationId").references(() => agentOrchestrations.id),
+  planStepId: varchar("planStepId", { length: 100 }),
+  replayOf: integer("replayOf"),
+
+  goal: text("goal").notNull(),
+  input: json("input"),
+  status: varchar("status", { length: 20 }).$type<AgentRunStatus>().notNull().default("pending"),
+  result: json("result"),
+  error: text("error"),
+
+  // Totals across steps
+  provider: varchar("provider", { length: 100 }),
+  model: varchar("model", { length: 255 }),
+  promptTokens: integer("promptTokens").notNull().default(0),
+  completionTokens: integer("completionTokens").notNull().default(0),
+  stepCount: integer("stepCount").notNull().default(0),
+
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  durationMs: integer("durationMs"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  agentIdx: index("idx_agent_runs_agent").on(table.agentId, table.createdAt),
+  agentKeyIdx: index("idx_agent_runs_agent_key").on(table.agentKey, table.createdAt),
+  userIdx: index("idx_agent_runs_user").on(table.userId, table.createdAt),
+  orchestrationIdx: index("idx_agent_runs_orchestration").on(table.orchestrationId),
+}));
+
+export type AgentRun = typeof agentRuns.$inferSelect;
+export type InsertAgentRun = typeof agentRuns.$inferInsert;
+
+export const agentRunSteps = pgTable("agent_run_steps", {
+  id: serial("id").primaryKey(),
+  runId: integer("runId").notNull().references(() => agentRuns.id, { onDelete: "cascade" }),
+  step: integer("step").notNull(),
+
+  thought: text("thought"),
+  toolName: varchar("toolName", { length: 255 }),
+  toolInput: json("toolInput"),
+  observation: text("observation"),
+
+  provider: varchar("provider", { length: 100 }),
+  model: varchar("model", { length: 255 }),
+  promptTokens: integer("promptTokens"),
+  completionTokens: integer("completionTokens"),
+  latencyMs: integer("latencyMs"),
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  runStepIdx: uniqueIndex("idx_agent_run_steps_run_step").on(table.runId, table.step),
+}));
+
+export type AgentRunStep = typeof agentRunSteps.$inferSelect;
+export type InsertAgentRunStep = typeof agentRunSteps.$inferInsert;
@@ -1,4 +1,4 @@
-import { integer, serial, varchar, pgTable, text, timestamp, boolean, json, index } from "drizzle-orm/pg-core";
+import { integer, serial, varchar, pgTable, text, timestamp, boolean, json, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { users, workspaces } from "./users";
 
 // ============================================================================
@@ -106,6 +106,7 @@ export const workflowExecutionLogs = pgTable("workflow_execution_logs", {
   startedAt: timestamp("startedAt").defaultNow().notNull(),
   completedAt: timestamp("completedAt"),
   duration: integer("duration"),
+  attempts: integer("attempts").default(1).notNull(),
 
   // Input/output data
   input: json("input"),
@@ -433,6 +434,128 @@ export const wcpExecutions = pgTable("wcp_executions", {
 export type WCPExecution = typeof wcpExecutions.$inferSelect;
 export type InsertWCPExecution = typeof wcpExecutions.$inferInsert;
 
+// ============================================================================
+// Schedules (cron triggers for WCP workflows, agents and document source syncs)
+// ============================================================================
+
+export type ScheduleTargetType = "workflow" | "agent" | "document_source";
+
+/**
+ * What to do with fire times that passed while no instance was running:
+ *   - skip: drop them and wait for the next future fire time
+ *   - run_once: fire a single run for the whole missed window
+ *   - catch_up: fire every missed run (capped per tick)
+ */
+export type MissedRunPolicy = "skip" | "run_once" | "catch_up";
+
+export const schedules = pgTable("schedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").notNull(),
+  workspaceId: integer("workspaceId"),
+
+  name: varchar("name", { length: 255 }).notNull(),
+
+  // What to run: a WCP workflow id, an agent id or a document source id
+  targetType: varchar("targetType", { length: 20 }).$type<ScheduleTargetType>().notNull(),
+  targetId: integer("targetId").notNull(),
+
+  // When to run
+  cronExpression: varchar("cronExpression", { length: 255 }).notNull(),
+  timezone: varchar("timezone", { length: 64 }).default("UTC").notNull(),
+  missedRunPolicy: varchar("missedRunPolicy", { length: 20 }).$type<MissedRunPolicy>().default("skip").notNull(),
+
+  // Passed to the run as trigger data (agent goal, workflow variables)
+  input: json("input").$type<Record<string, any>>(),
+
+  enabled: boolean("enabled").default(true).notNull(),
+
+  // Run tracking
+  nextRunAt: timestamp("nextRunAt"),
+  lastRunAt: timestamp("lastRunAt"),
+  lastRunStatus: varchar("lastRunStatus", { length: 50 }),
+  lastError: text("lastError"),
+
+  // Lease so only one server instance fires a given schedule
+  leaseOwner: varchar("leaseOwner", { length: 100 }),
+  leaseExpiresAt: timestamp("leaseExpiresAt"),
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => ({
+  nextRunIdx: index("idx_schedules_next_run").on(table.enabled, table.nextRunAt),
+  targetIdx: index("idx_schedules_target").on(table.targetType, table.targetId),
+}));
+
+export type Schedule = typeof schedules.$inferSelect;
+export type InsertSchedule = typeof schedules.$inferInsert;
+
+// ============================================================================
+// Workflow Webhooks (signed inbound HTTP triggers for WCP workflows)
+// ============================================================================
+
+/**
+ * Signature header conventions:
+ *   - generic: X-Webhook-Signature "sha256=<hex>" over "<X-Webhook-Timestamp>.<body>"
+ *   - github: X-Hub-Signature-256 "sha256=<hex>" over the body
+ *   - stripe: Stripe-Signature "t=<ts>,v1=<hex>" over "<t>.<body>"
+ */
+export type WebhookSignatureScheme = "generic" | "github" | "stripe";
+
+export type WebhookDeliveryStatus = "accepted" | "rejected";
+
+export const workflowWebhooks = pgTable("workflow_webhooks", {
+  id: serial("id").primaryKey(),
+  workflowId: integer("workflowId").notNull(),
+  userId: integer("userId").notNull(),
+
+  // Public path segment of the endpoint URL
+  token: varchar("token", { length: 64 }).notNull().unique(),
+
+  // Signing secret, stored encrypted via the secrets service under this key
+  secretKey: varchar("secretKey", { length: 255 }).notNull(),
+  signatureScheme: varchar("signatureScheme", { length: 20 }).$type<WebhookSignatureScheme>().default("generic").notNull(),
+
+  // Max age of a signed timestamp before the delivery counts as a replay
+  toleranceSeconds: integer("toleranceSeconds").default(300).notNull(),
+
+  // Optional JSON Schema the payload must satisfy
+  payloadSchema: json("payloadSchema"),
+
+  enabled: boolean("enabled").default(true).notNull(),
+  lastDeliveryAt: timestamp("lastDeliveryAt"),
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => ({
+  workflowIdx: index("idx_workflow_webhooks_workflow").on(table.workflowId),
+}));
+
+export type WorkflowWebhook = typeof workflowWebhooks.$inferSelect;
+export type InsertWorkflowWebhook = typeof workflowWebhooks.$inferInsert;
+
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  webhookId: integer("webhookId").notNull(),
+  workflowId: integer("workflowId").notNull(),
+
+  // Idempotency-Key header, provider delivery id or signature digest
+  idempotencyKey: varchar("idempotencyKey", { length: 255 }).notNull(),
+  // SHA-256 of the verified signature; unlike the headers above it can't be changed without the secret
+  signatureDigest: varchar("signatureDigest", { length: 64 }),
+
+  status: varchar("status", { length: 20 }).$type<WebhookDeliveryStatus>().notNull(),
+  error: text("error"),
+  executionId: integer("executionId"),
+
+  receivedAt: timestamp("receivedAt").defaultNow().notNull(),
+}, (table) => ({
+  idempotencyIdx: uniqueIndex("idx_webhook_deliveries_idempotency").on(table.webhookId, table.idempotencyKey),
+  signatureIdx: uniqueIndex("idx_webhook_deliveries_signature").on(table.webhookId, table.signatureDigest),
+}));
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+
 // ============================================================================
 // Workflow Templates
 // ============================================================================
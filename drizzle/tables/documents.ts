@@ -1,5 +1,5 @@
-import { integer, serial, varchar, pgTable, text, timestamp, json } from "drizzle-orm/pg-core";
-import { users, workspaces } from "./users";
+import { integer, serial, varchar, pgTable, text, timestamp, json, boolean, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { users, workspaces, type RetrievalProfile } from "./users";
 
 // ============================================================================
 // Document Management
@@ -30,6 +30,13 @@ export const documents = pgTable("documents", {
   chunkCount: integer("chunkCount").default(0),
   embeddingModel: varchar("embeddingModel", { length: 255 }),
 
+  // Re-ingestion: SHA-256 of the current file, bumped on every changed re-upload
+  contentHash: varchar("contentHash", { length: 64 }),
+  version: integer("version").default(1).notNull(),
+
+  // Connector that keeps this document in sync; null for manual uploads
+  sourceId: integer("sourceId").references((): AnyPgColumn => documentSources.id),
+
   uploadedBy: integer("uploadedBy").notNull().references(() => users.id),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
@@ -53,8 +60,247 @@ export const documentChunks = pgTable("document_chunks", {
   // Vector DB reference
   vectorId: varchar("vectorId", { length: 255 }),
 
+  // SHA-256 of content; unchanged chunks keep their row and vector across re-ingestion
+  contentHash: varchar("contentHash", { length: 64 }),
+
+  // Parent/child chunking: children are embedded and searched, their parent section is what the LLM reads
+  parentChunkId: integer("parentChunkId").references((): AnyPgColumn => documentChunks.id, { onDelete: "set null" }),
+  isParent: boolean("isParent").default(false).notNull(), // Parents have no vector and aren't searched
+  tokenCount: integer("tokenCount"), // In the workspace tokenizer's tokens, or estimated
+
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => ({
+  documentHashIdx: index("idx_document_chunks_document_hash").on(table.documentId, table.contentHash),
+  parentIdx: index("idx_document_chunks_parent").on(table.parentChunkId),
+}));
 
 export type DocumentChunk = typeof documentChunks.$inferSelect;
 export type InsertDocumentChunk = typeof documentChunks.$inferInsert;
+
+// One row per uploaded revision of a document, with what re-ingesting it changed
+export const documentVersions = pgTable("document_versions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("documentId").notNull().references(() => documents.id),
+  version: integer("version").notNull(),
+
+  // The revision's file; contentHash is null for revisions uploaded before hashing
+  contentHash: varchar("contentHash", { length: 64 }),
+  fileType: varchar("fileType", { length: 50 }).notNull(),
+  fileSize: integer("fileSize").notNull(),
+  fileUrl: text("fileUrl").notNull(),
+  fileKey: varchar("fileKey", { length: 500 }).notNull(),
+
+  // Chunk diff against the previous version; null until processing finishes
+  chunkCount: integer("chunkCount"),
+  chunksAdded: integer("chunksAdded"),
+  chunksRemoved: integer("chunksRemoved"),
+  chunksUnchanged: integer("chunksUnchanged"),
+
+  uploadedBy: integer("uploadedBy").notNull().references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  documentVersionIdx: uniqueIndex("idx_document_versions_document_version").on(table.documentId, table.version),
+}));
+
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = typeof documentVersions.$inferInsert;
+
+// ============================================================================
+// Document Sources (folder and Git connectors)
+// ============================================================================
+
+export type DocumentSourceType = "folder" | "git";
+
+export interface DocumentSourceSyncStats {
+  added: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+  failed: number;
+}
+
+export const documentSources = pgTable("document_sources", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id),
+  name: varchar("name", { length: 255 }).notNull(),
+  type: varchar("type", { length: 20 }).$type<DocumentSourceType>().notNull(),
+
+  // Absolute path of the directory or Git clone; Git sources read the branch without checking it out
+  path: text("path").notNull(),
+  branch: varchar("branch", { length: 255 }),
+
+  // Globs over paths relative to the source root; no include patterns means every supported file
+  includePatterns: json("includePatterns").$type<string[]>().default([]).notNull(),
+  excludePatterns: json("excludePatterns").$type<string[]>().default([]).notNull(),
+
+  // Cron schedule (null: on demand only); folder sources can also sync whenever files change
+  cronExpression: varchar("cronExpression", { length: 255 }),
+  watch: boolean("watch").default(false).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+
+  // Sync state; the lease stops two instances syncing the same source at once
+  status: varchar("status", { length: 20 }).default("idle").notNull(),
+  leaseExpiresAt: timestamp("leaseExpiresAt"),
+  lastSyncAt: timestamp("lastSyncAt"),
+  lastSyncStatus: varchar("lastSyncStatus", { length: 50 }),
+  lastSyncStats: json("lastSyncStats").$type<DocumentSourceSyncStats>(),
+  lastError: text("lastError"),
+  lastRevision: varchar("lastRevision", { length: 64 }), // Commit of the last Git sync
+  fileCount: integer("fileCount").default(0).notNull(),
+
+  createdBy: integer("createdBy").notNull().references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type DocumentSource = typeof documentSources.$inferSelect;
+export type InsertDocumentSource = typeof documentSources.$inferInsert;
+
+// One row per file a source has seen, mapping it to its document
+export const documentSourceFiles = pgTable("document_source_files", {
+  id: serial("id").primaryKey(),
+  sourceId: integer("sourceId").notNull().references(() => documentSources.id, { onDelete: "cascade" }),
+  path: varchar("path", { length: 1000 }).notNull(),
+  documentId: integer("documentId").references(() => documents.id, { onDelete: "set null" }),
+
+  // Git blob id, or size and mtime for folders; the file is only read when this changes
+  revision: varchar("revision", { length: 64 }).notNull(),
+  contentHash: varchar("contentHash", { length: 64 }),
+
+  status: varchar("status", { length: 20 }).notNull(), // synced | failed
+  error: text("error"),
+  syncedAt: timestamp("syncedAt").defaultNow().notNull(),
+}, (table) => ({
+  sourcePathIdx: uniqueIndex("idx_document_source_files_source_path").on(table.sourceId, table.path),
+}));
+
+export type DocumentSourceFile = typeof documentSourceFiles.$inferSelect;
+export type InsertDocumentSourceFile = typeof documentSourceFiles.$inferInsert;
+
+// ============================================================================
+// Retrieval Evaluation
+// ============================================================================
+
+// A named set of questions with known relevant documents/chunks in one workspace
+export const retrievalEvalSets = pgTable("retrieval_eval_sets", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  createdBy: integer("createdBy").notNull().references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => ({
+  workspaceIdx: index("idx_retrieval_eval_sets_workspace").on(table.workspaceId),
+}));
+
+export type RetrievalEvalSet = typeof retrievalEvalSets.$inferSelect;
+export type InsertRetrievalEvalSet = typeof retrievalEvalSets.$inferInsert;
+
+export const retrievalEvalCases = pgTable("retrieval_eval_cases", {
+  id: serial("id").primaryKey(),
+  setId: integer("setId").notNull().references(() => retrievalEvalSets.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+
+  // A retrieved chunk is relevant when it is one of these chunks or belongs to one of these documents
+  expectedDocumentIds: json("expectedDocumentIds").$type<number[]>().default([]).notNull(),
+  expectedChunkIds: json("expectedChunkIds").$type<number[]>().default([]).notNull(),
+  referenceAnswer: text("referenceAnswer"), // Shown to the judge when scoring answers
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  setIdx: index("idx_retrieval_eval_cases_set").on(table.setId),
+}));
+
+export type RetrievalEvalCase = typeof retrievalEvalCases.$inferSelect;
+export type InsertRetrievalEvalCase = typeof retrievalEvalCases.$inferInsert;
+
+export type RetrievalEvalRunStatus = "running" | "completed" | "failed";
+
+export interface RetrievalEvalModelRef {
+  providerId: number;
+  model?: string;
+}
+
+// Averages over the set's cases; faithfulness only over cases the judge scored
+export interface RetrievalEvalMetrics {
+  cases: number;
+  recallAtK: number;
+  mrr: number;
+  ndcg: number;
+  faithfulness: number | null;
+  answerCorrectness: number | null; // Judged against reference answers, where cases have one
+  judged: number;
+  latencyMs: number; // Mean retrieval latency
+}
+
+export interface RetrievalEvalCaseResult {
+  caseId: number;
+  question: string;
+  retrieved: { chunkId: number | null; documentId: number | null; score: number; relevant: boolean }[];
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  latencyMs: number;
+  answer?: string;
+  faithfulness?: number | null;
+  answerCorrectness?: number | null;
+  judgeReasoning?: string;
+  error?: string;
+}
+
+// The workspace's retrieval settings a run used, with any overrides applied
+export interface RetrievalEvalProfile extends RetrievalProfile {
+  collection: string;
+  embeddingModel: string | null;
+  chunking: { strategy: string; size: number; overlap: number; tokenizer: string | null; parentSize: number | null };
+}
+
+// One evaluation of a set under one retrieval profile; the effective profile,
+// chunking and embedding model are snapshotted so runs stay comparable
+export const retrievalEvalRuns = pgTable("retrieval_eval_runs", {
+  id: serial("id").primaryKey(),
+  setId: integer("setId").notNull().references(() => retrievalEvalSets.id, { onDelete: "cascade" }),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  label: varchar("label", { length: 255 }),
+  k: integer("k").notNull(),
+  profile: json("profile").$type<RetrievalEvalProfile>().notNull(),
+  generator: json("generator").$type<RetrievalEvalModelRef>(),
+  judge: json("judge").$type<RetrievalEvalModelRef>(),
+
+  status: varchar("status", { length: 20 }).$type<RetrievalEvalRunStatus>().default("running").notNull(),
+  metrics: json("metrics").$type<RetrievalEvalMetrics>(),
+  results: json("results").$type<RetrievalEvalCaseResult[]>().default([]).notNull(),
+  error: text("error"),
+
+  createdBy: integer("createdBy").notNull().references(() => users.id),
+  startedAt: timestamp("startedAt").defaultNow().notNull(),
+  completedAt: timestamp("completedAt"),
+}, (table) => ({
+  setIdx: index("idx_retrieval_eval_runs_set").on(table.setId, table.startedAt),
+}));
+
+export type RetrievalEvalRun = typeof retrievalEvalRuns.$inferSelect;
+export type InsertRetrievalEvalRun = typeof retrievalEvalRuns.$inferInsert;
+
+// ============================================================================
+// Embedding Collections
+// ============================================================================
+
+// The embedding model and dimension a vector collection was built with;
+// vectors from a different model are refused
+export const embeddingCollections = pgTable("embedding_collections", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  workspaceId: integer("workspaceId"),
+  embeddingModel: varchar("embeddingModel", { length: 255 }).notNull(),
+  dimensions: integer("dimensions").notNull(),
+  vectorStore: varchar("vectorStore", { length: 50 }), // Backend holding the vectors
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => ({
+  nameIdx: uniqueIndex("idx_embedding_collections_name").on(table.name),
+}));
+
+export type EmbeddingCollection = typeof embeddingCollections.$inferSelect;
+export type InsertEmbeddingCollection = typeof embeddingCollections.$inferInsert;
@@ -1,5 +1,6 @@
-import { integer, serial, varchar, pgTable, text, timestamp, boolean, json, decimal, index, pgEnum } from "drizzle-orm/pg-core";
-import { workspaces } from "./users";
+import { integer, serial, varchar, pgTable, text, timestamp, boolean, json, decimal, numeric, bigint, index, uniqueIndex, pgEnum } from "drizzle-orm/pg-core";
+import { users, workspaces } from "./users";
+import { agents } from "./agents";
 
 // ============================================================================
 // Provider System (Provider Hub Integration)
@@ -16,6 +17,18 @@ export interface ProviderLimits {
   maxOutput?: number;
   rateLimit?: number;
   costTier?: CostTier;
+  circuitBreaker?: CircuitBreakerLimits;
+}
+
+// Per-provider circuit breaker thresholds; unset fields use the defaults
+export interface CircuitBreakerLimits {
+  failureThreshold?: number; // Consecutive failures that open the circuit
+  failureRateThreshold?: number; // Failure share over the window that opens it (0-1)
+  minimumRequests?: number; // Requests the window needs before the rate counts
+  windowMs?: number;
+  openDurationMs?: number; // How long the circuit stays open before probing
+  halfOpenMaxProbes?: number; // Concurrent probe requests while half-open
+  successThreshold?: number; // Probe successes that close the circuit
 }
 
 export const providers = pgTable("providers", {
@@ -61,22 +74,134 @@ export const workspaceProviders = pgTable("workspace_providers", {
 export type WorkspaceProvider = typeof workspaceProviders.$inferSelect;
 export type InsertWorkspaceProvider = typeof workspaceProviders.$inferInsert;
 
+// ============================================================================
+// Model Price Catalog
+// ============================================================================
+
+// Prices are dollars per million tokens (equivalently, micro-dollars per
+// token) and dollars per image. A row applies from effectiveFrom until the
+// next row for the same provider type (or provider) and model takes over.
+export const modelPrices = pgTable("model_prices", {
+  id: serial("id").primaryKey(),
+  providerType: varchar("providerType", { length: 50 }).notNull(),
+  // Set to price one provider differently from others of its type
+  providerId: integer("providerId").references(() => providers.id, { onDelete: "cascade" }),
+  // Matches the usage's model name exactly, or as its longest prefix
+  model: varchar("model", { length: 255 }).notNull(),
+  version: integer("version").default(1).notNull(),
+
+  inputPerMillion: numeric("inputPerMillion", { precision: 12, scale: 6 }).notNull(),
+  outputPerMillion: numeric("outputPerMillion", { precision: 12, scale: 6 }).notNull(),
+  cachedInputPerMillion: numeric("cachedInputPerMillion", { precision: 12, scale: 6 }),
+  embeddingPerMillion: numeric("embeddingPerMillion", { precision: 12, scale: 6 }),
+  perImage: numeric("perImage", { precision: 12, scale: 6 }),
+
+  effectiveFrom: timestamp("effectiveFrom").notNull(),
+  notes: text("notes"),
+  createdBy: integer("createdBy").references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  modelIdx: index("idx_model_prices_model").on(table.providerType, table.model, table.effectiveFrom),
+}));
+
+export type ModelPrice = typeof modelPrices.$inferSelect;
+export type InsertModelPrice = typeof modelPrices.$inferInsert;
+
 export const providerUsage = pgTable("provider_usage", {
   id: serial("id").primaryKey(),
   workspaceId: integer("workspaceId").notNull().references(() => workspaces.id),
   providerId: integer("providerId").notNull().references(() => providers.id),
 
   modelName: varchar("modelName", { length: 255 }),
+  kind: varchar("kind", { length: 20 }).default("chat").notNull().$type<UsageKind>(),
   tokensUsed: integer("tokensUsed").notNull(),
-  cost: varchar("cost", { length: 20 }),
+  // Split of tokensUsed; null on entries recorded before the split existed
+  promptTokens: integer("promptTokens"),
+  completionTokens: integer("completionTokens"),
+  cachedPromptTokens: integer("cachedPromptTokens").default(0).notNull(),
+  imageCount: integer("imageCount").default(0).notNull(),
+  // Cost in millionths of a dollar, and the model_prices version it was priced at
+  costMicros: bigint("costMicros", { mode: "number" }).default(0).notNull(),
+  priceId: integer("priceId").references(() => modelPrices.id, { onDelete: "set null" }),
   latencyMs: integer("latencyMs"),
 
+  // Budget ledger: the agent that spent it, and whether the entry is an
+  // in-flight reservation or the request's settled usage
+  agentId: integer("agentId").references(() => agents.id, { onDelete: "set null" }),
+  requestId: varchar("requestId", { length: 64 }),
+  status: varchar("status", { length: 20 }).default("settled").notNull().$type<UsageEntryStatus>(),
+
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => ({
+  workspaceCreatedIdx: index("idx_provider_usage_workspace_created").on(table.workspaceId, table.createdAt),
+}));
+
+export type UsageKind = 'chat' | 'embedding' | 'image';
 
 export type ProviderUsage = typeof providerUsage.$inferSelect;
 export type InsertProviderUsage = typeof providerUsage.$inferInsert;
 
+// ============================================================================
+// Usage Budgets
+// ============================================================================
+
+export type UsageEntryStatus = 'reserved' | 'settled' | 'released';
+export type BudgetScope = 'workspace' | 'provider' | 'agent';
+export type BudgetPeriod = 'minute' | 'hour' | 'day' | 'month';
+// hard_stop rejects requests once a budget is spent; degrade keeps serving
+// them from the cheapest eligible provider
+export type BudgetMode = 'hard_stop' | 'degrade';
+
+export const usageBudgets = pgTable("usage_budgets", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+
+  // Which spend counts: the whole workspace, one provider, or one agent
+  scope: varchar("scope", { length: 20 }).notNull().$type<BudgetScope>(),
+  providerId: integer("providerId").references(() => providers.id, { onDelete: "cascade" }),
+  agentId: integer("agentId").references(() => agents.id, { onDelete: "cascade" }),
+
+  period: varchar("period", { length: 20 }).notNull().$type<BudgetPeriod>(),
+  tokenLimit: integer("tokenLimit"),
+  costLimit: decimal("costLimit", { precision: 12, scale: 4 }),
+  requestLimit: integer("requestLimit"),
+  mode: varchar("mode", { length: 20 }).default("hard_stop").notNull().$type<BudgetMode>(),
+  enabled: boolean("enabled").default(true).notNull(),
+
+  createdBy: integer("createdBy").notNull().references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => ({
+  workspaceIdx: index("idx_usage_budgets_workspace").on(table.workspaceId),
+}));
+
+export type UsageBudget = typeof usageBudgets.$inferSelect;
+export type InsertUsageBudget = typeof usageBudgets.$inferInsert;
+
+// One row per budget, threshold and period, so each alert is raised once
+export const budgetAlerts = pgTable("budget_alerts", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  budgetKey: varchar("budgetKey", { length: 100 }).notNull(),
+  budgetName: varchar("budgetName", { length: 255 }).notNull(),
+  threshold: integer("threshold").notNull(),
+  periodStart: timestamp("periodStart").notNull(),
+
+  utilization: varchar("utilization", { length: 20 }).notNull(),
+  tokensUsed: integer("tokensUsed").notNull(),
+  cost: varchar("cost", { length: 20 }).notNull(),
+  requests: integer("requests").notNull(),
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  onceIdx: uniqueIndex("idx_budget_alerts_once").on(table.budgetKey, table.threshold, table.periodStart),
+  workspaceIdx: index("idx_budget_alerts_workspace").on(table.workspaceId, table.createdAt),
+}));
+
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
+export type InsertBudgetAlert = typeof budgetAlerts.$inferInsert;
+
 // Provider Health Monitoring
 export const providerHealthChecks = pgTable("provider_health_checks", {
   id: serial("id").primaryKey(),
@@ -106,18 +231,150 @@ export const routingAuditLogs = pgTable("routing_audit_logs", {
   // Audit info
   auditReasons: json("auditReasons").$type<string[]>(),
   policySnapshot: json("policySnapshot"),
+  decision: json("decision").$type<RoutingDecisionRecord>(),
 
   // Metrics
   latencyMs: integer("latencyMs"),
+  ttftMs: integer("ttftMs"),
   tokensUsed: integer("tokensUsed"),
   estimatedCost: varchar("estimatedCost", { length: 20 }),
 
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => ({
+  requestIdx: index("idx_routing_audit_logs_request").on(table.requestId),
+}));
 
 export type RoutingAuditLog = typeof routingAuditLogs.$inferSelect;
 export type InsertRoutingAuditLog = typeof routingAuditLogs.$inferInsert;
 
+// Why a request went where it did: every candidate's score and, under
+// adaptive routing, the observed performance and draws behind it
+export interface RoutingDecisionRecord {
+  strategy: 'static' | 'thompson' | 'epsilon_greedy';
+  // The primary is not the provider with the best expected score
+  explored: boolean;
+  windowMinutes?: number;
+  candidates: Array<{
+    providerId: number;
+    providerName: string;
+    eligible: boolean;
+    totalScore: number;
+    adaptiveScore?: number;
+    reliability?: number;
+    quality?: number;
+    latency?: number;
+    observed?: {
+      attempts: number;
+      errorRate: number | null;
+      p50LatencyMs: number | null;
+      p95LatencyMs: number | null;
+      p50TtftMs: number | null;
+      thumbsUp: number;
+      thumbsDown: number;
+    };
+  }>;
+}
+
+// One row per attempt on a provider, successful or not; adaptive routing
+// scores providers from a rolling window of these
+export const routingObservations = pgTable("routing_observations", {
+  id: serial("id").primaryKey(),
+  providerId: integer("providerId").notNull().references(() => providers.id, { onDelete: "cascade" }),
+  workspaceId: integer("workspaceId").references(() => workspaces.id, { onDelete: "cascade" }),
+  requestId: varchar("requestId", { length: 64 }),
+
+  success: boolean("success").notNull(),
+  streaming: boolean("streaming").default(false).notNull(),
+  latencyMs: integer("latencyMs"),
+  // Time to first token, streaming attempts only
+  ttftMs: integer("ttftMs"),
+  errorMessage: text("errorMessage"),
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  providerIdx: index("idx_routing_observations_provider").on(table.providerId, table.createdAt),
+}));
+
+export type RoutingObservation = typeof routingObservations.$inferSelect;
+export type InsertRoutingObservation = typeof routingObservations.$inferInsert;
+
+// Thumbs up (1) or down (-1) on a routed chat response, one per user and request
+export const routingFeedback = pgTable("routing_feedback", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  providerId: integer("providerId").notNull().references(() => providers.id, { onDelete: "cascade" }),
+  requestId: varchar("requestId", { length: 64 }).notNull(),
+  userId: integer("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+  rating: integer("rating").notNull(),
+
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+}, (table) => ({
+  onceIdx: uniqueIndex("idx_routing_feedback_once").on(table.requestId, table.userId),
+  providerIdx: index("idx_routing_feedback_provider").on(table.providerId, table.createdAt),
+}));
+
+export type RoutingFeedback = typeof routingFeedback.$inferSelect;
+export type InsertRoutingFeedback = typeof routingFeedback.$inferInsert;
+
+// A provider response kept for replay to identical or near-identical requests
+export const responseCacheEntries = pgTable("response_cache_entries", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  providerId: integer("providerId").notNull().references(() => providers.id, { onDelete: "cascade" }),
+
+  // Hash of the normalized messages, model and generation parameters
+  cacheKey: varchar("cacheKey", { length: 64 }).notNull(),
+  // Hash of everything but the last user message; semantic matches share it
+  contextKey: varchar("contextKey", { length: 64 }).notNull(),
+  model: varchar("model", { length: 255 }),
+  prompt: text("prompt"),
+  embedding: json("embedding").$type<number[]>(),
+  embeddingModel: varchar("embeddingModel", { length: 255 }),
+
+  response: json("response").$type<CachedResponse>().notNull(),
+  // Token boundaries of a streamed response, for replay
+  chunks: json("chunks").$type<string[]>(),
+  tokensUsed: integer("tokensUsed").default(0).notNull(),
+  costMicros: bigint("costMicros", { mode: "number" }).default(0).notNull(),
+
+  hitCount: integer("hitCount").default(0).notNull(),
+  lastHitAt: timestamp("lastHitAt"),
+  expiresAt: timestamp("expiresAt").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  keyIdx: uniqueIndex("idx_response_cache_entries_key").on(table.workspaceId, table.cacheKey),
+  contextIdx: index("idx_response_cache_entries_context").on(table.workspaceId, table.contextKey, table.expiresAt),
+}));
+
+export type ResponseCacheEntry = typeof responseCacheEntries.$inferSelect;
+export type InsertResponseCacheEntry = typeof responseCacheEntries.$inferInsert;
+
+export interface CachedResponse {
+  content: string;
+  model: string;
+  finishReason: string;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+}
+
+// Daily response cache counters per workspace
+export const responseCacheStats = pgTable("response_cache_stats", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  day: timestamp("day").notNull(), // UTC midnight
+  exactHits: integer("exactHits").default(0).notNull(),
+  semanticHits: integer("semanticHits").default(0).notNull(),
+  misses: integer("misses").default(0).notNull(),
+  // Requests the cache was not consulted for (opted out, HIGH sensitivity, no-cache)
+  bypassed: integer("bypassed").default(0).notNull(),
+  tokensSaved: bigint("tokensSaved", { mode: "number" }).default(0).notNull(),
+  costSavedMicros: bigint("costSavedMicros", { mode: "number" }).default(0).notNull(),
+}, (table) => ({
+  dayIdx: uniqueIndex("idx_response_cache_stats_day").on(table.workspaceId, table.day),
+}));
+
+export type ResponseCacheStat = typeof responseCacheStats.$inferSelect;
+
 // Provider Performance Metrics
 export const providerMetrics = pgTable("provider_metrics", {
   id: serial("id").primaryKey(),
@@ -341,3 +598,32 @@ export const registryPatchArtifacts = pgTable("registry_patch_artifacts", {
 
 export type RegistryPatchArtifact = typeof registryPatchArtifacts.$inferSelect;
 export type InsertRegistryPatchArtifact = typeof registryPatchArtifacts.$inferInsert;
+
+// ============================================================================
+// OpenAI-Compatible Gateway API Keys
+// ============================================================================
+
+export type GatewayApiKeyScope = 'models:read' | 'chat:write' | 'completions:write' | 'embeddings:write';
+
+export const gatewayApiKeys = pgTable("gateway_api_keys", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspaceId").notNull().references(() => workspaces.id),
+  name: varchar("name", { length: 255 }).notNull(),
+
+  // Only the SHA-256 hash of the key is stored; the prefix is kept for display
+  keyPrefix: varchar("keyPrefix", { length: 20 }).notNull(),
+  keyHash: varchar("keyHash", { length: 64 }).notNull().unique(),
+  scopes: json("scopes").$type<GatewayApiKeyScope[]>().notNull(),
+
+  expiresAt: timestamp("expiresAt"),
+  revokedAt: timestamp("revokedAt"),
+  lastUsedAt: timestamp("lastUsedAt"),
+
+  createdBy: integer("createdBy").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  workspaceIdx: index("idx_gwkey_workspace").on(table.workspaceId),
+}));
+
+export type GatewayApiKey = typeof gatewayApiKeys.$inferSelect;
+export type InsertGatewayApiKey = typeof gatewayApiKeys.$inferInsert;
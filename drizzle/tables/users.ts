@@ -28,8 +28,41 @@ export interface RoutingProfile {
   defaultRoute: 'AUTO' | 'LOCAL_ONLY' | 'CLOUD_ALLOWED';
   dataSensitivity: 'LOW' | 'MED' | 'HIGH';
   qualityTier: 'FAST' | 'BALANCED' | 'BEST';
-  fallback: { enabled: boolean; maxHops: number };
+  // resumeMidStream: continue a stream that dies partway on the next provider
+  fallback: { enabled: boolean; maxHops: number; resumeMidStream?: boolean };
   pinnedProviderId?: number;
+  adaptive?: AdaptiveRoutingConfig;
+  cache?: ResponseCacheConfig;
+}
+
+// Response cache in front of the provider router; on unless the workspace opts
+// out, and never used for HIGH sensitivity workspaces
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  ttlSeconds?: number;
+  // Also serve prompts whose last user message is close enough in meaning
+  semantic?: boolean;
+  similarityThreshold?: number; // Cosine similarity a semantic hit needs (0-1)
+}
+
+// Opt-in routing that learns from observed latency, errors and chat feedback
+export interface AdaptiveRoutingConfig {
+  enabled: boolean;
+  exploration: 'thompson' | 'epsilon_greedy';
+  epsilon?: number; // epsilon_greedy: share of requests sent to a random eligible provider
+  windowMinutes?: number; // Rolling window of observations scored
+}
+
+// Retrieval profile type for workspace-level RAG search configuration
+export interface RetrievalProfile {
+  mode: 'vector' | 'lexical' | 'hybrid';
+  vectorWeight: number; // Reciprocal-rank fusion weights for hybrid mode
+  lexicalWeight: number;
+  reranker: { model: string; candidates: number } | null; // Rerank this many first-stage results
+  topK: number; // Chunks injected into the prompt
+  scoreThreshold: number | null; // Minimum vector similarity; lexical matches are not thresholded
+  maxContextTokens: number; // Budget for injected chunks; the lowest-ranked are dropped first
+  citationStyle: 'source' | 'numeric' | 'none'; // [Source N], [N] or no markers
 }
 
 export const workspaces = pgTable("workspaces", {
@@ -39,18 +72,23 @@ export const workspaces = pgTable("workspaces", {
   ownerId: integer("ownerId").notNull().references(() => users.id),
 
   // Workspace settings
-  embeddingModel: varchar("embeddingModel", { length: 255 }).default("bge-small-en-v1.5"),
+  embeddingModel: varchar("embeddingModel", { length: 255 }), // null uses the engine default
   chunkingStrategy: varchar("chunkingStrategy", { length: 50 }).default("semantic"),
   chunkSize: integer("chunkSize").default(512),
   chunkOverlap: integer("chunkOverlap").default(50),
+  chunkingTokenizer: varchar("chunkingTokenizer", { length: 100 }), // tiktoken:<encoding> or gguf:<modelId>; null sizes chunks in characters
+  parentChunkSize: integer("parentChunkSize"), // Parent/child chunking when set, in the same unit as chunkSize
 
   // Vector DB settings
-  vectorDb: varchar("vectorDb", { length: 50 }).default("qdrant"),
-  collectionName: varchar("collectionName", { length: 255 }),
+  vectorDb: varchar("vectorDb", { length: 50 }), // qdrant | pgvector | hnsw; null uses the deployment default
+  collectionName: varchar("collectionName", { length: 255 }), // null uses workspace-<id>
 
   // Provider Routing Profile
   routingProfile: json("routingProfile").$type<RoutingProfile>(),
 
+  // Retrieval Profile
+  retrievalProfile: json("retrievalProfile").$type<RetrievalProfile>(),
+
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
 });
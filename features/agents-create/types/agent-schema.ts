@@ -131,6 +131,7 @@ export const AgentTrigger = z.object({
   workflowId: z.string().optional(),
   eventSource: z.string().optional(),
   schedule: z.string().optional(), // Cron expression
+  timezone: z.string().optional(), // IANA time zone the schedule is evaluated in
   conditions: z.record(z.any()).optional(),
 });
 
@@ -9,14 +9,23 @@ import { createContext } from "./context";
 import uploadRouter from "../upload";
 import { serveStatic, setupVite } from "./vite";
 import { initializeProviders } from "../providers/init";
+import { getProviderRegistry } from "../providers/registry";
+import { circuitBreakers } from "../inference/circuit-breaker";
 import { handleChatStream } from "../chat/stream";
 import { handleAgentChatStream } from "../agents/stream";
+import { initializeEventStreaming } from "../services/eventStreaming";
+import { handleEventStream } from "../services/eventStreamRoute";
+import { openaiCompatibleRouter } from "../api/openai-compatible";
 import { migrate } from "drizzle-orm/node-postgres/migrator";
 import { sql } from "drizzle-orm";
 import { getDb, ensureDefaultWorkspace } from "../db";
 import { syncRegistryOnStartup, autoDetectLiveModels } from "../routers/catalog-manage";
 import { seedTaxonomy } from "../db";
 import { startCleanupInterval } from "../catalog-import/session-service";
+import { startReservationSweep, sweepExpiredReservations } from "../providers/budgets";
+import { scheduler } from "../scheduler/service";
+import { documentSourceWatcher } from "../documents/sources/service";
+import { webhookIngressRouter } from "../webhooks/ingress";
 import { getSession } from "../catalog-import/session-service";
 import { providers as providersTable } from "../../drizzle/schema";
 import { eq } from "drizzle-orm";
@@ -174,6 +183,21 @@ async function startServer() {
   // Start import session cleanup interval
   startCleanupInterval();
 
+  // Sweep budget reservations left behind by requests that never settled
+  sweepExpiredReservations();
+  startReservationSweep();
+
+  // Start the cron scheduler for workflow, agent and document source schedules
+  scheduler.start();
+
+  // Watch folder sources that sync when their files change
+  documentSourceWatcher.start().catch((error) => {
+    console.error("[DocumentSources] Failed to start folder watchers:", error);
+  });
+
+  // Event stream for orchestration progress and other workspace events
+  initializeEventStreaming();
+
   const app = express();
   const server = createServer(app);
 
@@ -190,6 +214,9 @@ async function startServer() {
     next();
   });
 
+  // Workflow webhooks verify signatures over the raw body, so they go before the JSON parser
+  app.use(webhookIngressRouter);
+
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
@@ -221,6 +248,13 @@ async function startServer() {
       health.status = "degraded";
     }
 
+    // A provider whose circuit is open is being skipped by routing. Only the aggregate is public:
+    // per-provider state and errors are served to signed-in users by providers.circuitBreakers.list
+    const providers = getProviderRegistry().getAllProviders();
+    if (providers.some(provider => circuitBreakers.getSnapshot(provider.id).state === "open")) {
+      health.status = "degraded";
+    }
+
     res.json(health);
   });
 
@@ -232,6 +266,10 @@ async function startServer() {
   app.post("/api/chat/stream", handleChatStream);
   // Agent chat streaming endpoint
   app.get("/api/agents/:agentId/chat/stream", handleAgentChatStream);
+  // Workspace event stream (orchestration progress)
+  app.get("/api/events/stream", handleEventStream);
+  // OpenAI-compatible gateway (/v1/models, /v1/chat/completions, /v1/completions, /v1/embeddings)
+  app.use(openaiCompatibleRouter);
 
   // Import session SSE stream
   app.get("/api/import/stream", async (req, res) => {
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  createRun: vi.fn(),
+  updateRun: vi.fn(),
+  insertStep: vi.fn(),
+  createOrchestration: vi.fn(),
+  updateOrchestration: vi.fn(),
+}));
+
+import * as runDb from "./db";
+import { AgentRunTrace } from "./service";
+
+const db = vi.mocked(runDb);
+
+describe("AgentRunTrace", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should persist the run, numbered steps and final totals", async () => {
+    db.createRun.mockResolvedValue({ id: 7 } as any);
+
+    const trace = await AgentRunTrace.start({ agentKey: "3", agentId: 3, source: "workflow", goal: "Summarize" });
+    await trace.recordStep({ thought: "Look it up", toolName: "search", toolInput: { q: "x" }, observation: "found", provider: "openai", model: "gpt-4o", promptTokens: 12, completionTokens: 4, latencyMs: 250 });
+    await trace.recordStep({ thought: "Done", model: "gpt-4o-mini" });
+    await trace.finish("completed", { result: { output: "Done" } });
+
+    expect(trace.runId).toBe(7);
+    expect(db.createRun).toHaveBeenCalledWith(expect.objectContaining({ status: "running", agentKey: "3", input: null }));
+    expect(db.insertStep.mock.calls.map(([step]) => [step.runId, step.step, step.toolName])).toEqual([
+      [7, 1, "search"],
+      [7, 2, null],
+    ]);
+    expect(db.updateRun).toHaveBeenCalledWith(7, expect.objectContaining({
+      status: "completed",
+      result: { output: "Done" },
+      provider: "openai",
+      model: "gpt-4o-mini",
+    }));
+  });
+
+  it("should keep running without a database", async () => {
+    db.createRun.mockRejectedValue(new Error("Database not available"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const trace = await AgentRunTrace.start({ agentKey: "research-agent", source: "engine", goal: "Research" });
+    await trace.recordStep({ thought: "Thinking" });
+    await trace.finish("failed", { error: "boom" });
+
+    expect(trace.runId).toBeNull();
+    expect(trace.stepCount).toBe(1);
+    expect(db.insertStep).not.toHaveBeenCalled();
+    expect(db.updateRun).not.toHaveBeenCalled();
+  });
+});
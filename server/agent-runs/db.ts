@@ -0,0 +1,150 @@
+/**
+ * Agent Runs — Database CRUD
+ */
+import { and, asc, count, desc, eq, gte, lte, sql, type SQL } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  agentRuns,
+  agentRunSteps,
+  agentOrchestrations,
+  type AgentRun,
+  type InsertAgentRun,
+  type AgentRunStep,
+  type InsertAgentRunStep,
+  type AgentOrchestration,
+  type InsertAgentOrchestration,
+  type AgentRunSource,
+  type AgentRunStatus,
+} from "../../drizzle/schema";
+
+export interface AgentRunFilter {
+  userId?: number;
+  agentId?: number;
+  agentKey?: string;
+  status?: AgentRunStatus;
+  source?: AgentRunSource;
+  orchestrationId?: number;
+  since?: Date;
+  until?: Date;
+}
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+export async function createRun(data: InsertAgentRun): Promise<AgentRun> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.insert(agentRuns).values(data).returning();
+  return row;
+}
+
+export async function updateRun(id: number, data: Partial<InsertAgentRun>): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(agentRuns).set(data).where(eq(agentRuns.id, id));
+}
+
+export async function getRunById(id: number): Promise<AgentRun | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(agentRuns).where(eq(agentRuns.id, id));
+  return row ?? null;
+}
+
+function runConditions(filter: AgentRunFilter): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filter.userId !== undefined) conditions.push(eq(agentRuns.userId, filter.userId));
+  if (filter.agentId !== undefined) conditions.push(eq(agentRuns.agentId, filter.agentId));
+  if (filter.agentKey) conditions.push(eq(agentRuns.agentKey, filter.agentKey));
+  if (filter.status) conditions.push(eq(agentRuns.status, filter.status));
+  if (filter.source) conditions.push(eq(agentRuns.source, filter.source));
+  if (filter.orchestrationId !== undefined) conditions.push(eq(agentRuns.orchestrationId, filter.orchestrationId));
+  if (filter.since) conditions.push(gte(agentRuns.createdAt, filter.since));
+  if (filter.until) conditions.push(lte(agentRuns.createdAt, filter.until));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+export async function listRuns(
+  filter: AgentRunFilter,
+  limit: number,
+  offset = 0
+): Promise<{ runs: AgentRun[]; total: number }> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const where = runConditions(filter);
+  const [runs, [{ total }]] = await Promise.all([
+    db.select().from(agentRuns).where(where).orderBy(desc(agentRuns.createdAt)).limit(limit).offset(offset),
+    db.select({ total: count() }).from(agentRuns).where(where),
+  ]);
+  return { runs, total: Number(total) };
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+export async function insertStep(data: InsertAgentRunStep): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(agentRunSteps).values(data);
+  await db
+    .update(agentRuns)
+    .set({
+      stepCount: sql`${agentRuns.stepCount} + 1`,
+      promptTokens: sql`${agentRuns.promptTokens} + ${data.promptTokens ?? 0}`,
+      completionTokens: sql`${agentRuns.completionTokens} + ${data.completionTokens ?? 0}`,
+    })
+    .where(eq(agentRuns.id, data.runId));
+}
+
+export async function getRunSteps(runId: number): Promise<AgentRunStep[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select().from(agentRunSteps).where(eq(agentRunSteps.runId, runId)).orderBy(asc(agentRunSteps.step));
+}
+
+// ============================================================================
+// Orchestrations
+// ============================================================================
+
+export async function createOrchestration(data: InsertAgentOrchestration): Promise<AgentOrchestration> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.insert(agentOrchestrations).values(data).returning();
+  return row;
+}
+
+export async function updateOrchestration(id: number, data: Partial<InsertAgentOrchestration>): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(agentOrchestrations).set(data).where(eq(agentOrchestrations.id, id));
+}
+
+export async function getOrchestrationById(id: number): Promise<AgentOrchestration | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(agentOrchestrations).where(eq(agentOrchestrations.id, id));
+  return row ?? null;
+}
+
+export async function listOrchestrations(userId: number, limit: number): Promise<AgentOrchestration[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(agentOrchestrations)
+    .where(eq(agentOrchestrations.userId, userId))
+    .orderBy(desc(agentOrchestrations.createdAt))
+    .limit(limit);
+}
@@ -0,0 +1,106 @@
+/**
+ * Agent Runs — tRPC Router (mounted as agents.runs)
+ *
+ *   - list: runs filtered by agent, status, source, orchestration or time range
+ *   - get: a run with its step-level trace
+ *   - replay: start a new run with the same agent, goal and input
+ *   - orchestrations: recent multi-agent plans
+ *   - orchestration: a plan with the runs of its steps
+ */
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { agents, type AgentRun } from "../../drizzle/schema";
+import { getOrchestrationById, getRunById, getRunSteps, listOrchestrations, listRuns } from "./db";
+import { replayAgentRun } from "./service";
+
+const statusSchema = z.enum(["pending", "running", "completed", "failed", "cancelled"]);
+const sourceSchema = z.enum(["engine", "workflow", "schedule", "orchestrator", "replay"]);
+
+// Agents belong to the workspace whose id matches the user id (see routers/agents.ts)
+async function hasAgentAccess(userId: number, agentId: number): Promise<boolean> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [agent] = await db
+    .select({ id: agents.id })
+    .from(agents)
+    .where(and(eq(agents.id, agentId), eq(agents.workspaceId, userId)));
+  return !!agent;
+}
+
+async function getOwnedRun(userId: number, id: number): Promise<AgentRun> {
+  const run = await getRunById(id);
+  const visible = run && (run.userId === userId || (run.agentId !== null && (await hasAgentAccess(userId, run.agentId))));
+  if (!run || !visible) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Run not found" });
+  }
+  return run;
+}
+
+export const agentRunsRouter = router({
+  list: protectedProcedure
+    .input(
+      z.object({
+        agentId: z.number().int().optional(),
+        agentKey: z.string().optional(),
+        status: statusSchema.optional(),
+        source: sourceSchema.optional(),
+        orchestrationId: z.number().int().optional(),
+        since: z.date().optional(),
+        until: z.date().optional(),
+        limit: z.number().int().min(1).max(200).default(50),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { limit, offset, ...filter } = input;
+
+      // Runs of a workspace agent are visible to the workspace, whoever started them
+      if (filter.agentId !== undefined) {
+        if (!(await hasAgentAccess(ctx.user.id, filter.agentId))) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Agent not found" });
+        }
+        return listRuns(filter, limit, offset);
+      }
+
+      return listRuns({ ...filter, userId: ctx.user.id }, limit, offset);
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      const run = await getOwnedRun(ctx.user.id, input.id);
+      return { ...run, steps: await getRunSteps(run.id) };
+    }),
+
+  replay: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      const run = await getOwnedRun(ctx.user.id, input.id);
+      try {
+        return { runId: await replayAgentRun(run, ctx.user.id) };
+      } catch (error: any) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Replay failed: ${error.message}` });
+      }
+    }),
+
+  orchestrations: protectedProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(100).default(20) }))
+    .query(async ({ ctx, input }) => {
+      return listOrchestrations(ctx.user.id, input.limit);
+    }),
+
+  orchestration: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      const orchestration = await getOrchestrationById(input.id);
+      if (!orchestration || orchestration.userId !== ctx.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Orchestration not found" });
+      }
+      const { runs } = await listRuns({ orchestrationId: orchestration.id }, 200);
+      return { ...orchestration, runs };
+    }),
+});
@@ -0,0 +1,178 @@
+/**
+ * Agent Runs — Service
+ *
+ * Agent executions (engine tasks, workflow/scheduled invocations of database
+ * agents, orchestrated plan steps) record themselves through AgentRunTrace.
+ * Persistence is best-effort: a missing database downgrades tracing to a
+ * warning instead of failing the run.
+ */
+import type {
+  AgentRun,
+  AgentRunSource,
+  AgentRunStatus,
+  AgentPlanStepRecord,
+  InsertAgentOrchestration,
+} from "../../drizzle/schema";
+import * as runDb from "./db";
+
+export interface StartRunInput {
+  userId?: number | null;
+  agentId?: number | null;
+  agentKey: string;
+  agentName?: string | null;
+  source: AgentRunSource;
+  goal: string;
+  input?: any;
+  orchestrationId?: number | null;
+  planStepId?: string | null;
+  replayOf?: number | null;
+}
+
+export interface RunStepInput {
+  thought?: string | null;
+  toolName?: string | null;
+  toolInput?: any;
+  observation?: string | null;
+  provider?: string | null;
+  model?: string | null;
+  promptTokens?: number | null;
+  completionTokens?: number | null;
+  latencyMs?: number | null;
+}
+
+// Long tool observations are truncated in the trace; the run result keeps the full answer
+const MAX_OBSERVATION_LENGTH = 20_000;
+
+function truncate(value: string | null | undefined): string | null {
+  if (value == null) return null;
+  return value.length > MAX_OBSERVATION_LENGTH ? `${value.slice(0, MAX_OBSERVATION_LENGTH)}…` : value;
+}
+
+export class AgentRunTrace {
+  private steps = 0;
+  private provider: string | null = null;
+  private model: string | null = null;
+  private readonly startedAt = Date.now();
+
+  private constructor(readonly runId: number | null) {}
+
+  static async start(input: StartRunInput): Promise<AgentRunTrace> {
+    try {
+      const run = await runDb.createRun({
+        ...input,
+        input: input.input ?? null,
+        status: "running",
+        startedAt: new Date(),
+      });
+      return new AgentRunTrace(run.id);
+    } catch (error: any) {
+      console.warn(`[AgentRuns] Run for ${input.agentKey} will not be persisted: ${error.message}`);
+      return new AgentRunTrace(null);
+    }
+  }
+
+  get stepCount(): number {
+    return this.steps;
+  }
+
+  async recordStep(step: RunStepInput): Promise<void> {
+    this.steps++;
+    this.provider = step.provider ?? this.provider;
+    this.model = step.model ?? this.model;
+    if (this.runId === null) return;
+
+    try {
+      await runDb.insertStep({
+        runId: this.runId,
+        step: this.steps,
+        thought: step.thought ?? null,
+        toolName: step.toolName ?? null,
+        toolInput: step.toolInput ?? null,
+        observation: truncate(step.observation),
+        provider: step.provider ?? null,
+        model: step.model ?? null,
+        promptTokens: step.promptTokens ?? null,
+        completionTokens: step.completionTokens ?? null,
+        latencyMs: step.latencyMs ?? null,
+      });
+    } catch (error: any) {
+      console.warn(`[AgentRuns] Failed to record step ${this.steps} of run ${this.runId}: ${error.message}`);
+    }
+  }
+
+  async finish(status: Exclude<AgentRunStatus, "pending" | "running">, outcome: { result?: any; error?: string } = {}): Promise<void> {
+    if (this.runId === null) return;
+
+    try {
+      await runDb.updateRun(this.runId, {
+        status,
+        result: outcome.result ?? null,
+        error: outcome.error ?? null,
+        provider: this.provider,
+        model: this.model,
+        completedAt: new Date(),
+        durationMs: Date.now() - this.startedAt,
+      });
+    } catch (error: any) {
+      console.warn(`[AgentRuns] Failed to finish run ${this.runId}: ${error.message}`);
+    }
+  }
+}
+
+// ============================================================================
+// Orchestrations
+// ============================================================================
+
+export async function recordOrchestration(data: {
+  userId?: number | null;
+  goal: string;
+  agentKeys: string[];
+}): Promise<number | null> {
+  try {
+    const row = await runDb.createOrchestration({ ...data, status: "planning" });
+    return row.id;
+  } catch (error: any) {
+    console.warn(`[AgentRuns] Orchestration will not be persisted: ${error.message}`);
+    return null;
+  }
+}
+
+export async function saveOrchestration(
+  id: number | null,
+  data: Partial<Pick<InsertAgentOrchestration, "status" | "result" | "error" | "completedAt">> & {
+    plan?: AgentPlanStepRecord[];
+  }
+): Promise<void> {
+  if (id === null) return;
+  try {
+    await runDb.updateOrchestration(id, data);
+  } catch (error: any) {
+    console.warn(`[AgentRuns] Failed to save orchestration ${id}: ${error.message}`);
+  }
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Start a new run with the same agent, goal and input; returns the new run id
+ */
+export async function replayAgentRun(run: AgentRun, userId: number): Promise<number | null> {
+  if (run.agentId) {
+    const { executeInvokeAgent } = await import("../automation/block-executors");
+    const output = await executeInvokeAgent(
+      { id: `replay-${run.id}`, data: { agentId: run.agentId, input: run.input ?? run.goal } },
+      { workflowId: 0, executionId: 0, userId, variables: {}, agentRun: { source: "replay", replayOf: run.id } }
+    );
+    return output?.runId ?? null;
+  }
+
+  const { agentEngine } = await import("../agents/agent-engine");
+  const task = await agentEngine.createTask(run.agentKey, run.goal, (run.input as Record<string, any>) ?? undefined, {
+    userId,
+    source: "replay",
+    replayOf: run.id,
+  });
+  return task.runId ?? null;
+}
@@ -1,8 +1,12 @@
 /**
  * Workspace Agents Engine
- * Manages autonomous agents that can perform tasks
+ * Manages autonomous agents that can perform tasks.
+ * Every task is persisted as an agent run with one trace step per iteration.
  */
 
+import { AgentRunTrace } from "../agent-runs/service";
+import type { AgentRunSource } from "../../drizzle/schema";
+
 export interface AgentConfig {
   id: string;
   name: string;
@@ -31,10 +35,19 @@ export interface AgentTask {
   result?: any;
   error?: string;
   iterations: AgentIteration[];
+  runId?: number | null;
   createdAt: number;
   completedAt?: number;
 }
 
+export interface CreateTaskOptions {
+  userId?: number | null;
+  source?: AgentRunSource;
+  orchestrationId?: number | null;
+  planStepId?: string | null;
+  replayOf?: number | null;
+}
+
 export interface AgentIteration {
   step: number;
   thought: string;
@@ -43,15 +56,22 @@ export interface AgentIteration {
     parameters: Record<string, any>;
   };
   observation?: string;
+  tokens?: { prompt: number; completion: number };
+  latencyMs?: number;
+  provider?: string;
+  model?: string;
   timestamp: number;
 }
 
+const CANCELLED_MESSAGE = "Task cancelled by user";
+
 /**
  * Agent Execution Engine
  */
 class AgentEngine {
   private agents: Map<string, AgentConfig> = new Map();
   private tasks: Map<string, AgentTask> = new Map();
+  private traces: Map<string, AgentRunTrace> = new Map();
   
   /**
    * Register an agent
@@ -81,7 +101,8 @@ class AgentEngine {
   async createTask(
     agentId: string,
     goal: string,
-    context?: Record<string, any>
+    context?: Record<string, any>,
+    options: CreateTaskOptions = {}
   ): Promise<AgentTask> {
     const agent = this.agents.get(agentId);
     if (!agent) {
@@ -98,14 +119,30 @@ class AgentEngine {
       createdAt: Date.now(),
     };
     
+    const trace = await AgentRunTrace.start({
+      userId: options.userId,
+      agentKey: agent.id,
+      agentName: agent.name,
+      source: options.source || "engine",
+      goal,
+      input: context,
+      orchestrationId: options.orchestrationId,
+      planStepId: options.planStepId,
+      replayOf: options.replayOf,
+    });
+    task.runId = trace.runId;
+    
     this.tasks.set(task.id, task);
+    this.traces.set(task.id, trace);
     
     // Start execution asynchronously
-    this.executeTask(task.id).catch((error) => {
-      console.error(`[AgentEngine] Task ${task.id} failed:`, error);
-      task.status = "failed";
-      task.error = error.message;
-    });
+    this.executeTask(task.id)
+      .catch((error) => {
+        console.error(`[AgentEngine] Task ${task.id} failed:`, error);
+        task.status = "failed";
+        task.error = error.message;
+      })
+      .finally(() => this.finishTrace(task));
     
     return task;
   }
@@ -125,18 +162,25 @@ class AgentEngine {
     const maxIterations = agent.maxIterations || 10;
     
     for (let step = 1; step <= maxIterations; step++) {
+      // Stop once cancelled
+      if (task.status !== "running") return;
+      
       // Simulate agent thinking
+      const startedAt = Date.now();
       const thought = await this.generateThought(agent, task, step);
       
       const iteration: AgentIteration = {
         step,
         thought,
+        model: agent.model,
         timestamp: Date.now(),
       };
       
       // Check if task is complete
       if (thought.toLowerCase().includes("task complete") || step === maxIterations) {
+        iteration.latencyMs = Date.now() - startedAt;
         task.iterations.push(iteration);
+        await this.recordIteration(task, iteration);
         task.status = "completed";
         task.result = {
           summary: thought,
@@ -155,13 +199,48 @@ class AgentEngine {
         iteration.observation = observation;
       }
       
+      iteration.latencyMs = Date.now() - startedAt;
       task.iterations.push(iteration);
+      await this.recordIteration(task, iteration);
       
       // Simulate delay between iterations
       await new Promise((resolve) => setTimeout(resolve, 1000));
     }
   }
   
+  /**
+   * Persist an iteration as a trace step
+   */
+  private async recordIteration(task: AgentTask, iteration: AgentIteration): Promise<void> {
+    await this.traces.get(task.id)?.recordStep({
+      thought: iteration.thought,
+      toolName: iteration.action?.tool,
+      toolInput: iteration.action?.parameters,
+      observation: iteration.observation,
+      provider: iteration.provider,
+      model: iteration.model,
+      promptTokens: iteration.tokens?.prompt,
+      completionTokens: iteration.tokens?.completion,
+      latencyMs: iteration.latencyMs,
+    });
+  }
+  
+  /**
+   * Persist the task's final state
+   */
+  private async finishTrace(task: AgentTask): Promise<void> {
+    const trace = this.traces.get(task.id);
+    if (!trace) return;
+    this.traces.delete(task.id);
+    
+    if (task.status === "completed") {
+      await trace.finish("completed", { result: task.result });
+    } else {
+      const cancelled = task.error === CANCELLED_MESSAGE;
+      await trace.finish(cancelled ? "cancelled" : "failed", { error: task.error || "Task did not complete" });
+    }
+  }
+  
   /**
    * Generate agent thought
    */
@@ -248,7 +327,7 @@ class AgentEngine {
     if (!task || task.status !== "running") return false;
     
     task.status = "failed";
-    task.error = "Task cancelled by user";
+    task.error = CANCELLED_MESSAGE;
     task.completedAt = Date.now();
     
     return true;
@@ -6,11 +6,19 @@
 import { getAgent, getConversation, addMessage, getMessages } from './db';
 import { getToolRegistry } from './tools';
 import { getProviderRegistry } from '../providers/registry';
-import { EmbeddingService } from '../embeddings/service';
-
-// Initialize embedding service
-const embeddingService = new EmbeddingService();
-import type { GenerationRequest } from '../providers/types';
+import { generateWithTools } from '../providers/tool-calling';
+import { buildRagContext } from '../documents/rag-pipeline';
+import {
+  countUsage,
+  estimateRequest,
+  releaseUsage,
+  reserveRequest,
+  settleUsage,
+  type AgentBudgetLimits,
+  type BudgetScopeInput,
+} from '../providers/budgets';
+import type { ILLMProvider } from '../providers/base';
+import type { GenerationRequest, GenerationResponse, Message, Token } from '../providers/types';
 
 export interface AgentExecutionOptions {
   conversationId: number;
@@ -34,6 +42,132 @@ export interface AgentExecutionResult {
   iterations: number;
 }
 
+export interface ToolLoopResult {
+  response: GenerationResponse;
+  toolCalls: Array<{
+    tool: string;
+    params: Record<string, any>;
+    result: string;
+  }>;
+  iterations: number;
+}
+
+export interface ToolLoopIteration {
+  iteration: number;
+  // The provider that answered this turn; differs from the loop's provider
+  // when a spent degrade-mode budget moved the turn to a cheaper one
+  provider: ILLMProvider;
+  response: GenerationResponse;
+  toolCalls: ToolLoopResult['toolCalls'];
+}
+
+export interface ToolLoopBudget {
+  scope: BudgetScopeInput;
+  // Providers a turn may move to while a degrade-mode budget is spent
+  alternatives?: ILLMProvider[];
+}
+
+/**
+ * Budget scope for a run of an agent (or of no agent) in a workspace
+ */
+export function agentBudgetScope(
+  workspaceId: number,
+  agent: { id: number; name: string; limits: unknown } | null
+): BudgetScopeInput {
+  return {
+    workspaceId,
+    agent: agent ? { id: agent.id, name: agent.name, limits: agent.limits as AgentBudgetLimits | null } : null,
+  };
+}
+
+/**
+ * Run a generation loop that executes requested tools and feeds the results back
+ * until the model answers without tool calls. The last iteration disables tools
+ * so the loop always ends with a text answer.
+ *
+ * With a budget, every turn is checked and charged against the workspace's and
+ * agent's usage budgets, so a runaway loop stops once they are spent.
+ */
+export async function runToolLoop(
+  provider: ILLMProvider,
+  request: GenerationRequest,
+  maxIterations: number,
+  onIteration?: (iteration: ToolLoopIteration) => Promise<void> | void,
+  budget?: ToolLoopBudget
+): Promise<ToolLoopResult> {
+  const toolRegistry = getToolRegistry();
+  const messages: Message[] = [...request.messages];
+  const toolCalls: ToolLoopResult['toolCalls'] = [];
+  let iterations = 0;
+
+  while (true) {
+    iterations++;
+    const isLastIteration = iterations >= maxIterations;
+
+    const turn = budget
+      ? await reserveRequest(
+          budget.scope,
+          [provider, ...(budget.alternatives ?? []).filter(p => p.id !== provider.id)],
+          estimateRequest(messages, request.maxTokens),
+          { model: request.model }
+        )
+      : null;
+    const turnProvider = turn?.provider ?? provider;
+
+    let response: GenerationResponse;
+    try {
+      response = await generateWithTools(turnProvider, {
+        ...request,
+        messages,
+        toolChoice: isLastIteration && request.tools?.length ? 'none' : request.toolChoice,
+      });
+    } catch (error) {
+      if (turn) await releaseUsage(turn.reservation);
+      throw error;
+    }
+    if (turn) {
+      await settleUsage(turn.reservation, {
+        model: response.model,
+        promptTokens: response.usage?.promptTokens ?? 0,
+        completionTokens: response.usage?.completionTokens ?? 0,
+        cachedPromptTokens: response.usage?.cachedPromptTokens,
+        latencyMs: response.latencyMs,
+      });
+    }
+
+    if (!response.toolCalls?.length || isLastIteration) {
+      await onIteration?.({ iteration: iterations, provider: turnProvider, response, toolCalls: [] });
+      return { response, toolCalls, iterations };
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: response.content,
+      toolCalls: response.toolCalls,
+    });
+
+    const iterationCalls: ToolLoopResult['toolCalls'] = [];
+    for (const call of response.toolCalls) {
+      let result: string;
+      try {
+        result = await toolRegistry.execute(call.name, call.arguments);
+      } catch (error) {
+        result = `Error: ${error instanceof Error ? error.message : 'Tool execution failed'}`;
+      }
+
+      iterationCalls.push({ tool: call.name, params: call.arguments, result });
+      messages.push({
+        role: 'tool',
+        content: result,
+        toolCallId: call.id,
+        name: call.name,
+      });
+    }
+    toolCalls.push(...iterationCalls);
+    await onIteration?.({ iteration: iterations, provider: turnProvider, response, toolCalls: iterationCalls });
+  }
+}
+
 /**
  * Execute an agent conversation turn
  */
@@ -59,7 +193,7 @@ export async function executeAgent(options: AgentExecutionOptions): Promise<Agen
   const history = await getMessages(conversationId);
   
   // Build messages for LLM
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
+  const messages: Message[] = [];
 
   // Add system prompt if agent exists
   if (agent) {
@@ -82,15 +216,15 @@ export async function executeAgent(options: AgentExecutionOptions): Promise<Agen
   let retrievedChunks: Array<{ documentId: number; content: string; similarity: number }> = [];
   if (agent?.hasDocumentAccess) {
     try {
-      const chunks = await embeddingService.searchSimilarChunks(userMessage, 3);
-      retrievedChunks = chunks.map((c: any) => ({
-        documentId: c.documentId,
-        content: c.content,
-        similarity: c.similarity,
+      const rag = await buildRagContext(workspaceId, userMessage);
+      retrievedChunks = rag.chunks.map((c) => ({
+        documentId: c.metadata.documentId,
+        content: c.text,
+        similarity: c.score,
       }));
 
-      if (chunks.length > 0) {
-        const contextMessage = `Relevant context from documents:\n\n${chunks.map((c: any) => c.content).join('\n\n---\n\n')}`;
+      if (rag.chunks.length > 0) {
+        const contextMessage = `Relevant context from documents:\n\n${rag.context}${rag.citationInstruction ? '\n\n' + rag.citationInstruction : ''}`;
         messages.push({
           role: 'system',
           content: contextMessage,
@@ -101,28 +235,15 @@ export async function executeAgent(options: AgentExecutionOptions): Promise<Agen
     }
   }
 
-  // Handle tool calling if agent has tool access
-  const toolCalls: Array<{ tool: string; params: Record<string, any>; result: string }> = [];
-  let iterations = 0;
+  // Expose allowed tools natively if agent has tool access
+  let tools: GenerationRequest['tools'];
   const limits = agent?.limits as { maxIterations?: number } | null;
   const maxIterations = limits?.maxIterations || 10;
 
   if (agent?.hasToolAccess) {
-    // Add tool instructions to system prompt
     const toolRegistry = getToolRegistry();
     const allowedTools = agent.allowedTools ? JSON.parse(agent.allowedTools as any) : toolRegistry.listNames();
-    const tools = toolRegistry.list().filter(t => allowedTools.includes(t.name));
-
-    if (tools.length > 0) {
-      const toolDescriptions = tools.map(t => 
-        `- ${t.name}: ${t.description}\n  Parameters: ${t.parameters.map(p => `${p.name} (${p.type}${p.required ? ', required' : ', optional'})`).join(', ')}`
-      ).join('\n');
-
-      messages.push({
-        role: 'system',
-        content: `You have access to the following tools:\n\n${toolDescriptions}\n\nTo use a tool, respond with JSON in this format:\n{"tool": "tool_name", "params": {"param1": "value1"}}\n\nAfter receiving tool results, provide your final answer to the user.`,
-      });
-    }
+    tools = toolRegistry.toDefinitions(allowedTools);
   }
 
   // Get provider
@@ -135,56 +256,17 @@ export async function executeAgent(options: AgentExecutionOptions): Promise<Agen
 
   const provider = providers[0]; // Use first available provider
 
-  // Generation loop (for tool calling)
-  let response = '';
-  while (iterations < maxIterations) {
-    iterations++;
-
-    const request: GenerationRequest = {
-      messages,
-      temperature: parseFloat(agent?.temperature || '0.7'),
-      maxTokens: 2000,
-    };
-
-    const result = await provider.generate(request);
-    response = result.content;
-
-    // Check if response is a tool call
-    if (agent?.hasToolAccess && response.trim().startsWith('{')) {
-      try {
-        const toolCall = JSON.parse(response.trim());
-        
-        if (toolCall.tool && toolCall.params) {
-          const toolRegistry = getToolRegistry();
-          const toolResult = await toolRegistry.execute(toolCall.tool, toolCall.params);
-          
-          toolCalls.push({
-            tool: toolCall.tool,
-            params: toolCall.params,
-            result: toolResult,
-          });
-
-          // Add tool result to conversation
-          messages.push({
-            role: 'assistant',
-            content: response,
-          });
-          messages.push({
-            role: 'system',
-            content: `Tool result:\n${toolResult}\n\nNow provide your final answer to the user based on this result.`,
-          });
-
-          continue; // Continue loop to get final response
-        }
-      } catch (error) {
-        // Not a valid tool call JSON, treat as regular response
-        break;
-      }
-    }
-
-    // Regular response, exit loop
-    break;
-  }
+  // Generation loop (for tool calling), charged to the workspace's and agent's budgets
+  const { response: result, toolCalls, iterations } = await runToolLoop(provider, {
+    messages,
+    temperature: parseFloat(agent?.temperature || '0.7'),
+    maxTokens: 2000,
+    tools: tools?.length ? tools : undefined,
+  }, maxIterations, undefined, {
+    scope: agentBudgetScope(workspaceId, agent),
+    alternatives: providers,
+  });
+  const response = result.content;
 
   // Add assistant response to conversation
   await addMessage({
@@ -228,7 +310,7 @@ export async function* executeAgentStream(options: AgentExecutionOptions): Async
   const history = await getMessages(conversationId);
   
   // Build messages for LLM
-  const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
+  const messages: Message[] = [];
 
   // Add system prompt if agent exists
   if (agent) {
@@ -250,10 +332,10 @@ export async function* executeAgentStream(options: AgentExecutionOptions): Async
   // Handle RAG if agent has document access
   if (agent?.hasDocumentAccess) {
     try {
-      const chunks = await embeddingService.searchSimilarChunks(userMessage, 3);
+      const rag = await buildRagContext(workspaceId, userMessage);
 
-      if (chunks.length > 0) {
-        const contextMessage = `Relevant context from documents:\n\n${chunks.map((c: any) => c.content).join('\n\n---\n\n')}`;
+      if (rag.chunks.length > 0) {
+        const contextMessage = `Relevant context from documents:\n\n${rag.context}${rag.citationInstruction ? '\n\n' + rag.citationInstruction : ''}`;
         messages.push({
           role: 'system',
           content: contextMessage,
@@ -272,20 +354,48 @@ export async function* executeAgentStream(options: AgentExecutionOptions): Async
     throw new Error('No providers available');
   }
 
-  const provider = providers[0];
-
   const request: GenerationRequest = {
     messages,
     temperature: parseFloat(agent?.temperature || '0.7'),
     maxTokens: 2000,
   };
 
+  // Pick the first provider within the workspace's and agent's budgets
+  const estimate = estimateRequest(messages, request.maxTokens);
+  const { provider, reservation } = await reserveRequest(agentBudgetScope(workspaceId, agent), providers, estimate);
+
   // Stream response
+  const startTime = Date.now();
   let fullResponse = '';
-  for await (const token of provider.generateStream(request)) {
-    if (!token.isComplete) {
-      fullResponse += token.content;
-      yield token.content;
+  let reportedUsage: Token['usage'];
+  let finished = false;
+  try {
+    for await (const token of provider.generateStream(request)) {
+      if (!token.isComplete) {
+        fullResponse += token.content;
+        yield token.content;
+      }
+      if (token.usage) {
+        reportedUsage = token.usage;
+      }
+    }
+    finished = true;
+    // The provider's own count when it streams one, else the tokenizer's
+    const usage = reportedUsage ?? await countUsage(messages, fullResponse);
+    await settleUsage(reservation, {
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cachedPromptTokens: reportedUsage?.cachedPromptTokens,
+      latencyMs: Date.now() - startTime,
+    });
+  } catch (error) {
+    finished = true;
+    await releaseUsage(reservation);
+    throw error;
+  } finally {
+    // A consumer that stops reading early is charged the reserved estimate
+    if (!finished) {
+      await settleUsage(reservation);
     }
   }
 
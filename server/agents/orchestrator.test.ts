@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const engine = vi.hoisted(() => {
+  const agents = [
+    { id: "research-agent", name: "Research Agent", description: "Researches", capabilities: ["web_search"] },
+    { id: "data-agent", name: "Data Agent", description: "Analyzes data", capabilities: ["data_analysis"] },
+  ];
+  const tasks = new Map<string, any>();
+  return {
+    tasks,
+    agentEngine: {
+      listAgents: () => agents,
+      getAgent: (id: string) => agents.find((agent) => agent.id === id),
+      getTask: (id: string) => tasks.get(id),
+      cancelTask: vi.fn(),
+      createTask: vi.fn(async (agentId: string, goal: string, context: any) => {
+        const failed = goal.includes("flaky");
+        const task = {
+          id: `task-${tasks.size + 1}`,
+          agentId,
+          goal,
+          context,
+          status: failed ? "failed" : "completed",
+          error: failed ? "Source unavailable" : undefined,
+          result: failed ? undefined : { summary: `done: ${goal}` },
+          runId: tasks.size + 100,
+        };
+        tasks.set(task.id, task);
+        return task;
+      }),
+    },
+  };
+});
+
+const planner = vi.hoisted(() => ({ generate: vi.fn() }));
+
+vi.mock("./agent-engine", () => ({ agentEngine: engine.agentEngine }));
+vi.mock("../agent-runs/service", () => ({
+  recordOrchestration: vi.fn(async () => 5),
+  saveOrchestration: vi.fn(),
+}));
+vi.mock("../providers/registry", () => ({
+  getProviderRegistry: () => ({
+    getAllProviders: () => [planner],
+    getProvider: () => planner,
+  }),
+}));
+vi.mock("../inference/provider-router", () => ({
+  providerRouter: { execute: vi.fn(async (request: any) => ({ response: await planner.generate(request) })) },
+}));
+
+import { multiAgentOrchestrator } from "./orchestrator";
+import { parsePlan, PlanValidationError } from "./planner";
+import { initializeEventStreaming, ORCHESTRATION_EVENT_TYPES, type StreamEvent } from "../services/eventStreaming";
+
+const AGENT_IDS = ["research-agent", "data-agent"];
+
+function planResponse(steps: any[]) {
+  return { content: "```json\n" + JSON.stringify({ steps }) + "\n```" };
+}
+
+async function runToEnd(goal: string) {
+  const task = await multiAgentOrchestrator.createOrchestratedTask(goal, [], { userId: 1, workspaceId: 3 });
+  await vi.waitFor(() => expect(task.status).not.toBe("executing"));
+  return task;
+}
+
+describe("parsePlan", () => {
+  it("should reject unknown agents, dangling dependencies and cycles", () => {
+    const plan = (steps: any[]) => JSON.stringify({ steps });
+
+    expect(() => parsePlan(plan([{ id: "a", agentId: "ghost", goal: "x" }]), AGENT_IDS)).toThrow(/unknown agent "ghost"/);
+    expect(() => parsePlan(plan([{ id: "a", agentId: "data-agent", goal: "x", dependencies: ["b"] }]), AGENT_IDS)).toThrow(
+      /unknown step "b"/
+    );
+    expect(() =>
+      parsePlan(
+        plan([
+          { id: "a", agentId: "data-agent", goal: "x", dependencies: ["b"] },
+          { id: "b", agentId: "research-agent", goal: "y", dependencies: ["a"] },
+        ]),
+        AGENT_IDS
+      )
+    ).toThrow(PlanValidationError);
+  });
+
+  it("should allow dependencies on finished steps but not reuse their ids", () => {
+    const content = JSON.stringify({ steps: [{ id: "retry-1", agentId: "data-agent", goal: "x", dependencies: ["step-1"] }] });
+
+    expect(parsePlan(content, AGENT_IDS, { finishedStepIds: ["step-1"], usedStepIds: ["step-1", "step-2"] })).toEqual([
+      { id: "retry-1", agentId: "data-agent", goal: "x", dependencies: ["step-1"] },
+    ]);
+    expect(() => parsePlan(content, AGENT_IDS, { usedStepIds: ["retry-1"] })).toThrow(/Duplicate step id/);
+  });
+});
+
+describe("MultiAgentOrchestrator", () => {
+  let events: StreamEvent[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    engine.tasks.clear();
+    events = [];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    initializeEventStreaming().subscribe(1, ORCHESTRATION_EVENT_TYPES, (event) => events.push(event));
+  });
+
+  it("should run independent steps in parallel and pass outputs to dependents", async () => {
+    planner.generate.mockResolvedValueOnce(
+      planResponse([
+        { id: "search", agentId: "research-agent", goal: "Find sources", dependencies: [] },
+        { id: "stats", agentId: "data-agent", goal: "Pull statistics", dependencies: [] },
+        { id: "report", agentId: "research-agent", goal: "Write report", dependencies: ["search", "stats"] },
+      ])
+    );
+
+    const task = await runToEnd("Market report");
+
+    expect(task.status).toBe("completed");
+    expect(task.plannedBy).toBe("model");
+    // Planning goes through the router, charged to the orchestration's workspace
+    expect(planner.generate).toHaveBeenCalledWith(expect.objectContaining({ workspaceId: 3, temperature: 0 }));
+    const [first, second, third] = engine.agentEngine.createTask.mock.calls;
+    expect([first[1], second[1]]).toEqual(["Find sources", "Pull statistics"]);
+    expect(third[2]).toEqual({
+      orchestrationGoal: "Market report",
+      inputs: { search: { summary: "done: Find sources" }, stats: { summary: "done: Pull statistics" } },
+    });
+    expect(events.map((event) => event.type)).toEqual([
+      "orchestration.plan_created",
+      "orchestration.step_started",
+      "orchestration.step_started",
+      "orchestration.step_completed",
+      "orchestration.step_completed",
+      "orchestration.step_started",
+      "orchestration.step_completed",
+      "orchestration.completed",
+    ]);
+  });
+
+  it("should re-plan the remaining work when a step fails", async () => {
+    planner.generate
+      .mockResolvedValueOnce(
+        planResponse([
+          { id: "search", agentId: "research-agent", goal: "Search flaky source", dependencies: [] },
+          { id: "report", agentId: "data-agent", goal: "Write report", dependencies: ["search"] },
+        ])
+      )
+      .mockResolvedValueOnce(
+        planResponse([
+          { id: "search-2", agentId: "research-agent", goal: "Search archive", dependencies: [] },
+          { id: "report-2", agentId: "data-agent", goal: "Write report", dependencies: ["search-2"] },
+        ])
+      );
+
+    const task = await runToEnd("Market report");
+
+    expect(task.status).toBe("completed");
+    expect(task.replans).toBe(1);
+    expect(task.plan.steps.map((step) => [step.id, step.status])).toEqual([
+      ["search", "failed"],
+      ["report", "skipped"],
+      ["search-2", "completed"],
+      ["report-2", "completed"],
+    ]);
+    const replanPrompt = planner.generate.mock.calls[1][0].messages[1].content;
+    expect(replanPrompt).toContain("Error: Source unavailable");
+    expect(events.find((event) => event.type === "orchestration.replanned")?.data).toMatchObject({
+      failedStepId: "search",
+      attempt: 1,
+    });
+  });
+
+  it("should fall back to a sequential plan when the planner response is invalid", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    planner.generate.mockResolvedValueOnce({ content: "I cannot help with that." });
+
+    const task = await runToEnd("Market report");
+
+    expect(task.plannedBy).toBe("sequential");
+    expect(task.plan.steps.map((step) => [step.agentId, step.dependencies])).toEqual([
+      ["research-agent", []],
+      ["data-agent", ["step-1"]],
+    ]);
+    expect(task.status).toBe("completed");
+  });
+});
@@ -1,9 +1,18 @@
 /**
  * Multi-Agent Orchestration System
- * Coordinates multiple agents working together
+ * Coordinates multiple agents working together.
+ * A planner model splits the goal into steps with dependencies; independent
+ * steps run in parallel, outputs flow to dependent steps and a failed step
+ * triggers a re-plan of the remaining work. Progress is published as
+ * orchestration.* events on the event stream.
+ * Plans and their step runs are persisted alongside agent runs.
  */
 
 import { agentEngine, type AgentConfig, type AgentTask } from "./agent-engine";
+import { requestPlan, sequentialPlan, type PlannedStep, type PlannerModel } from "./planner";
+import { getProviderRegistry } from "../providers/registry";
+import { recordOrchestration, saveOrchestration } from "../agent-runs/service";
+import { emitOrchestrationEvent } from "../services/eventStreaming";
 
 export interface OrchestratedTask {
   id: string;
@@ -14,6 +23,10 @@ export interface OrchestratedTask {
   subtasks: Map<string, AgentTask>;
   result?: any;
   error?: string;
+  userId?: number | null;
+  orchestrationId?: number | null;
+  plannedBy?: "model" | "sequential";
+  replans: number;
   createdAt: number;
   completedAt?: number;
 }
@@ -28,141 +41,314 @@ export interface PlanStep {
   agentId: string;
   goal: string;
   dependencies: string[];
-  status: "pending" | "running" | "completed" | "failed";
+  status: "pending" | "running" | "completed" | "failed" | "skipped";
+  runId?: number | null;
+  result?: any;
+  error?: string;
 }
 
+export interface OrchestrationOptions {
+  userId?: number | null;
+  // Workspace the planner model's requests are charged to; without one the plan is sequential
+  workspaceId?: number;
+  plannerProviderId?: number;
+  plannerModel?: string;
+  maxReplans?: number;
+}
+
+const DEFAULT_MAX_REPLANS = 2;
+
 /**
  * Multi-Agent Orchestrator
  */
 class MultiAgentOrchestrator {
   private orchestratedTasks: Map<string, OrchestratedTask> = new Map();
+  private planners: Map<string, { planner: PlannerModel | null; maxReplans: number }> = new Map();
   
   /**
-   * Create an orchestrated task involving multiple agents
+   * Create an orchestrated task involving multiple agents.
+   * With no agent IDs, every registered agent is a candidate for the plan.
    */
   async createOrchestratedTask(
     goal: string,
-    agentIds: string[]
+    agentIds: string[],
+    options: OrchestrationOptions = {}
   ): Promise<OrchestratedTask> {
+    const candidates = agentIds.length > 0 ? agentIds : agentEngine.listAgents().map((agent) => agent.id);
+    if (candidates.length === 0) throw new Error("No agents available");
+    for (const agentId of candidates) {
+      if (!agentEngine.getAgent(agentId)) throw new Error(`Agent ${agentId} not found`);
+    }
+    
     const task: OrchestratedTask = {
       id: `orch-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       goal,
-      agents: agentIds,
+      agents: candidates,
       status: "planning",
       plan: {
         steps: [],
         dependencies: new Map(),
       },
       subtasks: new Map(),
+      userId: options.userId,
+      replans: 0,
       createdAt: Date.now(),
     };
     
     this.orchestratedTasks.set(task.id, task);
+    this.planners.set(task.id, {
+      planner: this.resolvePlanner(options),
+      maxReplans: options.maxReplans ?? DEFAULT_MAX_REPLANS,
+    });
+    task.orchestrationId = await recordOrchestration({ userId: options.userId, goal, agentKeys: candidates });
     
     // Generate execution plan
     await this.generatePlan(task);
+    await this.persist(task);
     
     // Execute plan
-    this.executePlan(task.id).catch((error) => {
-      console.error(`[Orchestrator] Task ${task.id} failed:`, error);
-      task.status = "failed";
-      task.error = error.message;
-    });
+    this.executePlan(task.id)
+      .catch(async (error) => {
+        console.error(`[Orchestrator] Task ${task.id} failed:`, error);
+        if (task.status !== "executing") return;
+        await this.fail(task, error.message);
+      })
+      .finally(() => this.planners.delete(task.id));
     
     return task;
   }
   
   /**
-   * Generate execution plan
+   * Pick the planner model: the requested provider, else the one the
+   * workspace's routing chooses per request
+   */
+  private resolvePlanner(options: OrchestrationOptions): PlannerModel | null {
+    if (options.workspaceId === undefined) return null;
+    if (options.plannerProviderId !== undefined && !getProviderRegistry().getProvider(options.plannerProviderId)) {
+      console.warn(`[Orchestrator] Planner provider ${options.plannerProviderId} is not registered`);
+      return null;
+    }
+    return { workspaceId: options.workspaceId, providerId: options.plannerProviderId, model: options.plannerModel };
+  }
+  
+  private getAgents(task: OrchestratedTask): AgentConfig[] {
+    return task.agents.map((agentId) => agentEngine.getAgent(agentId)).filter((agent): agent is AgentConfig => !!agent);
+  }
+  
+  /**
+   * Generate execution plan with the planner model, falling back to one
+   * sequential step per agent when no planner is available or its plan is invalid
    */
   private async generatePlan(task: OrchestratedTask): Promise<void> {
-    // In production, this would use LLM to generate optimal plan
-    // For now, create simple sequential plan
-    
-    const steps: PlanStep[] = task.agents.map((agentId, index) => ({
-      id: `step-${index + 1}`,
-      agentId,
-      goal: `Part ${index + 1} of: ${task.goal}`,
-      dependencies: index > 0 ? [`step-${index}`] : [],
-      status: "pending" as const,
-    }));
-    
-    task.plan.steps = steps;
+    const planner = this.planners.get(task.id)?.planner;
+    let steps: PlannedStep[] | null = null;
     
-    // Build dependency map
-    steps.forEach((step) => {
-      task.plan.dependencies.set(step.id, step.dependencies);
-    });
+    if (planner) {
+      try {
+        steps = await requestPlan(planner, task.goal, this.getAgents(task));
+        task.plannedBy = "model";
+      } catch (error: any) {
+        console.warn(`[Orchestrator] Planner failed for ${task.id}, using a sequential plan: ${error.message}`);
+      }
+    }
+    if (!steps) {
+      steps = sequentialPlan(task.goal, task.agents);
+      task.plannedBy = "sequential";
+    }
     
+    this.addSteps(task, steps);
     task.status = "executing";
+    this.emit(task, "plan_created", { plannedBy: task.plannedBy, steps });
+  }
+  
+  private addSteps(task: OrchestratedTask, steps: PlannedStep[]): void {
+    for (const step of steps) {
+      task.plan.steps.push({ ...step, status: "pending" });
+      task.plan.dependencies.set(step.id, step.dependencies);
+    }
   }
   
   /**
-   * Execute the plan
+   * Execute the plan: start every step whose dependencies are complete, and
+   * re-plan the remaining work once the running steps settle after a failure
    */
   private async executePlan(taskId: string): Promise<void> {
     const task = this.orchestratedTasks.get(taskId);
     if (!task) throw new Error(`Task ${taskId} not found`);
     
-    const completedSteps = new Set<string>();
+    const running = new Map<string, Promise<void>>();
+    const handledFailures = new Set<string>();
+    let failed: PlanStep | undefined;
     
-    while (completedSteps.size < task.plan.steps.length) {
-      // Find steps ready to execute (dependencies satisfied)
-      const readySteps = task.plan.steps.filter(
-        (step) =>
-          step.status === "pending" &&
-          step.dependencies.every((dep) => completedSteps.has(dep))
-      );
-      
-      if (readySteps.length === 0) {
-        // Check if all steps are completed or failed
-        const allDone = task.plan.steps.every(
-          (s) => s.status === "completed" || s.status === "failed"
+    while (task.status === "executing") {
+      if (!failed) {
+        const completed = new Set(task.plan.steps.filter((s) => s.status === "completed").map((s) => s.id));
+        const readySteps = task.plan.steps.filter(
+          (step) => step.status === "pending" && step.dependencies.every((dep) => completed.has(dep))
         );
         
-        if (allDone) break;
-        
-        // Wait for running steps to complete
-        await new Promise((resolve) => setTimeout(resolve, 1000));
+        // Execute ready steps in parallel
+        for (const step of readySteps) {
+          step.status = "running";
+          running.set(step.id, this.runStep(task, step).finally(() => running.delete(step.id)));
+        }
+      }
+      
+      if (running.size > 0) {
+        await Promise.race(Array.from(running.values()));
+        failed = failed ?? task.plan.steps.find((s) => s.status === "failed" && !handledFailures.has(s.id));
         continue;
       }
       
-      // Execute ready steps in parallel
-      await Promise.all(
-        readySteps.map(async (step) => {
-          step.status = "running";
-          
-          try {
-            // Create agent task
-            const agentTask = await agentEngine.createTask(step.agentId, step.goal);
-            task.subtasks.set(step.id, agentTask);
-            
-            // Wait for completion
-            await this.waitForTask(agentTask.id);
-            
-            step.status = "completed";
-            completedSteps.add(step.id);
-          } catch (error) {
-            console.error(`[Orchestrator] Step ${step.id} failed:`, error);
-            step.status = "failed";
-            throw error;
-          }
-        })
-      );
+      if (failed) {
+        // One re-plan covers every step that failed in the meantime
+        task.plan.steps.filter((s) => s.status === "failed").forEach((s) => handledFailures.add(s.id));
+        if (!(await this.replan(task, failed))) return;
+        failed = undefined;
+        continue;
+      }
+      
+      if (task.plan.steps.some((step) => step.status === "pending")) {
+        await this.fail(task, "Plan cannot make progress: remaining steps depend on steps that did not complete");
+        return;
+      }
+      break;
     }
     
+    if (task.status !== "executing") return;
+    
     // Collect results
     task.result = {
       steps: task.plan.steps.map((step) => ({
         id: step.id,
         agentId: step.agentId,
         status: step.status,
-        result: task.subtasks.get(step.id)?.result,
+        result: step.result,
       })),
     };
     
     task.status = "completed";
     task.completedAt = Date.now();
+    await this.persist(task);
+    this.emit(task, "completed", { result: task.result });
+  }
+  
+  /**
+   * Run one step as an agent task, handing it the outputs of its dependencies
+   */
+  private async runStep(task: OrchestratedTask, step: PlanStep): Promise<void> {
+    const inputs: Record<string, any> = {};
+    for (const dep of step.dependencies) {
+      inputs[dep] = task.plan.steps.find((s) => s.id === dep)?.result;
+    }
+    this.emit(task, "step_started", { stepId: step.id, agentId: step.agentId, goal: step.goal });
+    
+    try {
+      const agentTask = await agentEngine.createTask(
+        step.agentId,
+        step.goal,
+        { orchestrationGoal: task.goal, inputs },
+        {
+          userId: task.userId,
+          source: "orchestrator",
+          orchestrationId: task.orchestrationId,
+          planStepId: step.id,
+        }
+      );
+      task.subtasks.set(step.id, agentTask);
+      step.runId = agentTask.runId;
+      await this.persist(task);
+      
+      // Wait for completion
+      await this.waitForTask(agentTask.id);
+      
+      step.status = "completed";
+      step.result = agentTask.result;
+      this.emit(task, "step_completed", { stepId: step.id, agentId: step.agentId, runId: step.runId ?? null, result: step.result });
+    } catch (error: any) {
+      console.error(`[Orchestrator] Step ${step.id} failed:`, error);
+      step.status = "failed";
+      step.error = error.message;
+      this.emit(task, "step_failed", { stepId: step.id, agentId: step.agentId, runId: step.runId ?? null, error: step.error });
+    }
+    await this.persist(task);
+  }
+  
+  /**
+   * Ask the planner for new steps covering the remaining work. Pending steps of
+   * the old plan are skipped; completed steps stay available as dependencies.
+   * Returns false (after failing the task) when re-planning is not possible.
+   */
+  private async replan(task: OrchestratedTask, failed: PlanStep): Promise<boolean> {
+    const reason = `Step ${failed.id} failed: ${failed.error}`;
+    const settings = this.planners.get(task.id);
+    if (!settings?.planner || task.replans >= settings.maxReplans) {
+      await this.fail(task, reason);
+      return false;
+    }
+    
+    let steps: PlannedStep[];
+    try {
+      steps = await requestPlan(settings.planner, task.goal, this.getAgents(task), {
+        completed: task.plan.steps
+          .filter((step) => step.status === "completed")
+          .map((step) => ({ id: step.id, agentId: step.agentId, goal: step.goal, result: step.result })),
+        failed: { id: failed.id, agentId: failed.agentId, goal: failed.goal, error: failed.error ?? "Unknown error" },
+        usedStepIds: task.plan.steps.map((step) => step.id),
+      });
+    } catch (error: any) {
+      await this.fail(task, `${reason}; re-planning failed: ${error.message}`);
+      return false;
+    }
+    
+    if (task.status !== "executing") return false;
+    
+    for (const step of task.plan.steps) {
+      if (step.status === "pending") step.status = "skipped";
+    }
+    this.addSteps(task, steps);
+    task.replans++;
+    await this.persist(task);
+    this.emit(task, "replanned", { failedStepId: failed.id, error: failed.error, attempt: task.replans, steps });
+    return true;
+  }
+  
+  private async fail(task: OrchestratedTask, error: string): Promise<void> {
+    task.status = "failed";
+    task.error = error;
+    task.completedAt = Date.now();
+    await this.persist(task);
+    this.emit(task, "failed", { error });
+  }
+  
+  /**
+   * Publish progress on the event stream of the user's workspace
+   */
+  private emit(
+    task: OrchestratedTask,
+    type: Parameters<typeof emitOrchestrationEvent>[0],
+    data: Record<string, any>
+  ): void {
+    if (task.userId == null) return;
+    emitOrchestrationEvent(type, task.userId, {
+      taskId: task.id,
+      orchestrationId: task.orchestrationId ?? null,
+      goal: task.goal,
+      ...data,
+    });
+  }
+  
+  /**
+   * Save the plan and status of an orchestrated task
+   */
+  private async persist(task: OrchestratedTask): Promise<void> {
+    await saveOrchestration(task.orchestrationId ?? null, {
+      status: task.status,
+      plan: task.plan.steps.map(({ result, ...step }) => ({ ...step, runId: step.runId ?? null })),
+      result: task.result ?? null,
+      error: task.error ?? null,
+      completedAt: task.completedAt ? new Date(task.completedAt) : null,
+    });
   }
   
   /**
@@ -212,9 +398,7 @@ class MultiAgentOrchestrator {
       agentEngine.cancelTask(subtask.id);
     });
     
-    task.status = "failed";
-    task.error = "Task cancelled by user";
-    task.completedAt = Date.now();
+    void this.fail(task, "Task cancelled by user");
     
     return true;
   }
@@ -0,0 +1,245 @@
+/**
+ * Multi-Agent Planner
+ * Asks a planner model for a structured plan (steps, assigned agents,
+ * dependencies) and validates it before the orchestrator runs it. The model
+ * is called through the provider router, so planning is budgeted, cached and
+ * circuit-broken like any other request of the workspace.
+ */
+
+import { providerRouter } from "../inference/provider-router";
+import type { Message } from "../providers/types";
+import type { AgentConfig } from "./agent-engine";
+
+export interface PlannedStep {
+  id: string;
+  agentId: string;
+  goal: string;
+  dependencies: string[];
+}
+
+export interface PlannerModel {
+  workspaceId: number;
+  // Plan on this provider; otherwise the workspace's routing picks one
+  providerId?: number;
+  model?: string;
+}
+
+/**
+ * Context for re-planning after a step failed: finished steps can be reused as
+ * dependencies, every existing step id is taken.
+ */
+export interface ReplanContext {
+  completed: Array<{ id: string; agentId: string; goal: string; result?: any }>;
+  failed: { id: string; agentId: string; goal: string; error: string };
+  usedStepIds: string[];
+}
+
+export class PlanValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanValidationError";
+  }
+}
+
+// Step outputs are summarized for the planner; the full result stays on the agent run
+const MAX_RESULT_LENGTH = 2000;
+
+function summarizeResult(result: any): string {
+  const text = typeof result === "string" ? result : JSON.stringify(result ?? null);
+  return text.length > MAX_RESULT_LENGTH ? `${text.slice(0, MAX_RESULT_LENGTH)}…` : text;
+}
+
+/**
+ * Build the planner conversation for a new plan or a re-plan
+ */
+export function buildPlannerMessages(goal: string, agents: AgentConfig[], replan?: ReplanContext): Message[] {
+  const roster = agents
+    .map((agent) => `- ${agent.id} (${agent.name}): ${agent.description}. Capabilities: ${agent.capabilities.join(", ") || "none"}`)
+    .join("\n");
+
+  const system = [
+    "You are the planner of a multi-agent system. Split the user's goal into steps and assign each step",
+    "to the agent whose capabilities fit it best. Steps that do not depend on each other run in parallel;",
+    "a step receives the outputs of the steps it depends on.",
+    "",
+    "Available agents:",
+    roster,
+    "",
+    'Respond with JSON only, in the form {"steps":[{"id":"step-1","agentId":"<agent id>","goal":"<what this step must do>","dependencies":["<step id>"]}]}.',
+    "Use only the agent ids listed above and do not create circular dependencies.",
+  ].join("\n");
+
+  let user = `Goal: ${goal}`;
+  if (replan) {
+    const completed = replan.completed.length
+      ? replan.completed.map((step) => `- ${step.id} (${step.agentId}): ${step.goal}\n  Output: ${summarizeResult(step.result)}`).join("\n")
+      : "- none";
+    user += [
+      "",
+      "",
+      "The previous plan failed.",
+      `Failed step ${replan.failed.id} (${replan.failed.agentId}): ${replan.failed.goal}`,
+      `Error: ${replan.failed.error}`,
+      "",
+      "Completed steps, which may be used as dependencies:",
+      completed,
+      "",
+      "Plan only the remaining work. Do not reuse these step ids: " + replan.usedStepIds.join(", "),
+    ].join("\n");
+  }
+
+  return [
+    { role: "system", content: system },
+    { role: "user", content: user },
+  ];
+}
+
+/**
+ * Extract the JSON object from a planner response (bare or in a code fence)
+ */
+function extractJson(content: string): any {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : content;
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new PlanValidationError("Planner response contains no JSON object");
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error: any) {
+    throw new PlanValidationError(`Planner response is not valid JSON: ${error.message}`);
+  }
+}
+
+/**
+ * Check a plan for unknown agents, duplicate or reused ids, dangling
+ * dependencies and cycles. `finishedStepIds` are steps of an earlier plan that
+ * may be depended on; `usedStepIds` may not be redefined.
+ */
+export function validatePlan(
+  steps: PlannedStep[],
+  agentIds: string[],
+  options: { finishedStepIds?: string[]; usedStepIds?: string[] } = {}
+): void {
+  if (steps.length === 0) {
+    throw new PlanValidationError("Plan has no steps");
+  }
+
+  const known = new Set(agentIds);
+  const finished = new Set(options.finishedStepIds ?? []);
+  const used = new Set(options.usedStepIds ?? []);
+  const ids = new Set<string>();
+
+  for (const step of steps) {
+    if (ids.has(step.id) || used.has(step.id)) {
+      throw new PlanValidationError(`Duplicate step id "${step.id}"`);
+    }
+    ids.add(step.id);
+    if (!known.has(step.agentId)) {
+      throw new PlanValidationError(`Step "${step.id}" is assigned to unknown agent "${step.agentId}"`);
+    }
+  }
+
+  for (const step of steps) {
+    for (const dep of step.dependencies) {
+      if (!ids.has(dep) && !finished.has(dep)) {
+        throw new PlanValidationError(`Step "${step.id}" depends on unknown step "${dep}"`);
+      }
+    }
+  }
+
+  // Kahn's algorithm over the new steps; finished dependencies are already satisfied
+  const remaining = new Map<string, number>();
+  for (const step of steps) {
+    remaining.set(step.id, step.dependencies.filter((dep) => ids.has(dep)).length);
+  }
+  const queue = steps.filter((step) => remaining.get(step.id) === 0).map((step) => step.id);
+  let visited = 0;
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    visited++;
+    for (const step of steps) {
+      if (!step.dependencies.includes(id)) continue;
+      const left = remaining.get(step.id)! - 1;
+      remaining.set(step.id, left);
+      if (left === 0) queue.push(step.id);
+    }
+  }
+  if (visited < steps.length) {
+    const cyclic = steps.filter((step) => remaining.get(step.id)! > 0).map((step) => step.id);
+    throw new PlanValidationError(`Plan has a dependency cycle between ${cyclic.join(", ")}`);
+  }
+}
+
+/**
+ * Parse and validate a planner response
+ */
+export function parsePlan(
+  content: string,
+  agentIds: string[],
+  options: { finishedStepIds?: string[]; usedStepIds?: string[] } = {}
+): PlannedStep[] {
+  const parsed = extractJson(content);
+  const rawSteps = Array.isArray(parsed) ? parsed : parsed?.steps;
+  if (!Array.isArray(rawSteps)) {
+    throw new PlanValidationError('Planner response has no "steps" array');
+  }
+
+  const steps: PlannedStep[] = rawSteps.map((raw: any, index: number) => {
+    if (!raw || typeof raw.goal !== "string" || !raw.goal.trim()) {
+      throw new PlanValidationError(`Step ${index + 1} has no goal`);
+    }
+    if (raw.dependencies !== undefined && !Array.isArray(raw.dependencies)) {
+      throw new PlanValidationError(`Step ${index + 1} has invalid dependencies`);
+    }
+    return {
+      id: raw.id ? String(raw.id) : `step-${index + 1}`,
+      agentId: String(raw.agentId ?? ""),
+      goal: raw.goal.trim(),
+      dependencies: (raw.dependencies ?? []).map(String),
+    };
+  });
+
+  validatePlan(steps, agentIds, options);
+  return steps;
+}
+
+/**
+ * Ask the planner model for a plan
+ */
+export async function requestPlan(
+  planner: PlannerModel,
+  goal: string,
+  agents: AgentConfig[],
+  replan?: ReplanContext
+): Promise<PlannedStep[]> {
+  const { response } = await providerRouter.execute({
+    messages: buildPlannerMessages(goal, agents, replan),
+    model: planner.model,
+    temperature: 0,
+    maxTokens: 2000,
+    workspaceId: planner.workspaceId,
+    providerId: planner.providerId,
+  });
+
+  return parsePlan(
+    response.content,
+    agents.map((agent) => agent.id),
+    replan
+      ? { finishedStepIds: replan.completed.map((step) => step.id), usedStepIds: replan.usedStepIds }
+      : {}
+  );
+}
+
+/**
+ * Plan used when no planner model is available: one step per agent, in order
+ */
+export function sequentialPlan(goal: string, agentIds: string[]): PlannedStep[] {
+  return agentIds.map((agentId, index) => ({
+    id: `step-${index + 1}`,
+    agentId,
+    goal: `Part ${index + 1} of: ${goal}`,
+    dependencies: index > 0 ? [`step-${index}`] : [],
+  }));
+}
@@ -3,6 +3,8 @@
  * Provides a registry of tools that agents can use to perform actions
  */
 
+import type { ToolDefinition } from '../providers/types';
+
 export interface ToolParameter {
   name: string;
   type: 'string' | 'number' | 'boolean' | 'object' | 'array';
@@ -41,6 +43,29 @@ class ToolRegistry {
     return Array.from(this.tools.keys());
   }
 
+  /**
+   * Describe tools as Provider Hub tool definitions (JSON Schema parameters)
+   */
+  toDefinitions(names?: string[]): ToolDefinition[] {
+    return this.list()
+      .filter(tool => !names || names.includes(tool.name))
+      .map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: 'object',
+          properties: Object.fromEntries(
+            tool.parameters.map(param => [param.name, {
+              type: param.type,
+              description: param.description,
+              ...(param.default !== undefined ? { default: param.default } : {}),
+            }])
+          ),
+          required: tool.parameters.filter(param => param.required).map(param => param.name),
+        },
+      }));
+  }
+
   async execute(name: string, params: Record<string, any>): Promise<string> {
     const tool = this.tools.get(name);
     if (!tool) {
@@ -0,0 +1,65 @@
+/**
+ * Gateway API Keys — tRPC Router
+ *
+ *   - list: keys for a workspace (hash never returned)
+ *   - create: issue a key; plaintext returned once
+ *   - revoke: permanently disable a key
+ */
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { hasWorkspaceAccess } from "../db";
+import { createApiKey, listApiKeys, revokeApiKey, ALL_GATEWAY_SCOPES } from "./api-keys";
+
+const scopeSchema = z.enum(["models:read", "chat:write", "completions:write", "embeddings:write"]);
+
+async function assertWorkspaceAccess(userId: number, workspaceId: number) {
+  const hasAccess = await hasWorkspaceAccess(userId, workspaceId);
+  if (!hasAccess) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+  }
+}
+
+export const gatewayKeysRouter = router({
+  list: protectedProcedure
+    .input(z.object({ workspaceId: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      return listApiKeys(input.workspaceId);
+    }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        workspaceId: z.number().int(),
+        name: z.string().min(1).max(255),
+        scopes: z.array(scopeSchema).min(1).default(ALL_GATEWAY_SCOPES),
+        expiresInDays: z.number().int().min(1).max(3650).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      const expiresAt = input.expiresInDays
+        ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined;
+
+      return createApiKey({
+        workspaceId: input.workspaceId,
+        name: input.name,
+        scopes: input.scopes,
+        expiresAt,
+        createdBy: ctx.user.id,
+      });
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.number().int(), workspaceId: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      const revoked = await revokeApiKey(input.id, input.workspaceId);
+      if (!revoked) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "API key not found" });
+      }
+      return { success: true };
+    }),
+});
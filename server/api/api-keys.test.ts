@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { generateApiKey, hashApiKey, hasScope, verifyApiKey, GATEWAY_KEY_PREFIX } from "./api-keys";
+import type { GatewayApiKey } from "../../drizzle/schema";
+
+describe("Gateway API keys", () => {
+  it("generates prefixed keys whose hash matches the plaintext", () => {
+    const { plaintext, prefix, hash } = generateApiKey();
+
+    expect(plaintext.startsWith(GATEWAY_KEY_PREFIX)).toBe(true);
+    expect(plaintext.startsWith(prefix)).toBe(true);
+    expect(hash).toBe(hashApiKey(plaintext));
+    expect(hash).toHaveLength(64);
+  });
+
+  it("generates unique keys", () => {
+    const a = generateApiKey();
+    const b = generateApiKey();
+
+    expect(a.plaintext).not.toBe(b.plaintext);
+    expect(a.hash).not.toBe(b.hash);
+  });
+
+  it("checks scopes", () => {
+    const key = { scopes: ["models:read", "chat:write"] } as GatewayApiKey;
+
+    expect(hasScope(key, "chat:write")).toBe(true);
+    expect(hasScope(key, "completions:write")).toBe(false);
+  });
+
+  it("rejects tokens without the gateway prefix", async () => {
+    const result = await verifyApiKey("sk-not-a-gateway-key");
+
+    expect(result.valid).toBe(false);
+    expect(result.reason).toBe("not_found");
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Gateway API Keys
+ *
+ * Per-workspace keys for the OpenAI-compatible gateway:
+ *   - The plaintext key is returned exactly once, at creation
+ *   - Only the SHA-256 hash is persisted
+ *   - Keys carry scopes, an optional expiry and can be revoked
+ */
+import crypto from "crypto";
+import { eq, and, desc } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  gatewayApiKeys,
+  type GatewayApiKey,
+  type GatewayApiKeyScope,
+} from "../../drizzle/schema";
+
+export const GATEWAY_KEY_PREFIX = "sk-gw-";
+
+export const ALL_GATEWAY_SCOPES: GatewayApiKeyScope[] = [
+  "models:read",
+  "chat:write",
+  "completions:write",
+  "embeddings:write",
+];
+
+export interface ApiKeyVerification {
+  valid: boolean;
+  key?: GatewayApiKey;
+  reason?: "not_found" | "revoked" | "expired";
+}
+
+/**
+ * Public view of a key — never includes the hash
+ */
+export type GatewayApiKeySummary = Omit<GatewayApiKey, "keyHash">;
+
+export function hashApiKey(plaintext: string): string {
+  return crypto.createHash("sha256").update(plaintext).digest("hex");
+}
+
+export function generateApiKey(): { plaintext: string; prefix: string; hash: string } {
+  const plaintext = GATEWAY_KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+  return {
+    plaintext,
+    prefix: plaintext.slice(0, GATEWAY_KEY_PREFIX.length + 6),
+    hash: hashApiKey(plaintext),
+  };
+}
+
+function toSummary(key: GatewayApiKey): GatewayApiKeySummary {
+  const { keyHash: _keyHash, ...summary } = key;
+  return summary;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export async function createApiKey(data: {
+  workspaceId: number;
+  name: string;
+  scopes: GatewayApiKeyScope[];
+  expiresAt?: Date;
+  createdBy: number;
+}): Promise<{ key: GatewayApiKeySummary; plaintext: string }> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { plaintext, prefix, hash } = generateApiKey();
+  const [row] = await db
+    .insert(gatewayApiKeys)
+    .values({
+      workspaceId: data.workspaceId,
+      name: data.name,
+      keyPrefix: prefix,
+      keyHash: hash,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt,
+      createdBy: data.createdBy,
+    })
+    .returning();
+
+  return { key: toSummary(row), plaintext };
+}
+
+export async function listApiKeys(workspaceId: number): Promise<GatewayApiKeySummary[]> {
+  const db = getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select()
+    .from(gatewayApiKeys)
+    .where(eq(gatewayApiKeys.workspaceId, workspaceId))
+    .orderBy(desc(gatewayApiKeys.createdAt));
+  return rows.map(toSummary);
+}
+
+export async function revokeApiKey(id: number, workspaceId: number): Promise<boolean> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const updated = await db
+    .update(gatewayApiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(gatewayApiKeys.id, id), eq(gatewayApiKeys.workspaceId, workspaceId)))
+    .returning({ id: gatewayApiKeys.id });
+  return updated.length > 0;
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Look up a presented bearer token and check revocation and expiry.
+ * Records lastUsedAt on success.
+ */
+export async function verifyApiKey(plaintext: string): Promise<ApiKeyVerification> {
+  const db = getDb();
+  if (!db || !plaintext.startsWith(GATEWAY_KEY_PREFIX)) {
+    return { valid: false, reason: "not_found" };
+  }
+
+  const [key] = await db
+    .select()
+    .from(gatewayApiKeys)
+    .where(eq(gatewayApiKeys.keyHash, hashApiKey(plaintext)))
+    .limit(1);
+
+  if (!key) return { valid: false, reason: "not_found" };
+  if (key.revokedAt) return { valid: false, reason: "revoked" };
+  if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) {
+    return { valid: false, reason: "expired" };
+  }
+
+  // Best effort — a failed timestamp update must not reject the request
+  db.update(gatewayApiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(gatewayApiKeys.id, key.id))
+    .catch((error: any) => console.warn("[Gateway] Failed to update lastUsedAt:", error.message));
+
+  return { valid: true, key };
+}
+
+export function hasScope(key: GatewayApiKey, scope: GatewayApiKeyScope): boolean {
+  return (key.scopes ?? []).includes(scope);
+}
@@ -1,60 +1,317 @@
 /**
- * OpenAI-Compatible API Server
- * Provides OpenAI-compatible endpoints for local models
+ * OpenAI-Compatible API Gateway
+ * Exposes the Provider Hub through OpenAI-compatible endpoints so any client
+ * speaking the OpenAI SDK gets workspace routing profiles, fallback and usage tracking.
+ *
+ * Authentication uses per-workspace gateway API keys (see ./api-keys).
  */
 
-import { Router } from "express";
-import { llamaCppEngine } from "../inference/llamacpp-engine";
-import type { InferenceRequest, InferenceResponse } from "../inference/types";
+import { Router, type NextFunction, type Request, type Response } from "express";
+import { providerRouter, type RoutingResult } from "../inference/provider-router";
+import { getProviderRegistry } from "../providers/registry";
+import { BudgetExceededError, releaseUsage, reserveRequest, settleUsage, type BudgetReservation } from "../providers/budgets";
+import { embeddingEngine, LOCAL_EMBEDDING_MODELS, type EmbeddingModel } from "../embeddings/embedding-engine";
+import { parseProviderModelId, providerModelId } from "../embeddings/backends";
+import { parseToolArguments } from "../providers/tool-calling";
+import type { ContentPart, Message, MessageContent, GenerationResponse, Token, ToolCall, ToolChoice, ToolDefinition } from "../providers/types";
+import type { GatewayApiKey, GatewayApiKeyScope } from "../../drizzle/schema";
+import { verifyApiKey, hasScope } from "./api-keys";
 
 export const openaiCompatibleRouter = Router();
 
+// Model id that lets the workspace routing profile pick the provider's default model
+const AUTO_MODEL = "auto";
+
+function sendError(res: Response, status: number, message: string, type: string, code?: string) {
+  res.status(status).json({ error: { message, type, code } });
+}
+
+/**
+ * Spent budgets surface as OpenAI's quota error so SDK clients stop retrying
+ */
+function sendGenerationError(res: Response, error: unknown) {
+  if (error instanceof BudgetExceededError) {
+    return sendError(res, 429, error.message, "insufficient_quota", "budget_exceeded");
+  }
+  sendError(res, 500, error instanceof Error ? error.message : "Unknown error", "server_error");
+}
+
+function getGatewayKey(res: Response): GatewayApiKey {
+  return res.locals.gatewayKey as GatewayApiKey;
+}
+
 // Middleware to validate API key
-function validateApiKey(req: any, res: any, next: any) {
+async function validateApiKey(req: Request, res: Response, next: NextFunction) {
   const apiKey = req.headers.authorization?.replace("Bearer ", "");
-  
+
   if (!apiKey) {
-    return res.status(401).json({
+    return sendError(res, 401, "Missing API key", "invalid_request_error", "missing_api_key");
+  }
+
+  try {
+    const verification = await verifyApiKey(apiKey);
+    if (!verification.valid) {
+      const message = verification.reason === "not_found"
+        ? "Incorrect API key provided"
+        : `API key has been ${verification.reason}`;
+      return sendError(res, 401, message, "invalid_request_error", "invalid_api_key");
+    }
+
+    res.locals.gatewayKey = verification.key;
+    next();
+  } catch (error) {
+    sendError(res, 500, error instanceof Error ? error.message : "Unknown error", "server_error");
+  }
+}
+
+function requireScope(scope: GatewayApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasScope(getGatewayKey(res), scope)) {
+      return sendError(res, 403, `API key is missing the "${scope}" scope`, "permission_error", "insufficient_scope");
+    }
+    next();
+  };
+}
+
+/**
+ * Collect every model exposed by registered providers
+ */
+function listGatewayModels() {
+  const seen = new Map<string, string>();
+  for (const provider of getProviderRegistry().getAllProviders()) {
+    for (const model of provider.getCapabilities().supportedModels || []) {
+      if (!seen.has(model)) seen.set(model, provider.name);
+    }
+  }
+  return Array.from(seen.entries()).map(([id, ownedBy]) => ({
+    id,
+    object: "model",
+    created: 0,
+    owned_by: ownedBy,
+  }));
+}
+
+/**
+ * Map a requested embedding model to the embedding engine's id: "auto", a
+ * local model, "provider:<providerId>:<model>", or the bare name of a model
+ * served by a registered embedding provider as OpenAI SDK clients send it
+ */
+function resolveEmbeddingModel(model: string): EmbeddingModel | null {
+  if (model === AUTO_MODEL) return embeddingEngine.defaultModelId;
+  if ((LOCAL_EMBEDDING_MODELS as string[]).includes(model) || parseProviderModelId(model)) {
+    return model as EmbeddingModel;
+  }
+
+  for (const provider of getProviderRegistry().getAllProviders()) {
+    const capabilities = provider.getCapabilities();
+    if (capabilities.supportsEmbedding && (capabilities.supportedModels || []).includes(model)) {
+      return providerModelId(provider.id, model) as EmbeddingModel;
+    }
+  }
+  return null;
+}
+
+// OpenAI's base64 encoding: the vector's little-endian float32 bytes
+function toBase64Embedding(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString("base64");
+}
+
+function toContent(content: unknown): MessageContent {
+  if (!Array.isArray(content)) return String(content ?? "");
+  return content
+    .filter((part: any) => part.type === "text" || part.type === "image_url")
+    .map((part: any): ContentPart => part.type === "image_url"
+      ? { type: "image", url: typeof part.image_url === "string" ? part.image_url : part.image_url?.url }
+      : { type: "text", text: part.text });
+}
+
+function toMessages(messages: any[]): Message[] {
+  return messages.map((msg: any) => ({
+    role: msg.role,
+    content: toContent(msg.content),
+    toolCallId: msg.tool_call_id,
+    name: msg.name,
+    toolCalls: Array.isArray(msg.tool_calls)
+      ? msg.tool_calls.map((call: any) => ({
+          id: call.id,
+          name: call.function?.name,
+          arguments: parseToolArguments(call.function?.arguments),
+        }))
+      : undefined,
+  }));
+}
+
+function toToolDefinitions(tools: unknown): ToolDefinition[] | undefined {
+  if (!Array.isArray(tools) || tools.length === 0) return undefined;
+  return tools
+    .filter((tool: any) => tool?.type === "function" && tool.function?.name)
+    .map((tool: any) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters ?? { type: "object", properties: {} },
+    }));
+}
+
+function toToolChoice(toolChoice: any): ToolChoice | undefined {
+  if (!toolChoice) return undefined;
+  if (typeof toolChoice === "string") return toolChoice as ToolChoice;
+  return toolChoice.function?.name ? { name: toolChoice.function.name } : undefined;
+}
+
+function toOpenAIToolCalls(toolCalls: ToolCall[]) {
+  return toolCalls.map((call, index) => ({
+    index,
+    id: call.id,
+    type: "function",
+    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+  }));
+}
+
+function toStopSequences(stop: unknown): string[] | undefined {
+  if (!stop) return undefined;
+  return Array.isArray(stop) ? stop : [String(stop)];
+}
+
+function toOpenAIUsage(response: GenerationResponse) {
+  return {
+    prompt_tokens: response.usage.promptTokens,
+    completion_tokens: response.usage.completionTokens,
+    total_tokens: response.usage.totalTokens,
+  };
+}
+
+/**
+ * Run a routed request, streaming SSE chunks or returning a single body.
+ * `format` shapes the chat vs legacy completion payloads.
+ */
+async function handleGeneration(
+  req: Request,
+  res: Response,
+  messages: Message[],
+  format: "chat" | "text",
+) {
+  const { model, temperature, max_tokens, top_p, stop, stream, tools, tool_choice } = req.body;
+  const workspaceId = getGatewayKey(res).workspaceId;
+
+  const routingRequest = {
+    messages,
+    model: model === AUTO_MODEL ? undefined : model,
+    workspaceId,
+    temperature,
+    maxTokens: max_tokens,
+    topP: top_p,
+    stopSequences: toStopSequences(stop),
+    tools: format === "chat" ? toToolDefinitions(tools) : undefined,
+    toolChoice: format === "chat" ? toToolChoice(tool_choice) : undefined,
+    // Clients can ask for a fresh answer the same way they would from an HTTP cache
+    cache: !/no-cache|no-store/i.test(req.headers["cache-control"] ?? ""),
+  };
+
+  const created = Math.floor(Date.now() / 1000);
+
+  if (!stream) {
+    const result = await providerRouter.execute(routingRequest);
+    const response = result.response;
+
+    res.setHeader("X-Routing-Request-Id", result.plan.requestId);
+    res.setHeader("X-Routing-Provider-Id", String(result.actualProviderId));
+    res.setHeader("X-Response-Cache", result.cache ? `hit-${result.cache.kind}` : "miss");
+
+    const finishReason = response.finishReason === "error" ? "stop" : response.finishReason;
+    return res.json({
+      id: response.id,
+      object: format === "chat" ? "chat.completion" : "text_completion",
+      created,
+      model: response.model,
+      choices: [
+        format === "chat"
+          ? {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: response.content,
+                ...(response.toolCalls?.length
+                  ? { tool_calls: toOpenAIToolCalls(response.toolCalls).map(({ index, ...call }) => call) }
+                  : {}),
+              },
+              finish_reason: finishReason,
+            }
+          : { index: 0, text: response.content, finish_reason: finishReason },
+      ],
+      usage: toOpenAIUsage(response),
+    });
+  }
+
+  // Streaming response
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+
+  const id = `${format === "chat" ? "chatcmpl" : "cmpl"}-${Date.now().toString(36)}`;
+  const responseModel = model || AUTO_MODEL;
+  const writeChunk = (content: string | undefined, finishReason: string | null, first = false, toolCalls?: unknown[]) => {
+    const delta = toolCalls
+      ? { ...(first ? { role: "assistant" } : {}), tool_calls: toolCalls }
+      : first ? { role: "assistant", content: content ?? "" } : content !== undefined ? { content } : {};
+    const choice = format === "chat"
+      ? { index: 0, delta, finish_reason: finishReason }
+      : { index: 0, text: content ?? "", finish_reason: finishReason };
+    res.write(`data: ${JSON.stringify({
+      id,
+      object: format === "chat" ? "chat.completion.chunk" : "text_completion",
+      created,
+      model: responseModel,
+      choices: [choice],
+    })}\n\n`);
+  };
+
+  try {
+    const iterator = providerRouter.executeStream(routingRequest);
+    let first = true;
+    let next = await iterator.next();
+    while (!next.done) {
+      const token = next.value as Token;
+      if (!token.isComplete && token.content) {
+        writeChunk(token.content, null, first);
+        first = false;
+      }
+      if (token.toolCalls?.length && format === "chat") {
+        writeChunk(undefined, null, first, toOpenAIToolCalls(token.toolCalls));
+        first = false;
+      }
+      next = await iterator.next();
+    }
+
+    const result = next.value as RoutingResult;
+
+    writeChunk(undefined, result.response.toolCalls?.length ? "tool_calls" : "stop");
+    res.write("data: [DONE]\n\n");
+    res.end();
+  } catch (error) {
+    // Headers are already sent, so surface the error in-band like OpenAI does
+    res.write(`data: ${JSON.stringify({
       error: {
-        message: "Missing API key",
-        type: "invalid_request_error",
-        code: "missing_api_key",
+        message: error instanceof Error ? error.message : "Unknown error",
+        type: error instanceof BudgetExceededError ? "insufficient_quota" : "server_error",
       },
-    });
+    })}\n\n`);
+    res.end();
   }
-  
-  // In production, validate against stored API keys
-  // For now, accept any key
-  next();
 }
 
 /**
  * List available models
  * GET /v1/models
  */
-openaiCompatibleRouter.get("/v1/models", validateApiKey, async (req, res) => {
+openaiCompatibleRouter.get("/v1/models", validateApiKey, requireScope("models:read"), async (req, res) => {
   try {
-    const models = llamaCppEngine.getLoadedModels();
-    
     res.json({
       object: "list",
-      data: models.map((model: any) => ({
-        id: model.modelId,
-        object: "model",
-        created: Date.now(),
-        owned_by: "local",
-        permission: [],
-        root: model.modelId,
-        parent: null,
-      })),
+      data: [{ id: AUTO_MODEL, object: "model", created: 0, owned_by: "router" }, ...listGatewayModels()],
     });
   } catch (error) {
-    res.status(500).json({
-      error: {
-        message: error instanceof Error ? error.message : "Unknown error",
-        type: "server_error",
-      },
-    });
+    sendError(res, 500, error instanceof Error ? error.message : "Unknown error", "server_error");
   }
 });
 
@@ -62,94 +319,17 @@ openaiCompatibleRouter.get("/v1/models", validateApiKey, async (req, res) => {
  * Create chat completion
  * POST /v1/chat/completions
  */
-openaiCompatibleRouter.post("/v1/chat/completions", validateApiKey, async (req, res) => {
+openaiCompatibleRouter.post("/v1/chat/completions", validateApiKey, requireScope("chat:write"), async (req, res) => {
   try {
-    const { model, messages, temperature, max_tokens, stream } = req.body;
-    
-    if (!model || !messages) {
-      return res.status(400).json({
-        error: {
-          message: "Missing required parameters: model and messages",
-          type: "invalid_request_error",
-        },
-      });
-    }
-    
-    // Convert OpenAI format to internal format
-    const inferenceRequest: InferenceRequest = {
-      modelId: model,
-      messages: messages.map((msg: any) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      temperature,
-      maxTokens: max_tokens,
-      stream,
-    };
-    
-    if (stream) {
-      // Streaming response
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
-      
-      const streamIterator = llamaCppEngine.inferStream(inferenceRequest);
-      const iterable = { [Symbol.asyncIterator]: () => streamIterator };
-      
-      for await (const chunk of iterable) {
-        const openaiChunk = {
-          id: chunk.id,
-          object: "chat.completion.chunk",
-          created: chunk.created,
-          model: chunk.modelId,
-          choices: chunk.choices.map((choice: any) => ({
-            index: choice.index,
-            delta: {
-              role: choice.delta.role,
-              content: choice.delta.content,
-            },
-            finish_reason: choice.finishReason || null,
-          })),
-        };
-        
-        res.write(`data: ${JSON.stringify(openaiChunk)}\n\n`);
-      }
-      
-      res.write("data: [DONE]\n\n");
-      res.end();
-    } else {
-      // Non-streaming response
-      const response = await llamaCppEngine.infer(inferenceRequest);
-      
-      const openaiResponse = {
-        id: response.id,
-        object: "chat.completion",
-        created: response.created,
-        model: response.modelId,
-        choices: response.choices.map((choice: any) => ({
-          index: choice.index,
-          message: {
-            role: choice.message.role,
-            content: choice.message.content,
-          },
-          finish_reason: choice.finishReason,
-        })),
-        usage: {
-          prompt_tokens: response.usage.promptTokens,
-          completion_tokens: response.usage.completionTokens,
-          total_tokens: response.usage.totalTokens,
-        },
-      };
-      
-      res.json(openaiResponse);
+    const { model, messages } = req.body;
+
+    if (!model || !Array.isArray(messages) || messages.length === 0) {
+      return sendError(res, 400, "Missing required parameters: model and messages", "invalid_request_error");
     }
+
+    await handleGeneration(req, res, toMessages(messages), "chat");
   } catch (error) {
-    res.status(500).json({
-      error: {
-        message: error instanceof Error ? error.message : "Unknown error",
-        type: "server_error",
-      },
-    });
+    sendGenerationError(res, error);
   }
 });
 
@@ -157,59 +337,98 @@ openaiCompatibleRouter.post("/v1/chat/completions", validateApiKey, async (req,
  * Create completion (legacy)
  * POST /v1/completions
  */
-openaiCompatibleRouter.post("/v1/completions", validateApiKey, async (req, res) => {
+openaiCompatibleRouter.post("/v1/completions", validateApiKey, requireScope("completions:write"), async (req, res) => {
   try {
-    const { model, prompt, temperature, max_tokens } = req.body;
-    
+    const { model, prompt } = req.body;
+
     if (!model || !prompt) {
-      return res.status(400).json({
-        error: {
-          message: "Missing required parameters: model and prompt",
-          type: "invalid_request_error",
-        },
-      });
+      return sendError(res, 400, "Missing required parameters: model and prompt", "invalid_request_error");
     }
-    
+
     // Convert to chat format
-    const inferenceRequest: InferenceRequest = {
-      modelId: model,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature,
-      maxTokens: max_tokens,
-    };
-    
-    const response = await llamaCppEngine.infer(inferenceRequest);
-    
-    const openaiResponse = {
-      id: response.id,
-      object: "text_completion",
-      created: response.created,
-      model: response.modelId,
-      choices: response.choices.map((choice: any) => ({
-        text: choice.message.content,
-        index: choice.index,
-        finish_reason: choice.finishReason,
+    const text = Array.isArray(prompt) ? prompt.join("\n") : String(prompt);
+    await handleGeneration(req, res, [{ role: "user", content: text }], "text");
+  } catch (error) {
+    sendGenerationError(res, error);
+  }
+});
+
+/**
+ * Create embeddings
+ * POST /v1/embeddings
+ */
+openaiCompatibleRouter.post("/v1/embeddings", validateApiKey, requireScope("embeddings:write"), async (req, res) => {
+  try {
+    const { model, input, encoding_format } = req.body;
+
+    if (!model || input === undefined) {
+      return sendError(res, 400, "Missing required parameters: model and input", "invalid_request_error");
+    }
+
+    const texts: unknown[] = Array.isArray(input) ? input : [input];
+    if (texts.length === 0 || texts.some(text => typeof text !== "string")) {
+      return sendError(res, 400, "input must be a string or an array of strings", "invalid_request_error");
+    }
+    if (encoding_format && encoding_format !== "float" && encoding_format !== "base64") {
+      return sendError(res, 400, `Unsupported encoding_format: ${encoding_format}`, "invalid_request_error");
+    }
+
+    const embeddingModel = resolveEmbeddingModel(model);
+    if (!embeddingModel) {
+      return sendError(res, 404, `Model ${model} not found`, "invalid_request_error", "model_not_found");
+    }
+
+    // Provider models are charged to the key's workspace; local models cost nothing
+    const parsed = parseProviderModelId(embeddingModel);
+    let reservation: BudgetReservation | null = null;
+    if (parsed) {
+      const provider = getProviderRegistry().getProvider(parsed.providerId);
+      if (!provider) {
+        return sendError(res, 404, `Model ${model} not found`, "invalid_request_error", "model_not_found");
+      }
+      const promptTokens = (texts as string[]).reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+      ({ reservation } = await reserveRequest(
+        { workspaceId: getGatewayKey(res).workspaceId },
+        [provider],
+        { promptTokens, completionTokens: 0 },
+        { model: parsed.model }
+      ));
+    }
+
+    const startTime = Date.now();
+    let response;
+    try {
+      response = await embeddingEngine.generate({ texts: texts as string[], model: embeddingModel });
+    } catch (error) {
+      if (reservation) await releaseUsage(reservation);
+      throw error;
+    }
+
+    if (reservation && parsed) {
+      await settleUsage(reservation, {
+        kind: "embedding",
+        model: parsed.model,
+        promptTokens: response.usage.totalTokens,
+        completionTokens: 0,
+        latencyMs: Date.now() - startTime,
+      });
+    }
+
+    res.json({
+      object: "list",
+      data: response.embeddings.map((embedding, index) => ({
+        object: "embedding",
+        index,
+        embedding: encoding_format === "base64" ? toBase64Embedding(embedding) : embedding,
       })),
+      model: parsed ? parsed.model : response.model,
       usage: {
-        prompt_tokens: response.usage.promptTokens,
-        completion_tokens: response.usage.completionTokens,
+        prompt_tokens: response.usage.totalTokens,
         total_tokens: response.usage.totalTokens,
       },
-    };
-    
-    res.json(openaiResponse);
-  } catch (error) {
-    res.status(500).json({
-      error: {
-        message: error instanceof Error ? error.message : "Unknown error",
-        type: "server_error",
-      },
     });
+  } catch (error) {
+    sendGenerationError(res, error);
   }
 });
 
@@ -217,36 +436,19 @@ openaiCompatibleRouter.post("/v1/completions", validateApiKey, async (req, res)
  * Get model details
  * GET /v1/models/:model
  */
-openaiCompatibleRouter.get("/v1/models/:model", validateApiKey, async (req, res) => {
+openaiCompatibleRouter.get("/v1/models/:model", validateApiKey, requireScope("models:read"), async (req, res) => {
   try {
     const { model } = req.params;
-    const models = llamaCppEngine.getLoadedModels();
-    const modelInfo = models.find((m: any) => m.modelId === model);
-    
+    const modelInfo = model === AUTO_MODEL
+      ? { id: AUTO_MODEL, object: "model", created: 0, owned_by: "router" }
+      : listGatewayModels().find(m => m.id === model);
+
     if (!modelInfo) {
-      return res.status(404).json({
-        error: {
-          message: `Model ${model} not found`,
-          type: "invalid_request_error",
-        },
-      });
+      return sendError(res, 404, `Model ${model} not found`, "invalid_request_error", "model_not_found");
     }
-    
-    res.json({
-      id: modelInfo.modelId,
-      object: "model",
-      created: Date.now(),
-      owned_by: "local",
-      permission: [],
-      root: modelInfo.modelId,
-      parent: null,
-    });
+
+    res.json(modelInfo);
   } catch (error) {
-    res.status(500).json({
-      error: {
-        message: error instanceof Error ? error.message : "Unknown error",
-        type: "server_error",
-      },
-    });
+    sendError(res, 500, error instanceof Error ? error.message : "Unknown error", "server_error");
   }
 });
@@ -3,6 +3,10 @@
  * Manages automated workflows with triggers
  */
 
+import { isValidTimeZone, nextFireTime, parseCron } from "../scheduler/cron";
+
+const MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
 export type TriggerType = "time" | "event" | "webhook";
 
 export interface AutomationTrigger {
@@ -55,6 +59,19 @@ export interface AutomationRun {
   logs: string[];
 }
 
+/**
+ * Throw on an invalid cron expression or time zone, before the automation is
+ * stored rather than when its timer is set
+ */
+function assertValidTrigger(trigger: AutomationTrigger): void {
+  if (trigger.type !== "time") return;
+  const config = trigger.config as TimeTriggerConfig;
+  parseCron(config.schedule);
+  if (config.timezone && !isValidTimeZone(config.timezone)) {
+    throw new Error(`Invalid time zone: ${config.timezone}`);
+  }
+}
+
 /**
  * Automation Engine
  */
@@ -72,6 +89,7 @@ class AutomationEngine {
     trigger: AutomationTrigger,
     actions: AutomationAction[]
   ): Automation {
+    assertValidTrigger(trigger);
     const automation: Automation = {
       id: `auto-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       name,
@@ -97,27 +115,33 @@ class AutomationEngine {
   }
   
   /**
-   * Schedule time-based automation
+   * Schedule time-based automation on its next cron fire time
    */
   private scheduleAutomation(automation: Automation): void {
     if (automation.trigger.type !== "time") return;
     
     const config = automation.trigger.config as TimeTriggerConfig;
+    const next = nextFireTime(config.schedule, new Date(), config.timezone || "UTC");
+    if (!next) {
+      automation.nextRun = undefined;
+      return;
+    }
     
-    // In production, this would use proper cron scheduling
-    // For now, simulate with simple interval
-    const interval = 60000; // 1 minute
-    
-    const timer = setInterval(() => {
+    // setTimeout overflows past ~24.8 days, so long waits re-check part way
+    const delay = next.getTime() - Date.now();
+    const timer = setTimeout(() => {
+      if (delay > MAX_TIMER_DELAY_MS) {
+        this.scheduleAutomation(automation);
+        return;
+      }
       if (automation.enabled) {
         this.executeAutomation(automation.id);
       }
-    }, interval);
+      this.scheduleAutomation(automation);
+    }, Math.min(delay, MAX_TIMER_DELAY_MS));
     
     this.timers.set(automation.id, timer);
-    
-    // Calculate next run
-    automation.nextRun = Date.now() + interval;
+    automation.nextRun = next.getTime();
   }
   
   /**
@@ -255,6 +279,7 @@ class AutomationEngine {
   ): Automation | null {
     const automation = this.automations.get(automationId);
     if (!automation) return null;
+    if (updates.trigger) assertValidTrigger(updates.trigger);
     
     Object.assign(automation, updates);
     automation.updatedAt = Date.now();
@@ -263,7 +288,7 @@ class AutomationEngine {
     if (updates.trigger && automation.trigger.type === "time") {
       const existingTimer = this.timers.get(automationId);
       if (existingTimer) {
-        clearInterval(existingTimer);
+        clearTimeout(existingTimer);
       }
       this.scheduleAutomation(automation);
     }
@@ -281,7 +306,7 @@ class AutomationEngine {
     // Clear timer if exists
     const timer = this.timers.get(automationId);
     if (timer) {
-      clearInterval(timer);
+      clearTimeout(timer);
       this.timers.delete(automationId);
     }
     
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
-import { WorkflowExecutionEngine } from "./execution-engine";
+import { executionEngine } from "./execution-engine";
 import { validateWorkflow, formatValidationResult } from "./validation";
 import {
   canEditWorkflow,
@@ -17,9 +17,6 @@ import type { Node, Edge } from "reactflow";
 import * as db from "../db";
 import { TRPCError } from "@trpc/server";
 
-// Create singleton execution engine instance
-const executionEngine = new WorkflowExecutionEngine();
-
 /**
  * Automation Router
  * Handles workflow execution and monitoring
@@ -186,7 +183,7 @@ export const automationRouter = router({
     }),
 
   /**
-   * Execute a workflow (with database persistence)
+   * Execute a workflow (queued on the execution engine, persisted in the database)
    */
   executeWorkflow: protectedProcedure
     .input(
@@ -197,156 +194,58 @@ export const automationRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      // Create execution record
-      const executionId = await db.createWorkflowExecution(
-        input.workflowId,
-        ctx.user.id,
-        {
-          versionId: input.versionId,
-          triggerType: "manual",
-          triggerData: input.triggerData,
-        }
-      );
-
-      // Update status to running
-      await db.updateWorkflowExecution(executionId, {
-        status: "running",
-      });
-
-      // Get workflow data
       const workflow = await db.getWorkflowById(input.workflowId, ctx.user.id);
       if (!workflow) {
-        await db.updateWorkflowExecution(executionId, {
-          status: "failed",
-          error: "Workflow not found",
-          completedAt: new Date(),
-        });
         throw new TRPCError({
           code: "NOT_FOUND",
           message: "Workflow not found",
         });
       }
 
-      try {
-        const nodes: Node[] = JSON.parse(workflow.nodes);
-        const edges: Edge[] = JSON.parse(workflow.edges);
-
-        // Import block executors
-        const { executeBlock, topologicalSort } = await import("./block-executors.js");
-
-        // Sort nodes in execution order
-        const sortedNodes = topologicalSort(nodes, edges);
-
-        // Initialize execution context
-        const context = {
-          workflowId: input.workflowId,
-          executionId,
+      const executionId = await executionEngine.submitWorkflow(
+        {
+          id: workflow.id,
+          name: workflow.name,
+          nodes: JSON.parse(workflow.nodes),
+          edges: JSON.parse(workflow.edges),
           userId: ctx.user.id,
-          variables: {},
-        };
-
-        const startTime = Date.now();
-
-        // Execute each node in order
-        for (const node of sortedNodes) {
-          const nodeStartTime = Date.now();
-
-          // Create log entry with running status
-          await db.createExecutionLog(executionId, {
-            nodeId: node.id,
-            nodeType: node.data?.blockType || node.type || "unknown",
-            nodeLabel: node.data?.label || node.id,
-            status: "running",
-            startedAt: new Date(nodeStartTime),
-            completedAt: new Date(),
-            duration: 0,
-            output: null,
-          });
-
-          try {
-            // Execute the block
-            const output = await executeBlock(node, context);
-
-            // Store output in context variables
-            context.variables[node.id] = output;
-
-            const nodeEndTime = Date.now();
-
-            // Update log entry with completed status
-            await db.updateExecutionLog(executionId, node.id, {
-              status: "completed",
-              completedAt: new Date(),
-              duration: nodeEndTime - nodeStartTime,
-              output,
-            });
-          } catch (error: any) {
-            const nodeEndTime = Date.now();
-
-            // Update log entry with failed status
-            await db.updateExecutionLog(executionId, node.id, {
-              status: "failed",
-              completedAt: new Date(),
-              duration: nodeEndTime - nodeStartTime,
-              error: error.message,
-            });
-
-            // Stop execution on error
-            throw error;
-          }
-        }
-
-        const endTime = Date.now();
-
-        // Update execution as completed
-        await db.updateWorkflowExecution(executionId, {
-          status: "completed",
-          completedAt: new Date(),
-          duration: endTime - startTime,
-        });
-
-        return { executionId, status: "completed" };
-      } catch (error: any) {
-        // Update execution as failed
-        await db.updateWorkflowExecution(executionId, {
-          status: "failed",
-          error: error.message,
-          completedAt: new Date(),
-        });
+          versionId: input.versionId,
+        },
+        { triggerType: "manual", triggerData: input.triggerData }
+      );
 
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: `Workflow execution failed: ${error.message}`,
-        });
-      }
+      return { executionId, status: "queued" as const };
     }),
 
   /**
-   * Get execution status
+   * Get live execution status (per-node results) from the engine
    */
   getExecution: protectedProcedure
-    .input(z.object({ executionId: z.string() }))
-    .query(({ input }) => {
+    .input(z.object({ executionId: z.number() }))
+    .query(({ input, ctx }) => {
       const execution = executionEngine.getExecution(input.executionId);
-      if (!execution) {
-        throw new Error("Execution not found");
+      if (!execution || execution.userId !== ctx.user.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Execution not found" });
       }
       return execution;
     }),
 
   /**
-   * Get all executions
+   * Get all executions tracked by the engine
    */
-  getAllExecutions: protectedProcedure.query(() => {
-    return executionEngine.getAllExecutions();
+  getAllExecutions: protectedProcedure.query(({ ctx }) => {
+    return executionEngine.getAllExecutions().filter((e) => e.userId === ctx.user.id);
   }),
 
   /**
    * Get executions by workflow ID
    */
   getExecutionsByWorkflow: protectedProcedure
-    .input(z.object({ workflowId: z.string() }))
-    .query(({ input }) => {
-      return executionEngine.getExecutionsByWorkflow(input.workflowId);
+    .input(z.object({ workflowId: z.number() }))
+    .query(({ input, ctx }) => {
+      return executionEngine
+        .getExecutionsByWorkflow(input.workflowId)
+        .filter((e) => e.userId === ctx.user.id);
     }),
 
   /**
@@ -362,10 +261,61 @@ export const automationRouter = router({
    * Cancel execution
    */
   cancelExecution: protectedProcedure
-    .input(z.object({ executionId: z.string() }))
-    .mutation(async ({ input }) => {
-      await executionEngine.cancelExecution(input.executionId);
-      return { success: true };
+    .input(z.object({ executionId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const execution = await db.getWorkflowExecutionById(input.executionId, ctx.user.id);
+      if (!execution) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Execution not found" });
+      }
+
+      if (await executionEngine.cancelExecution(input.executionId)) {
+        return { success: true };
+      }
+
+      // Not owned by this engine (e.g. the server restarted mid-run)
+      if (["pending", "queued", "running"].includes(execution.status)) {
+        await db.updateWorkflowExecution(input.executionId, {
+          status: "cancelled",
+          completedAt: new Date(),
+          error: "Execution was interrupted",
+        });
+        return { success: true };
+      }
+
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Execution has already finished" });
+    }),
+
+  /**
+   * Run a failed or cancelled execution again with the same trigger data
+   */
+  retryExecution: protectedProcedure
+    .input(z.object({ executionId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const execution = await db.getWorkflowExecutionById(input.executionId, ctx.user.id);
+      if (!execution) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Execution not found" });
+      }
+      if (execution.status !== "failed" && execution.status !== "cancelled") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only failed or cancelled executions can be retried" });
+      }
+
+      const workflow = await db.getWorkflowById(execution.workflowId, ctx.user.id);
+      if (!workflow) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+      }
+
+      const executionId = await executionEngine.submitWorkflow(
+        {
+          id: workflow.id,
+          name: workflow.name,
+          nodes: JSON.parse(workflow.nodes),
+          edges: JSON.parse(workflow.edges),
+          userId: ctx.user.id,
+        },
+        { triggerType: execution.triggerType || "manual", triggerData: execution.triggerData ?? undefined }
+      );
+
+      return { executionId, status: "queued" as const };
     }),
 
   /**
@@ -5,12 +5,31 @@
 
 import { getDb } from "../db.js";
 import { sql } from "drizzle-orm";
+import { evaluateExpression, runScript, sandboxFailure, type SandboxOptions } from "../sandbox/code-sandbox";
+import { AgentRunTrace } from "../agent-runs/service";
+import type { AgentRunSource } from "../../drizzle/schema";
 
 export interface ExecutionContext {
   workflowId: number;
   executionId: number;
   userId: number;
   variables: Record<string, any>;
+  signal?: AbortSignal;
+  // How agent runs started from this context are recorded (defaults to "workflow")
+  agentRun?: { source: AgentRunSource; replayOf?: number };
+}
+
+/**
+ * Sandbox limits for code-bearing blocks; node.data may tighten or raise the defaults
+ */
+function sandboxOptions(node: any, context: ExecutionContext): SandboxOptions {
+  const { cpuLimitMs, memoryLimitMb } = node.data || {};
+  return {
+    context: context.variables,
+    timeoutMs: cpuLimitMs,
+    memoryMb: memoryLimitMb,
+    signal: context.signal,
+  };
 }
 
 /**
@@ -36,10 +55,13 @@ export async function executeTimeTrigger(node: any, context: ExecutionContext):
 export async function executeWebhookTrigger(node: any, context: ExecutionContext): Promise<any> {
   console.log(`[WebhookTrigger] Executing node ${node.id}`);
 
-  // Webhook triggers are event-driven: the workflow engine registers this node
-  // and waits for an incoming HTTP request to the webhook endpoint.
-  // When executed directly (e.g. manual run), use any payload stored on the node.
-  const webhookData = node.data?.webhookPayload || context.variables?.webhookPayload;
+  // Webhook triggers are event-driven: deliveries to the webhook endpoint
+  // (server/webhooks) arrive as the run's trigger variable. When executed
+  // directly (e.g. manual run), use any payload stored on the node.
+  const trigger = context.variables?.trigger;
+  const webhookData = trigger?.source === "webhook"
+    ? trigger
+    : context.variables?.webhookPayload || node.data?.webhookPayload;
 
   return {
     method: webhookData?.method || "POST",
@@ -73,6 +95,7 @@ export async function executeHttpRequest(node: any, context: ExecutionContext):
       method,
       headers,
       body: body ? JSON.stringify(body) : undefined,
+      signal: context.signal,
     });
 
     const data = await response.json().catch(() => response.text());
@@ -189,7 +212,7 @@ export async function executeInvokeAgent(node: any, context: ExecutionContext):
     sql`SELECT * FROM agents WHERE id = ${agentId}`
   );
   
-  const agent = agents[0][0];
+  const agent = (agents.rows ?? agents[0] ?? [])[0];
   if (!agent) {
     throw new Error(`Agent ${agentId} not found`);
   }
@@ -209,31 +232,83 @@ export async function executeInvokeAgent(node: any, context: ExecutionContext):
     };
   }
 
+  const prompt = typeof input === "string" ? input : JSON.stringify(input);
+  const trace = await AgentRunTrace.start({
+    userId: context.userId || null,
+    agentId: agent.id,
+    agentKey: String(agent.id),
+    agentName: agent.name,
+    source: context.agentRun?.source || "workflow",
+    replayOf: context.agentRun?.replayOf,
+    goal: prompt,
+    input: input ?? null,
+  });
+
   try {
     const provider = providers[0];
     const systemPrompt = agent.systemPrompt || `You are ${agent.name}.`;
-    const response = await provider.generate({
+
+    // Agents with tool access get the same native tool loop as chat conversations
+    const { getToolRegistry } = await import("../agents/tools");
+    const { agentBudgetScope, runToolLoop } = await import("../agents/executor");
+    const parseJson = (value: any) => (typeof value === "string" ? JSON.parse(value) : value);
+    const toolRegistry = getToolRegistry();
+    const tools = agent.hasToolAccess
+      ? toolRegistry.toDefinitions(agent.allowedTools ? parseJson(agent.allowedTools) : undefined)
+      : [];
+    const maxIterations = parseJson(agent.limits)?.maxIterations || 10;
+
+    const { response, toolCalls } = await runToolLoop(provider, {
       messages: [
         { role: "system" as const, content: systemPrompt },
-        { role: "user" as const, content: typeof input === "string" ? input : JSON.stringify(input) },
+        { role: "user" as const, content: prompt },
       ],
+      tools: tools.length > 0 ? tools : undefined,
+    }, maxIterations, async ({ provider: turnProvider, response: turn, toolCalls: turnCalls }) => {
+      // One trace step per tool call; the model's thought and usage go on the first
+      const calls = turnCalls.length > 0 ? turnCalls : [null];
+      for (let index = 0; index < calls.length; index++) {
+        const call = calls[index];
+        await trace.recordStep({
+          thought: index === 0 ? turn.content : null,
+          toolName: call?.tool,
+          toolInput: call?.params,
+          observation: call?.result,
+          provider: turnProvider.name,
+          model: turn.model,
+          promptTokens: index === 0 ? turn.usage?.promptTokens : null,
+          completionTokens: index === 0 ? turn.usage?.completionTokens : null,
+          latencyMs: index === 0 ? turn.latencyMs : null,
+        });
+      }
+    }, {
+      // Every turn is charged to the workspace's and agent's usage budgets
+      scope: agentBudgetScope(agent.workspaceId, { id: agent.id, name: agent.name, limits: parseJson(agent.limits) }),
+      alternatives: providers,
     });
 
+    await trace.finish("completed", { result: { output: response.content } });
+
     return {
       agentId,
       agentName: agent.name,
       input,
       output: response.content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
       model: response.model,
       usage: response.usage,
+      runId: trace.runId,
       executedAt: new Date(),
     };
   } catch (error: any) {
+    await trace.finish("failed", { error: error.message });
+
     return {
       agentId,
       agentName: agent.name,
       input,
       output: `Agent execution failed: ${error.message}`,
+      runId: trace.runId,
       executedAt: new Date(),
       error: error.message,
     };
@@ -257,20 +332,16 @@ export async function executeRunCode(node: any, context: ExecutionContext): Prom
   }
   
   try {
-    // Sandboxed execution — block access to dangerous globals
-    const forbidden = /process\.|require\(|import\s|global\.|__dirname|__filename|child_process|fs\.|net\.|http\./;
-    if (forbidden.test(code)) {
-      throw new Error("Code contains disallowed references (process, require, fs, etc.)");
-    }
-    const func = new Function("context", `"use strict"; ${code}`);
-    const result = func(context.variables);
-    
+    const { value, logs, durationMs } = await runScript(code, sandboxOptions(node, context));
+
     return {
-      output: result,
+      output: value,
+      logs,
+      durationMs,
       executedAt: new Date(),
     };
   } catch (error: any) {
-    throw new Error(`Code execution failed: ${error.message}`);
+    throw sandboxFailure("Code execution failed", error);
   }
 }
 
@@ -287,20 +358,15 @@ export async function executeCondition(node: any, context: ExecutionContext): Pr
   }
   
   try {
-    const forbidden = /process\.|require\(|import\s|global\.|child_process|fs\.|net\.|http\./;
-    if (forbidden.test(condition)) {
-      throw new Error("Condition contains disallowed references");
-    }
-    const func = new Function("context", `"use strict"; return ${condition}`);
-    const result = func(context.variables);
-    
+    const { value } = await evaluateExpression(condition, sandboxOptions(node, context));
+
     return {
       condition,
-      result: Boolean(result),
+      result: Boolean(value),
       evaluatedAt: new Date(),
     };
   } catch (error: any) {
-    throw new Error(`Condition evaluation failed: ${error.message}`);
+    throw sandboxFailure("Condition evaluation failed", error);
   }
 }
 
@@ -340,19 +406,14 @@ export async function executeTransformData(node: any, context: ExecutionContext)
   }
   
   try {
-    const forbidden = /process\.|require\(|import\s|global\.|child_process|fs\.|net\.|http\./;
-    if (forbidden.test(transformation)) {
-      throw new Error("Transformation contains disallowed references");
-    }
-    const func = new Function("context", `"use strict"; return ${transformation}`);
-    const result = func(context.variables);
-    
+    const { value } = await evaluateExpression(transformation, sandboxOptions(node, context));
+
     return {
-      transformed: result,
+      transformed: value,
       transformedAt: new Date(),
     };
   } catch (error: any) {
-    throw new Error(`Data transformation failed: ${error.message}`);
+    throw sandboxFailure("Data transformation failed", error);
   }
 }
 
@@ -364,7 +425,13 @@ export async function executeDelay(node: any, context: ExecutionContext): Promis
   
   const { duration = 1000 } = node.data || {};
   
-  await new Promise(resolve => setTimeout(resolve, duration));
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, duration);
+    context.signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new Error("Delay aborted"));
+    }, { once: true });
+  });
   
   return {
     delayed: duration,
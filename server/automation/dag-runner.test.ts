@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { runWorkflowGraph } from "./dag-runner";
+
+const node = (id: string, data: Record<string, any> = {}) => ({ id, type: "workflow", data: { label: id, ...data } });
+const edge = (source: string, target: string, sourceHandle?: string) => ({
+  id: `${source}-${target}`,
+  source,
+  target,
+  sourceHandle,
+});
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new Error("aborted"));
+    });
+  });
+}
+
+describe("runWorkflowGraph", () => {
+  it("should run independent branches in parallel and join them", async () => {
+    const started: string[] = [];
+    let active = 0;
+    let peak = 0;
+
+    const result = await runWorkflowGraph(
+      [node("start"), node("a"), node("b"), node("join")],
+      [edge("start", "a"), edge("start", "b"), edge("a", "join"), edge("b", "join")],
+      async (n, signal) => {
+        started.push(n.id);
+        active++;
+        peak = Math.max(peak, active);
+        await delay(20, signal);
+        active--;
+        return { id: n.id };
+      }
+    );
+
+    expect(result.status).toBe("completed");
+    expect(peak).toBe(2);
+    expect(started[0]).toBe("start");
+    expect(started[3]).toBe("join");
+  });
+
+  it("should prune the branch a condition did not take", async () => {
+    const ran: string[] = [];
+
+    const result = await runWorkflowGraph(
+      [node("check"), node("yes"), node("no"), node("after-no")],
+      [edge("check", "yes", "true"), edge("check", "no", "false"), edge("no", "after-no")],
+      async (n) => {
+        ran.push(n.id);
+        return n.id === "check" ? { condition: "x > 1", result: true } : {};
+      }
+    );
+
+    expect(result.status).toBe("completed");
+    expect(ran).toEqual(["check", "yes"]);
+    expect(result.nodes["no"].status).toBe("skipped");
+    expect(result.nodes["after-no"].status).toBe("skipped");
+  });
+
+  it("should retry a node with backoff and then time out", async () => {
+    let calls = 0;
+    const retries: number[] = [];
+
+    const flaky = await runWorkflowGraph(
+      [node("flaky", { retries: 2, retryBackoffMs: 5 })],
+      [],
+      async () => {
+        if (++calls < 3) throw new Error("boom");
+        return "ok";
+      },
+      { hooks: { onNodeRetry: (_n, attempt, _e, delayMs) => { retries.push(delayMs); } } }
+    );
+
+    expect(flaky.status).toBe("completed");
+    expect(flaky.nodes["flaky"]).toMatchObject({ status: "completed", attempts: 3, output: "ok" });
+    expect(retries).toEqual([5, 10]);
+
+    const slow = await runWorkflowGraph([node("slow", { timeoutMs: 10 })], [], () => new Promise(() => {}));
+    expect(slow.status).toBe("failed");
+    expect(slow.nodes["slow"].error).toBe("Node timed out after 10ms");
+  });
+
+  it("should stop in-flight nodes when cancelled", async () => {
+    const controller = new AbortController();
+    const ran: string[] = [];
+
+    const run = runWorkflowGraph(
+      [node("long"), node("next")],
+      [edge("long", "next")],
+      async (n, signal) => {
+        ran.push(n.id);
+        await delay(10_000, signal);
+      },
+      { signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 10);
+    const result = await run;
+
+    expect(result.status).toBe("cancelled");
+    expect(result.nodes["long"].status).toBe("cancelled");
+    expect(result.nodes["next"]).toBeUndefined();
+    expect(ran).toEqual(["long"]);
+  });
+
+  it("should reject cyclic graphs", async () => {
+    const result = await runWorkflowGraph([node("a"), node("b")], [edge("a", "b"), edge("b", "a")], async () => ({}));
+    expect(result).toMatchObject({ status: "failed", error: "Workflow graph contains a cycle" });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Workflow DAG Runner
+ * Runs a workflow graph node by node as soon as each node's inputs are settled:
+ *   - independent branches run in parallel (up to maxParallel nodes at once)
+ *   - edges leaving a condition node carry a "true"/"false" branch; the branch
+ *     not taken is pruned and nodes reachable only through it are skipped
+ *   - each node gets its own retry/backoff and timeout policy from node.data
+ *   - aborting the signal stops in-flight nodes and nothing new is started
+ */
+
+import { topologicalSort } from "./block-executors";
+
+export type NodeStatus = "pending" | "running" | "completed" | "failed" | "skipped" | "cancelled";
+
+export interface NodeRunPolicy {
+  retries: number;
+  backoffMs: number;
+  backoffMultiplier: number;
+  timeoutMs: number;
+  continueOnError: boolean;
+}
+
+export interface NodeResult {
+  nodeId: string;
+  status: NodeStatus;
+  attempts: number;
+  output?: any;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface DagRunHooks {
+  onNodeStart?: (node: any) => Promise<void> | void;
+  onNodeRetry?: (node: any, attempt: number, error: Error, delayMs: number) => Promise<void> | void;
+  onNodeFinish?: (node: any, result: NodeResult) => Promise<void> | void;
+}
+
+export interface DagRunOptions {
+  signal?: AbortSignal;
+  maxParallel?: number;
+  hooks?: DagRunHooks;
+}
+
+export interface DagRunResult {
+  status: "completed" | "failed" | "cancelled";
+  error?: string;
+  nodes: Record<string, NodeResult>;
+}
+
+export type NodeExecutor = (node: any, signal: AbortSignal) => Promise<any>;
+
+export class NodeTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Node timed out after ${timeoutMs}ms`);
+    this.name = "NodeTimeoutError";
+  }
+}
+
+export class ExecutionCancelledError extends Error {
+  constructor() {
+    super("Execution cancelled");
+    this.name = "ExecutionCancelledError";
+  }
+}
+
+const DEFAULT_MAX_PARALLEL = 4;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_RETRIES = 10;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+const TRUE_BRANCHES = ["true", "yes"];
+const FALSE_BRANCHES = ["false", "no"];
+
+function clamp(value: any, min: number, max: number, fallback: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(n, min), max);
+}
+
+/**
+ * Read a node's retry/timeout settings, falling back to safe defaults
+ */
+export function getNodePolicy(node: any): NodeRunPolicy {
+  const data = node.data || {};
+  return {
+    retries: Math.floor(clamp(data.retries, 0, MAX_RETRIES, 0)),
+    backoffMs: clamp(data.retryBackoffMs, 0, MAX_BACKOFF_MS, 1000),
+    backoffMultiplier: clamp(data.retryBackoffMultiplier, 1, 10, 2),
+    timeoutMs: clamp(data.timeoutMs, 1, 24 * 60 * 60 * 1000, DEFAULT_TIMEOUT_MS),
+    continueOnError: data.continueOnError === true,
+  };
+}
+
+function edgeBranch(edge: any): string | undefined {
+  const branch = edge.sourceHandle ?? edge.data?.branch ?? edge.label;
+  return typeof branch === "string" ? branch.trim().toLowerCase() : undefined;
+}
+
+/**
+ * Whether an edge carries control to its target, given its source's result
+ */
+export function isEdgeTaken(edge: any, source: NodeResult | undefined, policy: NodeRunPolicy): boolean {
+  if (!source) return false;
+  if (source.status === "failed") return policy.continueOnError;
+  if (source.status !== "completed") return false;
+
+  const result = source.output?.result;
+  if (typeof result !== "boolean") return true;
+
+  const branch = edgeBranch(edge);
+  if (branch && TRUE_BRANCHES.includes(branch)) return result;
+  if (branch && FALSE_BRANCHES.includes(branch)) return !result;
+  return true;
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new ExecutionCancelledError();
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run one attempt of a node, rejecting on timeout or cancellation even if the
+ * executor itself ignores the signal
+ */
+async function runAttempt(node: any, execute: NodeExecutor, timeoutMs: number, parent: AbortSignal): Promise<any> {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(abortReason(parent));
+  parent.addEventListener("abort", onParentAbort, { once: true });
+  const timer = setTimeout(() => controller.abort(new NodeTimeoutError(timeoutMs)), timeoutMs);
+
+  try {
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(abortReason(controller.signal)), { once: true });
+    });
+    return await Promise.race([execute(node, controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    parent.removeEventListener("abort", onParentAbort);
+  }
+}
+
+async function callHook(name: string, fn: () => Promise<void> | void): Promise<void> {
+  try {
+    await fn();
+  } catch (error) {
+    console.error(`[WorkflowEngine] ${name} hook failed:`, error);
+  }
+}
+
+async function runNode(
+  node: any,
+  execute: NodeExecutor,
+  signal: AbortSignal,
+  hooks: DagRunHooks
+): Promise<NodeResult> {
+  const policy = getNodePolicy(node);
+  const result: NodeResult = { nodeId: node.id, status: "running", attempts: 0, startedAt: new Date() };
+  await callHook("onNodeStart", () => hooks.onNodeStart?.(node));
+
+  for (let attempt = 1; attempt <= policy.retries + 1; attempt++) {
+    result.attempts = attempt;
+    try {
+      result.output = await runAttempt(node, execute, policy.timeoutMs, signal);
+      result.status = "completed";
+      break;
+    } catch (error: any) {
+      result.error = error?.message || String(error);
+      if (signal.aborted) {
+        result.status = "cancelled";
+        break;
+      }
+      if (attempt > policy.retries) {
+        result.status = "failed";
+        break;
+      }
+
+      const delayMs = Math.min(policy.backoffMs * Math.pow(policy.backoffMultiplier, attempt - 1), MAX_BACKOFF_MS);
+      await callHook("onNodeRetry", () => hooks.onNodeRetry?.(node, attempt, error, delayMs));
+      try {
+        await sleep(delayMs, signal);
+      } catch {
+        result.status = "cancelled";
+        break;
+      }
+    }
+  }
+
+  if (result.status === "completed") delete result.error;
+  result.completedAt = new Date();
+  await callHook("onNodeFinish", () => hooks.onNodeFinish?.(node, result));
+  return result;
+}
+
+/**
+ * Run a workflow graph to completion, failure or cancellation
+ */
+export async function runWorkflowGraph(
+  nodes: any[],
+  edges: any[],
+  execute: NodeExecutor,
+  options: DagRunOptions = {}
+): Promise<DagRunResult> {
+  const hooks = options.hooks || {};
+  const maxParallel = Math.max(1, options.maxParallel ?? DEFAULT_MAX_PARALLEL);
+  const results: Record<string, NodeResult> = {};
+
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const validEdges = edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+  if (topologicalSort(nodes, validEdges).length !== nodes.length) {
+    return { status: "failed", error: "Workflow graph contains a cycle", nodes: results };
+  }
+
+  const policies = new Map(nodes.map(node => [node.id, getNodePolicy(node)]));
+  const incoming = new Map<string, any[]>(nodes.map(node => [node.id, []]));
+  for (const edge of validEdges) {
+    incoming.get(edge.target)!.push(edge);
+  }
+
+  // Internal controller so a failed node can stop its siblings too
+  const controller = new AbortController();
+  const onExternalAbort = () => controller.abort(abortReason(options.signal!));
+  if (options.signal?.aborted) onExternalAbort();
+  options.signal?.addEventListener("abort", onExternalAbort, { once: true });
+
+  const pending = new Map(nodes.map(node => [node.id, node]));
+  const inFlight = new Map<string, Promise<void>>();
+  let failure: string | undefined;
+
+  const isSettled = (nodeId: string) => !pending.has(nodeId) && !inFlight.has(nodeId);
+
+  // Start every ready node and skip every node whose inputs were all pruned
+  const schedule = async () => {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [nodeId, node] of Array.from(pending)) {
+        const inputs = incoming.get(nodeId)!;
+        if (!inputs.every(edge => isSettled(edge.source))) continue;
+
+        const live = inputs.length === 0 || inputs.some(edge =>
+          isEdgeTaken(edge, results[edge.source], policies.get(edge.source)!)
+        );
+
+        if (!live) {
+          pending.delete(nodeId);
+          results[nodeId] = { nodeId, status: "skipped", attempts: 0, completedAt: new Date() };
+          await callHook("onNodeFinish", () => hooks.onNodeFinish?.(node, results[nodeId]));
+          changed = true;
+          continue;
+        }
+
+        if (inFlight.size >= maxParallel) continue;
+
+        pending.delete(nodeId);
+        results[nodeId] = { nodeId, status: "running", attempts: 0 };
+        inFlight.set(nodeId, runNode(node, execute, controller.signal, hooks).then(result => {
+          results[nodeId] = result;
+          inFlight.delete(nodeId);
+          if (result.status === "failed" && !policies.get(nodeId)!.continueOnError && !failure) {
+            failure = `Node "${node.data?.label || nodeId}" failed: ${result.error}`;
+            controller.abort(new Error(failure));
+          }
+        }));
+      }
+    }
+  };
+
+  try {
+    while (true) {
+      if (!controller.signal.aborted) await schedule();
+      if (inFlight.size === 0) break;
+      await Promise.race(inFlight.values());
+    }
+  } finally {
+    options.signal?.removeEventListener("abort", onExternalAbort);
+  }
+
+  if (failure) return { status: "failed", error: failure, nodes: results };
+  if (options.signal?.aborted) return { status: "cancelled", error: "Execution cancelled", nodes: results };
+  return { status: "completed", nodes: results };
+}
@@ -1,30 +1,41 @@
 /**
  * Workflow Execution Engine
- * Executes automation workflows with job queue, retry logic, and logging
+ * Executes automation workflows with job queue, per-node retry logic, and logging.
+ * Executions are persisted in workflow_executions; each node's outcome is written
+ * to workflow_execution_logs as the DAG runner reports it.
  */
 
 import type { Node, Edge } from "reactflow";
+import * as db from "../db";
+import { executeBlock, type ExecutionContext } from "./block-executors";
+import {
+  ExecutionCancelledError,
+  runWorkflowGraph,
+  type DagRunResult,
+  type NodeResult,
+} from "./dag-runner";
 
 export interface WorkflowDefinition {
-  id: string;
+  id: number;
   name: string;
   nodes: Node[];
   edges: Edge[];
-  createdBy: string;
-  createdAt: Date;
+  userId: number;
+  versionId?: number;
 }
 
 export interface WorkflowExecution {
-  id: string;
-  workflowId: string;
+  id: number;
+  workflowId: number;
   workflowName: string;
+  userId: number;
   status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  queuedAt: Date;
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
   logs: ExecutionLog[];
-  retryCount: number;
-  maxRetries: number;
+  nodes: Record<string, NodeResult>;
 }
 
 export interface ExecutionLog {
@@ -36,51 +47,75 @@ export interface ExecutionLog {
 }
 
 export interface JobQueueItem {
-  executionId: string;
-  workflowId: string;
+  executionId: number;
+  workflow: WorkflowDefinition;
+  triggerData?: any;
   priority: number;
   scheduledFor?: Date;
   addedAt: Date;
 }
 
+export interface SubmitOptions {
+  triggerType?: "time" | "event" | "webhook" | "manual";
+  triggerData?: any;
+  priority?: number;
+  scheduledFor?: Date;
+}
+
+// Finished executions kept in memory for live status; the database has the rest
+const MAX_TRACKED_EXECUTIONS = 500;
+
+function nodeLabel(node: any): string {
+  return node.data?.label || node.id;
+}
+
+function nodeType(node: any): string {
+  return node.data?.blockType || node.type || "unknown";
+}
+
 /**
  * Workflow Execution Engine
  */
 export class WorkflowExecutionEngine {
-  private executions: Map<string, WorkflowExecution> = new Map();
+  private executions: Map<number, WorkflowExecution> = new Map();
   private queue: JobQueueItem[] = [];
-  private running: Set<string> = new Set();
+  private running: Set<number> = new Set();
+  private controllers: Map<number, AbortController> = new Map();
+  private wakeTimer: NodeJS.Timeout | null = null;
   private maxConcurrent = 5;
 
   /**
-   * Submit a workflow for execution
+   * Submit a workflow for execution; returns the persisted execution id
    */
-  async submitWorkflow(
-    workflow: WorkflowDefinition,
-    priority = 5,
-    scheduledFor?: Date
-  ): Promise<string> {
-    const executionId = `exec-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-    // Create execution record
+  async submitWorkflow(workflow: WorkflowDefinition, options: SubmitOptions = {}): Promise<number> {
+    const executionId = await db.createWorkflowExecution(workflow.id, workflow.userId, {
+      versionId: workflow.versionId,
+      triggerType: options.triggerType || "manual",
+      triggerData: options.triggerData,
+    });
+    await db.updateWorkflowExecution(executionId, { status: "queued" });
+
     const execution: WorkflowExecution = {
       id: executionId,
       workflowId: workflow.id,
       workflowName: workflow.name,
+      userId: workflow.userId,
       status: "queued",
+      queuedAt: new Date(),
       logs: [],
-      retryCount: 0,
-      maxRetries: 3,
+      nodes: {},
     };
 
     this.executions.set(executionId, execution);
+    this.pruneExecutions();
 
     // Add to queue
     const queueItem: JobQueueItem = {
       executionId,
-      workflowId: workflow.id,
-      priority,
-      scheduledFor,
+      workflow,
+      triggerData: options.triggerData,
+      priority: options.priority ?? 5,
+      scheduledFor: options.scheduledFor,
       addedAt: new Date(),
     };
 
@@ -98,127 +133,216 @@ export class WorkflowExecutionEngine {
   /**
    * Process the job queue
    */
-  private async processQueue(): Promise<void> {
-    // Check if we can run more jobs
-    if (this.running.size >= this.maxConcurrent) {
-      return;
-    }
-
-    // Find next job to run
-    const now = new Date();
-    const nextJob = this.queue.find(
-      (job) =>
-        !this.running.has(job.executionId) &&
-        (!job.scheduledFor || job.scheduledFor <= now)
-    );
+  private processQueue(): void {
+    while (this.running.size < this.maxConcurrent) {
+      // Find next job to run
+      const now = new Date();
+      const nextJob = this.queue.find((job) => !job.scheduledFor || job.scheduledFor <= now);
+
+      if (!nextJob) {
+        this.scheduleWake();
+        return;
+      }
 
-    if (!nextJob) {
-      return;
+      // Remove from queue and mark as running
+      this.queue = this.queue.filter((j) => j.executionId !== nextJob.executionId);
+      this.running.add(nextJob.executionId);
+
+      this.executeWorkflow(nextJob)
+        .catch((error) => console.error(`[WorkflowEngine] Execution ${nextJob.executionId} crashed:`, error))
+        .finally(() => {
+          this.running.delete(nextJob.executionId);
+          this.controllers.delete(nextJob.executionId);
+          // Process next job
+          setTimeout(() => this.processQueue(), 0);
+        });
     }
+  }
 
-    // Remove from queue and mark as running
-    this.queue = this.queue.filter((j) => j.executionId !== nextJob.executionId);
-    this.running.add(nextJob.executionId);
+  /**
+   * Wake up for the earliest job scheduled in the future
+   */
+  private scheduleWake(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
 
-    // Execute workflow
-    this.executeWorkflow(nextJob.executionId).finally(() => {
-      this.running.delete(nextJob.executionId);
-      // Process next job
-      setTimeout(() => this.processQueue(), 100);
-    });
+    const next = this.queue
+      .filter((job) => job.scheduledFor)
+      .reduce<number | null>((min, job) => {
+        const at = job.scheduledFor!.getTime();
+        return min === null || at < min ? at : min;
+      }, null);
+    if (next === null) return;
+
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.processQueue();
+    }, Math.max(0, next - Date.now()));
+    this.wakeTimer.unref?.();
   }
 
   /**
-   * Execute a workflow
+   * Execute a workflow graph
    */
-  private async executeWorkflow(executionId: string): Promise<void> {
+  private async executeWorkflow(job: JobQueueItem): Promise<void> {
+    const { executionId, workflow } = job;
     const execution = this.executions.get(executionId);
     if (!execution) {
       throw new Error(`Execution ${executionId} not found`);
     }
 
-    try {
-      // Update status
-      execution.status = "running";
-      execution.startedAt = new Date();
-      this.log(executionId, "info", "Starting workflow execution");
+    const controller = new AbortController();
+    this.controllers.set(executionId, controller);
 
-      // Simulate workflow execution (in production, this would execute actual nodes)
-      await this.simulateWorkflowExecution(executionId);
+    execution.status = "running";
+    execution.startedAt = new Date();
+    this.log(executionId, "info", "Starting workflow execution");
 
-      // Mark as completed
-      execution.status = "completed";
-      execution.completedAt = new Date();
-      this.log(executionId, "info", "Workflow completed successfully");
+    const context: ExecutionContext = {
+      workflowId: workflow.id,
+      executionId,
+      userId: workflow.userId,
+      variables: job.triggerData !== undefined ? { trigger: job.triggerData } : {},
+    };
+
+    let result: DagRunResult;
+    try {
+      await db.updateWorkflowExecution(executionId, { status: "running" });
+      result = await runWorkflowGraph(
+        workflow.nodes,
+        workflow.edges,
+        (node, signal) => executeBlock(node, { ...context, signal }),
+        {
+          signal: controller.signal,
+          hooks: {
+            onNodeStart: async (node) => {
+              this.log(executionId, "info", `Executing node "${nodeLabel(node)}"`, node.id);
+              await db.createExecutionLog(executionId, {
+                nodeId: node.id,
+                nodeType: nodeType(node),
+                nodeLabel: nodeLabel(node),
+                status: "running",
+                startedAt: new Date(),
+              });
+            },
+            onNodeRetry: async (node, attempt, error, delayMs) => {
+              const message = `Attempt ${attempt} failed: ${error.message}; retrying in ${delayMs}ms`;
+              this.log(executionId, "warn", `Node "${nodeLabel(node)}": ${message}`, node.id);
+              await db.updateExecutionLog(executionId, node.id, {
+                logLevel: "warn",
+                message,
+                attempts: attempt + 1,
+              });
+            },
+            onNodeFinish: async (node, nodeResult) => {
+              execution.nodes[node.id] = nodeResult;
+              if (nodeResult.status === "completed") {
+                context.variables[node.id] = nodeResult.output;
+              }
+              await this.recordNodeResult(executionId, node, nodeResult);
+            },
+          },
+        }
+      );
     } catch (error: any) {
-      this.log(executionId, "error", `Workflow failed: ${error.message}`);
-
-      // Retry logic
-      if (execution.retryCount < execution.maxRetries) {
-        execution.retryCount++;
-        execution.status = "queued";
-        this.log(
-          executionId,
-          "warn",
-          `Retrying workflow (attempt ${execution.retryCount}/${execution.maxRetries})`
-        );
-
-        // Re-queue with higher priority
-        this.queue.push({
-          executionId,
-          workflowId: execution.workflowId,
-          priority: 10,
-          addedAt: new Date(),
-        });
-        this.queue.sort((a, b) => b.priority - a.priority);
-      } else {
-        execution.status = "failed";
-        execution.completedAt = new Date();
-        execution.error = error.message;
-        this.log(executionId, "error", "Workflow failed after max retries");
-      }
+      result = { status: "failed", error: error?.message || String(error), nodes: execution.nodes };
     }
+
+    const completedAt = new Date();
+    execution.status = result.status;
+    execution.completedAt = completedAt;
+    execution.error = result.error;
+
+    await db.updateWorkflowExecution(executionId, {
+      status: result.status,
+      completedAt,
+      duration: completedAt.getTime() - execution.startedAt.getTime(),
+      error: result.error,
+    });
+
+    const level = result.status === "completed" ? "info" : result.status === "cancelled" ? "warn" : "error";
+    this.log(executionId, level, result.error ? `Workflow ${result.status}: ${result.error}` : `Workflow ${result.status}`);
   }
 
   /**
-   * Simulate workflow execution (placeholder for actual execution logic)
+   * Persist a node's final state
    */
-  private async simulateWorkflowExecution(executionId: string): Promise<void> {
-    const execution = this.executions.get(executionId);
-    if (!execution) return;
-
-    // Simulate processing steps
-    const steps = ["Initialize", "Process Data", "Execute Actions", "Finalize"];
-
-    for (const step of steps) {
-      this.log(executionId, "info", `Executing step: ${step}`);
-      await this.sleep(500); // Simulate work
+  private async recordNodeResult(executionId: number, node: any, result: NodeResult): Promise<void> {
+    const level = result.status === "failed" ? "error" : result.status === "completed" ? "info" : "warn";
+    const message =
+      result.status === "skipped"
+        ? "Skipped: no incoming branch was taken"
+        : result.attempts > 1
+          ? `${result.status} after ${result.attempts} attempts`
+          : result.status;
+    this.log(executionId, level, `Node "${nodeLabel(node)}" ${message}`, node.id);
+
+    if (result.status === "skipped") {
+      // Skipped nodes never started, so they have no log row yet
+      await db.createExecutionLog(executionId, {
+        nodeId: node.id,
+        nodeType: nodeType(node),
+        nodeLabel: nodeLabel(node),
+        status: "skipped",
+        logLevel: "warn",
+        message,
+        completedAt: result.completedAt,
+        duration: 0,
+      });
+      return;
     }
+
+    await db.updateExecutionLog(executionId, node.id, {
+      status: result.status === "running" ? "failed" : result.status,
+      output: result.output,
+      error: result.error,
+      logLevel: level,
+      message,
+      attempts: Math.max(1, result.attempts),
+      completedAt: result.completedAt,
+      duration: result.startedAt && result.completedAt
+        ? result.completedAt.getTime() - result.startedAt.getTime()
+        : undefined,
+    });
   }
 
   /**
-   * Cancel a workflow execution
+   * Cancel a workflow execution. Queued executions are dropped; running ones
+   * have their in-flight nodes aborted. Returns false if the engine does not
+   * own an active execution with this id.
    */
-  async cancelExecution(executionId: string): Promise<void> {
+  async cancelExecution(executionId: number): Promise<boolean> {
     const execution = this.executions.get(executionId);
-    if (!execution) {
-      throw new Error(`Execution ${executionId} not found`);
-    }
+    if (!execution) return false;
 
-    if (execution.status === "running" || execution.status === "queued") {
+    if (execution.status === "queued") {
+      this.queue = this.queue.filter((j) => j.executionId !== executionId);
       execution.status = "cancelled";
       execution.completedAt = new Date();
-      this.log(executionId, "warn", "Workflow execution cancelled");
+      this.log(executionId, "warn", "Workflow execution cancelled before it started");
+      await db.updateWorkflowExecution(executionId, {
+        status: "cancelled",
+        completedAt: execution.completedAt,
+        error: "Execution cancelled",
+      });
+      return true;
+    }
 
-      // Remove from queue if queued
-      this.queue = this.queue.filter((j) => j.executionId !== executionId);
+    if (execution.status === "running") {
+      this.log(executionId, "warn", "Cancelling workflow execution");
+      this.controllers.get(executionId)?.abort(new ExecutionCancelledError());
+      return true;
     }
+
+    return false;
   }
 
   /**
    * Get execution status
    */
-  getExecution(executionId: string): WorkflowExecution | undefined {
+  getExecution(executionId: number): WorkflowExecution | undefined {
     return this.executions.get(executionId);
   }
 
@@ -227,23 +351,21 @@ export class WorkflowExecutionEngine {
    */
   getAllExecutions(): WorkflowExecution[] {
     return Array.from(this.executions.values()).sort(
-      (a, b) => (b.startedAt?.getTime() || 0) - (a.startedAt?.getTime() || 0)
+      (a, b) => b.queuedAt.getTime() - a.queuedAt.getTime()
     );
   }
 
   /**
    * Get executions by workflow ID
    */
-  getExecutionsByWorkflow(workflowId: string): WorkflowExecution[] {
-    return Array.from(this.executions.values())
-      .filter((e) => e.workflowId === workflowId)
-      .sort((a, b) => (b.startedAt?.getTime() || 0) - (a.startedAt?.getTime() || 0));
+  getExecutionsByWorkflow(workflowId: number): WorkflowExecution[] {
+    return this.getAllExecutions().filter((e) => e.workflowId === workflowId);
   }
 
   /**
    * Get execution logs
    */
-  getLogs(executionId: string): ExecutionLog[] {
+  getLogs(executionId: number): ExecutionLog[] {
     const execution = this.executions.get(executionId);
     return execution?.logs || [];
   }
@@ -252,7 +374,7 @@ export class WorkflowExecutionEngine {
    * Add log entry
    */
   private log(
-    executionId: string,
+    executionId: number,
     level: "info" | "warn" | "error",
     message: string,
     nodeId?: string,
@@ -270,14 +392,22 @@ export class WorkflowExecutionEngine {
     };
 
     execution.logs.push(logEntry);
-    console.log(`[WorkflowEngine][${level.toUpperCase()}] ${message}`);
+    console.log(`[WorkflowEngine][${level.toUpperCase()}] #${executionId} ${message}`);
   }
 
   /**
-   * Sleep utility
+   * Forget the oldest finished executions once too many are tracked
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private pruneExecutions(): void {
+    if (this.executions.size <= MAX_TRACKED_EXECUTIONS) return;
+
+    const finished = this.getAllExecutions()
+      .filter((e) => e.status !== "queued" && e.status !== "running")
+      .reverse();
+    for (const execution of finished) {
+      if (this.executions.size <= MAX_TRACKED_EXECUTIONS) break;
+      this.executions.delete(execution.id);
+    }
   }
 
   /**
@@ -0,0 +1,68 @@
+/**
+ * Chat Attachments
+ * Resolves document references in multimodal chat messages into text the
+ * provider adapters can send as-is. Images are left to the adapters, once
+ * their upload keys are known to belong to the caller.
+ */
+
+import { getDocumentById, getDocumentChunks } from '../documents/db';
+import { hasWorkspaceAccess } from '../db';
+import { getStorageKeyOwner } from '../providers/content';
+import type { ContentPart, Message } from '../providers/types';
+
+// Keep inlined documents from crowding out the rest of the context window
+const MAX_DOCUMENT_CHARS = 20000;
+
+async function resolveDocumentPart(part: ContentPart, userId: number): Promise<ContentPart> {
+  if (part.type !== 'document' || part.text || !part.documentId) {
+    return part;
+  }
+
+  const document = await getDocumentById(part.documentId);
+  if (!document || !(await hasWorkspaceAccess(userId, document.workspaceId))) {
+    throw new Error(`Document ${part.documentId} not found`);
+  }
+
+  // Parent chunks repeat their children's text
+  const chunks = (await getDocumentChunks(document.id)).filter(chunk => !chunk.isParent);
+  const body = chunks.map(chunk => chunk.content).join('\n\n').slice(0, MAX_DOCUMENT_CHARS);
+  const name = part.name || document.title || document.filename;
+
+  return {
+    ...part,
+    name,
+    text: body ? `[Document: ${name}]\n${body}` : `[Document: ${name}] (not yet processed)`,
+  };
+}
+
+async function checkImagePart(part: ContentPart, userId: number): Promise<ContentPart> {
+  if (part.type !== 'image' || !part.storageKey) {
+    return part;
+  }
+
+  const owner = getStorageKeyOwner(part.storageKey);
+  const allowed = owner !== null && ('userId' in owner
+    ? owner.userId === userId
+    : await hasWorkspaceAccess(userId, owner.workspaceId));
+  if (!allowed) {
+    throw new Error(`Attachment ${part.name || part.storageKey} not found`);
+  }
+  return part;
+}
+
+/**
+ * Replace document references with the document's extracted text, and refuse
+ * uploaded images from another user or a workspace the user isn't in
+ */
+export async function resolveAttachmentParts(messages: Message[], userId: number): Promise<Message[]> {
+  return Promise.all(messages.map(async message => {
+    if (!Array.isArray(message.content)) {
+      return message;
+    }
+
+    return {
+      ...message,
+      content: await Promise.all(message.content.map(async part => resolveDocumentPart(await checkImagePart(part, userId), userId))),
+    };
+  }));
+}
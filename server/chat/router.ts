@@ -1,124 +1,15 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
 import { getProviderRegistry } from "../providers/registry";
-import type { Message } from "../providers/types";
-import { trackProviderUsage } from "../providers/usage";
-import { getDb } from "../db";
+import { getDb, hasWorkspaceAccess } from "../db";
+import { providerRouter } from "../inference/provider-router";
+import { recordRoutingFeedback } from "../inference/adaptive-routing";
+import { getRoutingAuditByRequestId } from "../inference/adaptive-routing-db";
 import { conversations, messages as messagesTable } from "../../drizzle/schema";
 import { eq } from "drizzle-orm";
 
 export const chatRouter = router({
-  // Send a message and get a response from the selected provider
-  sendMessage: protectedProcedure
-    .input(z.object({
-      providerId: z.number(),
-      messages: z.array(z.object({
-        role: z.enum(["system", "user", "assistant"]),
-        content: z.string(),
-      })),
-      conversationId: z.number().optional(),
-      temperature: z.number().min(0).max(2).optional(),
-      maxTokens: z.number().min(1).max(128000).optional(),
-      useRAG: z.boolean().optional(),
-      workspaceId: z.number().optional(),
-    }))
-    .mutation(async ({ input, ctx }) => {
-      const registry = getProviderRegistry();
-      const provider = registry.getProvider(input.providerId);
-
-      if (!provider) {
-        throw new Error(`Provider with ID ${input.providerId} not found`);
-      }
-
-      // Convert messages to provider format
-      let messages: Message[] = input.messages.map(m => ({
-        role: m.role,
-        content: m.content,
-      }));
-
-      // If RAG is enabled, retrieve relevant context
-      if (input.useRAG && input.workspaceId) {
-        const lastUserMessage = messages.filter(m => m.role === 'user').pop();
-        if (lastUserMessage) {
-          try {
-            const { qdrantService } = await import('../vectordb/qdrant-service');
-            const { embeddingEngine } = await import('../embeddings/embedding-engine');
-            
-            // Generate embedding for query
-            const queryEmbedding = await embeddingEngine.generate({
-              texts: [lastUserMessage.content],
-            });
-            
-            // Search for relevant context
-            const searchResults = await qdrantService.search({
-              collection: `workspace-${input.workspaceId}`,
-              query: queryEmbedding.embeddings[0]!,
-              limit: 5,
-            });
-            
-            // Add context to messages
-            if (searchResults.length > 0) {
-              const contextText = searchResults
-                .map((result, i) => `[${i + 1}] ${result.payload.text}`)
-                .join('\n\n');
-              
-              messages.unshift({
-                role: 'system',
-                content: `You are a helpful assistant. Use the following context to answer the user's question:\n\n${contextText}\n\nIf the context doesn't contain relevant information, say so and answer based on your general knowledge.`,
-              });
-            }
-          } catch (error) {
-            console.error('[Chat] RAG retrieval failed:', error);
-            // Continue without RAG if retrieval fails
-          }
-        }
-      }
-
-      // Generate response
-      const startTime = Date.now();
-      const response = await provider.generate({
-        messages,
-        temperature: input.temperature,
-        maxTokens: input.maxTokens,
-      });
-      const latencyMs = Date.now() - startTime;
-
-      // Track usage
-      if (response.usage) {
-        const totalTokens = (response.usage.promptTokens || 0) + (response.usage.completionTokens || 0);
-
-        // Calculate cost (simplified - should use provider-specific pricing)
-        const costPer1kTokens = 0.002; // Default cost
-        const cost = (totalTokens / 1000) * costPer1kTokens;
-
-        // Resolve workspace ID from input or user's first workspace
-        let wsId = input.workspaceId;
-        if (!wsId) {
-          const { getUserWorkspaces } = await import("../db");
-          const userWorkspaces = await getUserWorkspaces(ctx.user.id);
-          wsId = userWorkspaces[0]?.id ?? 1;
-        }
-
-        await trackProviderUsage({
-          workspaceId: wsId,
-          providerId: input.providerId,
-          modelName: response.model || "unknown",
-          tokensUsed: totalTokens,
-          cost,
-          latencyMs,
-        });
-      }
-
-      // TODO: Save conversation and message to database
-
-      return {
-        content: response.content,
-        usage: response.usage,
-        model: response.model,
-        finishReason: response.finishReason,
-      };
-    }),
-
   // List all conversations
   listConversations: protectedProcedure
     .query(async ({ ctx }) => {
@@ -148,6 +39,32 @@ export const chatRouter = router({
       return { success: true };
     }),
 
+  // Thumbs up/down on a response served through unified routing; adaptive
+  // routing counts it for the provider that actually answered
+  rateResponse: protectedProcedure
+    .input(z.object({
+      requestId: z.string().min(1).max(64),
+      rating: z.enum(["up", "down"]),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const audit = await getRoutingAuditByRequestId(input.requestId);
+      if (!audit || !audit.workspaceId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Routed response not found" });
+      }
+      if (!(await hasWorkspaceAccess(ctx.user.id, audit.workspaceId))) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+      }
+
+      await recordRoutingFeedback({
+        workspaceId: audit.workspaceId,
+        providerId: audit.actualProviderId,
+        requestId: input.requestId,
+        userId: ctx.user.id,
+        rating: input.rating === "up" ? 1 : -1,
+      });
+      return { success: true };
+    }),
+
   // Get available providers for chat
   getAvailableProviders: protectedProcedure
     .query(async () => {
@@ -162,92 +79,6 @@ export const chatRouter = router({
       }));
     }),
 
-  // Send a message with streaming response (returns async generator)
-  sendMessageStream: protectedProcedure
-    .input(z.object({
-      providerId: z.number(),
-      messages: z.array(z.object({
-        role: z.enum(["system", "user", "assistant"]),
-        content: z.string(),
-      })),
-      conversationId: z.number().optional(),
-      temperature: z.number().min(0).max(2).optional(),
-      maxTokens: z.number().min(1).max(128000).optional(),
-    }))
-    .mutation(async ({ input, ctx }) => {
-      const registry = getProviderRegistry();
-      const provider = registry.getProvider(input.providerId);
-
-      if (!provider) {
-        throw new Error(`Provider with ID ${input.providerId} not found`);
-      }
-
-      // Convert messages to provider format
-      const messages: Message[] = input.messages.map(m => ({
-        role: m.role,
-        content: m.content,
-      }));
-
-      const startTime = Date.now();
-      let fullContent = '';
-      let tokenCount = 0;
-
-      try {
-        // Collect all tokens from the stream
-        for await (const token of provider.generateStream({
-          messages,
-          temperature: input.temperature,
-          maxTokens: input.maxTokens,
-        })) {
-          if (!token.isComplete) {
-            fullContent += token.content;
-            tokenCount++;
-          }
-        }
-
-        const latencyMs = Date.now() - startTime;
-        
-        // Estimate token usage (rough approximation)
-        const promptTokens = Math.ceil(input.messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
-        const completionTokens = tokenCount;
-        const totalTokens = promptTokens + completionTokens;
-
-        // Get cost from provider
-        const costProfile = provider.getCostPerToken();
-        const cost = (
-          (promptTokens / 1000) * costProfile.inputCostPer1kTokens +
-          (completionTokens / 1000) * costProfile.outputCostPer1kTokens
-        );
-
-        // Resolve workspace ID from user's first workspace
-        const { getUserWorkspaces } = await import("../db");
-        const userWorkspaces = await getUserWorkspaces(ctx.user.id);
-        const wsId = userWorkspaces[0]?.id ?? 1;
-
-        // Track usage
-        await trackProviderUsage({
-          workspaceId: wsId,
-          providerId: input.providerId,
-          modelName: provider.name || "streaming-model",
-          tokensUsed: totalTokens,
-          cost,
-          latencyMs,
-        });
-
-        return {
-          content: fullContent,
-          usage: {
-            promptTokens,
-            completionTokens,
-            totalTokens,
-          },
-        };
-      } catch (error) {
-        console.error('[ChatRouter] Streaming error:', error);
-        throw error;
-      }
-    }),
-
   // Save a full conversation (title + messages) to the database
   saveConversation: protectedProcedure
     .input(z.object({
@@ -292,12 +123,13 @@ export const chatRouter = router({
       return { saved: true, conversationId: conv.id };
     }),
 
-  // Test provider connection
+  // Test provider connection, through the router so the test is budgeted and
+  // counted by the provider's circuit breaker like any other request
   testProvider: protectedProcedure
     .input(z.object({
       providerId: z.number(),
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       const registry = getProviderRegistry();
       const provider = registry.getProvider(input.providerId);
 
@@ -305,13 +137,22 @@ export const chatRouter = router({
         throw new Error(`Provider with ID ${input.providerId} not found`);
       }
 
+      const { getUserWorkspaces } = await import("../db");
+      const workspaceId = (await getUserWorkspaces(ctx.user.id))[0]?.id;
+      if (!workspaceId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A workspace is required to charge the test to" });
+      }
+
       try {
         // Send a simple test message
-        const response = await provider.generate({
+        const { response } = await providerRouter.execute({
           messages: [
             { role: "user", content: "Hello! Please respond with 'Connection successful.'" }
           ],
           maxTokens: 50,
+          workspaceId,
+          providerId: input.providerId,
+          cache: false,
         });
 
         return {
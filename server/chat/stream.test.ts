@@ -4,6 +4,9 @@ import { handleChatStream } from './stream';
 import { getProviderRegistry } from '../providers/registry';
 import { OpenAIProvider } from '../providers/openai';
 import type { ProviderConfig } from '../providers/types';
+import { checkBudgets } from '../providers/budgets';
+import { circuitBreakers } from '../inference/circuit-breaker';
+import { lookupResponseCache } from '../inference/response-cache';
 
 // Mock dependencies
 vi.mock('../_core/sdk', () => ({
@@ -12,8 +15,25 @@ vi.mock('../_core/sdk', () => ({
   },
 }));
 
-vi.mock('../providers/usage', () => ({
-  trackProviderUsage: vi.fn(),
+vi.mock('../db', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../db')>()),
+  getUserWorkspaces: vi.fn(async () => [{ id: 1 }]),
+  hasWorkspaceAccess: vi.fn(async () => true),
+}));
+
+vi.mock('../inference/response-cache', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../inference/response-cache')>()),
+  lookupResponseCache: vi.fn(async () => ({ hit: null, context: null })),
+}));
+
+vi.mock('../providers/budgets', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../providers/budgets')>()),
+  checkBudgets: vi.fn(async () => ({ statuses: [], blockedProviders: {}, degradeReason: null })),
+}));
+
+// Counts words, so tokenizer counts are easy to tell from provider-reported ones
+vi.mock('../documents/tokenizer-service', () => ({
+  getTokenizer: vi.fn(async () => ({ count: (text: string) => text.split(/\s+/).filter(Boolean).length })),
 }));
 
 describe('Chat Streaming', () => {
@@ -50,6 +70,7 @@ describe('Chat Streaming', () => {
     // Clear registry
     const registry = getProviderRegistry();
     await registry.cleanupAll();
+    circuitBreakers.reset(1);
   });
 
   afterEach(async () => {
@@ -202,4 +223,211 @@ describe('Chat Streaming', () => {
     // Check that response was ended
     expect(mockRes.end).toHaveBeenCalled();
   });
+
+  it('should refuse a directly selected provider whose budget is spent', async () => {
+    const { sdk } = await import('../_core/sdk');
+    vi.mocked(sdk.authenticateRequest).mockResolvedValue({
+      id: 1,
+      openId: 'test-user',
+      name: 'Test User',
+      email: 'test@example.com',
+      role: 'user',
+      createdAt: new Date(),
+    });
+    vi.mocked(checkBudgets).mockResolvedValueOnce({
+      statuses: [],
+      blockedProviders: { 1: 'Provider budget spent - blocked' },
+      degradeReason: null,
+    });
+
+    let streamed = false;
+    class BudgetedProvider extends OpenAIProvider {
+      protected async doInitialize() {
+        // Skip actual OpenAI client initialization for testing
+      }
+
+      async *generateStream() {
+        streamed = true;
+        yield { content: 'Hello', isComplete: false };
+        yield { content: '', isComplete: true };
+      }
+    }
+
+    const provider = new BudgetedProvider({
+      id: 1,
+      name: 'Test Provider',
+      type: 'openai',
+      enabled: true,
+      config: { apiKey: 'test-key', defaultModel: 'gpt-4o-mini' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await provider.initialize();
+    (getProviderRegistry() as any).providers.set(1, provider);
+
+    await handleChatStream(mockReq as Request, mockRes as Response);
+
+    expect(mockRes.status).toHaveBeenCalledWith(429);
+    expect(streamed).toBe(false);
+  });
+
+  it('should not send chat traffic to a provider whose circuit is open', async () => {
+    const { sdk } = await import('../_core/sdk');
+    vi.mocked(sdk.authenticateRequest).mockResolvedValue({
+      id: 1,
+      openId: 'test-user',
+      name: 'Test User',
+      email: 'test@example.com',
+      role: 'user',
+      createdAt: new Date(),
+    });
+
+    let streamed = false;
+    class FailingProvider extends OpenAIProvider {
+      protected async doInitialize() {
+        // Skip actual OpenAI client initialization for testing
+      }
+
+      async *generateStream() {
+        streamed = true;
+        yield { content: '', isComplete: true };
+      }
+    }
+
+    const provider = new FailingProvider({
+      id: 1,
+      name: 'Test Provider',
+      type: 'openai',
+      enabled: true,
+      config: { apiKey: 'test-key', defaultModel: 'gpt-4o-mini' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await provider.initialize();
+    (getProviderRegistry() as any).providers.set(1, provider);
+
+    circuitBreakers.configure(1, { failureThreshold: 1, openDurationMs: 60000 });
+    circuitBreakers.recordFailure(1, new Error('upstream 503'));
+
+    await handleChatStream(mockReq as Request, mockRes as Response);
+
+    expect(mockRes.status).toHaveBeenCalledWith(503);
+    expect(mockRes.setHeader).toHaveBeenCalledWith('Retry-After', '60');
+    expect(streamed).toBe(false);
+    circuitBreakers.configure(1, null);
+  });
+
+  it('should report the usage the provider streamed, or count it with the tokenizer', async () => {
+    const { sdk } = await import('../_core/sdk');
+    vi.mocked(sdk.authenticateRequest).mockResolvedValue({
+      id: 1,
+      openId: 'test-user',
+      name: 'Test User',
+      email: 'test@example.com',
+      role: 'user',
+      createdAt: new Date(),
+    });
+
+    let reported: { promptTokens: number; completionTokens: number; totalTokens: number } | undefined = {
+      promptTokens: 12,
+      completionTokens: 6,
+      totalTokens: 18,
+    };
+    class UsageProvider extends OpenAIProvider {
+      protected async doInitialize() {
+        // Skip actual OpenAI client initialization for testing
+      }
+
+      async *generateStream() {
+        yield { content: 'Hello', isComplete: false };
+        yield { content: ' brave new', isComplete: false };
+        yield { content: ' World', isComplete: false };
+        yield { content: '', isComplete: true, usage: reported };
+      }
+    }
+
+    const provider = new UsageProvider({
+      id: 1,
+      name: 'Test Provider',
+      type: 'openai',
+      enabled: true,
+      config: { apiKey: 'test-key', defaultModel: 'gpt-4o-mini' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await provider.initialize();
+    (getProviderRegistry() as any).providers.set(1, provider);
+
+    const completeEvent = () => JSON.parse(writeData.find(d => d.includes('"type":"complete"'))!.slice(6));
+
+    await handleChatStream(mockReq as Request, mockRes as Response);
+    expect(completeEvent().usage).toEqual({ promptTokens: 12, completionTokens: 6, totalTokens: 18 });
+
+    // Without reported usage, "Hello!" is one word in and "Hello brave new World" four out
+    writeData = [];
+    reported = undefined;
+    await handleChatStream(mockReq as Request, mockRes as Response);
+    expect(completeEvent().usage).toEqual({ promptTokens: 1, completionTokens: 4, totalTokens: 5 });
+  });
+
+  it('should replay a cached answer without calling the provider', async () => {
+    const { sdk } = await import('../_core/sdk');
+    vi.mocked(sdk.authenticateRequest).mockResolvedValue({
+      id: 1,
+      openId: 'test-user',
+      name: 'Test User',
+      email: 'test@example.com',
+      role: 'user',
+      createdAt: new Date(),
+    });
+    vi.mocked(lookupResponseCache).mockResolvedValueOnce({
+      hit: {
+        entryId: 5,
+        providerId: 1,
+        kind: 'exact',
+        response: {
+          content: 'Hello World',
+          model: 'gpt-4o-mini',
+          finishReason: 'stop',
+          usage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 },
+        },
+        chunks: ['Hello', ' World'],
+        costMicros: 40,
+      },
+      context: null,
+    });
+
+    let streamed = false;
+    class CachedProvider extends OpenAIProvider {
+      protected async doInitialize() {
+        // Skip actual OpenAI client initialization for testing
+      }
+
+      async *generateStream() {
+        streamed = true;
+        yield { content: '', isComplete: true };
+      }
+    }
+
+    const provider = new CachedProvider({
+      id: 1,
+      name: 'Test Provider',
+      type: 'openai',
+      enabled: true,
+      config: { apiKey: 'test-key', defaultModel: 'gpt-4o-mini' },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await provider.initialize();
+    (getProviderRegistry() as any).providers.set(1, provider);
+
+    await handleChatStream(mockReq as Request, mockRes as Response);
+
+    const tokens = writeData.filter(d => d.includes('"type":"token"'));
+    expect(tokens.map(d => JSON.parse(d.slice(6)).content)).toEqual(['Hello', ' World']);
+    const complete = JSON.parse(writeData.find(d => d.includes('"type":"complete"'))!.slice(6));
+    expect(complete).toMatchObject({ content: 'Hello World', cost: 0, cache: { kind: 'exact' } });
+    expect(complete.routing.auditReasons).toEqual(['Served from response cache (exact match)']);
+    expect(streamed).toBe(false);
+  });
 });
@@ -1,9 +1,14 @@
 import type { Request, Response } from 'express';
 import { getProviderRegistry } from '../providers/registry';
-import type { Message } from '../providers/types';
-import { trackProviderUsage } from '../providers/usage';
+import type { Message, Token } from '../providers/types';
+import { fromMicros, priceUsage } from '../providers/pricing';
+import { getUserWorkspaces, hasWorkspaceAccess } from '../db';
 import { sdk } from '../_core/sdk';
-import { providerRouter } from '../inference/provider-router';
+import { providerRouter, type RoutingResult } from '../inference/provider-router';
+import { CircuitOpenError } from '../inference/circuit-breaker';
+import { BudgetExceededError } from '../providers/budgets';
+import { getTextContent, hasImageContent } from '../providers/content';
+import { resolveAttachmentParts } from './attachments';
 
 export async function handleChatStream(req: Request, res: Response) {
   try {
@@ -30,7 +35,7 @@ export async function handleChatStream(req: Request, res: Response) {
     }
 
     // Parse request body
-    const { providerId, messages, temperature, maxTokens, useRAG, workspaceId, useUnifiedRouting, taskHints, model } = req.body;
+    const { providerId, messages, temperature, maxTokens, useRAG, workspaceId, useUnifiedRouting, taskHints, model, rerank, cache } = req.body;
 
     // Validate request - providerId is optional when using unified routing
     if (!messages || !Array.isArray(messages)) {
@@ -43,85 +48,78 @@ export async function handleChatStream(req: Request, res: Response) {
       return;
     }
 
-    // Get provider - either directly or via unified routing
-    const registry = getProviderRegistry();
-    let provider;
-    let routingPlan = null;
+    // Convert messages to provider format; content may be a string or content parts
+    let providerMessages: Message[];
+    try {
+      providerMessages = await resolveAttachmentParts(
+        messages.map((m: any) => ({ role: m.role, content: m.content })),
+        user.id
+      );
+    } catch (attachmentError: any) {
+      res.status(400).json({ error: `Invalid attachment: ${attachmentError.message}` });
+      return;
+    }
 
-    if (useUnifiedRouting && workspaceId) {
-      // Use unified provider routing
-      try {
-        routingPlan = await providerRouter.resolvePlan({
-          messages: messages.map((m: any) => ({ role: m.role, content: m.content })),
-          workspaceId,
-          temperature,
-          maxTokens,
-          taskHints,
-        });
-        provider = registry.getProvider(routingPlan.primaryProviderId);
-        console.log(`[ChatStream] Unified routing selected provider: ${routingPlan.primaryProviderName}`);
-      } catch (routingError: any) {
-        console.error('[ChatStream] Unified routing failed:', routingError);
-        res.status(500).json({ error: `Routing failed: ${routingError.message}` });
+    // A directly selected provider skips the routing rules, not budgets or circuit breakers
+    if (!useUnifiedRouting) {
+      const provider = getProviderRegistry().getProvider(providerId);
+      if (!provider) {
+        res.status(404).json({ error: `Provider with ID ${providerId} not found` });
+        return;
+      }
+      if (hasImageContent(providerMessages) && !provider.getCapabilities().supportsVision) {
+        res.status(400).json({ error: 'Selected provider does not support image input' });
         return;
       }
-    } else {
-      // Legacy direct provider selection
-      provider = registry.getProvider(providerId);
     }
 
-    if (!provider) {
-      res.status(404).json({ error: `Provider not found` });
-      return;
+    // Usage and budgets are charged to the requested workspace, or the user's first one
+    let wsId: number | undefined = workspaceId;
+    if (wsId) {
+      if (!(await hasWorkspaceAccess(user.id, wsId))) {
+        res.status(403).json({ error: 'No access to this workspace' });
+        return;
+      }
+    } else {
+      wsId = (await getUserWorkspaces(user.id))[0]?.id;
+      if (!wsId) {
+        res.status(400).json({ error: 'Invalid request body: workspaceId required' });
+        return;
+      }
     }
 
-    // Set up SSE headers
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
-
-    // Convert messages to provider format
-    let providerMessages: Message[] = messages.map((m: any) => ({
-      role: m.role,
-      content: m.content,
-    }));
-
     // Inject RAG context if enabled
     let ragSources: any[] = [];
+    let checkCitations = false;
     if (useRAG && workspaceId) {
       try {
-        const { retrieveRelevantChunks } = await import('../documents/rag-pipeline');
+        const { buildRagContext } = await import('../documents/rag-pipeline');
         
         // Get the last user message as the query
-        const lastUserMessage = messages.filter((m: any) => m.role === 'user').pop();
+        const lastUserMessage = providerMessages.filter(m => m.role === 'user').pop();
         if (lastUserMessage) {
-          // Search for relevant chunks using RAG pipeline
-          const relevantChunks = await retrieveRelevantChunks(
-            lastUserMessage.content,
-            'documents', // Default collection name
+          // Search the workspace's collection with its retrieval profile
+          const rag = await buildRagContext(
             workspaceId,
-            5 // Top 5 most relevant chunks
+            getTextContent(lastUserMessage.content),
+            { rerank } // Optional override of the workspace reranker: false, or { model, candidates }
           );
           
-          if (relevantChunks.length > 0) {
+          if (rag.chunks.length > 0) {
+            checkCitations = rag.profile.citationStyle !== 'none';
             // Store sources for citation
-            ragSources = relevantChunks.map((chunk: any, idx: number) => ({
+            ragSources = rag.chunks.map((chunk, idx) => ({
               id: idx + 1,
-              text: chunk.text || chunk.content,
+              text: chunk.text,
               score: chunk.score,
               metadata: chunk.metadata,
+              rerank: chunk.rerank,
             }));
             
-            // Build context from retrieved chunks
-            const context = relevantChunks
-              .map((chunk: any, idx: number) => `[Source ${idx + 1}] ${chunk.text || chunk.content}`)
-              .join('\n\n');
-            
             // Inject context as a system message before the conversation
             const contextMessage: Message = {
               role: 'system',
-              content: `You are a helpful assistant. Use the following context from the knowledge base to answer the user's question. Cite sources using [Source N] notation when referencing information. If the context doesn't contain relevant information, say so and answer based on your general knowledge.\n\nContext:\n${context}`,
+              content: `You are a helpful assistant. Use the following context from the knowledge base to answer the user's question. ${rag.citationInstruction ? rag.citationInstruction + ' ' : ''}If the context doesn't contain relevant information, say so and answer based on your general knowledge.\n\nContext:\n${rag.context}`,
             };
             
             // Insert context message at the beginning (after any existing system message)
@@ -130,14 +128,14 @@ export async function handleChatStream(req: Request, res: Response) {
               // Replace existing system message with enhanced one
               providerMessages[systemMsgIndex] = {
                 role: 'system',
-                content: providerMessages[systemMsgIndex].content + '\n\n' + contextMessage.content,
+                content: getTextContent(providerMessages[systemMsgIndex].content) + '\n\n' + contextMessage.content,
               };
             } else {
               // Add new system message at the beginning
               providerMessages = [contextMessage, ...providerMessages];
             }
             
-            console.log(`[ChatStream] Injected RAG context: ${relevantChunks.length} chunks`);
+            console.log(`[ChatStream] Injected RAG context: ${rag.chunks.length} chunks, ~${rag.contextTokens} tokens`);
           }
         }
       } catch (ragError) {
@@ -146,84 +144,109 @@ export async function handleChatStream(req: Request, res: Response) {
       }
     }
 
-    const startTime = Date.now();
-    let fullContent = '';
-    let tokenCount = 0;
+    // The router answers from the workspace's response cache when it can, and
+    // otherwise reserves the request against its budgets and settles it once
+    // the stream ends, with fallback between providers
+    const stream = providerRouter.executeStream({
+      messages: providerMessages,
+      model,
+      workspaceId: wsId,
+      temperature,
+      maxTokens,
+      taskHints,
+      providerId: useUnifiedRouting ? undefined : providerId,
+      // Set false to ask for a fresh answer rather than a cached one
+      cache: cache !== false,
+    });
 
+    // Routing and budget failures surface before the first token, as plain HTTP errors
+    let next: IteratorResult<Token, RoutingResult>;
     try {
-      // Stream tokens from provider
-      for await (const token of provider.generateStream({
-        messages: providerMessages,
-        model,
-        temperature,
-        maxTokens,
-      })) {
-        if (token.isComplete) {
-          // Final token - calculate usage and track
-          const latencyMs = Date.now() - startTime;
-          
-          // Estimate token usage (rough approximation)
-          const promptTokens = Math.ceil(messages.reduce((sum: number, m: any) => sum + m.content.length, 0) / 4);
-          const completionTokens = tokenCount;
-          const totalTokens = promptTokens + completionTokens;
-
-          // Get cost from provider
-          const costProfile = provider.getCostPerToken();
-          const cost = (
-            (promptTokens / 1000) * costProfile.inputCostPer1kTokens +
-            (completionTokens / 1000) * costProfile.outputCostPer1kTokens
-          );
+      next = await stream.next();
+    } catch (routingError: any) {
+      if (routingError instanceof BudgetExceededError) {
+        res.status(429).json({ error: routingError.message });
+        return;
+      }
+      if (routingError instanceof CircuitOpenError) {
+        if (routingError.retryAt) {
+          res.setHeader('Retry-After', String(Math.max(1, Math.ceil((routingError.retryAt.getTime() - Date.now()) / 1000))));
+        }
+        res.status(503).json({ error: routingError.message });
+        return;
+      }
+      console.error('[ChatStream] Routing failed:', routingError);
+      res.status(500).json({ error: `Routing failed: ${routingError.message}` });
+      return;
+    }
 
-          // Resolve workspace from request body or user's first workspace
-          let wsId = workspaceId;
-          if (!wsId) {
-            const { getUserWorkspaces } = await import('../db');
-            const userWorkspaces = await getUserWorkspaces(user.id);
-            wsId = userWorkspaces[0]?.id ?? 1;
-          }
+    // Set up SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
 
-          // Track usage
-          await trackProviderUsage({
-            workspaceId: wsId,
-            providerId,
-            modelName: provider.name || "streaming-model",
-            tokensUsed: totalTokens,
-            cost,
-            latencyMs,
-          });
+    let fullContent = '';
 
-          // Send completion event
-          res.write(`data: ${JSON.stringify({
-            type: 'complete',
-            content: fullContent,
-            usage: {
-              promptTokens,
-              completionTokens,
-              totalTokens,
-            },
-            cost,
-            sources: ragSources.length > 0 ? ragSources : undefined,
-            routing: routingPlan ? {
-              requestId: routingPlan.requestId,
-              providerId: routingPlan.primaryProviderId,
-              providerName: routingPlan.primaryProviderName,
-              fallbackChain: routingPlan.fallbackChain,
-              auditReasons: routingPlan.auditReasons,
-            } : undefined,
-          })}\n\n`);
-          
-          res.end();
-        } else {
-          // Stream token to client
+    try {
+      // Stream tokens to the client
+      while (!next.done) {
+        const token = next.value as Token;
+        if (!token.isComplete && token.content) {
           fullContent += token.content;
-          tokenCount++;
-          
           res.write(`data: ${JSON.stringify({
             type: 'token',
             content: token.content,
           })}\n\n`);
         }
+        next = await stream.next();
       }
+
+      const result = next.value as RoutingResult;
+      const { promptTokens, completionTokens } = result.response.usage;
+      // A cached answer costs nothing
+      const costMicros = result.cache
+        ? 0
+        : (await priceUsage(result.actualProviderId, result.response.model, { promptTokens, completionTokens })).costMicros;
+
+      // Send completion event
+      res.write(`data: ${JSON.stringify({
+        type: 'complete',
+        content: fullContent,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+        cost: fromMicros(costMicros),
+        sources: ragSources.length > 0 ? ragSources : undefined,
+        cache: result.cache,
+        // The provider that finished the answer, after any fallback or mid-stream resume
+        routing: {
+          requestId: result.plan.requestId,
+          providerId: result.actualProviderId,
+          providerName: getProviderRegistry().getProvider(result.actualProviderId)?.name ?? result.plan.primaryProviderName,
+          routeTaken: result.routeTaken,
+          fallbackChain: result.plan.fallbackChain,
+          auditReasons: result.plan.auditReasons,
+        },
+      })}\n\n`);
+      
+      // Check the answer's citations against the retrieved sources
+      if (checkCitations) {
+        try {
+          const { verifyGrounding } = await import('../documents/grounding');
+          const { embeddingEngine } = await import('../embeddings/embedding-engine');
+          const grounding = await verifyGrounding(fullContent, ragSources, {
+            embed: async (texts) => (await embeddingEngine.generate({ texts })).embeddings,
+          });
+          res.write(`data: ${JSON.stringify({ type: 'grounding', grounding })}\n\n`);
+        } catch (groundingError) {
+          console.error('[ChatStream] Grounding check failed:', groundingError);
+        }
+      }
+      
+      res.end();
     } catch (error) {
       console.error('[ChatStream] Streaming error:', error);
       res.write(`data: ${JSON.stringify({
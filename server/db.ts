@@ -28,6 +28,7 @@ import {
   documentChunks,
   InsertDocumentChunk,
   DocumentChunk,
+  documentVersions,
   workflows,
   Workflow,
   workflowVersions,
@@ -354,6 +355,8 @@ export async function deleteDocument(documentId: number): Promise<void> {
   const db = getDb();
   if (!db) throw new Error("Database not available");
 
+  await db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+  await db.delete(documentVersions).where(eq(documentVersions.documentId, documentId));
   await db.delete(documents).where(eq(documents.id, documentId));
 }
 
@@ -555,6 +558,8 @@ export async function getDocumentsWithDetails(workspaceId: number) {
       wordCount: documents.wordCount,
       chunkCount: documents.chunkCount,
       embeddingModel: documents.embeddingModel,
+      version: documents.version,
+      sourceId: documents.sourceId,
       workspaceId: documents.workspaceId,
       uploadedBy: documents.uploadedBy,
       createdAt: documents.createdAt,
@@ -583,8 +588,9 @@ export async function deleteDocumentWithChunks(documentId: number): Promise<void
   const db = getDb();
   if (!db) return;
 
-  // Delete chunks first (foreign key constraint)
+  // Delete chunks and versions first (foreign key constraints)
   await db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+  await db.delete(documentVersions).where(eq(documentVersions.documentId, documentId));
   
   // Delete document
   await db.delete(documents).where(eq(documents.id, documentId));
@@ -596,6 +602,7 @@ export async function bulkDeleteDocuments(documentIds: number[]): Promise<void>
 
   // Delete all chunks for these documents
   await db.delete(documentChunks).where(sql`${documentChunks.documentId} IN (${sql.join(documentIds.map(id => sql`${id}`), sql`, `)})`);
+  await db.delete(documentVersions).where(inArray(documentVersions.documentId, documentIds));
   
   // Delete documents
   await db.delete(documents).where(sql`${documents.id} IN (${sql.join(documentIds.map(id => sql`${id}`), sql`, `)})`);
@@ -907,7 +914,7 @@ export async function createWorkflowExecution(
 export async function updateWorkflowExecution(
   executionId: number,
   updates: {
-    status?: "pending" | "running" | "completed" | "failed" | "cancelled";
+    status?: "pending" | "queued" | "running" | "completed" | "failed" | "cancelled";
     completedAt?: Date;
     duration?: number;
     error?: string;
@@ -979,12 +986,28 @@ export async function getAllWorkflowExecutions(
     .orderBy(desc(workflowExecutions.startedAt))
     .limit(limit);
 
-  // Add retryCount and logs as defaults (these are tracked separately in workflow_execution_logs table)
-  return executions.map(exec => ({
-    ...exec,
-    retryCount: 0,
-    logs: [],
-  }));
+  if (executions.length === 0) return [];
+
+  // Per-node logs live in workflow_execution_logs; retries are attempts beyond the first
+  const logs = await db
+    .select()
+    .from(workflowExecutionLogs)
+    .where(inArray(workflowExecutionLogs.executionId, executions.map(exec => exec.id)))
+    .orderBy(workflowExecutionLogs.startedAt);
+
+  return executions.map(exec => {
+    const execLogs = logs.filter(log => log.executionId === exec.id);
+    return {
+      ...exec,
+      retryCount: execLogs.reduce((sum, log) => sum + Math.max(0, (log.attempts || 1) - 1), 0),
+      logs: execLogs.map(log => ({
+        timestamp: log.completedAt || log.startedAt,
+        level: log.status === "failed" ? "error" : log.status === "skipped" || log.status === "cancelled" ? "warn" : "info",
+        message: `${log.nodeLabel || log.nodeId}: ${log.message || log.status}${log.error ? ` (${log.error})` : ""}`,
+        nodeId: log.nodeId,
+      })),
+    };
+  });
 }
 
 /**
@@ -1021,7 +1044,7 @@ export async function createExecutionLog(
     nodeId: string;
     nodeType: string;
     nodeLabel?: string;
-    status: "pending" | "running" | "completed" | "failed" | "skipped";
+    status: "pending" | "running" | "completed" | "failed" | "skipped" | "cancelled";
     input?: any;
     output?: any;
     error?: string;
@@ -1082,9 +1105,12 @@ export async function updateExecutionLog(
   executionId: number,
   nodeId: string,
   data: {
-    status?: "pending" | "running" | "completed" | "failed" | "skipped";
+    status?: "pending" | "running" | "completed" | "failed" | "skipped" | "cancelled";
     output?: any;
     error?: string;
+    logLevel?: "debug" | "info" | "warn" | "error";
+    message?: string;
+    attempts?: number;
     completedAt?: Date;
     duration?: number;
   }
@@ -1098,6 +1124,9 @@ export async function updateExecutionLog(
       status: data.status,
       output: data.output !== undefined ? data.output : undefined,
       error: data.error !== undefined ? data.error : undefined,
+      logLevel: data.logLevel,
+      message: data.message,
+      attempts: data.attempts,
       completedAt: data.completedAt,
       duration: data.duration,
     })
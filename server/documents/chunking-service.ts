@@ -1,12 +1,26 @@
 /**
  * Document Chunking Service
- * Splits documents into chunks for embedding and retrieval
+ * Splits documents into chunks for embedding and retrieval. Sizes are in
+ * characters, or in tokens when a tokenizer is given; with a parent chunk
+ * size, sections are chunked into parents and each parent into the small
+ * children that get embedded.
  */
 
+import { estimateTokens, type Tokenizer } from "./tokenizers/tokenizer";
+import {
+  countWords,
+  flattenDocument,
+  toPlainText,
+  type FlatEntry,
+  type StructuredDocument,
+} from "./extractors/structure";
+
 export interface ChunkingOptions {
   strategy: "fixed" | "semantic" | "recursive";
   chunkSize: number;
   chunkOverlap: number;
+  tokenizer?: Tokenizer; // Sizes count this tokenizer's tokens rather than characters
+  parentChunkSize?: number | null; // Group children under parent sections of this size
 }
 
 export interface DocumentChunk {
@@ -16,44 +30,112 @@ export interface DocumentChunk {
     startChar: number;
     endChar: number;
     wordCount: number;
+    pageNumber?: number;
+    heading?: string; // Section path joined with " > "
+    sectionPath?: string[];
+    tokenCount: number; // Exact with a tokenizer, estimated otherwise
+    parentIndex?: number; // Index of the parent chunk in parent/child mode
+  };
+}
+
+/**
+ * Measures text in characters or tokens; windows and tails are cut between
+ * tokenizer pieces so token budgets hold
+ */
+interface SizeMeter {
+  measure(text: string): number;
+  tokens(text: string): number;
+  // Spans of at most `size` units, each starting `size - overlap` units after the previous
+  windows(text: string, size: number, overlap: number): Array<{ start: number; end: number }>;
+  tail(text: string, size: number): string;
+}
+
+const characterMeter: SizeMeter = {
+  measure: (text) => text.length,
+  tokens: estimateTokens,
+  windows(text, size, overlap) {
+    const windows: Array<{ start: number; end: number }> = [];
+    const step = Math.max(1, size - overlap);
+    for (let start = 0; start < text.length; start += step) {
+      windows.push({ start, end: Math.min(start + size, text.length) });
+    }
+    return windows;
+  },
+  tail: (text, size) => (size > 0 ? text.slice(-size) : ""),
+};
+
+function tokenMeter(tokenizer: Tokenizer): SizeMeter {
+  return {
+    measure: (text) => tokenizer.count(text),
+    tokens: (text) => tokenizer.count(text),
+    windows(text, size, overlap) {
+      const spans = tokenizer.spans(text);
+      const windows: Array<{ start: number; end: number }> = [];
+      let first = 0;
+      while (first < spans.length) {
+        // Take pieces up to the budget; a single oversized piece forms its own window
+        let end = first;
+        let tokens = 0;
+        while (end < spans.length && (end === first || tokens + spans[end].tokens <= size)) {
+          tokens += spans[end].tokens;
+          end++;
+        }
+        windows.push({ start: spans[first].start, end: spans[end - 1].end });
+        if (end >= spans.length) break;
+
+        // Step back over up to `overlap` tokens
+        let next = end;
+        let overlapped = 0;
+        while (next - 1 > first && overlapped + spans[next - 1].tokens <= overlap) {
+          overlapped += spans[next - 1].tokens;
+          next--;
+        }
+        first = next;
+      }
+      return windows;
+    },
+    tail(text, size) {
+      const spans = tokenizer.spans(text);
+      let start = text.length;
+      let tokens = 0;
+      for (let i = spans.length - 1; i >= 0 && tokens + spans[i].tokens <= size; i--) {
+        tokens += spans[i].tokens;
+        start = spans[i].start;
+      }
+      return text.slice(start);
+    },
   };
 }
 
+function meterFor(options: ChunkingOptions): SizeMeter {
+  return options.tokenizer ? tokenMeter(options.tokenizer) : characterMeter;
+}
+
 /**
  * Fixed-size chunking
- * Splits text into chunks of fixed character length with overlap
+ * Splits text into chunks of fixed length with overlap
  */
-function chunkFixed(text: string, chunkSize: number, overlap: number): DocumentChunk[] {
-  const chunks: DocumentChunk[] = [];
-  let index = 0;
-  let startChar = 0;
-  
-  while (startChar < text.length) {
-    const endChar = Math.min(startChar + chunkSize, text.length);
-    const chunkText = text.substring(startChar, endChar);
-    
-    chunks.push({
+function chunkFixed(text: string, chunkSize: number, overlap: number, meter: SizeMeter): DocumentChunk[] {
+  return meter.windows(text, chunkSize, overlap).map(({ start, end }, index) => {
+    const chunkText = text.substring(start, end);
+    return {
       text: chunkText,
       index,
       metadata: {
-        startChar,
-        endChar,
+        startChar: start,
+        endChar: end,
         wordCount: chunkText.split(/\s+/).length,
+        tokenCount: meter.tokens(chunkText),
       },
-    });
-    
-    index++;
-    startChar += chunkSize - overlap;
-  }
-  
-  return chunks;
+    };
+  });
 }
 
 /**
  * Semantic chunking
  * Splits text at natural boundaries (paragraphs, sentences)
  */
-function chunkSemantic(text: string, chunkSize: number, overlap: number): DocumentChunk[] {
+function chunkSemantic(text: string, chunkSize: number, overlap: number, meter: SizeMeter): DocumentChunk[] {
   const chunks: DocumentChunk[] = [];
   
   // Split by paragraphs first
@@ -65,7 +147,7 @@ function chunkSemantic(text: string, chunkSize: number, overlap: number): Docume
   
   for (const paragraph of paragraphs) {
     // If adding this paragraph would exceed chunk size, save current chunk
-    if (currentChunk.length + paragraph.length > chunkSize && currentChunk.length > 0) {
+    if (meter.measure(currentChunk) + meter.measure(paragraph) > chunkSize && currentChunk.length > 0) {
       chunks.push({
         text: currentChunk.trim(),
         index,
@@ -73,14 +155,15 @@ function chunkSemantic(text: string, chunkSize: number, overlap: number): Docume
           startChar,
           endChar: startChar + currentChunk.length,
           wordCount: currentChunk.split(/\s+/).length,
+          tokenCount: meter.tokens(currentChunk.trim()),
         },
       });
       
       index++;
       
-      // Apply overlap by keeping last N characters
-      const overlapText = currentChunk.slice(-overlap);
-      startChar += currentChunk.length - overlap;
+      // Apply overlap by keeping the last N characters or tokens
+      const overlapText = meter.tail(currentChunk, overlap);
+      startChar += currentChunk.length - overlapText.length;
       currentChunk = overlapText + " " + paragraph;
     } else {
       currentChunk += (currentChunk ? "\n\n" : "") + paragraph;
@@ -96,6 +179,7 @@ function chunkSemantic(text: string, chunkSize: number, overlap: number): Docume
         startChar,
         endChar: startChar + currentChunk.length,
         wordCount: currentChunk.split(/\s+/).length,
+        tokenCount: meter.tokens(currentChunk.trim()),
       },
     });
   }
@@ -107,7 +191,7 @@ function chunkSemantic(text: string, chunkSize: number, overlap: number): Docume
  * Recursive chunking
  * Splits text hierarchically (paragraphs → sentences → words)
  */
-function chunkRecursive(text: string, chunkSize: number, overlap: number): DocumentChunk[] {
+function chunkRecursive(text: string, chunkSize: number, overlap: number, meter: SizeMeter): DocumentChunk[] {
   const chunks: DocumentChunk[] = [];
   
   // Split by paragraphs
@@ -117,7 +201,7 @@ function chunkRecursive(text: string, chunkSize: number, overlap: number): Docum
   let startChar = 0;
   
   for (const paragraph of paragraphs) {
-    if (paragraph.length <= chunkSize) {
+    if (meter.measure(paragraph) <= chunkSize) {
       // Paragraph fits in one chunk
       chunks.push({
         text: paragraph.trim(),
@@ -126,18 +210,25 @@ function chunkRecursive(text: string, chunkSize: number, overlap: number): Docum
           startChar,
           endChar: startChar + paragraph.length,
           wordCount: paragraph.split(/\s+/).length,
+          tokenCount: meter.tokens(paragraph.trim()),
         },
       });
       
       index++;
       startChar += paragraph.length;
     } else {
-      // Split paragraph into sentences
-      const sentences = paragraph.split(/[.!?]+\s+/);
+      // Split paragraph into sentences; a sentence longer than a chunk is cut into fixed windows
+      const sentences = paragraph
+        .split(/[.!?]+\s+/)
+        .flatMap((sentence) =>
+          meter.measure(sentence) > chunkSize
+            ? meter.windows(sentence, chunkSize, 0).map(({ start, end }) => sentence.slice(start, end))
+            : [sentence]
+        );
       let currentChunk = "";
       
       for (const sentence of sentences) {
-        if (currentChunk.length + sentence.length > chunkSize && currentChunk.length > 0) {
+        if (meter.measure(currentChunk) + meter.measure(sentence) > chunkSize && currentChunk.length > 0) {
           chunks.push({
             text: currentChunk.trim(),
             index,
@@ -145,14 +236,15 @@ function chunkRecursive(text: string, chunkSize: number, overlap: number): Docum
               startChar,
               endChar: startChar + currentChunk.length,
               wordCount: currentChunk.split(/\s+/).length,
+              tokenCount: meter.tokens(currentChunk.trim()),
             },
           });
           
           index++;
           
           // Apply overlap
-          const overlapText = currentChunk.slice(-overlap);
-          startChar += currentChunk.length - overlap;
+          const overlapText = meter.tail(currentChunk, overlap);
+          startChar += currentChunk.length - overlapText.length;
           currentChunk = overlapText + " " + sentence;
         } else {
           currentChunk += (currentChunk ? " " : "") + sentence;
@@ -168,6 +260,7 @@ function chunkRecursive(text: string, chunkSize: number, overlap: number): Docum
             startChar,
             endChar: startChar + currentChunk.length,
             wordCount: currentChunk.split(/\s+/).length,
+            tokenCount: meter.tokens(currentChunk.trim()),
           },
         });
         
@@ -186,15 +279,249 @@ function chunkRecursive(text: string, chunkSize: number, overlap: number): Docum
 export function chunkDocument(text: string, options: ChunkingOptions): DocumentChunk[] {
   switch (options.strategy) {
     case "fixed":
-      return chunkFixed(text, options.chunkSize, options.chunkOverlap);
+      return chunkFixed(text, options.chunkSize, options.chunkOverlap, meterFor(options));
     
     case "semantic":
-      return chunkSemantic(text, options.chunkSize, options.chunkOverlap);
+      return chunkSemantic(text, options.chunkSize, options.chunkOverlap, meterFor(options));
     
     case "recursive":
-      return chunkRecursive(text, options.chunkSize, options.chunkOverlap);
+      return chunkRecursive(text, options.chunkSize, options.chunkOverlap, meterFor(options));
     
     default:
       throw new Error(`Unknown chunking strategy: ${options.strategy}`);
   }
 }
+
+// ============================================================================
+// Structure-aware chunking
+// ============================================================================
+
+function sectionMetadata(sectionPath: string[], page?: number): Partial<DocumentChunk["metadata"]> {
+  const metadata: Partial<DocumentChunk["metadata"]> = {};
+  if (page !== undefined) metadata.pageNumber = page;
+  if (sectionPath.length > 0) {
+    metadata.sectionPath = sectionPath;
+    metadata.heading = sectionPath.join(" > ");
+  }
+  return metadata;
+}
+
+
+/**
+ * Split an oversized table or code block at line boundaries; a table's
+ * header row is repeated at the top of every piece
+ */
+function splitLines(
+  text: string,
+  chunkSize: number,
+  repeatHeader: boolean,
+  meter: SizeMeter
+): Array<{ text: string; offset: number }> {
+  const lines = text.split("\n");
+  const header = repeatHeader ? lines.shift()! : null;
+  const headerLength = header !== null ? meter.measure(header) + 1 : 0;
+  const pieces: Array<{ text: string; offset: number }> = [];
+
+  let current: string[] = [];
+  let currentLength = headerLength;
+  let currentOffset = 0;
+  let offset = header !== null ? header.length + 1 : 0;
+
+  const push = () => {
+    if (current.length === 0) return;
+    pieces.push({ text: (header !== null ? [header, ...current] : current).join("\n"), offset: currentOffset });
+    current = [];
+    currentLength = headerLength;
+  };
+
+  for (const line of lines) {
+    const lineLength = meter.measure(line);
+    if (currentLength + lineLength > chunkSize) push();
+
+    if (lineLength + headerLength > chunkSize) {
+      // A single line longer than a chunk is cut into fixed windows
+      for (const piece of chunkFixed(line, chunkSize, 0, meter)) {
+        pieces.push({ text: piece.text, offset: offset + piece.metadata.startChar });
+      }
+    } else {
+      if (current.length === 0) currentOffset = offset;
+      current.push(line);
+      currentLength += lineLength + 1;
+    }
+    offset += line.length + 1;
+  }
+  push();
+
+  return pieces;
+}
+
+/**
+ * Chunk a structured document along its sections and blocks
+ *
+ * "fixed" keeps windows over the plain text and labels each with the section
+ * and page it starts in. The other strategies start a new chunk at every
+ * heading, keep tables and code blocks whole where they fit, and split
+ * oversized tables by rows (repeating the header), code by lines and
+ * paragraphs by sentences.
+ */
+export function chunkStructuredDocument(doc: StructuredDocument, options: ChunkingOptions): DocumentChunk[] {
+  const entries = flattenDocument(doc);
+  const meter = meterFor(options);
+
+  if (options.strategy === "fixed") {
+    return chunkFixed(toPlainText(doc), options.chunkSize, options.chunkOverlap, meter).map((chunk) => {
+      let entry: FlatEntry | undefined;
+      for (const candidate of entries) {
+        if (candidate.start > chunk.metadata.startChar) break;
+        entry = candidate;
+      }
+      return {
+        ...chunk,
+        metadata: { ...chunk.metadata, ...(entry ? sectionMetadata(entry.sectionPath, entry.page) : {}) },
+      };
+    });
+  }
+
+  const { chunkSize, chunkOverlap } = options;
+  const chunks: DocumentChunk[] = [];
+  let pending: FlatEntry[] = [];
+
+  const sizes = new Map<FlatEntry, number>();
+  const sizeOf = (entry: FlatEntry) => {
+    let size = sizes.get(entry);
+    if (size === undefined) {
+      size = meter.measure(entry.text);
+      sizes.set(entry, size);
+    }
+    return size;
+  };
+
+  const emit = (text: string, startChar: number, sectionPath: string[], page?: number) => {
+    chunks.push({
+      text,
+      index: chunks.length,
+      metadata: {
+        startChar,
+        endChar: startChar + text.length,
+        wordCount: countWords(text),
+        tokenCount: meter.tokens(text),
+        ...sectionMetadata(sectionPath, page),
+      },
+    });
+  };
+
+  const pendingLength = () => pending.reduce((sum, entry) => sum + sizeOf(entry) + 2, 0);
+
+  // Emit pending entries up to the last block; headings after it carry forward
+  const flush = () => {
+    let last = pending.length - 1;
+    while (last >= 0 && !pending[last].block) last--;
+    if (last < 0) return;
+
+    const emitted = pending.slice(0, last + 1);
+    const firstBlock = emitted.find((entry) => entry.block)!;
+    emit(
+      emitted.map((entry) => entry.text).join("\n\n"),
+      emitted[0].start,
+      firstBlock.sectionPath,
+      firstBlock.page
+    );
+    pending = pending.slice(last + 1);
+  };
+
+  for (const entry of entries) {
+    if (!entry.block) {
+      flush();
+      pending.push(entry);
+      continue;
+    }
+
+    if (sizeOf(entry) + 2 > chunkSize) {
+      flush();
+      const headings = pending;
+      pending = [];
+
+      const pieces =
+        entry.block.type === "paragraph"
+          ? chunkRecursive(entry.text, chunkSize, chunkOverlap, meter).map((piece) => ({
+              text: piece.text,
+              offset: Math.min(piece.metadata.startChar, entry.text.length),
+            }))
+          : splitLines(entry.text, chunkSize, entry.block.type === "table", meter);
+
+      pieces.forEach((piece, i) => {
+        // Headings waiting for this block lead its first piece
+        if (i === 0 && headings.length > 0) {
+          const text = [...headings.map((heading) => heading.text), piece.text].join("\n\n");
+          emit(text, headings[0].start, entry.sectionPath, entry.page);
+        } else {
+          emit(piece.text, entry.start + piece.offset, entry.sectionPath, entry.page);
+        }
+      });
+      continue;
+    }
+
+    if (pendingLength() + sizeOf(entry) > chunkSize) flush();
+    pending.push(entry);
+  }
+  flush();
+
+  return chunks;
+}
+
+// ============================================================================
+// Parent/child chunking
+// ============================================================================
+
+export interface ParentChildChunks {
+  parents: DocumentChunk[];
+  children: DocumentChunk[]; // metadata.parentIndex points into parents
+}
+
+/**
+ * Children of a parent section: paragraphs are merged up to the child size,
+ * and paragraphs larger than a child are first split by sentences
+ */
+function chunkChildren(text: string, options: ChunkingOptions, meter: SizeMeter): DocumentChunk[] {
+  if (options.strategy === "fixed") {
+    return chunkFixed(text, options.chunkSize, options.chunkOverlap, meter);
+  }
+  const paragraphs = text
+    .split(/\n\n+/)
+    .flatMap((paragraph) =>
+      meter.measure(paragraph) > options.chunkSize
+        ? chunkRecursive(paragraph, options.chunkSize, 0, meter).map((piece) => piece.text)
+        : [paragraph]
+    );
+  return chunkSemantic(paragraphs.join("\n\n"), options.chunkSize, options.chunkOverlap, meter);
+}
+
+/**
+ * Chunk a document into parent sections of parentChunkSize (without
+ * overlap) and each parent into children of chunkSize. Children are small
+ * enough to embed precisely; their parent is the context the LLM reads.
+ */
+export function chunkWithParents(doc: StructuredDocument, options: ChunkingOptions): ParentChildChunks {
+  const parentChunkSize = options.parentChunkSize ?? options.chunkSize;
+  const meter = meterFor(options);
+  const parents = chunkStructuredDocument(doc, { ...options, chunkSize: parentChunkSize, chunkOverlap: 0 });
+  const children: DocumentChunk[] = [];
+
+  parents.forEach((parent, parentIndex) => {
+    for (const child of chunkChildren(parent.text, options, meter)) {
+      children.push({
+        text: child.text,
+        index: children.length,
+        metadata: {
+          ...child.metadata,
+          ...sectionMetadata(parent.metadata.sectionPath ?? [], parent.metadata.pageNumber),
+          startChar: parent.metadata.startChar + Math.min(child.metadata.startChar, parent.text.length),
+          endChar: parent.metadata.startChar + Math.min(child.metadata.endChar, parent.text.length),
+          parentIndex,
+        },
+      });
+    }
+  });
+
+  return { parents, children };
+}
@@ -1,6 +1,14 @@
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, desc, inArray, isNull, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import { getDb } from '../db';
-import { documents, documentChunks, type InsertDocument, type InsertDocumentChunk } from '../../drizzle/schema';
+import {
+  documents,
+  documentChunks,
+  documentVersions,
+  type InsertDocument,
+  type InsertDocumentChunk,
+  type InsertDocumentVersion,
+} from '../../drizzle/schema';
 
 /**
  * Create a new document record
@@ -61,7 +69,7 @@ export async function updateDocumentMetadata(
 }
 
 /**
- * Create document chunks
+ * Create document chunks; returns the inserted rows
  */
 export async function createDocumentChunks(chunks: InsertDocumentChunk[]) {
   if (chunks.length === 0) return [];
@@ -71,13 +79,39 @@ export async function createDocumentChunks(chunks: InsertDocumentChunk[]) {
   
   // Insert in batches to avoid query size limits
   const batchSize = 100;
+  const inserted = [];
   
   for (let i = 0; i < chunks.length; i += batchSize) {
     const batch = chunks.slice(i, i + batchSize);
-    await db.insert(documentChunks).values(batch);
+    inserted.push(...(await db.insert(documentChunks).values(batch).returning()));
   }
   
-  return [];
+  return inserted;
+}
+
+/**
+ * Update a kept chunk's position and metadata after re-ingestion
+ */
+export async function updateDocumentChunk(
+  chunkId: number,
+  updates: Pick<InsertDocumentChunk, 'chunkIndex' | 'pageNumber' | 'heading' | 'contentHash' | 'parentChunkId' | 'tokenCount'>
+) {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  await db.update(documentChunks).set(updates).where(eq(documentChunks.id, chunkId));
+}
+
+/**
+ * Delete chunks by ID
+ */
+export async function deleteDocumentChunks(chunkIds: number[]) {
+  if (chunkIds.length === 0) return;
+  
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  await db.delete(documentChunks).where(inArray(documentChunks.id, chunkIds));
 }
 
 /**
@@ -108,6 +142,85 @@ export async function getDocumentsByWorkspace(workspaceId: number) {
     .orderBy(desc(documents.createdAt));
 }
 
+/**
+ * Latest manually uploaded document of a workspace with the given filename
+ */
+export async function getDocumentByFilename(workspaceId: number, filename: string) {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  const [document] = await db
+    .select()
+    .from(documents)
+    .where(and(eq(documents.workspaceId, workspaceId), eq(documents.filename, filename), isNull(documents.sourceId)))
+    .orderBy(desc(documents.createdAt))
+    .limit(1);
+  return document;
+}
+
+/**
+ * Point a document at a new revision of its file and queue it for processing
+ */
+export async function updateDocumentFile(
+  documentId: number,
+  file: Pick<InsertDocument, 'fileType' | 'fileSize' | 'fileUrl' | 'fileKey' | 'contentHash' | 'version'>
+) {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  await db
+    .update(documents)
+    .set({
+      ...file,
+      status: 'pending',
+      errorMessage: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(documents.id, documentId));
+}
+
+/**
+ * Record an uploaded revision of a document
+ */
+export async function createDocumentVersion(data: InsertDocumentVersion) {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  const [version] = await db.insert(documentVersions).values(data).returning();
+  return version;
+}
+
+/**
+ * Record what re-ingesting a revision changed
+ */
+export async function updateDocumentVersionStats(
+  documentId: number,
+  version: number,
+  stats: { chunkCount: number; chunksAdded: number; chunksRemoved: number; chunksUnchanged: number }
+) {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  await db
+    .update(documentVersions)
+    .set(stats)
+    .where(and(eq(documentVersions.documentId, documentId), eq(documentVersions.version, version)));
+}
+
+/**
+ * Version history of a document, newest first
+ */
+export async function getDocumentVersions(documentId: number) {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  return db
+    .select()
+    .from(documentVersions)
+    .where(eq(documentVersions.documentId, documentId))
+    .orderBy(desc(documentVersions.version));
+}
+
 /**
  * Get document chunks
  */
@@ -123,14 +236,74 @@ export async function getDocumentChunks(documentId: number) {
 }
 
 /**
- * Delete document and its chunks
+ * Get every searchable chunk of a workspace's documents; parent chunks are only read through their children
+ */
+export async function getWorkspaceChunks(workspaceId: number) {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  return db
+    .select({
+      id: documentChunks.id,
+      documentId: documentChunks.documentId,
+      chunkIndex: documentChunks.chunkIndex,
+      content: documentChunks.content,
+      pageNumber: documentChunks.pageNumber,
+      heading: documentChunks.heading,
+    })
+    .from(documentChunks)
+    .innerJoin(documents, eq(documentChunks.documentId, documents.id))
+    .where(and(eq(documents.workspaceId, workspaceId), eq(documentChunks.isParent, false)));
+}
+
+/**
+ * Chunk count and highest chunk id of a workspace, which change whenever chunks are added or removed
+ */
+export async function getWorkspaceChunkStats(workspaceId: number): Promise<{ count: number; maxId: number }> {
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+  
+  const [row] = await db
+    .select({
+      count: sql<number>`count(*)::int`,
+      maxId: sql<number>`coalesce(max(${documentChunks.id}), 0)`,
+    })
+    .from(documentChunks)
+    .innerJoin(documents, eq(documentChunks.documentId, documents.id))
+    .where(and(eq(documents.workspaceId, workspaceId), eq(documentChunks.isParent, false)));
+  return { count: Number(row?.count ?? 0), maxId: Number(row?.maxId ?? 0) };
+}
+
+/**
+ * Parent chunks of the given child chunks, keyed by child id
+ */
+export async function getParentChunks(childIds: number[]) {
+  const parents = new Map<number, typeof documentChunks.$inferSelect>();
+  if (childIds.length === 0) return parents;
+
+  const db = getDb();
+  if (!db) throw new Error('Database not available');
+
+  const parent = alias(documentChunks, 'parent');
+  const rows = await db
+    .select({ childId: documentChunks.id, parent })
+    .from(documentChunks)
+    .innerJoin(parent, eq(documentChunks.parentChunkId, parent.id))
+    .where(inArray(documentChunks.id, childIds));
+  for (const row of rows) parents.set(row.childId, row.parent);
+  return parents;
+}
+
+/**
+ * Delete document, its chunks and its version history
  */
 export async function deleteDocument(documentId: number) {
   const db = getDb();
   if (!db) throw new Error('Database not available');
   
-  // Delete chunks first (foreign key constraint)
+  // Delete chunks and versions first (foreign key constraints)
   await db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+  await db.delete(documentVersions).where(eq(documentVersions.documentId, documentId));
   
   // Delete document
   await db.delete(documents).where(eq(documents.id, documentId));
@@ -15,15 +15,19 @@ export const documentsApiRouter = router({
       const { getWorkspaceById } = await import("../db");
       const workspace = await getWorkspaceById(input.workspaceId);
       const workspaceName = workspace?.name || "Unknown Workspace";
+      const { resolveRetrievalProfile } = await import("./retrieval-profile");
+      const { collection } = resolveRetrievalProfile(input.workspaceId, workspace);
 
       // Transform to match UI expectations
       return documents.map((doc) => ({
         id: doc.id,
         filename: doc.filename,
         status: doc.status,
-        collection: "documents", // Default collection name
+        collection,
         workspaceId: doc.workspaceId,
         workspaceName,
+        version: doc.version,
+        sourceId: doc.sourceId,
         chunksCreated: doc.chunkCount || 0,
         vectorsStored: doc.vectorsStored || 0,
         fileSize: formatFileSize(doc.fileSize),
@@ -51,8 +55,8 @@ export const documentsApiRouter = router({
       documentId: z.number(),
     }))
     .mutation(async ({ input, ctx }) => {
-      const { deleteDocumentWithChunks } = await import("../db");
-      await deleteDocumentWithChunks(input.documentId);
+      const { deleteDocumentWithEmbeddings } = await import("./processor");
+      await deleteDocumentWithEmbeddings(input.documentId);
       return { success: true };
     }),
 
@@ -62,8 +66,10 @@ export const documentsApiRouter = router({
       documentIds: z.array(z.number()),
     }))
     .mutation(async ({ input, ctx }) => {
-      const { bulkDeleteDocuments } = await import("../db");
-      await bulkDeleteDocuments(input.documentIds);
+      const { deleteDocumentWithEmbeddings } = await import("./processor");
+      for (const documentId of input.documentIds) {
+        await deleteDocumentWithEmbeddings(documentId);
+      }
       return { success: true };
     }),
 });
@@ -1,8 +1,12 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
 import { chunkDocument } from "./chunking-service";
 import { ingestFromBuffer, retrieveRelevantChunks } from "./rag-pipeline";
-import { qdrantService } from "../vectordb/qdrant-service";
+import { getVectorStore } from "../vectordb/store-registry";
+import { embeddingModelSchema } from "../embeddings/embeddings-router";
+import { listEmbeddingCollections } from "../embeddings/db";
+import { EmbeddingModelMismatchError } from "../embeddings/collections";
 
 /**
  * Documents Router
@@ -22,7 +26,7 @@ export const documentsRouter = router({
         chunkingStrategy: z.enum(["fixed", "semantic", "recursive"]).optional(),
         chunkSize: z.number().optional(),
         chunkOverlap: z.number().optional(),
-        embeddingModel: z.enum(["bge-large-en", "bge-base-en", "minilm-l6", "e5-large", "e5-base"]).optional(),
+        embeddingModel: embeddingModelSchema.optional(),
       })
     )
     .mutation(async ({ input }) => {
@@ -39,7 +43,7 @@ export const documentsRouter = router({
             chunkSize: input.chunkSize || 1000,
             chunkOverlap: input.chunkOverlap || 200,
           },
-          embeddingModel: input.embeddingModel || "bge-base-en",
+          embeddingModel: input.embeddingModel,
         });
 
         return {
@@ -50,6 +54,9 @@ export const documentsRouter = router({
           metadata: result.metadata,
         };
       } catch (error: any) {
+        if (error instanceof EmbeddingModelMismatchError) {
+          throw new TRPCError({ code: "CONFLICT", message: error.message });
+        }
         console.error("[Documents] Upload failed:", error);
         throw new Error(`Failed to process document: ${error.message}`);
       }
@@ -97,6 +104,7 @@ export const documentsRouter = router({
         collectionName: z.string(),
         workspaceId: z.number().optional(),
         limit: z.number().optional(),
+        mode: z.enum(["vector", "lexical", "hybrid"]).optional(), // Defaults to the workspace's retrieval profile
       })
     )
     .query(async ({ input }) => {
@@ -106,6 +114,7 @@ export const documentsRouter = router({
           input.collectionName,
           input.workspaceId ?? 1,
           input.limit ?? 5,
+          { mode: input.mode },
         );
         return results;
       } catch (error: any) {
@@ -117,13 +126,22 @@ export const documentsRouter = router({
   /**
    * List available collections
    */
-  listCollections: protectedProcedure.query(async () => {
+  listCollections: protectedProcedure.query(async ({ ctx }) => {
     try {
-      const names = await qdrantService.listCollections();
+      const store = await getVectorStore(ctx.user.id);
+      const names = await store.listCollections();
+      const bindings = await listEmbeddingCollections().catch(() => []);
       const collections = await Promise.all(
         names.map(async (name) => {
-          const vectorCount = await qdrantService.count(name).catch(() => 0);
-          return { name, vectorCount, createdAt: new Date().toISOString() };
+          const vectorCount = await store.count(name).catch(() => 0);
+          const binding = bindings.find((b) => b.name === name);
+          return {
+            name,
+            vectorCount,
+            embeddingModel: binding?.embeddingModel ?? null,
+            dimensions: binding?.dimensions ?? null,
+            createdAt: (binding?.createdAt ?? new Date()).toISOString(),
+          };
         })
       );
       return collections;
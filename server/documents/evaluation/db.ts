@@ -0,0 +1,197 @@
+/**
+ * Retrieval Evaluation — Database CRUD for sets, cases and runs
+ */
+import { asc, count, desc, eq, inArray } from "drizzle-orm";
+import { getDb } from "../../db";
+import {
+  retrievalEvalCases,
+  retrievalEvalRuns,
+  retrievalEvalSets,
+  type InsertRetrievalEvalCase,
+  type InsertRetrievalEvalRun,
+  type InsertRetrievalEvalSet,
+  type RetrievalEvalCase,
+  type RetrievalEvalRun,
+  type RetrievalEvalSet,
+} from "../../../drizzle/schema";
+
+// ============================================================================
+// Sets
+// ============================================================================
+
+export async function createEvalSet(data: InsertRetrievalEvalSet): Promise<RetrievalEvalSet> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.insert(retrievalEvalSets).values(data).returning();
+  return row;
+}
+
+export async function getEvalSetById(id: number): Promise<RetrievalEvalSet | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(retrievalEvalSets).where(eq(retrievalEvalSets.id, id));
+  return row ?? null;
+}
+
+/**
+ * A workspace's sets with how many cases each holds
+ */
+export async function getEvalSetsByWorkspace(
+  workspaceId: number
+): Promise<(RetrievalEvalSet & { caseCount: number })[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const sets = await db
+    .select()
+    .from(retrievalEvalSets)
+    .where(eq(retrievalEvalSets.workspaceId, workspaceId))
+    .orderBy(desc(retrievalEvalSets.createdAt));
+  if (sets.length === 0) return [];
+
+  const counts = await db
+    .select({ setId: retrievalEvalCases.setId, total: count() })
+    .from(retrievalEvalCases)
+    .where(inArray(retrievalEvalCases.setId, sets.map((set) => set.id)))
+    .groupBy(retrievalEvalCases.setId);
+  const bySet = new Map(counts.map((row) => [row.setId, Number(row.total)]));
+
+  return sets.map((set) => ({ ...set, caseCount: bySet.get(set.id) ?? 0 }));
+}
+
+export async function updateEvalSet(
+  id: number,
+  data: Partial<InsertRetrievalEvalSet>
+): Promise<RetrievalEvalSet | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .update(retrievalEvalSets)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(retrievalEvalSets.id, id))
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * Delete a set with its cases and runs
+ */
+export async function deleteEvalSet(id: number): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(retrievalEvalSets).where(eq(retrievalEvalSets.id, id));
+}
+
+// ============================================================================
+// Cases
+// ============================================================================
+
+export async function getEvalCases(setId: number): Promise<RetrievalEvalCase[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(retrievalEvalCases)
+    .where(eq(retrievalEvalCases.setId, setId))
+    .orderBy(asc(retrievalEvalCases.id));
+}
+
+export async function getEvalCaseById(id: number): Promise<RetrievalEvalCase | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(retrievalEvalCases).where(eq(retrievalEvalCases.id, id));
+  return row ?? null;
+}
+
+export async function createEvalCases(data: InsertRetrievalEvalCase[]): Promise<RetrievalEvalCase[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+  if (data.length === 0) return [];
+
+  return db.insert(retrievalEvalCases).values(data).returning();
+}
+
+export async function updateEvalCase(
+  id: number,
+  data: Partial<InsertRetrievalEvalCase>
+): Promise<RetrievalEvalCase | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.update(retrievalEvalCases).set(data).where(eq(retrievalEvalCases.id, id)).returning();
+  return row ?? null;
+}
+
+export async function deleteEvalCase(id: number): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(retrievalEvalCases).where(eq(retrievalEvalCases.id, id));
+}
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+export async function createEvalRun(data: InsertRetrievalEvalRun): Promise<RetrievalEvalRun> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.insert(retrievalEvalRuns).values(data).returning();
+  return row;
+}
+
+export async function getEvalRunById(id: number): Promise<RetrievalEvalRun | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(retrievalEvalRuns).where(eq(retrievalEvalRuns.id, id));
+  return row ?? null;
+}
+
+/**
+ * A set's run history, newest first, without per-case results
+ */
+export async function getEvalRunsBySet(setId: number, limit = 50): Promise<Omit<RetrievalEvalRun, "results">[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select({
+      id: retrievalEvalRuns.id,
+      setId: retrievalEvalRuns.setId,
+      workspaceId: retrievalEvalRuns.workspaceId,
+      label: retrievalEvalRuns.label,
+      k: retrievalEvalRuns.k,
+      profile: retrievalEvalRuns.profile,
+      generator: retrievalEvalRuns.generator,
+      judge: retrievalEvalRuns.judge,
+      status: retrievalEvalRuns.status,
+      metrics: retrievalEvalRuns.metrics,
+      error: retrievalEvalRuns.error,
+      createdBy: retrievalEvalRuns.createdBy,
+      startedAt: retrievalEvalRuns.startedAt,
+      completedAt: retrievalEvalRuns.completedAt,
+    })
+    .from(retrievalEvalRuns)
+    .where(eq(retrievalEvalRuns.setId, setId))
+    .orderBy(desc(retrievalEvalRuns.startedAt))
+    .limit(limit);
+}
+
+export async function updateEvalRun(
+  id: number,
+  data: Partial<InsertRetrievalEvalRun>
+): Promise<RetrievalEvalRun | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.update(retrievalEvalRuns).set(data).where(eq(retrievalEvalRuns.id, id)).returning();
+  return row ?? null;
+}
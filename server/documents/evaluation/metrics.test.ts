@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { compareRuns, scoreRanking, summarizeResults } from "./metrics";
+
+const ref = (chunkId: number, documentId: number) => ({ chunkId, documentId });
+
+const result = (caseId: number, scores: { recall: number; reciprocalRank: number; ndcg: number }, extra = {}) => ({
+  caseId,
+  question: `q${caseId}`,
+  retrieved: [],
+  latencyMs: 10,
+  ...scores,
+  ...extra,
+});
+
+describe("scoreRanking", () => {
+  it("should score expected chunks by recall, reciprocal rank and nDCG", () => {
+    const scores = scoreRanking(
+      [ref(1, 10), ref(7, 10), ref(2, 11), ref(8, 12)],
+      { chunkIds: [7, 8, 9], documentIds: [] },
+      4
+    );
+
+    expect(scores.relevant).toEqual([false, true, false, true]);
+    expect(scores.recall).toBeCloseTo(2 / 3);
+    expect(scores.reciprocalRank).toBe(0.5);
+    const dcg = 1 / Math.log2(3) + 1 / Math.log2(5);
+    const ideal = 1 + 1 / Math.log2(3) + 1 / Math.log2(4);
+    expect(scores.ndcg).toBeCloseTo(dcg / ideal);
+  });
+
+  it("should credit an expected document once however many of its chunks are retrieved", () => {
+    const scores = scoreRanking([ref(1, 10), ref(2, 10), ref(3, 11)], { chunkIds: [], documentIds: [10, 11] }, 3);
+
+    expect(scores.relevant).toEqual([true, true, true]);
+    expect(scores.recall).toBe(1);
+    expect(scores.reciprocalRank).toBe(1);
+    expect(scores.ndcg).toBeCloseTo((1 + 1 / Math.log2(4)) / (1 + 1 / Math.log2(3)));
+  });
+
+  it("should only look at the top k results", () => {
+    const scores = scoreRanking([ref(1, 10), ref(2, 11)], { chunkIds: [2], documentIds: [] }, 1);
+
+    expect(scores).toEqual({ recall: 0, reciprocalRank: 0, ndcg: 0, relevant: [false] });
+  });
+});
+
+describe("summarizeResults", () => {
+  it("should average retrieval metrics over all cases and answer scores over judged ones", () => {
+    const metrics = summarizeResults([
+      result(1, { recall: 1, reciprocalRank: 1, ndcg: 1 }, { faithfulness: 0.8, answerCorrectness: 1 }),
+      result(2, { recall: 0.5, reciprocalRank: 0.5, ndcg: 0.4 }, { faithfulness: 0.4, answerCorrectness: null }),
+      result(3, { recall: 0, reciprocalRank: 0, ndcg: 0 }, { error: "Retrieval failed" }),
+    ]);
+
+    expect(metrics).toMatchObject({ cases: 3, judged: 2, answerCorrectness: 1, latencyMs: 10 });
+    expect(metrics.recallAtK).toBeCloseTo(0.5);
+    expect(metrics.mrr).toBeCloseTo(0.5);
+    expect(metrics.ndcg).toBeCloseTo(1.4 / 3);
+    expect(metrics.faithfulness).toBeCloseTo(0.6);
+  });
+});
+
+describe("compareRuns", () => {
+  it("should report metric deltas and which cases moved", () => {
+    const base = {
+      metrics: summarizeResults([
+        result(1, { recall: 1, reciprocalRank: 1, ndcg: 1 }),
+        result(2, { recall: 0, reciprocalRank: 0, ndcg: 0 }),
+        result(3, { recall: 1, reciprocalRank: 1, ndcg: 1 }),
+      ]),
+      results: [
+        result(1, { recall: 1, reciprocalRank: 1, ndcg: 1 }),
+        result(2, { recall: 0, reciprocalRank: 0, ndcg: 0 }),
+        result(3, { recall: 1, reciprocalRank: 1, ndcg: 1 }),
+      ],
+    };
+    const candidateResults = [
+      result(1, { recall: 1, reciprocalRank: 0.5, ndcg: 0.6 }),
+      result(2, { recall: 1, reciprocalRank: 1, ndcg: 1 }),
+      result(4, { recall: 1, reciprocalRank: 1, ndcg: 1 }),
+    ];
+    const comparison = compareRuns(base, { metrics: summarizeResults(candidateResults), results: candidateResults });
+
+    expect(comparison.deltas.recallAtK).toBeCloseTo(1 / 3);
+    expect(comparison.deltas.faithfulness).toBeNull();
+    expect(comparison.cases.map((c) => [c.caseId, c.change])).toEqual([
+      [1, "regressed"],
+      [2, "improved"],
+      [4, "added"],
+      [3, "removed"],
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Retrieval Evaluation — Metrics
+ *
+ * Ranking metrics for one question's retrieved chunks against its expected
+ * chunks or documents, averaged per run, and run-to-run comparison. A case
+ * with expected chunk IDs is scored on those chunks; otherwise on documents,
+ * where any chunk of an expected document counts but only the first one
+ * found earns credit.
+ */
+import type { RetrievalEvalCaseResult, RetrievalEvalMetrics } from "../../../drizzle/schema";
+
+export interface RetrievedRef {
+  chunkId: number | null;
+  documentId: number | null;
+}
+
+export interface ExpectedRefs {
+  chunkIds: number[];
+  documentIds: number[];
+}
+
+export interface RankingScores {
+  recall: number; // Share of expected targets in the top k
+  reciprocalRank: number; // 1 / rank of the first relevant result, 0 if none
+  ndcg: number; // Binary-gain nDCG@k
+  relevant: boolean[]; // Per retrieved result, within the top k
+}
+
+/**
+ * The expected target a retrieved result hits, or null
+ */
+function targetOf(result: RetrievedRef, expected: ExpectedRefs): string | null {
+  if (expected.chunkIds.length > 0) {
+    return result.chunkId !== null && expected.chunkIds.includes(result.chunkId) ? `chunk:${result.chunkId}` : null;
+  }
+  return result.documentId !== null && expected.documentIds.includes(result.documentId)
+    ? `document:${result.documentId}`
+    : null;
+}
+
+export function scoreRanking(retrieved: RetrievedRef[], expected: ExpectedRefs, k: number): RankingScores {
+  const targets = new Set(expected.chunkIds.length > 0 ? expected.chunkIds : expected.documentIds).size;
+  const top = retrieved.slice(0, k);
+  const found = new Set<string>();
+  const relevant: boolean[] = [];
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  top.forEach((result, rank) => {
+    const target = targetOf(result, expected);
+    relevant.push(target !== null);
+    if (target === null) return;
+    if (reciprocalRank === 0) reciprocalRank = 1 / (rank + 1);
+    // A second chunk of an already found document (or a duplicate chunk) adds nothing
+    if (!found.has(target)) {
+      found.add(target);
+      dcg += 1 / Math.log2(rank + 2);
+    }
+  });
+
+  let idealDcg = 0;
+  for (let rank = 0; rank < Math.min(targets, k); rank++) {
+    idealDcg += 1 / Math.log2(rank + 2);
+  }
+
+  return {
+    recall: targets > 0 ? found.size / targets : 0,
+    reciprocalRank,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    relevant,
+  };
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Average a run's case results; answer scores only over the cases that have them
+ */
+export function summarizeResults(results: RetrievalEvalCaseResult[]): RetrievalEvalMetrics {
+  const faithfulness = results
+    .map((result) => result.faithfulness)
+    .filter((score): score is number => typeof score === "number");
+  const correctness = results
+    .map((result) => result.answerCorrectness)
+    .filter((score): score is number => typeof score === "number");
+
+  return {
+    cases: results.length,
+    recallAtK: mean(results.map((result) => result.recall)) ?? 0,
+    mrr: mean(results.map((result) => result.reciprocalRank)) ?? 0,
+    ndcg: mean(results.map((result) => result.ndcg)) ?? 0,
+    faithfulness: mean(faithfulness),
+    answerCorrectness: mean(correctness),
+    judged: faithfulness.length,
+    latencyMs: Math.round(mean(results.map((result) => result.latencyMs)) ?? 0),
+  };
+}
+
+export const COMPARED_METRICS = ["recallAtK", "mrr", "ndcg", "faithfulness", "answerCorrectness"] as const;
+export type ComparedMetric = (typeof COMPARED_METRICS)[number];
+
+export interface CaseComparison {
+  caseId: number;
+  question: string;
+  base: { recall: number; reciprocalRank: number; ndcg: number; faithfulness: number | null } | null;
+  candidate: { recall: number; reciprocalRank: number; ndcg: number; faithfulness: number | null } | null;
+  change: "improved" | "regressed" | "unchanged" | "added" | "removed";
+}
+
+export interface RunComparison {
+  deltas: Record<ComparedMetric, number | null>; // candidate - base; null when either run lacks the metric
+  cases: CaseComparison[];
+}
+
+function caseScores(result: RetrievalEvalCaseResult) {
+  return {
+    recall: result.recall,
+    reciprocalRank: result.reciprocalRank,
+    ndcg: result.ndcg,
+    faithfulness: result.faithfulness ?? null,
+  };
+}
+
+/**
+ * Compare two runs of the same set, metric by metric and case by case; a
+ * case changes by its nDCG, which moves with both recall and rank
+ */
+export function compareRuns(
+  base: { metrics: RetrievalEvalMetrics | null; results: RetrievalEvalCaseResult[] },
+  candidate: { metrics: RetrievalEvalMetrics | null; results: RetrievalEvalCaseResult[] }
+): RunComparison {
+  const deltas = {} as Record<ComparedMetric, number | null>;
+  for (const metric of COMPARED_METRICS) {
+    const before = base.metrics?.[metric];
+    const after = candidate.metrics?.[metric];
+    deltas[metric] = typeof before === "number" && typeof after === "number" ? after - before : null;
+  }
+
+  const baseById = new Map(base.results.map((result) => [result.caseId, result]));
+  const cases: CaseComparison[] = candidate.results.map((result) => {
+    const before = baseById.get(result.caseId);
+    baseById.delete(result.caseId);
+    if (!before) {
+      return { caseId: result.caseId, question: result.question, base: null, candidate: caseScores(result), change: "added" };
+    }
+    const delta = result.ndcg - before.ndcg;
+    return {
+      caseId: result.caseId,
+      question: result.question,
+      base: caseScores(before),
+      candidate: caseScores(result),
+      change: Math.abs(delta) < 1e-9 ? "unchanged" : delta > 0 ? "improved" : "regressed",
+    };
+  });
+  baseById.forEach((result) => {
+    cases.push({ caseId: result.caseId, question: result.question, base: caseScores(result), candidate: null, change: "removed" });
+  });
+
+  return { deltas, cases };
+}
@@ -0,0 +1,261 @@
+/**
+ * Retrieval Evaluation — tRPC Router
+ *
+ *   - listSets / getSet / createSet / updateSet / deleteSet: a workspace's
+ *     evaluation sets and their cases
+ *   - addCases / updateCase / deleteCase: questions with the chunks or
+ *     documents that should be retrieved, and an optional reference answer
+ *   - run: evaluate a set in the background, once per profile variant
+ *   - runs / getRun / compare: run history and run-to-run comparison
+ */
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../../_core/trpc";
+import { hasWorkspaceAccess } from "../../db";
+import { retrievalProfileSchema } from "../../vectordb/vectordb-router";
+import type { RetrievalProfile } from "../../../drizzle/schema";
+import {
+  createEvalCases,
+  createEvalSet,
+  deleteEvalCase,
+  deleteEvalSet,
+  getEvalCaseById,
+  getEvalCases,
+  getEvalRunById,
+  getEvalRunsBySet,
+  getEvalSetById,
+  getEvalSetsByWorkspace,
+  updateEvalCase,
+  updateEvalSet,
+} from "./db";
+import { compareRuns } from "./metrics";
+import { resolveEvalModel, startEvaluationRun } from "./service";
+
+const idListSchema = z.array(z.number().int().positive()).max(100);
+
+const caseFields = {
+  question: z.string().min(1).max(4000),
+  expectedDocumentIds: idListSchema.default([]),
+  expectedChunkIds: idListSchema.default([]),
+  referenceAnswer: z.string().max(20000).nullable().optional(),
+};
+
+const caseSchema = z
+  .object(caseFields)
+  .refine((value) => value.expectedDocumentIds.length > 0 || value.expectedChunkIds.length > 0, {
+    message: "A case needs at least one expected document or chunk",
+  });
+
+const modelRefSchema = z.object({
+  providerId: z.number(),
+  model: z.string().max(255).optional(),
+});
+
+async function assertWorkspaceAccess(userId: number, workspaceId: number) {
+  if (!(await hasWorkspaceAccess(userId, workspaceId))) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+  }
+}
+
+async function getAccessibleSet(userId: number, id: number) {
+  const set = await getEvalSetById(id);
+  if (!set) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Evaluation set not found" });
+  }
+  await assertWorkspaceAccess(userId, set.workspaceId);
+  return set;
+}
+
+async function getAccessibleRun(userId: number, id: number) {
+  const run = await getEvalRunById(id);
+  if (!run) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Evaluation run not found" });
+  }
+  await assertWorkspaceAccess(userId, run.workspaceId);
+  return run;
+}
+
+export const retrievalEvalRouter = router({
+  listSets: protectedProcedure
+    .input(z.object({ workspaceId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      return getEvalSetsByWorkspace(input.workspaceId);
+    }),
+
+  getSet: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const set = await getAccessibleSet(ctx.user.id, input.id);
+      return { ...set, cases: await getEvalCases(set.id) };
+    }),
+
+  createSet: protectedProcedure
+    .input(
+      z.object({
+        workspaceId: z.number(),
+        name: z.string().min(1).max(255),
+        description: z.string().max(2000).nullable().optional(),
+        cases: z.array(caseSchema).max(1000).default([]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+
+      const set = await createEvalSet({
+        workspaceId: input.workspaceId,
+        name: input.name,
+        description: input.description ?? null,
+        createdBy: ctx.user.id,
+      });
+      const cases = await createEvalCases(input.cases.map((evalCase) => ({ ...evalCase, setId: set.id })));
+      return { ...set, cases };
+    }),
+
+  updateSet: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        name: z.string().min(1).max(255).optional(),
+        description: z.string().max(2000).nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      await getAccessibleSet(ctx.user.id, id);
+      return updateEvalSet(id, changes);
+    }),
+
+  deleteSet: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getAccessibleSet(ctx.user.id, input.id);
+      await deleteEvalSet(input.id);
+      return { success: true };
+    }),
+
+  addCases: protectedProcedure
+    .input(z.object({ setId: z.number(), cases: z.array(caseSchema).min(1).max(1000) }))
+    .mutation(async ({ ctx, input }) => {
+      await getAccessibleSet(ctx.user.id, input.setId);
+      return createEvalCases(input.cases.map((evalCase) => ({ ...evalCase, setId: input.setId })));
+    }),
+
+  updateCase: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        question: caseFields.question.optional(),
+        expectedDocumentIds: idListSchema.optional(),
+        expectedChunkIds: idListSchema.optional(),
+        referenceAnswer: caseFields.referenceAnswer,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      const evalCase = await getEvalCaseById(id);
+      if (!evalCase) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Evaluation case not found" });
+      }
+      await getAccessibleSet(ctx.user.id, evalCase.setId);
+
+      const documentIds = changes.expectedDocumentIds ?? evalCase.expectedDocumentIds;
+      const chunkIds = changes.expectedChunkIds ?? evalCase.expectedChunkIds;
+      if (documentIds.length === 0 && chunkIds.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A case needs at least one expected document or chunk" });
+      }
+      return updateEvalCase(id, changes);
+    }),
+
+  deleteCase: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const evalCase = await getEvalCaseById(input.id);
+      if (!evalCase) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Evaluation case not found" });
+      }
+      await getAccessibleSet(ctx.user.id, evalCase.setId);
+      await deleteEvalCase(input.id);
+      return { success: true };
+    }),
+
+  /**
+   * Start one run per profile variant (the workspace's own profile when none
+   * are given); answers are generated and judged when both models are set
+   */
+  run: protectedProcedure
+    .input(
+      z
+        .object({
+          setId: z.number(),
+          k: z.number().int().min(1).max(50).default(10),
+          label: z.string().max(255).optional(),
+          variants: z
+            .array(
+              z.object({
+                label: z.string().max(255).optional(),
+                profile: retrievalProfileSchema.partial(),
+              })
+            )
+            .max(10)
+            .optional(),
+          generator: modelRefSchema.optional(),
+          judge: modelRefSchema.optional(),
+        })
+        .refine((value) => !value.generator === !value.judge, {
+          message: "Answer faithfulness needs both a generator and a judge model",
+        })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const set = await getAccessibleSet(ctx.user.id, input.setId);
+      if ((await getEvalCases(set.id)).length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Evaluation set has no cases" });
+      }
+      for (const ref of [input.generator, input.judge]) {
+        if (!ref) continue;
+        try {
+          resolveEvalModel(ref);
+        } catch (error: any) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+      }
+
+      const variants = input.variants?.length ? input.variants : [{ label: input.label, profile: {} }];
+      return Promise.all(
+        variants.map((variant) =>
+          startEvaluationRun({
+            setId: set.id,
+            workspaceId: set.workspaceId,
+            createdBy: ctx.user.id,
+            label: variant.label ?? input.label ?? null,
+            k: input.k,
+            overrides: variant.profile as Partial<RetrievalProfile>,
+            generator: input.generator ?? null,
+            judge: input.judge ?? null,
+          })
+        )
+      );
+    }),
+
+  runs: protectedProcedure
+    .input(z.object({ setId: z.number(), limit: z.number().int().min(1).max(200).default(50) }))
+    .query(async ({ ctx, input }) => {
+      await getAccessibleSet(ctx.user.id, input.setId);
+      return getEvalRunsBySet(input.setId, input.limit);
+    }),
+
+  getRun: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => getAccessibleRun(ctx.user.id, input.id)),
+
+  compare: protectedProcedure
+    .input(z.object({ baseRunId: z.number(), runId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const base = await getAccessibleRun(ctx.user.id, input.baseRunId);
+      const candidate = await getAccessibleRun(ctx.user.id, input.runId);
+      if (base.setId !== candidate.setId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Runs belong to different evaluation sets" });
+      }
+      return { base, candidate, ...compareRuns(base, candidate) };
+    }),
+});
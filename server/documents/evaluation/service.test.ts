@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getEvalRunById: vi.fn(),
+  getEvalCases: vi.fn(),
+  createEvalRun: vi.fn(),
+  updateEvalRun: vi.fn(async (id: number, data: object) => ({ id, ...data })),
+}));
+vi.mock("../rag-pipeline", () => ({
+  retrieveRelevantChunks: vi.fn(),
+  buildRagContext: vi.fn(),
+}));
+vi.mock("../retrieval-profile", () => ({
+  getRetrievalProfile: vi.fn(),
+}));
+const providers: Record<number, { generate: ReturnType<typeof vi.fn> }> = {};
+vi.mock("../../providers/registry", () => ({
+  getProviderRegistry: () => ({ getProvider: (id: number) => providers[id] }),
+}));
+
+import * as evalDb from "./db";
+import { buildRagContext, retrieveRelevantChunks } from "../rag-pipeline";
+import { getRetrievalProfile } from "../retrieval-profile";
+import { executeEvaluationRun, parseJudgeVerdict, startEvaluationRun } from "./service";
+
+const profile = {
+  mode: "hybrid",
+  vectorWeight: 1,
+  lexicalWeight: 1,
+  reranker: null,
+  topK: 5,
+  scoreThreshold: null,
+  maxContextTokens: 4000,
+  citationStyle: "source",
+  collection: "workspace-5",
+  embeddingModel: null,
+  chunking: { strategy: "semantic", size: 512, overlap: 50, tokenizer: null, parentSize: null },
+} as const;
+
+const run = (extra: Record<string, unknown> = {}) =>
+  ({ id: 9, setId: 3, workspaceId: 5, k: 3, profile, generator: null, judge: null, ...extra }) as any;
+
+const evalCase = (id: number, extra: Record<string, unknown> = {}) =>
+  ({
+    id,
+    setId: 3,
+    question: `question ${id}`,
+    expectedDocumentIds: [],
+    expectedChunkIds: [],
+    referenceAnswer: null,
+    ...extra,
+  }) as any;
+
+const chunk = (chunkId: number, documentId: number) => ({ text: `chunk ${chunkId}`, score: 1, metadata: { chunkId, documentId } });
+
+describe("parseJudgeVerdict", () => {
+  it("should read a fenced verdict and clamp its scores", () => {
+    expect(
+      parseJudgeVerdict('Here you go:\n```json\n{"faithfulness": 1.2, "correctness": "0.5", "reasoning": "ok"}\n```')
+    ).toEqual({ faithfulness: 1, answerCorrectness: 0.5, reasoning: "ok" });
+    expect(() => parseJudgeVerdict('{"correctness": 1}')).toThrow(/faithfulness/);
+  });
+});
+
+describe("executeEvaluationRun", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const id of Object.keys(providers)) delete providers[Number(id)];
+  });
+
+  it("should score each case's retrieval and record the run's metrics", async () => {
+    vi.mocked(evalDb.getEvalRunById).mockResolvedValueOnce(run());
+    vi.mocked(evalDb.getEvalCases).mockResolvedValueOnce([
+      evalCase(1, { expectedChunkIds: [11] }),
+      evalCase(2, { expectedDocumentIds: [100] }),
+    ]);
+    vi.mocked(retrieveRelevantChunks)
+      .mockResolvedValueOnce([chunk(10, 100), chunk(11, 100)])
+      .mockRejectedValueOnce(new Error("collection missing"));
+
+    const finished = await executeEvaluationRun(9);
+
+    expect(retrieveRelevantChunks).toHaveBeenCalledWith("question 1", "workspace-5", 5, 3, {
+      profile: expect.objectContaining({ mode: "hybrid", topK: 5 }),
+    });
+    expect(finished?.status).toBe("completed");
+    expect(finished?.results).toMatchObject([
+      { caseId: 1, recall: 1, reciprocalRank: 0.5, retrieved: [{ relevant: false }, { relevant: true }] },
+      { caseId: 2, recall: 0, error: "Retrieval failed: collection missing" },
+    ]);
+    expect(finished?.metrics).toMatchObject({ cases: 2, recallAtK: 0.5, mrr: 0.25, faithfulness: null, judged: 0 });
+    // Progress is saved after every case
+    expect(evalDb.updateEvalRun).toHaveBeenCalledTimes(3);
+  });
+
+  it("should answer from the RAG context and have the judge score the answer", async () => {
+    providers[1] = { generate: vi.fn().mockResolvedValue({ content: "Restart the router." }) };
+    providers[2] = {
+      generate: vi.fn().mockResolvedValue({ content: '{"faithfulness": 0.75, "correctness": 1, "reasoning": "Mostly supported"}' }),
+    };
+    vi.mocked(evalDb.getEvalRunById).mockResolvedValueOnce(
+      run({ generator: { providerId: 1, model: "small" }, judge: { providerId: 2 } })
+    );
+    vi.mocked(evalDb.getEvalCases).mockResolvedValueOnce([
+      evalCase(1, { expectedDocumentIds: [100], referenceAnswer: "Restart it." }),
+    ]);
+    vi.mocked(retrieveRelevantChunks).mockResolvedValueOnce([chunk(10, 100)]);
+    vi.mocked(buildRagContext).mockResolvedValueOnce({ context: "[Source 1] Restart the router.", citationInstruction: "" } as any);
+
+    const finished = await executeEvaluationRun(9);
+
+    expect(providers[1].generate).toHaveBeenCalledWith(expect.objectContaining({ model: "small", temperature: 0 }));
+    const judgePrompt = providers[2].generate.mock.calls[0][0].messages[1].content;
+    expect(judgePrompt).toContain("Answer:\nRestart the router.");
+    expect(judgePrompt).toContain("Reference answer:\nRestart it.");
+    expect(finished?.results[0]).toMatchObject({
+      answer: "Restart the router.",
+      faithfulness: 0.75,
+      answerCorrectness: 1,
+      judgeReasoning: "Mostly supported",
+    });
+    expect(finished?.metrics).toMatchObject({ faithfulness: 0.75, answerCorrectness: 1, judged: 1 });
+  });
+
+  it("should fail the run when its models are no longer registered", async () => {
+    vi.mocked(evalDb.getEvalRunById).mockResolvedValueOnce(run({ generator: { providerId: 1 }, judge: { providerId: 2 } }));
+    vi.mocked(evalDb.getEvalCases).mockResolvedValueOnce([evalCase(1, { expectedDocumentIds: [100] })]);
+
+    const finished = await executeEvaluationRun(9);
+
+    expect(finished).toMatchObject({ status: "failed", error: "Provider 1 is not registered" });
+    expect(retrieveRelevantChunks).not.toHaveBeenCalled();
+  });
+});
+
+describe("startEvaluationRun", () => {
+  it("should snapshot the workspace profile with the variant's overrides", async () => {
+    vi.mocked(getRetrievalProfile).mockResolvedValueOnce({ ...profile, embeddingModel: undefined } as any);
+    vi.mocked(evalDb.createEvalRun).mockResolvedValueOnce(run({ id: 12 }));
+    vi.mocked(evalDb.getEvalRunById).mockResolvedValueOnce(null);
+
+    await startEvaluationRun({ setId: 3, workspaceId: 5, createdBy: 1, k: 3, overrides: { mode: "lexical" } });
+
+    expect(evalDb.createEvalRun).toHaveBeenCalledWith(
+      expect.objectContaining({
+        setId: 3,
+        k: 3,
+        profile: expect.objectContaining({ mode: "lexical", collection: "workspace-5", embeddingModel: null }),
+      })
+    );
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Retrieval Evaluation — Runner
+ *
+ * Runs an evaluation set's questions through retrieveRelevantChunks under one
+ * retrieval profile and scores each against its expected chunks/documents.
+ * With a generator and a judge model, each question is also answered from
+ * its RAG context (as chat would) and the judge scores the answer's
+ * faithfulness to that context, and its correctness against the reference
+ * answer when the case has one.
+ *
+ * Profile overrides cover search settings only; chunking and embedding
+ * changes are compared by re-ingesting and running the set again.
+ */
+import type {
+  RetrievalEvalCase,
+  RetrievalEvalCaseResult,
+  RetrievalEvalModelRef,
+  RetrievalEvalProfile,
+  RetrievalEvalRun,
+  RetrievalProfile,
+} from "../../../drizzle/schema";
+import { getProviderRegistry } from "../../providers/registry";
+import type { ILLMProvider } from "../../providers/base";
+import type { Message } from "../../providers/types";
+import { buildRagContext, retrieveRelevantChunks } from "../rag-pipeline";
+import { getRetrievalProfile } from "../retrieval-profile";
+import { scoreRanking, summarizeResults } from "./metrics";
+import * as evalDb from "./db";
+
+export interface StartEvalRunInput {
+  setId: number;
+  workspaceId: number;
+  createdBy: number;
+  label?: string | null;
+  k: number;
+  overrides?: Partial<RetrievalProfile>;
+  generator?: RetrievalEvalModelRef | null;
+  judge?: RetrievalEvalModelRef | null;
+}
+
+export interface JudgeVerdict {
+  faithfulness: number | null;
+  answerCorrectness: number | null;
+  reasoning: string;
+}
+
+const JUDGE_PROMPT = `You grade answers written by a retrieval-augmented assistant.
+
+Faithfulness: the share of the answer's claims that the context supports, from 0 (none) to 1 (every claim). An answer that says the context lacks the information is faithful.
+Correctness: how well the answer matches the reference answer, from 0 to 1. Use null when no reference answer is given.
+
+Reply with only a JSON object: {"faithfulness": <0-1>, "correctness": <0-1 or null>, "reasoning": "<one or two sentences>"}`;
+
+function toScore(value: unknown): number | null {
+  const score = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof score !== "number" || !Number.isFinite(score)) return null;
+  return Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Read the judge's JSON verdict, tolerating prose or code fences around it
+ */
+export function parseJudgeVerdict(content: string): JudgeVerdict {
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("Judge response contains no JSON object");
+  }
+  let verdict: any;
+  try {
+    verdict = JSON.parse(content.slice(start, end + 1));
+  } catch (error: any) {
+    throw new Error(`Judge response is not valid JSON: ${error.message}`);
+  }
+  const faithfulness = toScore(verdict.faithfulness);
+  if (faithfulness === null) {
+    throw new Error("Judge response has no faithfulness score");
+  }
+  return {
+    faithfulness,
+    answerCorrectness: toScore(verdict.correctness),
+    reasoning: typeof verdict.reasoning === "string" ? verdict.reasoning : "",
+  };
+}
+
+/**
+ * The registered provider a model reference points at
+ */
+export function resolveEvalModel(ref: RetrievalEvalModelRef): ILLMProvider {
+  const provider = getProviderRegistry().getProvider(ref.providerId);
+  if (!provider) {
+    throw new Error(`Provider ${ref.providerId} is not registered`);
+  }
+  return provider;
+}
+
+function searchSettings(profile: RetrievalEvalProfile): RetrievalProfile {
+  return {
+    mode: profile.mode,
+    vectorWeight: profile.vectorWeight,
+    lexicalWeight: profile.lexicalWeight,
+    reranker: profile.reranker,
+    topK: profile.topK,
+    scoreThreshold: profile.scoreThreshold,
+    maxContextTokens: profile.maxContextTokens,
+    citationStyle: profile.citationStyle,
+  };
+}
+
+async function answerAndJudge(
+  run: RetrievalEvalRun,
+  evalCase: RetrievalEvalCase,
+  generator: ILLMProvider,
+  judge: ILLMProvider
+): Promise<Pick<RetrievalEvalCaseResult, "answer" | "faithfulness" | "answerCorrectness" | "judgeReasoning">> {
+  const rag = await buildRagContext(run.workspaceId, evalCase.question, { profile: searchSettings(run.profile) });
+
+  const messages: Message[] = [
+    {
+      role: "system",
+      content: `You are a helpful assistant. Use the following context from the knowledge base to answer the user's question. ${rag.citationInstruction ? rag.citationInstruction + " " : ""}If the context doesn't contain relevant information, say so.\n\nContext:\n${rag.context}`,
+    },
+    { role: "user", content: evalCase.question },
+  ];
+  const answer = await generator.generate({ messages, model: run.generator?.model, temperature: 0, maxTokens: 1000 });
+
+  const verdict = await judge.generate({
+    messages: [
+      { role: "system", content: JUDGE_PROMPT },
+      {
+        role: "user",
+        content: [
+          `Question:\n${evalCase.question}`,
+          `Context:\n${rag.context || "(no context retrieved)"}`,
+          `Answer:\n${answer.content}`,
+          evalCase.referenceAnswer ? `Reference answer:\n${evalCase.referenceAnswer}` : "Reference answer: none",
+        ].join("\n\n"),
+      },
+    ],
+    model: run.judge?.model,
+    temperature: 0,
+    maxTokens: 500,
+  });
+  const parsed = parseJudgeVerdict(verdict.content);
+
+  return {
+    answer: answer.content,
+    faithfulness: parsed.faithfulness,
+    answerCorrectness: evalCase.referenceAnswer ? parsed.answerCorrectness : null,
+    judgeReasoning: parsed.reasoning,
+  };
+}
+
+async function evaluateCase(
+  run: RetrievalEvalRun,
+  evalCase: RetrievalEvalCase,
+  models: { generator: ILLMProvider; judge: ILLMProvider } | null
+): Promise<RetrievalEvalCaseResult> {
+  const expected = { chunkIds: evalCase.expectedChunkIds, documentIds: evalCase.expectedDocumentIds };
+  const startTime = Date.now();
+  let result: RetrievalEvalCaseResult;
+  try {
+    const chunks = await retrieveRelevantChunks(evalCase.question, run.profile.collection, run.workspaceId, run.k, {
+      profile: searchSettings(run.profile),
+    });
+    const latencyMs = Date.now() - startTime;
+    const retrieved = chunks.map((chunk) => ({
+      chunkId: typeof chunk.metadata?.chunkId === "number" ? chunk.metadata.chunkId : null,
+      documentId: typeof chunk.metadata?.documentId === "number" ? chunk.metadata.documentId : null,
+      score: chunk.score,
+    }));
+    const scores = scoreRanking(retrieved, expected, run.k);
+    result = {
+      caseId: evalCase.id,
+      question: evalCase.question,
+      retrieved: retrieved.map((ref, i) => ({ ...ref, relevant: scores.relevant[i] ?? false })),
+      recall: scores.recall,
+      reciprocalRank: scores.reciprocalRank,
+      ndcg: scores.ndcg,
+      latencyMs,
+    };
+  } catch (error: any) {
+    // A failed retrieval scores zero rather than dropping out of the averages
+    return {
+      caseId: evalCase.id,
+      question: evalCase.question,
+      retrieved: [],
+      recall: 0,
+      reciprocalRank: 0,
+      ndcg: 0,
+      latencyMs: Date.now() - startTime,
+      error: `Retrieval failed: ${error.message}`,
+    };
+  }
+
+  if (models) {
+    try {
+      Object.assign(result, await answerAndJudge(run, evalCase, models.generator, models.judge));
+    } catch (error: any) {
+      result.faithfulness = null;
+      result.error = `Answer scoring failed: ${error.message}`;
+    }
+  }
+  return result;
+}
+
+/**
+ * Evaluate every case of a run's set in order, saving results as they come
+ * in so the run's progress is visible
+ */
+export async function executeEvaluationRun(runId: number): Promise<RetrievalEvalRun | null> {
+  const run = await evalDb.getEvalRunById(runId);
+  if (!run) return null;
+
+  try {
+    const cases = await evalDb.getEvalCases(run.setId);
+    const models =
+      run.generator && run.judge
+        ? { generator: resolveEvalModel(run.generator), judge: resolveEvalModel(run.judge) }
+        : null;
+
+    const results: RetrievalEvalCaseResult[] = [];
+    for (const evalCase of cases) {
+      results.push(await evaluateCase(run, evalCase, models));
+      await evalDb.updateEvalRun(runId, { results });
+    }
+
+    const metrics = summarizeResults(results);
+    console.log(
+      `[RetrievalEval] Run ${runId}: recall@${run.k} ${metrics.recallAtK.toFixed(3)}, MRR ${metrics.mrr.toFixed(3)}, nDCG ${metrics.ndcg.toFixed(3)} over ${metrics.cases} cases`
+    );
+    return evalDb.updateEvalRun(runId, { status: "completed", metrics, results, completedAt: new Date() });
+  } catch (error: any) {
+    console.error(`[RetrievalEval] Run ${runId} failed:`, error);
+    return evalDb.updateEvalRun(runId, { status: "failed", error: error.message, completedAt: new Date() });
+  }
+}
+
+/**
+ * Record a run with the workspace's current profile (plus overrides) and
+ * evaluate it in the background
+ */
+export async function startEvaluationRun(input: StartEvalRunInput): Promise<RetrievalEvalRun> {
+  const current = await getRetrievalProfile(input.workspaceId);
+  const profile: RetrievalEvalProfile = {
+    ...current,
+    ...input.overrides,
+    embeddingModel: current.embeddingModel ?? null,
+  };
+
+  const run = await evalDb.createEvalRun({
+    setId: input.setId,
+    workspaceId: input.workspaceId,
+    label: input.label ?? null,
+    k: input.k,
+    profile,
+    generator: input.generator ?? null,
+    judge: input.judge ?? null,
+    createdBy: input.createdBy,
+  });
+
+  executeEvaluationRun(run.id).catch((error) =>
+    console.error(`[RetrievalEval] Run ${run.id} failed:`, error)
+  );
+  return run;
+}
@@ -0,0 +1,249 @@
+import { deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { extractFromBuffer } from "./extraction-service";
+import { ZipArchive } from "./extractors/zip";
+import { chunkStructuredDocument, chunkWithParents } from "./chunking-service";
+import { parseTiktokenRanks } from "./tokenizers/bpe";
+
+// Every UTF-8 byte is a token, so accented text has more tokens than characters
+const byteTokenizer = parseTiktokenRanks(
+  "bytes",
+  Array.from({ length: 256 }, (_, byte) => `${Buffer.from([byte]).toString("base64")} ${byte}`).join("\n"),
+  "cl100k"
+);
+
+/**
+ * Minimal ZIP writer for OOXML fixtures (deflated entries, CRC left at 0)
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const rels = (targets: Record<string, string>) =>
+  `<Relationships>${Object.entries(targets)
+    .map(([id, target]) => `<Relationship Id="${id}" Type="http://x/${target.includes("notes") ? "notesSlide" : "part"}" Target="${target}"/>`)
+    .join("")}</Relationships>`;
+
+const slide = (title: string, body: string[]) => `<p:sld xmlns:p="p" xmlns:a="a"><p:cSld><p:spTree>
+  <p:sp><p:nvSpPr><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp>
+  <p:sp><p:nvSpPr><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:txBody>${body
+    .map((text) => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`)
+    .join("")}</p:txBody></p:sp>
+</p:spTree></p:cSld></p:sld>`;
+
+const CHUNKING = { strategy: "semantic" as const, chunkSize: 400, chunkOverlap: 0 };
+
+describe("extractFromBuffer", () => {
+  it("should drop page chrome from HTML and keep headings, tables and code", async () => {
+    const html = `<html><head><title>Pump Manual</title><script>track()</script></head><body>
+      <header><a href="/">Home</a> | <a href="/docs">Docs</a></header>
+      <nav><ul><li>Installation</li><li>Maintenance</li></ul></nav>
+      <div class="content">
+        <h1>Pump Manual</h1>
+        <h2>Maintenance</h2>
+        <p>Replace the <strong>seal</strong> every year.</p>
+        <table><tr><th>Part</th><th>Interval</th></tr><tr><td>Seal</td><td>12 months</td></tr></table>
+        <pre><code class="language-bash">pumpctl reset --all</code></pre>
+      </div>
+      <footer>© Example Corp</footer>
+    </body></html>`;
+
+    const result = await extractFromBuffer(Buffer.from(html), "manual.html", "text/html");
+
+    expect(result.metadata).toMatchObject({ format: "html", title: "Pump Manual" });
+    expect(result.text).not.toMatch(/Home|Installation|Example Corp|track/);
+    expect(result.text).toContain("| Seal | 12 months |");
+
+    const chunks = chunkStructuredDocument(result.structure, CHUNKING);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toContain("Replace the seal every year.");
+    expect(chunks[0].metadata).toMatchObject({
+      heading: "Pump Manual > Maintenance",
+      sectionPath: ["Pump Manual", "Maintenance"],
+    });
+    const maintenance = result.structure.root.children[0] as any;
+    expect(maintenance.children[0].children[2]).toMatchObject({ type: "code", language: "bash" });
+  });
+
+  it("should read PPTX slides in presentation order with the slide number as page", async () => {
+    const pptx = zip({
+      "ppt/presentation.xml": `<p:presentation xmlns:p="p" xmlns:r="r"><p:sldIdLst>
+        <p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst></p:presentation>`,
+      "ppt/_rels/presentation.xml.rels": rels({ rId1: "slides/slide1.xml", rId2: "slides/slide2.xml" }),
+      "ppt/slides/slide1.xml": slide("Results", ["Uptime rose to 99.9%"]),
+      "ppt/slides/slide2.xml": slide("Agenda", ["Review", "Results"]),
+      "ppt/slides/_rels/slide1.xml.rels": rels({ rId1: "../notesSlides/notesSlide1.xml" }),
+      "ppt/notesSlides/notesSlide1.xml": `<p:notes xmlns:p="p" xmlns:a="a"><p:cSld><p:spTree><p:sp><p:nvSpPr><p:nvPr>
+        <p:ph type="body"/></p:nvPr></p:nvSpPr><p:txBody><a:p><a:r><a:t>Mention the outage</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:notes>`,
+      "docProps/core.xml": `<cp:coreProperties xmlns:cp="cp" xmlns:dc="dc"><dc:title>Q3 Review</dc:title></cp:coreProperties>`,
+    });
+
+    const result = await extractFromBuffer(pptx, "review.pptx");
+
+    expect(result.metadata).toMatchObject({ format: "pptx", title: "Q3 Review", pages: 2 });
+    expect(result.text).toBe(
+      "Agenda\n\nReview\n\nResults\n\nResults\n\nUptime rose to 99.9%\n\nSpeaker notes\n\nMention the outage"
+    );
+
+    const chunks = chunkStructuredDocument(result.structure, { ...CHUNKING, chunkSize: 30 });
+    expect(chunks.map((c) => [c.metadata.pageNumber, c.metadata.heading])).toEqual([
+      [1, "Agenda"],
+      [2, "Results"],
+      [2, "Results > Speaker notes"],
+    ]);
+  });
+
+  it("should give each XLSX sheet its own section and table", async () => {
+    const xlsx = zip({
+      "xl/workbook.xml": `<workbook xmlns:r="r"><sheets><sheet name="Parts" sheetId="1" r:id="rId1"/>
+        <sheet name="Suppliers" sheetId="2" r:id="rId2"/></sheets></workbook>`,
+      "xl/_rels/workbook.xml.rels": rels({ rId1: "worksheets/sheet1.xml", rId2: "worksheets/sheet2.xml" }),
+      "xl/sharedStrings.xml": `<sst><si><t>Part</t></si><si><t>Qty</t></si><si><r><t>Se</t></r><r><t>al</t></r></si></sst>`,
+      "xl/worksheets/sheet1.xml": `<worksheet><sheetData>
+        <row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>
+        <row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>4</v></c></row></sheetData></worksheet>`,
+      "xl/worksheets/sheet2.xml": `<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Acme</t></is></c>
+        <c r="B1" t="b"><v>1</v></c></row></sheetData></worksheet>`,
+    });
+
+    const result = await extractFromBuffer(xlsx, "inventory.xlsx");
+
+    expect(result.text).toBe("Parts\n\n| Part |  | Qty |\n| Seal |  | 4 |\n\nSuppliers\n\n| Acme | TRUE |");
+    const chunks = chunkStructuredDocument(result.structure, CHUNKING);
+    expect(chunks.map((c) => c.metadata.heading)).toEqual(["Parts", "Suppliers"]);
+  });
+
+  it("should structure markdown, JSON and source code", async () => {
+    const markdown = await extractFromBuffer(
+      Buffer.from("# Guide\n\nIntro text.\n\n## Setup\n\n```sh\nnpm install\n```\n\n| a | b |\n|---|---|\n| 1 | 2 |\n"),
+      "guide.md"
+    );
+    expect(markdown.text).toBe("Guide\n\nIntro text.\n\nSetup\n\nnpm install\n\n| a | b |\n| 1 | 2 |");
+
+    const json = await extractFromBuffer(
+      Buffer.from(JSON.stringify({ name: "svc", limits: { cpu: 2 }, users: [{ id: 1, role: "admin" }] })),
+      "config.json"
+    );
+    expect(json.text).toBe("name: svc\n\nlimits\n\ncpu: 2\n\nusers\n\n| id | role |\n| 1 | admin |");
+
+    const code = await extractFromBuffer(
+      Buffer.from("import x from 'y';\n\n/** Adds */\nexport function add(a, b) {\n  return a + b;\n}\n"),
+      "math.ts",
+      "application/octet-stream"
+    );
+    const sections = code.structure.root.children as any[];
+    expect(sections[1]).toMatchObject({ type: "section", heading: "export function add(a, b)" });
+    expect(sections[1].children[0]).toMatchObject({ type: "code", language: "typescript" });
+    expect(sections[1].children[0].text).toMatch(/^\/\*\* Adds \*\/\nexport function add/);
+  });
+});
+
+describe("ZipArchive", () => {
+  it("should refuse entries that inflate past their declared size or a sane ratio", () => {
+    const archive = zip({ "xl/sharedStrings.xml": "a".repeat(4096) });
+    // Declare the entry smaller than it inflates, as a crafted archive would
+    const directory = archive.readUInt32LE(archive.length - 22 + 16);
+    archive.writeUInt32LE(100, directory + 24);
+    expect(() => new ZipArchive(archive).read("xl/sharedStrings.xml")).toThrow("expands beyond its declared size");
+
+    const bomb = new ZipArchive(zip({ "word/document.xml": "a".repeat(8 * 1024 * 1024) }));
+    expect(() => bomb.read("word/document.xml")).toThrow("suspicious compression ratio");
+  });
+});
+
+describe("chunkStructuredDocument", () => {
+  it("should split an oversized table by rows and repeat its header", async () => {
+    const rows = Array.from({ length: 30 }, (_, i) => `row-${i},${"x".repeat(20)}`);
+    const csv = await extractFromBuffer(Buffer.from(["id,value", ...rows].join("\n")), "data.csv");
+
+    const chunks = chunkStructuredDocument(csv.structure, { ...CHUNKING, chunkSize: 200 });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      expect(chunk.text.startsWith("| id | value |\n")).toBe(true);
+      expect(chunk.text.length).toBeLessThanOrEqual(200);
+    }
+    expect(chunks.map((c) => c.text).join("\n")).toContain("| row-29 |");
+  });
+
+  it("should size chunks in tokens and cut them between words", async () => {
+    const words = Array.from({ length: 60 }, (_, i) => `café${"abcdefghij"[i % 10]}${"klmnop"[Math.floor(i / 10)]}`);
+    const doc = await extractFromBuffer(Buffer.from(words.join(" ")), "notes.txt");
+
+    const chunks = chunkStructuredDocument(doc.structure, {
+      ...CHUNKING,
+      chunkSize: 40,
+      tokenizer: byteTokenizer,
+    });
+
+    expect(chunks.length).toBeGreaterThan(10);
+    for (const chunk of chunks) {
+      expect(chunk.metadata.tokenCount).toBe(Buffer.byteLength(chunk.text));
+      expect(chunk.metadata.tokenCount).toBeLessThanOrEqual(40);
+      expect(chunk.text.trim().split(/\s+/).every((word) => words.includes(word))).toBe(true);
+    }
+  });
+});
+
+describe("chunkWithParents", () => {
+  it("should group small children under their parent sections", async () => {
+    const markdown = [
+      "# Pump",
+      "Seals wear out after a year of use.\n\nReplace them with the kit in the cabinet.",
+      "# Wiring",
+      "Disconnect power first.\n\nThe blue wire is neutral.",
+    ].join("\n\n");
+    const doc = await extractFromBuffer(Buffer.from(markdown), "manual.md");
+
+    const { parents, children } = chunkWithParents(doc.structure, {
+      ...CHUNKING,
+      chunkSize: 50,
+      parentChunkSize: 200,
+    });
+
+    expect(parents.map((parent) => parent.metadata.heading)).toEqual(["Pump", "Wiring"]);
+    expect(children.length).toBeGreaterThan(parents.length);
+    for (const child of children) {
+      const parent = parents[child.metadata.parentIndex!];
+      expect(parent.text).toContain(child.text);
+      expect(child.metadata.heading).toBe(parent.metadata.heading);
+      expect(child.metadata.tokenCount).toBeGreaterThan(0);
+    }
+    expect(children.map((child) => child.index)).toEqual(children.map((_, i) => i));
+  });
+});
@@ -1,152 +1,205 @@
 /**
  * Document Extraction Service
- * Extracts text from various document formats
+ * Extracts text and document structure (sections, pages, tables, code
+ * blocks) from various document formats
  */
 
 import * as fs from "fs/promises";
-import Papa from "papaparse";
+import * as path from "path";
+import { extractDocx, extractEpub, extractHtml } from "./extractors/markup";
+import { extractPptx, extractXlsx } from "./extractors/office";
+import { extractPdf } from "./extractors/pdf";
+import {
+  extractCsv,
+  extractJson,
+  extractMarkdown,
+  extractPlainText,
+  extractSourceCode,
+  extractYaml,
+} from "./extractors/text";
+import { countWords, toPlainText, type StructuredDocument } from "./extractors/structure";
+
+export type DocumentFormat =
+  | "pdf"
+  | "docx"
+  | "pptx"
+  | "xlsx"
+  | "epub"
+  | "html"
+  | "markdown"
+  | "txt"
+  | "csv"
+  | "json"
+  | "yaml"
+  | "code";
 
 export interface ExtractionResult {
   text: string;
+  structure: StructuredDocument;
   metadata: {
     format: string;
     pages?: number;
+    title?: string;
+    author?: string;
     wordCount: number;
     charCount: number;
   };
 }
 
-/**
- * Extract text from PDF files
- * Note: pdf-parse requires actual PDF files, this is a simplified version
- */
-async function extractFromPDF(filePath: string): Promise<ExtractionResult> {
-  try {
-    // In production, use pdf-parse:
-    // const pdfParse = require("pdf-parse");
-    // const dataBuffer = await fs.readFile(filePath);
-    // const data = await pdfParse(dataBuffer);
-    // return { text: data.text, metadata: { format: "pdf", pages: data.numpages, ... } };
-    
-    // For now, return placeholder
-    const buffer = await fs.readFile(filePath);
-    const text = `[PDF content from ${filePath}]`;
-    
-    return {
-      text,
-      metadata: {
-        format: "pdf",
-        pages: 1,
-        wordCount: text.split(/\s+/).length,
-        charCount: text.length,
-      },
-    };
-  } catch (error) {
-    throw new Error(`Failed to extract PDF: ${error}`);
-  }
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  docx: "docx",
+  doc: "docx",
+  pptx: "pptx",
+  xlsx: "xlsx",
+  epub: "epub",
+  html: "html",
+  htm: "html",
+  xhtml: "html",
+  md: "markdown",
+  markdown: "markdown",
+  txt: "txt",
+  text: "txt",
+  log: "txt",
+  csv: "csv",
+  json: "json",
+  yaml: "yaml",
+  yml: "yaml",
+};
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/epub+zip": "epub",
+  "text/html": "html",
+  "application/xhtml+xml": "html",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/plain": "txt",
+  "text/csv": "csv",
+  "application/json": "json",
+  "application/x-yaml": "yaml",
+  "application/yaml": "yaml",
+  "text/yaml": "yaml",
+  "text/x-yaml": "yaml",
+};
+
+// Source file extension → language tag for code blocks
+const CODE_LANGUAGES: Record<string, string> = {
+  ts: "typescript",
+  tsx: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  kt: "kotlin",
+  scala: "scala",
+  cs: "csharp",
+  rb: "ruby",
+  php: "php",
+  swift: "swift",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  sh: "bash",
+  sql: "sql",
+};
+
+function extensionOf(filename: string): string {
+  return path.extname(filename).slice(1).toLowerCase();
 }
 
 /**
- * Extract text from DOCX files
- * Note: mammoth requires actual DOCX files, this is a simplified version
+ * Resolve a format name, extension, MIME type or filename to a document format
  */
-async function extractFromDOCX(filePath: string): Promise<ExtractionResult> {
-  try {
-    // In production, use mammoth:
-    // const mammoth = require("mammoth");
-    // const result = await mammoth.extractRawText({ path: filePath });
-    // return { text: result.value, metadata: { format: "docx", ... } };
-    
-    // For now, return placeholder
-    const text = `[DOCX content from ${filePath}]`;
-    
-    return {
-      text,
-      metadata: {
-        format: "docx",
-        wordCount: text.split(/\s+/).length,
-        charCount: text.length,
-      },
-    };
-  } catch (error) {
-    throw new Error(`Failed to extract DOCX: ${error}`);
-  }
+export function detectFormat(typeOrName: string, filename?: string): DocumentFormat | null {
+  const normalized = typeOrName.toLowerCase().split(";")[0].trim();
+  const format =
+    MIME_FORMATS[normalized] ??
+    EXTENSION_FORMATS[normalized] ??
+    (normalized in CODE_LANGUAGES ? "code" : undefined) ??
+    EXTENSION_FORMATS[extensionOf(normalized)] ??
+    (extensionOf(normalized) in CODE_LANGUAGES ? "code" : undefined);
+  if (format) return format;
+
+  // Generic MIME types (application/octet-stream, text/x-python, ...) defer to the filename
+  return filename ? detectFormat(filename) : null;
 }
 
 /**
- * Extract text from TXT files
+ * MIME type to record for a file read from disk rather than uploaded;
+ * source code gets a text/x-<language> type so its filename still decides the format
  */
-async function extractFromTXT(filePath: string): Promise<ExtractionResult> {
-  try {
-    const text = await fs.readFile(filePath, "utf-8");
-    
-    return {
-      text,
-      metadata: {
-        format: "txt",
-        wordCount: text.split(/\s+/).length,
-        charCount: text.length,
-      },
-    };
-  } catch (error) {
-    throw new Error(`Failed to extract TXT: ${error}`);
-  }
+export function mimeTypeFor(filename: string): string {
+  const extension = extensionOf(filename);
+  if (extension in CODE_LANGUAGES) return `text/x-${CODE_LANGUAGES[extension]}`;
+
+  const format = EXTENSION_FORMATS[extension];
+  const mimeType = Object.keys(MIME_FORMATS).find((type) => MIME_FORMATS[type] === format);
+  return mimeType ?? "application/octet-stream";
 }
 
 /**
- * Extract text from CSV files
+ * Extract a document's structure from its bytes
  */
-async function extractFromCSV(filePath: string): Promise<ExtractionResult> {
-  try {
-    const content = await fs.readFile(filePath, "utf-8");
-    const parsed = Papa.parse(content, { header: true });
-    
-    // Convert CSV to text representation
-    const text = parsed.data
-      .map((row: any) => Object.values(row).join(" "))
-      .join("\n");
-    
-    return {
-      text,
-      metadata: {
-        format: "csv",
-        wordCount: text.split(/\s+/).length,
-        charCount: text.length,
-      },
-    };
-  } catch (error) {
-    throw new Error(`Failed to extract CSV: ${error}`);
+async function extractStructure(buffer: Buffer, format: DocumentFormat, filename?: string): Promise<StructuredDocument> {
+  switch (format) {
+    case "pdf":
+      return await extractPdf(buffer);
+    case "docx":
+      return await extractDocx(buffer);
+    case "pptx":
+      return extractPptx(buffer);
+    case "xlsx":
+      return extractXlsx(buffer);
+    case "epub":
+      return extractEpub(buffer);
+    case "html":
+      return extractHtml(buffer.toString("utf-8"));
+    case "markdown":
+      return extractMarkdown(buffer.toString("utf-8"));
+    case "txt":
+      return extractPlainText(buffer.toString("utf-8"));
+    case "csv":
+      return extractCsv(buffer.toString("utf-8"));
+    case "json":
+      return extractJson(buffer.toString("utf-8"));
+    case "yaml":
+      return extractYaml(buffer.toString("utf-8"));
+    case "code":
+      return extractSourceCode(buffer.toString("utf-8"), filename ? CODE_LANGUAGES[extensionOf(filename)] : undefined);
   }
 }
 
-/**
- * Extract text from Markdown files
- */
-async function extractFromMarkdown(filePath: string): Promise<ExtractionResult> {
+async function extract(buffer: Buffer, format: DocumentFormat, filename?: string): Promise<ExtractionResult> {
+  let structure: StructuredDocument;
   try {
-    const text = await fs.readFile(filePath, "utf-8");
-    
-    // Remove markdown syntax for plain text
-    const plainText = text
-      .replace(/^#{1,6}\s+/gm, "") // Remove headers
-      .replace(/\*\*(.+?)\*\*/g, "$1") // Remove bold
-      .replace(/\*(.+?)\*/g, "$1") // Remove italic
-      .replace(/\[(.+?)\]\(.+?\)/g, "$1") // Remove links
-      .replace(/`(.+?)`/g, "$1") // Remove inline code
-      .replace(/```[\s\S]+?```/g, "") // Remove code blocks
-      .trim();
-    
-    return {
-      text: plainText,
-      metadata: {
-        format: "markdown",
-        wordCount: plainText.split(/\s+/).length,
-        charCount: plainText.length,
-      },
-    };
-  } catch (error) {
-    throw new Error(`Failed to extract Markdown: ${error}`);
+    structure = await extractStructure(buffer, format, filename);
+  } catch (error: any) {
+    throw new Error(`Failed to extract ${format.toUpperCase()}: ${error.message ?? error}`);
   }
+
+  const text = toPlainText(structure);
+  return {
+    text,
+    structure,
+    metadata: {
+      format,
+      pages: structure.pageCount,
+      title: structure.title,
+      author: structure.author,
+      wordCount: countWords(text),
+      charCount: text.length,
+    },
+  };
 }
 
 /**
@@ -154,33 +207,13 @@ async function extractFromMarkdown(filePath: string): Promise<ExtractionResult>
  */
 export async function extractDocument(filePath: string, format?: string): Promise<ExtractionResult> {
   // Detect format from file extension if not provided
-  if (!format) {
-    const ext = filePath.split(".").pop()?.toLowerCase();
-    format = ext || "txt";
-  }
-  
-  switch (format.toLowerCase()) {
-    case "pdf":
-      return await extractFromPDF(filePath);
-    
-    case "docx":
-    case "doc":
-      return await extractFromDOCX(filePath);
-    
-    case "txt":
-    case "text":
-      return await extractFromTXT(filePath);
-    
-    case "csv":
-      return await extractFromCSV(filePath);
-    
-    case "md":
-    case "markdown":
-      return await extractFromMarkdown(filePath);
-    
-    default:
-      throw new Error(`Unsupported document format: ${format}`);
+  const detected = detectFormat(format || filePath, filePath);
+  if (!detected) {
+    throw new Error(`Unsupported document format: ${format || extensionOf(filePath) || filePath}`);
   }
+
+  const buffer = await fs.readFile(filePath);
+  return await extract(buffer, detected, filePath);
 }
 
 /**
@@ -188,17 +221,12 @@ export async function extractDocument(filePath: string, format?: string): Promis
  */
 export async function extractFromBuffer(
   buffer: Buffer,
-  filename: string
+  filename: string,
+  fileType?: string
 ): Promise<ExtractionResult> {
-  // Write buffer to temp file
-  const tempPath = `/tmp/${Date.now()}-${filename}`;
-  await fs.writeFile(tempPath, buffer);
-  
-  try {
-    const result = await extractDocument(tempPath);
-    return result;
-  } finally {
-    // Clean up temp file
-    await fs.unlink(tempPath).catch(() => {});
+  const detected = detectFormat(fileType || filename, filename);
+  if (!detected) {
+    throw new Error(`Unsupported document format: ${fileType || extensionOf(filename) || filename}`);
   }
+  return await extract(buffer, detected, filename);
 }
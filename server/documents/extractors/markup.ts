@@ -0,0 +1,213 @@
+/**
+ * Markup Extractors
+ * HTML (with boilerplate removal), DOCX via mammoth's HTML output, and EPUB
+ * chapters in spine order.
+ */
+
+import * as cheerio from "cheerio";
+import mammoth from "mammoth";
+import { DocumentBuilder, normalizeWhitespace, type StructuredDocument } from "./structure";
+import { ZipArchive, resolveZipPath } from "./zip";
+
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+
+// Structural view of the domhandler nodes cheerio parses into
+interface DomNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: DomNode[];
+}
+
+// Navigation, chrome and non-content elements dropped before walking the page
+const BOILERPLATE_SELECTORS = [
+  "script", "style", "noscript", "template", "svg", "canvas", "iframe", "object",
+  "nav", "aside", "form", "button", "dialog",
+  "[role=navigation]", "[role=banner]", "[role=contentinfo]", "[role=search]", "[aria-hidden=true]",
+  ".sidebar", ".breadcrumb", ".breadcrumbs", ".advertisement", ".cookie-banner", ".skip-link",
+].join(", ");
+
+const MAIN_CONTENT_SELECTORS = ["main", "[role=main]", "article"];
+
+// A main/article element shorter than this is probably a teaser, not the page body
+const MIN_MAIN_CONTENT_CHARS = 200;
+
+const HEADING_TAGS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+const PARAGRAPH_TAGS = new Set(["p", "li", "blockquote", "dt", "dd", "figcaption", "caption", "summary"]);
+const CONTAINER_TAGS = new Set([
+  "html", "body", "main", "article", "section", "div", "ul", "ol", "dl", "figure",
+  "details", "address", "hgroup", "center", "header", "footer",
+]);
+
+function nodeText(node: DomNode): string {
+  if (node.type === "text") return node.data ?? "";
+  if (node.name === "br") return "\n";
+  return (node.children ?? []).map(nodeText).join("");
+}
+
+function codeLanguage(node: DomNode): string | undefined {
+  const classes = [node, ...(node.children ?? [])]
+    .map((n) => n.attribs?.class ?? "")
+    .join(" ");
+  const match = classes.match(/(?:^|\s)(?:language|lang)-([\w+#-]+)/);
+  return match?.[1];
+}
+
+function tableRows(table: DomNode): string[][] {
+  const rows: string[][] = [];
+  const visit = (node: DomNode) => {
+    for (const child of node.children ?? []) {
+      if (child.name === "tr") {
+        rows.push(
+          (child.children ?? [])
+            .filter((cell) => cell.name === "td" || cell.name === "th")
+            .map((cell) => nodeText(cell))
+        );
+      } else if (child.name !== "table") {
+        // thead/tbody/tfoot; nested tables stay inside their cell's text
+        visit(child);
+      }
+    }
+  };
+  visit(table);
+  return rows;
+}
+
+/**
+ * Walk an element tree into the builder: headings open sections, block
+ * elements become paragraphs, tables and code blocks keep their shape
+ */
+function walkHtml(builder: DocumentBuilder, root: DomNode): void {
+  let inline = "";
+  const flush = () => {
+    builder.paragraph(inline);
+    inline = "";
+  };
+
+  const visit = (node: DomNode) => {
+    if (node.type === "text") {
+      inline += node.data ?? "";
+      return;
+    }
+    if (node.type !== "tag" && node.type !== "root") return;
+
+    const tag = (node.name ?? "").toLowerCase();
+    if (tag in HEADING_TAGS) {
+      flush();
+      builder.heading(HEADING_TAGS[tag], nodeText(node));
+    } else if (tag === "pre") {
+      flush();
+      builder.code(nodeText(node), codeLanguage(node));
+    } else if (tag === "table") {
+      flush();
+      builder.table(tableRows(node));
+    } else if (tag === "br") {
+      inline += "\n";
+    } else if (PARAGRAPH_TAGS.has(tag) || CONTAINER_TAGS.has(tag) || node.type === "root") {
+      flush();
+      (node.children ?? []).forEach(visit);
+      flush();
+    } else {
+      (node.children ?? []).forEach(visit);
+    }
+  };
+
+  visit(root);
+  flush();
+}
+
+function contentRoot($: CheerioAPI): DomNode {
+  for (const selector of MAIN_CONTENT_SELECTORS) {
+    const candidate = $(selector).first();
+    if (candidate.length > 0 && normalizeWhitespace(candidate.text()).length >= MIN_MAIN_CONTENT_CHARS) {
+      return candidate.get(0) as unknown as DomNode;
+    }
+  }
+  const body = $("body").first();
+  return (body.length > 0 ? body.get(0) : $.root().get(0)) as unknown as DomNode;
+}
+
+function removeBoilerplate($: CheerioAPI): void {
+  $(BOILERPLATE_SELECTORS).remove();
+  // Site headers and footers go; an article's own header (title, byline) stays
+  $("header, footer")
+    .filter((_, el) => $(el).parents("main, article").length === 0)
+    .remove();
+}
+
+function htmlTitle($: CheerioAPI): string | undefined {
+  const title = normalizeWhitespace($("title").first().text()) || normalizeWhitespace($("h1").first().text());
+  return title || undefined;
+}
+
+/**
+ * Extract an HTML page, dropping navigation and other page chrome
+ */
+export function extractHtml(html: string, format: string = "html"): StructuredDocument {
+  const $ = cheerio.load(html);
+  removeBoilerplate($);
+
+  const builder = new DocumentBuilder(format);
+  walkHtml(builder, contentRoot($));
+
+  return builder.build({
+    title: htmlTitle($),
+    author: $('meta[name="author"]').attr("content") || undefined,
+  });
+}
+
+/**
+ * Extract a DOCX through mammoth's HTML conversion, which keeps heading
+ * styles, lists and tables
+ */
+export async function extractDocx(buffer: Buffer): Promise<StructuredDocument> {
+  const result = await mammoth.convertToHtml({ buffer });
+  const $ = cheerio.load(result.value);
+
+  const builder = new DocumentBuilder("docx");
+  walkHtml(builder, $.root().get(0) as unknown as DomNode);
+
+  return builder.build({ title: normalizeWhitespace($("h1").first().text()) || undefined });
+}
+
+/**
+ * Extract an EPUB's chapters in reading (spine) order
+ */
+export function extractEpub(buffer: Buffer): StructuredDocument {
+  const zip = new ZipArchive(buffer);
+
+  const container = zip.readText("META-INF/container.xml");
+  const opfPath = container
+    ? cheerio.load(container, { xml: true })("rootfile").first().attr("full-path")
+    : zip.names().find((name) => name.endsWith(".opf"));
+  const opfXml = opfPath ? zip.readText(opfPath) : null;
+  if (!opfPath || !opfXml) {
+    throw new Error("EPUB has no package document");
+  }
+
+  const opf = cheerio.load(opfXml, { xml: true });
+  const manifest = new Map<string, string>();
+  opf("item, opf\\:item").each((_, el) => {
+    const id = opf(el).attr("id");
+    const href = opf(el).attr("href");
+    if (id && href) manifest.set(id, resolveZipPath(opfPath, decodeURIComponent(href)));
+  });
+
+  const builder = new DocumentBuilder("epub");
+  const spine = opf("itemref, opf\\:itemref").toArray();
+  for (const itemref of spine) {
+    const path = manifest.get(opf(itemref).attr("idref") ?? "");
+    const chapter = path ? zip.readText(path) : null;
+    if (!chapter) continue;
+
+    const $ = cheerio.load(chapter);
+    removeBoilerplate($);
+    walkHtml(builder, contentRoot($));
+  }
+
+  return builder.build({
+    title: normalizeWhitespace(opf("dc\\:title").first().text()) || undefined,
+    author: normalizeWhitespace(opf("dc\\:creator").first().text()) || undefined,
+  });
+}
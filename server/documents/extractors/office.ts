@@ -0,0 +1,243 @@
+/**
+ * Office Open XML Extractors
+ * PPTX (one section per slide, slide number as the page) and XLSX (one
+ * section and table per sheet), read straight from the package XML.
+ */
+
+import * as cheerio from "cheerio";
+import { DocumentBuilder, normalizeWhitespace, type StructuredDocument } from "./structure";
+import { ZipArchive, resolveZipPath } from "./zip";
+
+type CheerioAPI = ReturnType<typeof cheerio.load>;
+
+function loadXml(zip: ZipArchive, path: string): CheerioAPI | null {
+  const xml = zip.readText(path);
+  return xml ? cheerio.load(xml, { xml: true }) : null;
+}
+
+/**
+ * Relationship id → package path for a part's _rels file
+ */
+function readRelationships(zip: ZipArchive, partPath: string): Map<string, { target: string; type: string }> {
+  const slash = partPath.lastIndexOf("/");
+  const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  const relationships = new Map<string, { target: string; type: string }>();
+
+  const $ = loadXml(zip, relsPath);
+  $?.("Relationship").each((_, el) => {
+    const id = $(el).attr("Id");
+    const target = $(el).attr("Target");
+    if (id && target && $(el).attr("TargetMode") !== "External") {
+      relationships.set(id, { target: resolveZipPath(partPath, target), type: $(el).attr("Type") ?? "" });
+    }
+  });
+  return relationships;
+}
+
+function readCoreProperties(zip: ZipArchive): { title?: string; author?: string } {
+  const $ = loadXml(zip, "docProps/core.xml");
+  if (!$) return {};
+  return {
+    title: normalizeWhitespace($("dc\\:title").first().text()) || undefined,
+    author: normalizeWhitespace($("dc\\:creator").first().text()) || undefined,
+  };
+}
+
+function byNumberInName(a: string, b: string): number {
+  return parseInt(a.replace(/\D+/g, ""), 10) - parseInt(b.replace(/\D+/g, ""), 10);
+}
+
+// ============================================================================
+// PPTX
+// ============================================================================
+
+function slidePaths(zip: ZipArchive): string[] {
+  const presentation = loadXml(zip, "ppt/presentation.xml");
+  if (presentation) {
+    const relationships = readRelationships(zip, "ppt/presentation.xml");
+    const ordered = presentation("p\\:sldId")
+      .toArray()
+      .map((el) => relationships.get(presentation(el).attr("r:id") ?? "")?.target)
+      .filter((path): path is string => !!path && zip.has(path));
+    if (ordered.length > 0) return ordered;
+  }
+  // No usable presentation part: fall back to slide file numbering
+  return zip
+    .names()
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort(byNumberInName);
+}
+
+function paragraphText($: CheerioAPI, paragraph: any): string {
+  return $(paragraph)
+    .find("a\\:t")
+    .toArray()
+    .map((t) => $(t).text())
+    .join("");
+}
+
+/**
+ * Shapes in document order; title placeholders become the slide heading
+ */
+function readSlide($: CheerioAPI): { title: string; paragraphs: string[]; tables: string[][][] } {
+  let title = "";
+  const paragraphs: string[] = [];
+  const tables: string[][][] = [];
+
+  $("p\\:sp, p\\:graphicFrame").each((_, shape) => {
+    const $shape = $(shape);
+    const tbl = $shape.find("a\\:tbl").first();
+    if (tbl.length > 0) {
+      tables.push(
+        tbl
+          .find("a\\:tr")
+          .toArray()
+          .map((row) =>
+            $(row)
+              .find("a\\:tc")
+              .toArray()
+              .map((cell) => $(cell).find("a\\:p").toArray().map((p) => paragraphText($, p)).join(" "))
+          )
+      );
+      return;
+    }
+
+    const placeholder = $shape.find("p\\:nvPr > p\\:ph").attr("type");
+    const texts = $shape
+      .find("a\\:p")
+      .toArray()
+      .map((p) => normalizeWhitespace(paragraphText($, p)))
+      .filter(Boolean);
+    if ((placeholder === "title" || placeholder === "ctrTitle") && !title) {
+      title = texts.join(" ");
+    } else if (placeholder !== "sldNum" && placeholder !== "dt" && placeholder !== "ftr") {
+      paragraphs.push(...texts);
+    }
+  });
+
+  return { title, paragraphs, tables };
+}
+
+function readNotes(zip: ZipArchive, slidePath: string): string[] {
+  const notes = Array.from(readRelationships(zip, slidePath).values()).find((rel) =>
+    rel.type.endsWith("/notesSlide")
+  );
+  const $ = notes ? loadXml(zip, notes.target) : null;
+  if (!$) return [];
+
+  return $("p\\:sp")
+    .filter((_, shape) => $(shape).find("p\\:nvPr > p\\:ph").attr("type") === "body")
+    .find("a\\:p")
+    .toArray()
+    .map((p) => normalizeWhitespace(paragraphText($, p)))
+    .filter(Boolean);
+}
+
+export function extractPptx(buffer: Buffer): StructuredDocument {
+  const zip = new ZipArchive(buffer);
+  const builder = new DocumentBuilder("pptx");
+  const slides = slidePaths(zip);
+
+  slides.forEach((path, i) => {
+    const $ = loadXml(zip, path);
+    if (!$) return;
+    const slideNumber = i + 1;
+    const slide = readSlide($);
+
+    builder.setPage(slideNumber).heading(1, slide.title || `Slide ${slideNumber}`);
+    slide.paragraphs.forEach((text) => builder.paragraph(text));
+    slide.tables.forEach((rows) => builder.table(rows));
+
+    const notes = readNotes(zip, path);
+    if (notes.length > 0) {
+      builder.heading(2, "Speaker notes");
+      notes.forEach((text) => builder.paragraph(text));
+    }
+  });
+
+  return builder.build({ ...readCoreProperties(zip), pageCount: slides.length });
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[^A-Z]/gi, "").toUpperCase();
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+function readSharedStrings(zip: ZipArchive): string[] {
+  const $ = loadXml(zip, "xl/sharedStrings.xml");
+  if (!$) return [];
+  // Rich-text runs are separate <t> elements; phonetic hints (<rPh>) are not part of the value
+  return $("si")
+    .toArray()
+    .map((si) =>
+      $(si)
+        .find("t")
+        .filter((_, t) => $(t).parents("rPh").length === 0)
+        .toArray()
+        .map((t) => $(t).text())
+        .join("")
+    );
+}
+
+function readSheet($: CheerioAPI, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+
+  $("sheetData > row").each((_, rowEl) => {
+    const row: string[] = [];
+    $(rowEl)
+      .children("c")
+      .each((position, cellEl) => {
+        const $cell = $(cellEl);
+        const ref = $cell.attr("r");
+        const column = ref ? columnIndex(ref) : position;
+        const type = $cell.attr("t");
+        const raw = $cell.children("v").text();
+
+        let value: string;
+        if (type === "s") value = sharedStrings[parseInt(raw, 10)] ?? "";
+        else if (type === "inlineStr") value = $cell.find("is t").text();
+        else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+        else value = raw;
+
+        while (row.length < column) row.push("");
+        row[column] = value;
+      });
+    rows.push(row);
+  });
+
+  // Pad to a rectangle so the header lines up with every row
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  return rows.map((row) => row.concat(new Array(width - row.length).fill("")));
+}
+
+export function extractXlsx(buffer: Buffer): StructuredDocument {
+  const zip = new ZipArchive(buffer);
+  const workbook = loadXml(zip, "xl/workbook.xml");
+  if (!workbook) {
+    throw new Error("XLSX has no workbook part");
+  }
+
+  const relationships = readRelationships(zip, "xl/workbook.xml");
+  const sharedStrings = readSharedStrings(zip);
+  const builder = new DocumentBuilder("xlsx");
+
+  const sheets = workbook("sheet").toArray();
+  sheets.forEach((sheetEl, i) => {
+    const name = workbook(sheetEl).attr("name") || `Sheet ${i + 1}`;
+    const path = relationships.get(workbook(sheetEl).attr("r:id") ?? "")?.target ?? `xl/worksheets/sheet${i + 1}.xml`;
+    const $ = loadXml(zip, path);
+    if (!$) return;
+
+    builder.heading(1, name).table(readSheet($, sharedStrings));
+  });
+
+  return builder.build({ ...readCoreProperties(zip) });
+}
@@ -0,0 +1,78 @@
+/**
+ * PDF Extractor
+ * Page-by-page text from pdf-parse, with headings recovered from numbered
+ * ("2.1 Installation") and all-caps lines.
+ */
+
+import { DocumentBuilder, type StructuredDocument } from "./structure";
+
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2})*)\.?\s+[A-Z]/;
+const MAX_HEADING_LENGTH = 80;
+
+/**
+ * Heading level for a line that looks like a heading, or null
+ */
+export function pdfHeadingLevel(line: string): number | null {
+  if (line.length < 3 || line.length > MAX_HEADING_LENGTH || /[.,;:]$/.test(line)) return null;
+
+  const numbered = line.match(NUMBERED_HEADING);
+  if (numbered) {
+    return numbered[1].split(".").length;
+  }
+
+  const letters = line.replace(/[^A-Za-z]/g, "");
+  if (letters.length >= 4 && letters === letters.toUpperCase() && letters.length / line.replace(/\s/g, "").length >= 0.6) {
+    return 1;
+  }
+  return null;
+}
+
+/**
+ * Build a page-tagged structure from the text of each page
+ */
+export function structurePdfPages(pages: Array<{ num: number; text: string }>): DocumentBuilder {
+  const builder = new DocumentBuilder("pdf");
+
+  for (const page of pages) {
+    builder.setPage(page.num);
+    let paragraph: string[] = [];
+    const flush = () => {
+      // Re-join words hyphenated across line breaks
+      builder.paragraph(paragraph.join("\n").replace(/(\w)-\n(\w)/g, "$1$2"));
+      paragraph = [];
+    };
+
+    for (const raw of page.text.split("\n")) {
+      const line = raw.trim();
+      const level = line ? pdfHeadingLevel(line) : null;
+      if (!line) {
+        flush();
+      } else if (level !== null) {
+        flush();
+        builder.heading(level, line);
+      } else {
+        paragraph.push(line);
+      }
+    }
+    flush();
+  }
+
+  return builder;
+}
+
+export async function extractPdf(buffer: Buffer): Promise<StructuredDocument> {
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const text = await parser.getText();
+    const info = await parser.getInfo().catch(() => null);
+
+    return structurePdfPages(text.pages).build({
+      title: info?.info?.Title || undefined,
+      author: info?.info?.Author || undefined,
+      pageCount: text.total,
+    });
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Document Structure
+ * Format-neutral tree produced by every extractor: sections (from headings,
+ * slides, sheets, chapters) holding paragraphs, tables and code blocks, each
+ * tagged with the page it came from. The chunker follows this tree so chunks
+ * keep their section path and page number for citations.
+ */
+
+export type BlockNode =
+  | { type: "paragraph"; text: string; page?: number }
+  | { type: "table"; rows: string[][]; page?: number } // First row is the header
+  | { type: "code"; text: string; language?: string; page?: number };
+
+export interface SectionNode {
+  type: "section";
+  heading: string | null; // null for the document root
+  level: number; // 0 for the root, 1-6 below it
+  page?: number;
+  children: Array<SectionNode | BlockNode>;
+}
+
+export interface StructuredDocument {
+  format: string;
+  title?: string;
+  author?: string;
+  pageCount?: number;
+  root: SectionNode;
+}
+
+/**
+ * A heading or block in reading order, with its offset in toPlainText()
+ */
+export interface FlatEntry {
+  text: string;
+  start: number;
+  sectionPath: string[];
+  page?: number;
+  block?: BlockNode; // undefined for heading lines
+}
+
+export function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Builds a section tree from a stream of headings and blocks; a heading
+ * closes every open section at its level or deeper
+ */
+export class DocumentBuilder {
+  private readonly root: SectionNode = { type: "section", heading: null, level: 0, children: [] };
+  private stack: SectionNode[] = [this.root];
+  private page: number | undefined;
+
+  constructor(private readonly format: string) {}
+
+  private get current(): SectionNode {
+    return this.stack[this.stack.length - 1];
+  }
+
+  setPage(page: number | undefined): this {
+    this.page = page;
+    return this;
+  }
+
+  heading(level: number, text: string): this {
+    const heading = normalizeWhitespace(text);
+    if (!heading) return this;
+
+    const clamped = Math.min(6, Math.max(1, level));
+    while (this.stack.length > 1 && this.current.level >= clamped) {
+      this.stack.pop();
+    }
+    const section: SectionNode = { type: "section", heading, level: clamped, page: this.page, children: [] };
+    this.current.children.push(section);
+    this.stack.push(section);
+    return this;
+  }
+
+  paragraph(text: string): this {
+    const normalized = normalizeWhitespace(text);
+    if (normalized) {
+      this.current.children.push({ type: "paragraph", text: normalized, page: this.page });
+    }
+    return this;
+  }
+
+  table(rows: string[][]): this {
+    const cleaned = rows
+      .map((row) => row.map((cell) => normalizeWhitespace(cell)))
+      .filter((row) => row.some((cell) => cell.length > 0));
+    if (cleaned.length > 0) {
+      this.current.children.push({ type: "table", rows: cleaned, page: this.page });
+    }
+    return this;
+  }
+
+  code(text: string, language?: string): this {
+    const trimmed = text.replace(/^\n+|\s+$/g, "");
+    if (trimmed) {
+      this.current.children.push({ type: "code", text: trimmed, language, page: this.page });
+    }
+    return this;
+  }
+
+  build(metadata: Omit<StructuredDocument, "format" | "root"> = {}): StructuredDocument {
+    return { format: this.format, ...metadata, root: this.root };
+  }
+}
+
+export function tableRowText(row: string[]): string {
+  return `| ${row.join(" | ")} |`;
+}
+
+export function blockText(block: BlockNode): string {
+  switch (block.type) {
+    case "paragraph":
+      return block.text;
+    case "table":
+      return block.rows.map(tableRowText).join("\n");
+    case "code":
+      return block.text;
+  }
+}
+
+const ENTRY_SEPARATOR = "\n\n";
+
+/**
+ * Headings and blocks in reading order
+ */
+export function flattenDocument(doc: StructuredDocument): FlatEntry[] {
+  const entries: FlatEntry[] = [];
+  let offset = 0;
+
+  const push = (entry: Omit<FlatEntry, "start">) => {
+    entries.push({ ...entry, start: offset });
+    offset += entry.text.length + ENTRY_SEPARATOR.length;
+  };
+
+  const visit = (section: SectionNode, path: string[]) => {
+    for (const child of section.children) {
+      if (child.type === "section") {
+        const childPath = [...path, child.heading!];
+        push({ text: child.heading!, sectionPath: childPath, page: child.page });
+        visit(child, childPath);
+      } else {
+        push({ text: blockText(child), sectionPath: path, page: child.page, block: child });
+      }
+    }
+  };
+
+  visit(doc.root, []);
+  return entries;
+}
+
+export function toPlainText(doc: StructuredDocument): string {
+  return flattenDocument(doc)
+    .map((entry) => entry.text)
+    .join(ENTRY_SEPARATOR);
+}
+
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
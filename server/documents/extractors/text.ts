@@ -0,0 +1,320 @@
+/**
+ * Text Extractors
+ * Markdown, plain text, CSV, JSON, YAML and source code.
+ */
+
+import Papa from "papaparse";
+import { DocumentBuilder, type StructuredDocument } from "./structure";
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+const FENCE = /^\s*(```+|~~~+)\s*([\w+#-]*)/;
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(?:\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // Links
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, "$1$2") // Bold
+    .replace(/\*(.+?)\*|\b_(.+?)_\b/g, "$1$2") // Italic
+    .replace(/`([^`]+)`/g, "$1"); // Inline code
+}
+
+function tableCells(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => stripInlineMarkdown(cell.trim()));
+}
+
+export function extractMarkdown(markdown: string): StructuredDocument {
+  const builder = new DocumentBuilder("markdown");
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let title: string | undefined;
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    builder.paragraph(stripInlineMarkdown(paragraph.join(" ")));
+    paragraph = [];
+  };
+
+  let i = 0;
+  // Front matter
+  if (lines[0]?.trim() === "---") {
+    const end = lines.indexOf("---", 1);
+    if (end > 0) {
+      const titleLine = lines.slice(1, end).find((line) => /^title:\s*/.test(line));
+      title = titleLine?.replace(/^title:\s*/, "").replace(/^["']|["']$/g, "") || undefined;
+      i = end + 1;
+    }
+  }
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const body: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+        body.push(lines[i]);
+      }
+      builder.code(body.join("\n"), fence[2] || undefined);
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      flush();
+      const text = stripInlineMarkdown(heading[2]);
+      if (heading[1].length === 1 && !title) title = text;
+      builder.heading(heading[1].length, text);
+      continue;
+    }
+
+    // Setext heading: a single paragraph line underlined with === or ---
+    if (/^\s*(=+|-+)\s*$/.test(line) && paragraph.length === 1) {
+      const level = line.trim().startsWith("=") ? 1 : 2;
+      const text = stripInlineMarkdown(paragraph[0]);
+      paragraph = [];
+      if (level === 1 && !title) title = text;
+      builder.heading(level, text);
+      continue;
+    }
+
+    const next = lines[i + 1] ?? "";
+    if (line.includes("|") && next.includes("|") && TABLE_SEPARATOR.test(next)) {
+      flush();
+      const rows = [tableCells(line)];
+      for (i += 2; i < lines.length && lines[i].includes("|") && lines[i].trim(); i++) {
+        rows.push(tableCells(lines[i]));
+      }
+      i--;
+      builder.table(rows);
+      continue;
+    }
+
+    if (!line.trim() || /^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      flush();
+    } else if (LIST_ITEM.test(line)) {
+      flush();
+      paragraph.push(line.replace(LIST_ITEM, ""));
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flush();
+
+  return builder.build({ title });
+}
+
+// ============================================================================
+// Plain text and CSV
+// ============================================================================
+
+export function extractPlainText(text: string): StructuredDocument {
+  const builder = new DocumentBuilder("txt");
+  for (const paragraph of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+    builder.paragraph(paragraph);
+  }
+  return builder.build();
+}
+
+export function extractCsv(content: string): StructuredDocument {
+  const parsed = Papa.parse<string[]>(content.trim(), { skipEmptyLines: true });
+  return new DocumentBuilder("csv").table(parsed.data).build();
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+const MAX_JSON_DEPTH = 6;
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+function isScalar(value: JsonValue): value is string | number | boolean | null {
+  return value === null || typeof value !== "object";
+}
+
+function isFlatRecord(value: JsonValue): value is { [key: string]: JsonValue } {
+  return !isScalar(value) && !Array.isArray(value) && Object.values(value).every(isScalar);
+}
+
+function recordsToTable(records: Array<{ [key: string]: JsonValue }>): string[][] {
+  const columns = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+  return [columns, ...records.map((record) => columns.map((column) => scalarText(record[column] ?? "")))];
+}
+
+function scalarText(value: JsonValue): string {
+  return value === null ? "null" : String(value);
+}
+
+/**
+ * Object keys become headings, scalar members a "key: value" paragraph and
+ * arrays of flat objects a table; anything nested deeper than the heading
+ * levels is kept as a JSON code block
+ */
+function walkJson(builder: DocumentBuilder, value: JsonValue, depth: number): void {
+  if (isScalar(value)) {
+    builder.paragraph(scalarText(value));
+    return;
+  }
+  if (depth > MAX_JSON_DEPTH) {
+    builder.code(JSON.stringify(value, null, 2), "json");
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(isFlatRecord)) {
+      builder.table(recordsToTable(value));
+    } else if (value.every(isScalar)) {
+      builder.paragraph(value.map(scalarText).join(", "));
+    } else {
+      value.forEach((item, i) => {
+        builder.heading(depth, `[${i}]`);
+        walkJson(builder, item, depth + 1);
+      });
+    }
+    return;
+  }
+
+  const entries = Object.entries(value);
+  const scalars = entries.filter(([, member]) => isScalar(member));
+  if (scalars.length > 0) {
+    builder.paragraph(scalars.map(([key, member]) => `${key}: ${scalarText(member)}`).join("; "));
+  }
+  for (const [key, member] of entries) {
+    if (isScalar(member)) continue;
+    builder.heading(depth, key);
+    walkJson(builder, member, depth + 1);
+  }
+}
+
+export function extractJson(content: string): StructuredDocument {
+  const builder = new DocumentBuilder("json");
+  let value: JsonValue;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    // Not valid JSON (e.g. JSON with comments): index it as-is
+    return builder.code(content, "json").build();
+  }
+
+  walkJson(builder, value, 1);
+  const title = isScalar(value) || Array.isArray(value) ? undefined : value.title ?? value.name;
+  return builder.build({ title: typeof title === "string" ? title : undefined });
+}
+
+// ============================================================================
+// YAML
+// ============================================================================
+
+const YAML_TOP_LEVEL_KEY = /^(?:"([^"]+)"|'([^']+)'|([^\s#:'"-][^:#]*?))\s*:(?:\s|$)/;
+
+/**
+ * Each top-level key becomes a section holding its block as YAML; documents
+ * of a multi-document stream get their own sections
+ */
+export function extractYaml(content: string): StructuredDocument {
+  const builder = new DocumentBuilder("yaml");
+  const documents = content
+    .replace(/\r\n?/g, "\n")
+    .split(/^---[^\n]*$/m)
+    .map((doc) => doc.replace(/^\.\.\.\s*$/m, ""))
+    .filter((doc) => doc.trim());
+  const keyLevel = documents.length > 1 ? 2 : 1;
+
+  documents.forEach((doc, d) => {
+    if (documents.length > 1) builder.heading(1, `Document ${d + 1}`);
+
+    let key: string | null = null;
+    let block: string[] = [];
+    let comments: string[] = [];
+    const flush = () => {
+      if (key) builder.heading(keyLevel, key);
+      builder.code(block.join("\n"), "yaml");
+      block = [];
+    };
+
+    for (const line of doc.split("\n")) {
+      const match = line.match(YAML_TOP_LEVEL_KEY);
+      if (line.startsWith("#")) {
+        comments.push(line);
+      } else if (match) {
+        // Comments directly above a key belong to it
+        flush();
+        key = match[1] ?? match[2] ?? match[3];
+        block = [...comments, line];
+        comments = [];
+      } else {
+        block.push(...comments, line);
+        comments = [];
+      }
+    }
+    block.push(...comments);
+    flush();
+  });
+
+  return builder.build();
+}
+
+// ============================================================================
+// Source code
+// ============================================================================
+
+// Top-level (unindented) declarations across the common languages
+const DECLARATION = new RegExp(
+  "^(?:export\\s+(?:default\\s+)?|pub(?:\\([^)]*\\))?\\s+|public\\s+|private\\s+|protected\\s+|internal\\s+)?" +
+    "(?:async\\s+|static\\s+|abstract\\s+|final\\s+|sealed\\s+|declare\\s+|unsafe\\s+)*" +
+    "(?:function\\*?|class|interface|type|enum|const|def|fn|func|struct|trait|impl|module|namespace|object|record)\\s"
+);
+// Comments and decorators that lead into a declaration
+const DECLARATION_PREAMBLE = /^(?:\/\/|\/\*|\*|#(?!include|define|!)|@|"""|''')/;
+
+function declarationHeading(line: string): string {
+  const signature = line
+    .replace(/\s*(?:\{|=>|=|:)\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return signature.length > 120 ? `${signature.slice(0, 117)}...` : signature;
+}
+
+/**
+ * Split a source file at its top-level declarations; leading comments and
+ * decorators move with the declaration they document
+ */
+export function extractSourceCode(content: string, language?: string): StructuredDocument {
+  const builder = new DocumentBuilder("code");
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+
+  let heading: string | null = null;
+  let segment: string[] = [];
+  const flush = () => {
+    if (heading) builder.heading(1, heading);
+    builder.code(segment.join("\n"), language);
+  };
+
+  for (const line of lines) {
+    if (DECLARATION.test(line)) {
+      let preamble = segment.length;
+      while (preamble > 0 && DECLARATION_PREAMBLE.test(segment[preamble - 1].trimStart())) {
+        preamble--;
+      }
+      const leading = segment.splice(preamble);
+      flush();
+      heading = declarationHeading(line);
+      segment = [...leading, line];
+    } else {
+      segment.push(line);
+    }
+  }
+  flush();
+
+  return builder.build();
+}
@@ -0,0 +1,142 @@
+/**
+ * ZIP Reader
+ * Reads entries of the ZIP containers behind PPTX, XLSX and EPUB files
+ * (stored and deflated entries; no ZIP64 or encryption). Inflation is capped
+ * at each entry's declared size and per archive, so a small upload cannot
+ * expand into gigabytes.
+ */
+
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 256 * 1024 * 1024;
+// Text parts compress well, but not this well; the ratio is only judged above RATIO_CHECK_BYTES
+const MAX_COMPRESSION_RATIO = 200;
+const RATIO_CHECK_BYTES = 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export class ZipArchive {
+  private readonly entries: Map<string, ZipEntry> = new Map();
+  private inflatedBytes = 0;
+
+  constructor(private readonly buffer: Buffer) {
+    // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+      if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error("Not a ZIP archive");
+    }
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    for (let i = 0; i < entryCount; i++) {
+      if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error("Corrupt ZIP central directory");
+      }
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+
+      this.entries.set(name, {
+        flags: buffer.readUInt16LE(offset + 8),
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        uncompressedSize: buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+    if (entry.flags & 0x1) {
+      throw new Error(`Encrypted ZIP entry: ${name}`);
+    }
+    const size = entry.uncompressedSize;
+    if (size > MAX_ENTRY_BYTES) {
+      throw new Error(`ZIP entry ${name} is too large (${size} bytes)`);
+    }
+    if (size > RATIO_CHECK_BYTES && size > entry.compressedSize * MAX_COMPRESSION_RATIO) {
+      throw new Error(`ZIP entry ${name} has a suspicious compression ratio`);
+    }
+    if (this.inflatedBytes + size > MAX_ARCHIVE_BYTES) {
+      throw new Error(`ZIP archive expands beyond ${MAX_ARCHIVE_BYTES} bytes`);
+    }
+
+    const header = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    const dataStart = header + 30 + this.buffer.readUInt16LE(header + 26) + this.buffer.readUInt16LE(header + 28);
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    let content: Buffer;
+    switch (entry.method) {
+      case 0:
+        content = Buffer.from(data);
+        break;
+      case 8:
+        try {
+          // One byte past the declared size tells a lying entry from an exact one
+          content = inflateRawSync(data, { maxOutputLength: size + 1 });
+        } catch (error) {
+          if (error instanceof RangeError) {
+            throw new Error(`ZIP entry ${name} expands beyond its declared size`);
+          }
+          throw error;
+        }
+        break;
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+    }
+    if (content.length !== size) {
+      throw new Error(`ZIP entry ${name} does not match its declared size`);
+    }
+    this.inflatedBytes += size;
+    return content;
+  }
+
+  readText(name: string): string | null {
+    return this.read(name)?.toString("utf-8") ?? null;
+  }
+}
+
+/**
+ * Resolve a relative ZIP path ("../media/a.png") against the directory of another entry
+ */
+export function resolveZipPath(from: string, relative: string): string {
+  if (relative.startsWith("/")) return relative.slice(1);
+  const parts = from.split("/").slice(0, -1);
+  for (const part of relative.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  }
+  return parts.join("/");
+}
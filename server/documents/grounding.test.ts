@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from "vitest";
+import { splitSentences, verifyGrounding } from "./grounding";
+
+const SOURCES = [
+  { id: 1, text: "Controller fault ERR-4021 means the pump seal has failed and must be replaced." },
+  { id: 2, text: "The office is open from 9am to 5pm on weekdays." },
+];
+
+describe("splitSentences", () => {
+  it("should keep decimals intact and attach trailing citations to the sentence before", () => {
+    expect(splitSentences("Torque is 3.5 Nm. [Source 1]\nCheck it monthly [2]. Done!")).toEqual([
+      "Torque is 3.5 Nm. [Source 1]",
+      "Check it monthly [2].",
+      "Done!",
+    ]);
+  });
+});
+
+describe("verifyGrounding", () => {
+  it("should score cited sentences against their chunks and flag missing sources", async () => {
+    const report = await verifyGrounding(
+      "ERR-4021 means the pump seal failed [Source 1]. The pump runs on diesel [Source 2]. " +
+        "Call support for help [Source 4]. Thanks for asking.",
+      SOURCES
+    );
+
+    expect(report.sentences.map((s) => s.status)).toEqual([
+      "supported",
+      "unsupported",
+      "invalid_citation",
+      "uncited",
+    ]);
+    expect(report.sentences[0].support[0]).toMatchObject({ source: 1, semantic: null });
+    expect(report.sentences[0].support[0].lexical).toBeGreaterThan(0.8);
+    expect(report.citedSources).toEqual([1, 2]);
+    expect(report.invalidCitations).toEqual([4]);
+    expect(report.supportedRatio).toBe(0.5);
+    expect(report.semantic).toBe(false);
+  });
+
+  it("should blend in semantic similarity and fall back to lexical when embedding fails", async () => {
+    const embed = vi.fn(async (texts: string[]) => texts.map((text) => (text.includes("seal") ? [1, 0] : [0, 1])));
+    const answer = "A worn seal triggers that code [1][2].";
+
+    const report = await verifyGrounding(answer, SOURCES, { embed });
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(report.sentences[0].citations).toEqual([1, 2]);
+    expect(report.sentences[0].support.map((s) => s.semantic)).toEqual([1, 0]);
+    expect(report.sentences[0].status).toBe("supported");
+
+    const fallback = await verifyGrounding(answer, SOURCES, {
+      embed: async () => {
+        throw new Error("model offline");
+      },
+    });
+    expect(fallback.semantic).toBe(false);
+    expect(fallback.sentences[0].status).toBe("unsupported");
+  });
+});
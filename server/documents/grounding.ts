@@ -0,0 +1,177 @@
+/**
+ * Grounding
+ * Post-generation checks on RAG answers: parses [Source N] / [N] citations,
+ * flags citations of sources that were never retrieved, and scores each cited
+ * sentence for lexical and (optionally) semantic support against its chunks.
+ */
+
+import { tokenize } from "../vectordb/bm25-index";
+import { similarity } from "../vectordb/vector-store";
+
+export type GroundingStatus = "supported" | "unsupported" | "invalid_citation" | "uncited";
+
+export interface GroundingSource {
+  id: number; // The N in [Source N]
+  text: string;
+}
+
+export interface CitationSupport {
+  source: number;
+  lexical: number; // Share of the sentence's terms found in the chunk, 0-1
+  semantic: number | null; // Cosine similarity of sentence and chunk embeddings
+  score: number;
+}
+
+export interface GroundedSentence {
+  index: number;
+  text: string;
+  citations: number[];
+  invalidCitations: number[]; // Cited source numbers that were not in the context
+  support: CitationSupport[]; // One entry per valid citation
+  score: number | null; // Best support among valid citations; null when nothing valid is cited
+  status: GroundingStatus;
+}
+
+export interface GroundingReport {
+  sentences: GroundedSentence[];
+  citedSources: number[];
+  invalidCitations: number[];
+  supportedRatio: number | null; // Supported share of sentences with valid citations
+  semantic: boolean; // Whether semantic support was computed
+  threshold: number;
+}
+
+export interface GroundingOptions {
+  // Embeds texts for semantic support; lexical support only when omitted or failing
+  embed?: (texts: string[]) => Promise<number[][]>;
+  threshold?: number; // Minimum support score for "supported" (default 0.5)
+}
+
+const DEFAULT_THRESHOLD = 0.5;
+
+// [Source 1], [1], [Source 1, 2], [1, Source 3]
+const CITATION_PATTERN = /\[\s*(?:source\s*)?\d+(?:\s*(?:,|;|and|&)\s*(?:source\s*)?\d+)*\s*\]/gi;
+// A sentence runs to terminal punctuation followed by whitespace; "3.5" and "e.g." stay intact
+const SENTENCE_PATTERN = /(?:[^.!?]|[.!?](?=\S))+(?:[.!?]+|$)/g;
+const CITATION_ONLY = /^(?:\s*\[\s*(?:source\s*)?\d+[^\]]*\]\s*)+[.!?]*$/i;
+
+function parseCitations(text: string): number[] {
+  const numbers: number[] = [];
+  for (const marker of text.match(CITATION_PATTERN) ?? []) {
+    for (const digits of marker.match(/\d+/g) ?? []) {
+      const n = parseInt(digits, 10);
+      if (!numbers.includes(n)) numbers.push(n);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Split an answer into sentences; a citation placed after the full stop
+ * ("... failed. [Source 2]") belongs to the sentence before it
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const line of text.split(/\n+/)) {
+    for (const match of line.match(SENTENCE_PATTERN) ?? []) {
+      const sentence = match.trim();
+      if (!sentence) continue;
+      if (CITATION_ONLY.test(sentence) && sentences.length > 0) {
+        sentences[sentences.length - 1] += ` ${sentence}`;
+      } else {
+        sentences.push(sentence);
+      }
+    }
+  }
+  return sentences;
+}
+
+function lexicalSupport(sentence: string, chunk: string): number {
+  const terms = Array.from(new Set(tokenize(sentence)));
+  if (terms.length === 0) return 0;
+  const chunkTerms = new Set(tokenize(chunk));
+  return terms.filter((term) => chunkTerms.has(term)).length / terms.length;
+}
+
+/**
+ * Check an answer's citations against the sources it was given
+ */
+export async function verifyGrounding(
+  answer: string,
+  sources: GroundingSource[],
+  options: GroundingOptions = {}
+): Promise<GroundingReport> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const sourceById = new Map(sources.map((source) => [source.id, source]));
+
+  const sentences = splitSentences(answer).map((raw, index) => {
+    const citations = parseCitations(raw);
+    return {
+      index,
+      raw,
+      text: raw.replace(CITATION_PATTERN, "").replace(/\s+([.,;:!?])/g, "$1").trim(),
+      citations,
+      valid: citations.filter((n) => sourceById.has(n)),
+      invalid: citations.filter((n) => !sourceById.has(n)),
+    };
+  });
+
+  // Embed each cited sentence and cited chunk once
+  let vectors: Map<string, number[]> | null = null;
+  if (options.embed) {
+    const texts = Array.from(
+      new Set(
+        sentences
+          .filter((s) => s.valid.length > 0)
+          .flatMap((s) => [s.text, ...s.valid.map((n) => sourceById.get(n)!.text)])
+      )
+    );
+    if (texts.length > 0) {
+      try {
+        const embeddings = await options.embed(texts);
+        vectors = new Map(texts.map((text, i) => [text, embeddings[i]]));
+      } catch (error: any) {
+        console.warn(`[Grounding] Semantic support unavailable, using lexical only: ${error.message}`);
+      }
+    }
+  }
+
+  const grounded: GroundedSentence[] = sentences.map((sentence) => {
+    const support = sentence.valid.map((n): CitationSupport => {
+      const chunk = sourceById.get(n)!.text;
+      const lexical = lexicalSupport(sentence.text, chunk);
+      const semantic = vectors ? similarity("Cosine", vectors.get(sentence.text)!, vectors.get(chunk)!) : null;
+      return { source: n, lexical, semantic, score: semantic === null ? lexical : (lexical + semantic) / 2 };
+    });
+    const score = support.length > 0 ? Math.max(...support.map((s) => s.score)) : null;
+
+    let status: GroundingStatus;
+    if (sentence.invalid.length > 0) status = "invalid_citation";
+    else if (score === null) status = "uncited";
+    else status = score >= threshold ? "supported" : "unsupported";
+
+    return {
+      index: sentence.index,
+      text: sentence.raw,
+      citations: sentence.citations,
+      invalidCitations: sentence.invalid,
+      support,
+      score,
+      status,
+    };
+  });
+
+  const scored = grounded.filter((s) => s.score !== null);
+  const citedSources = Array.from(new Set(sentences.flatMap((s) => s.valid))).sort((a, b) => a - b);
+  const invalidCitations = Array.from(new Set(sentences.flatMap((s) => s.invalid))).sort((a, b) => a - b);
+
+  return {
+    sentences: grounded,
+    citedSources,
+    invalidCitations,
+    supportedRatio:
+      scored.length > 0 ? scored.filter((s) => s.score! >= threshold).length / scored.length : null,
+    semantic: vectors !== null,
+    threshold,
+  };
+}
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  getWorkspaceChunks: vi.fn(),
+  getWorkspaceChunkStats: vi.fn(),
+}));
+
+import * as documentsDb from "./db";
+import { hybridSearch } from "./hybrid-search";
+import { Bm25Index, tokenize } from "../vectordb/bm25-index";
+import { reciprocalRankFusion, type VectorStore } from "../vectordb/vector-store";
+
+const db = vi.mocked(documentsDb);
+
+const CHUNKS = [
+  { id: 1, documentId: 10, chunkIndex: 0, content: "Replace the pump seal when the controller shows ERR-4021.", pageNumber: 1, heading: null },
+  { id: 2, documentId: 10, chunkIndex: 1, content: "Routine maintenance keeps the pump running smoothly.", pageNumber: 2, heading: null },
+  { id: 3, documentId: 11, chunkIndex: 0, content: "Part AX-778.B2 is the replacement gasket for the inlet valve.", pageNumber: 1, heading: "Spares" },
+];
+
+function vectorStore(ids: number[]): VectorStore {
+  return {
+    search: vi.fn(async () =>
+      ids.map((id, i) => ({ id, score: 0.9 - i * 0.1, payload: { chunkId: id, text: `chunk ${id}` } }))
+    ),
+  } as unknown as VectorStore;
+}
+
+describe("BM25 index", () => {
+  it("should keep part numbers and error codes whole while indexing their parts", () => {
+    expect(tokenize("Fault ERR-4021 on AX-778.B2")).toEqual([
+      "fault", "err-4021", "err", "4021", "ax-778.b2", "ax", "778", "b2",
+    ]);
+  });
+
+  it("should rank exact identifier matches first", () => {
+    const index = new Bm25Index<number>();
+    for (const chunk of CHUNKS) index.add(String(chunk.id), chunk.content, chunk.id);
+
+    expect(index.search("what does err-4021 mean", 3).map((hit) => hit.value)).toEqual([1]);
+    expect(index.search("ax-778.b2", 3)[0].value).toBe(3);
+    expect(index.search("pump", 3).map((hit) => hit.value).sort()).toEqual([1, 2]);
+
+    index.remove("1");
+    expect(index.search("err-4021", 3)).toEqual([]);
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  it("should reward results found by both rankings and respect weights", () => {
+    const a = { id: 1, score: 0.9, payload: { chunkId: 1 } };
+    const b = { id: 2, score: 0.8, payload: { chunkId: 2 } };
+    const c = { id: "3", score: 12, payload: { chunkId: 3 } };
+
+    const fused = reciprocalRankFusion({
+      vector: { results: [a, b] },
+      lexical: { results: [c, { ...b, id: "2", score: 7 }] },
+    });
+    expect(fused.map((r) => r.id)).toEqual([2, 1, "3"]);
+    expect(fused[0].ranks).toEqual({ vector: 2, lexical: 2 });
+
+    const lexicalHeavy = reciprocalRankFusion({
+      vector: { results: [a], weight: 0.2 },
+      lexical: { results: [c], weight: 1 },
+    });
+    expect(lexicalHeavy.map((r) => r.id)).toEqual(["3", 1]);
+  });
+});
+
+describe("hybridSearch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.getWorkspaceChunks.mockResolvedValue(CHUNKS);
+    db.getWorkspaceChunkStats.mockResolvedValue({ count: CHUNKS.length, maxId: 3 });
+  });
+
+  it("should surface error codes the vector ranking misses", async () => {
+    const store = vectorStore([2, 3]);
+
+    const results = await hybridSearch({
+      workspaceId: 5,
+      mode: "hybrid",
+      limit: 3,
+      text: "pump fault ERR-4021",
+      vector: { store, collection: "workspace-5", query: [0.1, 0.2] },
+    });
+
+    expect(results.map((r) => r.payload.chunkId)).toContain(1);
+    expect(results[0].payload.chunkId).toBe(2); // Ranked by both
+    expect(store.search).toHaveBeenCalledWith(expect.objectContaining({ limit: 12 }));
+  });
+
+  it("should rebuild the lexical index only when the workspace's chunks change", async () => {
+    await hybridSearch({ workspaceId: 6, mode: "lexical", limit: 2, text: "gasket" });
+    const [hit] = await hybridSearch({ workspaceId: 6, mode: "lexical", limit: 2, text: "gasket" });
+    expect(hit.payload).toMatchObject({ workspaceId: 6, documentId: 11, chunkId: 3, metadata: { heading: "Spares" } });
+    expect(db.getWorkspaceChunks).toHaveBeenCalledTimes(1);
+
+    db.getWorkspaceChunkStats.mockResolvedValue({ count: 2, maxId: 3 });
+    db.getWorkspaceChunks.mockResolvedValue(CHUNKS.filter((chunk) => chunk.id !== 3));
+    expect(await hybridSearch({ workspaceId: 6, mode: "lexical", limit: 2, text: "gasket" })).toEqual([]);
+  });
+
+  it("should fall back to vector results when the lexical index is unavailable", async () => {
+    db.getWorkspaceChunkStats.mockRejectedValue(new Error("Database not available"));
+    const store = vectorStore([2]);
+
+    const results = await hybridSearch({
+      workspaceId: 7,
+      mode: "hybrid",
+      limit: 3,
+      text: "pump",
+      vector: { store, collection: "workspace-7", query: [0.1] },
+    });
+    expect(results.map((r) => r.id)).toEqual([2]);
+  });
+});
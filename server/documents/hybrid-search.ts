@@ -0,0 +1,74 @@
+/**
+ * Hybrid Search
+ * Runs vector and/or BM25 retrieval and fuses the two rankings with weighted
+ * reciprocal-rank fusion. Lexical matching catches exact identifiers (part
+ * numbers, error codes) that embeddings miss; vectors catch paraphrases.
+ */
+
+import {
+  reciprocalRankFusion,
+  type FusedSearchResult,
+  type VectorFilter,
+  type VectorSearchResult,
+  type VectorStore,
+} from "../vectordb/vector-store";
+import { searchLexical } from "./lexical-search";
+import { DEFAULT_RETRIEVAL_PROFILE, type RetrievalMode } from "./retrieval-profile";
+
+export interface HybridSearchRequest {
+  workspaceId: number;
+  mode: RetrievalMode;
+  limit: number;
+  text?: string; // Lexical query
+  vector?: { store: VectorStore; collection: string; query: number[]; scoreThreshold?: number } | null;
+  filter?: VectorFilter;
+  weights?: { vector: number; lexical: number };
+}
+
+// Each ranking contributes more candidates than requested so fusion can reorder them
+const CANDIDATE_MULTIPLIER = 4;
+
+export async function hybridSearch(request: HybridSearchRequest): Promise<Array<VectorSearchResult | FusedSearchResult>> {
+  const { workspaceId, mode, limit, text, vector, filter } = request;
+  const weights = request.weights ?? {
+    vector: DEFAULT_RETRIEVAL_PROFILE.vectorWeight,
+    lexical: DEFAULT_RETRIEVAL_PROFILE.lexicalWeight,
+  };
+  const candidates = mode === "hybrid" ? limit * CANDIDATE_MULTIPLIER : limit;
+
+  const vectorSearch = async (): Promise<VectorSearchResult[]> => {
+    if (!vector) return [];
+    return vector.store.search({
+      collection: vector.collection,
+      query: vector.query,
+      limit: candidates,
+      filter,
+      scoreThreshold: vector.scoreThreshold,
+    });
+  };
+
+  const lexicalSearch = async (): Promise<VectorSearchResult[]> => {
+    if (!text?.trim()) return [];
+    return searchLexical(workspaceId, text, candidates, filter);
+  };
+
+  if (mode === "vector") return vectorSearch();
+  if (mode === "lexical") return lexicalSearch();
+
+  // Hybrid degrades to whichever side is available
+  const [vectorResults, lexicalResults] = await Promise.all([
+    vectorSearch(),
+    lexicalSearch().catch((error) => {
+      console.warn(`[HybridSearch] Lexical search unavailable for workspace ${workspaceId}:`, error.message);
+      return [] as VectorSearchResult[];
+    }),
+  ]);
+
+  return reciprocalRankFusion(
+    {
+      vector: { results: vectorResults, weight: weights.vector },
+      lexical: { results: lexicalResults, weight: weights.lexical },
+    },
+    limit
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Lexical Search
+ * BM25 over a workspace's document_chunks. Each workspace's index is built
+ * in memory on first search and rebuilt whenever its chunks change.
+ */
+
+import { Bm25Index } from "../vectordb/bm25-index";
+import { matchesFilter, type VectorFilter, type VectorSearchResult } from "../vectordb/vector-store";
+import { getWorkspaceChunks, getWorkspaceChunkStats } from "./db";
+
+interface WorkspaceIndex {
+  index: Bm25Index<Record<string, any>>;
+  signature: string;
+}
+
+const indexes: Map<number, WorkspaceIndex> = new Map();
+const building: Map<number, Promise<WorkspaceIndex>> = new Map();
+
+async function buildIndex(workspaceId: number, signature: string): Promise<WorkspaceIndex> {
+  const chunks = await getWorkspaceChunks(workspaceId);
+  const index = new Bm25Index<Record<string, any>>();
+
+  for (const chunk of chunks) {
+    // Same payload shape as the chunk's vector, so fused results line up
+    index.add(String(chunk.id), [chunk.heading, chunk.content].filter(Boolean).join("\n"), {
+      workspaceId,
+      documentId: chunk.documentId,
+      chunkId: chunk.id,
+      chunkIndex: chunk.chunkIndex,
+      text: chunk.content,
+      metadata: { pageNumber: chunk.pageNumber, heading: chunk.heading },
+    });
+  }
+
+  console.log(`[LexicalSearch] Indexed ${chunks.length} chunks for workspace ${workspaceId}`);
+  return { index, signature };
+}
+
+async function getWorkspaceIndex(workspaceId: number): Promise<WorkspaceIndex> {
+  const stats = await getWorkspaceChunkStats(workspaceId);
+  const signature = `${stats.count}:${stats.maxId}`;
+
+  const cached = indexes.get(workspaceId);
+  if (cached && cached.signature === signature) return cached;
+
+  let pending = building.get(workspaceId);
+  if (!pending) {
+    pending = buildIndex(workspaceId, signature)
+      .then((built) => {
+        indexes.set(workspaceId, built);
+        return built;
+      })
+      .finally(() => building.delete(workspaceId));
+    building.set(workspaceId, pending);
+  }
+  return pending;
+}
+
+/**
+ * Drop a workspace's cached index after chunks changed in place (e.g. moved by
+ * re-ingestion), which the count/max-id signature cannot see
+ */
+export function invalidateLexicalIndex(workspaceId: number): void {
+  indexes.delete(workspaceId);
+}
+
+/**
+ * BM25 search over a workspace's chunks; scores are raw BM25, higher is better
+ */
+export async function searchLexical(
+  workspaceId: number,
+  query: string,
+  limit = 10,
+  filter?: VectorFilter
+): Promise<VectorSearchResult[]> {
+  const { index } = await getWorkspaceIndex(workspaceId);
+
+  return index
+    .search(query, limit, filter ? (payload) => matchesFilter(payload, filter) : undefined)
+    .map((hit) => ({ id: hit.value.chunkId, score: hit.score, payload: hit.value }));
+}
@@ -1,9 +1,13 @@
-import mammoth from 'mammoth';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
 import type { Document } from '../../drizzle/schema';
+import { extractFromBuffer } from './extraction-service';
+import { chunkStructuredDocument, chunkWithParents, type DocumentChunk } from './chunking-service';
+import type { Tokenizer } from './tokenizer-service';
+import type { StructuredDocument } from './extractors/structure';
+import { contentHash, diffChunks } from './reingestion';
 
 export interface ProcessingResult {
   text: string;
+  structure: StructuredDocument;
   metadata: {
     pageCount?: number;
     wordCount: number;
@@ -15,207 +19,46 @@ export interface ProcessingResult {
 export interface ChunkResult {
   content: string;
   chunkIndex: number;
+  tokenCount: number;
+  parentIndex?: number; // chunkIndex of the parent in parent/child mode
   metadata?: {
     pageNumber?: number;
     heading?: string;
   };
 }
 
-/**
- * Extract text from PDF files
- */
-export async function extractTextFromPDF(buffer: Buffer): Promise<ProcessingResult> {
-  try {
-    // Dynamic import for pdf-parse (CommonJS module)
-    const pdfParseModule = await import('pdf-parse');
-    const pdfParse = (pdfParseModule as any).default || pdfParseModule;
-    const data = await pdfParse(buffer);
-    
-    return {
-      text: data.text,
-      metadata: {
-        pageCount: data.numpages,
-        wordCount: data.text.split(/\s+/).length,
-        title: data.info?.Title,
-        author: data.info?.Author,
-      },
-    };
-  } catch (error) {
-    console.error('[DocumentProcessor] PDF extraction error:', error);
-    throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
+// document_chunks.heading is varchar(500)
+const MAX_HEADING_LENGTH = 500;
 
 /**
- * Extract text from DOCX files
+ * Extract text and structure based on file type (MIME type or extension),
+ * falling back to the filename's extension for generic MIME types
  */
-export async function extractTextFromDOCX(buffer: Buffer): Promise<ProcessingResult> {
+export async function extractText(buffer: Buffer, fileType: string, filename?: string): Promise<ProcessingResult> {
   try {
-    const result = await mammoth.extractRawText({ buffer });
-    const text = result.value;
-    
+    const { text, structure, metadata } = await extractFromBuffer(buffer, filename ?? fileType, fileType);
     return {
       text,
+      structure,
       metadata: {
-        wordCount: text.split(/\s+/).length,
+        pageCount: metadata.pages,
+        wordCount: metadata.wordCount,
+        title: metadata.title,
+        author: metadata.author,
       },
     };
   } catch (error) {
-    console.error('[DocumentProcessor] DOCX extraction error:', error);
-    throw new Error(`Failed to extract text from DOCX: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-}
-
-/**
- * Extract text from plain text files
- */
-export async function extractTextFromPlainText(buffer: Buffer): Promise<ProcessingResult> {
-  try {
-    const text = buffer.toString('utf-8');
-    
-    return {
-      text,
-      metadata: {
-        wordCount: text.split(/\s+/).length,
-      },
-    };
-  } catch (error) {
-    console.error('[DocumentProcessor] Text extraction error:', error);
+    console.error('[DocumentProcessor] Extraction error:', error);
     throw new Error(`Failed to extract text: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-/**
- * Extract text based on file type
- */
-export async function extractText(buffer: Buffer, fileType: string): Promise<ProcessingResult> {
-  const normalizedType = fileType.toLowerCase();
-  
-  if (normalizedType === 'pdf' || normalizedType === 'application/pdf') {
-    return extractTextFromPDF(buffer);
-  } else if (normalizedType === 'docx' || normalizedType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-    return extractTextFromDOCX(buffer);
-  } else if (normalizedType === 'txt' || normalizedType === 'text/plain' || normalizedType === 'md' || normalizedType === 'text/markdown') {
-    return extractTextFromPlainText(buffer);
-  } else {
-    throw new Error(`Unsupported file type: ${fileType}`);
-  }
-}
-
-/**
- * Chunk text using fixed-size strategy
- */
-export async function chunkTextFixed(
-  text: string,
-  chunkSize: number = 512,
-  chunkOverlap: number = 50
-): Promise<ChunkResult[]> {
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize,
-    chunkOverlap,
-    separators: ['\n\n', '\n', '. ', ' ', ''],
-  });
-  
-  const chunks = await splitter.createDocuments([text]);
-  
-  return chunks.map((chunk, index) => ({
-    content: chunk.pageContent,
-    chunkIndex: index,
-  }));
-}
-
-/**
- * Chunk text using semantic strategy (sentence-based)
- */
-export async function chunkTextSemantic(
-  text: string,
-  chunkSize: number = 512,
-  chunkOverlap: number = 50
-): Promise<ChunkResult[]> {
-  // Split by sentences first
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-  
-  const chunks: ChunkResult[] = [];
-  let currentChunk = '';
-  let chunkIndex = 0;
-  
-  for (const sentence of sentences) {
-    const trimmedSentence = sentence.trim();
-    
-    if ((currentChunk + trimmedSentence).length > chunkSize && currentChunk.length > 0) {
-      // Save current chunk
-      chunks.push({
-        content: currentChunk.trim(),
-        chunkIndex: chunkIndex++,
-      });
-      
-      // Start new chunk with overlap
-      const words = currentChunk.split(/\s+/);
-      const overlapWords = words.slice(-Math.floor(chunkOverlap / 5)); // Approximate word count
-      currentChunk = overlapWords.join(' ') + ' ' + trimmedSentence;
-    } else {
-      currentChunk += (currentChunk ? ' ' : '') + trimmedSentence;
-    }
-  }
-  
-  // Add final chunk
-  if (currentChunk.trim()) {
-    chunks.push({
-      content: currentChunk.trim(),
-      chunkIndex: chunkIndex,
-    });
-  }
-  
-  return chunks;
-}
-
-/**
- * Chunk text using recursive strategy (hierarchical)
- */
-export async function chunkTextRecursive(
-  text: string,
-  chunkSize: number = 512,
-  chunkOverlap: number = 50
-): Promise<ChunkResult[]> {
-  const splitter = new RecursiveCharacterTextSplitter({
-    chunkSize,
-    chunkOverlap,
-    separators: ['\n\n\n', '\n\n', '\n', '. ', '! ', '? ', '; ', ': ', ', ', ' ', ''],
-  });
-  
-  const chunks = await splitter.createDocuments([text]);
-  
-  return chunks.map((chunk, index) => ({
-    content: chunk.pageContent,
-    chunkIndex: index,
-  }));
-}
-
-/**
- * Chunk text based on strategy
- */
-export async function chunkText(
-  text: string,
-  strategy: 'semantic' | 'fixed' | 'recursive' = 'semantic',
-  chunkSize: number = 512,
-  chunkOverlap: number = 50
-): Promise<ChunkResult[]> {
-  console.log(`[DocumentProcessor] Chunking text with strategy: ${strategy}, size: ${chunkSize}, overlap: ${chunkOverlap}`);
-  
-  switch (strategy) {
-    case 'semantic':
-      return chunkTextSemantic(text, chunkSize, chunkOverlap);
-    case 'fixed':
-      return chunkTextFixed(text, chunkSize, chunkOverlap);
-    case 'recursive':
-      return chunkTextRecursive(text, chunkSize, chunkOverlap);
-    default:
-      throw new Error(`Unknown chunking strategy: ${strategy}`);
-  }
-}
-
 /**
  * Process document upload: store to S3, create DB record, and process in background
+ *
+ * Re-uploading a document (by documentId, or a file with the same name in the
+ * workspace) records a new version and re-ingests only its changed chunks; an
+ * identical file is skipped entirely.
  */
 export async function processDocumentUpload(
   input: {
@@ -224,15 +67,19 @@ export async function processDocumentUpload(
     fileType: string;
     fileSize: number;
     fileContent: string; // Base64
+    documentId?: number; // Document this file is a new version of
+    sourceId?: number; // Connector the file comes from; its documents are never matched by filename
   },
-  userId: number
+  userId: number,
+  options: { wait?: boolean } = {} // Resolve once processing has finished, reporting its error
 ) {
   const { storagePut } = await import('../storage');
   const {
     createDocument,
-    updateDocumentStatus,
-    updateDocumentMetadata,
-    createDocumentChunks,
+    createDocumentVersion,
+    getDocumentById,
+    getDocumentByFilename,
+    updateDocumentFile,
   } = await import('./db');
 
   // Validate file size (16MB limit)
@@ -242,76 +89,174 @@ export async function processDocumentUpload(
 
   // Decode base64 content
   const buffer = Buffer.from(input.fileContent, 'base64');
+  const fileHash = contentHash(buffer);
+
+  const existing = input.documentId !== undefined
+    ? await getDocumentById(input.documentId)
+    : input.sourceId === undefined
+      ? await getDocumentByFilename(input.workspaceId, input.filename)
+      : undefined;
+  if (input.documentId !== undefined && existing?.workspaceId !== input.workspaceId) {
+    throw new Error(`Document ${input.documentId} not found in workspace ${input.workspaceId}`);
+  }
+
+  if (existing && existing.contentHash === fileHash && existing.status === 'completed') {
+    return {
+      success: true,
+      documentId: existing.id,
+      version: existing.version,
+      unchanged: true,
+      error: null,
+      message: 'Document unchanged. Nothing to re-ingest.',
+    };
+  }
 
   // Generate unique file key
   const timestamp = Date.now();
   const randomSuffix = Math.random().toString(36).substring(7);
   const fileKey = `documents/${input.workspaceId}/${timestamp}-${randomSuffix}-${input.filename}`;
 
+  let documentId: number;
+  let version: number;
   try {
-    // Upload to S3
+    // Upload to S3; earlier versions keep their own files
     const { url: fileUrl } = await storagePut(fileKey, buffer, input.fileType);
-
-    // Create document record
-    const document = await createDocument({
-      workspaceId: input.workspaceId,
-      filename: input.filename,
+    const file = {
       fileType: input.fileType,
       fileSize: input.fileSize,
       fileUrl,
       fileKey,
-      status: 'pending',
-      uploadedBy: userId,
-    });
-
-    // Process document in background
-    processDocumentBackground(
-      document.id,
-      buffer,
-      input.fileType
-    ).catch((error) => {
-      console.error(`[DocumentProcessor] Background processing failed for document ${document.id}:`, error);
-    });
-
-    return {
-      success: true,
-      documentId: document.id,
-      message: 'Document uploaded successfully. Processing in background.',
+      contentHash: fileHash,
     };
+
+    if (existing) {
+      documentId = existing.id;
+      version = existing.version + 1;
+      await updateDocumentFile(documentId, { ...file, version });
+    } else {
+      // Create document record
+      const document = await createDocument({
+        workspaceId: input.workspaceId,
+        filename: input.filename,
+        ...file,
+        version: 1,
+        sourceId: input.sourceId,
+        status: 'pending',
+        uploadedBy: userId,
+      });
+      documentId = document.id;
+      version = 1;
+    }
+    await createDocumentVersion({ documentId, version, ...file, uploadedBy: userId });
   } catch (error) {
     console.error('[DocumentProcessor] Upload error:', error);
     throw new Error(`Failed to upload document: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
+
+  // Process document in background, unless the caller waits for the outcome
+  const processing = processDocumentBackground(
+    documentId,
+    input.workspaceId,
+    buffer,
+    input.fileType,
+    input.filename,
+    version
+  );
+  let processingError: string | null = null;
+  if (options.wait) {
+    processingError = await processing;
+  } else {
+    processing.catch((error) => {
+      console.error(`[DocumentProcessor] Background processing failed for document ${documentId}:`, error);
+    });
+  }
+
+  return {
+    success: processingError === null,
+    documentId,
+    version,
+    unchanged: false,
+    error: processingError,
+    message: processingError
+      ? `Document processing failed: ${processingError}`
+      : options.wait
+        ? `Document processed as version ${version}.`
+        : existing
+          ? `Document updated to version ${version}. Re-ingesting changed chunks in background.`
+          : 'Document uploaded successfully. Processing in background.',
+  };
 }
 
 /**
- * Background document processing
+ * Background document processing: chunks are diffed against the document's
+ * stored chunks, so only new ones are embedded and stale ones removed.
+ * Resolves with the error message if processing failed.
  */
 async function processDocumentBackground(
   documentId: number,
+  workspaceId: number,
   buffer: Buffer,
-  fileType: string
-) {
+  fileType: string,
+  filename: string,
+  version: number
+): Promise<string | null> {
   const {
     updateDocumentStatus,
     updateDocumentMetadata,
+    updateDocumentVersionStats,
     createDocumentChunks,
     getDocumentChunks,
+    updateDocumentChunk,
+    deleteDocumentChunks,
   } = await import('./db');
 
   try {
-    console.log(`[DocumentProcessor] Starting background processing for document ${documentId}`);
+    console.log(`[DocumentProcessor] Starting background processing for document ${documentId} v${version}`);
 
     // Update status
     await updateDocumentStatus(documentId, 'processing');
 
-    // Process document with default settings
-    const { text, metadata, chunks } = await processDocument(
+    // Process document with the workspace's chunking settings
+    const { getRetrievalProfile } = await import('./retrieval-profile');
+    const { chunking } = await getRetrievalProfile(workspaceId);
+    const tokenizer = chunking.tokenizer
+      ? await (await import('./tokenizer-service')).getTokenizer(chunking.tokenizer)
+      : undefined;
+    const { metadata, chunks, parents } = await processDocument(
       buffer,
       fileType,
-      'semantic',
-      512,
-      50
+      chunking.strategy,
+      chunking.size,
+      chunking.overlap,
+      filename,
+      { tokenizer, parentChunkSize: chunking.parentSize }
+    );
+
+    // Match against the previous version's chunks by content hash; parents and children separately
+    const storedChunks = await getDocumentChunks(documentId);
+    const parentDiff = diffChunks(storedChunks.filter((chunk) => chunk.isParent), parents);
+    const addedParents = parentDiff.added.length > 0
+      ? await createDocumentChunks(parentDiff.added.map((chunk) => ({
+          documentId,
+          content: chunk.content,
+          chunkIndex: chunk.chunkIndex,
+          pageNumber: chunk.metadata?.pageNumber,
+          heading: chunk.metadata?.heading,
+          contentHash: chunk.contentHash,
+          tokenCount: chunk.tokenCount,
+          isParent: true,
+        })))
+      : [];
+    const parentIds = new Map<number, number>();
+    addedParents.forEach((row) => parentIds.set(row.chunkIndex, row.id));
+    parentDiff.unchanged.forEach(({ id, chunk }) => parentIds.set(chunk.chunkIndex, id));
+
+    const diff = diffChunks(
+      storedChunks.filter((chunk) => !chunk.isParent),
+      chunks.map((chunk) => ({
+        ...chunk,
+        parentChunkId: chunk.parentIndex !== undefined ? parentIds.get(chunk.parentIndex) ?? null : null,
+      }))
     );
 
     // Update document metadata
@@ -321,90 +266,179 @@ async function processDocumentBackground(
       pageCount: metadata.pageCount,
       wordCount: metadata.wordCount,
       chunkCount: chunks.length,
-      embeddingModel: 'text-embedding-3-small',
     });
 
-    // Save chunks to database
-    const chunkRecords = chunks.map((chunk) => ({
+    // Save new chunks before removing stale ones, so the document stays searchable
+    const added = await createDocumentChunks(diff.added.map((chunk) => ({
       documentId,
       content: chunk.content,
       chunkIndex: chunk.chunkIndex,
       pageNumber: chunk.metadata?.pageNumber,
       heading: chunk.metadata?.heading,
-    }));
+      contentHash: chunk.contentHash,
+      tokenCount: chunk.tokenCount,
+      parentChunkId: chunk.parentChunkId,
+    })));
+
+    const toUpdate = ({ id, chunk }: { id: number; chunk: ChunkResult & { contentHash: string; parentChunkId?: number | null } }) => ({
+      id,
+      chunkIndex: chunk.chunkIndex,
+      pageNumber: chunk.metadata?.pageNumber ?? null,
+      heading: chunk.metadata?.heading ?? null,
+      contentHash: chunk.contentHash,
+      parentChunkId: chunk.parentChunkId ?? null,
+      tokenCount: chunk.tokenCount,
+    });
+    const movedParents = parentDiff.unchanged.filter((match) => match.moved).map(toUpdate);
+    const moved = diff.unchanged.filter((match) => match.moved).map(toUpdate);
 
-    await createDocumentChunks(chunkRecords);
+    const { getEmbeddingService } = await import('../embeddings/service');
+    const embeddingService = getEmbeddingService();
 
-    // Generate and store embeddings if OpenAI API key is configured
-    if (process.env.OPENAI_API_KEY) {
+    // Generate and store embeddings for new chunks in the workspace's collection
+    console.log(`[DocumentProcessor] Generating embeddings for ${added.length} new chunks of document ${documentId}`);
+    let embeddingModel: string | null;
+    try {
+      embeddingModel = await embeddingService.storeChunkEmbeddings(
+        workspaceId,
+        added.map(chunk => ({
+          id: chunk.id,
+          content: chunk.content,
+          documentId: chunk.documentId,
+          chunkIndex: chunk.chunkIndex,
+          pageNumber: chunk.pageNumber,
+          heading: chunk.heading,
+        }))
+      );
+    } catch (embError) {
+      // A chunk left without vectors would match by hash on the next upload and never be embedded
+      const addedIds = added.map((chunk) => chunk.id);
       try {
-        console.log(`[DocumentProcessor] Generating embeddings for document ${documentId}`);
-        const { getEmbeddingService } = await import('../embeddings/service');
-        const embeddingService = getEmbeddingService();
-        
-        // Get the saved chunks with their IDs
-        const savedChunks = await getDocumentChunks(documentId);
-        
-        // Store embeddings
-        await embeddingService.storeChunkEmbeddings(
-          savedChunks.map(chunk => ({
-            id: chunk.id,
-            content: chunk.content,
-            documentId: chunk.documentId,
-            chunkIndex: chunk.chunkIndex,
-          }))
-        );
-        
-        console.log(`[DocumentProcessor] Embeddings generated for document ${documentId}`);
-      } catch (embError) {
-        console.error(`[DocumentProcessor] Failed to generate embeddings for document ${documentId}:`, embError);
-        // Don't fail the entire process if embeddings fail
+        await embeddingService.deleteChunkEmbeddings(workspaceId, addedIds);
+      } catch {
+        // The store is likely what failed; a stray vector stays tagged with the document and goes with it
       }
-    } else {
-      console.log(`[DocumentProcessor] Skipping embeddings (OPENAI_API_KEY not configured)`);
+      await deleteDocumentChunks(addedIds);
+      throw new Error(`Failed to generate embeddings: ${embError instanceof Error ? embError.message : 'Unknown error'}`);
+    }
+    if (embeddingModel) {
+      await updateDocumentMetadata(documentId, { embeddingModel });
+    }
+    console.log(`[DocumentProcessor] Embeddings generated for document ${documentId}`);
+
+    // Payloads before rows: if the store fails, the rows still differ and the next run moves them again
+    await embeddingService.updateChunkPayloads(workspaceId, moved);
+    for (const { id, ...updates } of [...movedParents, ...moved]) {
+      await updateDocumentChunk(id, updates);
     }
 
+    // Stale vectors must go before their chunks do; a failure here leaves the chunks for the next run.
+    // Parents have no vectors.
+    await embeddingService.deleteChunkEmbeddings(workspaceId, diff.removed);
+    await deleteDocumentChunks([...diff.removed, ...parentDiff.removed]);
+    if (moved.length > 0) {
+      const { invalidateLexicalIndex } = await import('./lexical-search');
+      invalidateLexicalIndex(workspaceId);
+    }
+
+    await updateDocumentVersionStats(documentId, version, {
+      chunkCount: chunks.length,
+      chunksAdded: diff.added.length,
+      chunksRemoved: diff.removed.length,
+      chunksUnchanged: diff.unchanged.length,
+    });
+
     // Update status to completed
     await updateDocumentStatus(documentId, 'completed');
 
-    console.log(`[DocumentProcessor] Completed processing for document ${documentId}: ${chunks.length} chunks created`);
+    console.log(
+      `[DocumentProcessor] Completed processing for document ${documentId} v${version}: ${chunks.length} chunks ` +
+        `(${diff.added.length} added, ${diff.removed.length} removed, ${diff.unchanged.length} unchanged)`
+    );
+    return null;
   } catch (error) {
     console.error(`[DocumentProcessor] Error processing document ${documentId}:`, error);
-    await updateDocumentStatus(
-      documentId,
-      'error',
-      error instanceof Error ? error.message : 'Unknown error'
-    );
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await updateDocumentStatus(documentId, 'error', message);
+    return message;
   }
 }
 
 /**
- * Process a document: extract text and chunk it
+ * Delete a document with its chunks, version history and vectors
+ */
+export async function deleteDocumentWithEmbeddings(documentId: number): Promise<void> {
+  const { getDocumentById, deleteDocument } = await import('./db');
+  const document = await getDocumentById(documentId);
+  if (!document) return;
+
+  // Vectors first: if the store is unreachable the document stays, rather than leaving orphaned vectors
+  const { getEmbeddingService } = await import('../embeddings/service');
+  await getEmbeddingService().deleteDocumentEmbeddings(document.workspaceId, documentId);
+  await deleteDocument(documentId);
+}
+
+function toChunkResult(chunk: DocumentChunk): ChunkResult {
+  return {
+    content: chunk.text,
+    chunkIndex: chunk.index,
+    tokenCount: chunk.metadata.tokenCount,
+    parentIndex: chunk.metadata.parentIndex,
+    metadata: {
+      pageNumber: chunk.metadata.pageNumber,
+      heading: chunk.metadata.heading?.slice(0, MAX_HEADING_LENGTH),
+    },
+  };
+}
+
+/**
+ * Process a document: extract its structure and chunk along its sections.
+ * Sizes count the tokenizer's tokens when one is given; with a parent chunk
+ * size, `chunks` are the children and `parents` the sections they belong to.
  */
 export async function processDocument(
   buffer: Buffer,
   fileType: string,
   chunkingStrategy: 'semantic' | 'fixed' | 'recursive' = 'semantic',
   chunkSize: number = 512,
-  chunkOverlap: number = 50
+  chunkOverlap: number = 50,
+  filename?: string,
+  options: { tokenizer?: Tokenizer; parentChunkSize?: number | null } = {}
 ): Promise<{
   text: string;
   metadata: ProcessingResult['metadata'];
   chunks: ChunkResult[];
+  parents: ChunkResult[];
 }> {
   console.log(`[DocumentProcessor] Processing document of type: ${fileType}`);
   
   // Extract text
-  const { text, metadata } = await extractText(buffer, fileType);
+  const { text, structure, metadata } = await extractText(buffer, fileType, filename);
   console.log(`[DocumentProcessor] Extracted ${metadata.wordCount} words`);
   
   // Chunk text
-  const chunks = await chunkText(text, chunkingStrategy, chunkSize, chunkOverlap);
-  console.log(`[DocumentProcessor] Created ${chunks.length} chunks`);
+  const unit = options.tokenizer ? `${options.tokenizer.name} tokens` : 'characters';
+  console.log(
+    `[DocumentProcessor] Chunking text with strategy: ${chunkingStrategy}, size: ${chunkSize}, overlap: ${chunkOverlap}` +
+      `${options.parentChunkSize ? `, parent size: ${options.parentChunkSize}` : ''} (${unit})`
+  );
+  const chunkingOptions = {
+    strategy: chunkingStrategy,
+    chunkSize,
+    chunkOverlap,
+    tokenizer: options.tokenizer,
+    parentChunkSize: options.parentChunkSize,
+  };
+  const { parents, children } = options.parentChunkSize
+    ? chunkWithParents(structure, chunkingOptions)
+    : { parents: [], children: chunkStructuredDocument(structure, chunkingOptions) };
+  const chunks = children.map(toChunkResult);
+  console.log(`[DocumentProcessor] Created ${chunks.length} chunks${parents.length ? ` in ${parents.length} parents` : ''}`);
   
   return {
     text,
     metadata,
     chunks,
+    parents: parents.map(toChunkResult),
   };
 }
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ getWorkspaceById: vi.fn() }));
+vi.mock("./hybrid-search", () => ({ hybridSearch: vi.fn() }));
+vi.mock("../embeddings/collections", () => ({ embedQueryForCollection: vi.fn(), embedForCollection: vi.fn() }));
+vi.mock("./db", () => ({ getParentChunks: vi.fn(async () => new Map()) }));
+
+import * as db from "../db";
+import { getParentChunks } from "./db";
+import { hybridSearch } from "./hybrid-search";
+import { embedQueryForCollection } from "../embeddings/collections";
+import { buildRagContext } from "./rag-pipeline";
+import { resolveRetrievalProfile } from "./retrieval-profile";
+
+const store = { backend: "hnsw" };
+
+function results(...texts: string[]) {
+  return texts.map((text, i) => ({
+    id: i + 1,
+    score: 0.9 - i * 0.1,
+    payload: { text, documentId: 7, chunkIndex: i, chunkId: i + 1 },
+  }));
+}
+
+describe("buildRagContext", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(embedQueryForCollection).mockResolvedValue({ vector: [0.1, 0.2], store } as any);
+  });
+
+  it("should search the workspace's collection with its top-k, threshold and citation style", async () => {
+    vi.mocked(db.getWorkspaceById).mockResolvedValue({
+      id: 3,
+      collectionName: "manuals",
+      retrievalProfile: { mode: "vector", topK: 2, scoreThreshold: 0.4, citationStyle: "numeric" },
+    } as any);
+    vi.mocked(hybridSearch).mockResolvedValue(results("Pump seals wear out.", "Replace them yearly.") as any);
+
+    const rag = await buildRagContext(3, "pump seals");
+
+    expect(embedQueryForCollection).toHaveBeenCalledWith("manuals", "pump seals");
+    expect(hybridSearch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workspaceId: 3,
+        mode: "vector",
+        limit: 2,
+        vector: expect.objectContaining({ collection: "manuals", scoreThreshold: 0.4 }),
+      })
+    );
+    expect(rag.context).toBe("[1] Pump seals wear out.\n\n[2] Replace them yearly.");
+    expect(rag.citationInstruction).toMatch(/\[N\]/);
+    expect(rag.chunks[0].metadata).toMatchObject({ documentId: 7, chunkIndex: 0 });
+  });
+
+  it("should drop the lowest-ranked chunks beyond maxContextTokens", async () => {
+    vi.mocked(db.getWorkspaceById).mockResolvedValue({
+      id: 3,
+      retrievalProfile: { maxContextTokens: 30 },
+    } as any);
+    vi.mocked(hybridSearch).mockResolvedValue(results("a".repeat(60), "b".repeat(40), "c".repeat(10)) as any);
+
+    const rag = await buildRagContext(3, "query");
+
+    expect(rag.chunks).toHaveLength(1);
+    expect(rag.droppedChunks).toBe(2);
+    expect(rag.contextTokens).toBeLessThanOrEqual(30);
+  });
+
+  it("should send the parent sections of matched child chunks once each", async () => {
+    vi.mocked(db.getWorkspaceById).mockResolvedValue({ id: 3, retrievalProfile: null } as any);
+    vi.mocked(hybridSearch).mockResolvedValue(results("Seals wear out.", "Standalone note.", "Replace yearly.") as any);
+    const section = { id: 40, content: "## Seals\n\nSeals wear out.\n\nReplace yearly.", heading: "Seals", pageNumber: null, tokenCount: 12 };
+    vi.mocked(getParentChunks).mockResolvedValueOnce(new Map([[1, section], [3, section]]) as any);
+
+    const rag = await buildRagContext(3, "seals");
+
+    expect(getParentChunks).toHaveBeenCalledWith([1, 2, 3]);
+    expect(rag.chunks.map((chunk) => chunk.text)).toEqual([section.content, "Standalone note."]);
+    expect(rag.chunks[0].metadata).toMatchObject({ chunkId: 1, parentChunkId: 40, matchedText: "Seals wear out." });
+    expect(rag.droppedChunks).toBe(0);
+  });
+
+  it("should apply unsaved profile changes without reading them from the workspace", async () => {
+    vi.mocked(db.getWorkspaceById).mockResolvedValue({ id: 3, retrievalProfile: null } as any);
+    vi.mocked(hybridSearch).mockResolvedValue(results("Only keywords.") as any);
+
+    const rag = await buildRagContext(3, "keywords", { profile: { mode: "lexical", topK: 8, citationStyle: "none" } });
+
+    expect(embedQueryForCollection).not.toHaveBeenCalled();
+    expect(hybridSearch).toHaveBeenCalledWith(expect.objectContaining({ mode: "lexical", limit: 8, vector: null }));
+    expect(rag.context).toBe("Only keywords.");
+    expect(rag.citationInstruction).toBe("");
+  });
+});
+
+describe("resolveRetrievalProfile", () => {
+  it("should default the collection and ignore embedding models the engine does not know", () => {
+    const profile = resolveRetrievalProfile(9, {
+      id: 9,
+      collectionName: null,
+      embeddingModel: "bge-small-en-v1.5",
+      chunkingStrategy: "fixed",
+      chunkSize: 256,
+      chunkOverlap: 32,
+      retrievalProfile: null,
+    } as any);
+
+    expect(profile).toMatchObject({
+      collection: "workspace-9",
+      embeddingModel: undefined,
+      chunking: { strategy: "fixed", size: 256, overlap: 32 },
+      topK: 5,
+      citationStyle: "source",
+    });
+    expect(resolveRetrievalProfile(9, { embeddingModel: "provider:2:nomic-embed" } as any).embeddingModel).toBe(
+      "provider:2:nomic-embed"
+    );
+  });
+});
@@ -4,15 +4,51 @@
  */
 
 import { extractDocument, extractFromBuffer } from "./extraction-service";
-import { chunkDocument, type ChunkingOptions } from "./chunking-service";
-import { embeddingEngine } from "../embeddings/embedding-engine";
-import { qdrantService } from "../vectordb/qdrant-service";
+import { chunkStructuredDocument, type ChunkingOptions } from "./chunking-service";
+import { embedForCollection, embedQueryForCollection } from "../embeddings/collections";
+import type { EmbeddingModel } from "../embeddings/embedding-engine";
+import { hybridSearch } from "./hybrid-search";
+import {
+  getRetrievalProfile,
+  type CitationStyle,
+  type RetrievalMode,
+  type WorkspaceRetrievalProfile,
+} from "./retrieval-profile";
+import { rerankingService, type RerankerModel, type RerankExplanation } from "../vectordb/reranking-service";
+import type { VectorSearchResult } from "../vectordb/vector-store";
+import { estimateTokens, getTokenizer, truncateToTokens, type Tokenizer } from "./tokenizer-service";
+import { getParentChunks } from "./db";
+import type { RetrievalProfile } from "../../drizzle/schema";
 
 export interface IngestionOptions {
   workspaceId: number;
   collectionName: string;
   chunkingOptions: ChunkingOptions;
-  embeddingModel?: "bge-large-en" | "bge-base-en" | "minilm-l6" | "e5-large" | "e5-base";
+  embeddingModel?: EmbeddingModel; // Defaults to the collection's model, or the engine default for a new collection
+}
+
+export interface RetrievalOptions {
+  mode?: RetrievalMode;
+  // Rerank the top `candidates` first-stage results down to the requested limit; defaults to the workspace's reranker
+  rerank?: { model?: RerankerModel; candidates?: number } | false;
+  // Unsaved settings merged over the workspace's profile (test-query previews)
+  profile?: Partial<RetrievalProfile>;
+}
+
+export interface RagContext {
+  chunks: RetrievedChunk[]; // Chunks in the context, numbered from 1 in this order
+  context: string;
+  citationInstruction: string; // Empty for citationStyle "none"
+  contextTokens: number;
+  droppedChunks: number; // Retrieved but over the maxContextTokens budget
+  profile: WorkspaceRetrievalProfile;
+}
+
+export interface RetrievedChunk {
+  text: string;
+  score: number;
+  metadata: any;
+  rerank?: RerankExplanation;
 }
 
 export interface IngestionResult {
@@ -39,19 +75,19 @@ export async function ingestDocument(
   const extraction = await extractDocument(filePath);
   console.log(`[RAG] Extracted ${extraction.text.length} characters`);
   
-  // Step 2: Chunk the document
-  const chunks = chunkDocument(extraction.text, options.chunkingOptions);
+  // Step 2: Chunk the document along its sections
+  const chunks = chunkStructuredDocument(extraction.structure, options.chunkingOptions);
   console.log(`[RAG] Created ${chunks.length} chunks`);
   
   // Step 3: Generate embeddings for chunks
   const chunkTexts = chunks.map((c) => c.text);
-  const embeddings = await embeddingEngine.generate({
-    texts: chunkTexts,
-    model: options.embeddingModel as any,
+  const embeddings = await embedForCollection(options.collectionName, chunkTexts, {
+    model: options.embeddingModel,
+    workspaceId: options.workspaceId,
   });
   console.log(`[RAG] Generated ${embeddings.embeddings.length} embeddings`);
   
-  // Step 4: Store vectors in Qdrant
+  // Step 4: Store vectors in the workspace's vector store
   const documentId = `doc-${Date.now()}`;
   const payloads = chunks.map((chunk, i) => ({
     documentId,
@@ -61,7 +97,7 @@ export async function ingestDocument(
     metadata: chunk.metadata,
   }));
   
-  await qdrantService.insert({
+  await embeddings.store.insert({
     collection: options.collectionName,
     vectors: embeddings.embeddings,
     payloads,
@@ -91,19 +127,19 @@ export async function ingestFromBuffer(
   const extraction = await extractFromBuffer(buffer, filename);
   console.log(`[RAG] Extracted ${extraction.text.length} characters`);
   
-  // Step 2: Chunk the document
-  const chunks = chunkDocument(extraction.text, options.chunkingOptions);
+  // Step 2: Chunk the document along its sections
+  const chunks = chunkStructuredDocument(extraction.structure, options.chunkingOptions);
   console.log(`[RAG] Created ${chunks.length} chunks`);
   
   // Step 3: Generate embeddings for chunks
   const chunkTexts = chunks.map((c) => c.text);
-  const embeddings = await embeddingEngine.generate({
-    texts: chunkTexts,
-    model: options.embeddingModel as any,
+  const embeddings = await embedForCollection(options.collectionName, chunkTexts, {
+    model: options.embeddingModel,
+    workspaceId: options.workspaceId,
   });
   console.log(`[RAG] Generated ${embeddings.embeddings.length} embeddings`);
   
-  // Step 4: Store vectors in Qdrant
+  // Step 4: Store vectors in the workspace's vector store
   const documentId = `doc-${Date.now()}`;
   const payloads = chunks.map((chunk, i) => ({
     documentId,
@@ -114,7 +150,7 @@ export async function ingestFromBuffer(
     filename,
   }));
   
-  await qdrantService.insert({
+  await embeddings.store.insert({
     collection: options.collectionName,
     vectors: embeddings.embeddings,
     payloads,
@@ -131,26 +167,52 @@ export async function ingestFromBuffer(
 }
 
 /**
- * Retrieve relevant chunks for a query
+ * Retrieve relevant chunks for a query. The mode and reranking stage default
+ * to the workspace's retrieval profile; lexical matches come from the
+ * workspace's document chunks.
  */
 export async function retrieveRelevantChunks(
   query: string,
   collectionName: string,
   workspaceId: number,
-  limit = 5
-): Promise<Array<{ text: string; score: number; metadata: any }>> {
-  console.log(`[RAG] Retrieving relevant chunks for query: ${query}`);
+  limit = 5,
+  options: RetrievalOptions = {}
+): Promise<RetrievedChunk[]> {
+  const profile = { ...(await getRetrievalProfile(workspaceId)), ...options.profile };
+  return retrieveWithProfile(query, collectionName, workspaceId, limit, profile, options);
+}
+
+async function retrieveWithProfile(
+  query: string,
+  collectionName: string,
+  workspaceId: number,
+  limit: number,
+  profile: RetrievalProfile,
+  options: RetrievalOptions
+): Promise<RetrievedChunk[]> {
+  const mode = options.mode ?? profile.mode;
+  const reranker = options.rerank === false ? null : options.rerank ?? profile.reranker;
+  const candidates = reranker ? Math.max(limit, reranker.candidates ?? limit * 4) : limit;
+  console.log(`[RAG] Retrieving relevant chunks (${mode}${reranker ? ", reranked" : ""}) for query: ${query}`);
   
-  // Step 1: Generate embedding for query
-  const queryEmbedding = await embeddingEngine.generate({
-    texts: [query],
-  });
+  // Step 1: Generate embedding for query with the collection's model
+  const queryEmbedding = mode === "lexical" ? null : await embedQueryForCollection(collectionName, query);
+  if (mode === "vector" && !queryEmbedding) return [];
   
-  // Step 2: Search in vector database
-  const results = await qdrantService.search({
-    collection: collectionName,
-    query: queryEmbedding.embeddings[0],
-    limit,
+  // Step 2: Search the vector store and/or the lexical index
+  const results = await hybridSearch({
+    workspaceId,
+    mode,
+    limit: candidates,
+    text: query,
+    vector: queryEmbedding
+      ? {
+          store: queryEmbedding.store,
+          collection: collectionName,
+          query: queryEmbedding.vector,
+          scoreThreshold: profile.scoreThreshold ?? undefined,
+        }
+      : null,
     filter: {
       must: [
         {
@@ -161,13 +223,169 @@ export async function retrieveRelevantChunks(
         },
       ],
     },
+    weights: { vector: profile.vectorWeight, lexical: profile.lexicalWeight },
   });
   
   console.log(`[RAG] Found ${results.length} relevant chunks`);
   
-  return results.map((r) => ({
+  const toChunk = (r: VectorSearchResult): RetrievedChunk => ({
     text: r.payload.text,
     score: r.score,
-    metadata: r.payload.metadata,
-  }));
+    metadata: {
+      documentId: r.payload.documentId,
+      chunkId: r.payload.chunkId,
+      chunkIndex: r.payload.chunkIndex,
+      ...r.payload.metadata,
+    },
+  });
+  
+  if (!reranker || results.length === 0) {
+    return results.slice(0, limit).map(toChunk);
+  }
+  
+  // Step 3: Rerank the candidates with a cross-encoder
+  try {
+    const reranked = await rerankingService.rerank({
+      query,
+      documents: results.map((r, i) => ({ id: i, text: r.payload.text ?? "", score: r.score })),
+      topK: limit,
+      model: reranker.model as RerankerModel | undefined,
+    });
+    return reranked.map((r) => ({
+      ...toChunk(results[r.id as number]),
+      score: r.finalScore,
+      rerank: r.explanation,
+    }));
+  } catch (error: any) {
+    console.warn(`[RAG] Reranking failed, keeping first-stage order: ${error.message}`);
+    return results.slice(0, limit).map(toChunk);
+  }
+}
+
+const CITATION_MARKERS: Record<CitationStyle, (n: number) => string> = {
+  source: (n) => `[Source ${n}] `,
+  numeric: (n) => `[${n}] `,
+  none: () => "",
+};
+
+const CITATION_INSTRUCTIONS: Record<CitationStyle, string> = {
+  source: "Cite sources using [Source N] notation when referencing information.",
+  numeric: "Cite sources using [N] notation when referencing information.",
+  none: "",
+};
+
+/**
+ * "(Installation > Wiring, page 3) " for chunks that carry a section or page
+ */
+function chunkLocation(metadata: any): string {
+  const location = [metadata?.heading, metadata?.pageNumber != null ? `page ${metadata.pageNumber}` : null]
+    .filter(Boolean)
+    .join(", ");
+  return location ? `(${location}) ` : "";
+}
+
+/**
+ * Swap retrieved child chunks for their parent sections, keeping the rank of
+ * each parent's best child; further children of an included parent are
+ * dropped. Chunks without a parent pass through.
+ */
+async function expandToParents(retrieved: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+  const childIds = retrieved.map((chunk) => chunk.metadata?.chunkId).filter((id): id is number => typeof id === "number");
+  let parents: Awaited<ReturnType<typeof getParentChunks>>;
+  try {
+    parents = await getParentChunks(childIds);
+  } catch (error: any) {
+    console.warn(`[RAG] Parent chunk lookup failed, sending the matched chunks: ${error.message}`);
+    return retrieved;
+  }
+  if (parents.size === 0) return retrieved;
+
+  const included = new Set<number>();
+  const expanded: RetrievedChunk[] = [];
+  for (const chunk of retrieved) {
+    const parent = parents.get(chunk.metadata?.chunkId);
+    if (!parent) {
+      expanded.push(chunk);
+      continue;
+    }
+    if (included.has(parent.id)) continue;
+    included.add(parent.id);
+    expanded.push({
+      ...chunk,
+      text: parent.content,
+      metadata: {
+        ...chunk.metadata,
+        parentChunkId: parent.id,
+        tokenCount: parent.tokenCount ?? undefined,
+        heading: parent.heading ?? chunk.metadata?.heading,
+        pageNumber: parent.pageNumber ?? chunk.metadata?.pageNumber,
+        matchedText: chunk.text,
+      },
+    });
+  }
+  return expanded;
+}
+
+/**
+ * Retrieve context for a prompt with the workspace's retrieval profile:
+ * its collection, top-k, score threshold and reranker, trimmed to
+ * maxContextTokens and marked up in its citation style. Matches from
+ * parent/child chunking are sent as their parent sections, and tokens are
+ * counted with the workspace's tokenizer when it has one.
+ */
+export async function buildRagContext(
+  workspaceId: number,
+  query: string,
+  options: RetrievalOptions & { topK?: number } = {}
+): Promise<RagContext> {
+  const profile = { ...(await getRetrievalProfile(workspaceId)), ...options.profile };
+  const retrieved = await retrieveWithProfile(
+    query,
+    profile.collection,
+    workspaceId,
+    options.topK ?? profile.topK,
+    profile,
+    options
+  );
+
+  const expanded = await expandToParents(retrieved);
+
+  let tokenizer: Tokenizer | null = null;
+  if (profile.chunking.tokenizer) {
+    tokenizer = await getTokenizer(profile.chunking.tokenizer).catch((error) => {
+      console.warn(`[RAG] Tokenizer ${profile.chunking.tokenizer} unavailable, estimating tokens: ${error.message}`);
+      return null;
+    });
+  }
+  const countTokens = (text: string) => (tokenizer ? tokenizer.count(text) : estimateTokens(text));
+
+  const marker = CITATION_MARKERS[profile.citationStyle] ?? CITATION_MARKERS.source;
+  const separator = profile.citationStyle === "none" ? "\n\n---\n\n" : "\n\n";
+  const chunks: RetrievedChunk[] = [];
+  const parts: string[] = [];
+  let contextTokens = 0;
+
+  for (const chunk of expanded) {
+    let part = marker(chunks.length + 1) + chunkLocation(chunk.metadata) + chunk.text;
+    const remaining = profile.maxContextTokens - contextTokens;
+    let partTokens = countTokens(part);
+    if (partTokens > remaining) {
+      // Truncate the best chunk rather than send no context at all
+      if (chunks.length > 0) break;
+      part = tokenizer ? truncateToTokens(tokenizer, part, remaining) : part.slice(0, remaining * 4);
+      partTokens = countTokens(part);
+    }
+    chunks.push(chunk);
+    parts.push(part);
+    contextTokens += partTokens;
+  }
+
+  return {
+    chunks,
+    context: parts.join(separator),
+    citationInstruction: CITATION_INSTRUCTIONS[profile.citationStyle] ?? CITATION_INSTRUCTIONS.source,
+    contextTokens,
+    droppedChunks: expanded.length - chunks.length,
+    profile,
+  };
 }
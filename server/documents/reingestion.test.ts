@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  createDocument: vi.fn(),
+  createDocumentVersion: vi.fn(),
+  getDocumentById: vi.fn(),
+  getDocumentByFilename: vi.fn(),
+  updateDocumentFile: vi.fn(),
+  updateDocumentStatus: vi.fn(),
+  updateDocumentMetadata: vi.fn(),
+  updateDocumentVersionStats: vi.fn(),
+  createDocumentChunks: vi.fn(),
+  getDocumentChunks: vi.fn(),
+  updateDocumentChunk: vi.fn(),
+  deleteDocumentChunks: vi.fn(),
+}));
+vi.mock("../storage", () => ({ storagePut: vi.fn(async () => ({ url: "https://files/doc" })) }));
+vi.mock("./retrieval-profile", () => ({
+  getRetrievalProfile: vi.fn(async () => ({ chunking: { strategy: "semantic", size: 20, overlap: 0 } })),
+}));
+const embeddingService = {
+  storeChunkEmbeddings: vi.fn(async () => "minilm-l6"),
+  updateChunkPayloads: vi.fn(),
+  deleteChunkEmbeddings: vi.fn(),
+};
+vi.mock("../embeddings/service", () => ({ getEmbeddingService: () => embeddingService }));
+
+import * as db from "./db";
+import { getRetrievalProfile } from "./retrieval-profile";
+import { contentHash, diffChunks } from "./reingestion";
+import { processDocumentUpload } from "./processor";
+
+const stored = (id: number, content: string, chunkIndex: number, hashed = true) => ({
+  id,
+  content,
+  contentHash: hashed ? contentHash(content) : null,
+  chunkIndex,
+  pageNumber: null,
+  heading: null,
+});
+
+describe("diffChunks", () => {
+  it("should keep unchanged chunks, pair repeated ones in order and report the rest", () => {
+    const diff = diffChunks(
+      [stored(1, "Intro", 0), stored(2, "Old step", 1), stored(3, "Note", 2), stored(4, "Note", 3, false)],
+      [
+        { content: "Intro", chunkIndex: 0 },
+        { content: "New step", chunkIndex: 1 },
+        { content: "Note", chunkIndex: 2 },
+        { content: "Note", chunkIndex: 3, metadata: { pageNumber: 2 } },
+      ]
+    );
+
+    expect(diff.added.map((c) => c.content)).toEqual(["New step"]);
+    expect(diff.added[0].contentHash).toBe(contentHash("New step"));
+    expect(diff.unchanged.map(({ id, moved }) => [id, moved])).toEqual([
+      [1, false],
+      [3, false],
+      [4, true], // Unhashed row and a new page number
+    ]);
+    expect(diff.removed).toEqual([2]);
+  });
+});
+
+describe("processDocumentUpload", () => {
+  const upload = (text: string) => ({
+    workspaceId: 5,
+    filename: "handbook.txt",
+    fileType: "text/plain",
+    fileSize: text.length,
+    fileContent: Buffer.from(text).toString("base64"),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.createDocumentChunks).mockImplementation(
+      async (rows) => rows.map((row, i) => ({ ...row, id: 100 + i })) as any
+    );
+  });
+
+  it("should skip a file identical to the current version", async () => {
+    const text = "Section one.";
+    vi.mocked(db.getDocumentByFilename).mockResolvedValue({
+      id: 9,
+      workspaceId: 5,
+      version: 3,
+      status: "completed",
+      contentHash: contentHash(Buffer.from(text)),
+    } as any);
+
+    const result = await processDocumentUpload(upload(text), 1);
+
+    expect(result).toMatchObject({ documentId: 9, version: 3, unchanged: true });
+    expect(db.updateDocumentFile).not.toHaveBeenCalled();
+    expect(db.createDocumentVersion).not.toHaveBeenCalled();
+  });
+
+  it("should record a new version and only embed changed chunks", async () => {
+    vi.mocked(db.getDocumentByFilename).mockResolvedValue({
+      id: 9,
+      workspaceId: 5,
+      version: 1,
+      status: "completed",
+      contentHash: "previous",
+    } as any);
+    vi.mocked(db.getDocumentChunks).mockResolvedValue([
+      stored(1, "Keep the pump dry.", 0),
+      stored(2, "Old wiring diagram.", 1),
+    ] as any);
+
+    const result = await processDocumentUpload(upload("Keep the pump dry.\n\nNew wiring diagram."), 1);
+    expect(result).toMatchObject({ documentId: 9, version: 2, unchanged: false });
+    expect(db.updateDocumentFile).toHaveBeenCalledWith(9, expect.objectContaining({ version: 2, fileUrl: "https://files/doc" }));
+    expect(db.createDocumentVersion).toHaveBeenCalledWith(expect.objectContaining({ documentId: 9, version: 2 }));
+
+    await vi.waitFor(() => expect(db.updateDocumentStatus).toHaveBeenCalledWith(9, "completed"));
+
+    expect(db.createDocumentChunks).toHaveBeenCalledWith([
+      expect.objectContaining({ content: "New wiring diagram.", chunkIndex: 1, contentHash: contentHash("New wiring diagram.") }),
+    ]);
+    expect(embeddingService.storeChunkEmbeddings).toHaveBeenCalledWith(5, [
+      expect.objectContaining({ id: 100, content: "New wiring diagram." }),
+    ]);
+    expect(embeddingService.deleteChunkEmbeddings).toHaveBeenCalledWith(5, [2]);
+    expect(db.deleteDocumentChunks).toHaveBeenCalledWith([2]);
+    expect(db.updateDocumentVersionStats).toHaveBeenCalledWith(9, 2, {
+      chunkCount: 2,
+      chunksAdded: 1,
+      chunksRemoved: 1,
+      chunksUnchanged: 1,
+    });
+  });
+
+  it("should embed the chunks again when the same file is re-uploaded after embedding failed", async () => {
+    const text = "Keep the pump dry.\n\nNew wiring diagram.";
+    const document = { id: 9, workspaceId: 5, version: 1, status: "completed", contentHash: "previous" };
+    vi.mocked(db.getDocumentByFilename).mockImplementation(async () => ({ ...document }) as any);
+    vi.mocked(db.updateDocumentFile).mockImplementation(async (_id, file) => {
+      Object.assign(document, { version: file.version, contentHash: file.contentHash });
+    });
+    vi.mocked(db.updateDocumentStatus).mockImplementation(async (_id, status) => {
+      document.status = status;
+    });
+    vi.mocked(db.getDocumentChunks).mockResolvedValue([stored(1, "Keep the pump dry.", 0)] as any);
+    embeddingService.storeChunkEmbeddings.mockRejectedValueOnce(new Error("embedding backend down"));
+
+    const failed = await processDocumentUpload(upload(text), 1, { wait: true });
+    expect(failed).toMatchObject({ success: false, version: 2, error: "Failed to generate embeddings: embedding backend down" });
+    expect(db.updateDocumentStatus).toHaveBeenLastCalledWith(9, "error", failed.error);
+    // The unembedded chunk is rolled back rather than left to match by hash
+    expect(db.deleteDocumentChunks).toHaveBeenCalledWith([100]);
+    expect(embeddingService.deleteChunkEmbeddings).toHaveBeenCalledWith(5, [100]);
+
+    const retried = await processDocumentUpload(upload(text), 1, { wait: true });
+    expect(retried).toMatchObject({ success: true, version: 3, unchanged: false });
+    expect(embeddingService.storeChunkEmbeddings).toHaveBeenLastCalledWith(5, [
+      expect.objectContaining({ content: "New wiring diagram." }),
+    ]);
+    expect(document.status).toBe("completed");
+  });
+
+  it("should store parent sections and embed only their children", async () => {
+    vi.mocked(getRetrievalProfile).mockResolvedValueOnce({
+      chunking: { strategy: "semantic", size: 20, overlap: 0, tokenizer: null, parentSize: 45 },
+    } as any);
+    vi.mocked(db.getDocumentByFilename).mockResolvedValue(undefined);
+    vi.mocked(db.createDocument).mockResolvedValue({ id: 9 } as any);
+    vi.mocked(db.getDocumentChunks).mockResolvedValue([]);
+
+    await processDocumentUpload(upload("Keep the pump dry.\n\nCheck the seals.\n\nNew wiring diagram."), 1);
+    await vi.waitFor(() => expect(db.updateDocumentStatus).toHaveBeenCalledWith(9, "completed"));
+
+    const [parents, children] = vi.mocked(db.createDocumentChunks).mock.calls.map(([rows]) => rows);
+    expect(parents).toEqual([
+      expect.objectContaining({ content: "Keep the pump dry.\n\nCheck the seals.", chunkIndex: 0, isParent: true }),
+      expect.objectContaining({ content: "New wiring diagram.", chunkIndex: 1, isParent: true }),
+    ]);
+    expect(children.map((row) => [row.content, row.parentChunkId])).toEqual([
+      ["Keep the pump dry.", 100],
+      ["Check the seals.", 100],
+      ["New wiring diagram.", 101],
+    ]);
+    expect(children.every((row) => row.tokenCount! > 0)).toBe(true);
+    expect(embeddingService.storeChunkEmbeddings).toHaveBeenCalledWith(5, [
+      expect.objectContaining({ content: "Keep the pump dry." }),
+      expect.objectContaining({ content: "Check the seals." }),
+      expect.objectContaining({ content: "New wiring diagram." }),
+    ]);
+  });
+});
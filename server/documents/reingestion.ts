@@ -0,0 +1,78 @@
+/**
+ * Re-ingestion
+ * Content-addressed chunk diffs: when a document is re-uploaded, chunks whose
+ * content is unchanged keep their row and vector, only new chunks are
+ * embedded, and chunks that disappeared are removed.
+ */
+
+import { createHash } from "crypto";
+
+export function contentHash(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export interface StoredChunk {
+  id: number;
+  content: string;
+  contentHash: string | null; // null for chunks ingested before hashing
+  chunkIndex: number;
+  pageNumber: number | null;
+  heading: string | null;
+  parentChunkId?: number | null;
+  tokenCount?: number | null;
+}
+
+export interface IncomingChunk {
+  content: string;
+  chunkIndex: number;
+  metadata?: { pageNumber?: number; heading?: string };
+  parentChunkId?: number | null; // Resolved parent row in parent/child mode
+  tokenCount?: number;
+}
+
+export interface ChunkDiff<T extends IncomingChunk> {
+  added: Array<T & { contentHash: string }>; // Need embedding
+  unchanged: Array<{
+    id: number;
+    chunk: T & { contentHash: string };
+    // Position, page, heading, parent, token count or the stored hash differ; the row and vector payload need updating
+    moved: boolean;
+  }>;
+  removed: number[]; // Ids of chunks no longer in the document
+}
+
+/**
+ * Match a document's new chunks to its stored ones by content hash; repeated
+ * identical chunks are paired up in document order
+ */
+export function diffChunks<T extends IncomingChunk>(existing: StoredChunk[], incoming: T[]): ChunkDiff<T> {
+  const byHash = new Map<string, StoredChunk[]>();
+  for (const stored of existing.slice().sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+    const hash = stored.contentHash ?? contentHash(stored.content);
+    const matches = byHash.get(hash);
+    if (matches) matches.push(stored);
+    else byHash.set(hash, [stored]);
+  }
+
+  const diff: ChunkDiff<T> = { added: [], unchanged: [], removed: [] };
+  for (const chunk of incoming) {
+    const hashed = { ...chunk, contentHash: contentHash(chunk.content) };
+    const stored = byHash.get(hashed.contentHash)?.shift();
+    if (!stored) {
+      diff.added.push(hashed);
+      continue;
+    }
+
+    const moved =
+      stored.contentHash === null ||
+      stored.chunkIndex !== chunk.chunkIndex ||
+      (stored.pageNumber ?? undefined) !== chunk.metadata?.pageNumber ||
+      (stored.heading ?? undefined) !== chunk.metadata?.heading ||
+      (stored.parentChunkId ?? null) !== (chunk.parentChunkId ?? null) ||
+      (chunk.tokenCount !== undefined && stored.tokenCount !== chunk.tokenCount);
+    diff.unchanged.push({ id: stored.id, chunk: hashed, moved });
+  }
+
+  byHash.forEach((leftover) => diff.removed.push(...leftover.map((stored) => stored.id)));
+  return diff;
+}
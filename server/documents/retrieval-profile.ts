@@ -0,0 +1,77 @@
+/**
+ * Retrieval Profile
+ * Per-workspace RAG settings: search settings (workspaces.retrievalProfile)
+ * merged over defaults, plus the collection, embedding model and chunking
+ * columns that ingestion and retrieval share.
+ */
+
+import { getWorkspaceById } from "../db";
+import type { RetrievalProfile, Workspace } from "../../drizzle/schema";
+import { LOCAL_EMBEDDING_MODELS, type EmbeddingModel } from "../embeddings/embedding-engine";
+
+export type RetrievalMode = RetrievalProfile["mode"];
+export type CitationStyle = RetrievalProfile["citationStyle"];
+export type ChunkingStrategy = "semantic" | "fixed" | "recursive";
+
+export const DEFAULT_RETRIEVAL_PROFILE: RetrievalProfile = {
+  mode: "hybrid",
+  vectorWeight: 1,
+  lexicalWeight: 1,
+  reranker: null,
+  topK: 5,
+  scoreThreshold: null,
+  maxContextTokens: 4000,
+  citationStyle: "source",
+};
+
+export interface WorkspaceRetrievalProfile extends RetrievalProfile {
+  collection: string;
+  embeddingModel: EmbeddingModel | undefined; // undefined: the collection's bound model, or the engine default
+  chunking: {
+    strategy: ChunkingStrategy;
+    size: number;
+    overlap: number;
+    tokenizer: string | null; // Sizes are in this tokenizer's tokens; null: characters
+    parentSize: number | null; // Parent/child chunking when set
+  };
+}
+
+/**
+ * Collection holding a workspace's document chunks when no collectionName is set
+ */
+export function workspaceCollection(workspaceId: number): string {
+  return `workspace-${workspaceId}`;
+}
+
+function toEmbeddingModel(model: string | null | undefined): EmbeddingModel | undefined {
+  if (!model) return undefined;
+  if ((LOCAL_EMBEDDING_MODELS as string[]).includes(model) || /^provider:\d+:.+/.test(model)) {
+    return model as EmbeddingModel;
+  }
+  console.warn(`[RAG] Ignoring unknown workspace embedding model: ${model}`);
+  return undefined;
+}
+
+export function resolveRetrievalProfile(
+  workspaceId: number,
+  workspace: Workspace | undefined
+): WorkspaceRetrievalProfile {
+  return {
+    ...DEFAULT_RETRIEVAL_PROFILE,
+    ...(workspace?.retrievalProfile ?? {}),
+    collection: workspace?.collectionName || workspaceCollection(workspaceId),
+    embeddingModel: toEmbeddingModel(workspace?.embeddingModel),
+    chunking: {
+      strategy: (workspace?.chunkingStrategy as ChunkingStrategy) || "semantic",
+      size: workspace?.chunkSize ?? 512,
+      overlap: workspace?.chunkOverlap ?? 50,
+      tokenizer: workspace?.chunkingTokenizer ?? null,
+      parentSize: workspace?.parentChunkSize ?? null,
+    },
+  };
+}
+
+export async function getRetrievalProfile(workspaceId: number): Promise<WorkspaceRetrievalProfile> {
+  const workspace = await getWorkspaceById(workspaceId).catch(() => undefined);
+  return resolveRetrievalProfile(workspaceId, workspace);
+}
@@ -0,0 +1,135 @@
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { FolderConnector, GitConnector, validateSourceLocation } from "./connectors";
+import { isIncluded } from "./glob";
+
+function writeFiles(root: string, files: Record<string, string>) {
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(path.join(root, path.dirname(name)), { recursive: true });
+    writeFileSync(path.join(root, name), content);
+  }
+}
+
+const patterns = (includePatterns: string[] = [], excludePatterns: string[] = []) => ({ includePatterns, excludePatterns });
+
+// The fixtures below live in the system temp directory
+const previousRoots = process.env.DOCUMENT_SOURCE_ROOTS;
+beforeAll(() => {
+  process.env.DOCUMENT_SOURCE_ROOTS = tmpdir();
+});
+afterAll(() => {
+  if (previousRoots === undefined) delete process.env.DOCUMENT_SOURCE_ROOTS;
+  else process.env.DOCUMENT_SOURCE_ROOTS = previousRoots;
+});
+
+describe("isIncluded", () => {
+  it("should match globs against relative paths", () => {
+    expect(isIncluded("docs/guide.md", ["*.md"], [])).toBe(true);
+    expect(isIncluded("docs/api/v1.md", ["docs/**"], [])).toBe(true);
+    expect(isIncluded("README.md", ["docs/**/*.{md,txt}"], [])).toBe(false);
+    expect(isIncluded("docs/notes.txt", ["docs/**/*.{md,txt}"], [])).toBe(true);
+    expect(isIncluded("web/node_modules/pkg/README.md", [], ["node_modules"])).toBe(false);
+    expect(isIncluded("drafts/plan.md", [], ["drafts/"])).toBe(false);
+    expect(isIncluded("notes/2024-02.md", ["notes/2024-0[1-3].md"], [])).toBe(true);
+  });
+});
+
+describe("FolderConnector", () => {
+  let root: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), "doc-source-folder-"));
+    writeFiles(root, {
+      "guide.md": "# Guide",
+      "docs/setup.txt": "Install it.",
+      "docs/diagram.png": "not a document",
+      "node_modules/pkg/README.md": "# Dependency",
+      ".git/HEAD": "ref: refs/heads/main",
+    });
+  });
+
+  afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+  it("should list supported files outside excluded directories", async () => {
+    const connector = new FolderConnector({ path: root, ...patterns([], ["node_modules"]) });
+
+    const entries = await connector.list();
+
+    expect(entries.map((entry) => entry.path).sort()).toEqual(["docs/setup.txt", "guide.md"]);
+    const setup = entries.find((entry) => entry.path === "docs/setup.txt")!;
+    expect(setup.revision).toMatch(/^11:\d+$/);
+    expect((await connector.read(setup)).toString()).toBe("Install it.");
+  });
+
+  it("should refuse relative or missing paths", async () => {
+    await expect(validateSourceLocation({ type: "folder", path: "docs" })).rejects.toThrow(/absolute/);
+    await expect(validateSourceLocation({ type: "folder", path: path.join(root, "missing") })).rejects.toThrow(
+      /not found/
+    );
+    await expect(validateSourceLocation({ type: "folder", path: root })).resolves.toBeUndefined();
+  });
+
+  it("should refuse directories outside the allowed roots", async () => {
+    const allowed = path.join(root, "docs");
+    process.env.DOCUMENT_SOURCE_ROOTS = allowed;
+    symlinkSync(root, path.join(allowed, "escape"));
+    try {
+      await expect(validateSourceLocation({ type: "folder", path: root })).rejects.toThrow(/must be inside/);
+      await expect(validateSourceLocation({ type: "folder", path: path.join(allowed, "escape") })).rejects.toThrow(
+        /must be inside/
+      );
+      await expect(new FolderConnector({ path: root, ...patterns() }).list()).rejects.toThrow(/must be inside/);
+
+      // Unset allows only the data directory, not the whole filesystem
+      delete process.env.DOCUMENT_SOURCE_ROOTS;
+      await expect(validateSourceLocation({ type: "folder", path: root })).rejects.toThrow(/data\/sources/);
+    } finally {
+      rmSync(path.join(allowed, "escape"));
+      process.env.DOCUMENT_SOURCE_ROOTS = tmpdir();
+    }
+  });
+});
+
+describe("GitConnector", () => {
+  let root: string;
+  const git = (...args: string[]) =>
+    execFileSync("git", ["-C", root, "-c", "user.name=Test", "-c", "user.email=test@example.com", ...args]).toString().trim();
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), "doc-source-git-"));
+    git("init", "--quiet", "--initial-branch=main");
+    writeFiles(root, { "README.md": "# Handbook", "docs/policy.md": "Be kind." });
+    git("add", "-A");
+    git("commit", "--quiet", "-m", "Initial");
+    git("checkout", "--quiet", "-b", "draft");
+    writeFiles(root, { "docs/policy.md": "Be very kind." });
+    git("commit", "--quiet", "-am", "Draft");
+    writeFiles(root, { "docs/uncommitted.md": "Not committed" });
+  });
+
+  afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+  it("should read the configured branch from the object database", async () => {
+    const connector = new GitConnector({ path: root, branch: "main", ...patterns(["docs/**"]) });
+
+    const entries = await connector.list();
+
+    expect(connector.revision).toBe(git("rev-parse", "main"));
+    expect(entries).toEqual([
+      { path: "docs/policy.md", size: 8, revision: git("rev-parse", "main:docs/policy.md") },
+    ]);
+    expect((await connector.read(entries[0])).toString()).toBe("Be kind.");
+  });
+
+  it("should reject branches that don't exist", async () => {
+    await expect(validateSourceLocation({ type: "git", path: root, branch: "release" })).rejects.toThrow(
+      /Branch release not found/
+    );
+    await expect(validateSourceLocation({ type: "git", path: root, branch: "--output=x" })).rejects.toThrow(
+      /Invalid branch/
+    );
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Document Source Connectors
+ * List and read the files of a local directory or a local Git clone.
+ *
+ * Every listed file carries a cheap revision (Git blob id, or size and mtime
+ * for folders), so a sync only reads files whose revision moved.
+ */
+
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { promisify } from "util";
+import type { DocumentSource, DocumentSourceType } from "../../../drizzle/schema";
+import { detectFormat } from "../extraction-service";
+import { isIncluded } from "./glob";
+
+const execFileAsync = promisify(execFile);
+
+// Same limit as manual uploads
+export const MAX_SOURCE_FILE_SIZE = 16 * 1024 * 1024;
+
+// Never part of a folder's documents
+const SKIPPED_DIRECTORIES = new Set([".git", ".hg", ".svn"]);
+
+export interface SourceEntry {
+  path: string; // POSIX path relative to the source root
+  size: number;
+  revision: string;
+}
+
+export interface SourceConnector {
+  /**
+   * Every file in the source; throws if the source can't be read, so a
+   * missing directory is never mistaken for one whose files were all deleted
+   */
+  list(): Promise<SourceEntry[]>;
+  read(entry: SourceEntry): Promise<Buffer>;
+  // Commit being synced, for Git sources
+  readonly revision: string | null;
+}
+
+export interface SourceLocation {
+  type: DocumentSourceType;
+  path: string;
+  branch?: string | null;
+}
+
+// Where sources may live when DOCUMENT_SOURCE_ROOTS is unset
+const DEFAULT_SOURCE_ROOT = path.join(process.cwd(), "data", "sources");
+
+/**
+ * Directories sources may point at, from DOCUMENT_SOURCE_ROOTS (path-delimited);
+ * unset allows only ./data/sources, never the whole filesystem
+ */
+function allowedRoots(): string[] {
+  const roots = (process.env.DOCUMENT_SOURCE_ROOTS || "")
+    .split(path.delimiter)
+    .map((root) => root.trim())
+    .filter(Boolean)
+    .map((root) => path.resolve(root));
+  return roots.length > 0 ? roots : [DEFAULT_SOURCE_ROOT];
+}
+
+function isInside(directory: string, roots: string[]): boolean {
+  return roots.some((root) => {
+    const relative = path.relative(root, directory);
+    return relative === "" || (relative !== ".." && !relative.startsWith(".." + path.sep) && !path.isAbsolute(relative));
+  });
+}
+
+/**
+ * Throw unless the directory is inside an allowed root, both as written and
+ * with symlinks resolved; returns the resolved path
+ */
+async function assertAllowedDirectory(directory: string): Promise<string> {
+  const roots = allowedRoots();
+  const outside = new Error(`Source path must be inside one of: ${roots.join(", ")}`);
+  if (!isInside(path.resolve(directory), roots)) {
+    throw outside;
+  }
+
+  const real = await fs.realpath(directory).catch(() => null);
+  if (!real) {
+    throw new Error(`Directory not found: ${path.resolve(directory)}`);
+  }
+  const realRoots = await Promise.all(roots.map((root) => fs.realpath(root).catch(() => root)));
+  if (!isInside(real, realRoots)) {
+    throw outside;
+  }
+  return real;
+}
+
+/**
+ * Throw unless the location is an absolute, readable directory (and Git
+ * clone with the branch, for Git sources) inside the allowed roots
+ */
+export async function validateSourceLocation(location: SourceLocation): Promise<void> {
+  if (!path.isAbsolute(location.path)) {
+    throw new Error("Source path must be absolute");
+  }
+
+  const resolved = await assertAllowedDirectory(location.path);
+  const stats = await fs.stat(resolved).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new Error(`Directory not found: ${resolved}`);
+  }
+
+  if (location.type === "git") {
+    await resolveCommit(resolved, location.branch);
+  }
+}
+
+/**
+ * Supported document formats only; the extractor would reject anything else
+ */
+function isDocumentFile(relativePath: string): boolean {
+  return detectFormat(path.posix.basename(relativePath)) !== null;
+}
+
+function selectEntries(entries: SourceEntry[], source: Pick<DocumentSource, "includePatterns" | "excludePatterns">) {
+  return entries.filter(
+    (entry) =>
+      isDocumentFile(entry.path) && isIncluded(entry.path, source.includePatterns ?? [], source.excludePatterns ?? [])
+  );
+}
+
+// ============================================================================
+// Folder
+// ============================================================================
+
+export class FolderConnector implements SourceConnector {
+  readonly revision = null;
+
+  constructor(private source: Pick<DocumentSource, "path" | "includePatterns" | "excludePatterns">) {}
+
+  async list(): Promise<SourceEntry[]> {
+    // Checked again on every sync, in case the allowed roots have narrowed
+    const root = await assertAllowedDirectory(this.source.path);
+    const entries: SourceEntry[] = [];
+
+    const walk = async (directory: string, relative: string): Promise<void> => {
+      for (const dirent of await fs.readdir(directory, { withFileTypes: true })) {
+        const relativePath = relative ? `${relative}/${dirent.name}` : dirent.name;
+        if (dirent.isDirectory()) {
+          if (SKIPPED_DIRECTORIES.has(dirent.name)) continue;
+          // Prune excluded directories rather than walking them
+          if (!isIncluded(relativePath, [], this.source.excludePatterns ?? [])) continue;
+          await walk(path.join(directory, dirent.name), relativePath);
+        } else if (dirent.isFile()) {
+          const stats = await fs.stat(path.join(directory, dirent.name));
+          entries.push({
+            path: relativePath,
+            size: stats.size,
+            revision: `${stats.size}:${Math.floor(stats.mtimeMs)}`,
+          });
+        }
+      }
+    };
+
+    await walk(root, "");
+    return selectEntries(entries, this.source);
+  }
+
+  read(entry: SourceEntry): Promise<Buffer> {
+    return fs.readFile(path.join(path.resolve(this.source.path), ...entry.path.split("/")));
+  }
+}
+
+// ============================================================================
+// Git
+// ============================================================================
+
+async function git(cwd: string, args: string[]): Promise<Buffer> {
+  const { stdout } = await execFileAsync("git", ["-C", cwd, ...args], {
+    encoding: "buffer",
+    maxBuffer: MAX_SOURCE_FILE_SIZE * 2,
+  });
+  return stdout;
+}
+
+/**
+ * Commit a branch (default HEAD) of a local clone points at
+ */
+async function resolveCommit(cwd: string, branch?: string | null): Promise<string> {
+  const ref = branch?.trim() || "HEAD";
+  if (ref.startsWith("-")) {
+    throw new Error(`Invalid branch: ${ref}`);
+  }
+  try {
+    return (await git(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).toString().trim();
+  } catch {
+    throw new Error(`Branch ${ref} not found in Git repository ${cwd}`);
+  }
+}
+
+export class GitConnector implements SourceConnector {
+  private commit: string | null = null;
+
+  constructor(private source: Pick<DocumentSource, "path" | "branch" | "includePatterns" | "excludePatterns">) {}
+
+  get revision(): string | null {
+    return this.commit;
+  }
+
+  /**
+   * Files of the branch's current commit, read from the object database so
+   * the working tree (and whatever is checked out) doesn't matter
+   */
+  async list(): Promise<SourceEntry[]> {
+    const cwd = await assertAllowedDirectory(this.source.path);
+    this.commit = await resolveCommit(cwd, this.source.branch);
+
+    // <mode> SP <type> SP <object> SP+ <size> TAB <path> NUL
+    const output = (await git(cwd, ["ls-tree", "-r", "-z", "--long", this.commit])).toString("utf8");
+    const entries: SourceEntry[] = [];
+    for (const record of output.split("\0")) {
+      const tab = record.indexOf("\t");
+      if (tab === -1) continue;
+      const [mode, type, object, size] = record.slice(0, tab).trim().split(/\s+/);
+      // Submodules and symlinks aren't documents
+      if (type !== "blob" || mode === "120000") continue;
+      entries.push({ path: record.slice(tab + 1), size: Number(size), revision: object });
+    }
+    return selectEntries(entries, this.source);
+  }
+
+  read(entry: SourceEntry): Promise<Buffer> {
+    return git(path.resolve(this.source.path), ["cat-file", "blob", entry.revision]);
+  }
+}
+
+export function createConnector(source: DocumentSource): SourceConnector {
+  switch (source.type) {
+    case "folder":
+      return new FolderConnector(source);
+    case "git":
+      return new GitConnector(source);
+    default:
+      throw new Error(`Unknown document source type: ${source.type}`);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Document Sources — Database CRUD and sync leases
+ */
+import { and, asc, desc, eq, inArray, lt, or } from "drizzle-orm";
+import { getDb } from "../../db";
+import {
+  documents,
+  documentSources,
+  documentSourceFiles,
+  type DocumentSource,
+  type DocumentSourceFile,
+  type InsertDocumentSource,
+  type InsertDocumentSourceFile,
+} from "../../../drizzle/schema";
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+export async function createDocumentSource(data: InsertDocumentSource): Promise<DocumentSource> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.insert(documentSources).values(data).returning();
+  return row;
+}
+
+export async function getDocumentSourceById(id: number): Promise<DocumentSource | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(documentSources).where(eq(documentSources.id, id));
+  return row ?? null;
+}
+
+export async function getDocumentSourcesByWorkspace(workspaceId: number): Promise<DocumentSource[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(documentSources)
+    .where(eq(documentSources.workspaceId, workspaceId))
+    .orderBy(desc(documentSources.createdAt));
+}
+
+/**
+ * Enabled folder sources that sync on file changes
+ */
+export async function getWatchedDocumentSources(): Promise<DocumentSource[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(documentSources)
+    .where(and(eq(documentSources.enabled, true), eq(documentSources.watch, true), eq(documentSources.type, "folder")));
+}
+
+export async function updateDocumentSource(
+  id: number,
+  data: Partial<InsertDocumentSource>
+): Promise<DocumentSource | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .update(documentSources)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(documentSources.id, id))
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * Documents a source created, including any its file records lost track of
+ */
+export async function getDocumentIdsBySource(sourceId: number): Promise<number[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db.select({ id: documents.id }).from(documents).where(eq(documents.sourceId, sourceId));
+  return rows.map((row) => row.id);
+}
+
+export async function deleteDocumentSource(id: number): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(documentSourceFiles).where(eq(documentSourceFiles.sourceId, id));
+  await db.delete(documentSources).where(eq(documentSources.id, id));
+}
+
+// ============================================================================
+// Sync leases
+// ============================================================================
+
+/**
+ * Mark a source as syncing. The conditional update is atomic, so a scheduled
+ * run, a watcher and a manual sync never work on the same source at once.
+ */
+export async function claimDocumentSourceSync(
+  id: number,
+  now: Date,
+  leaseMs: number
+): Promise<DocumentSource | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .update(documentSources)
+    .set({ status: "syncing", leaseExpiresAt: new Date(now.getTime() + leaseMs), lastError: null })
+    .where(
+      and(
+        eq(documentSources.id, id),
+        or(eq(documentSources.status, "idle"), lt(documentSources.leaseExpiresAt, now))
+      )
+    )
+    .returning();
+  return row ?? null;
+}
+
+export async function releaseDocumentSourceSync(
+  id: number,
+  data: Pick<
+    InsertDocumentSource,
+    "lastSyncAt" | "lastSyncStatus" | "lastSyncStats" | "lastError" | "lastRevision" | "fileCount"
+  >
+): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(documentSources)
+    .set({ ...data, status: "idle", leaseExpiresAt: null, updatedAt: new Date() })
+    .where(eq(documentSources.id, id));
+}
+
+// ============================================================================
+// Tracked files
+// ============================================================================
+
+export async function getDocumentSourceFiles(sourceId: number): Promise<DocumentSourceFile[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(documentSourceFiles)
+    .where(eq(documentSourceFiles.sourceId, sourceId))
+    .orderBy(asc(documentSourceFiles.path));
+}
+
+export async function upsertDocumentSourceFile(data: InsertDocumentSourceFile): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { sourceId, path, ...state } = data;
+  await db
+    .insert(documentSourceFiles)
+    .values(data)
+    .onConflictDoUpdate({
+      target: [documentSourceFiles.sourceId, documentSourceFiles.path],
+      set: { ...state, syncedAt: new Date() },
+    });
+}
+
+export async function deleteDocumentSourceFiles(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(documentSourceFiles).where(inArray(documentSourceFiles.id, ids));
+}
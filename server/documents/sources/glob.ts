@@ -0,0 +1,86 @@
+/**
+ * Glob matching for document source include/exclude patterns
+ *
+ * Patterns match POSIX paths relative to the source root:
+ *   - `*` and `?` stay within one path segment, `**` spans segments
+ *   - `{a,b}` alternatives and `[...]` character classes (`[!...]` negates)
+ *   - a pattern without a slash matches the file name at any depth, so
+ *     `*.md` covers `docs/guide.md`
+ *   - an exclude pattern matching a directory excludes everything under it
+ */
+
+const cache = new Map<string, RegExp>();
+
+function escapeRegExp(char: string): string {
+  return /[.+^$()|\\/]/.test(char) ? `\\${char}` : char;
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = cache.get(pattern);
+  if (cached) return cached;
+
+  let glob = pattern.trim().replace(/^\.\//, "");
+  if (!glob.includes("/")) glob = `**/${glob}`;
+  if (glob.endsWith("/")) glob += "**";
+
+  let source = "";
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        i++;
+        if (atSegmentStart && glob[i + 1] === "/") {
+          source += "(?:.*/)?"; // `**/` also matches zero directories
+          i++;
+        } else {
+          source += ".*";
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        source += "\\[";
+        continue;
+      }
+      const body = glob.slice(i + 1, close).replace(/\\/g, "\\\\");
+      source += body.startsWith("!") ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = close;
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  cache.set(pattern, regex);
+  return regex;
+}
+
+export function matchesAny(path: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => pattern.trim() !== "" && globToRegExp(pattern).test(path));
+}
+
+/**
+ * Whether a source file passes the include and exclude patterns
+ */
+export function isIncluded(path: string, include: string[], exclude: string[]): boolean {
+  const segments = path.split("/");
+  for (let depth = 1; depth <= segments.length; depth++) {
+    if (matchesAny(segments.slice(0, depth).join("/"), exclude)) return false;
+  }
+  return include.every((pattern) => pattern.trim() === "") || matchesAny(path, include);
+}
@@ -0,0 +1,182 @@
+/**
+ * Document Sources — tRPC Router
+ *
+ *   - list / files: a workspace's sources with their sync state, and the
+ *     files a source tracks (with per-file errors)
+ *   - create / update / delete: manage folder and Git connectors; pointing
+ *     the server at a local path is reserved to admins
+ *   - sync: run a sync now, in the background
+ */
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, protectedProcedure, router } from "../../_core/trpc";
+import { hasWorkspaceAccess } from "../../db";
+import { parseCron } from "../../scheduler/cron";
+import { getScheduleForTarget } from "../../scheduler/db";
+import { validateSourceLocation } from "./connectors";
+import {
+  createDocumentSource,
+  getDocumentSourceById,
+  getDocumentSourceFiles,
+  getDocumentSourcesByWorkspace,
+  updateDocumentSource,
+} from "./db";
+import { documentSourceWatcher, removeDocumentSource, syncDocumentSource, syncSourceSchedule } from "./service";
+
+const cronSchema = z.string().min(1).max(255).superRefine((value, ctx) => {
+  try {
+    parseCron(value);
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+  }
+});
+
+const patternsSchema = z.array(z.string().min(1).max(500)).max(100);
+
+async function assertWorkspaceAccess(userId: number, workspaceId: number) {
+  if (!(await hasWorkspaceAccess(userId, workspaceId))) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+  }
+}
+
+async function getAccessibleSource(userId: number, id: number) {
+  const source = await getDocumentSourceById(id);
+  if (!source) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Document source not found" });
+  }
+  await assertWorkspaceAccess(userId, source.workspaceId);
+  return source;
+}
+
+async function assertValidLocation(location: Parameters<typeof validateSourceLocation>[0]) {
+  try {
+    await validateSourceLocation(location);
+  } catch (error: any) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+}
+
+function startSync(sourceId: number) {
+  syncDocumentSource(sourceId).catch((error) =>
+    console.error(`[DocumentSources] Sync of source ${sourceId} failed:`, error)
+  );
+}
+
+export const documentSourcesRouter = router({
+  list: protectedProcedure
+    .input(z.object({ workspaceId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+
+      const sources = await getDocumentSourcesByWorkspace(input.workspaceId);
+      return Promise.all(
+        sources.map(async (source) => ({
+          ...source,
+          nextSyncAt: (await getScheduleForTarget("document_source", source.id))?.nextRunAt ?? null,
+        }))
+      );
+    }),
+
+  files: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await getAccessibleSource(ctx.user.id, input.id);
+      return getDocumentSourceFiles(input.id);
+    }),
+
+  create: adminProcedure
+    .input(
+      z.object({
+        workspaceId: z.number(),
+        name: z.string().min(1).max(255),
+        type: z.enum(["folder", "git"]),
+        path: z.string().min(1),
+        branch: z.string().max(255).nullable().optional(),
+        includePatterns: patternsSchema.default([]),
+        excludePatterns: patternsSchema.default([]),
+        cronExpression: cronSchema.nullable().optional(),
+        watch: z.boolean().default(false),
+        enabled: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      await assertValidLocation(input);
+
+      const source = await createDocumentSource({
+        ...input,
+        branch: input.type === "git" ? input.branch || null : null,
+        watch: input.type === "folder" && input.watch,
+        createdBy: ctx.user.id,
+      });
+      await syncSourceSchedule(source);
+      documentSourceWatcher.refresh(source);
+
+      // Initial import
+      if (source.enabled) startSync(source.id);
+      return source;
+    }),
+
+  update: adminProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        name: z.string().min(1).max(255).optional(),
+        path: z.string().min(1).optional(),
+        branch: z.string().max(255).nullable().optional(),
+        includePatterns: patternsSchema.optional(),
+        excludePatterns: patternsSchema.optional(),
+        cronExpression: cronSchema.nullable().optional(),
+        watch: z.boolean().optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      const source = await getAccessibleSource(ctx.user.id, id);
+
+      if (changes.path !== undefined || changes.branch !== undefined) {
+        await assertValidLocation({
+          type: source.type,
+          path: changes.path ?? source.path,
+          branch: changes.branch !== undefined ? changes.branch : source.branch,
+        });
+      }
+
+      const updated = await updateDocumentSource(id, {
+        ...changes,
+        branch: source.type === "git" ? changes.branch : null,
+        watch: source.type === "folder" ? changes.watch : false,
+      });
+      if (!updated) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Document source not found" });
+      }
+      await syncSourceSchedule(updated);
+      documentSourceWatcher.refresh(updated);
+      return updated;
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const source = await getAccessibleSource(ctx.user.id, input.id);
+      if (source.status === "syncing") {
+        throw new TRPCError({ code: "CONFLICT", message: "Source is syncing; delete it once the sync finishes" });
+      }
+
+      await removeDocumentSource(source);
+      return { success: true };
+    }),
+
+  sync: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const source = await getAccessibleSource(ctx.user.id, input.id);
+      if (source.status === "syncing" && source.leaseExpiresAt && source.leaseExpiresAt > new Date()) {
+        throw new TRPCError({ code: "CONFLICT", message: "Source is already syncing" });
+      }
+
+      startSync(source.id);
+      return { started: true };
+    }),
+});
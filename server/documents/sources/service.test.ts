@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("./db", () => ({
+  claimDocumentSourceSync: vi.fn(),
+  releaseDocumentSourceSync: vi.fn(),
+  getDocumentSourceFiles: vi.fn(),
+  upsertDocumentSourceFile: vi.fn(),
+  deleteDocumentSourceFiles: vi.fn(),
+}));
+vi.mock("../processor", () => ({
+  processDocumentUpload: vi.fn(),
+  deleteDocumentWithEmbeddings: vi.fn(),
+}));
+const files: Record<string, string> = {};
+vi.mock("./connectors", () => ({
+  MAX_SOURCE_FILE_SIZE: 16 * 1024 * 1024,
+  createConnector: () => ({
+    revision: "abc123",
+    list: async () =>
+      Object.entries(files).map(([path, content]) => ({ path, size: content.length, revision: `rev-${content}` })),
+    read: async (entry: { path: string }) => Buffer.from(files[entry.path]),
+  }),
+}));
+
+import * as sourceDb from "./db";
+import { deleteDocumentWithEmbeddings, processDocumentUpload } from "../processor";
+import { contentHash } from "../reingestion";
+import { planSourceSync, syncDocumentSource } from "./service";
+
+const source = { id: 3, workspaceId: 5, type: "git", path: "/srv/repo", createdBy: 1 } as any;
+
+const tracked = (id: number, path: string, content: string, extra: Record<string, unknown> = {}) =>
+  ({
+    id,
+    sourceId: 3,
+    path,
+    documentId: 100 + id,
+    revision: `rev-${content}`,
+    contentHash: contentHash(content),
+    status: "synced",
+    error: null,
+    ...extra,
+  }) as any;
+
+describe("planSourceSync", () => {
+  it("should re-read moved, failed and orphaned files and drop missing ones", () => {
+    const plan = planSourceSync(
+      [
+        { path: "same.md", size: 1, revision: "rev-same" },
+        { path: "edited.md", size: 1, revision: "rev-new" },
+        { path: "failed.md", size: 1, revision: "rev-failed" },
+        { path: "orphan.md", size: 1, revision: "rev-orphan" },
+        { path: "new.md", size: 1, revision: "rev-new" },
+      ],
+      [
+        tracked(1, "same.md", "same"),
+        tracked(2, "edited.md", "old"),
+        tracked(3, "failed.md", "failed", { status: "failed" }),
+        tracked(4, "orphan.md", "orphan", { documentId: null }), // Document deleted by hand
+        tracked(5, "gone.md", "gone"),
+      ]
+    );
+
+    expect(plan.unchanged.map((file) => file.path)).toEqual(["same.md"]);
+    expect(plan.changed.map((entry) => entry.path)).toEqual(["edited.md", "failed.md", "orphan.md", "new.md"]);
+    expect(plan.removed.map((file) => file.path)).toEqual(["gone.md"]);
+  });
+});
+
+describe("syncDocumentSource", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    for (const path of Object.keys(files)) delete files[path];
+    vi.mocked(sourceDb.claimDocumentSourceSync).mockResolvedValue(source);
+  });
+
+  it("should ingest changed files, delete removed ones and record the outcome", async () => {
+    Object.assign(files, { "a.md": "kept", "b.md": "edited", "c.md": "new", "d.md": "broken" });
+    vi.mocked(sourceDb.getDocumentSourceFiles).mockResolvedValue([
+      tracked(1, "a.md", "kept"),
+      tracked(2, "b.md", "original"),
+      tracked(3, "gone.md", "gone"),
+    ]);
+    vi.mocked(processDocumentUpload).mockImplementation(async (input) => ({
+      success: input.filename !== "d.md",
+      documentId: input.documentId ?? 200,
+      version: 1,
+      unchanged: false,
+      error: input.filename === "d.md" ? "Failed to extract MARKDOWN" : null,
+      message: "",
+    }));
+
+    const result = await syncDocumentSource(3);
+
+    expect(result).toEqual({
+      status: "partial",
+      stats: { added: 1, updated: 1, deleted: 1, unchanged: 1, failed: 1 },
+    });
+    expect(processDocumentUpload).toHaveBeenCalledTimes(3);
+    expect(processDocumentUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ filename: "b.md", documentId: 102, sourceId: 3, fileType: "text/markdown" }),
+      1,
+      { wait: true }
+    );
+    expect(processDocumentUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ filename: "c.md", documentId: undefined }),
+      1,
+      { wait: true }
+    );
+    expect(sourceDb.upsertDocumentSourceFile).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "d.md", documentId: 200, status: "failed", error: "Failed to extract MARKDOWN" })
+    );
+    expect(deleteDocumentWithEmbeddings).toHaveBeenCalledWith(103);
+    expect(sourceDb.deleteDocumentSourceFiles).toHaveBeenCalledWith([3]);
+    expect(sourceDb.releaseDocumentSourceSync).toHaveBeenCalledWith(
+      3,
+      expect.objectContaining({ lastSyncStatus: "partial", lastRevision: "abc123", fileCount: 4 })
+    );
+  });
+
+  it("should skip a source another sync holds", async () => {
+    vi.mocked(sourceDb.claimDocumentSourceSync).mockResolvedValue(null);
+
+    expect((await syncDocumentSource(3)).status).toBe("skipped");
+    expect(sourceDb.getDocumentSourceFiles).not.toHaveBeenCalled();
+  });
+});
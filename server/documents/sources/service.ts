@@ -0,0 +1,292 @@
+/**
+ * Document Sources — Sync Service
+ *
+ * Keeps a workspace's documents in line with a folder or Git connector:
+ *   - files whose revision moved are read, and re-ingested through the
+ *     document processor only when their content changed
+ *   - files that disappeared (or stopped matching the patterns) have their
+ *     documents and vectors deleted
+ *   - a sync runs on the source's cron schedule (through the scheduler), on
+ *     demand, and for watched folders whenever their files change
+ */
+import { watch, type FSWatcher } from "fs";
+import * as path from "path";
+import type { DocumentSource, DocumentSourceFile, DocumentSourceSyncStats } from "../../../drizzle/schema";
+import { getDb } from "../../db";
+import { removeTargetSchedule, upsertTargetSchedule } from "../../scheduler/service";
+import { mimeTypeFor } from "../extraction-service";
+import { contentHash } from "../reingestion";
+import { createConnector, MAX_SOURCE_FILE_SIZE, type SourceConnector, type SourceEntry } from "./connectors";
+import { isIncluded } from "./glob";
+import * as sourceDb from "./db";
+
+// A sync that outlives this is presumed dead and the source can be claimed again
+const SYNC_LEASE_MS = 30 * 60 * 1000;
+
+// Quiet period after the last file change before a watched folder syncs
+const WATCH_DEBOUNCE_MS = 5 * 1000;
+
+// documents.filename is varchar(255); long paths keep their end
+const MAX_FILENAME_LENGTH = 255;
+
+export type SourceSyncStatus = "completed" | "partial" | "failed" | "skipped";
+
+export interface SourceSyncResult {
+  status: SourceSyncStatus;
+  stats: DocumentSourceSyncStats;
+  error?: string;
+}
+
+export interface SyncPlan {
+  changed: SourceEntry[]; // New, moved, previously failed or lost their document
+  unchanged: DocumentSourceFile[];
+  removed: DocumentSourceFile[];
+}
+
+/**
+ * Compare a source's current files with the files it synced last time
+ */
+export function planSourceSync(entries: SourceEntry[], tracked: DocumentSourceFile[]): SyncPlan {
+  const byPath = new Map(tracked.map((file) => [file.path, file]));
+  const plan: SyncPlan = { changed: [], unchanged: [], removed: [] };
+
+  for (const entry of entries) {
+    const file = byPath.get(entry.path);
+    byPath.delete(entry.path);
+    if (file && file.status === "synced" && file.documentId !== null && file.revision === entry.revision) {
+      plan.unchanged.push(file);
+    } else {
+      plan.changed.push(entry);
+    }
+  }
+
+  byPath.forEach((file) => plan.removed.push(file));
+  return plan;
+}
+
+type FileOutcome = "added" | "updated" | "unchanged" | "failed";
+
+async function ingestEntry(
+  source: DocumentSource,
+  connector: SourceConnector,
+  entry: SourceEntry,
+  tracked: DocumentSourceFile | undefined
+): Promise<FileOutcome> {
+  const record = { sourceId: source.id, path: entry.path, revision: entry.revision };
+  let documentId = tracked?.documentId ?? null;
+
+  try {
+    if (entry.size > MAX_SOURCE_FILE_SIZE) {
+      throw new Error("File size exceeds 16MB limit");
+    }
+
+    const buffer = await connector.read(entry);
+    const hash = contentHash(buffer);
+
+    // Touched (or checked out again) without changing
+    if (documentId !== null && tracked?.status === "synced" && tracked.contentHash === hash) {
+      await sourceDb.upsertDocumentSourceFile({ ...record, documentId, contentHash: hash, status: "synced", error: null });
+      return "unchanged";
+    }
+
+    const { processDocumentUpload } = await import("../processor");
+    const result = await processDocumentUpload(
+      {
+        workspaceId: source.workspaceId,
+        filename: entry.path.slice(-MAX_FILENAME_LENGTH),
+        fileType: mimeTypeFor(entry.path),
+        fileSize: buffer.length,
+        fileContent: buffer.toString("base64"),
+        documentId: documentId ?? undefined,
+        sourceId: source.id,
+      },
+      source.createdBy,
+      { wait: true }
+    );
+    documentId = result.documentId;
+
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    await sourceDb.upsertDocumentSourceFile({ ...record, documentId, contentHash: hash, status: "synced", error: null });
+    if (result.unchanged) return "unchanged";
+    return tracked?.documentId ? "updated" : "added";
+  } catch (error: any) {
+    console.error(`[DocumentSources] Failed to sync ${entry.path} from source ${source.id}:`, error.message);
+    await sourceDb.upsertDocumentSourceFile({
+      ...record,
+      documentId,
+      contentHash: tracked?.contentHash ?? null,
+      status: "failed",
+      error: error.message,
+    });
+    return "failed";
+  }
+}
+
+/**
+ * Sync one source. Returns "skipped" if another sync of it is already running.
+ */
+export async function syncDocumentSource(sourceId: number): Promise<SourceSyncResult> {
+  const stats: DocumentSourceSyncStats = { added: 0, updated: 0, deleted: 0, unchanged: 0, failed: 0 };
+  const source = await sourceDb.claimDocumentSourceSync(sourceId, new Date(), SYNC_LEASE_MS);
+  if (!source) {
+    return { status: "skipped", stats };
+  }
+
+  console.log(`[DocumentSources] Syncing ${source.type} source ${source.id} (${source.path})`);
+  const connector = createConnector(source);
+
+  try {
+    const entries = await connector.list();
+    const tracked = await sourceDb.getDocumentSourceFiles(source.id);
+    const trackedByPath = new Map(tracked.map((file) => [file.path, file]));
+    const plan = planSourceSync(entries, tracked);
+    stats.unchanged = plan.unchanged.length;
+
+    // One file at a time: each is extracted and embedded before the next is read
+    for (const entry of plan.changed) {
+      stats[await ingestEntry(source, connector, entry, trackedByPath.get(entry.path))]++;
+    }
+
+    const { deleteDocumentWithEmbeddings } = await import("../processor");
+    for (const file of plan.removed) {
+      if (file.documentId !== null) {
+        await deleteDocumentWithEmbeddings(file.documentId);
+      }
+      stats.deleted++;
+    }
+    await sourceDb.deleteDocumentSourceFiles(plan.removed.map((file) => file.id));
+
+    const status: SourceSyncStatus = stats.failed > 0 ? "partial" : "completed";
+    await sourceDb.releaseDocumentSourceSync(source.id, {
+      lastSyncAt: new Date(),
+      lastSyncStatus: status,
+      lastSyncStats: stats,
+      lastError: stats.failed > 0 ? `${stats.failed} file(s) failed to sync` : null,
+      lastRevision: connector.revision,
+      fileCount: entries.length,
+    });
+
+    console.log(
+      `[DocumentSources] Synced source ${source.id}: ${stats.added} added, ${stats.updated} updated, ` +
+        `${stats.deleted} deleted, ${stats.unchanged} unchanged, ${stats.failed} failed`
+    );
+    return { status, stats };
+  } catch (error: any) {
+    console.error(`[DocumentSources] Sync of source ${source.id} failed:`, error.message);
+    await sourceDb.releaseDocumentSourceSync(source.id, {
+      lastSyncAt: new Date(),
+      lastSyncStatus: "failed",
+      lastSyncStats: stats,
+      lastError: error.message,
+    });
+    return { status: "failed", stats, error: error.message };
+  }
+}
+
+/**
+ * Keep a source's cron schedule in line with its settings
+ */
+export async function syncSourceSchedule(source: DocumentSource): Promise<void> {
+  if (!source.enabled || !source.cronExpression) {
+    await removeTargetSchedule("document_source", source.id);
+    return;
+  }
+
+  await upsertTargetSchedule({
+    userId: source.createdBy,
+    workspaceId: source.workspaceId,
+    targetType: "document_source",
+    targetId: source.id,
+    name: `Sync ${source.name}`,
+    cronExpression: source.cronExpression,
+    // A source only needs to catch up once, however many runs it missed
+    missedRunPolicy: "run_once",
+  });
+}
+
+/**
+ * Delete a source with its schedule, documents and their vectors
+ */
+export async function removeDocumentSource(source: DocumentSource): Promise<void> {
+  documentSourceWatcher.unwatch(source.id);
+  await removeTargetSchedule("document_source", source.id);
+
+  const { deleteDocumentWithEmbeddings } = await import("../processor");
+  for (const documentId of await sourceDb.getDocumentIdsBySource(source.id)) {
+    await deleteDocumentWithEmbeddings(documentId);
+  }
+  await sourceDb.deleteDocumentSource(source.id);
+}
+
+// ============================================================================
+// Folder watcher
+// ============================================================================
+
+export class DocumentSourceWatcher {
+  private watchers: Map<number, FSWatcher> = new Map();
+  private timers: Map<number, NodeJS.Timeout> = new Map();
+
+  async start(): Promise<void> {
+    if (!getDb()) return;
+    const sources = await sourceDb.getWatchedDocumentSources();
+    sources.forEach((source) => this.refresh(source));
+    if (sources.length > 0) {
+      console.log(`[DocumentSources] Watching ${sources.length} folder source(s)`);
+    }
+  }
+
+  /**
+   * Start, restart or stop watching a source after its settings changed
+   */
+  refresh(source: DocumentSource): void {
+    this.unwatch(source.id);
+    if (!source.enabled || !source.watch || source.type !== "folder") return;
+
+    try {
+      const watcher = watch(source.path, { recursive: true }, (_event, filename) => {
+        // Changes under excluded directories (node_modules, build output) don't trigger a sync
+        const relative = filename ? String(filename).split(path.sep).join("/") : null;
+        if (relative && !isIncluded(relative, [], source.excludePatterns ?? [])) return;
+        this.queueSync(source.id);
+      });
+      watcher.on("error", (error) => {
+        console.error(`[DocumentSources] Stopped watching source ${source.id}:`, error.message);
+        this.unwatch(source.id);
+      });
+      this.watchers.set(source.id, watcher);
+    } catch (error: any) {
+      console.error(`[DocumentSources] Cannot watch source ${source.id} (${source.path}):`, error.message);
+    }
+  }
+
+  unwatch(sourceId: number): void {
+    this.watchers.get(sourceId)?.close();
+    this.watchers.delete(sourceId);
+    clearTimeout(this.timers.get(sourceId));
+    this.timers.delete(sourceId);
+  }
+
+  stop(): void {
+    Array.from(this.watchers.keys()).forEach((sourceId) => this.unwatch(sourceId));
+  }
+
+  private queueSync(sourceId: number): void {
+    clearTimeout(this.timers.get(sourceId));
+    this.timers.set(
+      sourceId,
+      setTimeout(() => {
+        this.timers.delete(sourceId);
+        syncDocumentSource(sourceId)
+          .then((result) => {
+            // A sync already running may have listed the folder before this change
+            if (result.status === "skipped" && this.watchers.has(sourceId)) this.queueSync(sourceId);
+          })
+          .catch((error) => console.error(`[DocumentSources] Watched sync of source ${sourceId} failed:`, error));
+      }, WATCH_DEBOUNCE_MS)
+    );
+  }
+}
+
+export const documentSourceWatcher = new DocumentSourceWatcher();
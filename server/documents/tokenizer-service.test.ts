@@ -0,0 +1,161 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ getModelById: vi.fn() }));
+
+import { getModelById } from "../db";
+import { getTokenizer, parseTokenizerSpec, truncateToTokens } from "./tokenizer-service";
+
+const SPACE = "▁";
+
+/**
+ * Minimal GGUF v3 writer: metadata only, no tensors
+ */
+function gguf(metadata: Record<string, string | boolean | string[] | number[]>): Buffer {
+  const parts: Buffer[] = [];
+  const u32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt32LE(value);
+    parts.push(buffer);
+  };
+  const u64 = (value: number) => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64LE(BigInt(value));
+    parts.push(buffer);
+  };
+  const string = (value: string) => {
+    u64(Buffer.byteLength(value));
+    parts.push(Buffer.from(value));
+  };
+
+  parts.push(Buffer.from("GGUF"));
+  u32(3);
+  u64(0);
+  u64(Object.keys(metadata).length);
+  for (const [key, value] of Object.entries(metadata)) {
+    string(key);
+    if (typeof value === "string") {
+      u32(8);
+      string(value);
+    } else if (typeof value === "boolean") {
+      u32(7);
+      parts.push(Buffer.from([value ? 1 : 0]));
+    } else if (typeof value[0] === "string") {
+      u32(9);
+      u32(8);
+      u64(value.length);
+      (value as string[]).forEach(string);
+    } else {
+      u32(9);
+      u32(6); // float32
+      u64(value.length);
+      for (const item of value as number[]) {
+        const buffer = Buffer.alloc(4);
+        buffer.writeFloatLE(item);
+        parts.push(buffer);
+      }
+    }
+  }
+  return Buffer.concat(parts);
+}
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "tokenizers-"));
+  process.env.TOKENIZER_DIR = dir;
+});
+
+afterAll(() => {
+  delete process.env.TOKENIZER_DIR;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseTokenizerSpec", () => {
+  it("should accept tiktoken encodings and GGUF model ids only", () => {
+    expect(parseTokenizerSpec("tiktoken:cl100k_base")).toEqual({ kind: "tiktoken", encoding: "cl100k_base" });
+    expect(parseTokenizerSpec("gguf:12")).toEqual({ kind: "gguf", modelId: 12 });
+    expect(() => parseTokenizerSpec("tiktoken:gpt2")).toThrow(/Unknown tokenizer/);
+    expect(() => parseTokenizerSpec("gguf:../model")).toThrow(/Unknown tokenizer/);
+  });
+});
+
+describe("tiktoken encodings", () => {
+  it("should merge bytes by rank from a cached rank file", async () => {
+    const ranks = Array.from({ length: 256 }, (_, byte) => Buffer.from([byte]));
+    ranks.push(Buffer.from("he"), Buffer.from("the"), Buffer.from(" the"), Buffer.from("at"));
+    writeFileSync(
+      path.join(dir, "cl100k_base.tiktoken"),
+      ranks.map((token, rank) => `${token.toString("base64")} ${rank}`).join("\n")
+    );
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const tokenizer = await getTokenizer("tiktoken:cl100k_base");
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(tokenizer.encode("the cat")).toEqual([257, 32, 99, 259]);
+    expect(tokenizer.encode("the the")).toEqual([257, 258]); // " the" is a whole piece in the vocabulary
+    expect(tokenizer.decode(tokenizer.encode("the café"))).toBe("the café");
+    expect(tokenizer.count("é")).toBe(2); // Unmerged UTF-8 bytes
+    expect(tokenizer.spans("the cat")).toEqual([
+      { start: 0, end: 3, tokens: 1 },
+      { start: 3, end: 7, tokens: 3 },
+    ]);
+    expect(truncateToTokens(tokenizer, "the cat sat", 4)).toBe("the cat");
+  });
+});
+
+describe("GGUF tokenizers", () => {
+  it("should encode with a llama model's SentencePiece vocabulary and byte fallback", async () => {
+    const vocabulary: Array<[string, number, number]> = [
+      ["<unk>", 0, 2],
+      ["<0xC3>", 0, 6],
+      ["<0xA9>", 0, 6],
+      [SPACE, -1, 1],
+      ["h", -2, 1],
+      ["e", -2, 1],
+      ["l", -2, 1],
+      ["o", -2, 1],
+      ["w", -2, 1],
+      ["r", -2, 1],
+      ["d", -2, 1],
+      [`${SPACE}h`, -3, 1],
+      ["ll", -4, 1],
+      [`${SPACE}he`, -5, 1],
+      [`${SPACE}hell`, -6, 1],
+      [`${SPACE}hello`, -7, 1],
+      ["or", -8, 1],
+      [`${SPACE}w`, -9, 1],
+      [`${SPACE}wor`, -10, 1],
+      ["ld", -11, 1],
+      [`${SPACE}world`, -12, 1],
+    ];
+    const file = path.join(dir, "tiny-llama.gguf");
+    writeFileSync(
+      file,
+      gguf({
+        "general.architecture": "llama",
+        "tokenizer.ggml.model": "llama",
+        "tokenizer.ggml.tokens": vocabulary.map(([token]) => token),
+        "tokenizer.ggml.scores": vocabulary.map(([, score]) => score),
+        "tokenizer.ggml.token_type": vocabulary.map(([, , type]) => type),
+      })
+    );
+    vi.mocked(getModelById).mockResolvedValue({ id: 4, name: "tiny-llama", filePath: file, fileFormat: "gguf" } as any);
+
+    const tokenizer = await getTokenizer("gguf:4");
+
+    expect(tokenizer.encode("hello world")).toEqual([15, 20]);
+    expect(tokenizer.decode([15, 20])).toBe("hello world");
+    expect(tokenizer.encode("hé")).toEqual([11, 1, 2]);
+    expect(tokenizer.decode(tokenizer.encode("hé"))).toBe("hé");
+  });
+
+  it("should refuse models that aren't local GGUF files", async () => {
+    vi.mocked(getModelById).mockResolvedValue({ id: 5, name: "remote", filePath: null, fileFormat: "gguf" } as any);
+
+    await expect(getTokenizer("gguf:5")).rejects.toThrow(/no local file/);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tokenizer Service
+ * Resolves a workspace's tokenizer setting to a loaded tokenizer:
+ *   - tiktoken:<encoding>  OpenAI BPE encodings (cl100k_base, o200k_base,
+ *                          p50k_base, r50k_base); rank files are downloaded
+ *                          once and cached under TOKENIZER_DIR
+ *   - gguf:<modelId>       the vocabulary embedded in a registered GGUF model
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { getModelById } from "../db";
+import { parseTiktokenRanks, type PretokenizePattern } from "./tokenizers/bpe";
+import { loadGgufTokenizer } from "./tokenizers/gguf";
+import type { Tokenizer } from "./tokenizers/tokenizer";
+
+export type { TokenSpan, Tokenizer } from "./tokenizers/tokenizer";
+export { estimateTokens } from "./tokenizers/tokenizer";
+
+export const TIKTOKEN_ENCODINGS = ["cl100k_base", "o200k_base", "p50k_base", "r50k_base"] as const;
+export type TiktokenEncoding = (typeof TIKTOKEN_ENCODINGS)[number];
+
+const TIKTOKEN_PATTERNS: Record<TiktokenEncoding, PretokenizePattern> = {
+  cl100k_base: "cl100k",
+  o200k_base: "o200k",
+  p50k_base: "gpt2",
+  r50k_base: "gpt2",
+};
+
+const TIKTOKEN_BASE_URL = "https://openaipublic.blob.core.windows.net/encodings";
+
+export type TokenizerSpec =
+  | { kind: "tiktoken"; encoding: TiktokenEncoding }
+  | { kind: "gguf"; modelId: number };
+
+/**
+ * Parse "tiktoken:<encoding>" or "gguf:<modelId>"
+ */
+export function parseTokenizerSpec(spec: string): TokenizerSpec {
+  const [kind, value] = spec.split(":", 2);
+  if (kind === "tiktoken" && (TIKTOKEN_ENCODINGS as readonly string[]).includes(value)) {
+    return { kind: "tiktoken", encoding: value as TiktokenEncoding };
+  }
+  if (kind === "gguf" && /^\d+$/.test(value ?? "")) {
+    return { kind: "gguf", modelId: Number(value) };
+  }
+  throw new Error(`Unknown tokenizer: ${spec}. Use tiktoken:<${TIKTOKEN_ENCODINGS.join("|")}> or gguf:<modelId>`);
+}
+
+function tokenizerDir(): string {
+  return process.env.TOKENIZER_DIR || path.join(process.cwd(), "data", "tokenizers");
+}
+
+async function loadTiktokenRanks(encoding: TiktokenEncoding): Promise<string> {
+  const file = path.join(tokenizerDir(), `${encoding}.tiktoken`);
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch (error: any) {
+    if (error.code !== "ENOENT") throw error;
+  }
+
+  console.log(`[Tokenizers] Downloading ${encoding} rank file`);
+  const response = await fetch(`${TIKTOKEN_BASE_URL}/${encoding}.tiktoken`);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${encoding} (HTTP ${response.status}); place ${encoding}.tiktoken in ${tokenizerDir()}`);
+  }
+  const data = await response.text();
+
+  // Write then rename, so a concurrent reader never sees a partial file
+  await fs.mkdir(tokenizerDir(), { recursive: true });
+  const partial = `${file}.${process.pid}.partial`;
+  await fs.writeFile(partial, data);
+  await fs.rename(partial, file);
+  return data;
+}
+
+async function loadTokenizer(name: string): Promise<Tokenizer> {
+  const spec = parseTokenizerSpec(name);
+  if (spec.kind === "tiktoken") {
+    return parseTiktokenRanks(name, await loadTiktokenRanks(spec.encoding), TIKTOKEN_PATTERNS[spec.encoding]);
+  }
+
+  const model = await getModelById(spec.modelId);
+  if (!model?.filePath) {
+    throw new Error(`Model ${spec.modelId} has no local file to read a tokenizer from`);
+  }
+  if (model.fileFormat !== "gguf") {
+    throw new Error(`Model ${model.name} is not a GGUF model`);
+  }
+  return loadGgufTokenizer(name, model.filePath);
+}
+
+const tokenizers: Map<string, Promise<Tokenizer>> = new Map();
+
+/**
+ * Load a tokenizer by setting, once per process
+ */
+export function getTokenizer(name: string): Promise<Tokenizer> {
+  let tokenizer = tokenizers.get(name);
+  if (!tokenizer) {
+    tokenizer = loadTokenizer(name);
+    tokenizers.set(name, tokenizer);
+    // Allow a retry after a failed download or a fixed model path
+    tokenizer.catch(() => tokenizers.delete(name));
+  }
+  return tokenizer;
+}
+
+/**
+ * Longest prefix of `text` within `maxTokens`, cut between pre-tokenizer pieces
+ */
+export function truncateToTokens(tokenizer: Tokenizer, text: string, maxTokens: number): string {
+  let total = 0;
+  let end = 0;
+  for (const span of tokenizer.spans(text)) {
+    if (total + span.tokens > maxTokens) break;
+    total += span.tokens;
+    end = span.end;
+  }
+  return text.slice(0, end);
+}
@@ -0,0 +1,161 @@
+/**
+ * Byte-level BPE
+ * tiktoken encodings (.tiktoken rank files) and GPT-2 style vocabularies
+ * from GGUF models. Text is split with the encoding's pre-tokenizer pattern
+ * and each piece's UTF-8 bytes are merged by rank; vocabulary entries are
+ * keyed by their bytes as latin1 strings.
+ */
+
+import { PieceTokenizer, bytePairMerge, type Piece } from "./tokenizer";
+
+// Pre-tokenizer patterns, compiled with the "gu" flags
+export const PRETOKENIZE_PATTERNS = {
+  gpt2: String.raw`'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+`,
+  cl100k: String.raw`'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD]|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+`,
+  o200k: [
+    String.raw`[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]*[\p{Ll}\p{Lm}\p{Lo}\p{M}]+(?:'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD])?`,
+    String.raw`[^\r\n\p{L}\p{N}]?[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]+[\p{Ll}\p{Lm}\p{Lo}\p{M}]*(?:'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD])?`,
+    String.raw`\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n/]*|\s*[\r\n]+|\s+(?!\S)|\s+`,
+  ].join("|"),
+  qwen2: String.raw`'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD]|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+`,
+};
+
+export type PretokenizePattern = keyof typeof PRETOKENIZE_PATTERNS;
+
+function toBytes(text: string): string {
+  return Buffer.from(text, "utf8").toString("latin1");
+}
+
+export class ByteLevelBpeTokenizer extends PieceTokenizer {
+  private readonly pattern: RegExp;
+  private readonly decoder: Map<number, string> = new Map();
+
+  /**
+   * @param vocab token bytes (latin1) to id
+   * @param mergeRank rank of merging two adjacent byte strings; undefined if they don't merge
+   */
+  constructor(
+    name: string,
+    pattern: PretokenizePattern,
+    private readonly vocab: Map<string, number>,
+    private readonly mergeRank: (left: string, right: string) => number | undefined
+  ) {
+    super(name);
+    this.pattern = new RegExp(PRETOKENIZE_PATTERNS[pattern], "gu");
+    vocab.forEach((id, bytes) => this.decoder.set(id, bytes));
+  }
+
+  protected pieces(text: string): Piece[] {
+    const pieces: Piece[] = [];
+    this.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = this.pattern.exec(text)) !== null) {
+      if (match[0].length === 0) {
+        this.pattern.lastIndex++;
+        continue;
+      }
+      pieces.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+    }
+    return pieces;
+  }
+
+  protected encodePiece(piece: string): number[] {
+    const bytes = toBytes(piece);
+    const whole = this.vocab.get(bytes);
+    if (whole !== undefined) return [whole];
+
+    const ids: number[] = [];
+    for (const part of bytePairMerge(bytes.split(""), this.mergeRank)) {
+      const id = this.vocab.get(part);
+      if (id !== undefined) {
+        ids.push(id);
+        continue;
+      }
+      // A merge without a vocabulary entry falls back to single bytes
+      for (const byte of part.split("")) {
+        const byteId = this.vocab.get(byte);
+        if (byteId !== undefined) ids.push(byteId);
+      }
+    }
+    return ids;
+  }
+
+  decode(ids: number[]): string {
+    return Buffer.from(ids.map((id) => this.decoder.get(id) ?? "").join(""), "latin1").toString("utf8");
+  }
+}
+
+/**
+ * tiktoken encoding from a .tiktoken rank file ("<base64 token> <rank>" per
+ * line); ranks double as token ids and merge priorities
+ */
+export function parseTiktokenRanks(name: string, data: string, pattern: PretokenizePattern): ByteLevelBpeTokenizer {
+  const ranks = new Map<string, number>();
+  for (const line of data.split("\n")) {
+    if (!line.trim()) continue;
+    const [token, rank] = line.trim().split(/\s+/);
+    const id = Number(rank);
+    if (!token || !Number.isInteger(id)) {
+      throw new Error(`Invalid tiktoken rank line: ${line.slice(0, 80)}`);
+    }
+    ranks.set(Buffer.from(token, "base64").toString("latin1"), id);
+  }
+  return new ByteLevelBpeTokenizer(name, pattern, ranks, (left, right) => ranks.get(left + right));
+}
+
+/**
+ * GPT-2's reversible byte-to-unicode mapping used in BPE vocabularies
+ */
+function gpt2ByteDecoder(): Map<string, number> {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const decoder = new Map<string, number>();
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    const code = printable.includes(b) ? b : 256 + extra++;
+    decoder.set(String.fromCharCode(code), b);
+  }
+  return decoder;
+}
+
+/**
+ * GPT-2 style BPE from a token list and "left right" merge rules, both in
+ * the byte-to-unicode alphabet (GGUF tokenizer.ggml.model "gpt2")
+ */
+export function fromGpt2Vocabulary(
+  name: string,
+  tokens: string[],
+  merges: string[],
+  pattern: PretokenizePattern
+): ByteLevelBpeTokenizer {
+  const byteDecoder = gpt2ByteDecoder();
+  const toLatin1 = (token: string) =>
+    Array.from(token)
+      .map((char) => {
+        const byte = byteDecoder.get(char);
+        return byte !== undefined ? String.fromCharCode(byte) : toBytes(char);
+      })
+      .join("");
+
+  const vocab = new Map<string, number>();
+  tokens.forEach((token, id) => {
+    const bytes = toLatin1(token);
+    if (!vocab.has(bytes)) vocab.set(bytes, id);
+  });
+
+  // Keyed by the left part's length, so "ab"+"c" and "a"+"bc" stay distinct
+  const ranks = new Map<string, number>();
+  merges.forEach((merge, rank) => {
+    const split = merge.indexOf(" ", 1);
+    if (split < 0) return;
+    const left = toLatin1(merge.slice(0, split));
+    const right = toLatin1(merge.slice(split + 1));
+    const key = `${left.length}:${left}${right}`;
+    if (!ranks.has(key)) ranks.set(key, rank);
+  });
+
+  return new ByteLevelBpeTokenizer(name, pattern, vocab, (left, right) => ranks.get(`${left.length}:${left}${right}`));
+}
@@ -0,0 +1,269 @@
+/**
+ * GGUF Tokenizers
+ * Reads a GGUF model file's metadata and builds its tokenizer from the
+ * embedded vocabulary: "llama" (SentencePiece scores with byte fallback) or
+ * "gpt2" (byte-level BPE merges). Only the metadata header is read, never
+ * the tensors.
+ */
+
+import * as fs from "fs/promises";
+import { fromGpt2Vocabulary, type PretokenizePattern } from "./bpe";
+import { PieceTokenizer, bytePairMerge, type Piece, type Tokenizer } from "./tokenizer";
+
+const GGUF_MAGIC = "GGUF";
+const INITIAL_READ = 8 * 1024 * 1024;
+
+// Value types of GGUF metadata entries
+enum GgufType {
+  UINT8 = 0,
+  INT8 = 1,
+  UINT16 = 2,
+  INT16 = 3,
+  UINT32 = 4,
+  INT32 = 5,
+  FLOAT32 = 6,
+  BOOL = 7,
+  STRING = 8,
+  ARRAY = 9,
+  UINT64 = 10,
+  INT64 = 11,
+  FLOAT64 = 12,
+}
+
+class TruncatedError extends Error {}
+
+class Cursor {
+  offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  private take(bytes: number): number {
+    if (this.offset + bytes > this.buffer.length) throw new TruncatedError();
+    const start = this.offset;
+    this.offset += bytes;
+    return start;
+  }
+
+  u32(): number {
+    return this.buffer.readUInt32LE(this.take(4));
+  }
+
+  u64(): number {
+    return Number(this.buffer.readBigUInt64LE(this.take(8)));
+  }
+
+  string(): string {
+    const length = this.u64();
+    const start = this.take(length);
+    return this.buffer.toString("utf8", start, start + length);
+  }
+
+  value(type: GgufType): unknown {
+    switch (type) {
+      case GgufType.UINT8: return this.buffer.readUInt8(this.take(1));
+      case GgufType.INT8: return this.buffer.readInt8(this.take(1));
+      case GgufType.UINT16: return this.buffer.readUInt16LE(this.take(2));
+      case GgufType.INT16: return this.buffer.readInt16LE(this.take(2));
+      case GgufType.UINT32: return this.buffer.readUInt32LE(this.take(4));
+      case GgufType.INT32: return this.buffer.readInt32LE(this.take(4));
+      case GgufType.FLOAT32: return this.buffer.readFloatLE(this.take(4));
+      case GgufType.BOOL: return this.buffer.readUInt8(this.take(1)) !== 0;
+      case GgufType.STRING: return this.string();
+      case GgufType.UINT64: return this.u64();
+      case GgufType.INT64: return Number(this.buffer.readBigInt64LE(this.take(8)));
+      case GgufType.FLOAT64: return this.buffer.readDoubleLE(this.take(8));
+      case GgufType.ARRAY: {
+        const itemType = this.u32() as GgufType;
+        const length = this.u64();
+        const items: unknown[] = new Array(length);
+        for (let i = 0; i < length; i++) items[i] = this.value(itemType);
+        return items;
+      }
+      default:
+        throw new Error(`Unknown GGUF value type ${type}`);
+    }
+  }
+}
+
+function parseMetadata(buffer: Buffer): Record<string, unknown> {
+  const cursor = new Cursor(buffer);
+  if (buffer.toString("latin1", 0, 4) !== GGUF_MAGIC) {
+    throw new Error("Not a GGUF file");
+  }
+  cursor.offset = 4;
+  const version = cursor.u32();
+  if (version < 2) {
+    throw new Error(`Unsupported GGUF version ${version}`);
+  }
+  cursor.u64(); // Tensor count
+  const entries = cursor.u64();
+
+  const metadata: Record<string, unknown> = {};
+  for (let i = 0; i < entries; i++) {
+    const key = cursor.string();
+    metadata[key] = cursor.value(cursor.u32() as GgufType);
+  }
+  return metadata;
+}
+
+/**
+ * Read a GGUF file's metadata key/values. The header is read in growing
+ * prefixes, since vocabularies run to several megabytes.
+ */
+export async function readGgufMetadata(filePath: string): Promise<Record<string, unknown>> {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    for (let length = Math.min(INITIAL_READ, size); ; length = Math.min(length * 2, size)) {
+      const buffer = Buffer.alloc(length);
+      await handle.read(buffer, 0, length, 0);
+      try {
+        return parseMetadata(buffer);
+      } catch (error) {
+        if (!(error instanceof TruncatedError)) throw error;
+        if (length === size) throw new Error("GGUF metadata is truncated");
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+// tokenizer.ggml.token_type values
+const TOKEN_TYPE_NORMAL = 1;
+const TOKEN_TYPE_UNKNOWN = 2;
+const TOKEN_TYPE_USER_DEFINED = 4;
+const TOKEN_TYPE_BYTE = 6;
+
+const SPACE_SYMBOL = "\u2581"; // "▁"
+
+/**
+ * SentencePiece (BPE variant) as llama.cpp runs it: spaces become "▁", symbols
+ * merge by highest vocabulary score, and characters outside the vocabulary
+ * fall back to <0xXX> byte tokens
+ */
+export class SentencePieceTokenizer extends PieceTokenizer {
+  private readonly vocab: Map<string, number> = new Map();
+  private readonly byteTokens: Map<number, number> = new Map();
+  private unknownId: number | undefined;
+
+  constructor(
+    name: string,
+    private readonly tokens: string[],
+    private readonly scores: number[],
+    private readonly types: number[],
+    private readonly addSpacePrefix: boolean
+  ) {
+    super(name);
+    tokens.forEach((token, id) => {
+      const type = types[id] ?? TOKEN_TYPE_NORMAL;
+      if (type === TOKEN_TYPE_BYTE) {
+        const byte = /^<0x([0-9A-Fa-f]{2})>$/.exec(token);
+        if (byte) this.byteTokens.set(parseInt(byte[1], 16), id);
+      } else if ((type === TOKEN_TYPE_NORMAL || type === TOKEN_TYPE_USER_DEFINED) && !this.vocab.has(token)) {
+        this.vocab.set(token, id);
+      } else if (type === TOKEN_TYPE_UNKNOWN && this.unknownId === undefined) {
+        this.unknownId = id;
+      }
+    });
+  }
+
+  // A word with its leading spaces; merges rarely cross words
+  protected pieces(text: string): Piece[] {
+    const pieces: Piece[] = [];
+    const pattern = / *[^ ]+| +/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const prefix = match.index === 0 && this.addSpacePrefix && match[0][0] !== " " ? SPACE_SYMBOL : "";
+      pieces.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        text: prefix + match[0].replace(/ /g, SPACE_SYMBOL),
+      });
+    }
+    return pieces;
+  }
+
+  protected encodePiece(piece: string): number[] {
+    const merged = bytePairMerge(Array.from(piece), (left, right) => {
+      const id = this.vocab.get(left + right);
+      return id !== undefined ? -(this.scores[id] ?? 0) : undefined;
+    });
+
+    const ids: number[] = [];
+    for (const symbol of merged) {
+      const id = this.vocab.get(symbol);
+      if (id !== undefined) {
+        ids.push(id);
+        continue;
+      }
+      for (const byte of Array.from(Buffer.from(symbol, "utf8"))) {
+        const byteId = this.byteTokens.get(byte) ?? this.unknownId;
+        if (byteId !== undefined) ids.push(byteId);
+      }
+    }
+    return ids;
+  }
+
+  decode(ids: number[]): string {
+    const bytes: number[] = [];
+    for (const id of ids) {
+      const token = this.tokens[id];
+      if (token === undefined) continue;
+      const type = this.types[id] ?? TOKEN_TYPE_NORMAL;
+      if (type === TOKEN_TYPE_BYTE) {
+        bytes.push(parseInt(token.slice(3, 5), 16));
+      } else if (type === TOKEN_TYPE_NORMAL || type === TOKEN_TYPE_USER_DEFINED) {
+        bytes.push(...Array.from(Buffer.from(token.split(SPACE_SYMBOL).join(" "), "utf8")));
+      }
+    }
+    const text = Buffer.from(bytes).toString("utf8");
+    return this.addSpacePrefix && text.startsWith(" ") ? text.slice(1) : text;
+  }
+}
+
+// tokenizer.ggml.pre values and the pre-tokenizer they use
+const GGUF_PRETOKENIZERS: Record<string, PretokenizePattern> = {
+  "llama-bpe": "cl100k",
+  llama3: "cl100k",
+  "smaug-bpe": "cl100k",
+  dbrx: "cl100k",
+  qwen2: "qwen2",
+  gpt2: "gpt2",
+  default: "gpt2",
+};
+
+/**
+ * Build the tokenizer embedded in a GGUF model file
+ */
+export async function loadGgufTokenizer(name: string, filePath: string): Promise<Tokenizer> {
+  const metadata = await readGgufMetadata(filePath);
+  const model = metadata["tokenizer.ggml.model"];
+  const tokens = metadata["tokenizer.ggml.tokens"];
+  if (!Array.isArray(tokens) || tokens.length === 0) {
+    throw new Error(`${filePath} has no embedded vocabulary`);
+  }
+
+  switch (model) {
+    case "llama":
+      return new SentencePieceTokenizer(
+        name,
+        tokens as string[],
+        (metadata["tokenizer.ggml.scores"] as number[] | undefined) ?? [],
+        (metadata["tokenizer.ggml.token_type"] as number[] | undefined) ?? [],
+        metadata["tokenizer.ggml.add_space_prefix"] !== false
+      );
+
+    case "gpt2": {
+      const merges = metadata["tokenizer.ggml.merges"];
+      if (!Array.isArray(merges)) {
+        throw new Error(`${filePath} has a BPE vocabulary without merges`);
+      }
+      const pre = String(metadata["tokenizer.ggml.pre"] ?? "default");
+      return fromGpt2Vocabulary(name, tokens as string[], merges as string[], GGUF_PRETOKENIZERS[pre] ?? "cl100k");
+    }
+
+    default:
+      throw new Error(`Unsupported GGUF tokenizer model: ${String(model)}`);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Tokenizer
+ * Shared shape of the BPE and SentencePiece tokenizers chunking measures with.
+ * Text is first cut into pre-tokenizer pieces (words, number groups,
+ * whitespace runs) that are encoded independently, so chunk boundaries placed
+ * between pieces keep token counts exact.
+ */
+
+export interface TokenSpan {
+  start: number; // Character offsets into the text
+  end: number;
+  tokens: number;
+}
+
+export interface Tokenizer {
+  readonly name: string;
+  encode(text: string): number[];
+  decode(ids: number[]): string;
+  count(text: string): number;
+  spans(text: string): TokenSpan[];
+}
+
+// Rough token count, ~4 characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Pieces longer than this are encoded in slices, bounding the quadratic merge loop on e.g. base64 blobs
+const MAX_PIECE_LENGTH = 256;
+const MAX_CACHED_PIECES = 50000;
+
+export interface Piece {
+  start: number;
+  end: number;
+  text: string; // Normalized piece text handed to encodePiece
+}
+
+/**
+ * Merge adjacent symbols, lowest rank first, until no pair has a rank
+ */
+export function bytePairMerge(symbols: string[], rank: (left: string, right: string) => number | undefined): string[] {
+  const parts = symbols.slice();
+  while (parts.length > 1) {
+    let best = -1;
+    let bestRank = Infinity;
+    for (let i = 0; i < parts.length - 1; i++) {
+      const candidate = rank(parts[i], parts[i + 1]);
+      if (candidate !== undefined && candidate < bestRank) {
+        best = i;
+        bestRank = candidate;
+      }
+    }
+    if (best < 0) break;
+    parts.splice(best, 2, parts[best] + parts[best + 1]);
+  }
+  return parts;
+}
+
+/**
+ * Base for tokenizers that pre-tokenize into pieces; piece encodings are cached
+ */
+export abstract class PieceTokenizer implements Tokenizer {
+  private readonly cache: Map<string, number[]> = new Map();
+
+  constructor(readonly name: string) {}
+
+  protected abstract pieces(text: string): Piece[];
+  protected abstract encodePiece(piece: string): number[];
+  abstract decode(ids: number[]): string;
+
+  private encodeCached(piece: string): number[] {
+    let ids = this.cache.get(piece);
+    if (!ids) {
+      ids = [];
+      for (let i = 0; i < piece.length; i += MAX_PIECE_LENGTH) {
+        ids.push(...this.encodePiece(piece.slice(i, i + MAX_PIECE_LENGTH)));
+      }
+      if (this.cache.size >= MAX_CACHED_PIECES) this.cache.clear();
+      this.cache.set(piece, ids);
+    }
+    return ids;
+  }
+
+  encode(text: string): number[] {
+    const ids: number[] = [];
+    for (const piece of this.pieces(text)) ids.push(...this.encodeCached(piece.text));
+    return ids;
+  }
+
+  count(text: string): number {
+    return this.pieces(text).reduce((sum, piece) => sum + this.encodeCached(piece.text).length, 0);
+  }
+
+  spans(text: string): TokenSpan[] {
+    return this.pieces(text).map((piece) => ({
+      start: piece.start,
+      end: piece.end,
+      tokens: this.encodeCached(piece.text).length,
+    }));
+  }
+}
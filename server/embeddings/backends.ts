@@ -0,0 +1,115 @@
+/**
+ * Embedding Backends
+ * - ONNX: the bge/MiniLM/e5 models run in-process through transformers.js
+ * - Provider: any Provider Hub provider with a working embed() (OpenAI, Ollama, llama.cpp, ...)
+ */
+
+import { getProviderRegistry } from "../providers/registry";
+
+export type EmbeddingInputType = "query" | "document";
+
+export interface EmbeddingBackend {
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+// ============================================================================
+// In-process ONNX models
+// ============================================================================
+
+export interface OnnxModelSpec {
+  repo: string; // Hugging Face repository with ONNX weights
+  pooling: "mean" | "cls";
+  queryPrefix?: string;
+  documentPrefix?: string;
+}
+
+// Optional dependency: the ONNX runtime is only loaded once a local model is used (embedders and rerankers)
+const TRANSFORMERS_MODULE = "@huggingface/transformers";
+
+export async function loadTransformers(): Promise<any> {
+  try {
+    const transformers = await import(TRANSFORMERS_MODULE);
+    if (process.env.EMBEDDING_MODEL_DIR) {
+      transformers.env.cacheDir = process.env.EMBEDDING_MODEL_DIR;
+    }
+    return transformers;
+  } catch (error: any) {
+    throw new Error(`Local embedding and reranking models require the "${TRANSFORMERS_MODULE}" package: ${error.message}`);
+  }
+}
+
+export class OnnxEmbeddingBackend implements EmbeddingBackend {
+  private extractor: Promise<any> | null = null;
+
+  constructor(private readonly spec: OnnxModelSpec) {}
+
+  private load(): Promise<any> {
+    if (!this.extractor) {
+      console.log(`[EmbeddingEngine] Loading ONNX model ${this.spec.repo}`);
+      this.extractor = loadTransformers().then(({ pipeline }) =>
+        pipeline("feature-extraction", this.spec.repo, { dtype: "fp32" })
+      );
+      // Allow a retry after a failed download
+      this.extractor.catch(() => {
+        this.extractor = null;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const extractor = await this.load();
+    const prefix = (inputType === "query" ? this.spec.queryPrefix : this.spec.documentPrefix) ?? "";
+    const output = await extractor(
+      texts.map((text) => prefix + text),
+      { pooling: this.spec.pooling, normalize: true }
+    );
+    return output.tolist();
+  }
+}
+
+// ============================================================================
+// Provider Hub models
+// ============================================================================
+
+const PROVIDER_MODEL_PREFIX = "provider:";
+
+/**
+ * Model id of a provider embedding model: "provider:<providerId>:<model>"
+ */
+export function providerModelId(providerId: number, model: string): string {
+  return `${PROVIDER_MODEL_PREFIX}${providerId}:${model}`;
+}
+
+export function parseProviderModelId(id: string): { providerId: number; model: string } | null {
+  if (!id.startsWith(PROVIDER_MODEL_PREFIX)) return null;
+  const rest = id.slice(PROVIDER_MODEL_PREFIX.length);
+  const separator = rest.indexOf(":");
+  const providerId = Number(rest.slice(0, separator));
+  const model = rest.slice(separator + 1);
+  if (separator === -1 || !Number.isInteger(providerId) || !model) return null;
+  return { providerId, model };
+}
+
+export class ProviderEmbeddingBackend implements EmbeddingBackend {
+  constructor(
+    private readonly providerId: number,
+    private readonly model: string
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const provider = getProviderRegistry().getProvider(this.providerId);
+    if (!provider) {
+      throw new Error(`Embedding provider ${this.providerId} is not registered`);
+    }
+    if (!provider.getCapabilities().supportsEmbedding) {
+      throw new Error(`Provider ${provider.name} does not support embeddings`);
+    }
+
+    const embeddings = await provider.embed(texts, { model: this.model });
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Provider ${provider.name} returned ${embeddings.length} embeddings for ${texts.length} texts`);
+    }
+    return embeddings.map((embedding) => embedding.vector);
+  }
+}
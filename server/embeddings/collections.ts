@@ -0,0 +1,123 @@
+/**
+ * Embedding Collections
+ * A vector collection is bound to the embedding model and dimension of its
+ * first write. Later writes with another model are refused and queries are
+ * embedded with the collection's model, so vectors of different models never mix.
+ * The binding also records which vector store holds the collection.
+ */
+
+import { embeddingEngine, type EmbeddingModel, type EmbeddingResponse } from "./embedding-engine";
+import { createEmbeddingCollection, getEmbeddingCollection } from "./db";
+import type { EmbeddingCollection } from "../../drizzle/schema";
+import { getVectorStore, getVectorStoreByBackend } from "../vectordb/store-registry";
+import { VECTOR_BACKENDS, type VectorBackend, type VectorStore } from "../vectordb/vector-store";
+
+export class EmbeddingModelMismatchError extends Error {
+  constructor(
+    readonly collection: string,
+    readonly expected: { model: string; dimensions: number },
+    readonly actual: { model: string; dimensions?: number }
+  ) {
+    const actualDescription = actual.dimensions ? `${actual.model} (${actual.dimensions}d)` : actual.model;
+    super(
+      `Collection "${collection}" was built with ${expected.model} (${expected.dimensions}d) and cannot take vectors from ${actualDescription}`
+    );
+    this.name = "EmbeddingModelMismatchError";
+  }
+}
+
+export type CollectionEmbeddings = EmbeddingResponse & { store: VectorStore };
+
+/**
+ * Vector store a bound collection lives in; bindings recorded before stores
+ * were tracked resolve through their workspace
+ */
+async function storeForBinding(binding: EmbeddingCollection): Promise<VectorStore> {
+  if (binding.vectorStore && (VECTOR_BACKENDS as string[]).includes(binding.vectorStore)) {
+    return getVectorStoreByBackend(binding.vectorStore as VectorBackend);
+  }
+  return getVectorStore(binding.workspaceId);
+}
+
+/**
+ * Embed texts for storage in a collection, binding the collection to the
+ * model on its first write, and return the store to write them to
+ */
+export async function embedForCollection(
+  collection: string,
+  texts: string[],
+  options: { model?: EmbeddingModel; workspaceId?: number | null } = {}
+): Promise<CollectionEmbeddings> {
+  const binding = await getEmbeddingCollection(collection);
+  const model = options.model ?? (binding?.embeddingModel as EmbeddingModel) ?? embeddingEngine.defaultModelId;
+
+  if (binding && binding.embeddingModel !== model) {
+    throw new EmbeddingModelMismatchError(
+      collection,
+      { model: binding.embeddingModel, dimensions: binding.dimensions },
+      { model }
+    );
+  }
+
+  const response = await embeddingEngine.generate({ texts, model, inputType: "document" });
+
+  if (binding) {
+    if (binding.dimensions !== response.dimensions) {
+      throw new EmbeddingModelMismatchError(
+        collection,
+        { model: binding.embeddingModel, dimensions: binding.dimensions },
+        { model, dimensions: response.dimensions }
+      );
+    }
+    return { ...response, store: await storeForBinding(binding) };
+  }
+
+  const store = await getVectorStore(options.workspaceId);
+  await store.createCollection({ name: collection, vectorSize: response.dimensions, distance: "Cosine" });
+  const created = await createEmbeddingCollection({
+    name: collection,
+    workspaceId: options.workspaceId ?? null,
+    embeddingModel: model,
+    dimensions: response.dimensions,
+    vectorStore: store.backend,
+  });
+  // Another writer bound the collection first
+  if (created.embeddingModel !== model || created.dimensions !== response.dimensions) {
+    throw new EmbeddingModelMismatchError(
+      collection,
+      { model: created.embeddingModel, dimensions: created.dimensions },
+      { model, dimensions: response.dimensions }
+    );
+  }
+  return { ...response, store: created.vectorStore === store.backend ? store : await storeForBinding(created) };
+}
+
+/**
+ * Embed a search query with the model the collection was built with, along
+ * with the store to search; null when nothing was ever embedded into the collection
+ */
+export async function embedQueryForCollection(
+  collection: string,
+  query: string
+): Promise<{ vector: number[]; store: VectorStore } | null> {
+  const binding = await getEmbeddingCollection(collection);
+  if (!binding) {
+    console.warn(`[Embeddings] Collection ${collection} has no recorded embedding model, skipping search`);
+    return null;
+  }
+
+  const response = await embeddingEngine.generate({
+    texts: [query],
+    model: binding.embeddingModel as EmbeddingModel,
+    inputType: "query",
+  });
+  return { vector: response.embeddings[0], store: await storeForBinding(binding) };
+}
+
+/**
+ * Vector store holding a collection; null when nothing was ever embedded into it
+ */
+export async function getCollectionStore(collection: string): Promise<VectorStore | null> {
+  const binding = await getEmbeddingCollection(collection);
+  return binding ? storeForBinding(binding) : null;
+}
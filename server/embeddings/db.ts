@@ -0,0 +1,38 @@
+/**
+ * Embedding Collections — Database CRUD
+ */
+import { eq } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  embeddingCollections,
+  type EmbeddingCollection,
+  type InsertEmbeddingCollection,
+} from "../../drizzle/schema";
+
+export async function getEmbeddingCollection(name: string): Promise<EmbeddingCollection | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(embeddingCollections).where(eq(embeddingCollections.name, name));
+  return row ?? null;
+}
+
+/**
+ * Record a collection's model and dimension; a concurrent first write keeps
+ * whichever binding landed first
+ */
+export async function createEmbeddingCollection(data: InsertEmbeddingCollection): Promise<EmbeddingCollection> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(embeddingCollections).values(data).onConflictDoNothing({ target: embeddingCollections.name });
+  const [row] = await db.select().from(embeddingCollections).where(eq(embeddingCollections.name, data.name));
+  return row;
+}
+
+export async function listEmbeddingCollections(): Promise<EmbeddingCollection[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select().from(embeddingCollections);
+}
@@ -1,20 +1,39 @@
 /**
  * Embedding Engine
- * Generates text embeddings using various models (BGE, MiniLM, E5)
+ * Generates text embeddings with local ONNX models (BGE, MiniLM, E5) or any
+ * Provider Hub provider that implements embed().
  */
 
-export type EmbeddingModel = "bge-large-en" | "bge-base-en" | "minilm-l6" | "e5-large" | "e5-base";
+import {
+  OnnxEmbeddingBackend,
+  ProviderEmbeddingBackend,
+  parseProviderModelId,
+  providerModelId,
+  type EmbeddingBackend,
+  type EmbeddingInputType,
+  type OnnxModelSpec,
+} from "./backends";
+import { getProviderRegistry } from "../providers/registry";
+
+export type LocalEmbeddingModel = "bge-large-en" | "bge-base-en" | "minilm-l6" | "e5-large" | "e5-base";
+
+// Local model, or "provider:<providerId>:<model>" for a Provider Hub embedding model
+export type EmbeddingModel = LocalEmbeddingModel | `provider:${number}:${string}`;
+
+export const LOCAL_EMBEDDING_MODELS: LocalEmbeddingModel[] = ["bge-large-en", "bge-base-en", "minilm-l6", "e5-large", "e5-base"];
 
 export interface EmbeddingConfig {
   model: EmbeddingModel;
-  dimensions: number;
+  backend: "onnx" | "provider";
+  dimensions: number | null; // Provider models report their dimension with the first vectors
   maxBatchSize: number;
-  device: "cpu" | "cuda";
+  device: "cpu" | "cuda" | "remote";
 }
 
 export interface EmbeddingRequest {
   texts: string[];
   model?: EmbeddingModel;
+  inputType?: EmbeddingInputType; // Asymmetric models (e5, bge) embed queries and passages differently
 }
 
 export interface EmbeddingResponse {
@@ -26,6 +45,19 @@ export interface EmbeddingResponse {
   };
 }
 
+const BGE_QUERY_PREFIX = "Represent this sentence for searching relevant passages: ";
+
+const ONNX_MODELS: Record<LocalEmbeddingModel, OnnxModelSpec> = {
+  "bge-large-en": { repo: "Xenova/bge-large-en-v1.5", pooling: "cls", queryPrefix: BGE_QUERY_PREFIX },
+  "bge-base-en": { repo: "Xenova/bge-base-en-v1.5", pooling: "cls", queryPrefix: BGE_QUERY_PREFIX },
+  "minilm-l6": { repo: "Xenova/all-MiniLM-L6-v2", pooling: "mean" },
+  "e5-large": { repo: "Xenova/e5-large-v2", pooling: "mean", queryPrefix: "query: ", documentPrefix: "passage: " },
+  "e5-base": { repo: "Xenova/e5-base-v2", pooling: "mean", queryPrefix: "query: ", documentPrefix: "passage: " },
+};
+
+// Provider requests are batched by the remote API
+const PROVIDER_BATCH_SIZE = 64;
+
 /**
  * LRU Cache for embeddings
  */
@@ -79,8 +111,9 @@ class EmbeddingCache {
  */
 export class EmbeddingEngine {
   private models: Map<EmbeddingModel, EmbeddingConfig> = new Map();
+  private backends: Map<EmbeddingModel, EmbeddingBackend> = new Map();
   private cache: EmbeddingCache;
-  private defaultModel: EmbeddingModel = "bge-base-en";
+  private defaultModel: EmbeddingModel = (process.env.EMBEDDING_MODEL as EmbeddingModel) || "bge-base-en";
   
   constructor() {
     this.cache = new EmbeddingCache();
@@ -94,6 +127,7 @@ export class EmbeddingEngine {
     // BGE models (BAAI General Embedding)
     this.models.set("bge-large-en", {
       model: "bge-large-en",
+      backend: "onnx",
       dimensions: 1024,
       maxBatchSize: 32,
       device: "cpu",
@@ -101,6 +135,7 @@ export class EmbeddingEngine {
     
     this.models.set("bge-base-en", {
       model: "bge-base-en",
+      backend: "onnx",
       dimensions: 768,
       maxBatchSize: 64,
       device: "cpu",
@@ -109,6 +144,7 @@ export class EmbeddingEngine {
     // MiniLM models (Microsoft)
     this.models.set("minilm-l6", {
       model: "minilm-l6",
+      backend: "onnx",
       dimensions: 384,
       maxBatchSize: 128,
       device: "cpu",
@@ -117,6 +153,7 @@ export class EmbeddingEngine {
     // E5 models (Microsoft)
     this.models.set("e5-large", {
       model: "e5-large",
+      backend: "onnx",
       dimensions: 1024,
       maxBatchSize: 32,
       device: "cpu",
@@ -124,6 +161,7 @@ export class EmbeddingEngine {
     
     this.models.set("e5-base", {
       model: "e5-base",
+      backend: "onnx",
       dimensions: 768,
       maxBatchSize: 64,
       device: "cpu",
@@ -132,24 +170,64 @@ export class EmbeddingEngine {
     console.log(`[EmbeddingEngine] Initialized with ${this.models.size} models`);
   }
   
+  get defaultModelId(): EmbeddingModel {
+    return this.defaultModel;
+  }
+  
   /**
-   * Generate embeddings for texts
+   * Resolve a model id to its config, registering provider models on first use
    */
-  async generate(request: EmbeddingRequest): Promise<EmbeddingResponse> {
-    const model = request.model || this.defaultModel;
-    const config = this.models.get(model);
+  getModelConfig(model: EmbeddingModel): EmbeddingConfig {
+    const known = this.models.get(model);
+    if (known) return known;
     
-    if (!config) {
+    const parsed = parseProviderModelId(model);
+    if (!parsed) {
       throw new Error(`Model not found: ${model}`);
     }
     
+    const config = this.providerConfig(model);
+    this.models.set(model, config);
+    return config;
+  }
+  
+  private providerConfig(model: EmbeddingModel): EmbeddingConfig {
+    return {
+      model,
+      backend: "provider",
+      dimensions: null,
+      maxBatchSize: PROVIDER_BATCH_SIZE,
+      device: "remote",
+    };
+  }
+  
+  private getBackend(config: EmbeddingConfig): EmbeddingBackend {
+    let backend = this.backends.get(config.model);
+    if (!backend) {
+      const parsed = parseProviderModelId(config.model);
+      backend = parsed
+        ? new ProviderEmbeddingBackend(parsed.providerId, parsed.model)
+        : new OnnxEmbeddingBackend(ONNX_MODELS[config.model as LocalEmbeddingModel]);
+      this.backends.set(config.model, backend);
+    }
+    return backend;
+  }
+  
+  /**
+   * Generate embeddings for texts
+   */
+  async generate(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const model = request.model || this.defaultModel;
+    const config = this.getModelConfig(model);
+    const inputType = request.inputType || "document";
+    
     const embeddings: number[][] = [];
     let totalTokens = 0;
     
     // Process in batches
     for (let i = 0; i < request.texts.length; i += config.maxBatchSize) {
       const batch = request.texts.slice(i, i + config.maxBatchSize);
-      const batchEmbeddings = await this.generateBatch(batch, config);
+      const batchEmbeddings = await this.generateBatch(batch, config, inputType);
       embeddings.push(...batchEmbeddings);
       
       // Estimate tokens (rough approximation)
@@ -159,7 +237,7 @@ export class EmbeddingEngine {
     return {
       embeddings,
       model,
-      dimensions: config.dimensions,
+      dimensions: config.dimensions ?? embeddings[0]?.length ?? 0,
       usage: {
         totalTokens,
       },
@@ -167,76 +245,63 @@ export class EmbeddingEngine {
   }
   
   /**
-   * Generate embeddings for a batch of texts
+   * Generate embeddings for a batch of texts, embedding only the cache misses
    */
-  private async generateBatch(texts: string[], config: EmbeddingConfig): Promise<number[][]> {
-    const embeddings: number[][] = [];
+  private async generateBatch(
+    texts: string[],
+    config: EmbeddingConfig,
+    inputType: EmbeddingInputType
+  ): Promise<number[][]> {
+    const embeddings: number[][] = new Array(texts.length);
+    const missing: number[] = [];
     
-    for (const text of texts) {
-      // Check cache first
-      const cacheKey = `${config.model}:${text}`;
-      const cached = this.cache.get(cacheKey);
-      
+    for (let i = 0; i < texts.length; i++) {
+      const cached = this.cache.get(this.cacheKey(config.model, inputType, texts[i]));
       if (cached) {
-        embeddings.push(cached);
-        continue;
+        embeddings[i] = cached;
+      } else {
+        missing.push(i);
       }
-      
-      // Generate embedding
-      const embedding = await this.generateSingle(text, config);
-      
-      // Cache result
-      this.cache.set(cacheKey, embedding);
-      
-      embeddings.push(embedding);
     }
+    if (missing.length === 0) return embeddings;
     
-    return embeddings;
-  }
-  
-  /**
-   * Generate embedding for a single text
-   * 
-   * Note: This is a simplified implementation.
-   * In production, this would use actual embedding models via:
-   * - @xenova/transformers (ONNX runtime)
-   * - Python subprocess with sentence-transformers
-   * - API calls to embedding services
-   */
-  private async generateSingle(text: string, config: EmbeddingConfig): Promise<number[]> {
-    // Simulate embedding generation
-    // In production, load and run actual model
+    const vectors = await this.getBackend(config).embed(missing.map((i) => texts[i]), inputType);
     
-    // Generate deterministic "embedding" based on text
-    // (This is NOT a real embedding, just for demonstration)
-    const embedding = new Array(config.dimensions).fill(0).map((_, i) => {
-      const hash = this.simpleHash(text + i);
-      return (hash % 2000 - 1000) / 1000; // Normalize to [-1, 1]
-    });
+    for (let j = 0; j < missing.length; j++) {
+      const vector = vectors[j];
+      if (config.dimensions === null) {
+        config.dimensions = vector.length;
+      } else if (vector.length !== config.dimensions) {
+        throw new Error(
+          `Model ${config.model} returned a ${vector.length}-dimensional vector, expected ${config.dimensions}`
+        );
+      }
+      this.cache.set(this.cacheKey(config.model, inputType, texts[missing[j]]), vector);
+      embeddings[missing[j]] = vector;
+    }
     
-    // Normalize to unit vector
-    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    return embedding.map((val) => val / magnitude);
+    return embeddings;
   }
   
-  /**
-   * Simple hash function for demonstration
-   */
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash);
+  private cacheKey(model: EmbeddingModel, inputType: EmbeddingInputType, text: string): string {
+    return `${model}:${inputType}:${text}`;
   }
   
   /**
-   * Get available models
+   * Get available models: local ONNX models plus the embedding models of
+   * registered providers
    */
   getAvailableModels(): EmbeddingConfig[] {
-    return Array.from(this.models.values());
+    const available = LOCAL_EMBEDDING_MODELS.map((model) => this.models.get(model)!);
+    for (const provider of getProviderRegistry().getAllProviders()) {
+      const capabilities = provider.getCapabilities();
+      if (!capabilities.supportsEmbedding) continue;
+      for (const name of capabilities.supportedModels.filter((model) => /embed/i.test(model))) {
+        const model = providerModelId(provider.id, name) as EmbeddingModel;
+        available.push(this.models.get(model) ?? this.providerConfig(model));
+      }
+    }
+    return available;
   }
   
   /**
@@ -1,6 +1,15 @@
 import { z } from "zod";
 import { protectedProcedure, router } from "../_core/trpc";
-import { embeddingEngine } from "./embedding-engine";
+import { embeddingEngine, LOCAL_EMBEDDING_MODELS, type EmbeddingModel } from "./embedding-engine";
+
+// A local model or "provider:<providerId>:<model>"
+export const embeddingModelSchema = z
+  .string()
+  .refine(
+    (model) => (LOCAL_EMBEDDING_MODELS as string[]).includes(model) || /^provider:\d+:.+/.test(model),
+    { message: 'Expected a local embedding model or "provider:<providerId>:<model>"' }
+  )
+  .transform((model) => model as EmbeddingModel);
 
 /**
  * Embeddings Router
@@ -14,13 +23,15 @@ export const embeddingsRouter = router({
     .input(
       z.object({
         texts: z.array(z.string()),
-        model: z.enum(["bge-large-en", "bge-base-en", "minilm-l6", "e5-large", "e5-base"]).optional(),
+        model: embeddingModelSchema.optional(),
+        inputType: z.enum(["query", "document"]).optional(),
       })
     )
     .mutation(async ({ input }) => {
       const response = await embeddingEngine.generate({
         texts: input.texts,
         model: input.model,
+        inputType: input.inputType,
       });
       
       return response;
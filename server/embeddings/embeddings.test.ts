@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const provider = vi.hoisted(() => ({
+  id: 3,
+  name: "OpenAI",
+  embed: vi.fn(),
+  getCapabilities: () => ({ supportsEmbedding: true, supportedModels: ["gpt-4o", "text-embedding-3-small"] }),
+}));
+
+vi.mock("../providers/registry", () => ({
+  getProviderRegistry: () => ({
+    getProvider: (id: number) => (id === provider.id ? provider : undefined),
+    getAllProviders: () => [provider],
+  }),
+}));
+vi.mock("./db", () => ({
+  getEmbeddingCollection: vi.fn(),
+  createEmbeddingCollection: vi.fn(),
+}));
+const store = vi.hoisted(() => ({ backend: "hnsw", createCollection: vi.fn() }));
+
+vi.mock("../vectordb/store-registry", () => ({
+  getVectorStore: vi.fn(async () => store),
+  getVectorStoreByBackend: vi.fn(() => store),
+}));
+
+import * as collectionDb from "./db";
+import { EmbeddingEngine, embeddingEngine } from "./embedding-engine";
+import { parseProviderModelId } from "./backends";
+import { embedForCollection, embedQueryForCollection, EmbeddingModelMismatchError } from "./collections";
+import { getVectorStore } from "../vectordb/store-registry";
+
+const db = vi.mocked(collectionDb);
+const MODEL = "provider:3:text-embedding-3-small" as const;
+
+function vectors(texts: string[], dimensions = 4) {
+  return texts.map((text) => ({ vector: Array.from({ length: dimensions }, (_, i) => text.length + i), model: "m", dimensions }));
+}
+
+describe("EmbeddingEngine", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    embeddingEngine.clearCache();
+    provider.embed.mockImplementation(async (texts: string[]) => vectors(texts));
+  });
+
+  it("should embed through a provider, learn its dimension and cache per input type", async () => {
+    const engine = new EmbeddingEngine();
+
+    const first = await engine.generate({ texts: ["alpha", "beta"], model: MODEL });
+    const second = await engine.generate({ texts: ["alpha", "gamma"], model: MODEL });
+    await engine.generate({ texts: ["alpha"], model: MODEL, inputType: "query" });
+
+    expect(first.dimensions).toBe(4);
+    expect(second.embeddings[0]).toEqual(first.embeddings[0]);
+    expect(provider.embed.mock.calls.map(([texts, options]) => [texts, options.model])).toEqual([
+      [["alpha", "beta"], "text-embedding-3-small"],
+      [["gamma"], "text-embedding-3-small"],
+      [["alpha"], "text-embedding-3-small"],
+    ]);
+    expect(engine.getAvailableModels().map((model) => model.model)).toContain(MODEL);
+  });
+
+  it("should reject vectors whose dimension changes", async () => {
+    const engine = new EmbeddingEngine();
+    await engine.generate({ texts: ["alpha"], model: MODEL });
+    provider.embed.mockResolvedValueOnce(vectors(["beta"], 8));
+
+    await expect(engine.generate({ texts: ["beta"], model: MODEL })).rejects.toThrow(/8-dimensional vector, expected 4/);
+  });
+
+  it("should parse provider model ids with colons in the model name", () => {
+    expect(parseProviderModelId("provider:7:nomic-embed-text:latest")).toEqual({ providerId: 7, model: "nomic-embed-text:latest" });
+    expect(parseProviderModelId("bge-base-en")).toBeNull();
+    expect(() => new EmbeddingEngine().getModelConfig("ada" as any)).toThrow(/Model not found/);
+  });
+});
+
+describe("embedding collections", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    embeddingEngine.clearCache();
+    provider.embed.mockImplementation(async (texts: string[]) => vectors(texts));
+  });
+
+  it("should bind a new collection to the model of its first write", async () => {
+    db.getEmbeddingCollection.mockResolvedValue(null);
+    db.createEmbeddingCollection.mockImplementation(async (data) => ({ id: 1, ...data }) as any);
+
+    const result = await embedForCollection("docs", ["alpha"], { model: MODEL, workspaceId: 2 });
+
+    expect(getVectorStore).toHaveBeenCalledWith(2);
+    expect(store.createCollection).toHaveBeenCalledWith({ name: "docs", vectorSize: 4, distance: "Cosine" });
+    expect(db.createEmbeddingCollection).toHaveBeenCalledWith({
+      name: "docs",
+      workspaceId: 2,
+      embeddingModel: MODEL,
+      dimensions: 4,
+      vectorStore: "hnsw",
+    });
+    expect(result.store).toBe(store);
+  });
+
+  it("should refuse writes from another model and embed queries with the collection's model", async () => {
+    db.getEmbeddingCollection.mockResolvedValue({
+      name: "docs",
+      embeddingModel: MODEL,
+      dimensions: 4,
+      vectorStore: "hnsw",
+    } as any);
+
+    await expect(embedForCollection("docs", ["alpha"], { model: "e5-base" })).rejects.toBeInstanceOf(
+      EmbeddingModelMismatchError
+    );
+    expect(provider.embed).not.toHaveBeenCalled();
+
+    const query = await embedQueryForCollection("docs", "what is alpha?");
+    expect(query?.vector).toHaveLength(4);
+    expect(query?.store).toBe(store);
+    expect(provider.embed).toHaveBeenCalledWith(["what is alpha?"], { model: "text-embedding-3-small" });
+  });
+});
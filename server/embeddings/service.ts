@@ -1,153 +1,69 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
-import OpenAI from 'openai';
+import { embedForCollection, embedQueryForCollection, getCollectionStore } from './collections';
+import type { EmbeddingModel } from './embedding-engine';
+import { getRetrievalProfile } from '../documents/retrieval-profile';
 
 /**
- * Vector embedding service for document chunks
+ * Vector embedding service for document chunks, stored in each workspace's vector store
+ * under the collection and embedding model of its retrieval profile
  */
 export class EmbeddingService {
-  private qdrant: QdrantClient | null = null;
-  private openai: OpenAI | null = null;
-  private collectionName: string;
-  private embeddingModel: string;
-
-  constructor(
-    collectionName: string = 'documents',
-    embeddingModel: string = 'text-embedding-3-small'
-  ) {
-    this.collectionName = collectionName;
-    this.embeddingModel = embeddingModel;
-  }
-
-  /**
-   * Initialize Qdrant client (in-memory mode for local development)
-   */
-  private async initQdrant() {
-    if (this.qdrant) return this.qdrant;
-
-    // Use in-memory Qdrant for simplicity (no external service needed)
-    this.qdrant = new QdrantClient({ url: ':memory:' });
-    
-    // Create collection if it doesn't exist
-    try {
-      await this.qdrant.getCollection(this.collectionName);
-      console.log(`[Embeddings] Using existing collection: ${this.collectionName}`);
-    } catch (error) {
-      // Collection doesn't exist, create it
-      await this.qdrant.createCollection(this.collectionName, {
-        vectors: {
-          size: 1536, // text-embedding-3-small dimension
-          distance: 'Cosine',
-        },
-      });
-      console.log(`[Embeddings] Created collection: ${this.collectionName}`);
-    }
-
-    return this.qdrant;
-  }
-
-  /**
-   * Initialize OpenAI client
-   */
-  private initOpenAI() {
-    if (this.openai) return this.openai;
-
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY not configured');
-    }
-
-    this.openai = new OpenAI({ apiKey });
-    return this.openai;
-  }
-
-  /**
-   * Generate embedding for a single text
-   */
-  async generateEmbedding(text: string): Promise<number[]> {
-    const openai = this.initOpenAI();
-
-    try {
-      const response = await openai.embeddings.create({
-        model: this.embeddingModel,
-        input: text,
-      });
-
-      return response.data[0].embedding;
-    } catch (error) {
-      console.error('[Embeddings] Error generating embedding:', error);
-      throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
+  constructor(private readonly embeddingModel?: EmbeddingModel) {}
 
   /**
-   * Generate embeddings for multiple texts in batch
+   * Store document chunk embeddings in vector database; returns the embedding model used
    */
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    const openai = this.initOpenAI();
-
-    try {
-      const response = await openai.embeddings.create({
-        model: this.embeddingModel,
-        input: texts,
-      });
-
-      return response.data.map(item => item.embedding);
-    } catch (error) {
-      console.error('[Embeddings] Error generating embeddings:', error);
-      throw new Error(`Failed to generate embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Store document chunk embeddings in vector database
-   */
-  async storeChunkEmbeddings(chunks: Array<{
-    id: number;
-    content: string;
-    documentId: number;
-    chunkIndex: number;
-  }>): Promise<void> {
-    if (chunks.length === 0) return;
-
-    const qdrant = await this.initQdrant();
-
-    // Generate embeddings in batches
+  async storeChunkEmbeddings(
+    workspaceId: number,
+    chunks: Array<{
+      id: number;
+      content: string;
+      documentId: number;
+      chunkIndex: number;
+      pageNumber?: number | null;
+      heading?: string | null;
+    }>
+  ): Promise<EmbeddingModel | null> {
+    if (chunks.length === 0) return null;
+
+    const profile = await getRetrievalProfile(workspaceId);
+    const collection = profile.collection;
     const batchSize = 100;
-    const allPoints = [];
+    let model: EmbeddingModel | null = null;
 
     for (let i = 0; i < chunks.length; i += batchSize) {
       const batch = chunks.slice(i, i + batchSize);
-      const texts = batch.map(chunk => chunk.content);
-      
-      console.log(`[Embeddings] Generating embeddings for batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}`);
-      const embeddings = await this.generateEmbeddings(texts);
 
-      const points = batch.map((chunk, idx) => ({
-        id: chunk.id,
-        vector: embeddings[idx],
-        payload: {
+      console.log(`[Embeddings] Generating embeddings for batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)}`);
+      const embeddings = await embedForCollection(collection, batch.map(chunk => chunk.content), {
+        model: this.embeddingModel ?? profile.embeddingModel,
+        workspaceId,
+      });
+      model = embeddings.model;
+
+      await embeddings.store.insert({
+        collection,
+        vectors: embeddings.embeddings,
+        ids: batch.map(chunk => chunk.id),
+        payloads: batch.map(chunk => ({
+          workspaceId,
           documentId: chunk.documentId,
+          chunkId: chunk.id,
           chunkIndex: chunk.chunkIndex,
-          content: chunk.content,
-        },
-      }));
-
-      allPoints.push(...points);
+          text: chunk.content,
+          metadata: { pageNumber: chunk.pageNumber, heading: chunk.heading },
+        })),
+      });
     }
 
-    // Upsert all points to Qdrant
-    await qdrant.upsert(this.collectionName, {
-      wait: true,
-      points: allPoints,
-    });
-
-    console.log(`[Embeddings] Stored ${allPoints.length} chunk embeddings`);
+    console.log(`[Embeddings] Stored ${chunks.length} chunk embeddings in ${collection}`);
+    return model;
   }
 
   /**
    * Search for similar chunks using vector similarity
    */
   async searchSimilarChunks(
+    workspaceId: number,
     query: string,
     limit: number = 5,
     documentIds?: number[]
@@ -158,10 +74,9 @@ export class EmbeddingService {
     chunkIndex: number;
     content: string;
   }>> {
-    const qdrant = await this.initQdrant();
-
-    // Generate query embedding
-    const queryEmbedding = await this.generateEmbedding(query);
+    const { collection } = await getRetrievalProfile(workspaceId);
+    const queryEmbedding = await embedQueryForCollection(collection, query);
+    if (!queryEmbedding) return [];
 
     // Build filter if documentIds provided
     const filter = documentIds ? {
@@ -173,55 +88,93 @@ export class EmbeddingService {
       }],
     } : undefined;
 
-    // Search in Qdrant
-    const results = await qdrant.search(this.collectionName, {
-      vector: queryEmbedding,
+    const results = await queryEmbedding.store.search({
+      collection,
+      query: queryEmbedding.vector,
       limit,
       filter,
-      with_payload: true,
     });
 
     return results.map(result => ({
-      id: result.id as number,
+      id: result.payload.chunkId ?? Number(result.id),
       score: result.score,
-      documentId: (result.payload as any).documentId,
-      chunkIndex: (result.payload as any).chunkIndex,
-      content: (result.payload as any).content,
+      documentId: result.payload.documentId,
+      chunkIndex: result.payload.chunkIndex,
+      content: result.payload.text,
     }));
   }
 
   /**
    * Delete embeddings for a document
    */
-  async deleteDocumentEmbeddings(documentId: number): Promise<void> {
-    const qdrant = await this.initQdrant();
-
-    await qdrant.delete(this.collectionName, {
-      wait: true,
-      filter: {
-        must: [{
-          key: 'documentId',
-          match: { value: documentId },
-        }],
-      },
+  async deleteDocumentEmbeddings(workspaceId: number, documentId: number): Promise<void> {
+    const { collection } = await getRetrievalProfile(workspaceId);
+    const store = await getCollectionStore(collection);
+    if (!store) return;
+
+    await store.deleteByFilter(collection, {
+      must: [{
+        key: 'documentId',
+        match: { value: documentId },
+      }],
     });
 
     console.log(`[Embeddings] Deleted embeddings for document ${documentId}`);
   }
 
+  /**
+   * Delete embeddings of individual chunks (stale chunks after re-ingestion)
+   */
+  async deleteChunkEmbeddings(workspaceId: number, chunkIds: number[]): Promise<void> {
+    if (chunkIds.length === 0) return;
+    const { collection } = await getRetrievalProfile(workspaceId);
+    const store = await getCollectionStore(collection);
+    if (!store) return;
+
+    await store.deleteByFilter(collection, {
+      must: [{
+        key: 'chunkId',
+        match: { any: chunkIds },
+      }],
+    });
+
+    console.log(`[Embeddings] Deleted embeddings for ${chunkIds.length} chunks`);
+  }
+
+  /**
+   * Refresh the payload of chunks that kept their embedding but moved within their document
+   */
+  async updateChunkPayloads(
+    workspaceId: number,
+    chunks: Array<{ id: number; chunkIndex: number; pageNumber?: number | null; heading?: string | null }>
+  ): Promise<void> {
+    if (chunks.length === 0) return;
+    const { collection } = await getRetrievalProfile(workspaceId);
+    const store = await getCollectionStore(collection);
+    if (!store) return;
+
+    await store.updatePayloads(collection, chunks.map(chunk => ({
+      id: chunk.id,
+      payload: {
+        chunkIndex: chunk.chunkIndex,
+        metadata: { pageNumber: chunk.pageNumber, heading: chunk.heading },
+      },
+    })));
+  }
+
   /**
    * Get collection statistics
    */
-  async getStats(): Promise<{
+  async getStats(workspaceId: number): Promise<{
     vectorCount: number;
     collectionName: string;
   }> {
-    const qdrant = await this.initQdrant();
-    const info = await qdrant.getCollection(this.collectionName);
+    const { collection: collectionName } = await getRetrievalProfile(workspaceId);
+    const store = await getCollectionStore(collectionName);
 
     return {
-      vectorCount: info.points_count || 0,
-      collectionName: this.collectionName,
+      vectorCount: store ? await store.count(collectionName) : 0,
+      collectionName,
     };
   }
 }
@@ -232,12 +185,9 @@ let embeddingService: EmbeddingService | null = null;
 /**
  * Get or create embedding service instance
  */
-export function getEmbeddingService(
-  collectionName?: string,
-  embeddingModel?: string
-): EmbeddingService {
+export function getEmbeddingService(embeddingModel?: EmbeddingModel): EmbeddingService {
   if (!embeddingService) {
-    embeddingService = new EmbeddingService(collectionName, embeddingModel);
+    embeddingService = new EmbeddingService(embeddingModel);
   }
   return embeddingService;
 }
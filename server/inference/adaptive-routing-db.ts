@@ -0,0 +1,147 @@
+import { getDb } from "../db";
+import {
+  providerHealthChecks,
+  providerMetrics,
+  routingAuditLogs,
+  routingFeedback,
+  routingObservations,
+  type InsertRoutingFeedback,
+  type InsertRoutingObservation,
+  type RoutingAuditLog,
+} from "../../drizzle/schema";
+import { and, asc, desc, eq, gte, inArray, sql } from "drizzle-orm";
+
+/**
+ * Adaptive Routing Database Operations
+ * Observed attempts, chat feedback and the rolling-window stats built from them
+ */
+
+// ============================================================================
+// Observations
+// ============================================================================
+
+export async function insertRoutingObservation(data: InsertRoutingObservation): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(routingObservations).values(data);
+}
+
+/**
+ * Attempts, errors and latency percentiles per provider since a point in
+ * time. Latency and time to first token are taken from successful attempts.
+ */
+export async function getObservationStats(providerIds: number[], since: Date) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+  if (providerIds.length === 0) return [];
+
+  return db
+    .select({
+      providerId: routingObservations.providerId,
+      attempts: sql<string>`COUNT(*)`,
+      errors: sql<string>`COUNT(*) FILTER (WHERE NOT ${routingObservations.success})`,
+      p50LatencyMs: sql<string | null>`PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${routingObservations.latencyMs}) FILTER (WHERE ${routingObservations.success})`,
+      p95LatencyMs: sql<string | null>`PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY ${routingObservations.latencyMs}) FILTER (WHERE ${routingObservations.success})`,
+      p50TtftMs: sql<string | null>`PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${routingObservations.ttftMs}) FILTER (WHERE ${routingObservations.success})`,
+    })
+    .from(routingObservations)
+    .where(and(inArray(routingObservations.providerId, providerIds), gte(routingObservations.createdAt, since)))
+    .groupBy(routingObservations.providerId);
+}
+
+/**
+ * Health checks per provider since a point in time, and how many failed
+ */
+export async function getHealthCheckCounts(providerIds: number[], since: Date) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+  if (providerIds.length === 0) return [];
+
+  return db
+    .select({
+      providerId: providerHealthChecks.providerId,
+      checks: sql<string>`COUNT(*)`,
+      failed: sql<string>`COUNT(*) FILTER (WHERE ${providerHealthChecks.status} <> 'healthy')`,
+    })
+    .from(providerHealthChecks)
+    .where(and(inArray(providerHealthChecks.providerId, providerIds), gte(providerHealthChecks.checkedAt, since)))
+    .groupBy(providerHealthChecks.providerId);
+}
+
+/**
+ * Each provider's most recent metrics period
+ */
+export async function getLatestMetricsByProvider(providerIds: number[]) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+  if (providerIds.length === 0) return [];
+
+  return db
+    .selectDistinctOn([providerMetrics.providerId], {
+      providerId: providerMetrics.providerId,
+      avgLatencyMs: providerMetrics.avgLatencyMs,
+      p95LatencyMs: providerMetrics.p95LatencyMs,
+      errorRate: providerMetrics.errorRate,
+      totalRequests: providerMetrics.totalRequests,
+    })
+    .from(providerMetrics)
+    .where(inArray(providerMetrics.providerId, providerIds))
+    .orderBy(asc(providerMetrics.providerId), desc(providerMetrics.periodEnd));
+}
+
+// ============================================================================
+// Feedback
+// ============================================================================
+
+/**
+ * Record a user's rating of a routed response, replacing any earlier one
+ */
+export async function upsertRoutingFeedback(data: InsertRoutingFeedback): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(routingFeedback)
+    .values(data)
+    .onConflictDoUpdate({
+      target: [routingFeedback.requestId, routingFeedback.userId],
+      set: { rating: data.rating, updatedAt: new Date() },
+    });
+}
+
+export async function getFeedbackCounts(providerIds: number[], since: Date) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+  if (providerIds.length === 0) return [];
+
+  return db
+    .select({
+      providerId: routingFeedback.providerId,
+      up: sql<string>`COUNT(*) FILTER (WHERE ${routingFeedback.rating} > 0)`,
+      down: sql<string>`COUNT(*) FILTER (WHERE ${routingFeedback.rating} < 0)`,
+    })
+    .from(routingFeedback)
+    .where(and(inArray(routingFeedback.providerId, providerIds), gte(routingFeedback.updatedAt, since)))
+    .groupBy(routingFeedback.providerId);
+}
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+/**
+ * The audit row of a routed request; the latest when it was logged twice
+ */
+export async function getRoutingAuditByRequestId(requestId: string): Promise<RoutingAuditLog | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [audit] = await db
+    .select()
+    .from(routingAuditLogs)
+    .where(eq(routingAuditLogs.requestId, requestId))
+    .orderBy(desc(routingAuditLogs.createdAt))
+    .limit(1);
+  return audit ?? null;
+}
@@ -0,0 +1,220 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDb: () => ({}) }));
+vi.mock("./adaptive-routing-db", () => ({
+  insertRoutingObservation: vi.fn(),
+  getObservationStats: vi.fn(async () => []),
+  getHealthCheckCounts: vi.fn(async () => []),
+  getLatestMetricsByProvider: vi.fn(async () => []),
+  getFeedbackCounts: vi.fn(async () => []),
+  upsertRoutingFeedback: vi.fn(),
+}));
+
+import * as adaptiveDb from "./adaptive-routing-db";
+import {
+  applyAdaptiveRouting,
+  buildDecisionRecord,
+  emptyPerformance,
+  invalidateProviderPerformance,
+  latencyScore,
+  loadProviderPerformance,
+  recordRoutingObservation,
+  resolveAdaptiveConfig,
+  sampleBeta,
+  type ProviderPerformance,
+} from "./adaptive-routing";
+import type { RoutingEvaluation } from "./routing-rules";
+
+// Deterministic uniform numbers for the samplers
+function seeded(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+const evaluation = (providerId: number, totalScore: number, eligible = true): RoutingEvaluation => ({
+  providerId,
+  providerName: `provider-${providerId}`,
+  eligible,
+  totalScore,
+  reasons: [],
+  ruleResults: {},
+});
+
+const performance = (providerId: number, extra: Partial<ProviderPerformance>): ProviderPerformance => ({
+  ...emptyPerformance(providerId),
+  ...extra,
+});
+
+// Provider 1 fails often and is slow, provider 2 is fast, reliable and well rated
+const observed: Record<number, ProviderPerformance> = {
+  1: performance(1, { attempts: 200, errors: 60, p50LatencyMs: 6000, p95LatencyMs: 20000, thumbsUp: 2, thumbsDown: 8 }),
+  2: performance(2, { attempts: 200, errors: 2, p50LatencyMs: 800, p95LatencyMs: 2000, thumbsUp: 30, thumbsDown: 1 }),
+};
+
+describe("resolveAdaptiveConfig", () => {
+  it("should only apply to workspaces that opted in, with defaults filled in", () => {
+    const profile = {
+      defaultRoute: "AUTO" as const,
+      dataSensitivity: "LOW" as const,
+      qualityTier: "BALANCED" as const,
+      fallback: { enabled: true, maxHops: 3 },
+    };
+
+    expect(resolveAdaptiveConfig(null)).toBeNull();
+    expect(resolveAdaptiveConfig({ ...profile, adaptive: { enabled: false, exploration: "thompson" } })).toBeNull();
+    expect(resolveAdaptiveConfig({ ...profile, adaptive: { enabled: true, exploration: "epsilon_greedy" } })).toEqual({
+      exploration: "epsilon_greedy",
+      epsilon: 0.1,
+      windowMinutes: 60,
+    });
+  });
+});
+
+describe("scoring", () => {
+  it("should sample Beta draws around the posterior mean", () => {
+    const random = seeded(7);
+    const draws = Array.from({ length: 2000 }, () => sampleBeta(91, 11, random));
+
+    const mean = draws.reduce((sum, draw) => sum + draw, 0) / draws.length;
+    expect(mean).toBeCloseTo(91 / 102, 2);
+    expect(draws.every((draw) => draw > 0 && draw < 1)).toBe(true);
+  });
+
+  it("should score latency against the target, neutral without data", () => {
+    expect(latencyScore(emptyPerformance(1), 10000, true)).toBe(0.5);
+    // Exactly on target for p50 and p95
+    expect(latencyScore(performance(1, { p50LatencyMs: 5000, p95LatencyMs: 10000 }), 10000, false)).toBeCloseTo(0.5);
+    // Time to first token only counts for streaming requests
+    const slowStart = performance(1, { p95LatencyMs: 10000, p50TtftMs: 8000 });
+    expect(latencyScore(slowStart, 10000, true)).toBeLessThan(latencyScore(slowStart, 10000, false));
+  });
+});
+
+describe("applyAdaptiveRouting", () => {
+  it("should re-rank eligible providers by observed performance and explain why", () => {
+    const outcome = applyAdaptiveRouting(
+      [evaluation(1, 60), evaluation(2, 50), evaluation(3, 0, false)],
+      observed,
+      { exploration: "epsilon_greedy", epsilon: 0, windowMinutes: 60 }
+    );
+
+    expect(outcome.evaluations.map((e) => e.providerId)).toEqual([2, 1, 3]);
+    expect(outcome.explored).toBe(false);
+    expect(outcome.evaluations[0].ruleResults.adaptive.score).toBeGreaterThan(outcome.evaluations[1].ruleResults.adaptive.score);
+    expect(outcome.evaluations[0].reasons[0]).toMatch(/^Adaptive score .*200 attempts, 1\.0% errors, p95 2000ms/);
+    // Ineligible providers are left alone
+    expect(outcome.evaluations[2].ruleResults.adaptive).toBeUndefined();
+  });
+
+  it("should send a share of requests to a random provider under epsilon-greedy", () => {
+    const outcome = applyAdaptiveRouting([evaluation(1, 0), evaluation(2, 0)], observed, {
+      exploration: "epsilon_greedy",
+      epsilon: 0.2,
+      windowMinutes: 60,
+    }, { random: () => 0.1 });
+
+    expect(outcome.evaluations[0].providerId).toBe(1);
+    expect(outcome.explored).toBe(true);
+    expect(outcome.evaluations[0].reasons).toContain("Exploring: epsilon-greedy (epsilon 0.2) picked this provider at random");
+  });
+
+  it("should mostly exploit, but still explore untried providers, under Thompson sampling", () => {
+    const random = seeded(42);
+    const firsts: Record<number, number> = { 1: 0, 3: 0, 4: 0 };
+    let explored = 0;
+    // Decent but not outstanding
+    const candidates = {
+      ...observed,
+      4: performance(4, { attempts: 50, errors: 5, p50LatencyMs: 4000, p95LatencyMs: 8000, thumbsUp: 3, thumbsDown: 2 }),
+    };
+
+    for (let i = 0; i < 500; i++) {
+      const outcome = applyAdaptiveRouting(
+        [evaluation(1, 0), evaluation(3, 0), evaluation(4, 0)],
+        candidates,
+        { exploration: "thompson", epsilon: 0, windowMinutes: 60 },
+        { random }
+      );
+      firsts[outcome.evaluations[0].providerId]++;
+      if (outcome.explored) explored++;
+    }
+
+    // Provider 3 has never been tried, so its wide posteriors win some draws
+    expect(firsts[4]).toBeGreaterThan(300);
+    expect(firsts[3]).toBeGreaterThan(0);
+    expect(firsts[1]).toBeLessThan(firsts[3]);
+    expect(explored).toBe(firsts[1] + firsts[3]);
+  });
+});
+
+describe("buildDecisionRecord", () => {
+  it("should record every candidate, with observed stats when adaptive routing scored it", () => {
+    const config = { exploration: "epsilon_greedy" as const, epsilon: 0, windowMinutes: 30 };
+    const outcome = applyAdaptiveRouting([evaluation(1, 60), evaluation(2, 50), evaluation(3, 0, false)], observed, config);
+
+    const record = buildDecisionRecord(outcome.evaluations, config, outcome);
+
+    expect(record).toMatchObject({ strategy: "epsilon_greedy", explored: false, windowMinutes: 30 });
+    expect(record.candidates[0]).toMatchObject({
+      providerId: 2,
+      eligible: true,
+      observed: { attempts: 200, errorRate: 0.01, p95LatencyMs: 2000, thumbsUp: 30, thumbsDown: 1 },
+    });
+    expect(record.candidates[2]).toEqual({ providerId: 3, providerName: "provider-3", eligible: false, totalScore: 0 });
+    expect(buildDecisionRecord([evaluation(1, 60)], null, null)).toEqual({
+      strategy: "static",
+      explored: false,
+      windowMinutes: undefined,
+      candidates: [{ providerId: 1, providerName: "provider-1", eligible: true, totalScore: 60 }],
+    });
+  });
+});
+
+describe("loadProviderPerformance", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateProviderPerformance();
+  });
+
+  it("should combine observations, health checks and feedback, and fall back to stored metrics", async () => {
+    vi.mocked(adaptiveDb.getObservationStats).mockResolvedValueOnce([
+      { providerId: 1, attempts: "40", errors: "4", p50LatencyMs: "900", p95LatencyMs: "2500.5", p50TtftMs: "300" },
+    ]);
+    vi.mocked(adaptiveDb.getHealthCheckCounts).mockResolvedValueOnce([{ providerId: 1, checks: "12", failed: "1" }]);
+    vi.mocked(adaptiveDb.getLatestMetricsByProvider).mockResolvedValueOnce([
+      { providerId: 1, avgLatencyMs: 5000, p95LatencyMs: 9000, errorRate: "0.5", totalRequests: 10 },
+      { providerId: 2, avgLatencyMs: 1200, p95LatencyMs: 3000, errorRate: "20", totalRequests: 90 },
+    ]);
+    vi.mocked(adaptiveDb.getFeedbackCounts).mockResolvedValueOnce([{ providerId: 2, up: "5", down: "1" }]);
+
+    const result = await loadProviderPerformance([1, 2, 3], 60);
+
+    expect(result[1]).toEqual(
+      performance(1, { attempts: 40, errors: 4, p50LatencyMs: 900, p95LatencyMs: 2500.5, p50TtftMs: 300, healthChecks: 12, failedHealthChecks: 1 })
+    );
+    // Nothing observed: the latest metrics period stands in, its 20% error rate over ten attempts
+    expect(result[2]).toEqual(
+      performance(2, { attempts: 10, errors: 2, p50LatencyMs: 1200, p95LatencyMs: 3000, thumbsUp: 5, thumbsDown: 1 })
+    );
+    expect(result[3]).toEqual(emptyPerformance(3));
+
+    await loadProviderPerformance([3, 2, 1], 60);
+    expect(adaptiveDb.getObservationStats).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not fail the request when an observation cannot be recorded", async () => {
+    vi.mocked(adaptiveDb.insertRoutingObservation).mockRejectedValueOnce(new Error("connection lost"));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      recordRoutingObservation({ providerId: 1, success: false, latencyMs: 120, error: new Error("timeout") })
+    ).resolves.toBeUndefined();
+    expect(adaptiveDb.insertRoutingObservation).toHaveBeenCalledWith(
+      expect.objectContaining({ providerId: 1, success: false, errorMessage: "timeout", streaming: false })
+    );
+    consoleError.mockRestore();
+  });
+});
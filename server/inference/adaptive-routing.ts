@@ -0,0 +1,441 @@
+/**
+ * Adaptive Routing
+ *
+ * Workspaces that opt in have the static rule scores adjusted by how each
+ * provider has actually behaved: its error rate, p50/p95 latency and time to
+ * first token over a rolling window of observed attempts (plus recorded health
+ * checks), and thumbs up/down feedback on its chat responses. A provider with
+ * no observations falls back to its latest provider_metrics period, then to a
+ * neutral prior.
+ *
+ * Reliability and quality are Beta posteriors over successes/errors and
+ * up/down votes. Exploration is either Thompson sampling, which scores each
+ * request from a draw of the posteriors so uncertain providers still win
+ * some traffic, or epsilon-greedy, which scores from the posterior means and
+ * sends a share of requests to a random eligible provider.
+ */
+import type { AdaptiveRoutingConfig, RoutingDecisionRecord, RoutingProfile } from "../../drizzle/schema";
+import { getDb } from "../db";
+import type { RoutingEvaluation } from "./routing-rules";
+import * as adaptiveDb from "./adaptive-routing-db";
+
+export const DEFAULT_WINDOW_MINUTES = 60;
+export const DEFAULT_EPSILON = 0.1;
+
+// Points the adaptive rule can add to a provider's static score
+export const ADAPTIVE_WEIGHTS = { reliability: 25, quality: 20, latency: 15 };
+
+// Feedback is sparse, so it is counted over a longer window than latency
+const FEEDBACK_WINDOW_DAYS = 30;
+const STATS_TTL_MS = 30 * 1000;
+const DEFAULT_TARGET_LATENCY_MS = 10000;
+// Attempts a provider_metrics period stands in for when nothing was observed
+const METRICS_PRIOR_ATTEMPTS = 10;
+
+export type AdaptiveStrategy = AdaptiveRoutingConfig["exploration"];
+
+export interface ResolvedAdaptiveConfig {
+  exploration: AdaptiveStrategy;
+  epsilon: number;
+  windowMinutes: number;
+}
+
+export interface ProviderPerformance {
+  providerId: number;
+  attempts: number;
+  errors: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  p50TtftMs: number | null;
+  healthChecks: number;
+  failedHealthChecks: number;
+  thumbsUp: number;
+  thumbsDown: number;
+}
+
+export interface AdaptiveScore {
+  score: number;
+  reliability: number;
+  quality: number;
+  latency: number;
+}
+
+export interface AdaptiveOptions {
+  // Latency the request should meet; p50, p95 and TTFT are scored against it
+  targetLatencyMs?: number;
+  streaming?: boolean;
+  random?: () => number;
+}
+
+export interface AdaptiveOutcome {
+  evaluations: RoutingEvaluation[];
+  explored: boolean;
+  scores: Record<number, AdaptiveScore & { performance: ProviderPerformance }>;
+}
+
+/**
+ * The workspace's adaptive routing settings, or null when it has not opted in
+ */
+export function resolveAdaptiveConfig(profile: RoutingProfile | null): ResolvedAdaptiveConfig | null {
+  const adaptive = profile?.adaptive;
+  if (!adaptive?.enabled) return null;
+  return {
+    exploration: adaptive.exploration ?? "thompson",
+    epsilon: adaptive.epsilon ?? DEFAULT_EPSILON,
+    windowMinutes: adaptive.windowMinutes ?? DEFAULT_WINDOW_MINUTES,
+  };
+}
+
+export function emptyPerformance(providerId: number): ProviderPerformance {
+  return {
+    providerId,
+    attempts: 0,
+    errors: 0,
+    p50LatencyMs: null,
+    p95LatencyMs: null,
+    p50TtftMs: null,
+    healthChecks: 0,
+    failedHealthChecks: 0,
+    thumbsUp: 0,
+    thumbsDown: 0,
+  };
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+function sampleNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia-Tsang
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+function posteriorMean(alpha: number, beta: number): number {
+  return alpha / (alpha + beta);
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * 0..1, 0.5 when the provider is exactly on target: p50 against half the
+ * target, p95 against the target and, when streaming, time to first token
+ * against a fifth of it. Providers with no latency data score 0.5.
+ */
+export function latencyScore(performance: ProviderPerformance, targetMs: number, streaming: boolean): number {
+  const parts: number[] = [];
+  const against = (observed: number, target: number) => target / (target + observed);
+
+  if (performance.p50LatencyMs !== null) parts.push(against(performance.p50LatencyMs, targetMs / 2));
+  if (performance.p95LatencyMs !== null) parts.push(against(performance.p95LatencyMs, targetMs));
+  if (streaming && performance.p50TtftMs !== null) parts.push(against(performance.p50TtftMs, targetMs / 5));
+
+  return parts.length === 0 ? 0.5 : parts.reduce((sum, part) => sum + part, 0) / parts.length;
+}
+
+/**
+ * Score a provider's performance, drawing reliability and quality from their
+ * Beta posteriors with `draw` (a sampler, or the posterior mean)
+ */
+export function scoreProvider(
+  performance: ProviderPerformance,
+  draw: (alpha: number, beta: number) => number,
+  targetLatencyMs: number,
+  streaming: boolean
+): AdaptiveScore {
+  const successes = performance.attempts - performance.errors + performance.healthChecks - performance.failedHealthChecks;
+  const failures = performance.errors + performance.failedHealthChecks;
+
+  const reliability = draw(successes + 1, failures + 1);
+  const quality = draw(performance.thumbsUp + 1, performance.thumbsDown + 1);
+  const latency = latencyScore(performance, targetLatencyMs, streaming);
+
+  return {
+    score:
+      ADAPTIVE_WEIGHTS.reliability * reliability +
+      ADAPTIVE_WEIGHTS.quality * quality +
+      ADAPTIVE_WEIGHTS.latency * latency,
+    reliability,
+    quality,
+    latency,
+  };
+}
+
+function describeScore(performance: ProviderPerformance, score: AdaptiveScore): string {
+  const observed =
+    performance.attempts > 0
+      ? [
+          `${performance.attempts} attempts`,
+          `${((performance.errors / performance.attempts) * 100).toFixed(1)}% errors`,
+          performance.p95LatencyMs !== null ? `p95 ${Math.round(performance.p95LatencyMs)}ms` : null,
+          performance.p50TtftMs !== null ? `TTFT ${Math.round(performance.p50TtftMs)}ms` : null,
+          `${performance.thumbsUp} up/${performance.thumbsDown} down`,
+        ]
+          .filter(Boolean)
+          .join(", ")
+      : "no observations";
+
+  return (
+    `Adaptive score ${score.score.toFixed(1)}: reliability ${score.reliability.toFixed(2)}, ` +
+    `quality ${score.quality.toFixed(2)}, latency ${score.latency.toFixed(2)} (${observed})`
+  );
+}
+
+/**
+ * Add each eligible provider's adaptive score to its evaluation and re-rank.
+ * Under epsilon-greedy a random eligible provider is moved to the front with
+ * probability epsilon; under Thompson sampling the request explores whenever
+ * the draw puts a provider other than the best expected one first.
+ */
+export function applyAdaptiveRouting(
+  evaluations: RoutingEvaluation[],
+  performance: Record<number, ProviderPerformance>,
+  config: ResolvedAdaptiveConfig,
+  options: AdaptiveOptions = {}
+): AdaptiveOutcome {
+  const random = options.random ?? Math.random;
+  const targetMs = options.targetLatencyMs ?? DEFAULT_TARGET_LATENCY_MS;
+  const streaming = options.streaming ?? false;
+  const sample = (alpha: number, beta: number) => sampleBeta(alpha, beta, random);
+
+  const eligible = evaluations.filter(e => e.eligible);
+  const ineligible = evaluations.filter(e => !e.eligible);
+  const scores: AdaptiveOutcome["scores"] = {};
+  const expected: Record<number, number> = {};
+
+  for (const evaluation of eligible) {
+    const observed = performance[evaluation.providerId] ?? emptyPerformance(evaluation.providerId);
+    const mean = scoreProvider(observed, posteriorMean, targetMs, streaming);
+    const score = config.exploration === "thompson" ? scoreProvider(observed, sample, targetMs, streaming) : mean;
+
+    const reason = describeScore(observed, score);
+    evaluation.ruleResults.adaptive = { eligible: true, score: score.score, reason };
+    evaluation.reasons.push(reason);
+    expected[evaluation.providerId] = evaluation.totalScore + mean.score;
+    evaluation.totalScore += score.score;
+    scores[evaluation.providerId] = { ...score, performance: observed };
+  }
+
+  eligible.sort((a, b) => b.totalScore - a.totalScore);
+
+  let explored = false;
+  if (eligible.length > 1) {
+    if (config.exploration === "epsilon_greedy" && random() < config.epsilon) {
+      const [chosen] = eligible.splice(1 + Math.floor(random() * (eligible.length - 1)), 1);
+      eligible.unshift(chosen);
+      chosen.reasons.push(`Exploring: epsilon-greedy (epsilon ${config.epsilon}) picked this provider at random`);
+      explored = true;
+    } else if (config.exploration === "thompson") {
+      const best = eligible.reduce((a, b) => (expected[b.providerId] > expected[a.providerId] ? b : a));
+      if (best !== eligible[0]) {
+        eligible[0].reasons.push(`Exploring: Thompson sampling drew this provider above ${best.providerName}`);
+        explored = true;
+      }
+    }
+  }
+
+  return { evaluations: [...eligible, ...ineligible], explored, scores };
+}
+
+/**
+ * What a routing decision records in the audit log
+ */
+export function buildDecisionRecord(
+  evaluations: RoutingEvaluation[],
+  config: ResolvedAdaptiveConfig | null,
+  outcome: AdaptiveOutcome | null
+): RoutingDecisionRecord {
+  return {
+    strategy: config?.exploration ?? "static",
+    explored: outcome?.explored ?? false,
+    windowMinutes: config?.windowMinutes,
+    candidates: evaluations.map(evaluation => {
+      const adaptive = outcome?.scores[evaluation.providerId];
+      const candidate: RoutingDecisionRecord["candidates"][number] = {
+        providerId: evaluation.providerId,
+        providerName: evaluation.providerName,
+        eligible: evaluation.eligible,
+        totalScore: evaluation.totalScore,
+      };
+      if (adaptive) {
+        const observed = adaptive.performance;
+        candidate.adaptiveScore = adaptive.score;
+        candidate.reliability = adaptive.reliability;
+        candidate.quality = adaptive.quality;
+        candidate.latency = adaptive.latency;
+        candidate.observed = {
+          attempts: observed.attempts,
+          errorRate: observed.attempts > 0 ? observed.errors / observed.attempts : null,
+          p50LatencyMs: observed.p50LatencyMs,
+          p95LatencyMs: observed.p95LatencyMs,
+          p50TtftMs: observed.p50TtftMs,
+          thumbsUp: observed.thumbsUp,
+          thumbsDown: observed.thumbsDown,
+        };
+      }
+      return candidate;
+    }),
+  };
+}
+
+// ============================================================================
+// Observed performance
+// ============================================================================
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+const performanceCache: Record<string, { performance: Record<number, ProviderPerformance>; loadedAt: number }> = {};
+
+/**
+ * Rolling-window performance of some providers, cached briefly so routing
+ * does not query it on every request
+ */
+export async function loadProviderPerformance(
+  providerIds: number[],
+  windowMinutes: number
+): Promise<Record<number, ProviderPerformance>> {
+  const key = `${windowMinutes}:${providerIds.slice().sort((a, b) => a - b).join(",")}`;
+  const cached = performanceCache[key];
+  if (cached && Date.now() - cached.loadedAt < STATS_TTL_MS) return cached.performance;
+
+  const performance: Record<number, ProviderPerformance> = {};
+  providerIds.forEach(id => {
+    performance[id] = emptyPerformance(id);
+  });
+  if (!getDb() || providerIds.length === 0) return performance;
+
+  const since = new Date(Date.now() - windowMinutes * 60 * 1000);
+  const feedbackSince = new Date(Date.now() - FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const [observations, healthChecks, metrics, feedback] = await Promise.all([
+    adaptiveDb.getObservationStats(providerIds, since),
+    adaptiveDb.getHealthCheckCounts(providerIds, since),
+    adaptiveDb.getLatestMetricsByProvider(providerIds),
+    adaptiveDb.getFeedbackCounts(providerIds, feedbackSince),
+  ]);
+
+  for (const row of observations) {
+    Object.assign(performance[row.providerId], {
+      attempts: Number(row.attempts),
+      errors: Number(row.errors),
+      p50LatencyMs: toNumber(row.p50LatencyMs),
+      p95LatencyMs: toNumber(row.p95LatencyMs),
+      p50TtftMs: toNumber(row.p50TtftMs),
+    });
+  }
+  for (const row of healthChecks) {
+    performance[row.providerId].healthChecks = Number(row.checks);
+    performance[row.providerId].failedHealthChecks = Number(row.failed);
+  }
+  for (const row of metrics) {
+    const entry = performance[row.providerId];
+    if (entry.attempts > 0) continue;
+    // errorRate is stored either as a fraction or a percentage
+    let errorRate = toNumber(row.errorRate);
+    if (errorRate !== null && errorRate > 1) errorRate /= 100;
+    entry.p50LatencyMs = row.avgLatencyMs;
+    entry.p95LatencyMs = row.p95LatencyMs;
+    if (errorRate !== null) {
+      entry.attempts = METRICS_PRIOR_ATTEMPTS;
+      entry.errors = Math.round(errorRate * METRICS_PRIOR_ATTEMPTS);
+    }
+  }
+  for (const row of feedback) {
+    performance[row.providerId].thumbsUp = Number(row.up);
+    performance[row.providerId].thumbsDown = Number(row.down);
+  }
+
+  performanceCache[key] = { performance, loadedAt: Date.now() };
+  return performance;
+}
+
+/**
+ * Drop cached performance so the next routing decision reads fresh stats
+ */
+export function invalidateProviderPerformance(): void {
+  Object.keys(performanceCache).forEach(key => {
+    delete performanceCache[key];
+  });
+}
+
+/**
+ * Record one attempt on a provider. Never throws: a lost observation must
+ * not fail the request it describes.
+ */
+export async function recordRoutingObservation(observation: {
+  providerId: number;
+  workspaceId?: number | null;
+  requestId?: string;
+  success: boolean;
+  streaming?: boolean;
+  latencyMs: number;
+  ttftMs?: number | null;
+  error?: unknown;
+}): Promise<void> {
+  try {
+    if (!getDb()) return;
+    await adaptiveDb.insertRoutingObservation({
+      providerId: observation.providerId,
+      workspaceId: observation.workspaceId ?? null,
+      requestId: observation.requestId,
+      success: observation.success,
+      streaming: observation.streaming ?? false,
+      latencyMs: observation.latencyMs,
+      ttftMs: observation.ttftMs ?? null,
+      errorMessage:
+        observation.error === undefined
+          ? null
+          : (observation.error instanceof Error ? observation.error.message : String(observation.error)).slice(0, 1000),
+    });
+  } catch (error) {
+    console.error("[AdaptiveRouting] Failed to record observation:", error);
+  }
+}
+
+/**
+ * Record a user's thumbs up (1) or down (-1) on a routed response. The
+ * rating counts for the provider that actually served the request.
+ */
+export async function recordRoutingFeedback(feedback: {
+  workspaceId: number;
+  providerId: number;
+  requestId: string;
+  userId: number;
+  rating: 1 | -1;
+}): Promise<void> {
+  await adaptiveDb.upsertRoutingFeedback(feedback);
+  invalidateProviderPerformance();
+}
@@ -0,0 +1,205 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { circuitBreakers, CircuitBreakerRegistry, CircuitOpenError } from "./circuit-breaker";
+import { buildResumeRequest, fallbackManager } from "./fallback-manager";
+import type { ILLMProvider } from "../providers/base";
+import type { GenerationRequest, Token } from "../providers/types";
+
+function clock(start = 0) {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+const fail = (registry: CircuitBreakerRegistry, providerId: number, times: number) => {
+  for (let i = 0; i < times; i++) registry.recordFailure(providerId, new Error("upstream 503"));
+};
+
+describe("CircuitBreakerRegistry", () => {
+  it("should open after consecutive failures and refuse calls until the cooldown passes", async () => {
+    const time = clock();
+    const registry = new CircuitBreakerRegistry(time.now);
+    registry.configure(1, { failureThreshold: 3, openDurationMs: 10000 });
+
+    fail(registry, 1, 2);
+    expect(registry.isAvailable(1)).toBe(true);
+    fail(registry, 1, 1);
+
+    expect(registry.getSnapshot(1)).toMatchObject({
+      state: "open",
+      consecutiveFailures: 3,
+      retryAt: new Date(10000),
+      lastError: "upstream 503",
+    });
+    const call = vi.fn(async () => "ok");
+    await expect(registry.execute(1, call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+
+    time.advance(10000);
+    expect(registry.getSnapshot(1).state).toBe("half_open");
+  });
+
+  it("should open when the failure rate over the window crosses its threshold", () => {
+    const time = clock();
+    const registry = new CircuitBreakerRegistry(time.now);
+    registry.configure(1, { failureThreshold: 100, failureRateThreshold: 0.5, minimumRequests: 4, windowMs: 1000 });
+
+    // Alternating outcomes never build a run of failures
+    registry.recordFailure(1);
+    registry.recordSuccess(1);
+    registry.recordFailure(1);
+    expect(registry.getSnapshot(1).state).toBe("closed");
+    registry.recordSuccess(1);
+    registry.recordFailure(1);
+    expect(registry.getSnapshot(1).state).toBe("open");
+
+    // Outcomes that have left the window no longer count
+    const other = new CircuitBreakerRegistry(time.now);
+    other.configure(2, { failureThreshold: 100, minimumRequests: 4, windowMs: 1000 });
+    fail(other, 2, 3);
+    time.advance(1001);
+    other.recordFailure(2);
+    expect(other.getSnapshot(2)).toMatchObject({ state: "closed", requestsInWindow: 1 });
+  });
+
+  it("should let a limited number of probes through while half-open", () => {
+    const time = clock();
+    const registry = new CircuitBreakerRegistry(time.now);
+    registry.configure(1, { failureThreshold: 1, openDurationMs: 1000, halfOpenMaxProbes: 1, successThreshold: 2 });
+
+    fail(registry, 1, 1);
+    time.advance(1000);
+
+    registry.acquire(1);
+    expect(registry.isAvailable(1)).toBe(false);
+    expect(() => registry.acquire(1)).toThrow(CircuitOpenError);
+    registry.recordSuccess(1);
+    expect(registry.getSnapshot(1).state).toBe("half_open");
+
+    registry.acquire(1);
+    registry.recordSuccess(1);
+    expect(registry.getSnapshot(1).state).toBe("closed");
+
+    // A failed probe opens the circuit again
+    fail(registry, 1, 1);
+    time.advance(1000);
+    registry.acquire(1);
+    registry.recordFailure(1, new Error("still down"));
+    expect(registry.getSnapshot(1)).toMatchObject({ state: "open", retryAt: new Date(3000) });
+  });
+
+  it("should give back a probe slot when the consumer stops reading a stream early", async () => {
+    const time = clock();
+    const registry = new CircuitBreakerRegistry(time.now);
+    registry.configure(1, { failureThreshold: 1, openDurationMs: 1000 });
+    fail(registry, 1, 1);
+    time.advance(1000);
+
+    async function* tokens() {
+      yield "a";
+      yield "b";
+    }
+    for await (const token of registry.guardStream(1, tokens)) {
+      expect(token).toBe("a");
+      break;
+    }
+
+    expect(registry.getSnapshot(1).state).toBe("half_open");
+    expect(registry.isAvailable(1)).toBe(true);
+  });
+
+  it("should fall back to the defaults once an override is removed", () => {
+    const registry = new CircuitBreakerRegistry();
+    registry.configure(1, { failureThreshold: 2 });
+    expect(registry.settings(1).failureThreshold).toBe(2);
+    registry.configure(1, null);
+    expect(registry.settings(1).failureThreshold).toBe(5);
+  });
+});
+
+describe("fallbackManager.generateStream", () => {
+  const request: GenerationRequest = { messages: [{ role: "user", content: "Count to four" }] };
+
+  const token = (content: string, isComplete = false): Token => ({ content, isComplete });
+
+  // A provider that streams its tokens, then fails when failAfter is set
+  const provider = (id: number, tokens: string[], failAfter = false) => {
+    const requests: GenerationRequest[] = [];
+    const mock = {
+      id,
+      healthCheck: vi.fn(async () => ({ healthy: true })),
+      async *generateStream(req: GenerationRequest) {
+        requests.push(req);
+        for (const content of tokens) yield token(content);
+        if (failAfter) throw new Error(`provider ${id} dropped the connection`);
+        yield token("", true);
+      },
+    };
+    return { provider: mock as unknown as ILLMProvider, requests };
+  };
+
+  const collect = async (stream: AsyncGenerator<Token, void, unknown>) => {
+    let text = "";
+    for await (const t of stream) text += t.content;
+    return text;
+  };
+
+  beforeEach(() => {
+    [101, 102, 103].forEach(id => circuitBreakers.reset(id));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should continue a broken stream on the next provider with the partial output as a prefix", async () => {
+    const primary = provider(101, ["one, ", "two, "], true);
+    const fallback = provider(102, ["three, ", "four"]);
+
+    const text = await collect(
+      fallbackManager.generateStream(
+        { primary: primary.provider, fallbacks: [fallback.provider], config: { retryDelay: 0, resumeMidStream: true } },
+        request
+      )
+    );
+
+    expect(text).toBe("one, two, three, four");
+    expect(fallback.requests[0]).toEqual(buildResumeRequest(request, "one, two, "));
+    expect(fallback.requests[0].messages[1]).toEqual({ role: "assistant", content: "one, two, " });
+    expect(circuitBreakers.getSnapshot(101).consecutiveFailures).toBe(1);
+  });
+
+  it("should end the stream rather than repeat output when resuming is off", async () => {
+    const primary = provider(101, ["one, "], true);
+    const fallback = provider(102, ["one, two"]);
+
+    await expect(
+      collect(
+        fallbackManager.generateStream(
+          { primary: primary.provider, fallbacks: [fallback.provider], config: { retryDelay: 0 } },
+          request
+        )
+      )
+    ).rejects.toThrow("provider 101 dropped the connection");
+    expect(fallback.requests).toHaveLength(0);
+  });
+
+  it("should skip providers whose circuit is open", async () => {
+    circuitBreakers.configure(101, { failureThreshold: 1 });
+    circuitBreakers.recordFailure(101);
+    const primary = provider(101, ["never"]);
+    const fallback = provider(102, ["from the fallback"]);
+
+    const text = await collect(
+      fallbackManager.generateStream(
+        { primary: primary.provider, fallbacks: [fallback.provider], config: { retryDelay: 0 } },
+        request
+      )
+    );
+
+    expect(text).toBe("from the fallback");
+    expect(primary.requests).toHaveLength(0);
+    circuitBreakers.configure(101, null);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Provider Circuit Breakers
+ *
+ * One breaker per provider, shared by the fallback manager, the hybrid router
+ * and the provider router, so a provider that keeps failing stops costing
+ * every request a timeout:
+ * - closed: requests flow; failures are counted
+ * - open: requests are refused straight away until the cooldown has passed
+ * - half_open: a few probe requests are let through; enough successes close
+ *   the circuit again, any failure re-opens it
+ *
+ * A circuit opens after a run of consecutive failures, or when the failure
+ * rate over a rolling window crosses its threshold once the window holds
+ * enough requests. Thresholds have defaults and can be overridden per
+ * provider (providers.limits.circuitBreaker).
+ */
+import type { CircuitBreakerLimits } from "../../drizzle/schema";
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitBreakerSettings = Required<CircuitBreakerLimits>;
+
+export const DEFAULT_CIRCUIT_SETTINGS: CircuitBreakerSettings = {
+  failureThreshold: 5,
+  failureRateThreshold: 0.5,
+  minimumRequests: 10,
+  windowMs: 60 * 1000,
+  openDurationMs: 30 * 1000,
+  halfOpenMaxProbes: 1,
+  successThreshold: 2,
+};
+
+export interface CircuitSnapshot {
+  providerId: number;
+  state: CircuitState;
+  consecutiveFailures: number;
+  requestsInWindow: number;
+  failureRate: number | null;
+  openedAt: Date | null;
+  // When an open circuit starts letting probes through
+  retryAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  settings: CircuitBreakerSettings;
+}
+
+/**
+ * Thrown instead of calling a provider whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly providerId: number,
+    public readonly retryAt: Date | null
+  ) {
+    super(
+      `Circuit open for provider ${providerId}` +
+        (retryAt ? `, retrying after ${retryAt.toISOString()}` : '')
+    );
+    this.name = 'CircuitOpenError';
+  }
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  outcomes: Array<{ at: number; success: boolean }>;
+  openedAt: number | null;
+  probesInFlight: number;
+  probeSuccesses: number;
+  lastFailureAt: number | null;
+  lastError: string | null;
+}
+
+function newCircuit(): Circuit {
+  return {
+    state: 'closed',
+    consecutiveFailures: 0,
+    outcomes: [],
+    openedAt: null,
+    probesInFlight: 0,
+    probeSuccesses: 0,
+    lastFailureAt: null,
+    lastError: null,
+  };
+}
+
+export class CircuitBreakerRegistry {
+  private circuits: Record<number, Circuit> = {};
+  private overrides: Record<number, CircuitBreakerLimits> = {};
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Override a provider's thresholds; null restores the defaults
+   */
+  configure(providerId: number, limits: CircuitBreakerLimits | null | undefined): void {
+    if (limits) {
+      this.overrides[providerId] = limits;
+    } else {
+      delete this.overrides[providerId];
+    }
+  }
+
+  settings(providerId: number): CircuitBreakerSettings {
+    return { ...DEFAULT_CIRCUIT_SETTINGS, ...this.overrides[providerId] };
+  }
+
+  /**
+   * Whether a request to the provider would be let through right now. Does
+   * not take a half-open probe slot; use acquire() before calling.
+   */
+  isAvailable(providerId: number): boolean {
+    const circuit = this.circuits[providerId];
+    if (!circuit) return true;
+    this.refresh(providerId, circuit);
+    if (circuit.state === 'open') return false;
+    if (circuit.state === 'half_open') return circuit.probesInFlight < this.settings(providerId).halfOpenMaxProbes;
+    return true;
+  }
+
+  /**
+   * Take permission to call the provider, or throw CircuitOpenError. Every
+   * acquire() must be followed by recordSuccess(), recordFailure() or release().
+   */
+  acquire(providerId: number): void {
+    const circuit = this.circuit(providerId);
+    this.refresh(providerId, circuit);
+
+    if (circuit.state === 'open') {
+      throw new CircuitOpenError(providerId, this.retryAt(providerId, circuit));
+    }
+    if (circuit.state === 'half_open') {
+      if (circuit.probesInFlight >= this.settings(providerId).halfOpenMaxProbes) {
+        throw new CircuitOpenError(providerId, null);
+      }
+      circuit.probesInFlight++;
+    }
+  }
+
+  /**
+   * Give back an acquired probe slot without an outcome (a cancelled request)
+   */
+  release(providerId: number): void {
+    const circuit = this.circuits[providerId];
+    if (circuit && circuit.probesInFlight > 0) circuit.probesInFlight--;
+  }
+
+  recordSuccess(providerId: number): void {
+    const circuit = this.circuit(providerId);
+    const settings = this.settings(providerId);
+    this.record(circuit, settings, true);
+    circuit.consecutiveFailures = 0;
+
+    if (circuit.state === 'half_open') {
+      this.release(providerId);
+      circuit.probeSuccesses++;
+      if (circuit.probeSuccesses >= settings.successThreshold) {
+        console.log(`[CircuitBreaker] Provider ${providerId} recovered, circuit closed`);
+        circuit.state = 'closed';
+        circuit.openedAt = null;
+        circuit.outcomes = [];
+      }
+    }
+  }
+
+  recordFailure(providerId: number, error?: unknown): void {
+    const circuit = this.circuit(providerId);
+    const settings = this.settings(providerId);
+    this.record(circuit, settings, false);
+    circuit.consecutiveFailures++;
+    circuit.lastFailureAt = this.now();
+    circuit.lastError = error === undefined ? null : error instanceof Error ? error.message : String(error);
+
+    if (circuit.state === 'half_open') {
+      this.release(providerId);
+      this.open(providerId, circuit, 'probe failed');
+      return;
+    }
+
+    if (circuit.state === 'closed') {
+      const failures = circuit.outcomes.filter(o => !o.success).length;
+      if (circuit.consecutiveFailures >= settings.failureThreshold) {
+        this.open(providerId, circuit, `${circuit.consecutiveFailures} consecutive failures`);
+      } else if (
+        circuit.outcomes.length >= settings.minimumRequests &&
+        failures / circuit.outcomes.length >= settings.failureRateThreshold
+      ) {
+        this.open(providerId, circuit, `${failures}/${circuit.outcomes.length} requests failed`);
+      }
+    }
+  }
+
+  /**
+   * Run a call through the provider's breaker
+   */
+  async execute<T>(providerId: number, call: () => Promise<T>): Promise<T> {
+    this.acquire(providerId);
+    try {
+      const result = await call();
+      this.recordSuccess(providerId);
+      return result;
+    } catch (error) {
+      this.recordFailure(providerId, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pass a stream through the provider's breaker. A stream the consumer stops
+   * reading early counts as neither success nor failure.
+   */
+  async *guardStream<T>(providerId: number, stream: () => AsyncIterable<T>): AsyncGenerator<T, void, unknown> {
+    this.acquire(providerId);
+    let settled = false;
+    try {
+      yield* stream();
+      settled = true;
+      this.recordSuccess(providerId);
+    } catch (error) {
+      settled = true;
+      this.recordFailure(providerId, error);
+      throw error;
+    } finally {
+      if (!settled) this.release(providerId);
+    }
+  }
+
+  /**
+   * Close a provider's circuit and forget its history
+   */
+  reset(providerId: number): void {
+    delete this.circuits[providerId];
+  }
+
+  getSnapshot(providerId: number): CircuitSnapshot {
+    const circuit = this.circuits[providerId] ?? newCircuit();
+    this.refresh(providerId, circuit);
+    const settings = this.settings(providerId);
+    const outcomes = this.inWindow(circuit, settings);
+    const failures = outcomes.filter(o => !o.success).length;
+
+    return {
+      providerId,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      requestsInWindow: outcomes.length,
+      failureRate: outcomes.length > 0 ? failures / outcomes.length : null,
+      openedAt: circuit.openedAt !== null ? new Date(circuit.openedAt) : null,
+      retryAt: this.retryAt(providerId, circuit),
+      lastFailureAt: circuit.lastFailureAt !== null ? new Date(circuit.lastFailureAt) : null,
+      lastError: circuit.lastError,
+      settings,
+    };
+  }
+
+  /**
+   * Snapshots of every provider that has a circuit, plus any others asked for
+   */
+  getSnapshots(providerIds: number[] = []): CircuitSnapshot[] {
+    const ids = Object.keys(this.circuits).map(Number);
+    providerIds.forEach(id => {
+      if (ids.indexOf(id) === -1) ids.push(id);
+    });
+    return ids.sort((a, b) => a - b).map(id => this.getSnapshot(id));
+  }
+
+  private circuit(providerId: number): Circuit {
+    if (!this.circuits[providerId]) this.circuits[providerId] = newCircuit();
+    return this.circuits[providerId];
+  }
+
+  // An open circuit whose cooldown has passed starts letting probes through
+  private refresh(providerId: number, circuit: Circuit): void {
+    if (circuit.state !== 'open' || circuit.openedAt === null) return;
+    if (this.now() - circuit.openedAt >= this.settings(providerId).openDurationMs) {
+      circuit.state = 'half_open';
+      circuit.probesInFlight = 0;
+      circuit.probeSuccesses = 0;
+    }
+  }
+
+  private open(providerId: number, circuit: Circuit, reason: string): void {
+    console.warn(`[CircuitBreaker] Opening circuit for provider ${providerId}: ${reason}`);
+    circuit.state = 'open';
+    circuit.openedAt = this.now();
+    circuit.probesInFlight = 0;
+    circuit.probeSuccesses = 0;
+  }
+
+  private record(circuit: Circuit, settings: CircuitBreakerSettings, success: boolean): void {
+    circuit.outcomes.push({ at: this.now(), success });
+    circuit.outcomes = this.inWindow(circuit, settings);
+  }
+
+  private inWindow(circuit: Circuit, settings: CircuitBreakerSettings) {
+    const since = this.now() - settings.windowMs;
+    return circuit.outcomes.filter(o => o.at > since);
+  }
+
+  private retryAt(providerId: number, circuit: Circuit): Date | null {
+    if (circuit.state !== 'open' || circuit.openedAt === null) return null;
+    return new Date(circuit.openedAt + this.settings(providerId).openDurationMs);
+  }
+}
+
+// Singleton instance
+export const circuitBreakers = new CircuitBreakerRegistry();
@@ -1,9 +1,11 @@
 import { BaseProvider, ILLMProvider } from "../providers/base";
 import { GenerationRequest, GenerationResponse, Token } from "../providers/types";
+import { circuitBreakers, CircuitOpenError } from "./circuit-breaker";
 
 /**
  * Fallback Provider Manager
- * Automatically retries failed requests with fallback providers
+ * Automatically retries failed requests with fallback providers, skipping
+ * providers whose circuit breaker is open
  */
 
 export interface FallbackConfig {
@@ -11,6 +13,8 @@ export interface FallbackConfig {
   retryDelay?: number; // ms
   exponentialBackoff?: boolean;
   healthCheckBeforeRetry?: boolean;
+  // Continue a stream that dies partway on the next provider instead of failing
+  resumeMidStream?: boolean;
 }
 
 export interface FallbackChain {
@@ -40,6 +44,7 @@ class FallbackProviderManager {
     retryDelay: 1000,
     exponentialBackoff: true,
     healthCheckBeforeRetry: true,
+    resumeMidStream: false,
   };
 
   /**
@@ -58,6 +63,14 @@ class FallbackProviderManager {
       const provider = allProviders[i];
       const attemptStart = Date.now();
 
+      // Fail fast on providers that keep failing
+      if (!circuitBreakers.isAvailable(provider.id)) {
+        const error = new CircuitOpenError(provider.id, circuitBreakers.getSnapshot(provider.id).retryAt);
+        console.warn(`[FallbackManager] Skipping ${provider.constructor.name}: ${error.message}`);
+        attempts.push({ provider, attempt: i + 1, success: false, error });
+        continue;
+      }
+
       try {
         // Health check before retry (skip for first attempt)
         if (i > 0 && config.healthCheckBeforeRetry) {
@@ -66,18 +79,20 @@ class FallbackProviderManager {
             console.warn(
               `[FallbackManager] Skipping unhealthy provider: ${provider.constructor.name}`
             );
+            const error = new Error("Provider unhealthy");
+            circuitBreakers.recordFailure(provider.id, error);
             attempts.push({
               provider,
               attempt: i + 1,
               success: false,
-              error: new Error("Provider unhealthy"),
+              error,
             });
             continue;
           }
         }
 
         // Execute request
-        const result = await executor(provider);
+        const result = await circuitBreakers.execute(provider.id, () => executor(provider));
         const latencyMs = Date.now() - attemptStart;
 
         attempts.push({
@@ -113,7 +128,7 @@ class FallbackProviderManager {
         );
 
         // If not the last provider, wait before retry
-        if (i < allProviders.length - 1) {
+        if (i < allProviders.length - 1 && !(error instanceof CircuitOpenError)) {
           const delay = config.exponentialBackoff
             ? config.retryDelay * Math.pow(2, i)
             : config.retryDelay;
@@ -144,7 +159,10 @@ class FallbackProviderManager {
   }
 
   /**
-   * Generate stream with fallback (complex, tries each provider until one works)
+   * Generate stream with fallback. A provider that fails before its first
+   * token is replaced by the next one. Once output has reached the consumer
+   * the stream can only move on when resumeMidStream is set: the next
+   * provider is asked to continue from the partial output.
    */
   public async *generateStream(
     chain: FallbackChain,
@@ -152,10 +170,17 @@ class FallbackProviderManager {
   ): AsyncGenerator<Token, void, unknown> {
     const config = { ...this.defaultConfig, ...chain.config };
     const allProviders = [chain.primary, ...chain.fallbacks];
+    let partial = '';
+    let sawToolCalls = false;
 
     for (let i = 0; i < allProviders.length; i++) {
       const provider = allProviders[i];
 
+      if (!circuitBreakers.isAvailable(provider.id)) {
+        console.warn(`[FallbackManager] Skipping ${provider.constructor.name}: circuit open`);
+        continue;
+      }
+
       try {
         // Health check before retry
         if (i > 0 && config.healthCheckBeforeRetry) {
@@ -164,16 +189,26 @@ class FallbackProviderManager {
             console.warn(
               `[FallbackManager] Skipping unhealthy provider: ${provider.constructor.name}`
             );
+            circuitBreakers.recordFailure(provider.id, new Error("Provider unhealthy"));
             continue;
           }
         }
 
         console.log(
-          `[FallbackManager] Streaming with ${provider.constructor.name} (attempt ${i + 1}/${allProviders.length})`
+          `[FallbackManager] ${partial ? 'Resuming' : 'Streaming'} with ${provider.constructor.name} (attempt ${i + 1}/${allProviders.length})`
         );
 
         // Try to stream
-        yield* provider.generateStream(request);
+        const attemptRequest = partial ? buildResumeRequest(request, partial) : request;
+        for await (const token of circuitBreakers.guardStream(provider.id, () => provider.generateStream(attemptRequest))) {
+          if (!token.isComplete) {
+            partial += token.content;
+          }
+          if (token.toolCalls?.length) {
+            sawToolCalls = true;
+          }
+          yield token;
+        }
         return; // Success
       } catch (error) {
         console.warn(
@@ -181,8 +216,13 @@ class FallbackProviderManager {
           (error as Error).message
         );
 
+        // The consumer already has part of the answer; restarting would repeat it
+        if (sawToolCalls || (partial && !config.resumeMidStream)) {
+          throw error;
+        }
+
         // If not the last provider, wait before retry
-        if (i < allProviders.length - 1) {
+        if (i < allProviders.length - 1 && !(error instanceof CircuitOpenError)) {
           const delay = config.exponentialBackoff
             ? config.retryDelay * Math.pow(2, i)
             : config.retryDelay;
@@ -268,5 +308,17 @@ class FallbackProviderManager {
   }
 }
 
+/**
+ * A request that asks a provider to continue a partial answer: the partial
+ * output is appended as an assistant turn, which providers that support
+ * assistant prefill continue directly
+ */
+export function buildResumeRequest<T extends Pick<GenerationRequest, 'messages'>>(request: T, partial: string): T {
+  return {
+    ...request,
+    messages: [...request.messages, { role: 'assistant' as const, content: partial }],
+  };
+}
+
 // Singleton instance
 export const fallbackManager = new FallbackProviderManager();
@@ -1,6 +1,7 @@
 import { BaseProvider } from "../providers/base";
 import { GenerationRequest, GenerationResponse, Token } from "../providers/types";
 import { resourceManager } from "./resource-manager";
+import { circuitBreakers } from "./circuit-breaker";
 import type { RoutingProfile, ProviderCapability, ProviderPolicyTag } from "../../drizzle/schema";
 
 // Model quality tiers for routing score (higher = better quality)
@@ -17,6 +18,7 @@ const DEFAULT_QUALITY_SCORE = 10;
  * - Resource constraints
  * - Cost optimization
  * - Latency requirements
+ * - Circuit breaker state (providers with an open circuit are not routed to)
  */
 
 export interface RoutingStrategy {
@@ -124,6 +126,11 @@ class HybridProviderRouter {
     const strategy = this.config.strategy;
     const isLocal = this.config.localProviders.includes(provider);
 
+    // Providers that keep failing are skipped without a health check
+    if (!circuitBreakers.isAvailable(provider.id)) {
+      return 0;
+    }
+
     // Check if provider is healthy
     const health = await provider.healthCheck();
     if (!health.healthy) {
@@ -365,7 +372,7 @@ class HybridProviderRouter {
     });
 
     try {
-      return await decision.provider.generate(request);
+      return await circuitBreakers.execute(decision.provider.id, () => decision.provider.generate(request));
     } catch (error) {
       // Fallback logic
       if (this.config?.fallbackEnabled) {
@@ -388,7 +395,7 @@ class HybridProviderRouter {
     });
 
     try {
-      yield* decision.provider.generateStream(request);
+      yield* circuitBreakers.guardStream(decision.provider.id, () => decision.provider.generateStream(request));
     } catch (error) {
       // Fallback for streaming is complex, just throw for now
       throw error;
@@ -410,11 +417,12 @@ class HybridProviderRouter {
     const fallbackProviders = allProviders.filter(p => p !== failedProvider);
 
     for (const provider of fallbackProviders) {
+      if (!circuitBreakers.isAvailable(provider.id)) continue;
       try {
         const health = await provider.healthCheck();
         if (health.healthy) {
           console.log("[HybridRouter] Falling back to:", provider.constructor.name);
-          return await provider.generate(request);
+          return await circuitBreakers.execute(provider.id, () => provider.generate(request));
         }
       } catch (error) {
         console.warn("[HybridRouter] Fallback provider failed:", provider.constructor.name);
@@ -7,16 +7,51 @@
  * - Cloud fallback when allowed
  * - Policy-based constraint enforcement
  * - Workspace-level routing profiles
+ * - Usage budgets checked before dispatch, reserved and settled per request
+ * - Opt-in adaptive scoring from observed latency, errors and chat feedback
+ * - Per-provider circuit breakers, and optional mid-stream resume on fallback
+ * - Response cache in front of routing, exact or semantic per workspace
  * - Full audit trail for every routing decision
  */
 
-import { v4 as uuidv4 } from "uuid";
+import { randomUUID } from "crypto";
 import { hybridRouter, type RoutingDecision } from "./hybrid-router";
-import { fallbackManager, type FallbackChain, type FallbackResult } from "./fallback-manager";
+import { buildResumeRequest, fallbackManager, type FallbackChain, type FallbackResult } from "./fallback-manager";
+import { circuitBreakers, CircuitOpenError } from "./circuit-breaker";
 import { routingRulesEngine, type TaskHints, type ProviderRoutingInfo, type RoutingEvaluation } from "./routing-rules";
 import { getProviderRegistry } from "../providers/registry";
-import type { Message, GenerationResponse, Token } from "../providers/types";
-import type { RoutingProfile, ProviderCapability } from "../../drizzle/schema";
+import { generateWithTools, generateStreamWithTools } from "../providers/tool-calling";
+import { hasImageContent } from "../providers/content";
+import {
+  BudgetExceededError,
+  checkBudgets,
+  countUsage,
+  estimateRequest,
+  rankByCost,
+  releaseUsage,
+  reserveUsage,
+  settleUsage,
+  type BudgetDecision,
+  type RequestEstimate,
+} from "../providers/budgets";
+import {
+  applyAdaptiveRouting,
+  buildDecisionRecord,
+  loadProviderPerformance,
+  recordRoutingObservation,
+  resolveAdaptiveConfig,
+  type AdaptiveOutcome,
+} from "./adaptive-routing";
+import {
+  lookupResponseCache,
+  replayCachedResponse,
+  storeCachedResponse,
+  type CacheHit,
+  type CacheLookup,
+} from "./response-cache";
+import type { ILLMProvider } from "../providers/base";
+import type { Message, GenerationResponse, Token, ToolCall, ToolChoice, ToolDefinition } from "../providers/types";
+import type { RoutingProfile, ProviderCapability, RoutingDecisionRecord } from "../../drizzle/schema";
 import * as providerDb from "../providers/db";
 import { getDb } from "../db";
 import { routingAuditLogs, workspaces } from "../../drizzle/schema";
@@ -29,7 +64,16 @@ export interface RoutingRequest {
   workspaceId: number;
   temperature?: number;
   maxTokens?: number;
+  topP?: number;
+  stopSequences?: string[];
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
   taskHints?: TaskHints;
+  // Run on this provider only, as the caller chose it: no routing rules or
+  // fallback, but circuit breakers and budgets still apply
+  providerId?: number;
+  // Set false to skip the response cache for this request
+  cache?: boolean;
 }
 
 // Routing plan with fallback chain
@@ -42,9 +86,16 @@ export interface RoutingPlan {
     timeoutMs: number;
     streaming: boolean;
     maxTokens?: number;
+    // Continue a stream that dies partway on the next provider in the chain
+    resumeMidStream: boolean;
   };
   auditReasons: string[];
   evaluations: RoutingEvaluation[];
+  decision: RoutingDecisionRecord;
+  budget: {
+    decision: BudgetDecision;
+    estimate: RequestEstimate;
+  };
 }
 
 // Result of routing execution
@@ -54,6 +105,11 @@ export interface RoutingResult {
   actualProviderId: number;
   routeTaken: string;
   latencyMs: number;
+  // Set when the response was served from the response cache
+  cache?: {
+    kind: CacheHit['kind'];
+    similarity?: number;
+  };
 }
 
 // Streaming result
@@ -68,39 +124,69 @@ export interface StreamingRoutingResult {
  */
 class ProviderRouter {
   /**
-   * Resolve a routing plan for a request without executing it
+   * Resolve a routing plan for a request without executing it. Streaming
+   * requests are scored on time to first token under adaptive routing.
    */
-  async resolvePlan(request: RoutingRequest): Promise<RoutingPlan> {
-    const requestId = uuidv4();
+  async resolvePlan(request: RoutingRequest, options: { streaming?: boolean } = {}): Promise<RoutingPlan> {
+    const requestId = randomUUID();
 
     // 1. Get workspace routing profile
     const workspaceProfile = await this.getWorkspaceProfile(request.workspaceId);
 
-    // 2. Get all providers with routing metadata
-    const providers = await this.getProvidersWithMetadata();
-
-    // 3. Determine required capabilities from request
+    // 2. Determine required capabilities from request
     const requiredCapabilities = this.inferRequiredCapabilities(request);
+    const estimate = estimateRequest(request.messages, request.maxTokens);
     const taskHints: TaskHints = {
       ...request.taskHints,
       requiredCapabilities,
+      estimatedTokens: estimate.promptTokens + estimate.completionTokens,
     };
 
-    // 4. Evaluate all providers against rules
-    const evaluations = routingRulesEngine.evaluateProviders(
-      providers,
-      workspaceProfile,
-      taskHints
+    // 3. Evaluate all providers with routing metadata against rules, unless the request chose one
+    let evaluations = request.providerId !== undefined
+      ? this.evaluateChosenProvider(request.providerId)
+      : routingRulesEngine.evaluateProviders(
+          await this.getProvidersWithMetadata(),
+          workspaceProfile,
+          taskHints
+        );
+    evaluations = this.applyCircuitBreakers(evaluations);
+
+    // 3a. Adjust the scores by observed performance when the workspace opted in
+    const adaptiveConfig = resolveAdaptiveConfig(workspaceProfile);
+    let adaptive: AdaptiveOutcome | null = null;
+    if (adaptiveConfig) {
+      try {
+        const performance = await loadProviderPerformance(
+          evaluations.filter(e => e.eligible).map(e => e.providerId),
+          adaptiveConfig.windowMinutes
+        );
+        adaptive = applyAdaptiveRouting(evaluations, performance, adaptiveConfig, {
+          targetLatencyMs: request.taskHints?.maxLatencyMs,
+          streaming: options.streaming,
+        });
+        evaluations = adaptive.evaluations;
+      } catch (error) {
+        console.warn('[ProviderRouter] Adaptive routing unavailable, using static scores:', error);
+      }
+    }
+
+    // 3b. Check the workspace's usage budgets (throws on a spent hard-stop budget)
+    const budget = await checkBudgets(
+      { workspaceId: request.workspaceId },
+      evaluations.filter(e => e.eligible).map(e => e.providerId),
+      estimate
     );
+    evaluations = this.applyBudgets(evaluations, budget, estimate);
 
-    // 5. Build fallback chain
+    // 4. Build fallback chain
     const maxHops = workspaceProfile?.fallback?.maxHops ?? 3;
     const fallbackEnabled = workspaceProfile?.fallback?.enabled ?? true;
     const fallbackChain = fallbackEnabled
       ? routingRulesEngine.buildFallbackChain(evaluations, maxHops)
       : [];
 
-    // 6. Select primary provider
+    // 5. Select primary provider
     const eligibleProviders = evaluations.filter(e => e.eligible);
     if (eligibleProviders.length === 0) {
       throw new Error("No eligible providers found for request");
@@ -108,7 +194,7 @@ class ProviderRouter {
 
     const primary = eligibleProviders[0];
 
-    // 7. Collect audit reasons
+    // 6. Collect audit reasons
     const auditReasons = primary.reasons;
 
     return {
@@ -120,9 +206,12 @@ class ProviderRouter {
         timeoutMs: request.taskHints?.maxLatencyMs || 30000,
         streaming: true,
         maxTokens: request.maxTokens,
+        resumeMidStream: workspaceProfile?.fallback?.resumeMidStream ?? false,
       },
       auditReasons,
       evaluations,
+      decision: buildDecisionRecord(evaluations, adaptive ? adaptiveConfig : null, adaptive),
+      budget: { decision: budget, estimate },
     };
   }
 
@@ -131,6 +220,11 @@ class ProviderRouter {
    */
   async execute(request: RoutingRequest): Promise<RoutingResult> {
     const startTime = Date.now();
+    const cached = await this.lookupCache(request);
+    if (cached.hit) {
+      return this.serveFromCache(request, cached.hit, startTime, false);
+    }
+
     const plan = await this.resolvePlan(request);
 
     // Build provider chain for fallback manager
@@ -154,17 +248,30 @@ class ProviderRouter {
       },
     };
 
+    // Hold the request's estimated usage against the workspace's budgets
+    const reservation = await this.reserve(request, plan);
+
     // Execute with fallback
-    const result: FallbackResult<GenerationResponse> = await fallbackManager.executeWithFallback(
-      chain,
-      (provider) => provider.generate({
-        messages: request.messages,
-        model: request.model,
-        temperature: request.temperature,
-        maxTokens: request.maxTokens,
-        workspaceId: request.workspaceId,
-      })
-    );
+    let result: FallbackResult<GenerationResponse>;
+    try {
+      result = await fallbackManager.executeWithFallback(
+        chain,
+        (provider) => this.observe(request, plan, provider.id, () => generateWithTools(provider, {
+          messages: request.messages,
+          model: request.model,
+          temperature: request.temperature,
+          maxTokens: request.maxTokens,
+          topP: request.topP,
+          stopSequences: request.stopSequences,
+          tools: request.tools,
+          toolChoice: request.toolChoice,
+          workspaceId: request.workspaceId,
+        }))
+      );
+    } catch (error) {
+      await releaseUsage(reservation);
+      throw error;
+    }
 
     const latencyMs = Date.now() - startTime;
 
@@ -172,6 +279,15 @@ class ProviderRouter {
     const actualProviderId = result.finalProvider.id;
     const routeTaken = this.determineRouteTaken(plan, actualProviderId);
 
+    await settleUsage(reservation, {
+      providerId: actualProviderId,
+      model: result.result.model,
+      promptTokens: result.result.usage?.promptTokens ?? 0,
+      completionTokens: result.result.usage?.completionTokens ?? 0,
+      cachedPromptTokens: result.result.usage?.cachedPromptTokens,
+      latencyMs: result.result.latencyMs ?? latencyMs,
+    });
+
     // Log audit record
     await this.logAudit({
       requestId: plan.requestId,
@@ -180,11 +296,14 @@ class ProviderRouter {
       actualProviderId,
       routeTaken,
       auditReasons: plan.auditReasons,
+      decision: plan.decision,
       latencyMs,
       tokensUsed: result.result.usage?.totalTokens,
       estimatedCost: result.result.cost?.toString(),
     });
 
+    await storeCachedResponse(cached.context, { providerId: actualProviderId, response: result.result });
+
     return {
       response: result.result,
       plan,
@@ -199,142 +318,395 @@ class ProviderRouter {
    */
   async *executeStream(request: RoutingRequest): AsyncGenerator<Token, RoutingResult, unknown> {
     const startTime = Date.now();
-    const plan = await this.resolvePlan(request);
-
-    // Get the primary provider
-    const registry = getProviderRegistry();
-    const provider = registry.getProvider(plan.primaryProviderId);
-
-    if (!provider) {
-      throw new Error(`Primary provider ${plan.primaryProviderId} not found in registry`);
+    const cached = await this.lookupCache(request);
+    if (cached.hit) {
+      yield* replayCachedResponse(cached.hit);
+      return this.serveFromCache(request, cached.hit, startTime, true);
     }
 
-    let tokenCount = 0;
-    let fullContent = '';
+    const plan = await this.resolvePlan(request, { streaming: true });
+    const reservation = await this.reserve(request, plan);
 
+    let finished = false;
     try {
-      // Stream from primary provider
-      for await (const token of provider.generateStream({
-        messages: request.messages,
-        model: request.model,
-        temperature: request.temperature,
-        maxTokens: request.maxTokens,
-        workspaceId: request.workspaceId,
-      })) {
-        if (!token.isComplete) {
-          tokenCount++;
-          fullContent += token.content;
-        }
-        yield token;
+      const chunks: string[] = [];
+      const result = yield* this.streamWithFallback(request, plan, startTime, chunks);
+      finished = true;
+      await storeCachedResponse(cached.context, {
+        providerId: result.actualProviderId,
+        response: result.response,
+        chunks,
+      });
+      await settleUsage(reservation, {
+        providerId: result.actualProviderId,
+        model: result.response.model,
+        promptTokens: result.response.usage.promptTokens,
+        completionTokens: result.response.usage.completionTokens,
+        cachedPromptTokens: result.response.usage.cachedPromptTokens,
+        latencyMs: result.latencyMs,
+      });
+      return result;
+    } catch (error) {
+      finished = true;
+      await releaseUsage(reservation);
+      throw error;
+    } finally {
+      // A consumer that stops reading early is charged the reserved estimate
+      if (!finished) {
+        await settleUsage(reservation);
       }
+    }
+  }
 
-      const latencyMs = Date.now() - startTime;
+  /**
+   * Stream from the primary provider, moving down the fallback chain when it
+   * fails. Providers with an open circuit are skipped. A provider that fails
+   * after output has reached the consumer ends the stream, unless the
+   * workspace resumes mid-stream: then the next provider continues from the
+   * partial output.
+   */
+  private async *streamWithFallback(
+    request: RoutingRequest,
+    plan: RoutingPlan,
+    startTime: number,
+    chunks: string[] = []
+  ): AsyncGenerator<Token, RoutingResult, unknown> {
+    const registry = getProviderRegistry();
+    if (!registry.getProvider(plan.primaryProviderId)) {
+      throw new Error(`Primary provider ${plan.primaryProviderId} not found in registry`);
+    }
 
-      // Log audit record
-      await this.logAudit({
-        requestId: plan.requestId,
-        workspaceId: request.workspaceId,
-        primaryProviderId: plan.primaryProviderId,
-        actualProviderId: plan.primaryProviderId,
-        routeTaken: 'PRIMARY',
-        auditReasons: plan.auditReasons,
-        latencyMs,
-        tokensUsed: tokenCount,
-      });
+    const generationRequest = {
+      messages: request.messages,
+      model: request.model,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      topP: request.topP,
+      stopSequences: request.stopSequences,
+      tools: request.tools,
+      toolChoice: request.toolChoice,
+      workspaceId: request.workspaceId,
+    };
+    const chain = [plan.primaryProviderId, ...plan.fallbackChain];
 
-      // Return result info
-      return {
-        response: {
-          id: plan.requestId,
-          content: fullContent,
-          model: request.model || 'unknown',
-          usage: {
-            promptTokens: 0,
-            completionTokens: tokenCount,
-            totalTokens: tokenCount,
-          },
-          finishReason: 'stop',
-          latencyMs,
-        },
-        plan,
-        actualProviderId: plan.primaryProviderId,
-        routeTaken: 'PRIMARY',
-        latencyMs,
-      };
-    } catch (error) {
-      // Try fallback providers
-      for (let i = 0; i < plan.fallbackChain.length; i++) {
-        const fallbackId = plan.fallbackChain[i];
-        const fallbackProvider = registry.getProvider(fallbackId);
+    let fullContent = '';
+    let toolCalls: ToolCall[] | undefined;
+    let firstError: unknown;
+
+    for (let i = 0; i < chain.length; i++) {
+      const providerId = chain[i];
+      const provider = registry.getProvider(providerId);
+      if (!provider) continue;
+
+      if (!circuitBreakers.isAvailable(providerId)) {
+        const circuitError = new CircuitOpenError(providerId, circuitBreakers.getSnapshot(providerId).retryAt);
+        console.warn(`[ProviderRouter] Skipping provider ${providerId}: ${circuitError.message}`);
+        if (firstError === undefined) firstError = circuitError;
+        continue;
+      }
 
-        if (!fallbackProvider) continue;
+      const resumedAt = fullContent.length;
+      let reportedUsage: Token['usage'];
+      let attempted = false;
+      let attemptStart = Date.now();
+      let ttftMs: number | null = null;
 
-        try {
-          const health = await fallbackProvider.healthCheck();
+      try {
+        if (i > 0) {
+          const health = await provider.healthCheck();
           if (!health.healthy) continue;
+          console.log(`[ProviderRouter] ${resumedAt > 0 ? 'Resuming on' : 'Falling back to'} provider ${providerId}`);
+        }
 
-          console.log(`[ProviderRouter] Falling back to provider ${fallbackId}`);
-
-          tokenCount = 0;
-          fullContent = '';
-
-          for await (const token of fallbackProvider.generateStream({
-            messages: request.messages,
-            model: request.model,
-            temperature: request.temperature,
-            maxTokens: request.maxTokens,
-            workspaceId: request.workspaceId,
-          })) {
-            if (!token.isComplete) {
-              tokenCount++;
-              fullContent += token.content;
-            }
-            yield token;
+        attempted = true;
+        attemptStart = Date.now();
+        const attemptRequest = resumedAt > 0 ? buildResumeRequest(generationRequest, fullContent) : generationRequest;
+        for await (const token of circuitBreakers.guardStream(providerId, () => generateStreamWithTools(provider, attemptRequest))) {
+          if (!token.isComplete) {
+            if (ttftMs === null) ttftMs = Date.now() - attemptStart;
+            fullContent += token.content;
+            if (token.content) chunks.push(token.content);
+          }
+          if (token.toolCalls?.length) {
+            toolCalls = token.toolCalls;
           }
+          if (token.usage) {
+            reportedUsage = token.usage;
+          }
+          yield token;
+        }
 
-          const latencyMs = Date.now() - startTime;
-          const routeTaken = `FALLBACK_${i + 1}`;
+        // The provider's own count, unless it has none or only covers the resumed tail
+        let usage = resumedAt === 0 ? reportedUsage : undefined;
+        if (!usage) {
+          const counted = await countUsage(request.messages, fullContent);
+          usage = { ...counted, totalTokens: counted.promptTokens + counted.completionTokens };
+        }
 
-          await this.logAudit({
-            requestId: plan.requestId,
-            workspaceId: request.workspaceId,
-            primaryProviderId: plan.primaryProviderId,
-            actualProviderId: fallbackId,
-            routeTaken,
-            auditReasons: [...plan.auditReasons, `Primary failed, used fallback ${i + 1}`],
+        const latencyMs = Date.now() - startTime;
+        const routeTaken = i === 0 ? 'PRIMARY' : `FALLBACK_${i}`;
+        const auditReasons = i === 0
+          ? plan.auditReasons
+          : [
+              ...plan.auditReasons,
+              resumedAt > 0
+                ? `Stream resumed on fallback ${i} after ${resumedAt} characters`
+                : `Primary failed, used fallback ${i}`,
+            ];
+
+        await recordRoutingObservation({
+          providerId,
+          workspaceId: request.workspaceId,
+          requestId: plan.requestId,
+          success: true,
+          streaming: true,
+          latencyMs: Date.now() - attemptStart,
+          ttftMs,
+        });
+
+        // Log audit record
+        await this.logAudit({
+          requestId: plan.requestId,
+          workspaceId: request.workspaceId,
+          primaryProviderId: plan.primaryProviderId,
+          actualProviderId: providerId,
+          routeTaken,
+          auditReasons,
+          decision: plan.decision,
+          latencyMs,
+          ttftMs,
+          tokensUsed: usage.totalTokens,
+        });
+
+        // Return result info
+        return {
+          response: {
+            id: plan.requestId,
+            content: fullContent,
+            toolCalls,
+            model: request.model || 'unknown',
+            usage,
+            finishReason: toolCalls ? 'tool_calls' : 'stop',
             latencyMs,
-            tokensUsed: tokenCount,
+          },
+          plan,
+          actualProviderId: providerId,
+          routeTaken,
+          latencyMs,
+        };
+      } catch (error) {
+        if (firstError === undefined) firstError = error;
+        if (i > 0) {
+          console.warn(`[ProviderRouter] Fallback ${i} failed:`, error);
+        }
+        if (attempted) {
+          await recordRoutingObservation({
+            providerId,
+            workspaceId: request.workspaceId,
+            requestId: plan.requestId,
+            success: false,
+            streaming: true,
+            latencyMs: Date.now() - attemptStart,
+            ttftMs,
+            error,
           });
+        }
 
-          return {
-            response: {
-              id: plan.requestId,
-              content: fullContent,
-              model: request.model || 'unknown',
-              usage: {
-                promptTokens: 0,
-                completionTokens: tokenCount,
-                totalTokens: tokenCount,
-              },
-              finishReason: 'stop',
-              latencyMs,
-            },
-            plan,
-            actualProviderId: fallbackId,
-            routeTaken,
-            latencyMs,
-          };
-        } catch (fallbackError) {
-          console.warn(`[ProviderRouter] Fallback ${i + 1} failed:`, fallbackError);
-          continue;
+        // The consumer already has part of the answer; restarting would repeat it
+        if (toolCalls || (fullContent.length > 0 && !plan.constraints.resumeMidStream)) {
+          throw error;
         }
       }
+    }
+
+    // All providers failed
+    throw firstError ?? new Error('All providers failed for streaming');
+  }
 
-      // All providers failed
+  /**
+   * Run one attempt on a provider and record how it went
+   */
+  private async observe<T>(
+    request: RoutingRequest,
+    plan: RoutingPlan,
+    providerId: number,
+    attempt: () => Promise<T>
+  ): Promise<T> {
+    const attemptStart = Date.now();
+    const observation = { providerId, workspaceId: request.workspaceId, requestId: plan.requestId };
+    try {
+      const result = await attempt();
+      await recordRoutingObservation({ ...observation, success: true, latencyMs: Date.now() - attemptStart });
+      return result;
+    } catch (error) {
+      await recordRoutingObservation({ ...observation, success: false, latencyMs: Date.now() - attemptStart, error });
       throw error;
     }
   }
 
+  /**
+   * The provider a request chose, in place of the rule evaluations. With no
+   * other provider to fall back to, an open circuit fails the request.
+   */
+  private evaluateChosenProvider(providerId: number): RoutingEvaluation[] {
+    const provider = getProviderRegistry().getProvider(providerId);
+    if (!provider) {
+      throw new Error(`Provider with ID ${providerId} not found`);
+    }
+    if (!circuitBreakers.isAvailable(providerId)) {
+      throw new CircuitOpenError(providerId, circuitBreakers.getSnapshot(providerId).retryAt);
+    }
+
+    const reason = 'Provider chosen by the request';
+    return [{
+      providerId,
+      providerName: provider.name,
+      eligible: true,
+      totalScore: 0,
+      reasons: [reason],
+      ruleResults: { chosen: { eligible: true, score: 0, reason } },
+    }];
+  }
+
+  /**
+   * Take providers whose circuit is open out of the evaluations
+   */
+  private applyCircuitBreakers(evaluations: RoutingEvaluation[]): RoutingEvaluation[] {
+    for (const evaluation of evaluations) {
+      if (!evaluation.eligible || circuitBreakers.isAvailable(evaluation.providerId)) continue;
+
+      const { retryAt } = circuitBreakers.getSnapshot(evaluation.providerId);
+      const reason = `Circuit open after repeated failures - blocked${retryAt ? ` until ${retryAt.toISOString()}` : ''}`;
+      evaluation.eligible = false;
+      evaluation.totalScore = 0;
+      evaluation.ruleResults.circuitBreaker = { eligible: false, score: -1000, reason };
+      evaluation.reasons = [reason];
+    }
+
+    return [...evaluations.filter(e => e.eligible), ...evaluations.filter(e => !e.eligible)];
+  }
+
+  /**
+   * Take providers with a spent budget out of the evaluations, and while a
+   * degrade-mode budget is spent put the cheapest eligible provider first
+   */
+  private applyBudgets(
+    evaluations: RoutingEvaluation[],
+    decision: BudgetDecision,
+    estimate: RequestEstimate
+  ): RoutingEvaluation[] {
+    const blocked = evaluations.filter(e => e.eligible && decision.blockedProviders[e.providerId]);
+    for (const evaluation of blocked) {
+      const reason = decision.blockedProviders[evaluation.providerId];
+      evaluation.eligible = false;
+      evaluation.totalScore = 0;
+      evaluation.ruleResults.budget = { eligible: false, score: -1000, reason };
+      evaluation.reasons = [reason];
+    }
+
+    const eligible = evaluations.filter(e => e.eligible);
+    const ineligible = evaluations.filter(e => !e.eligible);
+    if (eligible.length === 0 && blocked.length > 0) {
+      throw new BudgetExceededError(`No provider is within budget: ${blocked[0].reasons[0]}`);
+    }
+
+    if (!decision.degradeReason) {
+      return [...eligible, ...ineligible];
+    }
+
+    const order = rankByCost(eligible.map(e => e.providerId), estimate);
+    const cheapestFirst = order.map(id => eligible.find(e => e.providerId === id)!);
+    cheapestFirst.forEach(e => e.reasons.push(decision.degradeReason!));
+    return [...cheapestFirst, ...ineligible];
+  }
+
+  /**
+   * Reserve a request's estimated usage on the planned primary provider
+   */
+  private reserve(request: RoutingRequest, plan: RoutingPlan) {
+    return reserveUsage(plan.budget.decision, {
+      workspaceId: request.workspaceId,
+      providerId: plan.primaryProviderId,
+      requestId: plan.requestId,
+      model: request.model,
+      estimate: plan.budget.estimate,
+    });
+  }
+
+  /**
+   * Look the request up in the workspace's response cache
+   */
+  private async lookupCache(request: RoutingRequest): Promise<CacheLookup> {
+    const profile = await this.getWorkspaceProfile(request.workspaceId);
+    return lookupResponseCache(request, profile, { bypass: request.cache === false });
+  }
+
+  /**
+   * Answer a request from a cache hit: no provider is called and no budget
+   * is charged, but the request is still audited
+   */
+  private async serveFromCache(
+    request: RoutingRequest,
+    hit: CacheHit,
+    startTime: number,
+    streaming: boolean
+  ): Promise<RoutingResult> {
+    const registry = getProviderRegistry();
+    const reason = hit.kind === 'exact'
+      ? 'Served from response cache (exact match)'
+      : `Served from response cache (semantic match, similarity ${hit.similarity!.toFixed(3)})`;
+    const routeTaken = hit.kind === 'exact' ? 'CACHE_EXACT' : 'CACHE_SEMANTIC';
+    const plan: RoutingPlan = {
+      requestId: randomUUID(),
+      primaryProviderId: hit.providerId,
+      primaryProviderName: registry.getProvider(hit.providerId)?.name ?? `provider-${hit.providerId}`,
+      fallbackChain: [],
+      constraints: {
+        timeoutMs: request.taskHints?.maxLatencyMs || 30000,
+        streaming,
+        maxTokens: request.maxTokens,
+        resumeMidStream: false,
+      },
+      auditReasons: [reason],
+      evaluations: [],
+      decision: { strategy: 'static', explored: false, candidates: [] },
+      budget: {
+        decision: { statuses: [], blockedProviders: {}, degradeReason: null },
+        estimate: estimateRequest(request.messages, request.maxTokens),
+      },
+    };
+    const latencyMs = Date.now() - startTime;
+
+    await this.logAudit({
+      requestId: plan.requestId,
+      workspaceId: request.workspaceId,
+      primaryProviderId: hit.providerId,
+      actualProviderId: hit.providerId,
+      routeTaken,
+      auditReasons: plan.auditReasons,
+      decision: plan.decision,
+      latencyMs,
+      tokensUsed: 0,
+    });
+
+    return {
+      response: {
+        id: plan.requestId,
+        content: hit.response.content,
+        model: hit.response.model,
+        usage: hit.response.usage,
+        finishReason: hit.response.finishReason as GenerationResponse['finishReason'],
+        latencyMs,
+        cost: 0,
+      },
+      plan,
+      actualProviderId: hit.providerId,
+      routeTaken,
+      latencyMs,
+      cache: { kind: hit.kind, similarity: hit.similarity },
+    };
+  }
+
   /**
    * Get workspace routing profile from database
    */
@@ -355,6 +727,7 @@ class ProviderRouter {
    */
   private async getProvidersWithMetadata(): Promise<ProviderRoutingInfo[]> {
     const providers = await providerDb.getAllProviders();
+    const registry = getProviderRegistry();
 
     return providers.map(p => ({
       id: p.id,
@@ -363,13 +736,29 @@ class ProviderRouter {
       enabled: p.enabled ?? true,
       priority: p.priority ?? 50,
       kind: (p as any).kind || 'cloud',
-      capabilities: (p as any).capabilities || [],
+      capabilities: this.withRuntimeCapabilities((p as any).capabilities || [], registry.getProvider(p.id)),
       policyTags: (p as any).policyTags || [],
       limits: (p as any).limits || null,
       costPer1kTokens: p.costPer1kTokens,
     }));
   }
 
+  /**
+   * Vision support comes from the registered adapter rather than the stored
+   * capability list, so image requests never reach a text-only provider
+   */
+  private withRuntimeCapabilities(
+    capabilities: ProviderCapability[],
+    provider: ILLMProvider | undefined
+  ): ProviderCapability[] {
+    if (!provider) {
+      return capabilities;
+    }
+
+    const withoutVision = capabilities.filter(cap => cap !== 'vision');
+    return provider.getCapabilities().supportsVision ? [...withoutVision, 'vision'] : withoutVision;
+  }
+
   /**
    * Infer required capabilities from request
    */
@@ -379,11 +768,8 @@ class ProviderRouter {
     // Check for streaming (always required for now)
     capabilities.push('streaming');
 
-    // Check for vision content in messages
-    const hasVision = request.messages.some(m =>
-      typeof m.content === 'object' || m.content.includes('[image]')
-    );
-    if (hasVision) {
+    // Image content parts need a vision-capable provider
+    if (hasImageContent(request.messages)) {
       capabilities.push('vision');
     }
 
@@ -416,7 +802,9 @@ class ProviderRouter {
     actualProviderId: number;
     routeTaken: string;
     auditReasons: string[];
+    decision?: RoutingDecisionRecord;
     latencyMs: number;
+    ttftMs?: number | null;
     tokensUsed?: number;
     estimatedCost?: string;
   }): Promise<void> {
@@ -431,7 +819,9 @@ class ProviderRouter {
         actualProviderId: audit.actualProviderId,
         routeTaken: audit.routeTaken,
         auditReasons: audit.auditReasons,
+        decision: audit.decision,
         latencyMs: audit.latencyMs,
+        ttftMs: audit.ttftMs,
         tokensUsed: audit.tokensUsed,
         estimatedCost: audit.estimatedCost,
       });
@@ -0,0 +1,187 @@
+import { getDb } from "../db";
+import {
+  responseCacheEntries,
+  responseCacheStats,
+  type InsertResponseCacheEntry,
+  type ResponseCacheEntry,
+} from "../../drizzle/schema";
+import { and, asc, desc, eq, gt, gte, isNotNull, lte, sql } from "drizzle-orm";
+
+/**
+ * Response Cache Database Operations
+ * Cached provider responses and the daily hit/miss counters built from lookups
+ */
+
+// ============================================================================
+// Entries
+// ============================================================================
+
+/**
+ * The live entry for a cache key
+ */
+export async function getCacheEntry(workspaceId: number, cacheKey: string, now: Date): Promise<ResponseCacheEntry | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [entry] = await db
+    .select()
+    .from(responseCacheEntries)
+    .where(
+      and(
+        eq(responseCacheEntries.workspaceId, workspaceId),
+        eq(responseCacheEntries.cacheKey, cacheKey),
+        gt(responseCacheEntries.expiresAt, now)
+      )
+    )
+    .limit(1);
+  return entry ?? null;
+}
+
+/**
+ * Live entries with an embedding that share a conversation context, newest first
+ */
+export async function getSemanticCandidates(
+  workspaceId: number,
+  contextKey: string,
+  embeddingModel: string,
+  now: Date,
+  limit: number
+): Promise<ResponseCacheEntry[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(responseCacheEntries)
+    .where(
+      and(
+        eq(responseCacheEntries.workspaceId, workspaceId),
+        eq(responseCacheEntries.contextKey, contextKey),
+        eq(responseCacheEntries.embeddingModel, embeddingModel),
+        isNotNull(responseCacheEntries.embedding),
+        gt(responseCacheEntries.expiresAt, now)
+      )
+    )
+    .orderBy(desc(responseCacheEntries.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Store a response, replacing an earlier (possibly expired) one for the same key
+ */
+export async function upsertCacheEntry(data: InsertResponseCacheEntry): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { workspaceId, cacheKey, ...fields } = data;
+  await db
+    .insert(responseCacheEntries)
+    .values(data)
+    .onConflictDoUpdate({
+      target: [responseCacheEntries.workspaceId, responseCacheEntries.cacheKey],
+      set: { ...fields, hitCount: 0, lastHitAt: null, createdAt: new Date() },
+    });
+}
+
+export async function recordCacheEntryHit(id: number, at: Date): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(responseCacheEntries)
+    .set({ hitCount: sql`${responseCacheEntries.hitCount} + 1`, lastHitAt: at })
+    .where(eq(responseCacheEntries.id, id));
+}
+
+/**
+ * Live entries of a workspace and how often they were served
+ */
+export async function getCacheEntrySummary(workspaceId: number, now: Date) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [summary] = await db
+    .select({
+      entries: sql<string>`COUNT(*)`,
+      hits: sql<string>`COALESCE(SUM(${responseCacheEntries.hitCount}), 0)`,
+    })
+    .from(responseCacheEntries)
+    .where(and(eq(responseCacheEntries.workspaceId, workspaceId), gt(responseCacheEntries.expiresAt, now)));
+  return summary;
+}
+
+/**
+ * Delete a workspace's entries, returning how many there were
+ */
+export async function deleteCacheEntries(workspaceId: number): Promise<number> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const deleted = await db
+    .delete(responseCacheEntries)
+    .where(eq(responseCacheEntries.workspaceId, workspaceId))
+    .returning({ id: responseCacheEntries.id });
+  return deleted.length;
+}
+
+export async function deleteExpiredCacheEntries(now: Date): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(responseCacheEntries).where(lte(responseCacheEntries.expiresAt, now));
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+export interface CacheStatCounts {
+  exactHits?: number;
+  semanticHits?: number;
+  misses?: number;
+  bypassed?: number;
+  tokensSaved?: number;
+  costSavedMicros?: number;
+}
+
+/**
+ * Add to a workspace's counters for a day
+ */
+export async function incrementCacheStats(workspaceId: number, day: Date, counts: CacheStatCounts): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const values = {
+    exactHits: counts.exactHits ?? 0,
+    semanticHits: counts.semanticHits ?? 0,
+    misses: counts.misses ?? 0,
+    bypassed: counts.bypassed ?? 0,
+    tokensSaved: counts.tokensSaved ?? 0,
+    costSavedMicros: counts.costSavedMicros ?? 0,
+  };
+  await db
+    .insert(responseCacheStats)
+    .values({ workspaceId, day, ...values })
+    .onConflictDoUpdate({
+      target: [responseCacheStats.workspaceId, responseCacheStats.day],
+      set: {
+        exactHits: sql`${responseCacheStats.exactHits} + ${values.exactHits}`,
+        semanticHits: sql`${responseCacheStats.semanticHits} + ${values.semanticHits}`,
+        misses: sql`${responseCacheStats.misses} + ${values.misses}`,
+        bypassed: sql`${responseCacheStats.bypassed} + ${values.bypassed}`,
+        tokensSaved: sql`${responseCacheStats.tokensSaved} + ${values.tokensSaved}`,
+        costSavedMicros: sql`${responseCacheStats.costSavedMicros} + ${values.costSavedMicros}`,
+      },
+    });
+}
+
+export async function getCacheStatsSince(workspaceId: number, since: Date) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(responseCacheStats)
+    .where(and(eq(responseCacheStats.workspaceId, workspaceId), gte(responseCacheStats.day, since)))
+    .orderBy(asc(responseCacheStats.day));
+}
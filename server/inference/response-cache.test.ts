@@ -0,0 +1,295 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDb: () => ({}) }));
+vi.mock("./response-cache-db", () => ({
+  getCacheEntry: vi.fn(async () => null),
+  getSemanticCandidates: vi.fn(async () => []),
+  upsertCacheEntry: vi.fn(),
+  recordCacheEntryHit: vi.fn(),
+  getCacheEntrySummary: vi.fn(async () => ({ entries: "0", hits: "0" })),
+  deleteCacheEntries: vi.fn(async () => 0),
+  deleteExpiredCacheEntries: vi.fn(),
+  incrementCacheStats: vi.fn(),
+  getCacheStatsSince: vi.fn(async () => []),
+}));
+vi.mock("../providers/pricing", () => ({
+  priceUsage: vi.fn(async () => ({ costMicros: 1500, priceId: null })),
+  toMicros: (dollars: number) => Math.round(dollars * 1000000),
+  fromMicros: (micros: number) => micros / 1000000,
+}));
+vi.mock("../embeddings/embedding-engine", () => ({
+  embeddingEngine: {
+    generate: vi.fn(async () => ({ embeddings: [[1, 0, 0]], model: "bge-base-en", dimensions: 3, usage: { totalTokens: 4 } })),
+  },
+}));
+
+import type { ResponseCacheEntry, RoutingProfile } from "../../drizzle/schema";
+import type { GenerationResponse } from "../providers/types";
+import * as cacheDb from "./response-cache-db";
+import {
+  buildCacheKeys,
+  getResponseCacheStats,
+  lookupResponseCache,
+  replayCachedResponse,
+  resolveCacheConfig,
+  splitForReplay,
+  storeCachedResponse,
+} from "./response-cache";
+
+const profile = (extra: Partial<RoutingProfile> = {}): RoutingProfile => ({
+  defaultRoute: "AUTO",
+  dataSensitivity: "LOW",
+  qualityTier: "BALANCED",
+  fallback: { enabled: true, maxHops: 3 },
+  ...extra,
+});
+
+const request = (question: string, extra: Record<string, unknown> = {}) => ({
+  workspaceId: 4,
+  messages: [
+    { role: "system" as const, content: "You answer questions about billing." },
+    { role: "user" as const, content: question },
+  ],
+  temperature: 0,
+  ...extra,
+});
+
+const entry = (extra: Partial<ResponseCacheEntry>): ResponseCacheEntry => ({
+  id: 1,
+  workspaceId: 4,
+  providerId: 2,
+  cacheKey: "key",
+  contextKey: "context",
+  model: null,
+  prompt: "how do i update my card?",
+  embedding: null,
+  embeddingModel: null,
+  response: {
+    content: "Open Billing, then Payment methods.",
+    model: "gpt-4o-mini",
+    finishReason: "stop",
+    usage: { promptTokens: 40, completionTokens: 8, totalTokens: 48 },
+  },
+  chunks: null,
+  tokensUsed: 48,
+  costMicros: 900,
+  hitCount: 0,
+  lastHitAt: null,
+  expiresAt: new Date("2026-03-01T01:00:00Z"),
+  createdAt: new Date("2026-03-01T00:00:00Z"),
+  ...extra,
+});
+
+const now = new Date("2026-03-01T00:30:00Z");
+
+describe("resolveCacheConfig", () => {
+  it("should be on by default, honour an opt-out and never apply to HIGH sensitivity", () => {
+    expect(resolveCacheConfig(null)).toEqual({ ttlSeconds: 3600, semantic: false, similarityThreshold: 0.95 });
+    expect(resolveCacheConfig(profile({ cache: { enabled: true, ttlSeconds: 60, semantic: true } }))).toEqual({
+      ttlSeconds: 60,
+      semantic: true,
+      similarityThreshold: 0.95,
+    });
+    expect(resolveCacheConfig(profile({ cache: { enabled: false } }))).toBeNull();
+    expect(resolveCacheConfig(profile({ dataSensitivity: "HIGH" }))).toBeNull();
+  });
+});
+
+describe("buildCacheKeys", () => {
+  it("should ignore whitespace but not parameters or a chosen provider", () => {
+    const keys = buildCacheKeys(request("How do I  update my card?"));
+
+    expect(buildCacheKeys(request(" How do I update\nmy card? ")).cacheKey).toBe(keys.cacheKey);
+    expect(buildCacheKeys(request("How do I update my card?", { temperature: 0.7 })).cacheKey).not.toBe(keys.cacheKey);
+    expect(buildCacheKeys(request("How do I update my card?", { model: "gpt-4o" })).cacheKey).not.toBe(keys.cacheKey);
+    expect(buildCacheKeys(request("How do I update my card?", { providerId: 3 })).cacheKey).not.toBe(keys.cacheKey);
+    expect(keys.prompt).toBe("How do I update my card?");
+  });
+
+  it("should share the context key between requests that differ only in the last user message", () => {
+    const first = buildCacheKeys(request("How do I update my card?"));
+    const second = buildCacheKeys(request("How can I change my credit card?"));
+
+    expect(second.cacheKey).not.toBe(first.cacheKey);
+    expect(second.contextKey).toBe(first.contextKey);
+  });
+
+  it("should not match images or assistant turns by meaning", () => {
+    const withImage = request("", {
+      messages: [{ role: "user", content: [{ type: "text", text: "What is this?" }, { type: "image", url: "https://example.com/a.png" }] }],
+    });
+    const endsWithAssistant = request("", { messages: [{ role: "assistant", content: "Hello" }] });
+
+    expect(buildCacheKeys(withImage).prompt).toBeNull();
+    expect(buildCacheKeys(endsWithAssistant).prompt).toBeNull();
+  });
+});
+
+describe("lookupResponseCache", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should serve an exact hit and count what it saved", async () => {
+    vi.mocked(cacheDb.getCacheEntry).mockResolvedValueOnce(entry({ id: 7 }));
+
+    const lookup = await lookupResponseCache(request("How do I update my card?"), profile(), { now });
+
+    expect(lookup.hit).toMatchObject({ entryId: 7, providerId: 2, kind: "exact" });
+    expect(lookup.context).toBeNull();
+    expect(cacheDb.recordCacheEntryHit).toHaveBeenCalledWith(7, now);
+    expect(cacheDb.incrementCacheStats).toHaveBeenCalledWith(4, new Date("2026-03-01T00:00:00Z"), {
+      exactHits: 1,
+      semanticHits: 0,
+      tokensSaved: 48,
+      costSavedMicros: 900,
+    });
+  });
+
+  it("should serve the most similar prompt above the threshold in semantic mode", async () => {
+    vi.mocked(cacheDb.getSemanticCandidates).mockResolvedValueOnce([
+      entry({ id: 8, embedding: [0.6, 0.8, 0], embeddingModel: "bge-base-en" }),
+      entry({ id: 9, embedding: [0.99, 0.1, 0], embeddingModel: "bge-base-en" }),
+    ]);
+
+    const lookup = await lookupResponseCache(
+      request("How can I change my credit card?"),
+      profile({ cache: { enabled: true, semantic: true } }),
+      { now }
+    );
+
+    expect(lookup.hit).toMatchObject({ entryId: 9, kind: "semantic" });
+    expect(lookup.hit!.similarity).toBeGreaterThan(0.99);
+    expect(cacheDb.getSemanticCandidates).toHaveBeenCalledWith(
+      4,
+      buildCacheKeys(request("anything")).contextKey,
+      "bge-base-en",
+      now,
+      200
+    );
+  });
+
+  it("should miss below the threshold and keep the embedding for storing", async () => {
+    vi.mocked(cacheDb.getSemanticCandidates).mockResolvedValueOnce([
+      entry({ id: 8, embedding: [0.6, 0.8, 0], embeddingModel: "bge-base-en" }),
+    ]);
+
+    const lookup = await lookupResponseCache(
+      request("What currencies do you accept?"),
+      profile({ cache: { enabled: true, semantic: true, similarityThreshold: 0.9 } }),
+      { now }
+    );
+
+    expect(lookup.hit).toBeNull();
+    expect(lookup.context).toMatchObject({ embedding: [1, 0, 0], embeddingModel: "bge-base-en" });
+    expect(cacheDb.incrementCacheStats).toHaveBeenCalledWith(4, expect.any(Date), { misses: 1 });
+  });
+
+  it("should count bypassed requests without reading the cache", async () => {
+    await lookupResponseCache(request("How do I update my card?"), profile({ dataSensitivity: "HIGH" }), { now });
+    await lookupResponseCache(request("How do I update my card?"), profile(), { now, bypass: true });
+
+    expect(cacheDb.getCacheEntry).not.toHaveBeenCalled();
+    expect(cacheDb.incrementCacheStats).toHaveBeenCalledTimes(2);
+    expect(cacheDb.incrementCacheStats).toHaveBeenCalledWith(4, expect.any(Date), { bypassed: 1 });
+  });
+});
+
+describe("storeCachedResponse", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const response = (extra: Partial<GenerationResponse> = {}): GenerationResponse => ({
+    id: "r1",
+    content: "Open Billing, then Payment methods.",
+    model: "gpt-4o-mini",
+    usage: { promptTokens: 40, completionTokens: 8, totalTokens: 48 },
+    finishReason: "stop",
+    latencyMs: 900,
+    ...extra,
+  });
+
+  it("should store the response with its stream chunks until the TTL runs out", async () => {
+    const { context } = await lookupResponseCache(
+      request("How do I update my card?"),
+      profile({ cache: { enabled: true, ttlSeconds: 120 } }),
+      { now }
+    );
+
+    await storeCachedResponse(context, { providerId: 2, response: response(), chunks: ["Open Billing, ", "then Payment methods."] }, now);
+
+    expect(cacheDb.upsertCacheEntry).toHaveBeenCalledWith(
+      expect.objectContaining({
+        workspaceId: 4,
+        providerId: 2,
+        cacheKey: context!.keys.cacheKey,
+        chunks: ["Open Billing, ", "then Payment methods."],
+        tokensUsed: 48,
+        costMicros: 1500,
+        expiresAt: new Date("2026-03-01T00:32:00Z"),
+      })
+    );
+  });
+
+  it("should not store tool calls, errors or requests that bypassed the cache", async () => {
+    const { context } = await lookupResponseCache(request("How do I update my card?"), profile(), { now });
+
+    await storeCachedResponse(context, {
+      providerId: 2,
+      response: response({ toolCalls: [{ id: "c1", name: "lookup", arguments: {} }] }),
+    });
+    await storeCachedResponse(context, { providerId: 2, response: response({ finishReason: "error" }) });
+    await storeCachedResponse(null, { providerId: 2, response: response() });
+
+    expect(cacheDb.upsertCacheEntry).not.toHaveBeenCalled();
+  });
+});
+
+describe("replay", () => {
+  it("should replay cached chunks and finish the stream", () => {
+    const hit = {
+      entryId: 1,
+      providerId: 2,
+      kind: "exact" as const,
+      response: entry({}).response,
+      chunks: splitForReplay("Open Billing,  then\nPayment methods."),
+      costMicros: 0,
+    };
+
+    const tokens = Array.from(replayCachedResponse(hit));
+
+    expect(tokens.map((token) => token.content).join("")).toBe("Open Billing,  then\nPayment methods.");
+    expect(tokens).toHaveLength(6);
+    expect(tokens[tokens.length - 1]).toEqual({ content: "", isComplete: true });
+  });
+});
+
+describe("getResponseCacheStats", () => {
+  it("should total the daily counters into a hit rate and savings", async () => {
+    const day = (date: string, extra: Record<string, number>) => ({
+      id: 1,
+      workspaceId: 4,
+      day: new Date(date),
+      exactHits: 0,
+      semanticHits: 0,
+      misses: 0,
+      bypassed: 0,
+      tokensSaved: 0,
+      costSavedMicros: 0,
+      ...extra,
+    });
+    vi.mocked(cacheDb.getCacheStatsSince).mockResolvedValueOnce([
+      day("2026-02-28T00:00:00Z", { exactHits: 3, misses: 5, tokensSaved: 300, costSavedMicros: 2000 }),
+      day("2026-03-01T00:00:00Z", { semanticHits: 1, misses: 1, bypassed: 4, tokensSaved: 50, costSavedMicros: 500 }),
+    ]);
+    vi.mocked(cacheDb.getCacheEntrySummary).mockResolvedValueOnce({ entries: "6", hits: "4" });
+
+    const stats = await getResponseCacheStats(4, 7, now);
+
+    expect(cacheDb.getCacheStatsSince).toHaveBeenCalledWith(4, new Date("2026-02-23T00:00:00Z"));
+    expect(stats.totals).toMatchObject({ exactHits: 3, semanticHits: 1, misses: 6, bypassed: 4, tokensSaved: 350, costSaved: 0.0025, hitRate: 0.4 });
+    expect(stats.daily).toHaveLength(2);
+    expect(stats.entries).toBe(6);
+  });
+});
@@ -0,0 +1,399 @@
+/**
+ * Response Cache
+ *
+ * Sits in front of the provider router so identical or near-identical
+ * requests (eval runs, automation retries, FAQ-style chat) are answered
+ * without calling a paid provider again:
+ * - exact: a hash of the normalized messages, model and generation parameters
+ * - semantic (opt-in): requests whose conversation matches up to the last user
+ *   message, and whose last user message embeds close enough to a cached one
+ *
+ * The cache is on for every workspace unless its routing profile opts out,
+ * and is never read or written for HIGH sensitivity workspaces. Responses
+ * with tool calls are not cached. Cached streams keep their token boundaries
+ * so they replay as the same SSE chunks.
+ */
+import crypto from "crypto";
+import type { CachedResponse, ResponseCacheEntry, RoutingProfile } from "../../drizzle/schema";
+import { getDb } from "../db";
+import type { GenerationResponse, Message, Token, ToolChoice, ToolDefinition } from "../providers/types";
+import { fromMicros, priceUsage, toMicros } from "../providers/pricing";
+import { similarity } from "../vectordb/vector-store";
+import * as cacheDb from "./response-cache-db";
+
+export const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+
+// Most recent entries compared against a request in semantic mode
+const SEMANTIC_CANDIDATES = 200;
+
+// Expired entries are purged at most this often
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface ResolvedCacheConfig {
+  ttlSeconds: number;
+  semantic: boolean;
+  similarityThreshold: number;
+}
+
+export interface CacheableRequest {
+  messages: Message[];
+  model?: string;
+  workspaceId: number;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stopSequences?: string[];
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  // Set when the caller chose the provider; its answers are cached apart
+  providerId?: number;
+}
+
+export interface CacheKeys {
+  cacheKey: string;
+  contextKey: string;
+  // Normalized text of the last user message; null when it cannot be matched semantically
+  prompt: string | null;
+}
+
+export interface CacheHit {
+  entryId: number;
+  providerId: number;
+  kind: 'exact' | 'semantic';
+  similarity?: number;
+  response: CachedResponse;
+  chunks: string[];
+  // What the original request cost
+  costMicros: number;
+}
+
+// What a miss needs to store the response once the provider answers
+export interface CacheContext {
+  workspaceId: number;
+  config: ResolvedCacheConfig;
+  keys: CacheKeys;
+  model: string | null;
+  embedding: number[] | null;
+  embeddingModel: string | null;
+}
+
+export interface CacheLookup {
+  hit: CacheHit | null;
+  // Null when the cache was bypassed or unavailable
+  context: CacheContext | null;
+}
+
+/**
+ * The workspace's cache settings with defaults filled in, or null when the
+ * cache must not be used for it
+ */
+export function resolveCacheConfig(profile: RoutingProfile | null): ResolvedCacheConfig | null {
+  if (profile?.dataSensitivity === 'HIGH') return null;
+  if (profile?.cache?.enabled === false) return null;
+
+  return {
+    ttlSeconds: profile?.cache?.ttlSeconds ?? DEFAULT_CACHE_TTL_SECONDS,
+    semantic: profile?.cache?.semantic ?? false,
+    similarityThreshold: profile?.cache?.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+  };
+}
+
+function normalizeText(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeMessage(message: Message) {
+  const content = Array.isArray(message.content)
+    ? message.content.map(part => ({
+        type: part.type,
+        text: part.text !== undefined ? normalizeText(part.text) : undefined,
+        url: part.url,
+        storageKey: part.storageKey,
+        documentId: part.documentId,
+      }))
+    : normalizeText(message.content);
+
+  return {
+    role: message.role,
+    content,
+    toolCalls: message.toolCalls,
+    toolCallId: message.toolCallId,
+    name: message.name,
+  };
+}
+
+function hash(value: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+/**
+ * Keys for a request. Whitespace differences in message text do not change
+ * them; any change to the model, a generation parameter or a chosen provider does.
+ */
+export function buildCacheKeys(request: CacheableRequest): CacheKeys {
+  const params = {
+    model: request.model ?? null,
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+    topP: request.topP ?? null,
+    stopSequences: request.stopSequences ?? null,
+    tools: request.tools ?? null,
+    toolChoice: request.toolChoice ?? null,
+    // Only when set, so routed requests keep their keys
+    ...(request.providerId !== undefined ? { providerId: request.providerId } : {}),
+  };
+  const messages = request.messages.map(normalizeMessage);
+
+  // Only a text-only user message can be matched by meaning
+  let prompt: string | null = null;
+  const last = request.messages[request.messages.length - 1];
+  if (last?.role === 'user') {
+    const parts = Array.isArray(last.content) ? last.content : null;
+    if (!parts || parts.every(part => part.type === 'text')) {
+      prompt = normalizeText(parts ? parts.map(part => part.text ?? '').join('\n') : last.content as string) || null;
+    }
+  }
+
+  return {
+    cacheKey: hash({ params, messages }),
+    contextKey: hash({ params, messages: messages.slice(0, -1) }),
+    prompt,
+  };
+}
+
+async function embedPrompt(prompt: string): Promise<{ embedding: number[]; model: string }> {
+  const { embeddingEngine } = await import("../embeddings/embedding-engine");
+  const result = await embeddingEngine.generate({ texts: [prompt], inputType: "query" });
+  return { embedding: result.embeddings[0], model: result.model };
+}
+
+function toHit(entry: ResponseCacheEntry, kind: CacheHit['kind'], score?: number): CacheHit {
+  return {
+    entryId: entry.id,
+    providerId: entry.providerId,
+    kind,
+    similarity: score,
+    response: entry.response,
+    chunks: entry.chunks ?? splitForReplay(entry.response.content),
+    costMicros: entry.costMicros,
+  };
+}
+
+function startOfDay(at: Date): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+async function countLookup(workspaceId: number, at: Date, counts: cacheDb.CacheStatCounts): Promise<void> {
+  try {
+    await cacheDb.incrementCacheStats(workspaceId, startOfDay(at), counts);
+  } catch (error) {
+    console.error("[ResponseCache] Failed to record statistics:", error);
+  }
+}
+
+/**
+ * Look a request up in the workspace's cache, counting the hit, miss or
+ * bypass. Never throws: a cache that cannot be read is a miss with nothing
+ * stored afterwards.
+ */
+export async function lookupResponseCache(
+  request: CacheableRequest,
+  profile: RoutingProfile | null,
+  options: { bypass?: boolean; now?: Date } = {}
+): Promise<CacheLookup> {
+  if (!getDb()) return { hit: null, context: null };
+
+  const now = options.now ?? new Date();
+  const config = options.bypass ? null : resolveCacheConfig(profile);
+  if (!config) {
+    await countLookup(request.workspaceId, now, { bypassed: 1 });
+    return { hit: null, context: null };
+  }
+
+  try {
+    const keys = buildCacheKeys(request);
+    const context: CacheContext = {
+      workspaceId: request.workspaceId,
+      config,
+      keys,
+      model: request.model ?? null,
+      embedding: null,
+      embeddingModel: null,
+    };
+
+    let hit: CacheHit | null = null;
+    const exact = await cacheDb.getCacheEntry(request.workspaceId, keys.cacheKey, now);
+    if (exact) {
+      hit = toHit(exact, 'exact');
+    } else if (config.semantic && keys.prompt) {
+      hit = await findSemanticHit(context, now);
+    }
+
+    if (!hit) {
+      await countLookup(request.workspaceId, now, { misses: 1 });
+      return { hit: null, context };
+    }
+
+    await cacheDb.recordCacheEntryHit(hit.entryId, now);
+    await countLookup(request.workspaceId, now, {
+      exactHits: hit.kind === 'exact' ? 1 : 0,
+      semanticHits: hit.kind === 'semantic' ? 1 : 0,
+      tokensSaved: hit.response.usage.totalTokens,
+      costSavedMicros: hit.costMicros,
+    });
+    return { hit, context: null };
+  } catch (error) {
+    console.error("[ResponseCache] Lookup failed:", error);
+    return { hit: null, context: null };
+  }
+}
+
+/**
+ * The most similar cached prompt in the same conversation context, when it
+ * clears the workspace's threshold. The embedding is kept on the context so
+ * the response can be stored with it.
+ */
+async function findSemanticHit(context: CacheContext, now: Date): Promise<CacheHit | null> {
+  try {
+    const embedded = await embedPrompt(context.keys.prompt!);
+    context.embedding = embedded.embedding;
+    context.embeddingModel = embedded.model;
+  } catch (error) {
+    console.warn("[ResponseCache] Could not embed prompt, exact matching only:", error);
+    return null;
+  }
+
+  const candidates = await cacheDb.getSemanticCandidates(
+    context.workspaceId,
+    context.keys.contextKey,
+    context.embeddingModel!,
+    now,
+    SEMANTIC_CANDIDATES
+  );
+
+  let best: { entry: ResponseCacheEntry; score: number } | null = null;
+  for (const entry of candidates) {
+    if (!entry.embedding || entry.embedding.length !== context.embedding!.length) continue;
+    const score = similarity("Cosine", context.embedding!, entry.embedding);
+    if (!best || score > best.score) best = { entry, score };
+  }
+
+  if (!best || best.score < context.config.similarityThreshold) return null;
+  return toHit(best.entry, 'semantic', best.score);
+}
+
+let lastPurgeAt = 0;
+
+/**
+ * Store a provider's response for a request that missed. Never throws.
+ */
+export async function storeCachedResponse(
+  context: CacheContext | null,
+  result: { providerId: number; response: GenerationResponse; chunks?: string[] },
+  now: Date = new Date()
+): Promise<void> {
+  if (!context) return;
+  const { response } = result;
+  if (response.toolCalls?.length || response.finishReason === 'error' || !response.content) return;
+
+  try {
+    const costMicros = response.cost !== undefined
+      ? toMicros(response.cost)
+      : (await priceUsage(result.providerId, response.model, response.usage, now)).costMicros;
+
+    await cacheDb.upsertCacheEntry({
+      workspaceId: context.workspaceId,
+      providerId: result.providerId,
+      cacheKey: context.keys.cacheKey,
+      contextKey: context.keys.contextKey,
+      model: context.model,
+      prompt: context.keys.prompt,
+      embedding: context.embedding,
+      embeddingModel: context.embeddingModel,
+      response: {
+        content: response.content,
+        model: response.model,
+        finishReason: response.finishReason,
+        usage: {
+          promptTokens: response.usage.promptTokens,
+          completionTokens: response.usage.completionTokens,
+          totalTokens: response.usage.totalTokens,
+        },
+      },
+      chunks: result.chunks?.length ? result.chunks : null,
+      tokensUsed: response.usage.totalTokens,
+      costMicros,
+      expiresAt: new Date(now.getTime() + context.config.ttlSeconds * 1000),
+    });
+
+    if (now.getTime() - lastPurgeAt >= PURGE_INTERVAL_MS) {
+      lastPurgeAt = now.getTime();
+      await cacheDb.deleteExpiredCacheEntries(now);
+    }
+  } catch (error) {
+    console.error("[ResponseCache] Failed to store response:", error);
+  }
+}
+
+/**
+ * Word-sized chunks for replaying a response that was not streamed
+ */
+export function splitForReplay(content: string): string[] {
+  return content.match(/\s*\S+\s*/g) ?? (content ? [content] : []);
+}
+
+/**
+ * Replay a cached response as stream tokens
+ */
+export function* replayCachedResponse(hit: CacheHit): Generator<Token, void, unknown> {
+  for (const chunk of hit.chunks) {
+    yield { content: chunk, isComplete: false };
+  }
+  yield { content: '', isComplete: true };
+}
+
+/**
+ * Hit/miss counters of a workspace per day over the last days, with totals
+ */
+export async function getResponseCacheStats(workspaceId: number, days: number, now: Date = new Date()) {
+  const since = startOfDay(new Date(now.getTime() - (days - 1) * 24 * 60 * 60 * 1000));
+  const rows = await cacheDb.getCacheStatsSince(workspaceId, since);
+  const summary = await cacheDb.getCacheEntrySummary(workspaceId, now);
+
+  const totals = { exactHits: 0, semanticHits: 0, misses: 0, bypassed: 0, tokensSaved: 0, costSavedMicros: 0 };
+  const daily = rows.map(row => {
+    totals.exactHits += row.exactHits;
+    totals.semanticHits += row.semanticHits;
+    totals.misses += row.misses;
+    totals.bypassed += row.bypassed;
+    totals.tokensSaved += row.tokensSaved;
+    totals.costSavedMicros += row.costSavedMicros;
+    return {
+      day: row.day,
+      exactHits: row.exactHits,
+      semanticHits: row.semanticHits,
+      misses: row.misses,
+      bypassed: row.bypassed,
+    };
+  });
+
+  const hits = totals.exactHits + totals.semanticHits;
+  return {
+    daily,
+    totals: {
+      ...totals,
+      costSaved: fromMicros(totals.costSavedMicros),
+      hitRate: hits + totals.misses > 0 ? hits / (hits + totals.misses) : null,
+    },
+    entries: Number(summary?.entries ?? 0),
+    entryHits: Number(summary?.hits ?? 0),
+  };
+}
+
+/**
+ * Drop every cached response of a workspace
+ */
+export async function clearResponseCache(workspaceId: number): Promise<number> {
+  return cacheDb.deleteCacheEntries(workspaceId);
+}
@@ -29,7 +29,9 @@ export interface ProviderRoutingInfo {
 export interface TaskHints {
   mustStayLocal?: boolean;
   maxLatencyMs?: number;
+  // Per-request cost cap; with estimatedTokens it is checked against the provider's price
   budgetCeiling?: number;
+  estimatedTokens?: number;
   qualityTier?: 'FAST' | 'BALANCED' | 'BEST';
   requiredCapabilities?: ProviderCapability[];
 }
@@ -272,14 +274,26 @@ export class RoutingRulesEngine {
     }
 
     const costTier = provider.limits?.costTier;
-    const costMap: Record<string, number> = { free: 0, low: 0.01, medium: 0.05, high: 0.20 };
-    const estimatedCost = costMap[costTier || 'medium'] || 0.05;
+    const pricePer1k = provider.costPer1kTokens ? parseFloat(provider.costPer1kTokens) : NaN;
+
+    // Price the request when its size and the provider's price are known,
+    // otherwise fall back to a typical request cost for the tier
+    let estimatedCost: number;
+    let basis: string;
+    if (taskHints.estimatedTokens && Number.isFinite(pricePer1k)) {
+      estimatedCost = (taskHints.estimatedTokens / 1000) * pricePer1k;
+      basis = `estimated $${estimatedCost.toFixed(4)}`;
+    } else {
+      const costMap: Record<string, number> = { free: 0, low: 0.01, medium: 0.05, high: 0.20 };
+      estimatedCost = costMap[costTier || 'medium'] || 0.05;
+      basis = `tier: ${costTier || 'unknown'}`;
+    }
 
     if (estimatedCost > taskHints.budgetCeiling) {
       return {
         eligible: false,
         score: -1000,
-        reason: `Provider cost tier (${costTier}) exceeds budget ceiling`
+        reason: `Provider cost (${basis}) exceeds budget ceiling - ineligible`
       };
     }
 
@@ -288,7 +302,7 @@ export class RoutingRulesEngine {
     return {
       eligible: true,
       score: Math.min(savings * 100, 20),
-      reason: `Within budget (tier: ${costTier || 'unknown'})`
+      reason: `Within budget (${basis})`
     };
   }
 
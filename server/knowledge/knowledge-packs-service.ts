@@ -46,6 +46,23 @@ export interface KnowledgeEmbedding {
   model: string;
 }
 
+/**
+ * A pack's embeddings must all come from one model and share one dimension
+ */
+function assertSingleEmbeddingModel(embeddings: KnowledgeEmbedding[]): void {
+  const [first] = embeddings;
+  if (!first) return;
+  
+  const mixed = embeddings.find(
+    (embedding) => embedding.model !== first.model || embedding.vector.length !== first.vector.length
+  );
+  if (mixed) {
+    throw new Error(
+      `Knowledge pack mixes embeddings from ${first.model} (${first.vector.length}d) and ${mixed.model} (${mixed.vector.length}d)`
+    );
+  }
+}
+
 /**
  * Knowledge Packs Manager
  */
@@ -74,6 +91,8 @@ class KnowledgePacksService {
     documents: KnowledgeDocument[],
     embeddings: KnowledgeEmbedding[]
   ): Promise<KnowledgePack> {
+    assertSingleEmbeddingModel(embeddings);
+    
     const pack: KnowledgePack = {
       id: `pack-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       name,
@@ -125,6 +144,7 @@ class KnowledgePacksService {
   ): Promise<KnowledgePack | null> {
     const existingPack = await this.loadPack(packId);
     if (!existingPack) return null;
+    if (updates.embeddings) assertSingleEmbeddingModel(updates.embeddings);
     
     // Increment version
     const [major, minor, patch] = existingPack.version.split(".").map(Number);
@@ -172,6 +192,7 @@ class KnowledgePacksService {
       if (!pack.id || !pack.name || !pack.version) {
         throw new Error("Invalid knowledge pack structure");
       }
+      assertSingleEmbeddingModel(pack.embeddings ?? []);
       
       // Save imported pack
       await this.savePack(pack);
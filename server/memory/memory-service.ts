@@ -3,8 +3,7 @@
  * Manages short-term (conversation context) and long-term (persistent knowledge) memory
  */
 
-import { embeddingEngine } from "../embeddings/embedding-engine";
-import { qdrantService } from "../vectordb/qdrant-service";
+import { embedForCollection, embedQueryForCollection } from "../embeddings/collections";
 
 export interface MemoryEntry {
   id: string;
@@ -115,13 +114,12 @@ class MemorySystem {
     };
     
     // Generate embedding
-    const embedding = await embeddingEngine.generate({
-      texts: [content],
-    });
+    const collection = `memory-workspace-${metadata.workspaceId}`;
+    const embedding = await embedForCollection(collection, [content], { workspaceId: metadata.workspaceId });
     
     // Store in vector database
-    await qdrantService.insert({
-      collection: `memory-workspace-${metadata.workspaceId}`,
+    await embedding.store.insert({
+      collection,
       vectors: embedding.embeddings,
       payloads: [
         {
@@ -144,15 +142,15 @@ class MemorySystem {
     workspaceId: number,
     limit = 5
   ): Promise<Array<{ entry: MemoryEntry; score: number }>> {
-    // Generate query embedding
-    const queryEmbedding = await embeddingEngine.generate({
-      texts: [query],
-    });
+    // Generate query embedding with the model the memories were stored with
+    const collection = `memory-workspace-${workspaceId}`;
+    const queryEmbedding = await embedQueryForCollection(collection, query);
+    if (!queryEmbedding) return [];
     
     // Search in vector database
-    const results = await qdrantService.search({
-      collection: `memory-workspace-${workspaceId}`,
-      query: queryEmbedding.embeddings[0],
+    const results = await queryEmbedding.store.search({
+      collection,
+      query: queryEmbedding.vector,
       limit,
       filter: {
         must: [
@@ -110,7 +110,7 @@ export async function getProviderUsageStats(
     .select({
       totalRequests: sql<number>`COUNT(*)`,
       totalTokens: sql<number>`SUM(${providerUsage.tokensUsed})`,
-      totalCost: sql<string>`SUM(CAST(${providerUsage.cost} AS DECIMAL(10,4)))`,
+      totalCost: sql<string>`SUM(${providerUsage.costMicros}) / 1000000.0`,
       avgLatency: sql<number>`AVG(${providerUsage.latencyMs})`,
       p95Latency: sql<number>`PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY ${providerUsage.latencyMs})`,
     })
@@ -118,6 +118,7 @@ export async function getProviderUsageStats(
     .where(
       and(
         eq(providerUsage.providerId, providerId),
+        eq(providerUsage.status, "settled"),
         gte(providerUsage.createdAt, startDate),
         lte(providerUsage.createdAt, endDate)
       )
@@ -146,13 +147,14 @@ export async function getProviderUsageTrend(
       date: sql<string>`DATE(${providerUsage.createdAt})`,
       requests: sql<number>`COUNT(*)`,
       tokens: sql<number>`SUM(${providerUsage.tokensUsed})`,
-      cost: sql<string>`SUM(CAST(${providerUsage.cost} AS DECIMAL(10,4)))`,
+      cost: sql<string>`SUM(${providerUsage.costMicros}) / 1000000.0`,
       avgLatency: sql<number>`AVG(${providerUsage.latencyMs})`,
     })
     .from(providerUsage)
     .where(
       and(
         eq(providerUsage.providerId, providerId),
+        eq(providerUsage.status, "settled"),
         gte(providerUsage.createdAt, startDate)
       )
     )
@@ -1,5 +1,7 @@
 import { z } from "zod";
-import { protectedProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, protectedProcedure, router } from "../_core/trpc";
+import { hasWorkspaceAccess } from "../db";
 import {
   getAllProvidersWithMetrics,
   getProviderUsageStats,
@@ -8,6 +10,12 @@ import {
   getHealthCheckHistory,
   getMetricsHistory,
 } from "./analytics-db";
+import { buildInvoice, invoiceToCsv } from "./invoice";
+import { getModelPrices } from "./pricing-db";
+import { addModelPrice, recomputeUsageCosts } from "./pricing";
+import { clearResponseCache, getResponseCacheStats } from "../inference/response-cache";
+
+const price = z.number().min(0);
 
 /**
  * Provider Analytics tRPC Router
@@ -89,4 +97,97 @@ export const providerAnalyticsRouter = router({
         input.endDate
       );
     }),
+
+  // Every version of every model price in the catalog
+  listPrices: protectedProcedure.query(async () => {
+    return await getModelPrices();
+  }),
+
+  // Add a price version; usage from its effective date on is re-priced
+  addPrice: adminProcedure
+    .input(
+      z.object({
+        providerType: z.string().min(1).max(50),
+        providerId: z.number().nullable().optional(),
+        model: z.string().min(1).max(255),
+        inputPerMillion: price,
+        outputPerMillion: price,
+        cachedInputPerMillion: price.nullable().optional(),
+        embeddingPerMillion: price.nullable().optional(),
+        perImage: price.nullable().optional(),
+        effectiveFrom: z.date(),
+        notes: z.string().max(1000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return await addModelPrice(input, ctx.user.id);
+    }),
+
+  // Re-price a model's usage from a date against the current catalog
+  recomputeCosts: adminProcedure
+    .input(
+      z.object({
+        providerType: z.string().min(1).max(50),
+        providerId: z.number().nullable().optional(),
+        model: z.string().min(1).max(255),
+        since: z.date(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const updated = await recomputeUsageCosts({
+        providerType: input.providerType,
+        providerId: input.providerId,
+        modelPrefix: input.model,
+        since: input.since,
+      });
+      return { updated };
+    }),
+
+  // Invoice of a workspace's usage for one month, as CSV or JSON
+  exportInvoice: protectedProcedure
+    .input(
+      z.object({
+        workspaceId: z.number(),
+        month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM"),
+        format: z.enum(["csv", "json"]).default("csv"),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (!(await hasWorkspaceAccess(ctx.user.id, input.workspaceId))) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+      }
+
+      const invoice = await buildInvoice(input.workspaceId, input.month);
+      const filename = `invoice-workspace-${input.workspaceId}-${input.month}.${input.format}`;
+      if (input.format === "csv") {
+        return { filename, contentType: "text/csv", content: invoiceToCsv(invoice) };
+      }
+      return { filename, contentType: "application/json", content: JSON.stringify(invoice, null, 2) };
+    }),
+
+  // Response cache hits, misses and savings of a workspace per day
+  getResponseCacheStats: protectedProcedure
+    .input(
+      z.object({
+        workspaceId: z.number(),
+        days: z.number().int().min(1).max(365).default(30),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (!(await hasWorkspaceAccess(ctx.user.id, input.workspaceId))) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+      }
+      return await getResponseCacheStats(input.workspaceId, input.days);
+    }),
+
+  // Drop a workspace's cached responses
+  clearResponseCache: protectedProcedure
+    .input(z.object({ workspaceId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      if (!(await hasWorkspaceAccess(ctx.user.id, input.workspaceId))) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+      }
+      const deleted = await clearResponseCache(input.workspaceId);
+      return { deleted };
+    }),
 });
@@ -2,6 +2,8 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { BaseProvider } from './base';
+import { parseToolArguments } from './tool-calling';
+import { getTextContent, loadImageData, resolveImageUrl, toContentParts } from './content';
 import type {
   GenerationRequest,
   GenerationResponse,
@@ -11,6 +13,9 @@ import type {
   ProviderCapabilities,
   CostProfile,
   ProviderConfig,
+  Message,
+  ToolCall,
+  FinishReason,
 } from './types';
 
 export class AnthropicProvider extends BaseProvider {
@@ -62,7 +67,6 @@ export class AnthropicProvider extends BaseProvider {
     try {
       // Extract system message if present
       const systemMessage = request.messages.find(m => m.role === 'system');
-      const userMessages = request.messages.filter(m => m.role !== 'system');
 
       const response = await this.client.messages.create({
         model,
@@ -70,16 +74,21 @@ export class AnthropicProvider extends BaseProvider {
         temperature: request.temperature ?? 1.0,
         top_p: request.topP,
         stop_sequences: request.stopSequences,
-        system: systemMessage?.content,
-        messages: userMessages.map(msg => ({
-          role: msg.role === 'assistant' ? 'assistant' : 'user',
-          content: msg.content,
-        })),
+        system: systemMessage ? getTextContent(systemMessage.content) : undefined,
+        messages: await this.toAnthropicMessages(request.messages),
+        ...this.toAnthropicTools(request),
       });
 
       const latencyMs = Date.now() - startTime;
-      const content = response.content[0];
-      if (!content || content.type !== 'text') {
+      const text = response.content
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      const toolCalls: ToolCall[] = response.content
+        .filter((block: any) => block.type === 'tool_use')
+        .map((block: any) => ({ id: block.id, name: block.name, arguments: block.input ?? {} }));
+
+      if (!text && toolCalls.length === 0) {
         throw new Error('No text response from Anthropic');
       }
 
@@ -92,7 +101,8 @@ export class AnthropicProvider extends BaseProvider {
 
       return {
         id: response.id,
-        content: content.text,
+        content: text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         model: response.model,
         usage: {
           promptTokens: usage.input_tokens,
@@ -119,7 +129,6 @@ export class AnthropicProvider extends BaseProvider {
     try {
       // Extract system message if present
       const systemMessage = request.messages.find(m => m.role === 'system');
-      const userMessages = request.messages.filter(m => m.role !== 'system');
 
       const stream = await this.client.messages.create({
         model,
@@ -127,26 +136,52 @@ export class AnthropicProvider extends BaseProvider {
         temperature: request.temperature ?? 1.0,
         top_p: request.topP,
         stop_sequences: request.stopSequences,
-        system: systemMessage?.content,
-        messages: userMessages.map(msg => ({
-          role: msg.role === 'assistant' ? 'assistant' : 'user',
-          content: msg.content,
-        })),
+        system: systemMessage ? getTextContent(systemMessage.content) : undefined,
+        messages: await this.toAnthropicMessages(request.messages),
+        ...this.toAnthropicTools(request),
         stream: true,
       });
 
+      // tool_use blocks stream their input as partial JSON, keyed by block index
+      const pendingCalls = new Map<number, { id: string; name: string; input: string }>();
+      // Input tokens come with message_start, the running output count with each message_delta
+      let promptTokens = 0;
+      let completionTokens = 0;
+
       for await (const event of stream) {
-        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        if (event.type === 'message_start') {
+          promptTokens = event.message.usage.input_tokens;
+          completionTokens = event.message.usage.output_tokens;
+        } else if (event.type === 'message_delta') {
+          completionTokens = event.usage.output_tokens;
+        } else if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+          pendingCalls.set(event.index, { id: event.content_block.id, name: event.content_block.name, input: '' });
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
           yield {
             content: event.delta.text,
             isComplete: false,
           };
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+          const pending = pendingCalls.get(event.index);
+          if (pending) pending.input += event.delta.partial_json;
         }
       }
 
+      const toolCalls: ToolCall[] = Array.from(pendingCalls.values()).map(call => ({
+        id: call.id,
+        name: call.name,
+        arguments: parseToolArguments(call.input),
+      }));
+
       yield {
         content: '',
         isComplete: true,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
       };
     } catch (error) {
       console.error('[AnthropicProvider] Stream generation error:', error);
@@ -205,13 +240,93 @@ export class AnthropicProvider extends BaseProvider {
     return pricing[model] || pricing['claude-sonnet-4-5-20250929']!;
   }
 
-  private mapStopReason(reason: string | null): 'stop' | 'length' | 'content_filter' | 'error' {
+  /**
+   * Map messages to Anthropic turns. Tool results become user tool_result blocks,
+   * and consecutive results are merged into a single user turn as the API requires.
+   */
+  private async toAnthropicMessages(messages: Message[]): Promise<any[]> {
+    const turns: any[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'tool') {
+        const block = { type: 'tool_result', tool_use_id: msg.toolCallId, content: getTextContent(msg.content) };
+        const last = turns[turns.length - 1];
+        if (last?.role === 'user' && Array.isArray(last.content) && last.content[0]?.type === 'tool_result') {
+          last.content.push(block);
+        } else {
+          turns.push({ role: 'user', content: [block] });
+        }
+        continue;
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        const text = getTextContent(msg.content);
+        turns.push({
+          role: 'assistant',
+          content: [
+            ...(text ? [{ type: 'text', text }] : []),
+            ...msg.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+          ],
+        });
+        continue;
+      }
+
+      turns.push({
+        role: msg.role === 'assistant' ? 'assistant' : 'user',
+        content: Array.isArray(msg.content) ? await this.toAnthropicContent(msg.content) : msg.content,
+      });
+    }
+
+    return turns;
+  }
+
+  private toAnthropicContent(content: Message['content']): Promise<any[]> {
+    return Promise.all(toContentParts(content).map(async part => {
+      if (part.type !== 'image') {
+        return { type: 'text', text: getTextContent([part]) };
+      }
+      const url = await resolveImageUrl(part);
+      if (url.startsWith('data:')) {
+        const { mimeType, data } = await loadImageData(part);
+        return { type: 'image', source: { type: 'base64', media_type: mimeType, data } };
+      }
+      return { type: 'image', source: { type: 'url', url } };
+    }));
+  }
+
+  private toAnthropicTools(request: GenerationRequest): { tools?: any[]; tool_choice?: any } {
+    if (!request.tools?.length) {
+      return {};
+    }
+
+    const toolChoice = request.toolChoice;
+    const mappedChoice =
+      toolChoice === 'required' ? { type: 'any' }
+      : toolChoice === 'none' ? { type: 'none' }
+      : typeof toolChoice === 'object' ? { type: 'tool', name: toolChoice.name }
+      : { type: 'auto' };
+
+    return {
+      tools: request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      })),
+      tool_choice: mappedChoice,
+    };
+  }
+
+  private mapStopReason(reason: string | null): FinishReason {
     switch (reason) {
       case 'end_turn':
       case 'stop_sequence':
         return 'stop';
       case 'max_tokens':
         return 'length';
+      case 'tool_use':
+        return 'tool_calls';
       default:
         return 'stop';
     }
@@ -6,6 +6,8 @@ import type {
   Token,
   EmbedOptions,
   Embedding,
+  RerankOptions,
+  RerankScore,
   ProviderCapabilities,
   CostProfile,
   LatencyProfile,
@@ -30,6 +32,9 @@ export interface ILLMProvider {
   // Embedding generation
   embed(texts: string[], options?: EmbedOptions): Promise<Embedding[]>;
   
+  // Cross-encoder reranking, on providers that expose a rerank endpoint
+  rerank?(query: string, documents: string[], options?: RerankOptions): Promise<RerankScore[]>;
+  
   // Provider metadata
   getCapabilities(): ProviderCapabilities;
   getCostPerToken(): CostProfile;
@@ -0,0 +1,246 @@
+import { getDb } from "../db";
+import {
+  agents,
+  budgetAlerts,
+  providerUsage,
+  providers,
+  usageBudgets,
+  workspaceProviders,
+  type BudgetAlert,
+  type InsertBudgetAlert,
+  type InsertProviderUsage,
+  type InsertUsageBudget,
+  type ProviderUsage,
+  type UsageBudget,
+} from "../../drizzle/schema";
+import { and, desc, eq, gte, isNotNull, lt, or, sql } from "drizzle-orm";
+import { fromMicros } from "./pricing";
+
+/**
+ * Usage Budget Database Operations
+ */
+
+export interface UsageFilter {
+  workspaceId: number;
+  providerId?: number | null;
+  agentId?: number | null;
+}
+
+export interface UsageTotals {
+  tokens: number;
+  // Dollars
+  cost: number;
+  requests: number;
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+export async function getBudgetsByWorkspace(workspaceId: number): Promise<UsageBudget[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select().from(usageBudgets).where(eq(usageBudgets.workspaceId, workspaceId)).orderBy(usageBudgets.id);
+}
+
+export async function getBudgetById(id: number): Promise<UsageBudget | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [budget] = await db.select().from(usageBudgets).where(eq(usageBudgets.id, id)).limit(1);
+  return budget ?? null;
+}
+
+export async function createBudget(data: InsertUsageBudget): Promise<UsageBudget> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [budget] = await db.insert(usageBudgets).values(data).returning();
+  return budget;
+}
+
+export async function updateBudget(id: number, data: Partial<InsertUsageBudget>): Promise<UsageBudget | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [budget] = await db
+    .update(usageBudgets)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(usageBudgets.id, id))
+    .returning();
+  return budget ?? null;
+}
+
+export async function deleteBudget(id: number): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(usageBudgets).where(eq(usageBudgets.id, id));
+}
+
+/**
+ * A workspace's provider assignments that carry a daily token quota
+ */
+export async function getAssignmentQuotas(workspaceId: number) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select({
+      id: workspaceProviders.id,
+      providerId: workspaceProviders.providerId,
+      providerName: providers.name,
+      quotaTokensPerDay: workspaceProviders.quotaTokensPerDay,
+    })
+    .from(workspaceProviders)
+    .innerJoin(providers, eq(workspaceProviders.providerId, providers.id))
+    .where(and(eq(workspaceProviders.workspaceId, workspaceId), isNotNull(workspaceProviders.quotaTokensPerDay)));
+}
+
+/**
+ * A workspace's agents with their configured limits
+ */
+export async function getAgentLimits(workspaceId: number) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select({ id: agents.id, name: agents.name, limits: agents.limits })
+    .from(agents)
+    .where(and(eq(agents.workspaceId, workspaceId), isNotNull(agents.limits)));
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+/**
+ * Tokens, cost and requests recorded since a point in time. Settled entries
+ * always count; reservations only while they are younger than liveSince.
+ */
+export async function getUsageTotals(filter: UsageFilter, since: Date, liveSince: Date): Promise<UsageTotals> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const conditions = [
+    eq(providerUsage.workspaceId, filter.workspaceId),
+    gte(providerUsage.createdAt, since),
+    or(eq(providerUsage.status, "settled"), gte(providerUsage.createdAt, liveSince)),
+  ];
+  if (filter.providerId) conditions.push(eq(providerUsage.providerId, filter.providerId));
+  if (filter.agentId) conditions.push(eq(providerUsage.agentId, filter.agentId));
+
+  const [totals] = await db
+    .select({
+      tokens: sql<string>`COALESCE(SUM(${providerUsage.tokensUsed}), 0)`,
+      costMicros: sql<string>`COALESCE(SUM(${providerUsage.costMicros}), 0)`,
+      requests: sql<string>`COUNT(*)`,
+    })
+    .from(providerUsage)
+    .where(and(...conditions));
+
+  return {
+    tokens: Number(totals?.tokens ?? 0),
+    cost: fromMicros(Number(totals?.costMicros ?? 0)),
+    requests: Number(totals?.requests ?? 0),
+  };
+}
+
+export async function insertUsageEntry(data: InsertProviderUsage): Promise<ProviderUsage> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [entry] = await db.insert(providerUsage).values(data).returning();
+  return entry;
+}
+
+export async function updateUsageEntry(id: number, data: Partial<InsertProviderUsage>): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(providerUsage).set(data).where(eq(providerUsage.id, id));
+}
+
+export async function deleteUsageEntry(id: number): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(providerUsage).where(eq(providerUsage.id, id));
+}
+
+/**
+ * Delete reservations created before a point in time; returns how many went
+ */
+export async function deleteReservationsBefore(before: Date): Promise<number> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const deleted = await db
+    .delete(providerUsage)
+    .where(and(eq(providerUsage.status, "reserved"), lt(providerUsage.createdAt, before)))
+    .returning({ id: providerUsage.id });
+  return deleted.length;
+}
+
+/**
+ * Most recent ledger entries for a workspace, newest first
+ */
+export async function getLedgerEntries(workspaceId: number, limit: number = 50) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select({
+      id: providerUsage.id,
+      providerId: providerUsage.providerId,
+      providerName: providers.name,
+      agentId: providerUsage.agentId,
+      requestId: providerUsage.requestId,
+      modelName: providerUsage.modelName,
+      tokensUsed: providerUsage.tokensUsed,
+      promptTokens: providerUsage.promptTokens,
+      completionTokens: providerUsage.completionTokens,
+      costMicros: providerUsage.costMicros,
+      latencyMs: providerUsage.latencyMs,
+      status: providerUsage.status,
+      createdAt: providerUsage.createdAt,
+    })
+    .from(providerUsage)
+    .innerJoin(providers, eq(providerUsage.providerId, providers.id))
+    .where(eq(providerUsage.workspaceId, workspaceId))
+    .orderBy(desc(providerUsage.createdAt))
+    .limit(limit);
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+/**
+ * Record an alert unless it was already raised for this budget, threshold
+ * and period. Returns null for duplicates.
+ */
+export async function recordBudgetAlert(data: InsertBudgetAlert): Promise<BudgetAlert | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [alert] = await db
+    .insert(budgetAlerts)
+    .values(data)
+    .onConflictDoNothing({ target: [budgetAlerts.budgetKey, budgetAlerts.threshold, budgetAlerts.periodStart] })
+    .returning();
+  return alert ?? null;
+}
+
+export async function getBudgetAlerts(workspaceId: number, limit: number = 20): Promise<BudgetAlert[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(budgetAlerts)
+    .where(eq(budgetAlerts.workspaceId, workspaceId))
+    .orderBy(desc(budgetAlerts.createdAt))
+    .limit(limit);
+}
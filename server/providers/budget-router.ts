@@ -0,0 +1,146 @@
+/**
+ * Usage Budgets — tRPC Router
+ *
+ *   - list: every budget in a workspace with its current period's usage,
+ *     including provider assignment quotas and agent limits
+ *   - create / update / delete: the workspace's own budgets
+ *   - alerts: 80% and 100% alerts raised for the workspace
+ *   - ledger: recent reserved and settled usage entries
+ */
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { protectedProcedure, router } from "../_core/trpc";
+import { hasWorkspaceAccess } from "../db";
+import {
+  createBudget,
+  deleteBudget,
+  getBudgetAlerts,
+  getBudgetById,
+  getLedgerEntries,
+  updateBudget,
+} from "./budget-db";
+import { listBudgetStatuses } from "./budgets";
+
+const limitFields = {
+  tokenLimit: z.number().int().positive().nullable().optional(),
+  costLimit: z.number().positive().nullable().optional(),
+  requestLimit: z.number().int().positive().nullable().optional(),
+};
+
+const budgetSchema = z
+  .object({
+    workspaceId: z.number(),
+    name: z.string().min(1).max(255),
+    scope: z.enum(["workspace", "provider", "agent"]),
+    providerId: z.number().nullable().optional(),
+    agentId: z.number().nullable().optional(),
+    period: z.enum(["minute", "hour", "day", "month"]),
+    ...limitFields,
+    mode: z.enum(["hard_stop", "degrade"]).default("hard_stop"),
+    enabled: z.boolean().default(true),
+  })
+  .refine((value) => value.tokenLimit || value.costLimit || value.requestLimit, {
+    message: "A budget needs a token, cost or request limit",
+  })
+  .refine((value) => value.scope !== "provider" || value.providerId, {
+    message: "A provider budget needs a providerId",
+  })
+  .refine((value) => value.scope !== "agent" || value.agentId, {
+    message: "An agent budget needs an agentId",
+  });
+
+async function assertWorkspaceAccess(userId: number, workspaceId: number) {
+  if (!(await hasWorkspaceAccess(userId, workspaceId))) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+  }
+}
+
+async function getAccessibleBudget(userId: number, id: number) {
+  const budget = await getBudgetById(id);
+  if (!budget) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Budget not found" });
+  }
+  await assertWorkspaceAccess(userId, budget.workspaceId);
+  return budget;
+}
+
+function toCost(value: number | null | undefined): string | null | undefined {
+  if (value === undefined || value === null) return value as null | undefined;
+  return value.toFixed(4);
+}
+
+export const budgetRouter = router({
+  list: protectedProcedure
+    .input(z.object({ workspaceId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      return listBudgetStatuses(input.workspaceId);
+    }),
+
+  create: protectedProcedure
+    .input(budgetSchema)
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+
+      return createBudget({
+        workspaceId: input.workspaceId,
+        name: input.name,
+        scope: input.scope,
+        providerId: input.scope === "provider" ? input.providerId : null,
+        agentId: input.scope === "agent" ? input.agentId : null,
+        period: input.period,
+        tokenLimit: input.tokenLimit ?? null,
+        costLimit: toCost(input.costLimit) ?? null,
+        requestLimit: input.requestLimit ?? null,
+        mode: input.mode,
+        enabled: input.enabled,
+        createdBy: ctx.user.id,
+      });
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        name: z.string().min(1).max(255).optional(),
+        period: z.enum(["minute", "hour", "day", "month"]).optional(),
+        ...limitFields,
+        mode: z.enum(["hard_stop", "degrade"]).optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, costLimit, ...changes } = input;
+      const budget = await getAccessibleBudget(ctx.user.id, id);
+
+      const tokenLimit = changes.tokenLimit !== undefined ? changes.tokenLimit : budget.tokenLimit;
+      const requestLimit = changes.requestLimit !== undefined ? changes.requestLimit : budget.requestLimit;
+      const cost = costLimit !== undefined ? costLimit : budget.costLimit;
+      if (!tokenLimit && !cost && !requestLimit) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A budget needs a token, cost or request limit" });
+      }
+      return updateBudget(id, { ...changes, costLimit: toCost(costLimit) });
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await getAccessibleBudget(ctx.user.id, input.id);
+      await deleteBudget(input.id);
+      return { success: true };
+    }),
+
+  alerts: protectedProcedure
+    .input(z.object({ workspaceId: z.number(), limit: z.number().int().min(1).max(100).default(20) }))
+    .query(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      return getBudgetAlerts(input.workspaceId, input.limit);
+    }),
+
+  ledger: protectedProcedure
+    .input(z.object({ workspaceId: z.number(), limit: z.number().int().min(1).max(200).default(50) }))
+    .query(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(ctx.user.id, input.workspaceId);
+      return getLedgerEntries(input.workspaceId, input.limit);
+    }),
+});
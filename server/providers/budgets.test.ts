@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDb: () => ({}) }));
+vi.mock("./budget-db", () => ({
+  getBudgetsByWorkspace: vi.fn(async () => []),
+  getAssignmentQuotas: vi.fn(async () => []),
+  getAgentLimits: vi.fn(async () => []),
+  getUsageTotals: vi.fn(async () => ({ tokens: 0, cost: 0, requests: 0 })),
+  insertUsageEntry: vi.fn(async (data: object) => ({ id: 77, ...data })),
+  updateUsageEntry: vi.fn(),
+  deleteUsageEntry: vi.fn(),
+  deleteReservationsBefore: vi.fn(async () => 2),
+  recordBudgetAlert: vi.fn(async (data: object) => ({ id: 1, ...data })),
+}));
+vi.mock("../_core/notification", () => ({ notifyOwner: vi.fn(async () => true) }));
+// No catalog prices, so usage is priced from the providers' CostProfile
+vi.mock("./pricing-db", () => ({ getModelPrices: vi.fn(async () => []) }));
+
+// Provider 1 costs $0.01 per 1k tokens in and out, provider 2 costs ten times as much
+const prices: Record<number, number> = { 1: 0.01, 2: 0.1 };
+const provider = (id: number) =>
+  ({
+    id,
+    name: `provider-${id}`,
+    type: "custom",
+    getCostPerToken: () => ({ inputCostPer1kTokens: prices[id], outputCostPer1kTokens: prices[id] }),
+  }) as any;
+vi.mock("./registry", () => ({
+  getProviderRegistry: () => ({ getProvider: (id: number) => (prices[id] !== undefined ? provider(id) : undefined) }),
+}));
+
+import * as budgetDb from "./budget-db";
+import { notifyOwner } from "../_core/notification";
+import {
+  agentLimitRules,
+  BudgetExceededError,
+  checkBudgets,
+  getPeriodStart,
+  raiseBudgetAlerts,
+  releaseUsage,
+  reserveRequest,
+  settleUsage,
+  sweepExpiredReservations,
+} from "./budgets";
+
+const budgetRow = (extra: Record<string, unknown> = {}) =>
+  ({
+    id: 4,
+    workspaceId: 5,
+    name: "Monthly spend",
+    scope: "workspace",
+    providerId: null,
+    agentId: null,
+    period: "month",
+    tokenLimit: null,
+    costLimit: "10.0000",
+    requestLimit: null,
+    mode: "hard_stop",
+    enabled: true,
+    ...extra,
+  }) as any;
+
+const estimate = { promptTokens: 1000, completionTokens: 1000 };
+
+describe("getPeriodStart", () => {
+  it("should start periods on UTC calendar boundaries", () => {
+    const now = new Date("2026-03-18T14:27:45.123Z");
+
+    expect(getPeriodStart("minute", now).toISOString()).toBe("2026-03-18T14:27:00.000Z");
+    expect(getPeriodStart("day", now).toISOString()).toBe("2026-03-18T00:00:00.000Z");
+    expect(getPeriodStart("month", now).toISOString()).toBe("2026-03-01T00:00:00.000Z");
+  });
+});
+
+describe("agentLimitRules", () => {
+  it("should turn an agent's limits into one hard-stop rule per period", () => {
+    const rules = agentLimitRules(5, {
+      id: 9,
+      name: "Triage",
+      limits: { maxRequestsPerMinute: 20, maxCostPerDay: 5, maxCostPerMonth: 50, maxCostPerRequest: 0.5 },
+    });
+
+    expect(rules.map((rule) => [rule.period, rule.requestLimit, rule.costLimit])).toEqual([
+      ["minute", 20, null],
+      ["day", null, 5],
+      ["month", null, 50],
+    ]);
+    expect(rules.every((rule) => rule.scope === "agent" && rule.agentId === 9 && rule.mode === "hard_stop")).toBe(true);
+  });
+});
+
+describe("checkBudgets", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should reject requests once a hard-stop workspace budget is spent", async () => {
+    vi.mocked(budgetDb.getBudgetsByWorkspace).mockResolvedValueOnce([budgetRow()]);
+    vi.mocked(budgetDb.getUsageTotals).mockResolvedValueOnce({ tokens: 90000, cost: 10.02, requests: 40 });
+
+    const error = await checkBudgets({ workspaceId: 5 }, [1, 2], estimate).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.budget).toMatchObject({ key: "budget:4", exhausted: true });
+    expect(budgetDb.getUsageTotals).toHaveBeenCalledWith(
+      { workspaceId: 5, providerId: null, agentId: null },
+      expect.any(Date),
+      expect.any(Date)
+    );
+  });
+
+  it("should degrade instead of rejecting when the spent budget is in degrade mode", async () => {
+    vi.mocked(budgetDb.getBudgetsByWorkspace).mockResolvedValueOnce([budgetRow({ mode: "degrade" })]);
+    vi.mocked(budgetDb.getUsageTotals).mockResolvedValueOnce({ tokens: 0, cost: 12, requests: 40 });
+
+    const decision = await checkBudgets({ workspaceId: 5 }, [1, 2], estimate);
+
+    expect(decision.degradeReason).toContain("Monthly spend");
+    expect(decision.blockedProviders).toEqual({});
+  });
+
+  it("should take a provider out of rotation when its daily token quota is spent", async () => {
+    vi.mocked(budgetDb.getAssignmentQuotas).mockResolvedValueOnce([
+      { id: 3, providerId: 2, providerName: "OpenAI", quotaTokensPerDay: 50000 },
+      { id: 6, providerId: 8, providerName: "Unused", quotaTokensPerDay: 10 },
+    ]);
+    vi.mocked(budgetDb.getUsageTotals).mockResolvedValueOnce({ tokens: 50500, cost: 1, requests: 12 });
+
+    const decision = await checkBudgets({ workspaceId: 5 }, [1, 2], estimate);
+
+    // Only quotas of candidate providers are measured
+    expect(budgetDb.getUsageTotals).toHaveBeenCalledTimes(1);
+    expect(decision.blockedProviders).toEqual({ 2: expect.stringContaining("OpenAI daily token quota") });
+    expect(decision.degradeReason).toBeNull();
+  });
+
+  it("should block providers whose estimated cost exceeds an agent's per-request limit", async () => {
+    const decision = await checkBudgets(
+      { workspaceId: 5, agent: { id: 9, name: "Triage", limits: { maxCostPerRequest: 0.05 } } },
+      [1, 2],
+      estimate
+    );
+
+    expect(Object.keys(decision.blockedProviders)).toEqual(["2"]);
+  });
+});
+
+describe("raiseBudgetAlerts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should raise each reached threshold once and notify only for new alerts", async () => {
+    const status = {
+      ...agentLimitRules(5, { id: 9, name: "Triage", limits: { maxRequestsPerMinute: 10 } })[0],
+      periodStart: new Date("2026-03-18T14:27:00.000Z"),
+      used: { tokens: 100, cost: 0, requests: 10 },
+      utilization: 1,
+      exhausted: true,
+    };
+    vi.mocked(budgetDb.recordBudgetAlert).mockResolvedValueOnce(null);
+
+    await raiseBudgetAlerts([status]);
+
+    expect(vi.mocked(budgetDb.recordBudgetAlert).mock.calls.map(([alert]) => alert.threshold)).toEqual([80, 100]);
+    expect(notifyOwner).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(notifyOwner).mock.calls[0][0].title).toBe("Budget 100% reached: Triage limits per minute");
+  });
+});
+
+describe("reserveRequest", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should move a degraded request to the cheapest provider and reserve its estimate", async () => {
+    vi.mocked(budgetDb.getBudgetsByWorkspace).mockResolvedValueOnce([budgetRow({ mode: "degrade" })]);
+    vi.mocked(budgetDb.getUsageTotals).mockResolvedValueOnce({ tokens: 0, cost: 10, requests: 40 });
+
+    const { provider: chosen, reservation } = await reserveRequest(
+      { workspaceId: 5, agent: { id: 9, name: "Triage" } },
+      [provider(2), provider(1)],
+      estimate
+    );
+
+    expect(chosen.id).toBe(1);
+    expect(budgetDb.insertUsageEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ providerId: 1, agentId: 9, tokensUsed: 2000, costMicros: 20000, status: "reserved" })
+    );
+    expect(reservation.entryId).toBe(77);
+  });
+
+  it("should settle to the actual usage, or release a failed request's reservation", async () => {
+    const { reservation } = await reserveRequest({ workspaceId: 5 }, [provider(2)], estimate);
+
+    await settleUsage(reservation, { model: "gpt-4o", promptTokens: 300, completionTokens: 200, latencyMs: 900 });
+    expect(budgetDb.updateUsageEntry).toHaveBeenCalledWith(77, {
+      providerId: 2,
+      modelName: "gpt-4o",
+      tokensUsed: 500,
+      promptTokens: 300,
+      completionTokens: 200,
+      cachedPromptTokens: 0,
+      costMicros: 50000,
+      priceId: null,
+      latencyMs: 900,
+      status: "settled",
+    });
+
+    await releaseUsage(reservation);
+    expect(budgetDb.deleteUsageEntry).toHaveBeenCalledWith(77);
+  });
+
+  it("should sweep reservations older than their time to live", async () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+
+    await expect(sweepExpiredReservations(now)).resolves.toBe(2);
+    expect(budgetDb.deleteReservationsBefore).toHaveBeenCalledWith(new Date("2026-03-10T11:50:00Z"));
+  });
+
+  it("should refuse when every candidate is over budget", async () => {
+    vi.mocked(budgetDb.getAssignmentQuotas).mockResolvedValueOnce([
+      { id: 3, providerId: 1, providerName: "Local", quotaTokensPerDay: 1000 },
+    ]);
+    vi.mocked(budgetDb.getUsageTotals).mockResolvedValueOnce({ tokens: 1000, cost: 0, requests: 3 });
+
+    await expect(reserveRequest({ workspaceId: 5 }, [provider(1)], estimate)).rejects.toThrow(
+      /No provider is within budget/
+    );
+    expect(budgetDb.insertUsageEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,609 @@
+/**
+ * Usage Budget Ledger
+ *
+ * Token, cost and request budgets charged against provider_usage. A budgeted
+ * request is checked before dispatch and reserves its estimated usage, so
+ * concurrent requests and agent tool loops see each other's spend; it then
+ * settles to its actual usage, or releases the reservation when it fails.
+ * Reservations stop counting after RESERVATION_TTL_MS so a request that never
+ * settles cannot hold a budget forever, and are swept once expired.
+ *
+ * Budgets come from usage_budgets rows, provider assignments' daily token
+ * quota and agents' own limits. A spent provider budget takes that provider
+ * out of rotation. A spent workspace or agent budget rejects requests
+ * (hard_stop) or sends them to the cheapest eligible provider (degrade);
+ * agent limits and assignment quotas always hard-stop. Alerts are raised
+ * once per budget and period at each of ALERT_THRESHOLDS.
+ */
+import type { BudgetMode, BudgetPeriod, BudgetScope, UsageBudget, UsageKind } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { notifyOwner } from "../_core/notification";
+import type { ILLMProvider } from "./base";
+import { getTextContent } from "./content";
+import { priceUsage, toMicros } from "./pricing";
+import { getProviderRegistry } from "./registry";
+import type { Message } from "./types";
+import * as budgetDb from "./budget-db";
+import type { UsageTotals } from "./budget-db";
+
+export const ALERT_THRESHOLDS = [80, 100];
+
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+const RESERVATION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_COMPLETION_TOKENS = 1000;
+// Counts usage that providers don't report, e.g. for llama.cpp streams
+const USAGE_TOKENIZER = "tiktoken:cl100k_base";
+// After the tokenizer fails to load, usage is counted by characters for a while
+const USAGE_TOKENIZER_RETRY_MS = 10 * 60 * 1000;
+let usageTokenizerRetryAt = 0;
+
+// The runtime-enforced part of an agent's AgentLimits (agent-schema.ts)
+export interface AgentBudgetLimits {
+  maxRequestsPerMinute?: number;
+  maxRequestsPerHour?: number;
+  maxRequestsPerDay?: number;
+  maxCostPerRequest?: number;
+  maxCostPerDay?: number;
+  maxCostPerMonth?: number;
+}
+
+export interface BudgetRule {
+  // Stable identity for alert de-duplication
+  key: string;
+  name: string;
+  // The usage_budgets row, when the rule has one
+  budgetId: number | null;
+  scope: BudgetScope;
+  workspaceId: number;
+  providerId: number | null;
+  agentId: number | null;
+  period: BudgetPeriod;
+  tokenLimit: number | null;
+  costLimit: number | null;
+  requestLimit: number | null;
+  mode: BudgetMode;
+}
+
+export interface BudgetStatus extends BudgetRule {
+  periodStart: Date;
+  used: UsageTotals;
+  // Largest share of any of the rule's limits used so far; 1 means spent
+  utilization: number;
+  exhausted: boolean;
+}
+
+export interface BudgetAgent {
+  id: number;
+  name: string;
+  limits?: AgentBudgetLimits | null;
+}
+
+export interface BudgetScopeInput {
+  workspaceId: number;
+  agent?: BudgetAgent | null;
+}
+
+export interface RequestEstimate {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface BudgetDecision {
+  statuses: BudgetStatus[];
+  // Providers taken out of rotation, with the reason
+  blockedProviders: Record<number, string>;
+  // Set when a spent degrade-mode budget sends requests to the cheapest provider
+  degradeReason: string | null;
+}
+
+export interface BudgetReservation {
+  // The reserved provider_usage entry; null when there is no database
+  entryId: number | null;
+  workspaceId: number;
+  providerId: number;
+  agentId: number | null;
+  estimate: RequestEstimate;
+  statuses: BudgetStatus[];
+}
+
+export interface SettledUsage {
+  // When a fallback provider served the request
+  providerId?: number;
+  model?: string;
+  kind?: UsageKind;
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens?: number;
+  latencyMs?: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string, readonly budget: BudgetStatus | null = null) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Start of the calendar period (UTC) a budget is currently counting
+ */
+export function getPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  const start = new Date(now);
+  switch (period) {
+    case "minute":
+      start.setUTCSeconds(0, 0);
+      break;
+    case "hour":
+      start.setUTCMinutes(0, 0, 0);
+      break;
+    case "day":
+      start.setUTCHours(0, 0, 0, 0);
+      break;
+    case "month":
+      start.setUTCDate(1);
+      start.setUTCHours(0, 0, 0, 0);
+      break;
+  }
+  return start;
+}
+
+function positive(value: unknown): number | null {
+  return typeof value === "number" && value > 0 ? value : null;
+}
+
+function budgetRule(row: UsageBudget): BudgetRule {
+  return {
+    key: `budget:${row.id}`,
+    name: row.name,
+    budgetId: row.id,
+    scope: row.scope,
+    workspaceId: row.workspaceId,
+    providerId: row.providerId,
+    agentId: row.agentId,
+    period: row.period,
+    tokenLimit: row.tokenLimit,
+    costLimit: row.costLimit === null ? null : parseFloat(row.costLimit),
+    requestLimit: row.requestLimit,
+    mode: row.mode,
+  };
+}
+
+function assignmentRule(
+  workspaceId: number,
+  quota: { id: number; providerId: number; providerName: string; quotaTokensPerDay: number }
+): BudgetRule {
+  return {
+    key: `assignment:${quota.id}`,
+    name: `${quota.providerName} daily token quota`,
+    budgetId: null,
+    scope: "provider",
+    workspaceId,
+    providerId: quota.providerId,
+    agentId: null,
+    period: "day",
+    tokenLimit: quota.quotaTokensPerDay,
+    costLimit: null,
+    requestLimit: null,
+    mode: "hard_stop",
+  };
+}
+
+/**
+ * The request-rate and spend limits an agent carries, as one rule per period
+ */
+export function agentLimitRules(workspaceId: number, agent: BudgetAgent): BudgetRule[] {
+  const limits = agent.limits;
+  if (!limits) return [];
+
+  const periods: Array<[BudgetPeriod, number | null, number | null]> = [
+    ["minute", positive(limits.maxRequestsPerMinute), null],
+    ["hour", positive(limits.maxRequestsPerHour), null],
+    ["day", positive(limits.maxRequestsPerDay), positive(limits.maxCostPerDay)],
+    ["month", null, positive(limits.maxCostPerMonth)],
+  ];
+  return periods
+    .filter(([, requestLimit, costLimit]) => requestLimit !== null || costLimit !== null)
+    .map(([period, requestLimit, costLimit]) => ({
+      key: `agent:${agent.id}:${period}`,
+      name: `${agent.name} limits per ${period}`,
+      budgetId: null,
+      scope: "agent" as const,
+      workspaceId,
+      providerId: null,
+      agentId: agent.id,
+      period,
+      tokenLimit: null,
+      costLimit,
+      requestLimit,
+      mode: "hard_stop" as const,
+    }));
+}
+
+/**
+ * Share of each set limit that has been used, and whether any is spent
+ */
+export function measureUsage(rule: BudgetRule, used: UsageTotals): Pick<BudgetStatus, "utilization" | "exhausted"> {
+  const ratios: number[] = [];
+  if (rule.tokenLimit) ratios.push(used.tokens / rule.tokenLimit);
+  if (rule.costLimit) ratios.push(used.cost / rule.costLimit);
+  if (rule.requestLimit) ratios.push(used.requests / rule.requestLimit);
+
+  const utilization = ratios.length > 0 ? Math.max(...ratios) : 0;
+  return { utilization, exhausted: utilization >= 1 };
+}
+
+async function getBudgetStatus(rule: BudgetRule, now: Date): Promise<BudgetStatus> {
+  const periodStart = getPeriodStart(rule.period, now);
+  const used = await budgetDb.getUsageTotals(
+    {
+      workspaceId: rule.workspaceId,
+      providerId: rule.scope === "provider" ? rule.providerId : null,
+      agentId: rule.scope === "agent" ? rule.agentId : null,
+    },
+    periodStart,
+    new Date(now.getTime() - RESERVATION_TTL_MS)
+  );
+  return { ...rule, periodStart, used, ...measureUsage(rule, used) };
+}
+
+/**
+ * A workspace's budget rows and assignment quotas, plus the agent's limits
+ */
+async function loadBudgetRules(workspaceId: number, agent?: BudgetAgent | null): Promise<BudgetRule[]> {
+  const [rows, quotas] = await Promise.all([
+    budgetDb.getBudgetsByWorkspace(workspaceId),
+    budgetDb.getAssignmentQuotas(workspaceId),
+  ]);
+
+  return [
+    ...rows.filter((row) => row.enabled).map(budgetRule),
+    ...quotas
+      .filter((quota) => (quota.quotaTokensPerDay ?? 0) > 0)
+      .map((quota) => assignmentRule(workspaceId, { ...quota, quotaTokensPerDay: quota.quotaTokensPerDay! })),
+    ...(agent ? agentLimitRules(workspaceId, agent) : []),
+  ];
+}
+
+/**
+ * Budgets that apply to a request from this scope on any of the given
+ * providers
+ */
+async function getBudgetRules(scope: BudgetScopeInput, providerIds: number[]): Promise<BudgetRule[]> {
+  const rules = await loadBudgetRules(scope.workspaceId, scope.agent);
+  return rules.filter((rule) => {
+    switch (rule.scope) {
+      case "workspace":
+        return true;
+      case "provider":
+        return providerIds.includes(rule.providerId!);
+      case "agent":
+        return rule.agentId === scope.agent?.id;
+    }
+  });
+}
+
+/**
+ * Every enabled budget in a workspace with its current period's usage,
+ * including each agent's limits
+ */
+export async function listBudgetStatuses(workspaceId: number): Promise<BudgetStatus[]> {
+  const [rules, agents] = await Promise.all([
+    loadBudgetRules(workspaceId),
+    budgetDb.getAgentLimits(workspaceId),
+  ]);
+  const agentRules = agents.flatMap((agent) =>
+    agentLimitRules(workspaceId, { id: agent.id, name: agent.name, limits: agent.limits as AgentBudgetLimits })
+  );
+
+  const now = new Date();
+  return Promise.all([...rules, ...agentRules].map((rule) => getBudgetStatus(rule, now)));
+}
+
+/**
+ * Rough token estimate for a request: about four characters per prompt
+ * token, and the full completion allowance
+ */
+export function estimateRequest(messages: Message[], maxTokens?: number): RequestEstimate {
+  const characters = messages.reduce((sum, message) => sum + getTextContent(message.content).length, 0);
+  return {
+    promptTokens: Math.ceil(characters / 4),
+    completionTokens: maxTokens ?? DEFAULT_COMPLETION_TOKENS,
+  };
+}
+
+/**
+ * Token counts of a request whose provider reported no usage, measured with
+ * USAGE_TOKENIZER; falls back to four characters per token while the
+ * tokenizer can't be loaded
+ */
+export async function countUsage(
+  messages: Message[],
+  completion: string
+): Promise<{ promptTokens: number; completionTokens: number }> {
+  const prompt = messages.map((message) => getTextContent(message.content)).join("\n");
+  if (Date.now() >= usageTokenizerRetryAt) {
+    try {
+      const { getTokenizer } = await import("../documents/tokenizer-service");
+      const tokenizer = await getTokenizer(USAGE_TOKENIZER);
+      return { promptTokens: tokenizer.count(prompt), completionTokens: tokenizer.count(completion) };
+    } catch (error) {
+      usageTokenizerRetryAt = Date.now() + USAGE_TOKENIZER_RETRY_MS;
+      console.warn(`[Budgets] Counting usage by characters, ${USAGE_TOKENIZER} unavailable:`, error);
+    }
+  }
+  return { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(completion.length / 4) };
+}
+
+/**
+ * Cost of a request on a provider from its per-token prices; unregistered
+ * providers cost nothing
+ */
+export function estimateCost(providerId: number, usage: RequestEstimate): number {
+  const provider = getProviderRegistry().getProvider(providerId);
+  if (!provider) return 0;
+
+  const prices = provider.getCostPerToken();
+  return (
+    (usage.promptTokens / 1000) * prices.inputCostPer1kTokens +
+    (usage.completionTokens / 1000) * prices.outputCostPer1kTokens
+  );
+}
+
+/**
+ * Provider ids ordered from cheapest to most expensive for this request,
+ * keeping the given order between equally priced providers
+ */
+export function rankByCost(providerIds: number[], estimate: RequestEstimate): number[] {
+  return providerIds
+    .map((id, index) => ({ id, index, cost: estimateCost(id, estimate) }))
+    .sort((a, b) => a.cost - b.cost || a.index - b.index)
+    .map((entry) => entry.id);
+}
+
+/**
+ * Raise each threshold alert a budget has reached, once per period
+ */
+export async function raiseBudgetAlerts(statuses: BudgetStatus[]): Promise<void> {
+  for (const status of statuses) {
+    const percent = Math.round(status.utilization * 100);
+    for (const threshold of ALERT_THRESHOLDS) {
+      if (status.utilization * 100 < threshold) continue;
+
+      const alert = await budgetDb.recordBudgetAlert({
+        workspaceId: status.workspaceId,
+        budgetKey: status.key,
+        budgetName: status.name,
+        threshold,
+        periodStart: status.periodStart,
+        utilization: status.utilization.toFixed(4),
+        tokensUsed: status.used.tokens,
+        cost: status.used.cost.toFixed(6),
+        requests: status.used.requests,
+      });
+      if (!alert) continue;
+
+      const action =
+        threshold < 100
+          ? "No action has been taken yet."
+          : status.scope === "provider"
+            ? "The provider is out of rotation for this workspace until the period ends."
+            : status.mode === "degrade"
+              ? "Requests are now routed to the cheapest eligible provider."
+              : "Requests are now rejected until the period ends.";
+      console.warn(`[Budgets] ${status.name} reached ${percent}% of its budget for this ${status.period}`);
+      notifyOwner({
+        title: `Budget ${threshold}% reached: ${status.name}`,
+        content: [
+          `Workspace ${status.workspaceId}: "${status.name}" has used ${percent}% of its budget for the ${status.period} starting ${status.periodStart.toISOString()}.`,
+          `Used: ${status.used.tokens} tokens, $${status.used.cost.toFixed(4)}, ${status.used.requests} requests.`,
+          action,
+        ].join("\n"),
+      }).catch((error) => console.warn("[Budgets] Failed to notify owner:", error.message));
+    }
+  }
+}
+
+function raiseAlertsInBackground(statuses: BudgetStatus[]) {
+  raiseBudgetAlerts(statuses).catch((error) => console.error("[Budgets] Failed to raise alerts:", error));
+}
+
+/**
+ * Check the budgets that apply to a request before it is dispatched to one
+ * of the candidate providers. Throws BudgetExceededError when a spent
+ * hard_stop budget covers the whole request.
+ */
+export async function checkBudgets(
+  scope: BudgetScopeInput,
+  providerIds: number[],
+  estimate: RequestEstimate
+): Promise<BudgetDecision> {
+  const decision: BudgetDecision = { statuses: [], blockedProviders: {}, degradeReason: null };
+  if (!getDb()) return decision;
+
+  const now = new Date();
+  const rules = await getBudgetRules(scope, providerIds);
+  decision.statuses = await Promise.all(rules.map((rule) => getBudgetStatus(rule, now)));
+  raiseAlertsInBackground(decision.statuses);
+
+  for (const status of decision.statuses) {
+    if (!status.exhausted) continue;
+    if (status.scope === "provider") {
+      decision.blockedProviders[status.providerId!] ??= `Budget "${status.name}" spent - provider ineligible`;
+    } else if (status.mode === "hard_stop") {
+      throw new BudgetExceededError(`Budget "${status.name}" is spent for this ${status.period}`, status);
+    } else {
+      decision.degradeReason ??= `Budget "${status.name}" spent - degraded to cheapest provider`;
+    }
+  }
+
+  const maxCostPerRequest = positive(scope.agent?.limits?.maxCostPerRequest);
+  if (maxCostPerRequest !== null) {
+    for (const providerId of providerIds) {
+      if (!decision.blockedProviders[providerId] && estimateCost(providerId, estimate) > maxCostPerRequest) {
+        decision.blockedProviders[providerId] = `Estimated cost exceeds the agent's $${maxCostPerRequest} per-request limit - provider ineligible`;
+      }
+    }
+  }
+
+  return decision;
+}
+
+/**
+ * Hold a request's estimated usage against its budgets until it settles
+ */
+export async function reserveUsage(
+  decision: BudgetDecision,
+  request: {
+    workspaceId: number;
+    providerId: number;
+    agentId?: number | null;
+    requestId?: string;
+    model?: string;
+    estimate: RequestEstimate;
+  }
+): Promise<BudgetReservation> {
+  const reservation: BudgetReservation = {
+    entryId: null,
+    workspaceId: request.workspaceId,
+    providerId: request.providerId,
+    agentId: request.agentId ?? null,
+    estimate: request.estimate,
+    statuses: decision.statuses,
+  };
+  if (!getDb()) return reservation;
+
+  const entry = await budgetDb.insertUsageEntry({
+    workspaceId: request.workspaceId,
+    providerId: request.providerId,
+    agentId: request.agentId ?? null,
+    requestId: request.requestId,
+    modelName: request.model,
+    tokensUsed: request.estimate.promptTokens + request.estimate.completionTokens,
+    promptTokens: request.estimate.promptTokens,
+    completionTokens: request.estimate.completionTokens,
+    costMicros: toMicros(estimateCost(request.providerId, request.estimate)),
+    status: "reserved",
+  });
+  reservation.entryId = entry.id;
+  return reservation;
+}
+
+/**
+ * Replace a reservation with the request's actual usage, priced from the
+ * model price catalog. Without usage (an abandoned stream) the reserved
+ * estimate is charged.
+ */
+export async function settleUsage(reservation: BudgetReservation, usage?: SettledUsage): Promise<void> {
+  if (reservation.entryId === null) return;
+
+  try {
+    if (usage) {
+      const providerId = usage.providerId ?? reservation.providerId;
+      const priced = await priceUsage(providerId, usage.model, usage);
+      await budgetDb.updateUsageEntry(reservation.entryId, {
+        providerId,
+        modelName: usage.model,
+        tokensUsed: usage.promptTokens + usage.completionTokens,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        cachedPromptTokens: usage.cachedPromptTokens ?? 0,
+        costMicros: priced.costMicros,
+        priceId: priced.priceId,
+        latencyMs: usage.latencyMs,
+        status: "settled",
+        // Reservations are recorded as chat usage until told otherwise
+        ...(usage.kind ? { kind: usage.kind } : {}),
+      });
+    } else {
+      await budgetDb.updateUsageEntry(reservation.entryId, { status: "settled" });
+    }
+  } catch (error) {
+    // Don't fail a finished request; the reservation still counts until it expires
+    console.error("[Budgets] Failed to settle usage:", error);
+    return;
+  }
+
+  // Re-measure the budgets this request counted against for alerts
+  const now = new Date();
+  Promise.all(reservation.statuses.map((status) => getBudgetStatus(status, now)))
+    .then(raiseBudgetAlerts)
+    .catch((error) => console.error("[Budgets] Failed to raise alerts:", error));
+}
+
+/**
+ * Drop the reservation of a request that failed before using anything
+ */
+export async function releaseUsage(reservation: BudgetReservation): Promise<void> {
+  if (reservation.entryId === null) return;
+
+  try {
+    await budgetDb.deleteUsageEntry(reservation.entryId);
+  } catch (error) {
+    console.error("[Budgets] Failed to release reservation:", error);
+  }
+}
+
+/**
+ * Delete reservations that expired without being settled or released, e.g.
+ * when the process died mid-request
+ */
+export async function sweepExpiredReservations(now: Date = new Date()): Promise<number> {
+  try {
+    const swept = await budgetDb.deleteReservationsBefore(new Date(now.getTime() - RESERVATION_TTL_MS));
+    if (swept > 0) {
+      console.log(`[Budgets] Swept ${swept} expired reservation(s)`);
+    }
+    return swept;
+  } catch (error) {
+    console.warn("[Budgets] Failed to sweep expired reservations:", error);
+    return 0;
+  }
+}
+
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+export function startReservationSweep() {
+  if (sweepTimer) return;
+  sweepTimer = setInterval(sweepExpiredReservations, RESERVATION_SWEEP_INTERVAL_MS);
+}
+
+/**
+ * Pick the provider a request runs on and reserve its usage: the first
+ * candidate within budget, or the cheapest one while a degrade-mode budget
+ * is spent
+ */
+export async function reserveRequest(
+  scope: BudgetScopeInput,
+  candidates: ILLMProvider[],
+  estimate: RequestEstimate,
+  request: { requestId?: string; model?: string } = {}
+): Promise<{ provider: ILLMProvider; reservation: BudgetReservation }> {
+  const decision = await checkBudgets(
+    scope,
+    candidates.map((provider) => provider.id),
+    estimate
+  );
+
+  const allowed = candidates.filter((provider) => !decision.blockedProviders[provider.id]);
+  if (allowed.length === 0) {
+    const reasons = Object.values(decision.blockedProviders);
+    throw new BudgetExceededError(`No provider is within budget: ${reasons[0] ?? "no candidates"}`);
+  }
+
+  let provider = allowed[0];
+  if (decision.degradeReason) {
+    const cheapest = rankByCost(allowed.map((candidate) => candidate.id), estimate)[0];
+    provider = allowed.find((candidate) => candidate.id === cheapest) ?? provider;
+    console.log(`[Budgets] ${decision.degradeReason}: using ${provider.name}`);
+  }
+
+  const reservation = await reserveUsage(decision, {
+    workspaceId: scope.workspaceId,
+    providerId: provider.id,
+    agentId: scope.agent?.id,
+    requestId: request.requestId,
+    model: request.model,
+    estimate,
+  });
+  return { provider, reservation };
+}
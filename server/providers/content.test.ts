@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { getStorageKeyOwner, getTextContent, hasImageContent, loadImageData, toOpenAIContent } from "./content";
+import type { ContentPart } from "./types";
+
+const parts: ContentPart[] = [
+  { type: "text", text: "What is in this screenshot?" },
+  { type: "image", url: "data:image/png;base64,iVBORw0KGgo=", name: "screen.png" },
+  { type: "document", name: "spec.pdf" },
+];
+
+describe("getTextContent", () => {
+  it("should pass strings through and describe non-text parts", () => {
+    expect(getTextContent("hello")).toBe("hello");
+    expect(getTextContent(parts)).toBe(
+      "What is in this screenshot?\n[Image: screen.png]\n[Document: spec.pdf]"
+    );
+  });
+});
+
+describe("hasImageContent", () => {
+  it("should detect image parts only", () => {
+    expect(hasImageContent([{ role: "user", content: parts }])).toBe(true);
+    expect(hasImageContent([{ role: "user", content: "[image]" }])).toBe(false);
+    expect(hasImageContent([{ role: "user", content: [parts[0], parts[2]] }])).toBe(false);
+  });
+});
+
+describe("loadImageData", () => {
+  it("should decode data URLs without fetching", async () => {
+    await expect(loadImageData(parts[1])).resolves.toEqual({
+      mimeType: "image/png",
+      data: "iVBORw0KGgo=",
+    });
+  });
+
+  it("should refuse image URLs that point at internal addresses", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    await expect(loadImageData({ type: "image", url: "https://169.254.169.254/latest/meta-data" })).rejects.toThrow(
+      /Failed to fetch image/
+    );
+    await expect(loadImageData({ type: "image", url: "file:///etc/passwd" })).rejects.toThrow(/Failed to fetch image/);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+});
+
+describe("getStorageKeyOwner", () => {
+  it("should read the owner from the upload path and reject anything else", () => {
+    expect(getStorageKeyOwner("workspace-4/attachments/a.png")).toEqual({ workspaceId: 4 });
+    expect(getStorageKeyOwner("/user-9/attachments/a.png")).toEqual({ userId: 9 });
+    expect(getStorageKeyOwner("chat/attachments/a.png")).toBeNull();
+    expect(getStorageKeyOwner("workspace-4/../workspace-5/attachments/a.png")).toBeNull();
+    expect(getStorageKeyOwner("workspace-4")).toBeNull();
+  });
+});
+
+describe("toOpenAIContent", () => {
+  it("should encode images as image_url parts", async () => {
+    const content = await toOpenAIContent(parts);
+
+    expect(content).toEqual([
+      { type: "text", text: "What is in this screenshot?" },
+      { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+      { type: "text", text: "[Document: spec.pdf]" },
+    ]);
+  });
+});
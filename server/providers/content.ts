@@ -0,0 +1,143 @@
+// Provider Hub - Multimodal Content Helpers
+//
+// Message content is either a plain string or an array of content parts.
+// Image parts point at an http(s)/data URL or at an upload key from
+// server/storage.ts; each adapter encodes them the way its API expects.
+// Upload keys are scoped to their owner (workspace-<id>/... or user-<id>/...)
+// and are checked against the caller where the request comes in.
+
+import { storageGet } from '../storage';
+import { safeFetch } from '../routers/ssrf-guard';
+import type { ContentPart, Message, MessageContent } from './types';
+
+// Same ceiling the OpenAI and Anthropic vision APIs put on one image
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+export type StorageKeyOwner = { workspaceId: number } | { userId: number };
+
+export function toContentParts(content: MessageContent): ContentPart[] {
+  if (Array.isArray(content)) return content;
+  return content ? [{ type: 'text', text: content }] : [];
+}
+
+function describePart(part: ContentPart): string {
+  if (part.type === 'text') return part.text || '';
+  if (part.type === 'document') return part.text || `[Document: ${part.name || part.url || part.documentId}]`;
+  return `[Image: ${part.name || 'attachment'}]`;
+}
+
+/**
+ * Text-only view of a message, with images and unresolved documents as placeholders
+ */
+export function getTextContent(content: MessageContent): string {
+  if (!Array.isArray(content)) return content ?? '';
+  return content.map(describePart).filter(Boolean).join('\n');
+}
+
+export function hasImageContent(messages: Message[]): boolean {
+  return messages.some(m => Array.isArray(m.content) && m.content.some(part => part.type === 'image'));
+}
+
+/**
+ * Owner of an upload key from its path, or null for keys outside the owner
+ * scopes (including any that try to climb out of one)
+ */
+export function getStorageKeyOwner(storageKey: string): StorageKeyOwner | null {
+  const match = storageKey.replace(/^\/+/, '').match(/^(workspace|user)-(\d+)\/(.+)$/);
+  if (!match || match[3].split('/').some(segment => segment === '..' || segment === '.')) {
+    return null;
+  }
+  return match[1] === 'workspace' ? { workspaceId: Number(match[2]) } : { userId: Number(match[2]) };
+}
+
+/**
+ * Resolve an image part to a URL, turning an upload key into a download URL
+ */
+export async function resolveImageUrl(part: ContentPart): Promise<string> {
+  if (part.url) return part.url;
+  if (part.storageKey) {
+    if (!getStorageKeyOwner(part.storageKey)) {
+      throw new Error(`Invalid attachment key: ${part.storageKey}`);
+    }
+    return (await storageGet(part.storageKey)).url;
+  }
+  throw new Error('Image content part requires a url or storageKey');
+}
+
+/**
+ * Load an image part as base64, for APIs that only accept inline image data
+ */
+export async function loadImageData(part: ContentPart): Promise<{ mimeType: string; data: string }> {
+  const url = await resolveImageUrl(part);
+
+  const dataUrl = url.match(/^data:([^;,]+);base64,(.*)$/);
+  if (dataUrl) {
+    return { mimeType: dataUrl[1], data: dataUrl[2] };
+  }
+
+  const image = part.url ? await fetchExternalImage(url) : await fetchUploadedImage(url);
+  if (image.data.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image exceeds ${MAX_IMAGE_BYTES} bytes: ${part.name || url}`);
+  }
+
+  return {
+    mimeType: part.mimeType || image.contentType || 'image/png',
+    data: image.data.toString('base64'),
+  };
+}
+
+/**
+ * Fetch an image URL the user supplied; it must not reach internal addresses
+ */
+async function fetchExternalImage(url: string): Promise<{ data: Buffer; contentType?: string | null }> {
+  const response = await safeFetch(url, {
+    binary: true,
+    maxBodyBytes: MAX_IMAGE_BYTES,
+    totalTimeoutMs: 15000,
+    allowHttp: true,
+    headers: { Accept: 'image/*' },
+  });
+  if (response.error) {
+    throw new Error(`Failed to fetch image: ${response.error}`);
+  }
+  if (!response.ok || !response.data) {
+    throw new Error(`Failed to fetch image (${response.status}): ${url}`);
+  }
+  return { data: response.data, contentType: response.contentType };
+}
+
+/**
+ * Fetch an upload from our own storage by its download URL
+ */
+async function fetchUploadedImage(url: string): Promise<{ data: Buffer; contentType?: string | null }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image (${response.status}): ${url}`);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get('content-type'),
+  };
+}
+
+/**
+ * Encode content for OpenAI-style chat APIs. Local servers usually can't reach
+ * remote URLs, so `inlineImages` sends images as data URLs instead.
+ */
+export async function toOpenAIContent(
+  content: MessageContent,
+  options: { inlineImages?: boolean } = {}
+): Promise<string | any[]> {
+  if (!Array.isArray(content)) return content;
+
+  return Promise.all(content.map(async part => {
+    if (part.type !== 'image') {
+      return { type: 'text', text: describePart(part) };
+    }
+    if (options.inlineImages) {
+      const { mimeType, data } = await loadImageData(part);
+      return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    return { type: 'image_url', image_url: { url: await resolveImageUrl(part) } };
+  }));
+}
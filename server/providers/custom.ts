@@ -1,4 +1,5 @@
 import { BaseProvider } from './base';
+import { getTextContent, toOpenAIContent } from './content';
 import type {
   Message,
   ProviderConfig,
@@ -8,7 +9,10 @@ import type {
   ProviderCapabilities,
   EmbedOptions,
   Embedding,
+  RerankOptions,
+  RerankScore,
 } from './types';
+import { parseRerankResponse } from './rerank';
 
 /**
  * Custom Provider - connects to any OpenAI-compatible API
@@ -81,10 +85,7 @@ export class CustomProvider extends BaseProvider {
         headers: this.getHeaders(),
         body: JSON.stringify({
           model,
-          messages: request.messages.map((m: Message) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: await this.toCustomMessages(request.messages),
           temperature: request.temperature,
           max_tokens: request.maxTokens,
           top_p: request.topP,
@@ -135,10 +136,7 @@ export class CustomProvider extends BaseProvider {
         headers: this.getHeaders(),
         body: JSON.stringify({
           model,
-          messages: request.messages.map((m: Message) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: await this.toCustomMessages(request.messages),
           temperature: request.temperature,
           max_tokens: request.maxTokens,
           top_p: request.topP,
@@ -206,6 +204,18 @@ export class CustomProvider extends BaseProvider {
     }
   }
 
+  /**
+   * Images are only sent when the endpoint is configured with supportsVision
+   */
+  private toCustomMessages(messages: Message[]): Promise<any[]> {
+    return Promise.all(messages.map(async (m: Message) => ({
+      role: m.role,
+      content: this.config.config.supportsVision
+        ? await toOpenAIContent(m.content)
+        : getTextContent(m.content),
+    })));
+  }
+
   getCostPerToken(): { inputCostPer1kTokens: number; outputCostPer1kTokens: number } {
     // Cost depends on the specific provider - default to 0, can be overridden via config
     return {
@@ -264,6 +274,26 @@ export class CustomProvider extends BaseProvider {
     }
   }
 
+  async rerank(query: string, documents: string[], options?: RerankOptions): Promise<RerankScore[]> {
+    const model = options?.model || this.defaultModel;
+
+    const response = await fetch(`${this.baseUrl}/rerank`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({ model, query, documents }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      if (response.status === 404) {
+        throw new Error('Rerank endpoint not available on this provider.');
+      }
+      throw new Error(`Rerank API error: ${response.status} - ${errorText}`);
+    }
+
+    return parseRerankResponse(await response.json(), documents.length);
+  }
+
   getCapabilities(): ProviderCapabilities {
     return {
       supportsStreaming: true,
@@ -2,6 +2,7 @@
 
 import { eq, and, desc } from "drizzle-orm";
 import { getDb } from "../db";
+import { fromMicros } from "./pricing";
 import { providers, workspaceProviders, providerUsage, type Provider, type InsertProvider, type WorkspaceProvider, type InsertWorkspaceProvider, type ProviderUsage, type InsertProviderUsage } from "../../drizzle/schema";
 
 // ============================================================================
@@ -208,12 +209,13 @@ export async function getProviderUsageStats(workspaceId: number, providerId: num
   const usage = await db.select().from(providerUsage).where(
     and(
       eq(providerUsage.workspaceId, workspaceId),
-      eq(providerUsage.providerId, providerId)
+      eq(providerUsage.providerId, providerId),
+      eq(providerUsage.status, "settled")
     )
   );
 
   const totalTokens = usage.reduce((sum, record) => sum + record.tokensUsed, 0);
-  const totalCost = usage.reduce((sum, record) => sum + (parseFloat(record.cost || "0")), 0);
+  const totalCost = fromMicros(usage.reduce((sum, record) => sum + record.costMicros, 0));
   const averageLatency = usage.length > 0
     ? usage.reduce((sum, record) => sum + (record.latencyMs || 0), 0) / usage.length
     : 0;
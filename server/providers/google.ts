@@ -2,6 +2,8 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { BaseProvider } from './base';
+import { createToolCallId } from './tool-calling';
+import { getTextContent, loadImageData, toContentParts } from './content';
 import type {
   GenerationRequest,
   GenerationResponse,
@@ -11,6 +13,9 @@ import type {
   ProviderCapabilities,
   CostProfile,
   ProviderConfig,
+  Message,
+  ToolCall,
+  FinishReason,
 } from './types';
 
 export class GoogleProvider extends BaseProvider {
@@ -62,33 +67,29 @@ export class GoogleProvider extends BaseProvider {
           topP: request.topP,
           stopSequences: request.stopSequences,
         },
+        ...this.toGoogleTools(request),
       });
 
       // Convert messages to Google format
-      const systemInstruction = request.messages.find(m => m.role === 'system')?.content;
-      const history = request.messages
-        .filter(m => m.role !== 'system')
-        .slice(0, -1)
-        .map(msg => ({
-          role: msg.role === 'assistant' ? 'model' : 'user',
-          parts: [{ text: msg.content }],
-        }));
-      
-      const lastMessage = request.messages[request.messages.length - 1];
-      if (!lastMessage || lastMessage.role === 'system') {
+      const systemMessage = request.messages.find(m => m.role === 'system');
+      const systemInstruction = systemMessage ? getTextContent(systemMessage.content) : undefined;
+      const contents = await this.toGoogleContents(request.messages);
+      const lastContent = contents.pop();
+      if (!lastContent || lastContent.role === 'model') {
         throw new Error('No user message found');
       }
 
       const chat = model.startChat({
-        history,
+        history: contents,
         systemInstruction,
       });
 
-      const result = await chat.sendMessage(lastMessage.content);
+      const result = await chat.sendMessage(lastContent.parts);
       const response = result.response;
       const latencyMs = Date.now() - startTime;
 
       const text = response.text();
+      const toolCalls = this.toToolCalls(response.functionCalls?.());
       const usage = response.usageMetadata;
       const costProfile = this.getCostPerToken();
       
@@ -102,13 +103,14 @@ export class GoogleProvider extends BaseProvider {
       return {
         id: `google-${Date.now()}`,
         content: text,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         model: modelName,
         usage: {
           promptTokens,
           completionTokens,
           totalTokens: usage?.totalTokenCount || 0,
         },
-        finishReason: this.mapFinishReason(response.candidates?.[0]?.finishReason),
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : this.mapFinishReason(response.candidates?.[0]?.finishReason),
         latencyMs,
         cost,
       };
@@ -134,31 +136,36 @@ export class GoogleProvider extends BaseProvider {
           topP: request.topP,
           stopSequences: request.stopSequences,
         },
+        ...this.toGoogleTools(request),
       });
 
       // Convert messages to Google format
-      const systemInstruction = request.messages.find(m => m.role === 'system')?.content;
-      const history = request.messages
-        .filter(m => m.role !== 'system')
-        .slice(0, -1)
-        .map(msg => ({
-          role: msg.role === 'assistant' ? 'model' : 'user',
-          parts: [{ text: msg.content }],
-        }));
-      
-      const lastMessage = request.messages[request.messages.length - 1];
-      if (!lastMessage || lastMessage.role === 'system') {
+      const systemMessage = request.messages.find(m => m.role === 'system');
+      const systemInstruction = systemMessage ? getTextContent(systemMessage.content) : undefined;
+      const contents = await this.toGoogleContents(request.messages);
+      const lastContent = contents.pop();
+      if (!lastContent || lastContent.role === 'model') {
         throw new Error('No user message found');
       }
 
       const chat = model.startChat({
-        history,
+        history: contents,
         systemInstruction,
       });
 
-      const result = await chat.sendMessageStream(lastMessage.content);
+      const result = await chat.sendMessageStream(lastContent.parts);
+      const toolCalls: ToolCall[] = [];
+      let usage: Token['usage'];
 
       for await (const chunk of result.stream) {
+        // Each chunk carries the running totals
+        if (chunk.usageMetadata) {
+          usage = {
+            promptTokens: chunk.usageMetadata.promptTokenCount || 0,
+            completionTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+            totalTokens: chunk.usageMetadata.totalTokenCount || 0,
+          };
+        }
         const text = chunk.text();
         if (text) {
           yield {
@@ -166,11 +173,14 @@ export class GoogleProvider extends BaseProvider {
             isComplete: false,
           };
         }
+        toolCalls.push(...this.toToolCalls(chunk.functionCalls?.()));
       }
 
       yield {
         content: '',
         isComplete: true,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage,
       };
     } catch (error) {
       console.error('[GoogleProvider] Stream generation error:', error);
@@ -269,7 +279,94 @@ export class GoogleProvider extends BaseProvider {
     return pricing[model] || pricing['gemini-2.5-flash']!;
   }
 
-  private mapFinishReason(reason: string | undefined): 'stop' | 'length' | 'content_filter' | 'error' {
+  /**
+   * Map messages to Gemini contents. Gemini has no tool call ids, so tool results
+   * are matched to their function by name.
+   */
+  private async toGoogleContents(messages: Message[]): Promise<Array<{ role: string; parts: any[] }>> {
+    const callNames = new Map<string, string>();
+    const contents: Array<{ role: string; parts: any[] }> = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      if (msg.role === 'tool') {
+        const name = msg.name || (msg.toolCallId && callNames.get(msg.toolCallId)) || 'tool';
+        contents.push({
+          role: 'function',
+          parts: [{ functionResponse: { name, response: { content: getTextContent(msg.content) } } }],
+        });
+        continue;
+      }
+
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        msg.toolCalls.forEach(call => callNames.set(call.id, call.name));
+        const text = getTextContent(msg.content);
+        contents.push({
+          role: 'model',
+          parts: [
+            ...(text ? [{ text }] : []),
+            ...msg.toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+          ],
+        });
+        continue;
+      }
+
+      contents.push({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: await this.toGoogleParts(msg.content),
+      });
+    }
+
+    return contents;
+  }
+
+  /**
+   * Gemini takes images as inline base64 data
+   */
+  private toGoogleParts(content: Message['content']): Promise<any[]> {
+    return Promise.all(toContentParts(content).map(async part => {
+      if (part.type !== 'image') {
+        return { text: getTextContent([part]) };
+      }
+      const { mimeType, data } = await loadImageData(part);
+      return { inlineData: { mimeType, data } };
+    }));
+  }
+
+  private toGoogleTools(request: GenerationRequest): { tools?: any[]; toolConfig?: any } {
+    if (!request.tools?.length) {
+      return {};
+    }
+
+    const toolChoice = request.toolChoice;
+    const functionCallingConfig =
+      toolChoice === 'required' ? { mode: 'ANY' }
+      : toolChoice === 'none' ? { mode: 'NONE' }
+      : typeof toolChoice === 'object' ? { mode: 'ANY', allowedFunctionNames: [toolChoice.name] }
+      : { mode: 'AUTO' };
+
+    return {
+      tools: [{
+        functionDeclarations: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        })),
+      }],
+      toolConfig: { functionCallingConfig },
+    };
+  }
+
+  private toToolCalls(functionCalls: Array<{ name: string; args: object }> | undefined): ToolCall[] {
+    return (functionCalls || []).map(call => ({
+      id: createToolCallId(),
+      name: call.name,
+      arguments: (call.args ?? {}) as Record<string, unknown>,
+    }));
+  }
+
+  private mapFinishReason(reason: string | undefined): FinishReason {
     switch (reason) {
       case 'STOP':
         return 'stop';
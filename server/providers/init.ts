@@ -1,5 +1,6 @@
 import { getProviderRegistry } from "./registry";
 import { getAllProviders } from "./db";
+import { circuitBreakers } from "../inference/circuit-breaker";
 
 /**
  * Initialize provider registry by loading all enabled providers from database
@@ -38,6 +39,7 @@ export async function initializeProviders() {
           updatedAt: provider.updatedAt,
           config,
         });
+        circuitBreakers.configure(provider.id, provider.limits?.circuitBreaker);
         loadedCount++;
         console.log(`[Providers] Loaded provider: ${provider.name} (${provider.type})`);
       } catch (error) {
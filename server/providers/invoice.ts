@@ -0,0 +1,159 @@
+/**
+ * Usage Invoices
+ *
+ * A workspace's settled usage for one calendar month (UTC), itemised by
+ * provider, model and kind of usage, as JSON or CSV.
+ */
+import type { UsageKind } from "../../drizzle/schema";
+import { fromMicros } from "./pricing";
+import * as pricingDb from "./pricing-db";
+
+export interface InvoiceLine {
+  providerId: number;
+  providerName: string;
+  providerType: string;
+  model: string;
+  kind: UsageKind;
+  requests: number;
+  // Total tokens, including entries recorded without a prompt/completion split
+  tokens: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens: number;
+  imageCount: number;
+  costMicros: number;
+  cost: number;
+}
+
+export type InvoiceTotals = Omit<InvoiceLine, "providerId" | "providerName" | "providerType" | "model" | "kind">;
+
+export interface Invoice {
+  workspaceId: number;
+  month: string;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: "USD";
+  lines: InvoiceLine[];
+  totals: InvoiceTotals;
+  generatedAt: Date;
+}
+
+const QUANTITY_FIELDS = [
+  "requests",
+  "tokens",
+  "promptTokens",
+  "completionTokens",
+  "cachedPromptTokens",
+  "imageCount",
+  "costMicros",
+] as const;
+
+/**
+ * [start, end) of a "YYYY-MM" month in UTC
+ */
+export function getMonthRange(month: string): { start: Date; end: Date } {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+  if (!match) throw new Error(`Invalid month "${month}", expected YYYY-MM`);
+
+  const year = parseInt(match[1], 10);
+  const monthIndex = parseInt(match[2], 10) - 1;
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  };
+}
+
+export async function buildInvoice(workspaceId: number, month: string): Promise<Invoice> {
+  const { start, end } = getMonthRange(month);
+  const rows = await pricingDb.getInvoiceLines(workspaceId, start, end);
+
+  const lines: InvoiceLine[] = rows.map((row) => {
+    const costMicros = Number(row.costMicros);
+    return {
+      providerId: row.providerId,
+      providerName: row.providerName,
+      providerType: row.providerType,
+      model: row.model,
+      kind: row.kind,
+      requests: Number(row.requests),
+      tokens: Number(row.tokens),
+      promptTokens: Number(row.promptTokens),
+      completionTokens: Number(row.completionTokens),
+      cachedPromptTokens: Number(row.cachedPromptTokens),
+      imageCount: Number(row.imageCount),
+      costMicros,
+      cost: fromMicros(costMicros),
+    };
+  });
+
+  const totals = { requests: 0, tokens: 0, promptTokens: 0, completionTokens: 0, cachedPromptTokens: 0, imageCount: 0, costMicros: 0, cost: 0 };
+  for (const line of lines) {
+    for (const field of QUANTITY_FIELDS) totals[field] += line[field];
+  }
+  totals.cost = fromMicros(totals.costMicros);
+
+  return {
+    workspaceId,
+    month,
+    periodStart: start,
+    periodEnd: end,
+    currency: "USD",
+    lines,
+    totals,
+    generatedAt: new Date(),
+  };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatDollars(micros: number): string {
+  return fromMicros(micros).toFixed(6);
+}
+
+export function invoiceToCsv(invoice: Invoice): string {
+  const header = [
+    "Provider",
+    "Provider Type",
+    "Model",
+    "Kind",
+    "Requests",
+    "Tokens",
+    "Prompt Tokens",
+    "Completion Tokens",
+    "Cached Prompt Tokens",
+    "Images",
+    "Cost (USD)",
+  ];
+  const rows = invoice.lines.map((line) => [
+    line.providerName,
+    line.providerType,
+    line.model,
+    line.kind,
+    line.requests,
+    line.tokens,
+    line.promptTokens,
+    line.completionTokens,
+    line.cachedPromptTokens,
+    line.imageCount,
+    formatDollars(line.costMicros),
+  ]);
+  const { totals } = invoice;
+  rows.push([
+    "Total",
+    "",
+    "",
+    "",
+    totals.requests,
+    totals.tokens,
+    totals.promptTokens,
+    totals.completionTokens,
+    totals.cachedPromptTokens,
+    totals.imageCount,
+    formatDollars(totals.costMicros),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
@@ -1,4 +1,5 @@
 import { BaseProvider } from './base';
+import { toOpenAIContent } from './content';
 import type {
   Message,
   ProviderConfig,
@@ -8,7 +9,10 @@ import type {
   ProviderCapabilities,
   EmbedOptions,
   Embedding,
+  RerankOptions,
+  RerankScore,
 } from './types';
+import { parseRerankResponse } from './rerank';
 
 /**
  * llama.cpp Provider - connects to a local llama.cpp server
@@ -65,10 +69,7 @@ export class LlamaCppProvider extends BaseProvider {
         },
         body: JSON.stringify({
           model,
-          messages: request.messages.map((m: Message) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: await this.toLlamaCppMessages(request.messages),
           temperature: request.temperature,
           max_tokens: request.maxTokens,
           top_p: request.topP,
@@ -118,10 +119,7 @@ export class LlamaCppProvider extends BaseProvider {
         },
         body: JSON.stringify({
           model,
-          messages: request.messages.map((m: Message) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: await this.toLlamaCppMessages(request.messages),
           temperature: request.temperature,
           max_tokens: request.maxTokens,
           top_p: request.topP,
@@ -189,6 +187,16 @@ export class LlamaCppProvider extends BaseProvider {
     }
   }
 
+  /**
+   * llama-server cannot fetch remote URLs, so images are sent inline as data URLs
+   */
+  private toLlamaCppMessages(messages: Message[]): Promise<any[]> {
+    return Promise.all(messages.map(async (m: Message) => ({
+      role: m.role,
+      content: await toOpenAIContent(m.content, { inlineImages: true }),
+    })));
+  }
+
   getCostPerToken(): { inputCostPer1kTokens: number; outputCostPer1kTokens: number } {
     return {
       inputCostPer1kTokens: 0,
@@ -265,6 +273,31 @@ export class LlamaCppProvider extends BaseProvider {
     }
   }
 
+  async rerank(query: string, documents: string[], options?: RerankOptions): Promise<RerankScore[]> {
+    const response = await fetch(`${this.baseUrl}/v1/rerank`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: options?.model || this.defaultModel,
+        query,
+        documents,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      // Reranking needs a reranker model loaded with --reranking
+      if (response.status === 404 || response.status === 501) {
+        throw new Error('Reranking not available. Start llama-server with a reranker model and --reranking flag.');
+      }
+      throw new Error(`llama.cpp rerank API error: ${response.status} - ${errorText}`);
+    }
+
+    return parseRerankResponse(await response.json(), documents.length);
+  }
+
   getCapabilities(): ProviderCapabilities {
     return {
       supportsStreaming: true,
@@ -1,6 +1,9 @@
 import { BaseProvider } from './base';
+import { createToolCallId, parseToolArguments } from './tool-calling';
+import { getTextContent, loadImageData, toContentParts } from './content';
 import type {
   Message,
+  ToolCall,
   ProviderConfig,
   GenerationRequest,
   GenerationResponse,
@@ -66,10 +69,8 @@ export class OllamaProvider extends BaseProvider {
         },
         body: JSON.stringify({
           model,
-          messages: request.messages.map((m: Message) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: await this.toOllamaMessages(request.messages),
+          ...this.toOllamaTools(request),
           stream: false,
           options: {
             temperature: request.temperature,
@@ -85,17 +86,19 @@ export class OllamaProvider extends BaseProvider {
 
       const data = await response.json();
       const latencyMs = Date.now() - startTime;
+      const toolCalls = this.toToolCalls(data.message?.tool_calls);
 
       return {
         id: `ollama-${Date.now()}`,
         content: data.message?.content || '',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         model,
         usage: {
           promptTokens: data.prompt_eval_count || 0,
           completionTokens: data.eval_count || 0,
           totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
         },
-        finishReason: 'stop',
+        finishReason: toolCalls.length > 0 ? 'tool_calls' : 'stop',
         latencyMs,
         cost: 0, // Local models are free
       };
@@ -118,10 +121,8 @@ export class OllamaProvider extends BaseProvider {
         },
         body: JSON.stringify({
           model,
-          messages: request.messages.map((m: Message) => ({
-            role: m.role,
-            content: m.content,
-          })),
+          messages: await this.toOllamaMessages(request.messages),
+          ...this.toOllamaTools(request),
           stream: true,
           options: {
             temperature: request.temperature,
@@ -142,6 +143,7 @@ export class OllamaProvider extends BaseProvider {
       const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let buffer = '';
+      const toolCalls: ToolCall[] = [];
 
       while (true) {
         const { done, value } = await reader.read();
@@ -165,10 +167,18 @@ export class OllamaProvider extends BaseProvider {
               };
             }
 
+            toolCalls.push(...this.toToolCalls(data.message?.tool_calls));
+
             if (data.done) {
               yield {
                 content: '',
                 isComplete: true,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                usage: {
+                  promptTokens: data.prompt_eval_count || 0,
+                  completionTokens: data.eval_count || 0,
+                  totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+                },
               };
             }
           } catch (parseError) {
@@ -184,6 +194,62 @@ export class OllamaProvider extends BaseProvider {
     }
   }
 
+  /**
+   * Ollama takes text content plus a separate list of base64 images per message
+   */
+  private toOllamaMessages(messages: Message[]): Promise<any[]> {
+    return Promise.all(messages.map(async (m: Message) => {
+      if (m.role === 'tool') {
+        return { role: 'tool', content: getTextContent(m.content), tool_name: m.name };
+      }
+      if (m.role === 'assistant' && m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: getTextContent(m.content),
+          tool_calls: m.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+        };
+      }
+
+      const parts = toContentParts(m.content);
+      const images = await Promise.all(
+        parts.filter(part => part.type === 'image').map(async part => (await loadImageData(part)).data)
+      );
+      return {
+        role: m.role,
+        content: getTextContent(parts.filter(part => part.type !== 'image')),
+        ...(images.length > 0 ? { images } : {}),
+      };
+    }));
+  }
+
+  /**
+   * Ollama has no tool_choice; 'none' is honoured by not sending tools at all
+   */
+  private toOllamaTools(request: GenerationRequest): { tools?: any[] } {
+    if (!request.tools?.length || request.toolChoice === 'none') {
+      return {};
+    }
+
+    return {
+      tools: request.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+    };
+  }
+
+  private toToolCalls(rawCalls: any[] | undefined): ToolCall[] {
+    return (rawCalls || []).map(call => ({
+      id: call.id || createToolCallId(),
+      name: call.function?.name,
+      arguments: parseToolArguments(call.function?.arguments),
+    }));
+  }
+
   getCostPerToken(): { inputCostPer1kTokens: number; outputCostPer1kTokens: number } {
     // Local models are free
     return {
@@ -265,7 +331,7 @@ export class OllamaProvider extends BaseProvider {
     return {
       supportsStreaming: true,
       supportsEmbedding: true,
-      supportsFunctionCalling: false,
+      supportsFunctionCalling: true,
       supportsVision: true,
       maxContextLength: this.getMaxContextLength(),
       supportedModels: this.getSupportedModels(),
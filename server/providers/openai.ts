@@ -2,6 +2,8 @@
 
 import OpenAI from 'openai';
 import { BaseProvider } from './base';
+import { parseToolArguments } from './tool-calling';
+import { getTextContent, toOpenAIContent } from './content';
 import type {
   GenerationRequest,
   GenerationResponse,
@@ -11,6 +13,9 @@ import type {
   ProviderCapabilities,
   CostProfile,
   ProviderConfig,
+  Message,
+  ToolCall,
+  FinishReason,
 } from './types';
 
 export class OpenAIProvider extends BaseProvider {
@@ -60,14 +65,12 @@ export class OpenAIProvider extends BaseProvider {
     try {
       const response = await this.client.chat.completions.create({
         model,
-        messages: request.messages.map(msg => ({
-          role: msg.role,
-          content: msg.content,
-        })),
+        messages: await this.toOpenAIMessages(request.messages),
         temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens,
         top_p: request.topP,
         stop: request.stopSequences,
+        ...this.toOpenAITools(request),
         stream: false,
       });
 
@@ -84,14 +87,24 @@ export class OpenAIProvider extends BaseProvider {
         (usage.completion_tokens / 1000) * costProfile.outputCostPer1kTokens
       );
 
+      const toolCalls: ToolCall[] = (choice.message?.tool_calls || [])
+        .filter((call: any) => call.type === 'function')
+        .map((call: any) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        }));
+
       return {
         id: response.id,
         content: choice.message?.content || '',
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         model: response.model,
         usage: {
           promptTokens: usage.prompt_tokens,
           completionTokens: usage.completion_tokens,
           totalTokens: usage.total_tokens,
+          cachedPromptTokens: response.usage?.prompt_tokens_details?.cached_tokens ?? 0,
         },
         finishReason: this.mapFinishReason(choice.finish_reason),
         latencyMs,
@@ -113,18 +126,30 @@ export class OpenAIProvider extends BaseProvider {
     try {
       const stream = await this.client.chat.completions.create({
         model,
-        messages: request.messages.map(msg => ({
-          role: msg.role,
-          content: msg.content,
-        })),
+        messages: await this.toOpenAIMessages(request.messages),
         temperature: request.temperature ?? 0.7,
         max_tokens: request.maxTokens,
         top_p: request.topP,
         stop: request.stopSequences,
+        ...this.toOpenAITools(request),
         stream: true,
+        stream_options: { include_usage: true },
       });
 
+      // Tool call fragments arrive keyed by index and are assembled until the stream ends
+      const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
+      let usage: Token['usage'];
+
       for await (const chunk of stream) {
+        // The usage arrives on a final chunk without choices
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+            cachedPromptTokens: chunk.usage.prompt_tokens_details?.cached_tokens ?? 0,
+          };
+        }
         const delta = chunk.choices[0]?.delta;
         if (delta?.content) {
           yield {
@@ -132,11 +157,26 @@ export class OpenAIProvider extends BaseProvider {
             isComplete: false,
           };
         }
+        for (const fragment of delta?.tool_calls || []) {
+          const pending = pendingCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+          if (fragment.id) pending.id = fragment.id;
+          if (fragment.function?.name) pending.name += fragment.function.name;
+          if (fragment.function?.arguments) pending.arguments += fragment.function.arguments;
+          pendingCalls.set(fragment.index, pending);
+        }
       }
 
+      const toolCalls: ToolCall[] = Array.from(pendingCalls.values()).map(call => ({
+        id: call.id,
+        name: call.name,
+        arguments: parseToolArguments(call.arguments),
+      }));
+
       yield {
         content: '',
         isComplete: true,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage,
       };
     } catch (error) {
       console.error('[OpenAIProvider] Stream generation error:', error);
@@ -245,7 +285,51 @@ export class OpenAIProvider extends BaseProvider {
     return pricing[model] || pricing['gpt-4o-mini']!;
   }
 
-  private mapFinishReason(reason: string | null | undefined): 'stop' | 'length' | 'content_filter' | 'error' {
+  private toOpenAIMessages(messages: Message[]): Promise<any[]> {
+    return Promise.all(messages.map(async msg => {
+      if (msg.role === 'tool') {
+        return { role: 'tool', tool_call_id: msg.toolCallId, content: getTextContent(msg.content) };
+      }
+      if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: getTextContent(msg.content) || null,
+          tool_calls: msg.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+          })),
+        };
+      }
+      if (msg.role === 'user') {
+        return { role: 'user', content: await toOpenAIContent(msg.content) };
+      }
+      return { role: msg.role, content: getTextContent(msg.content) };
+    }));
+  }
+
+  private toOpenAITools(request: GenerationRequest): { tools?: any[]; tool_choice?: any } {
+    if (!request.tools?.length) {
+      return {};
+    }
+
+    const toolChoice = request.toolChoice;
+    return {
+      tools: request.tools.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+      tool_choice: typeof toolChoice === 'object'
+        ? { type: 'function', function: { name: toolChoice.name } }
+        : toolChoice,
+    };
+  }
+
+  private mapFinishReason(reason: string | null | undefined): FinishReason {
     switch (reason) {
       case 'stop':
         return 'stop';
@@ -253,6 +337,9 @@ export class OpenAIProvider extends BaseProvider {
         return 'length';
       case 'content_filter':
         return 'content_filter';
+      case 'tool_calls':
+      case 'function_call':
+        return 'tool_calls';
       default:
         return 'stop';
     }
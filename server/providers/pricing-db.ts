@@ -0,0 +1,177 @@
+import { getDb } from "../db";
+import {
+  modelPrices,
+  providerUsage,
+  providers,
+  type InsertModelPrice,
+  type ModelPrice,
+  type ProviderUsage,
+} from "../../drizzle/schema";
+import { and, asc, desc, eq, gt, gte, isNotNull, isNull, like, lt, sql } from "drizzle-orm";
+
+/**
+ * Model Price Catalog Database Operations
+ */
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+export async function getModelPrices(): Promise<ModelPrice[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(modelPrices)
+    .orderBy(asc(modelPrices.providerType), asc(modelPrices.model), desc(modelPrices.effectiveFrom));
+}
+
+export async function getModelPriceById(id: number): Promise<ModelPrice | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [price] = await db.select().from(modelPrices).where(eq(modelPrices.id, id)).limit(1);
+  return price ?? null;
+}
+
+/**
+ * Highest version recorded for a provider type (or provider) and model
+ */
+export async function getLatestPriceVersion(providerType: string, providerId: number | null, model: string): Promise<number> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .select({ version: sql<number>`COALESCE(MAX(${modelPrices.version}), 0)` })
+    .from(modelPrices)
+    .where(
+      and(
+        eq(modelPrices.providerType, providerType),
+        providerId ? eq(modelPrices.providerId, providerId) : isNull(modelPrices.providerId),
+        eq(modelPrices.model, model)
+      )
+    );
+  return Number(row?.version ?? 0);
+}
+
+export async function createModelPrice(data: InsertModelPrice): Promise<ModelPrice> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [price] = await db.insert(modelPrices).values(data).returning();
+  return price;
+}
+
+export async function getProviderType(providerId: number): Promise<string | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [provider] = await db
+    .select({ type: providers.type })
+    .from(providers)
+    .where(eq(providers.id, providerId))
+    .limit(1);
+  return provider?.type ?? null;
+}
+
+// ============================================================================
+// Re-pricing
+// ============================================================================
+
+export interface RepricingScope {
+  providerType: string;
+  providerId?: number | null;
+  // Usage whose model name starts with this
+  modelPrefix: string;
+  since: Date;
+}
+
+/**
+ * One page of settled usage a price change may affect, ordered by id. Entries
+ * recorded before the prompt/completion split existed cannot be re-priced and
+ * are left out.
+ */
+export async function getUsageForRepricing(scope: RepricingScope, afterId: number, limit: number) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const conditions = [
+    gt(providerUsage.id, afterId),
+    eq(providers.type, scope.providerType),
+    like(providerUsage.modelName, `${scope.modelPrefix.replace(/[\\%_]/g, "\\$&")}%`),
+    gte(providerUsage.createdAt, scope.since),
+    eq(providerUsage.status, "settled"),
+    isNotNull(providerUsage.promptTokens),
+  ];
+  if (scope.providerId) conditions.push(eq(providerUsage.providerId, scope.providerId));
+
+  return db
+    .select({
+      id: providerUsage.id,
+      providerId: providerUsage.providerId,
+      providerType: providers.type,
+      modelName: providerUsage.modelName,
+      kind: providerUsage.kind,
+      promptTokens: providerUsage.promptTokens,
+      completionTokens: providerUsage.completionTokens,
+      cachedPromptTokens: providerUsage.cachedPromptTokens,
+      imageCount: providerUsage.imageCount,
+      costMicros: providerUsage.costMicros,
+      priceId: providerUsage.priceId,
+      createdAt: providerUsage.createdAt,
+    })
+    .from(providerUsage)
+    .innerJoin(providers, eq(providerUsage.providerId, providers.id))
+    .where(and(...conditions))
+    .orderBy(asc(providerUsage.id))
+    .limit(limit);
+}
+
+export async function updateUsageCost(id: number, data: Pick<ProviderUsage, "costMicros" | "priceId">): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(providerUsage).set(data).where(eq(providerUsage.id, id));
+}
+
+// ============================================================================
+// Invoices
+// ============================================================================
+
+/**
+ * A workspace's settled usage in [start, end), one row per provider, model
+ * and kind of usage
+ */
+export async function getInvoiceLines(workspaceId: number, start: Date, end: Date) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select({
+      providerId: providerUsage.providerId,
+      providerName: providers.name,
+      providerType: providers.type,
+      model: sql<string>`COALESCE(${providerUsage.modelName}, 'unknown')`,
+      kind: providerUsage.kind,
+      requests: sql<string>`COUNT(*)`,
+      tokens: sql<string>`COALESCE(SUM(${providerUsage.tokensUsed}), 0)`,
+      promptTokens: sql<string>`COALESCE(SUM(${providerUsage.promptTokens}), 0)`,
+      completionTokens: sql<string>`COALESCE(SUM(${providerUsage.completionTokens}), 0)`,
+      cachedPromptTokens: sql<string>`COALESCE(SUM(${providerUsage.cachedPromptTokens}), 0)`,
+      imageCount: sql<string>`COALESCE(SUM(${providerUsage.imageCount}), 0)`,
+      costMicros: sql<string>`COALESCE(SUM(${providerUsage.costMicros}), 0)`,
+    })
+    .from(providerUsage)
+    .innerJoin(providers, eq(providerUsage.providerId, providers.id))
+    .where(
+      and(
+        eq(providerUsage.workspaceId, workspaceId),
+        eq(providerUsage.status, "settled"),
+        gte(providerUsage.createdAt, start),
+        lt(providerUsage.createdAt, end)
+      )
+    )
+    .groupBy(providerUsage.providerId, providers.name, providers.type, sql`COALESCE(${providerUsage.modelName}, 'unknown')`, providerUsage.kind)
+    .orderBy(asc(providers.name), sql`COALESCE(${providerUsage.modelName}, 'unknown')`, asc(providerUsage.kind));
+}
@@ -0,0 +1,216 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../db", () => ({ getDb: () => ({}) }));
+vi.mock("./pricing-db", () => ({
+  getModelPrices: vi.fn(async () => []),
+  getLatestPriceVersion: vi.fn(async () => 0),
+  createModelPrice: vi.fn(),
+  getProviderType: vi.fn(async () => null),
+  getUsageForRepricing: vi.fn(async () => []),
+  updateUsageCost: vi.fn(),
+  getInvoiceLines: vi.fn(async () => []),
+}));
+vi.mock("./registry", () => ({
+  getProviderRegistry: () => ({
+    getProvider: (id: number) =>
+      id === 1
+        ? {
+            id: 1,
+            type: "openai",
+            getCostPerToken: () => ({ inputCostPer1kTokens: 0.001, outputCostPer1kTokens: 0.002 }),
+          }
+        : undefined,
+  }),
+}));
+
+import type { ModelPrice } from "../../drizzle/schema";
+import * as pricingDb from "./pricing-db";
+import { buildInvoice, getMonthRange, invoiceToCsv } from "./invoice";
+import {
+  addModelPrice,
+  computeCostMicros,
+  findPrice,
+  invalidatePriceCatalog,
+  priceRates,
+  priceUsage,
+} from "./pricing";
+
+const modelPrice = (extra: Partial<ModelPrice>): ModelPrice => ({
+  id: 1,
+  providerType: "openai",
+  providerId: null,
+  model: "gpt-4o",
+  version: 1,
+  inputPerMillion: "2.500000",
+  outputPerMillion: "10.000000",
+  cachedInputPerMillion: "1.250000",
+  embeddingPerMillion: null,
+  perImage: null,
+  effectiveFrom: new Date("2025-01-01T00:00:00Z"),
+  notes: null,
+  createdBy: null,
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+  ...extra,
+});
+
+const target = { providerId: 1, providerType: "openai", model: "gpt-4o-mini-2024-07-18" };
+
+describe("findPrice", () => {
+  const prices = [
+    modelPrice({ id: 1 }),
+    modelPrice({ id: 2, model: "gpt-4o-mini", inputPerMillion: "0.150000" }),
+    modelPrice({ id: 3, model: "gpt-4o-mini", version: 2, effectiveFrom: new Date("2026-02-01T00:00:00Z") }),
+    modelPrice({ id: 4, model: "gpt-4o-mini", providerId: 7 }),
+  ];
+
+  it("should prefer the longest matching model name", () => {
+    expect(findPrice(prices, target, new Date("2026-01-15T00:00:00Z"))?.id).toBe(2);
+  });
+
+  it("should use the newest version in effect at the usage's time", () => {
+    expect(findPrice(prices, target, new Date("2026-02-01T00:00:00Z"))?.id).toBe(3);
+    expect(findPrice(prices, target, new Date("2024-12-31T23:59:59Z"))).toBeNull();
+  });
+
+  it("should prefer a provider's own price over its type's", () => {
+    expect(findPrice(prices, { ...target, providerId: 7 }, new Date("2026-03-01T00:00:00Z"))?.id).toBe(4);
+  });
+
+  it("should not match other provider types", () => {
+    expect(findPrice(prices, { ...target, providerType: "custom" }, new Date("2026-03-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("computeCostMicros", () => {
+  const rates = priceRates(
+    modelPrice({ embeddingPerMillion: "0.020000", perImage: "0.040000" })
+  );
+
+  it("should price prompt, cached prompt and completion tokens separately", () => {
+    // 800 * 2.5 + 200 * 1.25 + 500 * 10
+    expect(computeCostMicros(rates, { promptTokens: 1000, cachedPromptTokens: 200, completionTokens: 500 })).toBe(7250);
+  });
+
+  it("should price embeddings at the embedding rate and images per image", () => {
+    expect(computeCostMicros(rates, { kind: "embedding", promptTokens: 10000, completionTokens: 0 })).toBe(200);
+    expect(computeCostMicros(rates, { kind: "image", promptTokens: 0, completionTokens: 0, imageCount: 3 })).toBe(120000);
+  });
+});
+
+describe("priceUsage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidatePriceCatalog();
+  });
+
+  it("should price from the catalog, falling back to the provider's cost profile", async () => {
+    vi.mocked(pricingDb.getModelPrices).mockResolvedValueOnce([modelPrice({ id: 9 })]);
+
+    const usage = { promptTokens: 1000, completionTokens: 1000 };
+    expect(await priceUsage(1, "gpt-4o-2024-08-06", usage)).toEqual({ costMicros: 12500, priceId: 9 });
+    // $0.001 and $0.002 per 1k tokens
+    expect(await priceUsage(1, "unlisted-model", usage)).toEqual({ costMicros: 3000, priceId: null });
+    expect(pricingDb.getModelPrices).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("addModelPrice", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidatePriceCatalog();
+  });
+
+  it("should add the next version and re-price the usage it covers", async () => {
+    const effectiveFrom = new Date("2026-03-01T00:00:00Z");
+    const created = modelPrice({ id: 12, version: 3, inputPerMillion: "2.000000", effectiveFrom });
+    vi.mocked(pricingDb.getLatestPriceVersion).mockResolvedValueOnce(2);
+    vi.mocked(pricingDb.createModelPrice).mockResolvedValueOnce(created);
+    vi.mocked(pricingDb.getModelPrices).mockResolvedValueOnce([modelPrice({ id: 1 }), created]);
+    const entry = {
+      id: 40,
+      providerId: 1,
+      providerType: "openai",
+      modelName: "gpt-4o",
+      kind: "chat" as const,
+      promptTokens: 1000,
+      completionTokens: 100,
+      cachedPromptTokens: 0,
+      imageCount: 0,
+      costMicros: 3500,
+      priceId: 1,
+      createdAt: new Date("2026-03-05T00:00:00Z"),
+    };
+    vi.mocked(pricingDb.getUsageForRepricing)
+      .mockResolvedValueOnce([entry, { ...entry, id: 41, costMicros: 3000, priceId: 12 }])
+      .mockResolvedValueOnce([]);
+
+    const result = await addModelPrice(
+      { providerType: "openai", model: "gpt-4o", inputPerMillion: 2, outputPerMillion: 10, effectiveFrom },
+      5
+    );
+
+    expect(pricingDb.createModelPrice).toHaveBeenCalledWith(
+      expect.objectContaining({ version: 3, inputPerMillion: "2", cachedInputPerMillion: null, createdBy: 5 })
+    );
+    expect(pricingDb.getUsageForRepricing).toHaveBeenCalledWith(
+      { providerType: "openai", providerId: null, modelPrefix: "gpt-4o", since: effectiveFrom },
+      0,
+      expect.any(Number)
+    );
+    // Entry 41 already carries the new price
+    expect(pricingDb.updateUsageCost).toHaveBeenCalledTimes(1);
+    expect(pricingDb.updateUsageCost).toHaveBeenCalledWith(40, { costMicros: 3000, priceId: 12 });
+    expect(result.recomputed).toBe(1);
+  });
+});
+
+describe("invoices", () => {
+  it("should cover a calendar month in UTC", () => {
+    expect(getMonthRange("2026-12")).toEqual({
+      start: new Date("2026-12-01T00:00:00Z"),
+      end: new Date("2027-01-01T00:00:00Z"),
+    });
+    expect(() => getMonthRange("2026-13")).toThrow("Invalid month");
+  });
+
+  it("should total the lines and export them as CSV", async () => {
+    const line = {
+      providerId: 1,
+      providerName: "OpenAI, primary",
+      providerType: "openai",
+      model: "gpt-4o",
+      kind: "chat" as const,
+      requests: "3",
+      tokens: "1500",
+      promptTokens: "1200",
+      completionTokens: "300",
+      cachedPromptTokens: "0",
+      imageCount: "0",
+      costMicros: "6000",
+    };
+    vi.mocked(pricingDb.getInvoiceLines).mockResolvedValueOnce([
+      line,
+      { ...line, model: "text-embedding-3-small", kind: "embedding" as const, requests: "2", tokens: "500", promptTokens: "500", completionTokens: "0", costMicros: "10" },
+    ]);
+
+    const invoice = await buildInvoice(4, "2026-03");
+
+    expect(invoice.totals).toEqual({
+      requests: 5,
+      tokens: 2000,
+      promptTokens: 1700,
+      completionTokens: 300,
+      cachedPromptTokens: 0,
+      imageCount: 0,
+      costMicros: 6010,
+      cost: 0.00601,
+    });
+    expect(invoiceToCsv(invoice).split("\n")).toEqual([
+      "Provider,Provider Type,Model,Kind,Requests,Tokens,Prompt Tokens,Completion Tokens,Cached Prompt Tokens,Images,Cost (USD)",
+      '"OpenAI, primary",openai,gpt-4o,chat,3,1500,1200,300,0,0,0.006000',
+      '"OpenAI, primary",openai,text-embedding-3-small,embedding,2,500,500,0,0,0,0.000010',
+      "Total,,,,5,2000,1700,300,0,0,0.006010",
+      "",
+    ]);
+  });
+});
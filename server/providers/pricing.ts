@@ -0,0 +1,265 @@
+/**
+ * Model Price Catalog
+ *
+ * Usage is priced from model_prices, a versioned catalog of per-model input,
+ * output, cached-input, embedding and per-image prices. The price in effect
+ * for an entry is the newest version whose effectiveFrom is not after the
+ * entry's time; a provider-specific row beats one for the provider's type,
+ * and a longer model name beats a shorter prefix ("gpt-4o-mini" over
+ * "gpt-4o"). Models missing from the catalog fall back to the provider's
+ * own CostProfile.
+ *
+ * Costs are whole micro-dollars. Catalog prices are dollars per million
+ * tokens, which is the same number as micro-dollars per token.
+ */
+import type { ModelPrice, UsageKind } from "../../drizzle/schema";
+import { getDb } from "../db";
+import { getProviderRegistry } from "./registry";
+import type { CostProfile } from "./types";
+import * as pricingDb from "./pricing-db";
+
+export const MICROS_PER_DOLLAR = 1000000;
+
+const CATALOG_TTL_MS = 60 * 1000;
+const REPRICING_PAGE_SIZE = 500;
+
+export interface PriceRates {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cachedInputPerMillion: number | null;
+  embeddingPerMillion: number | null;
+  perImage: number | null;
+}
+
+export interface UsageQuantities {
+  kind?: UsageKind;
+  promptTokens: number;
+  completionTokens: number;
+  // Part of promptTokens served from the provider's prompt cache
+  cachedPromptTokens?: number;
+  imageCount?: number;
+}
+
+export interface PricedUsage {
+  costMicros: number;
+  // The catalog row used; null when the provider's CostProfile priced it
+  priceId: number | null;
+}
+
+export interface PriceTarget {
+  providerId: number;
+  providerType: string;
+  model: string;
+}
+
+export interface NewModelPrice {
+  providerType: string;
+  providerId?: number | null;
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cachedInputPerMillion?: number | null;
+  embeddingPerMillion?: number | null;
+  perImage?: number | null;
+  effectiveFrom: Date;
+  notes?: string;
+}
+
+export function toMicros(dollars: number): number {
+  return Math.round(dollars * MICROS_PER_DOLLAR);
+}
+
+export function fromMicros(micros: number): number {
+  return micros / MICROS_PER_DOLLAR;
+}
+
+function optionalRate(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+export function priceRates(price: ModelPrice): PriceRates {
+  return {
+    inputPerMillion: parseFloat(price.inputPerMillion),
+    outputPerMillion: parseFloat(price.outputPerMillion),
+    cachedInputPerMillion: optionalRate(price.cachedInputPerMillion),
+    embeddingPerMillion: optionalRate(price.embeddingPerMillion),
+    perImage: optionalRate(price.perImage),
+  };
+}
+
+/**
+ * A provider's flat per-1k-token CostProfile as catalog rates
+ */
+export function costProfileRates(profile: CostProfile): PriceRates {
+  return {
+    inputPerMillion: profile.inputCostPer1kTokens * 1000,
+    outputPerMillion: profile.outputCostPer1kTokens * 1000,
+    cachedInputPerMillion: null,
+    embeddingPerMillion: profile.embeddingCostPer1kTokens ? profile.embeddingCostPer1kTokens * 1000 : null,
+    perImage: null,
+  };
+}
+
+/**
+ * Cost of some usage in micro-dollars. Cached prompt tokens fall back to the
+ * input price when the model has no cached-input price, and embedding tokens
+ * to the input price when it has no embedding price.
+ */
+export function computeCostMicros(rates: PriceRates, usage: UsageQuantities): number {
+  const images = (usage.imageCount ?? 0) * (rates.perImage ?? 0) * MICROS_PER_DOLLAR;
+
+  if (usage.kind === "embedding") {
+    return Math.round(usage.promptTokens * (rates.embeddingPerMillion ?? rates.inputPerMillion) + images);
+  }
+
+  const cached = Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens);
+  return Math.round(
+    (usage.promptTokens - cached) * rates.inputPerMillion +
+      cached * (rates.cachedInputPerMillion ?? rates.inputPerMillion) +
+      usage.completionTokens * rates.outputPerMillion +
+      images
+  );
+}
+
+/**
+ * The catalog row that prices a model on a provider at a point in time
+ */
+export function findPrice(prices: ModelPrice[], target: PriceTarget, at: Date): ModelPrice | null {
+  let best: ModelPrice | null = null;
+  for (const price of prices) {
+    if (price.effectiveFrom.getTime() > at.getTime()) continue;
+    if (price.providerId !== null ? price.providerId !== target.providerId : price.providerType !== target.providerType) continue;
+    if (!target.model.startsWith(price.model)) continue;
+    if (!best || comparePrices(price, best) > 0) best = price;
+  }
+  return best;
+}
+
+// Positive when a is the more specific or more recent price
+function comparePrices(a: ModelPrice, b: ModelPrice): number {
+  return (
+    Number(a.providerId !== null) - Number(b.providerId !== null) ||
+    a.model.length - b.model.length ||
+    a.effectiveFrom.getTime() - b.effectiveFrom.getTime() ||
+    a.id - b.id
+  );
+}
+
+let catalog: { prices: ModelPrice[]; loadedAt: number } | null = null;
+
+async function loadCatalog(): Promise<ModelPrice[]> {
+  if (!getDb()) return [];
+  if (catalog && Date.now() - catalog.loadedAt < CATALOG_TTL_MS) return catalog.prices;
+
+  const prices = await pricingDb.getModelPrices();
+  catalog = { prices, loadedAt: Date.now() };
+  return prices;
+}
+
+/**
+ * Drop the cached catalog so the next lookup reads the new prices
+ */
+export function invalidatePriceCatalog(): void {
+  catalog = null;
+}
+
+/**
+ * Price usage on a provider from the catalog, or from the provider's
+ * CostProfile when the catalog has no price for the model
+ */
+export async function priceUsage(
+  providerId: number,
+  model: string | null | undefined,
+  usage: UsageQuantities,
+  at: Date = new Date()
+): Promise<PricedUsage> {
+  const provider = getProviderRegistry().getProvider(providerId);
+  const providerType = provider?.type ?? (getDb() ? await pricingDb.getProviderType(providerId) : null);
+
+  if (providerType && model) {
+    const price = findPrice(await loadCatalog(), { providerId, providerType, model }, at);
+    if (price) {
+      return { costMicros: computeCostMicros(priceRates(price), usage), priceId: price.id };
+    }
+  }
+
+  if (!provider) return { costMicros: 0, priceId: null };
+  return { costMicros: computeCostMicros(costProfileRates(provider.getCostPerToken()), usage), priceId: null };
+}
+
+/**
+ * Re-price settled usage a catalog change may affect. Each entry is priced
+ * against the whole catalog at its own time, so only entries the change
+ * actually applies to move. Returns the number of entries updated.
+ */
+export async function recomputeUsageCosts(scope: pricingDb.RepricingScope): Promise<number> {
+  invalidatePriceCatalog();
+  const prices = await loadCatalog();
+
+  let updated = 0;
+  let afterId = 0;
+  for (;;) {
+    const entries = await pricingDb.getUsageForRepricing(scope, afterId, REPRICING_PAGE_SIZE);
+    if (entries.length === 0) break;
+
+    for (const entry of entries) {
+      const price = findPrice(
+        prices,
+        { providerId: entry.providerId, providerType: entry.providerType, model: entry.modelName ?? "" },
+        entry.createdAt
+      );
+      if (!price) continue;
+
+      const costMicros = computeCostMicros(priceRates(price), {
+        kind: entry.kind,
+        promptTokens: entry.promptTokens ?? 0,
+        completionTokens: entry.completionTokens ?? 0,
+        cachedPromptTokens: entry.cachedPromptTokens,
+        imageCount: entry.imageCount,
+      });
+      if (costMicros === entry.costMicros && price.id === entry.priceId) continue;
+
+      await pricingDb.updateUsageCost(entry.id, { costMicros, priceId: price.id });
+      updated++;
+    }
+    afterId = entries[entries.length - 1].id;
+  }
+  return updated;
+}
+
+/**
+ * Add a price version for a model and re-price the usage it covers
+ */
+export async function addModelPrice(
+  input: NewModelPrice,
+  createdBy: number
+): Promise<{ price: ModelPrice; recomputed: number }> {
+  const providerId = input.providerId ?? null;
+  const version = (await pricingDb.getLatestPriceVersion(input.providerType, providerId, input.model)) + 1;
+
+  const price = await pricingDb.createModelPrice({
+    providerType: input.providerType,
+    providerId,
+    model: input.model,
+    version,
+    inputPerMillion: input.inputPerMillion.toString(),
+    outputPerMillion: input.outputPerMillion.toString(),
+    cachedInputPerMillion: input.cachedInputPerMillion?.toString() ?? null,
+    embeddingPerMillion: input.embeddingPerMillion?.toString() ?? null,
+    perImage: input.perImage?.toString() ?? null,
+    effectiveFrom: input.effectiveFrom,
+    notes: input.notes,
+    createdBy,
+  });
+
+  const recomputed = await recomputeUsageCosts({
+    providerType: price.providerType,
+    providerId: price.providerId,
+    modelPrefix: price.model,
+    since: price.effectiveFrom,
+  });
+  if (recomputed > 0) {
+    console.log(`[Pricing] Re-priced ${recomputed} usage entries for ${price.providerType}/${price.model} v${version}`);
+  }
+  return { price, recomputed };
+}
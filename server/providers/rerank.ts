@@ -0,0 +1,23 @@
+// Provider Hub - Rerank endpoint responses
+
+import type { RerankScore } from './types';
+
+/**
+ * Normalize a /rerank response: Cohere, Jina, vLLM and llama.cpp return
+ * { results: [{ index, relevance_score }] }, Hugging Face TEI returns [{ index, score }]
+ */
+export function parseRerankResponse(data: any, documentCount: number): RerankScore[] {
+  const results: any[] = Array.isArray(data) ? data : data?.results ?? data?.data;
+  if (!Array.isArray(results)) {
+    throw new Error('Rerank response contains no results');
+  }
+
+  const scores = results.map((item) => ({
+    index: Number(item.index),
+    score: Number(item.relevance_score ?? item.score),
+  }));
+  if (scores.some((item) => !Number.isInteger(item.index) || item.index < 0 || item.index >= documentCount || Number.isNaN(item.score))) {
+    throw new Error('Rerank response contains invalid results');
+  }
+  return scores;
+}
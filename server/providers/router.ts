@@ -8,6 +8,7 @@ import type { ProviderType } from "./types";
 import { batchService } from "../inference/batch-service";
 import { hybridRouter } from "../inference/hybrid-router";
 import { providerRouter as unifiedRouter } from "../inference/provider-router";
+import { circuitBreakers } from "../inference/circuit-breaker";
 import { getDb } from "../db";
 import { routingAuditLogs } from "../../drizzle/schema";
 import { desc, eq, and, gte } from "drizzle-orm";
@@ -357,6 +358,29 @@ export const providerRouter = router({
     }),
   }),
 
+  // Per-provider circuit breakers
+  circuitBreakers: router({
+    // Breaker state of every registered provider
+    list: protectedProcedure.query(() => {
+      const registry = getProviderRegistry();
+      const names: Record<number, string> = {};
+      registry.getAllProviders().forEach(provider => {
+        names[provider.id] = provider.name;
+      });
+      return circuitBreakers
+        .getSnapshots(Object.keys(names).map(Number))
+        .map(snapshot => ({ ...snapshot, providerName: names[snapshot.providerId] ?? null }));
+    }),
+
+    // Close a provider's circuit by hand
+    reset: protectedProcedure
+      .input(z.object({ providerId: z.number() }))
+      .mutation(({ input }) => {
+        circuitBreakers.reset(input.providerId);
+        return { success: true };
+      }),
+  }),
+
   // Unified provider routing with policy support
   routing: router({
     // Get routing plan for a request (dry run)
@@ -494,11 +518,23 @@ export const providerRouter = router({
           maxOutput: z.number().optional(),
           rateLimit: z.number().optional(),
           costTier: z.enum(['free', 'low', 'medium', 'high']).optional(),
+          circuitBreaker: z.object({
+            failureThreshold: z.number().int().min(1).optional(),
+            failureRateThreshold: z.number().min(0).max(1).optional(),
+            minimumRequests: z.number().int().min(1).optional(),
+            windowMs: z.number().int().min(1000).optional(),
+            openDurationMs: z.number().int().min(1000).optional(),
+            halfOpenMaxProbes: z.number().int().min(1).optional(),
+            successThreshold: z.number().int().min(1).optional(),
+          }).optional(),
         }).optional(),
       }))
       .mutation(async ({ input }) => {
         const { id, ...data } = input;
         await providerDb.updateProvider(id, data as any);
+        if (input.limits) {
+          circuitBreakers.configure(id, input.limits.circuitBreaker);
+        }
         return { success: true };
       }),
 
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyToolPromptFallback,
+  generateWithTools,
+  parseToolArguments,
+  parseToolCallsFromText,
+} from "./tool-calling";
+import type { ILLMProvider } from "./base";
+import type { GenerationRequest, ToolDefinition } from "./types";
+
+const weatherTool: ToolDefinition = {
+  name: "get_weather",
+  description: "Look up the weather for a city",
+  parameters: {
+    type: "object",
+    properties: { city: { type: "string" } },
+    required: ["city"],
+  },
+};
+
+function mockProvider(supportsFunctionCalling: boolean, content: string) {
+  return {
+    getCapabilities: () => ({ supportsFunctionCalling }),
+    generate: vi.fn().mockResolvedValue({
+      id: "test-id",
+      content,
+      model: "test-model",
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+      finishReason: "stop",
+      latencyMs: 1,
+    }),
+  } as unknown as ILLMProvider & { generate: ReturnType<typeof vi.fn> };
+}
+
+describe("parseToolArguments", () => {
+  it("should accept JSON strings and objects", () => {
+    expect(parseToolArguments('{"city":"Oslo"}')).toEqual({ city: "Oslo" });
+    expect(parseToolArguments({ city: "Oslo" })).toEqual({ city: "Oslo" });
+    expect(parseToolArguments("not json")).toEqual({});
+  });
+});
+
+describe("parseToolCallsFromText", () => {
+  it("should parse a tool_calls envelope wrapped in prose", () => {
+    const calls = parseToolCallsFromText(
+      'Sure.\n```json\n{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Oslo"}}]}\n```',
+      [weatherTool]
+    );
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0].name).toBe("get_weather");
+    expect(calls[0].arguments).toEqual({ city: "Oslo" });
+    expect(calls[0].id).toMatch(/^call_/);
+  });
+
+  it("should accept the legacy tool/params form", () => {
+    const calls = parseToolCallsFromText('{"tool": "get_weather", "params": {"city": "Rome"}}', [weatherTool]);
+    expect(calls.map(c => c.arguments)).toEqual([{ city: "Rome" }]);
+  });
+
+  it("should ignore unknown tools and plain text", () => {
+    expect(parseToolCallsFromText('{"tool_calls": [{"name": "rm_rf", "arguments": {}}]}', [weatherTool])).toEqual([]);
+    expect(parseToolCallsFromText("It is sunny in Oslo.", [weatherTool])).toEqual([]);
+  });
+});
+
+describe("applyToolPromptFallback", () => {
+  it("should move tools into the system prompt and flatten tool messages", () => {
+    const request: GenerationRequest = {
+      messages: [
+        { role: "system", content: "Be helpful." },
+        { role: "user", content: "Weather in Oslo?" },
+        { role: "assistant", content: "", toolCalls: [{ id: "call_1", name: "get_weather", arguments: { city: "Oslo" } }] },
+        { role: "tool", content: "12C", toolCallId: "call_1", name: "get_weather" },
+      ],
+      tools: [weatherTool],
+    };
+
+    const rewritten = applyToolPromptFallback(request);
+
+    expect(rewritten.tools).toBeUndefined();
+    expect(rewritten.messages[0].content).toContain("Be helpful.");
+    expect(rewritten.messages[0].content).toContain("get_weather");
+    expect(rewritten.messages[2].content).toContain('"tool_calls"');
+    expect(rewritten.messages[3]).toMatchObject({ role: "user" });
+    expect(rewritten.messages[3].content).toContain("12C");
+  });
+});
+
+describe("generateWithTools", () => {
+  it("should pass tools through to providers with native support", async () => {
+    const provider = mockProvider(true, "hello");
+    const request: GenerationRequest = { messages: [{ role: "user", content: "hi" }], tools: [weatherTool] };
+
+    await generateWithTools(provider, request);
+
+    expect(provider.generate).toHaveBeenCalledWith(request);
+  });
+
+  it("should parse tool calls from prompted providers", async () => {
+    const provider = mockProvider(false, '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Oslo"}}]}');
+
+    const response = await generateWithTools(provider, {
+      messages: [{ role: "user", content: "Weather in Oslo?" }],
+      tools: [weatherTool],
+    });
+
+    expect(provider.generate.mock.calls[0][0].tools).toBeUndefined();
+    expect(response.finishReason).toBe("tool_calls");
+    expect(response.content).toBe("");
+    expect(response.toolCalls?.[0]).toMatchObject({ name: "get_weather", arguments: { city: "Oslo" } });
+  });
+});
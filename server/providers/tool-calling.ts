@@ -0,0 +1,234 @@
+// Provider Hub - Tool Calling Helpers
+//
+// Providers that declare `supportsFunctionCalling` map `tools` natively.
+// For the rest, tools are described in the system prompt and the model is
+// asked to answer with a JSON envelope that is parsed back into ToolCalls.
+
+import { randomUUID } from 'crypto';
+import type { ILLMProvider } from './base';
+import { getTextContent } from './content';
+import type {
+  GenerationRequest,
+  GenerationResponse,
+  Message,
+  Token,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from './types';
+
+export function createToolCallId(): string {
+  return `call_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+}
+
+/**
+ * Parse a tool-call argument payload that may arrive as a JSON string or object
+ */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (!raw) return {};
+  if (typeof raw === 'object') return raw as Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(String(raw));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function shouldSendTools(request: GenerationRequest): boolean {
+  return !!request.tools?.length && request.toolChoice !== 'none';
+}
+
+// ============================================================================
+// JSON-prompting fallback
+// ============================================================================
+
+function describeToolChoice(toolChoice: ToolChoice | undefined): string {
+  if (toolChoice === 'required') {
+    return 'You MUST call at least one tool.';
+  }
+  if (toolChoice && typeof toolChoice === 'object') {
+    return `You MUST call the "${toolChoice.name}" tool.`;
+  }
+  return 'Call a tool only when it is needed to answer.';
+}
+
+export function buildToolPrompt(tools: ToolDefinition[], toolChoice?: ToolChoice): string {
+  const toolList = tools
+    .map(t => `- ${t.name}: ${t.description || ''}\n  Arguments (JSON Schema): ${JSON.stringify(t.parameters)}`)
+    .join('\n');
+
+  return [
+    'You have access to the following tools:',
+    '',
+    toolList,
+    '',
+    describeToolChoice(toolChoice),
+    'To call tools, respond with ONLY a JSON object in this exact format and nothing else:',
+    '{"tool_calls": [{"name": "tool_name", "arguments": {"arg": "value"}}]}',
+    'Otherwise, answer the user normally in plain text.',
+  ].join('\n');
+}
+
+/**
+ * Flatten tool-related messages into plain text for providers without native tools
+ */
+function flattenToolMessages(messages: Message[]): Message[] {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      return {
+        role: 'user',
+        content: `Tool result for ${msg.name || 'tool'} (${msg.toolCallId || 'call'}):\n${getTextContent(msg.content)}`,
+      };
+    }
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: JSON.stringify({
+          tool_calls: msg.toolCalls.map(c => ({ name: c.name, arguments: c.arguments })),
+        }),
+      };
+    }
+    return { role: msg.role, content: msg.content };
+  });
+}
+
+/**
+ * Rewrite a request so a provider without function calling receives the tools in its prompt
+ */
+export function applyToolPromptFallback(request: GenerationRequest): GenerationRequest {
+  const { tools, toolChoice, ...rest } = request;
+  const messages = flattenToolMessages(request.messages);
+
+  if (!shouldSendTools(request)) {
+    return { ...rest, messages };
+  }
+
+  const toolPrompt = buildToolPrompt(tools!, toolChoice);
+  const systemIndex = messages.findIndex(m => m.role === 'system');
+  if (systemIndex >= 0) {
+    messages[systemIndex] = {
+      role: 'system',
+      content: `${getTextContent(messages[systemIndex].content)}\n\n${toolPrompt}`,
+    };
+  } else {
+    messages.unshift({ role: 'system', content: toolPrompt });
+  }
+
+  return { ...rest, messages };
+}
+
+/**
+ * Extract the first balanced JSON object from text (models often wrap it in prose or fences)
+ */
+function extractJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start < 0) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}' && --depth === 0) return text.slice(start, i + 1);
+  }
+  return null;
+}
+
+/**
+ * Parse tool calls from a JSON-prompted response.
+ * Accepts {"tool_calls": [...]} and the single-call {"tool": ..., "params": ...} form.
+ */
+export function parseToolCallsFromText(text: string, tools?: ToolDefinition[]): ToolCall[] {
+  const json = extractJsonObject(text);
+  if (!json) return [];
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+
+  const rawCalls: any[] = Array.isArray(parsed?.tool_calls)
+    ? parsed.tool_calls
+    : parsed?.tool
+      ? [{ name: parsed.tool, arguments: parsed.params ?? parsed.arguments }]
+      : [];
+
+  const known = tools ? new Set(tools.map(t => t.name)) : null;
+  return rawCalls
+    .filter(c => typeof c?.name === 'string' && (!known || known.has(c.name)))
+    .map(c => ({
+      id: createToolCallId(),
+      name: c.name,
+      arguments: parseToolArguments(c.arguments),
+    }));
+}
+
+// ============================================================================
+// Provider-agnostic entry points
+// ============================================================================
+
+function needsFallback(provider: ILLMProvider, request: GenerationRequest): boolean {
+  if (provider.getCapabilities().supportsFunctionCalling) return false;
+  return !!request.tools?.length || request.messages.some(m => m.role === 'tool' || m.toolCalls?.length);
+}
+
+/**
+ * Generate with tool support, using the JSON-prompting fallback when the provider lacks native tools
+ */
+export async function generateWithTools(
+  provider: ILLMProvider,
+  request: GenerationRequest
+): Promise<GenerationResponse> {
+  if (!needsFallback(provider, request)) {
+    return provider.generate(request);
+  }
+
+  const response = await provider.generate(applyToolPromptFallback(request));
+  if (!shouldSendTools(request)) return response;
+
+  const toolCalls = parseToolCallsFromText(response.content, request.tools);
+  if (toolCalls.length === 0) return response;
+
+  return {
+    ...response,
+    content: '',
+    toolCalls,
+    finishReason: 'tool_calls',
+  };
+}
+
+/**
+ * Streaming counterpart of generateWithTools.
+ * In fallback mode the response is buffered so the JSON envelope is never streamed as text.
+ */
+export async function* generateStreamWithTools(
+  provider: ILLMProvider,
+  request: GenerationRequest
+): AsyncGenerator<Token, void, unknown> {
+  if (!needsFallback(provider, request)) {
+    yield* provider.generateStream(request);
+    return;
+  }
+
+  if (!shouldSendTools(request)) {
+    yield* provider.generateStream(applyToolPromptFallback(request));
+    return;
+  }
+
+  const response = await generateWithTools(provider, request);
+  if (response.content) {
+    yield { content: response.content, isComplete: false };
+  }
+  yield { content: '', isComplete: true, toolCalls: response.toolCalls, usage: response.usage };
+}
@@ -18,15 +18,55 @@ export interface GenerationRequest {
   topP?: number;
   stopSequences?: string[];
   stream?: boolean;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
   workspaceId?: number;
   userId?: number;
 }
 
+/**
+ * One part of a multimodal message. Images reference an http(s)/data URL or an
+ * upload key from server/storage.ts; documents reference an uploaded document.
+ */
+export interface ContentPart {
+  type: 'text' | 'image' | 'document';
+  text?: string;
+  url?: string;
+  storageKey?: string;
+  mimeType?: string;
+  name?: string;
+  documentId?: number;
+}
+
+export type MessageContent = string | ContentPart[];
+
 export interface Message {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: MessageContent;
+  // Set on assistant messages that requested tool calls
+  toolCalls?: ToolCall[];
+  // Set on tool messages: the call being answered and the tool's name
+  toolCallId?: string;
+  name?: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  // JSON Schema describing the tool arguments
+  parameters: Record<string, unknown>;
+}
+
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
 }
 
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_calls' | 'error';
+
 export interface GenerationResponse {
   id: string;
   content: string;
@@ -35,8 +75,11 @@ export interface GenerationResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    // Part of promptTokens the provider served from its prompt cache
+    cachedPromptTokens?: number;
   };
-  finishReason: 'stop' | 'length' | 'content_filter' | 'error';
+  finishReason: FinishReason;
+  toolCalls?: ToolCall[];
   latencyMs: number;
   cost?: number;
 }
@@ -44,6 +87,10 @@ export interface GenerationResponse {
 export interface Token {
   content: string;
   isComplete: boolean;
+  // Present on the final token when the model requested tool calls
+  toolCalls?: ToolCall[];
+  // Present on the final token when the provider reports the stream's usage
+  usage?: GenerationResponse['usage'];
 }
 
 export interface EmbedOptions {
@@ -57,6 +104,15 @@ export interface Embedding {
   dimensions: number;
 }
 
+export interface RerankOptions {
+  model?: string;
+}
+
+export interface RerankScore {
+  index: number; // Position of the document in the request
+  score: number; // Relevance, higher is better
+}
+
 export interface ProviderCapabilities {
   supportsStreaming: boolean;
   supportsEmbedding: boolean;
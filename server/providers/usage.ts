@@ -1,34 +1,47 @@
 import { getDb } from "../db";
-import { providerUsage, type InsertProviderUsage } from "../../drizzle/schema";
+import { providerUsage, type InsertProviderUsage, type UsageKind } from "../../drizzle/schema";
 import { eq, and, gte, sql } from "drizzle-orm";
+import { priceUsage, type PricedUsage } from "./pricing";
 
 /**
- * Track provider usage for cost and analytics
+ * Track provider usage for cost and analytics, priced from the model price
+ * catalog. Returns the price charged, or null without a database.
  */
 export async function trackProviderUsage(data: {
   workspaceId: number;
   providerId: number;
   modelName: string;
-  tokensUsed: number;
-  cost?: number;
+  kind?: UsageKind;
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens?: number;
+  imageCount?: number;
   latencyMs?: number;
-}): Promise<void> {
+}): Promise<PricedUsage | null> {
   const db = getDb();
   if (!db) {
     console.warn("[Usage] Cannot track usage: database not available");
-    return;
+    return null;
   }
 
+  const priced = await priceUsage(data.providerId, data.modelName, data);
   const record: InsertProviderUsage = {
     workspaceId: data.workspaceId,
     providerId: data.providerId,
     modelName: data.modelName,
-    tokensUsed: data.tokensUsed,
-    cost: data.cost?.toString(),
+    kind: data.kind ?? "chat",
+    tokensUsed: data.promptTokens + data.completionTokens,
+    promptTokens: data.promptTokens,
+    completionTokens: data.completionTokens,
+    cachedPromptTokens: data.cachedPromptTokens ?? 0,
+    imageCount: data.imageCount ?? 0,
+    costMicros: priced.costMicros,
+    priceId: priced.priceId,
     latencyMs: data.latencyMs,
   };
 
   await db.insert(providerUsage).values(record);
+  return priced;
 }
 
 /**
@@ -46,7 +59,7 @@ export async function getProviderUsageStats(providerId: number, days: number = 3
   const stats = await db
     .select({
       totalTokens: sql<number>`SUM(${providerUsage.tokensUsed})`,
-      totalCost: sql<number>`SUM(CAST(${providerUsage.cost} AS DECIMAL(10,4)))`,
+      totalCost: sql<number>`SUM(${providerUsage.costMicros}) / 1000000.0`,
       requestCount: sql<number>`COUNT(*)`,
       avgLatency: sql<number>`AVG(${providerUsage.latencyMs})`,
     })
@@ -54,6 +67,7 @@ export async function getProviderUsageStats(providerId: number, days: number = 3
     .where(
       and(
         eq(providerUsage.providerId, providerId),
+        eq(providerUsage.status, "settled"),
         gte(providerUsage.createdAt, since)
       )
     );
@@ -77,13 +91,14 @@ export async function getWorkspaceUsageStats(workspaceId: number, days: number =
     .select({
       providerId: providerUsage.providerId,
       totalTokens: sql<number>`SUM(${providerUsage.tokensUsed})`,
-      totalCost: sql<number>`SUM(CAST(${providerUsage.cost} AS DECIMAL(10,4)))`,
+      totalCost: sql<number>`SUM(${providerUsage.costMicros}) / 1000000.0`,
       requestCount: sql<number>`COUNT(*)`,
     })
     .from(providerUsage)
     .where(
       and(
         eq(providerUsage.workspaceId, workspaceId),
+        eq(providerUsage.status, "settled"),
         gte(providerUsage.createdAt, since)
       )
     )
@@ -108,13 +123,14 @@ export async function getDailyUsageTrend(providerId: number, days: number = 30)
     .select({
       date: sql<string>`DATE(${providerUsage.createdAt})`,
       totalTokens: sql<number>`SUM(${providerUsage.tokensUsed})`,
-      totalCost: sql<number>`SUM(CAST(${providerUsage.cost} AS DECIMAL(10,4)))`,
+      totalCost: sql<number>`SUM(${providerUsage.costMicros}) / 1000000.0`,
       requestCount: sql<number>`COUNT(*)`,
     })
     .from(providerUsage)
     .where(
       and(
         eq(providerUsage.providerId, providerId),
+        eq(providerUsage.status, "settled"),
         gte(providerUsage.createdAt, since)
       )
     )
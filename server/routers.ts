@@ -5,8 +5,10 @@ import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
+import type { RetrievalProfile } from "../drizzle/schema";
 import { providerRouter } from "./providers/router";
 import { providerAnalyticsRouter } from "./providers/analytics-router";
+import { budgetRouter } from "./providers/budget-router";
 import { chatRouter } from "./chat/router";
 import { modelDownloadRouter } from "./models/download-router";
 import { modelBenchmarkRouter } from "./models/benchmark-router";
@@ -14,10 +16,16 @@ import { modelVersionRouter } from "./models/version-router";
 import { downloadAnalyticsRouter } from "./models/analytics-router";
 import { hardwareRouter } from "./hardware/hardware-router";
 import { inferenceRouter } from "./inference/inference-router";
-import { embeddingsRouter } from "./embeddings/embeddings-router";
-import { vectordbRouter } from "./vectordb/vectordb-router";
+import { embeddingsRouter, embeddingModelSchema } from "./embeddings/embeddings-router";
+import { vectordbRouter, retrievalProfileSchema } from "./vectordb/vectordb-router";
+import { invalidateWorkspaceVectorStore } from "./vectordb/store-registry";
+import { getRetrievalProfile } from "./documents/retrieval-profile";
+import { buildRagContext } from "./documents/rag-pipeline";
 import { documentsRouter } from "./documents/documents-router";
 import { documentsApiRouter } from "./documents/documents-api-router";
+import { documentSourcesRouter } from "./documents/sources/router";
+import { retrievalEvalRouter } from "./documents/evaluation/router";
+import { parseTokenizerSpec } from "./documents/tokenizer-service";
 import { automationRouter } from "./automation/automation-router";
 import { secretsRouter } from "./secrets/secrets-router";
 import { triggersRouter } from "./routers/triggers";
@@ -39,12 +47,28 @@ import { catalogRegistryRouter } from "./routers/catalog-registry";
 import { catalogImportRouter } from "./catalog-import/router";
 import { providerConnectionsRouter } from "./provider-connections/router";
 import { discoveryOpsRouter } from "./routers/discovery-ops";
+import { gatewayKeysRouter } from "./api/api-keys-router";
+import { schedulesRouter } from "./scheduler/router";
+import { workflowWebhooksRouter } from "./webhooks/router";
+
+// Vector store collection names
+const collectionNameSchema = z.string().regex(/^[A-Za-z0-9_-]+$/).max(255);
+
+// Chunk sizes are counted with this tokenizer: tiktoken:<encoding> or gguf:<modelId>
+const chunkingTokenizerSchema = z.string().max(100).superRefine((value, ctx) => {
+  try {
+    parseTokenizerSpec(value);
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+  }
+});
 
 export const appRouter = router({
   system: systemRouter,
   diagnostic: diagnosticRouter, // Diagnostic endpoints for debugging
   providers: providerRouter,
   providerAnalytics: providerAnalyticsRouter,
+  budgets: budgetRouter,
   chat: chatRouter,
   agents: agentsRouter,
   agentPromotions: agentsPromotionsRouter,
@@ -59,6 +83,8 @@ export const appRouter = router({
   vectordb: vectordbRouter,
   documentsApi: documentsRouter,
   documentsManagement: documentsApiRouter,
+  documentSources: documentSourcesRouter, // Folder and Git connectors
+  retrievalEval: retrievalEvalRouter, // Retrieval evaluation sets and runs
   automation: automationRouter,
   secrets: secretsRouter,
   triggers: triggersRouter,
@@ -76,6 +102,9 @@ export const appRouter = router({
   catalogImport: catalogImportRouter, // Catalog Import & Discovery
   providerConnections: providerConnectionsRouter, // Provider PAT Authentication (Governed)
   discoveryOps: discoveryOpsRouter, // Discovery Ops: monitoring, promotion, audit
+  gatewayKeys: gatewayKeysRouter, // OpenAI-compatible gateway API keys
+  schedules: schedulesRouter, // Cron schedules for workflows and agents
+  workflowWebhooks: workflowWebhooksRouter, // Signed inbound webhooks for WCP workflows
   auth: router({
     me: publicProcedure.query((opts) => opts.ctx.user),
     logout: publicProcedure.mutation(({ ctx }) => {
@@ -99,17 +128,20 @@ export const appRouter = router({
         z.object({
           name: z.string().min(1).max(255),
           description: z.string().optional(),
-          embeddingModel: z.string().optional(),
+          embeddingModel: embeddingModelSchema.nullable().optional(),
           chunkingStrategy: z.enum(["semantic", "fixed", "recursive"]).optional(),
           chunkSize: z.number().optional(),
           chunkOverlap: z.number().optional(),
+          chunkingTokenizer: chunkingTokenizerSchema.nullable().optional(),
+          parentChunkSize: z.number().int().positive().nullable().optional(),
+          vectorDb: z.enum(["qdrant", "pgvector", "hnsw"]).nullable().optional(),
+          collectionName: collectionNameSchema.nullable().optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
         return await db.createWorkspace({
           ...input,
           ownerId: ctx.user.id,
-          collectionName: `workspace_${Date.now()}`,
         });
       }),
 
@@ -129,10 +161,14 @@ export const appRouter = router({
           id: z.number(),
           name: z.string().min(1).max(255).optional(),
           description: z.string().optional(),
-          embeddingModel: z.string().optional(),
+          embeddingModel: embeddingModelSchema.nullable().optional(),
           chunkingStrategy: z.enum(["semantic", "fixed", "recursive"]).optional(),
           chunkSize: z.number().optional(),
           chunkOverlap: z.number().optional(),
+          chunkingTokenizer: chunkingTokenizerSchema.nullable().optional(),
+          parentChunkSize: z.number().int().positive().nullable().optional(),
+          vectorDb: z.enum(["qdrant", "pgvector", "hnsw"]).nullable().optional(),
+          collectionName: collectionNameSchema.nullable().optional(),
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -142,6 +178,7 @@ export const appRouter = router({
         }
         const { id, ...updates } = input;
         await db.updateWorkspace(id, updates);
+        invalidateWorkspaceVectorStore(id);
         return { success: true };
       }),
 
@@ -174,8 +211,21 @@ export const appRouter = router({
             fallback: z.object({
               enabled: z.boolean(),
               maxHops: z.number().min(0).max(10),
+              resumeMidStream: z.boolean().optional(),
             }),
             pinnedProviderId: z.number().optional().nullable(),
+            adaptive: z.object({
+              enabled: z.boolean(),
+              exploration: z.enum(['thompson', 'epsilon_greedy']),
+              epsilon: z.number().min(0).max(1).optional(),
+              windowMinutes: z.number().int().min(5).max(7 * 24 * 60).optional(),
+            }).optional(),
+            cache: z.object({
+              enabled: z.boolean(),
+              ttlSeconds: z.number().int().min(10).max(30 * 24 * 60 * 60).optional(),
+              semantic: z.boolean().optional(),
+              similarityThreshold: z.number().min(0.5).max(1).optional(),
+            }).optional(),
           }),
         })
       )
@@ -190,6 +240,57 @@ export const appRouter = router({
         return { success: true };
       }),
 
+    // Get workspace retrieval profile
+    getRetrievalProfile: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const hasAccess = await db.hasWorkspaceAccess(ctx.user.id, input.id);
+        if (!hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+        }
+        return await getRetrievalProfile(input.id);
+      }),
+
+    // Update workspace retrieval profile
+    updateRetrievalProfile: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          retrievalProfile: retrievalProfileSchema,
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const hasAccess = await db.hasWorkspaceAccess(ctx.user.id, input.id);
+        if (!hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+        }
+        await db.updateWorkspace(input.id, {
+          retrievalProfile: input.retrievalProfile as RetrievalProfile,
+        });
+        return { success: true };
+      }),
+
+    // Run a query through the workspace's retrieval profile, optionally with unsaved changes
+    testRetrieval: protectedProcedure
+      .input(
+        z.object({
+          id: z.number(),
+          query: z.string().min(1),
+          retrievalProfile: retrievalProfileSchema.partial().optional(),
+        })
+      )
+      .query(async ({ ctx, input }) => {
+        const hasAccess = await db.hasWorkspaceAccess(ctx.user.id, input.id);
+        if (!hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+        }
+        const startTime = Date.now();
+        const rag = await buildRagContext(input.id, input.query, {
+          profile: input.retrievalProfile as Partial<RetrievalProfile> | undefined,
+        });
+        return { ...rag, latencyMs: Date.now() - startTime };
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
@@ -392,10 +493,26 @@ export const appRouter = router({
         if (!hasAccess) {
           throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
         }
-        await db.deleteDocument(input.id);
+        const { deleteDocumentWithEmbeddings } = await import("./documents/processor");
+        await deleteDocumentWithEmbeddings(input.id);
         return { success: true };
       }),
 
+    versions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const document = await db.getDocumentById(input.id);
+        if (!document) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Document not found" });
+        }
+        const hasAccess = await db.hasWorkspaceAccess(ctx.user.id, document.workspaceId);
+        if (!hasAccess) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+        }
+        const { getDocumentVersions } = await import("./documents/db");
+        return await getDocumentVersions(input.id);
+      }),
+
     // Upload and process document
     upload: protectedProcedure
       .input(
@@ -405,6 +522,7 @@ export const appRouter = router({
           fileType: z.string(),
           fileSize: z.number(),
           fileContent: z.string(), // Base64 encoded
+          documentId: z.number().optional(), // Upload as a new version of this document
         })
       )
       .mutation(async ({ ctx, input }) => {
@@ -5,8 +5,35 @@ import { getDb } from "../db";
 import { agents, policies } from "../../drizzle/schema";
 import { eq, and, ne } from "drizzle-orm";
 import { evaluateAgentCompliance, extractPolicyRules } from "../services/policyEvaluation";
+import { removeTargetSchedule, syncAgentSchedule, validateScheduleDefinition } from "../scheduler/service";
+import { agentRunsRouter } from "../agent-runs/router";
+
+// Mirrors AgentTrigger in features/agents-create/types/agent-schema.ts
+const agentTriggerSchema = z.object({
+  type: z.enum(["manual", "workflow", "event", "schedule", "none"]),
+  workflowId: z.string().optional(),
+  eventSource: z.string().optional(),
+  schedule: z.string().optional(), // Cron expression
+  timezone: z.string().optional(),
+  conditions: z.record(z.string(), z.any()).optional(),
+});
+
+function assertValidTrigger(trigger?: z.infer<typeof agentTriggerSchema>) {
+  if (trigger?.type !== "schedule") return;
+  if (!trigger.schedule) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Scheduled agents need a cron expression" });
+  }
+  try {
+    validateScheduleDefinition({ cronExpression: trigger.schedule, timezone: trigger.timezone });
+  } catch (error: any) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+  }
+}
 
 export const agentsRouter = router({
+  // Persisted runs with step-level traces
+  runs: agentRunsRouter,
+
   // List all agents for current user's workspace
   list: protectedProcedure.query(async ({ ctx }) => {
     const db = getDb();
@@ -65,12 +92,14 @@ export const agentsRouter = router({
       hasDocumentAccess: z.boolean().optional().default(false),
       hasToolAccess: z.boolean().optional().default(false),
       allowedTools: z.array(z.string()).optional(),
+      trigger: agentTriggerSchema.optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       const db = getDb();
       const workspaceId = ctx.user.id;
+      assertValidTrigger(input.trigger);
       
-      await db.insert(agents).values({
+      const [created] = await db.insert(agents).values({
         workspaceId,
         name: input.name,
         description: input.description,
@@ -83,9 +112,13 @@ export const agentsRouter = router({
         allowedTools: input.allowedTools,
         status: "draft",
         createdBy: ctx.user.id,
-      } as any);
+      } as any).returning();
       
-      return { success: true };
+      if (input.trigger) {
+        await syncAgentSchedule(created, input.trigger);
+      }
+      
+      return { success: true, id: created.id };
     }),
 
   // Update agent
@@ -99,10 +132,12 @@ export const agentsRouter = router({
       hasDocumentAccess: z.boolean().optional(),
       hasToolAccess: z.boolean().optional(),
       allowedTools: z.array(z.string()).optional(),
+      trigger: agentTriggerSchema.optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       const db = getDb();
       const workspaceId = ctx.user.id;
+      assertValidTrigger(input.trigger);
       
       // Verify ownership
       const agent = await db
@@ -140,6 +175,10 @@ export const agentsRouter = router({
         .set(updateData)
         .where(eq(agents.id, input.id));
       
+      if (input.trigger) {
+        await syncAgentSchedule({ ...agent[0], name: input.name ?? agent[0].name }, input.trigger);
+      }
+      
       return { success: true };
     }),
 
@@ -178,6 +217,9 @@ export const agentsRouter = router({
         })
         .where(eq(agents.id, input.id));
       
+      // Archived agents no longer run on a schedule
+      await removeTargetSchedule("agent", input.id);
+      
       return { success: true };
     }),
 
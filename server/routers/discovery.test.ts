@@ -313,6 +313,55 @@ describe("Step 2 — SSRF Guard", () => {
       dns.promises.resolve6 = origResolve6;
     }
   });
+
+  it("blocks a host when any one of its IPs is internal", async () => {
+    const dns = await import("dns");
+    const origResolve4 = dns.promises.resolve4;
+    const origResolve6 = dns.promises.resolve6;
+    dns.promises.resolve4 = vi.fn().mockResolvedValue(["93.184.216.34", "10.0.0.1"]);
+    dns.promises.resolve6 = vi.fn().mockRejectedValue(new Error("no AAAA"));
+
+    try {
+      const result = await validateExternalUrl("https://rebind.example.com");
+      expect(result.safe).toBe(false);
+      expect(result.error).toContain("blocked");
+    } finally {
+      dns.promises.resolve4 = origResolve4;
+      dns.promises.resolve6 = origResolve6;
+    }
+  });
+
+  it("blocks IPv4-mapped IPv6, NAT64 and shared address space", async () => {
+    const dns = await import("dns");
+    const origResolve4 = dns.promises.resolve4;
+    const origResolve6 = dns.promises.resolve6;
+    dns.promises.resolve4 = vi.fn().mockRejectedValue(new Error("no A"));
+
+    try {
+      for (const ip of ["::ffff:127.0.0.1", "::ffff:169.254.169.254", "::ffff:a9fe:a9fe", "64:ff9b::10.0.0.1", "0:0:0:0:0:0:0:1"]) {
+        dns.promises.resolve6 = vi.fn().mockResolvedValue([ip]);
+        const result = await validateExternalUrl("https://mapped.example.com");
+        expect(result.safe, ip).toBe(false);
+      }
+      dns.promises.resolve6 = vi.fn().mockResolvedValue(["2606:2800:220:1:248:1893:25c8:1946"]);
+      expect((await validateExternalUrl("https://v6.example.com")).safe).toBe(true);
+
+      dns.promises.resolve6 = vi.fn().mockRejectedValue(new Error("no AAAA"));
+      dns.promises.resolve4 = vi.fn().mockResolvedValue(["100.100.100.200"]);
+      expect((await validateExternalUrl("https://cgnat.example.com")).safe).toBe(false);
+    } finally {
+      dns.promises.resolve4 = origResolve4;
+      dns.promises.resolve6 = origResolve6;
+    }
+  });
+
+  it("classifies IP literal hosts without a DNS lookup", async () => {
+    for (const url of ["https://169.254.169.254/latest", "https://[::ffff:127.0.0.1]/", "https://[fd00::1]/"]) {
+      const result = await validateExternalUrl(url);
+      expect(result.safe, url).toBe(false);
+      expect(result.error).toContain("blocked");
+    }
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════════════
@@ -345,6 +394,41 @@ describe("Step 4 — safeFetch constraints", () => {
     expect(src).toMatch(/totalTimeoutMs\s*=\s*8000/);
     expect(src).toMatch(/maxBodyBytes\s*=\s*512\s*\*\s*1024/);
   });
+
+  it("connects to the IP it validated instead of resolving the host again", async () => {
+    const dns = await import("dns");
+    const https = (await import("https")).default;
+    const { Readable } = await import("stream");
+    const origResolve4 = dns.promises.resolve4;
+    const origResolve6 = dns.promises.resolve6;
+    dns.promises.resolve4 = vi.fn().mockResolvedValue(["93.184.216.34"]);
+    dns.promises.resolve6 = vi.fn().mockRejectedValue(new Error("no AAAA"));
+    let lookup: any;
+    const request = vi.spyOn(https, "request").mockImplementation(((_url: URL, options: any, respond: any) => {
+      lookup = options.lookup;
+      const incoming = Object.assign(Readable.from([Buffer.from("hello")]), {
+        statusCode: 200,
+        headers: { "content-type": "text/plain" },
+      });
+      return { on: vi.fn(), end: () => respond(incoming) };
+    }) as any);
+
+    try {
+      const result = await safeFetch("https://rebind.example.com/");
+      expect(result).toMatchObject({ ok: true, status: 200, body: "hello" });
+
+      const single = vi.fn();
+      lookup("rebind.example.com", {}, single);
+      expect(single).toHaveBeenCalledWith(null, "93.184.216.34", 4);
+      const all = vi.fn();
+      lookup("rebind.example.com", { all: true }, all);
+      expect(all).toHaveBeenCalledWith(null, [{ address: "93.184.216.34", family: 4 }]);
+    } finally {
+      request.mockRestore();
+      dns.promises.resolve4 = origResolve4;
+      dns.promises.resolve6 = origResolve6;
+    }
+  });
 });
 
 // ═══════════════════════════════════════════════════════════════════════
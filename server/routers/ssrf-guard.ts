@@ -6,11 +6,17 @@
  *   2. Scheme enforcement (HTTPS required in prod)
  *   3. Port policy (configurable via ALLOWED_OUTBOUND_PORTS)
  *   4. DNS resolution (A + AAAA records) with per-request caching
- *   5. IP classification (block private/link-local/metadata ranges)
+ *   5. IP classification: any resolved IP in a private, link-local, metadata
+ *      or shared range (IPv4-mapped IPv6 included) rejects the URL
  *   6. Redirect validation (re-check per hop)
+ *   7. Connection pinning: safeFetch connects only to the IPs it validated
  */
 
 import dns from "dns";
+import http from "http";
+import https from "https";
+import net, { type LookupFunction } from "net";
+import { Readable } from "stream";
 
 // ── Configurable Port Policy ────────────────────────────────────────
 
@@ -47,8 +53,8 @@ function ipv4ToNumber(ip: string): number {
 function isBlockedIPv4(ip: string): boolean {
   const n = ipv4ToNumber(ip);
 
-  // 0.0.0.0
-  if (n === 0) return true;
+  // 0.0.0.0/8
+  if ((n >>> 24) === 0) return true;
   // 127.0.0.0/8
   if ((n >>> 24) === 127) return true;
   // 10.0.0.0/8
@@ -59,20 +65,65 @@ function isBlockedIPv4(ip: string): boolean {
   if ((n >>> 16) === (192 << 8 | 168)) return true;
   // 169.254.0.0/16 (link-local + cloud metadata)
   if ((n >>> 16) === (169 << 8 | 254)) return true;
+  // 100.64.0.0/10 (carrier-grade NAT, shared address space)
+  if ((n >>> 22) === (100 << 2 | 1)) return true;
+  // 192.0.0.0/24 (IETF protocol assignments)
+  if ((n >>> 8) === (192 << 16)) return true;
+  // 198.18.0.0/15 (benchmarking)
+  if ((n >>> 17) === (198 << 7 | 9)) return true;
+  // 224.0.0.0/4 multicast, 240.0.0.0/4 reserved and broadcast
+  if ((n >>> 28) >= 14) return true;
 
   return false;
 }
 
+/**
+ * The eight 16-bit groups of an IPv6 address, with a trailing dotted IPv4
+ * part folded into the last two; null when the address does not parse
+ */
+function ipv6Groups(ip: string): number[] | null {
+  let address = ip.toLowerCase().split("%")[0];
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (!net.isIPv4(dotted[2])) return null;
+    const n = ipv4ToNumber(dotted[2]);
+    address = `${dotted[1]}${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill("0"), ...tail].map((group) =>
+    /^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN
+  );
+  return groups.some(isNaN) ? null : groups;
+}
+
 function isBlockedIPv6(ip: string): boolean {
-  const normalized = ip.toLowerCase();
-  // ::1 (loopback)
-  if (normalized === "::1" || normalized === "0000:0000:0000:0000:0000:0000:0000:0001") return true;
+  const groups = ipv6Groups(ip);
+  // Unparseable addresses are not fetched
+  if (!groups) return true;
+
+  const embeddedIPv4 = () => `${groups[6] >>> 8}.${groups[6] & 0xff}.${groups[7] >>> 8}.${groups[7] & 0xff}`;
+  const zeroPrefix = groups.slice(0, 5).every((group) => group === 0);
+  // ::ffff:0:0/96 (IPv4-mapped) and ::/96 (IPv4-compatible, covers :: and ::1): classify the IPv4 address
+  if (zeroPrefix && (groups[5] === 0xffff || groups[5] === 0)) {
+    return groups[5] === 0 && groups[6] === 0 && groups[7] <= 1 ? true : isBlockedIPv4(embeddedIPv4());
+  }
+  // 64:ff9b::/96 (NAT64): classify the IPv4 address
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isBlockedIPv4(embeddedIPv4());
+  }
   // fc00::/7 (unique local)
-  if (normalized.startsWith("fc") || normalized.startsWith("fd")) return true;
+  if ((groups[0] & 0xfe00) === 0xfc00) return true;
   // fe80::/10 (link-local)
-  if (normalized.startsWith("fe80")) return true;
-  // :: (unspecified)
-  if (normalized === "::" || normalized === "0000:0000:0000:0000:0000:0000:0000:0000") return true;
+  if ((groups[0] & 0xffc0) === 0xfe80) return true;
+  // ff00::/8 (multicast)
+  if ((groups[0] & 0xff00) === 0xff00) return true;
 
   return false;
 }
@@ -105,6 +156,12 @@ async function resolveAll(hostname: string, cache?: Map<string, string[]>): Prom
     return cache.get(hostname)!;
   }
 
+  // IP literals need no lookup; IPv6 hosts come bracketed from URL
+  const literal = hostname.replace(/^\[(.*)\]$/, "$1");
+  if (net.isIP(literal)) {
+    return [literal];
+  }
+
   const ips: string[] = [];
 
   try {
@@ -189,12 +246,12 @@ export async function validateExternalUrl(
     return { safe: false, error: `No DNS records found for ${parsed.hostname}` };
   }
 
-  // 5. IP classification — block only if ALL IPs are blocked
-  const allBlocked = resolvedIPs.every(isBlockedIP);
-  if (allBlocked) {
+  // 5. IP classification — one blocked IP is enough: the connection may use any of them
+  const blocked = resolvedIPs.find(isBlockedIP);
+  if (blocked) {
     return {
       safe: false,
-      error: `All resolved IPs for ${parsed.hostname} are in blocked ranges`,
+      error: `Resolved IP ${blocked} for ${parsed.hostname} is in a blocked range`,
       resolvedIPs,
     };
   }
@@ -210,6 +267,8 @@ export interface SafeFetchOptions {
   maxBodyBytes?: number;
   allowHttp?: boolean;
   headers?: Record<string, string>;
+  /** Return the body as bytes in `data`; a body over maxBodyBytes fails instead of being cut off */
+  binary?: boolean;
 }
 
 export interface SafeFetchResult {
@@ -220,12 +279,75 @@ export interface SafeFetchResult {
   redirectHops: string[];
   resolvedIPs: string[];
   error?: string;
+  /** Body bytes, when fetched with `binary` */
+  data?: Buffer;
+  contentType?: string | null;
+}
+
+/**
+ * Read a response body as bytes, or null once it grows past maxBytes
+ */
+async function readBytes(res: globalThis.Response, maxBytes: number): Promise<Buffer | null> {
+  const declared = Number(res.headers.get("content-length"));
+  if (declared > maxBytes) return null;
+  if (!res.body) return Buffer.alloc(0);
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytesRead = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    if (bytesRead > maxBytes) {
+      reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * GET a URL over a connection to one of the given, already validated
+ * addresses. fetch() would resolve the hostname again, and a rebinding DNS
+ * server could answer that lookup with an internal address.
+ */
+function pinnedRequest(
+  url: string,
+  addresses: string[],
+  opts: { signal: AbortSignal; headers: Record<string, string> }
+): Promise<globalThis.Response> {
+  const parsed = new URL(url);
+  const client = parsed.protocol === "https:" ? https : http;
+  const pinned = addresses.map((address) => ({ address, family: net.isIP(address) }));
+  const lookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, pinned);
+    else callback(null, pinned[0].address, pinned[0].family);
+  };
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(parsed, { method: "GET", headers: opts.headers, signal: opts.signal, lookup }, (incoming) => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(incoming.headers)) {
+        if (Array.isArray(value)) value.forEach((item) => headers.append(name, item));
+        else if (value !== undefined) headers.set(name, value);
+      }
+      const status = incoming.statusCode ?? 502;
+      const hasBody = ![204, 205, 304].includes(status);
+      if (!hasBody) incoming.resume();
+      resolve(new Response(hasBody ? (Readable.toWeb(incoming) as unknown as ReadableStream) : null, { status, headers }));
+    });
+    req.on("error", reject);
+    req.end();
+  });
 }
 
 /**
  * Fetch a URL with SSRF protection and redirect validation.
  * Handles redirects manually, re-validating each hop.
- * Uses per-request DNS cache to prevent rebinding attacks.
+ * Connects only to the IPs each hop was validated against, so DNS
+ * rebinding cannot swap in an internal address.
  */
 export async function safeFetch(
   url: string,
@@ -237,6 +359,7 @@ export async function safeFetch(
     maxBodyBytes = 512 * 1024,
     allowHttp = false,
     headers = {},
+    binary = false,
   } = opts;
 
   const redirectHops: string[] = [];
@@ -266,9 +389,8 @@ export async function safeFetch(
       }
       if (validation.resolvedIPs) allResolvedIPs.push(...validation.resolvedIPs);
 
-      // Fetch with manual redirect handling
-      const res = await fetch(currentUrl, {
-        redirect: "manual",
+      // Fetch with manual redirect handling, pinned to the validated IPs
+      const res = await pinnedRequest(currentUrl, validation.resolvedIPs ?? [], {
         signal: controller.signal,
         headers: {
           "User-Agent": "MyNewApp/1.0 ProviderDiscovery",
@@ -312,6 +434,31 @@ export async function safeFetch(
         continue;
       }
 
+      if (binary) {
+        const data = await readBytes(res, maxBodyBytes);
+        if (!data) {
+          return {
+            ok: false,
+            status: res.status,
+            body: "",
+            finalUrl: currentUrl,
+            redirectHops,
+            resolvedIPs: allResolvedIPs,
+            error: `Response body exceeds ${maxBodyBytes} bytes`,
+          };
+        }
+        return {
+          ok: res.ok,
+          status: res.status,
+          body: "",
+          finalUrl: currentUrl,
+          redirectHops,
+          resolvedIPs: allResolvedIPs,
+          data,
+          contentType: res.headers.get("content-type"),
+        };
+      }
+
       // Read body with size cap
       let body = "";
       if (res.body) {
@@ -4,6 +4,7 @@ import { getDb } from "../db";
 import { triggerRegistry, type InsertTriggerRegistryEntry } from "../../drizzle/schema";
 import { eq, and, desc, sql } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
+import { isValidTimeZone, parseCron } from "../scheduler/cron";
 
 // Trigger Protocol: 15-Gate Validation Schema
 const triggerCreateSchema = z.object({
@@ -37,6 +38,8 @@ const triggerCreateSchema = z.object({
   ordering: z.enum(["none", "fifo"]),
   ingestionRetryPolicy: z.any().optional(),
   pollingInterval: z.number().optional(),
+  schedule: z.string().optional(), // Default cron expression for schedule mode
+  timezone: z.string().optional(),
   
   // Gate T7: Side-Effects Declaration (STRICT)
   sideEffects: z.array(z.enum([
@@ -134,6 +137,17 @@ function validateTriggerHardRules(data: z.infer<typeof triggerCreateSchema>) {
     });
   }
   
+  if (data.ingestionMode === "schedule" && data.schedule) {
+    try {
+      parseCron(data.schedule);
+    } catch (error: any) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    }
+    if (data.timezone && !isValidTimeZone(data.timezone)) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Invalid time zone: ${data.timezone}` });
+    }
+  }
+  
   // Rule 5: High/Critical risk requires approval
   if (["high", "critical"].includes(data.riskLevel)) {
     // Will be routed to approval workflow
@@ -204,7 +218,9 @@ export const triggersRouter = router({
         // Gate 2: Configuration
         configSchema: input.eventInputSchema,
         configSchemaVersion: 1,
-        defaultConfig: null,
+        defaultConfig: input.ingestionMode === "schedule" && input.schedule
+          ? { schedule: input.schedule, timezone: input.timezone || "UTC" }
+          : null,
         
         // Gate 3: UX
         uiRenderer: null,
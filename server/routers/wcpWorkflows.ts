@@ -1,8 +1,10 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { publicProcedure, protectedProcedure, router } from "../_core/trpc";
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
 import { executeWorkflow } from "../wcp/execution-engine";
+import { getWorkflowTriggerSchedule, removeTargetSchedule, syncWorkflowSchedule } from "../scheduler/service";
 
 export const wcpWorkflowsRouter = router({
   // Save or update a WCP workflow
@@ -28,6 +30,14 @@ export const wcpWorkflowsRouter = router({
         throw new Error("Database not available");
       }
 
+      // Reject invalid time trigger schedules before anything is saved
+      const parsedNodes = JSON.parse(nodes);
+      try {
+        getWorkflowTriggerSchedule(parsedNodes);
+      } catch (error: any) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+      }
+
       if (id) {
         // Update existing workflow
         console.log('[wcpWorkflows.saveWorkflow] Updating workflow ID:', id);
@@ -43,6 +53,8 @@ export const wcpWorkflowsRouter = router({
         );
         console.log('[wcpWorkflows.saveWorkflow] Update result:', result);
 
+        await syncWorkflowSchedule({ id, userId: ctx.user.id, name, nodes: parsedNodes, status });
+
         return { id, message: "Workflow updated successfully" };
       } else {
         // Create new workflow
@@ -55,6 +67,8 @@ export const wcpWorkflowsRouter = router({
         const newId = result.rows?.[0]?.id ?? result[0]?.id;
         console.log('[wcpWorkflows.saveWorkflow] New workflow ID:', newId);
 
+        await syncWorkflowSchedule({ id: newId, userId: ctx.user.id, name, nodes: parsedNodes, status });
+
         return { id: newId, message: "Workflow created successfully" };
       }
     }),
@@ -151,6 +165,7 @@ export const wcpWorkflowsRouter = router({
       await db.execute(
         sql`UPDATE wcp_workflows SET status = 'deleted' WHERE id = ${input.id}`
       );
+      await removeTargetSchedule("workflow", input.id);
 
       return { message: "Workflow deleted successfully" };
     }),
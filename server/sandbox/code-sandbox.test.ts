@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { evaluateExpression, runScript, SandboxError } from "./code-sandbox";
+
+async function failure(promise: Promise<unknown>): Promise<SandboxError> {
+  const error = await promise.then(() => null, e => e);
+  expect(error).toBeInstanceOf(SandboxError);
+  return error;
+}
+
+describe("code sandbox", () => {
+  it("should evaluate expressions and scripts against a copy of the context", async () => {
+    const variables = { order: { total: 120, items: ["a", "b"] } };
+
+    await expect(evaluateExpression("context.order.total > 100", { context: variables })).resolves.toMatchObject({
+      value: true,
+    });
+
+    const result = await runScript(
+      'console.log("items", context.order.items.length); return { count: context.order.items.length };',
+      { context: variables }
+    );
+    expect(result.value).toEqual({ count: 2 });
+    expect(result.logs).toEqual([{ level: "info", message: "items 2" }]);
+  });
+
+  it("should keep the context read-only", async () => {
+    const error = await failure(runScript("context.order.total = 0; return context.order.total;", {
+      context: { order: { total: 1 } },
+    }));
+    expect(error.kind).toBe("runtime");
+    expect(error.errorName).toBe("TypeError");
+  });
+
+  it("should not expose host globals or code generation", async () => {
+    const escapes = [
+      "return process.env",
+      "return context.constructor.constructor('return process')()",
+      "return (() => {}).constructor('return 1')()",
+      "return require('fs')",
+    ];
+    for (const code of escapes) {
+      expect((await failure(runScript(code, { context: {} }))).kind).toBe("runtime");
+    }
+  });
+
+  it("should stop runaway CPU and memory use", async () => {
+    const loop = await failure(runScript("while (true) {}", { timeoutMs: 100 }));
+    expect(loop).toMatchObject({ kind: "timeout", message: "Execution exceeded 100ms" });
+
+    const hog = await failure(runScript("const a = []; while (true) a.push(new Array(1e6).fill(1));", {
+      timeoutMs: 5000,
+      memoryMb: 32,
+    }));
+    expect(hog.kind).toBe("memory");
+  });
+
+  it("should report syntax errors and unserializable results", async () => {
+    expect((await failure(evaluateExpression("context.a >", {}))).kind).toBe("syntax");
+    expect((await failure(runScript("const a = {}; a.self = a; return a;"))).kind).toBe("runtime");
+  });
+});
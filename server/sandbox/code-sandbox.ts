@@ -0,0 +1,270 @@
+/**
+ * Code Sandbox
+ *
+ * Runs user-authored JavaScript (run_code scripts, condition and transform
+ * expressions) in a worker thread with a fresh V8 context:
+ *   - the context is created inside the worker and never receives a host
+ *     object; input goes in and the result comes out as JSON strings, so
+ *     `this.constructor.constructor` only reaches the sandbox's own Function
+ *   - eval/new Function and WebAssembly are disabled inside the context
+ *   - synchronous CPU time is capped by vm's timeout; a wall-clock timer
+ *     terminates the worker if anything gets past it
+ *   - the worker's heap is capped via resourceLimits and it gets an empty env
+ *   - `context` is a deep-frozen copy of the caller's variables
+ */
+import { Worker } from "worker_threads";
+
+export type SandboxErrorKind = "syntax" | "runtime" | "timeout" | "memory" | "serialization" | "cancelled";
+
+export class SandboxError extends Error {
+  constructor(
+    public readonly kind: SandboxErrorKind,
+    message: string,
+    public readonly errorName?: string
+  ) {
+    super(message);
+    this.name = "SandboxError";
+  }
+
+  toJSON() {
+    return { kind: this.kind, name: this.errorName, message: this.message };
+  }
+}
+
+export interface SandboxLogEntry {
+  level: "info" | "warn" | "error";
+  message: string;
+}
+
+export interface SandboxOptions {
+  /** Exposed to the code as a frozen `context` object */
+  context?: Record<string, any>;
+  timeoutMs?: number;
+  memoryMb?: number;
+  signal?: AbortSignal;
+}
+
+export interface SandboxResult {
+  value: any;
+  logs: SandboxLogEntry[];
+  durationMs: number;
+}
+
+export const DEFAULT_TIMEOUT_MS = 1000;
+export const MAX_TIMEOUT_MS = 30_000;
+export const DEFAULT_MEMORY_MB = 64;
+
+// Grace for worker startup before the wall-clock timer kicks in
+const WORKER_STARTUP_GRACE_MS = 2000;
+const MAX_CONCURRENT_WORKERS = 4;
+const MAX_LOG_ENTRIES = 100;
+
+// Runs inside the worker. Kept as a string so it works unchanged from tsx and the esbuild bundle.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const vm = require("node:vm");
+
+const PRELUDE = ${JSON.stringify(`
+"use strict";
+const __logs = [];
+const __log = (level) => (...args) => {
+  if (__logs.length >= ${MAX_LOG_ENTRIES}) return;
+  __logs.push({ level, message: args.map((a) => {
+    if (typeof a === "string") return a;
+    try { return JSON.stringify(a); } catch (e) { return String(a); }
+  }).join(" ") });
+};
+const console = Object.freeze({ log: __log("info"), info: __log("info"), warn: __log("warn"), error: __log("error") });
+const __freeze = (value) => {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const key of Object.keys(value)) __freeze(value[key]);
+  }
+  return value;
+};
+const __context = __freeze(JSON.parse(__input));
+`)};
+
+function describe(error) {
+  try {
+    return { name: String(error && error.name), message: String(error && error.message !== undefined ? error.message : error) };
+  } catch (e) {
+    return { name: "Error", message: "Unreadable error" };
+  }
+}
+
+const { body, inputJson, timeoutMs } = workerData;
+const sandbox = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+  microtaskMode: "afterEvaluate",
+});
+sandbox.__input = inputJson;
+
+let script = null;
+try {
+  script = new vm.Script(PRELUDE + body, { filename: "sandbox.js" });
+} catch (error) {
+  parentPort.postMessage({ ok: false, kind: "syntax", ...describe(error) });
+}
+
+if (script) {
+  try {
+    const output = script.runInContext(sandbox, { timeout: timeoutMs, breakOnSigint: false });
+    parentPort.postMessage({ ok: true, output: typeof output === "string" ? output : "{}" });
+  } catch (error) {
+    const timedOut = error && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT";
+    parentPort.postMessage({ ok: false, kind: timedOut ? "timeout" : "runtime", ...describe(error) });
+  }
+}
+`;
+
+let activeWorkers = 0;
+const waiting: Array<() => void> = [];
+
+async function acquireSlot(): Promise<void> {
+  if (activeWorkers < MAX_CONCURRENT_WORKERS) {
+    activeWorkers++;
+    return;
+  }
+  await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) next();
+  else activeWorkers--;
+}
+
+function clampTimeout(timeoutMs: number | undefined): number {
+  const value = Number(timeoutMs);
+  if (!Number.isFinite(value) || value <= 0) return DEFAULT_TIMEOUT_MS;
+  return Math.min(value, MAX_TIMEOUT_MS);
+}
+
+function serializeInput(context: Record<string, any> | undefined): string {
+  try {
+    return JSON.stringify(context ?? {}) ?? "{}";
+  } catch (error: any) {
+    throw new SandboxError("serialization", `Context is not serializable: ${error.message}`);
+  }
+}
+
+/**
+ * Wrap user code so the context returns `{ result, logs }` as a JSON string.
+ * Serializing inside the context keeps toJSON/getters under the CPU limit.
+ */
+function wrap(invocation: string): string {
+  return `
+let __result = ${invocation};
+if (__result && typeof __result.then === "function") {
+  throw new TypeError("Sandboxed code must return a value synchronously");
+}
+JSON.stringify({ result: __result === undefined ? null : __result, logs: __logs });
+`;
+}
+
+async function execute(body: string, options: SandboxOptions): Promise<SandboxResult> {
+  const timeoutMs = clampTimeout(options.timeoutMs);
+  const memoryMb = Math.max(16, Math.min(options.memoryMb ?? DEFAULT_MEMORY_MB, 512));
+  const inputJson = serializeInput(options.context);
+
+  if (options.signal?.aborted) {
+    throw new SandboxError("cancelled", "Execution cancelled");
+  }
+
+  await acquireSlot();
+  const startedAt = Date.now();
+
+  try {
+    return await new Promise<SandboxResult>((resolve, reject) => {
+      let settled = false;
+
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: { body, inputJson, timeoutMs },
+        env: {},
+        execArgv: [],
+        stdout: true,
+        stderr: true,
+        resourceLimits: {
+          maxOldGenerationSizeMb: memoryMb,
+          maxYoungGenerationSizeMb: Math.min(16, memoryMb),
+          stackSizeMb: 4,
+        },
+      });
+
+      const finish = (error: SandboxError | null, result?: SandboxResult) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+        worker.terminate().catch(() => {});
+        if (error) reject(error);
+        else resolve(result!);
+      };
+
+      const onAbort = () => finish(new SandboxError("cancelled", "Execution cancelled"));
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+
+      const timer = setTimeout(
+        () => finish(new SandboxError("timeout", `Execution exceeded ${timeoutMs}ms`)),
+        timeoutMs + WORKER_STARTUP_GRACE_MS
+      );
+
+      worker.on("message", (message: any) => {
+        if (!message.ok) {
+          const text = message.kind === "timeout" ? `Execution exceeded ${timeoutMs}ms` : message.message;
+          finish(new SandboxError(message.kind, text, message.name));
+          return;
+        }
+
+        let parsed: { result: any; logs: SandboxLogEntry[] };
+        try {
+          parsed = JSON.parse(message.output);
+        } catch {
+          finish(new SandboxError("serialization", "Result is not JSON-serializable"));
+          return;
+        }
+        finish(null, { value: parsed.result, logs: parsed.logs || [], durationMs: Date.now() - startedAt });
+      });
+
+      worker.on("error", (error: any) => {
+        if (error?.code === "ERR_WORKER_OUT_OF_MEMORY") {
+          finish(new SandboxError("memory", `Execution exceeded the ${memoryMb}MB memory limit`));
+        } else {
+          finish(new SandboxError("runtime", error?.message || String(error)));
+        }
+      });
+
+      worker.on("exit", code => {
+        finish(new SandboxError("runtime", `Sandbox exited unexpectedly (code ${code})`));
+      });
+    });
+  } finally {
+    releaseSlot();
+  }
+}
+
+/**
+ * Evaluate a single expression, e.g. `context.order.total > 100`
+ */
+export function evaluateExpression(expression: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  return execute(wrap(`(function (context) { "use strict"; return (${expression}\n); })(__context)`), options);
+}
+
+/**
+ * Run a script body; its `return` value is the result
+ */
+export function runScript(code: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  return execute(wrap(`(function (context) { "use strict"; ${code}\n})(__context)`), options);
+}
+
+/**
+ * Re-throw a sandbox failure with a caller-specific prefix, keeping its kind
+ */
+export function sandboxFailure(prefix: string, error: any): Error {
+  if (error instanceof SandboxError) {
+    return new SandboxError(error.kind, `${prefix}: ${error.message}`, error.errorName);
+  }
+  return new Error(`${prefix}: ${error?.message || String(error)}`);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { isValidTimeZone, nextFireTime, nextFireTimes, parseCron } from "./cron";
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+describe("parseCron", () => {
+  it("should expand lists, ranges, steps and names", () => {
+    const schedule = parseCron("*/15 9-17 * JAN,jul MON-FRI");
+
+    expect(schedule.seconds).toEqual([0]);
+    expect(schedule.minutes).toEqual([0, 15, 30, 45]);
+    expect(schedule.hours).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(schedule.months).toEqual([1, 7]);
+    expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.domRestricted).toBe(false);
+  });
+
+  it("should accept six fields, macros and 7 for Sunday", () => {
+    expect(parseCron("30 0 9 * * *").seconds).toEqual([30]);
+    expect(parseCron("@daily").hours).toEqual([0]);
+    expect(parseCron("0 0 * * 7").daysOfWeek).toEqual([0]);
+  });
+
+  it("should reject malformed expressions", () => {
+    expect(() => parseCron("* * *")).toThrow(/expected 5 or 6 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/out of range/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/step/);
+    expect(() => parseCron("0 0 L * *")).toThrow(/unsupported/);
+  });
+});
+
+describe("nextFireTime", () => {
+  it("should return the next matching time strictly after the reference", () => {
+    const after = new Date("2026-03-10T09:00:00Z");
+    expect(nextFireTime("0 9 * * *", after)?.toISOString()).toBe("2026-03-11T09:00:00.000Z");
+    expect(nextFireTime("*/5 * * * *", after)?.toISOString()).toBe("2026-03-10T09:05:00.000Z");
+  });
+
+  it("should match either day field when both are restricted", () => {
+    // The 13th or any Friday
+    const times = nextFireTimes("0 0 13 * FRI", 3, new Date("2026-02-01T00:00:00Z"));
+    expect(iso(times)).toEqual([
+      "2026-02-06T00:00:00.000Z",
+      "2026-02-13T00:00:00.000Z",
+      "2026-02-20T00:00:00.000Z",
+    ]);
+  });
+
+  it("should evaluate in the schedule's time zone across DST changes", () => {
+    const times = nextFireTimes("0 9 * * *", 3, new Date("2026-03-07T00:00:00Z"), "America/New_York");
+    // New York switches from UTC-5 to UTC-4 on 2026-03-08
+    expect(iso(times)).toEqual([
+      "2026-03-07T14:00:00.000Z",
+      "2026-03-08T13:00:00.000Z",
+      "2026-03-09T13:00:00.000Z",
+    ]);
+  });
+
+  it("should fire wall times skipped by DST at the shifted instant", () => {
+    const next = nextFireTime("30 2 * * *", new Date("2026-03-08T05:00:00Z"), "America/New_York");
+    // 02:30 does not exist that day; 03:30 EDT is 07:30 UTC
+    expect(next?.toISOString()).toBe("2026-03-08T07:30:00.000Z");
+  });
+
+  it("should fire a repeated wall time once", () => {
+    // New York repeats 01:00-02:00 on 2026-11-01
+    const times = nextFireTimes("30 1 * * *", 2, new Date("2026-11-01T04:00:00Z"), "America/New_York");
+    expect(iso(times)).toEqual(["2026-11-01T05:30:00.000Z", "2026-11-02T06:30:00.000Z"]);
+  });
+
+  it("should return null for expressions that never fire", () => {
+    expect(nextFireTime("0 0 30 2 *", new Date("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("should accept IANA names only", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
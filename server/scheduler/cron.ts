@@ -0,0 +1,364 @@
+/**
+ * Cron Expressions
+ *
+ * Parses standard cron syntax and computes fire times in an IANA time zone:
+ *   - 5 fields (minute hour day-of-month month day-of-week) or 6 with a
+ *     leading seconds field, as used by the automation engine examples
+ *   - lists, ranges, steps, month/day names and the @hourly/@daily/... macros
+ *   - day-of-month and day-of-week match on either when both are restricted
+ *
+ * Wall-clock times skipped by a DST jump fire at the shifted instant; times
+ * repeated by a DST fall-back fire once.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS: Record<string, FieldSpec> = {
+  second: { name: "second", min: 0, max: 59 },
+  minute: { name: "minute", min: 0, max: 59 },
+  hour: { name: "hour", min: 0, max: 23 },
+  dayOfMonth: { name: "day-of-month", min: 1, max: 31 },
+  month: { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as an alias for Sunday
+  dayOfWeek: { name: "day-of-week", min: 0, max: 7, names: DAY_NAMES },
+};
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// Give up on expressions that can never match (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 8;
+
+function invalid(expression: string, reason: string): Error {
+  return new Error(`Invalid cron expression "${expression}": ${reason}`);
+}
+
+function parseValue(value: string, spec: FieldSpec, expression: string): number {
+  const upper = value.toUpperCase();
+  const nameIndex = spec.names?.indexOf(upper) ?? -1;
+  if (nameIndex >= 0) {
+    return spec.names === MONTH_NAMES ? nameIndex + 1 : nameIndex;
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw invalid(expression, `unsupported ${spec.name} value "${value}"`);
+  }
+  const n = parseInt(value, 10);
+  if (n < spec.min || n > spec.max) {
+    throw invalid(expression, `${spec.name} value ${n} out of range ${spec.min}-${spec.max}`);
+  }
+  return n;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): { values: number[]; restricted: boolean } {
+  const values = new Set<number>();
+  const restricted = field !== "*" && field !== "?";
+
+  for (const part of field.split(",")) {
+    if (!part) throw invalid(expression, `empty ${spec.name} list item`);
+
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined) throw invalid(expression, `malformed step "${part}"`);
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw invalid(expression, `invalid ${spec.name} step "${stepText}"`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*" || range === "?") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) throw invalid(expression, `${spec.name} range ${range} is reversed`);
+    } else {
+      start = parseValue(range, spec, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  if (spec === FIELDS.dayOfWeek && values.has(7)) {
+    values.delete(7);
+    values.add(0);
+  }
+
+  return { values: Array.from(values).sort((a, b) => a - b), restricted };
+}
+
+/**
+ * Parse a cron expression, throwing a descriptive error if it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = (expression || "").trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/).filter(Boolean);
+
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw invalid(expression, `expected 5 or 6 fields, got ${fields.length}`);
+  }
+  if (fields.length === 5) {
+    fields.unshift("0");
+  }
+
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const dom = parseField(dayOfMonth, FIELDS.dayOfMonth, expression);
+  const dow = parseField(dayOfWeek, FIELDS.dayOfWeek, expression);
+
+  return {
+    expression: trimmed,
+    seconds: parseField(second, FIELDS.second, expression).values,
+    minutes: parseField(minute, FIELDS.minute, expression).values,
+    hours: parseField(hour, FIELDS.hour, expression).values,
+    daysOfMonth: dom.values,
+    months: parseField(month, FIELDS.month, expression).values,
+    daysOfWeek: dow.values,
+    domRestricted: dom.restricted,
+    dowRestricted: dow.restricted,
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Time zones
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock time in `timeZone` for an instant, encoded as a UTC timestamp
+ */
+function toWallClock(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * Instant at which `timeZone` shows the given wall-clock time
+ */
+function fromWallClock(wall: number, timeZone: string): number {
+  // Try the UTC offsets on both sides of a possible DST change
+  const offsetA = toWallClock(wall, timeZone) - wall;
+  const offsetB = toWallClock(wall - offsetA, timeZone) - (wall - offsetA);
+  const candidates = [wall - offsetA, wall - offsetB].sort((a, b) => a - b);
+
+  const exact = candidates.find(instant => toWallClock(instant, timeZone) === wall);
+  // No exact match means the wall time falls in a DST gap; take the instant after it
+  return exact ?? candidates[1];
+}
+
+// ============================================================================
+// Fire times
+// ============================================================================
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.includes(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.includes(date.getUTCDay());
+
+  if (schedule.domRestricted && schedule.dowRestricted) return domMatch || dowMatch;
+  if (schedule.domRestricted) return domMatch;
+  if (schedule.dowRestricted) return dowMatch;
+  return true;
+}
+
+/**
+ * Next wall-clock time strictly after `wall` matching the schedule
+ */
+function nextWallClock(schedule: CronSchedule, wall: number): number | null {
+  const start = new Date(wall + 1000);
+  let year = start.getUTCFullYear();
+  let month = start.getUTCMonth() + 1;
+  let day = start.getUTCDate();
+  let hour = start.getUTCHours();
+  let minute = start.getUTCMinutes();
+  let second = start.getUTCSeconds();
+  const lastYear = year + MAX_SEARCH_YEARS;
+
+  while (year <= lastYear) {
+    if (!schedule.months.includes(month)) {
+      const next = schedule.months.find(m => m > month);
+      if (next === undefined) {
+        year++;
+        month = schedule.months[0];
+      } else {
+        month = next;
+      }
+      day = 1; hour = 0; minute = 0; second = 0;
+      continue;
+    }
+
+    if (day > daysInMonth(year, month) || !matchesDay(schedule, new Date(Date.UTC(year, month - 1, day)))) {
+      day++;
+      if (day > daysInMonth(year, month)) {
+        day = 1;
+        month++;
+        if (month > 12) { month = 1; year++; }
+      }
+      hour = 0; minute = 0; second = 0;
+      continue;
+    }
+
+    const nextHour = schedule.hours.find(h => h >= hour);
+    if (nextHour === undefined) {
+      day++; hour = 0; minute = 0; second = 0;
+      continue;
+    }
+    if (nextHour !== hour) {
+      hour = nextHour; minute = 0; second = 0;
+    }
+
+    const nextMinute = schedule.minutes.find(m => m >= minute);
+    if (nextMinute === undefined) {
+      hour++; minute = 0; second = 0;
+      if (hour > 23) { day++; hour = 0; }
+      continue;
+    }
+    if (nextMinute !== minute) {
+      minute = nextMinute; second = 0;
+    }
+
+    const nextSecond = schedule.seconds.find(s => s >= second);
+    if (nextSecond === undefined) {
+      minute++; second = 0;
+      if (minute > 59) { hour++; minute = 0; }
+      if (hour > 23) { day++; hour = 0; }
+      continue;
+    }
+
+    return Date.UTC(year, month - 1, day, hour, minute, nextSecond);
+  }
+
+  return null;
+}
+
+/**
+ * First fire time strictly after `after`, or null if the expression never fires
+ */
+export function nextFireTime(
+  expression: string | CronSchedule,
+  after: Date = new Date(),
+  timeZone: string = "UTC"
+): Date | null {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid time zone: ${timeZone}`);
+  }
+
+  // Cron has one-second resolution
+  const afterMs = Math.floor(after.getTime() / 1000) * 1000;
+  let wall = toWallClock(afterMs, timeZone);
+
+  for (let attempts = 0; attempts < 1000; attempts++) {
+    const candidate = nextWallClock(schedule, wall);
+    if (candidate === null) return null;
+
+    const instant = fromWallClock(candidate, timeZone);
+    // A wall time repeated by a DST fall-back may map to an instant we already passed
+    if (instant > afterMs) return new Date(instant);
+    wall = candidate;
+  }
+
+  return null;
+}
+
+/**
+ * The next `count` fire times after `from`
+ */
+export function nextFireTimes(
+  expression: string,
+  count: number,
+  from: Date = new Date(),
+  timeZone: string = "UTC"
+): Date[] {
+  const schedule = parseCron(expression);
+  const times: Date[] = [];
+  let cursor: Date | null = from;
+
+  while (times.length < count) {
+    cursor = nextFireTime(schedule, cursor, timeZone);
+    if (!cursor) break;
+    times.push(cursor);
+  }
+
+  return times;
+}
@@ -0,0 +1,151 @@
+/**
+ * Scheduler — Database CRUD and leases
+ */
+import { eq, and, or, lt, lte, isNull, desc } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  schedules,
+  type InsertSchedule,
+  type Schedule,
+  type ScheduleTargetType,
+} from "../../drizzle/schema";
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export async function createSchedule(data: InsertSchedule): Promise<Schedule> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.insert(schedules).values(data).returning();
+  return row;
+}
+
+export async function getScheduleById(id: number): Promise<Schedule | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(schedules).where(eq(schedules.id, id));
+  return row ?? null;
+}
+
+export async function getSchedulesByUser(userId: number): Promise<Schedule[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(schedules)
+    .where(eq(schedules.userId, userId))
+    .orderBy(desc(schedules.updatedAt));
+}
+
+export async function getScheduleForTarget(
+  targetType: ScheduleTargetType,
+  targetId: number
+): Promise<Schedule | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .select()
+    .from(schedules)
+    .where(and(eq(schedules.targetType, targetType), eq(schedules.targetId, targetId)))
+    .limit(1);
+  return row ?? null;
+}
+
+export async function updateSchedule(
+  id: number,
+  data: Partial<InsertSchedule>
+): Promise<Schedule | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .update(schedules)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(schedules.id, id))
+    .returning();
+  return row ?? null;
+}
+
+export async function deleteSchedule(id: number): Promise<boolean> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db.delete(schedules).where(eq(schedules.id, id)).returning({ id: schedules.id });
+  return rows.length > 0;
+}
+
+// ============================================================================
+// Leases
+// ============================================================================
+
+/**
+ * Enabled schedules whose next run is due and that no live instance holds
+ */
+export async function getDueSchedules(now: Date, limit: number): Promise<Schedule[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(schedules)
+    .where(
+      and(
+        eq(schedules.enabled, true),
+        lte(schedules.nextRunAt, now),
+        or(isNull(schedules.leaseExpiresAt), lt(schedules.leaseExpiresAt, now))
+      )
+    )
+    .orderBy(schedules.nextRunAt)
+    .limit(limit);
+}
+
+/**
+ * Take the lease on a due schedule. The conditional update is atomic, so when
+ * several instances race for the same row exactly one gets it back.
+ */
+export async function claimSchedule(
+  id: number,
+  owner: string,
+  now: Date,
+  leaseMs: number
+): Promise<Schedule | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .update(schedules)
+    .set({ leaseOwner: owner, leaseExpiresAt: new Date(now.getTime() + leaseMs) })
+    .where(
+      and(
+        eq(schedules.id, id),
+        eq(schedules.enabled, true),
+        lte(schedules.nextRunAt, now),
+        or(isNull(schedules.leaseExpiresAt), lt(schedules.leaseExpiresAt, now))
+      )
+    )
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * Record the outcome of a run, move the schedule on and drop the lease.
+ * Only the lease holder can release it.
+ */
+export async function releaseSchedule(
+  id: number,
+  owner: string,
+  data: Pick<InsertSchedule, "nextRunAt" | "lastRunAt" | "lastRunStatus" | "lastError">
+): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(schedules)
+    .set({ ...data, leaseOwner: null, leaseExpiresAt: null })
+    .where(and(eq(schedules.id, id), eq(schedules.leaseOwner, owner)));
+}
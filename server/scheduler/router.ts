@@ -0,0 +1,148 @@
+/**
+ * Scheduler — tRPC Router
+ *
+ *   - list: the caller's schedules
+ *   - create / update / delete: manage cron schedules for workflows and agents
+ *   - preview: next fire times for a cron expression, for trigger forms
+ */
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { agents, wcpWorkflows } from "../../drizzle/schema";
+import { isValidTimeZone, nextFireTimes, parseCron } from "./cron";
+import { computeNextRun } from "./service";
+import {
+  createSchedule,
+  deleteSchedule,
+  getScheduleById,
+  getSchedulesByUser,
+  updateSchedule,
+} from "./db";
+
+const targetTypeSchema = z.enum(["workflow", "agent"]);
+const missedRunPolicySchema = z.enum(["skip", "run_once", "catch_up"]);
+
+const cronSchema = z.string().min(1).max(255).superRefine((value, ctx) => {
+  try {
+    parseCron(value);
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+  }
+});
+
+const timezoneSchema = z.string().refine(isValidTimeZone, { message: "Invalid time zone" });
+
+async function assertTargetAccess(userId: number, targetType: "workflow" | "agent", targetId: number) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Agents are scoped to the user's workspace, WCP workflows to their owner
+  const [target] = targetType === "workflow"
+    ? await db.select({ id: wcpWorkflows.id }).from(wcpWorkflows)
+        .where(and(eq(wcpWorkflows.id, targetId), eq(wcpWorkflows.userId, userId)))
+    : await db.select({ id: agents.id }).from(agents)
+        .where(and(eq(agents.id, targetId), eq(agents.workspaceId, userId)));
+
+  if (!target) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `${targetType === "workflow" ? "Workflow" : "Agent"} not found` });
+  }
+}
+
+async function getOwnedSchedule(userId: number, id: number) {
+  const schedule = await getScheduleById(id);
+  if (!schedule || schedule.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+  }
+  return schedule;
+}
+
+export const schedulesRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return getSchedulesByUser(ctx.user.id);
+  }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(255),
+        targetType: targetTypeSchema,
+        targetId: z.number().int(),
+        cronExpression: cronSchema,
+        timezone: timezoneSchema.default("UTC"),
+        missedRunPolicy: missedRunPolicySchema.default("skip"),
+        input: z.record(z.string(), z.any()).optional(),
+        enabled: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertTargetAccess(ctx.user.id, input.targetType, input.targetId);
+
+      return createSchedule({
+        ...input,
+        userId: ctx.user.id,
+        nextRunAt: input.enabled ? computeNextRun(input) : null,
+      });
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.number().int(),
+        name: z.string().min(1).max(255).optional(),
+        cronExpression: cronSchema.optional(),
+        timezone: timezoneSchema.optional(),
+        missedRunPolicy: missedRunPolicySchema.optional(),
+        input: z.record(z.string(), z.any()).optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      const schedule = await getOwnedSchedule(ctx.user.id, id);
+
+      const enabled = changes.enabled ?? schedule.enabled;
+      const definition = {
+        cronExpression: changes.cronExpression ?? schedule.cronExpression,
+        timezone: changes.timezone ?? schedule.timezone,
+      };
+
+      return updateSchedule(id, {
+        ...changes,
+        nextRunAt: enabled ? computeNextRun(definition) : null,
+      });
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedSchedule(ctx.user.id, input.id);
+      await deleteSchedule(input.id);
+      return { success: true };
+    }),
+
+  /**
+   * Upcoming fire times, so users can check an expression before saving it
+   */
+  preview: protectedProcedure
+    .input(
+      z.object({
+        cronExpression: z.string().min(1).max(255),
+        timezone: z.string().default("UTC"),
+        count: z.number().int().min(1).max(50).default(10),
+      })
+    )
+    .query(({ input }) => {
+      if (!isValidTimeZone(input.timezone)) {
+        return { valid: false, error: `Invalid time zone: ${input.timezone}`, fireTimes: [] as string[] };
+      }
+
+      try {
+        const fireTimes = nextFireTimes(input.cronExpression, input.count, new Date(), input.timezone);
+        return { valid: true, error: null as string | null, fireTimes: fireTimes.map(time => time.toISOString()) };
+      } catch (error: any) {
+        return { valid: false, error: error.message, fireTimes: [] as string[] };
+      }
+    }),
+});
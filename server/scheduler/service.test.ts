@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { getWorkflowTriggerSchedule, planRuns } from "./service";
+
+const hourly = { cronExpression: "0 * * * *", timezone: "UTC" };
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+describe("planRuns", () => {
+  const now = new Date("2026-05-01T12:00:30Z");
+
+  it("should run an on-time schedule once under every policy", () => {
+    for (const missedRunPolicy of ["skip", "run_once", "catch_up"] as const) {
+      const plan = planRuns({ ...hourly, missedRunPolicy, nextRunAt: new Date("2026-05-01T12:00:00Z") }, now);
+      expect(iso(plan.runs)).toEqual(["2026-05-01T12:00:00.000Z"]);
+      expect(plan.nextRunAt?.toISOString()).toBe("2026-05-01T13:00:00.000Z");
+    }
+  });
+
+  it("should apply the missed-run policy after downtime", () => {
+    const nextRunAt = new Date("2026-05-01T09:00:00Z");
+
+    expect(planRuns({ ...hourly, missedRunPolicy: "skip", nextRunAt }, now).runs).toEqual([]);
+    expect(iso(planRuns({ ...hourly, missedRunPolicy: "run_once", nextRunAt }, now).runs)).toEqual([
+      "2026-05-01T12:00:00.000Z",
+    ]);
+    expect(iso(planRuns({ ...hourly, missedRunPolicy: "catch_up", nextRunAt }, now).runs)).toEqual([
+      "2026-05-01T09:00:00.000Z",
+      "2026-05-01T10:00:00.000Z",
+      "2026-05-01T11:00:00.000Z",
+      "2026-05-01T12:00:00.000Z",
+    ]);
+  });
+
+  it("should cap catch-up and leave the backlog due", () => {
+    const plan = planRuns(
+      { ...hourly, missedRunPolicy: "catch_up", nextRunAt: new Date("2026-04-30T00:00:00Z") },
+      now
+    );
+
+    expect(plan.runs).toHaveLength(10);
+    expect(plan.nextRunAt?.toISOString()).toBe("2026-04-30T10:00:00.000Z");
+  });
+});
+
+describe("getWorkflowTriggerSchedule", () => {
+  it("should read the schedule from the time trigger block", () => {
+    const nodes = [
+      { id: "1", data: { blockType: "time_trigger", config: { schedule: "0 9 * * 1", timezone: "Asia/Tokyo" } } },
+      { id: "2", data: { blockType: "send_email" } },
+    ];
+
+    expect(getWorkflowTriggerSchedule(nodes)).toEqual({
+      cronExpression: "0 9 * * 1",
+      timezone: "Asia/Tokyo",
+      missedRunPolicy: "skip",
+    });
+    expect(getWorkflowTriggerSchedule([{ id: "1", data: { blockType: "time_trigger", config: {} } }])).toBeNull();
+    expect(() =>
+      getWorkflowTriggerSchedule([{ id: "1", data: { blockType: "time_trigger", config: { schedule: "bogus" } } }])
+    ).toThrow(/Invalid cron expression/);
+  });
+});
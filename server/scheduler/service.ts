@@ -0,0 +1,425 @@
+/**
+ * Scheduler — Service
+ *
+ * Fires persisted cron schedules for WCP workflows, agents and document
+ * source syncs:
+ *   - every tick, due schedules are claimed with a DB lease so that only one
+ *     server instance fires each run
+ *   - fire times missed while no instance was up are handled by the
+ *     schedule's missed-run policy (skip, run_once or catch_up)
+ *   - nextRunAt is always recomputed from the cron expression, so schedules
+ *     survive restarts without any in-memory state
+ */
+import { hostname } from "os";
+import { eq } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  wcpWorkflows,
+  wcpExecutions,
+  type Schedule,
+  type ScheduleTargetType,
+  type MissedRunPolicy,
+} from "../../drizzle/schema";
+import { isValidTimeZone, nextFireTime, parseCron } from "./cron";
+import * as scheduleDb from "./db";
+
+const TICK_INTERVAL_MS = 15 * 1000;
+const LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+// A run this late under the "skip" policy counts as missed rather than late
+const MISSED_RUN_GRACE_MS = 2 * 60 * 1000;
+
+// Upper bound on backfilled runs per schedule per tick under "catch_up"
+const MAX_CATCH_UP_RUNS = 10;
+
+export interface ScheduleDefinition {
+  cronExpression: string;
+  timezone?: string;
+  missedRunPolicy?: MissedRunPolicy;
+}
+
+export interface RunPlan {
+  // Scheduled fire times to run now, oldest first
+  runs: Date[];
+  nextRunAt: Date | null;
+}
+
+/**
+ * Throw if the cron expression or time zone is invalid
+ */
+export function validateScheduleDefinition(definition: ScheduleDefinition): void {
+  parseCron(definition.cronExpression);
+  if (definition.timezone && !isValidTimeZone(definition.timezone)) {
+    throw new Error(`Invalid time zone: ${definition.timezone}`);
+  }
+}
+
+export function computeNextRun(definition: ScheduleDefinition, after: Date = new Date()): Date | null {
+  return nextFireTime(definition.cronExpression, after, definition.timezone || "UTC");
+}
+
+/**
+ * Decide which fire times to run for a due schedule, per its missed-run policy
+ */
+export function planRuns(
+  schedule: Pick<Schedule, "cronExpression" | "timezone" | "missedRunPolicy" | "nextRunAt">,
+  now: Date
+): RunPlan {
+  const timezone = schedule.timezone || "UTC";
+  const cron = parseCron(schedule.cronExpression);
+  const due = schedule.nextRunAt;
+
+  if (!due || due > now) {
+    return { runs: [], nextRunAt: due ?? nextFireTime(cron, now, timezone) };
+  }
+
+  const missed: Date[] = [due];
+  let cursor = nextFireTime(cron, due, timezone);
+  while (cursor && cursor <= now && missed.length < MAX_CATCH_UP_RUNS) {
+    missed.push(cursor);
+    cursor = nextFireTime(cron, cursor, timezone);
+  }
+
+  switch (schedule.missedRunPolicy) {
+    case "catch_up":
+      // If capped, the remaining backlog is picked up on the next tick
+      return { runs: missed, nextRunAt: cursor };
+
+    case "run_once":
+      return { runs: [missed[missed.length - 1]], nextRunAt: nextFireTime(cron, now, timezone) };
+
+    case "skip":
+    default: {
+      const latest = missed[missed.length - 1];
+      const onTime = missed.length === 1 && now.getTime() - latest.getTime() <= MISSED_RUN_GRACE_MS;
+      return { runs: onTime ? [latest] : [], nextRunAt: nextFireTime(cron, now, timezone) };
+    }
+  }
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+function triggerData(schedule: Schedule, scheduledFor: Date): Record<string, any> {
+  return {
+    source: "schedule",
+    scheduleId: schedule.id,
+    scheduleName: schedule.name,
+    cronExpression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    scheduledFor: scheduledFor.toISOString(),
+    input: schedule.input ?? {},
+  };
+}
+
+async function runWorkflow(schedule: Schedule, scheduledFor: Date): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [workflow] = await db.select().from(wcpWorkflows).where(eq(wcpWorkflows.id, schedule.targetId));
+  if (!workflow || workflow.userId !== schedule.userId) {
+    throw new Error(`Workflow ${schedule.targetId} not found`);
+  }
+
+  const data = triggerData(schedule, scheduledFor);
+  const [execution] = await db
+    .insert(wcpExecutions)
+    .values({
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      status: "running",
+      triggerType: "schedule",
+      triggerData: data,
+    })
+    .returning({ id: wcpExecutions.id });
+
+  await db
+    .update(wcpWorkflows)
+    .set({ lastRunAt: new Date(), lastRunStatus: "running" })
+    .where(eq(wcpWorkflows.id, workflow.id));
+
+  const { executeWorkflow } = await import("../wcp/execution-engine");
+  const status = await executeWorkflow(
+    workflow.id,
+    execution.id,
+    JSON.parse(workflow.nodes),
+    JSON.parse(workflow.edges),
+    data
+  );
+
+  await db
+    .update(wcpWorkflows)
+    .set({ lastRunStatus: status })
+    .where(eq(wcpWorkflows.id, workflow.id));
+
+  if (status === "failed") {
+    throw new Error(`Workflow execution ${execution.id} failed`);
+  }
+}
+
+async function runAgent(schedule: Schedule, scheduledFor: Date): Promise<void> {
+  const { executeInvokeAgent } = await import("../automation/block-executors");
+  const data = triggerData(schedule, scheduledFor);
+
+  const result = await executeInvokeAgent(
+    {
+      id: `schedule-${schedule.id}`,
+      data: {
+        agentId: schedule.targetId,
+        input: schedule.input?.goal ?? schedule.input?.prompt ?? `Scheduled run "${schedule.name}" for ${data.scheduledFor}`,
+      },
+    },
+    {
+      workflowId: 0,
+      executionId: 0,
+      userId: schedule.userId,
+      variables: { trigger: data },
+      agentRun: { source: "schedule" },
+    }
+  );
+
+  if (result?.error) {
+    throw new Error(result.error);
+  }
+}
+
+async function runDocumentSourceSync(schedule: Schedule): Promise<void> {
+  const { syncDocumentSource } = await import("../documents/sources/service");
+  const result = await syncDocumentSource(schedule.targetId);
+
+  if (result.status === "failed") {
+    throw new Error(result.error ?? `Sync of document source ${schedule.targetId} failed`);
+  }
+}
+
+const DISPATCHERS: Record<ScheduleTargetType, (schedule: Schedule, scheduledFor: Date) => Promise<void>> = {
+  workflow: runWorkflow,
+  agent: runAgent,
+  document_source: runDocumentSourceSync,
+};
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+export class Scheduler {
+  readonly instanceId = `${hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("[Scheduler] Tick failed:", error));
+    }, TICK_INTERVAL_MS);
+    console.log(`[Scheduler] Started as ${this.instanceId} (every ${TICK_INTERVAL_MS / 1000}s)`);
+
+    this.tick().catch(error => console.error("[Scheduler] Tick failed:", error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and fire every due schedule. Returns the number of runs started.
+   */
+  async tick(now: Date = new Date()): Promise<number> {
+    if (this.ticking || !getDb()) return 0;
+    this.ticking = true;
+
+    try {
+      let started = 0;
+      for (const due of await scheduleDb.getDueSchedules(now, BATCH_SIZE)) {
+        const schedule = await scheduleDb.claimSchedule(due.id, this.instanceId, now, LEASE_MS);
+        if (!schedule) continue; // Another instance won the lease
+
+        started += await this.fire(schedule, now);
+      }
+      return started;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async fire(schedule: Schedule, now: Date): Promise<number> {
+    let plan: RunPlan;
+    try {
+      plan = planRuns(schedule, now);
+    } catch (error: any) {
+      // An expression that no longer parses disables the schedule instead of retrying every tick
+      await scheduleDb.releaseSchedule(schedule.id, this.instanceId, {
+        nextRunAt: null,
+        lastRunStatus: "failed",
+        lastError: error.message,
+      });
+      return 0;
+    }
+
+    // Advance before dispatching so a slow or crashing run can't fire twice
+    await scheduleDb.releaseSchedule(schedule.id, this.instanceId, {
+      nextRunAt: plan.nextRunAt,
+      lastRunAt: plan.runs.length > 0 ? now : schedule.lastRunAt,
+      lastRunStatus: plan.runs.length > 0 ? "running" : "skipped",
+      lastError: null,
+    });
+
+    if (plan.runs.length === 0) {
+      console.log(`[Scheduler] Skipped missed run(s) of schedule ${schedule.id}`);
+      return 0;
+    }
+
+    // Runs execute in the background; the next tick doesn't wait for them
+    this.dispatch(schedule, plan.runs).catch(error =>
+      console.error(`[Scheduler] Schedule ${schedule.id} dispatch failed:`, error)
+    );
+    return plan.runs.length;
+  }
+
+  private async dispatch(schedule: Schedule, runs: Date[]): Promise<void> {
+    const run = DISPATCHERS[schedule.targetType];
+    let lastError: string | null = null;
+
+    for (const scheduledFor of runs) {
+      console.log(`[Scheduler] Firing ${schedule.targetType} ${schedule.targetId} for ${scheduledFor.toISOString()}`);
+      try {
+        await run(schedule, scheduledFor);
+      } catch (error: any) {
+        lastError = error.message;
+        console.error(`[Scheduler] Schedule ${schedule.id} run failed:`, error.message);
+      }
+    }
+
+    await scheduleDb.updateSchedule(schedule.id, {
+      lastRunStatus: lastError ? "failed" : "completed",
+      lastError,
+    });
+  }
+}
+
+export const scheduler = new Scheduler();
+
+// ============================================================================
+// Target sync
+// ============================================================================
+
+export interface TargetScheduleInput extends ScheduleDefinition {
+  userId: number;
+  workspaceId?: number | null;
+  targetType: ScheduleTargetType;
+  targetId: number;
+  name: string;
+  input?: Record<string, any>;
+  enabled?: boolean;
+}
+
+/**
+ * Create or update the schedule attached to a workflow or agent
+ */
+export async function upsertTargetSchedule(data: TargetScheduleInput): Promise<Schedule> {
+  validateScheduleDefinition(data);
+
+  const enabled = data.enabled ?? true;
+  const values = {
+    userId: data.userId,
+    workspaceId: data.workspaceId ?? null,
+    name: data.name,
+    targetType: data.targetType,
+    targetId: data.targetId,
+    cronExpression: data.cronExpression.trim(),
+    timezone: data.timezone || "UTC",
+    missedRunPolicy: data.missedRunPolicy || "skip",
+    input: data.input,
+    enabled,
+    nextRunAt: enabled ? computeNextRun(data) : null,
+  };
+
+  const existing = await scheduleDb.getScheduleForTarget(data.targetType, data.targetId);
+  if (existing) {
+    return scheduleDb.updateSchedule(existing.id, values);
+  }
+  return scheduleDb.createSchedule(values);
+}
+
+export async function removeTargetSchedule(targetType: ScheduleTargetType, targetId: number): Promise<void> {
+  const existing = await scheduleDb.getScheduleForTarget(targetType, targetId);
+  if (existing) {
+    await scheduleDb.deleteSchedule(existing.id);
+  }
+}
+
+/**
+ * Schedule configured on a WCP workflow's time trigger block, if any
+ */
+export function getWorkflowTriggerSchedule(nodes: any[]): ScheduleDefinition | null {
+  const trigger = (nodes || []).find(node => node?.data?.blockType === "time_trigger");
+  const config = trigger?.data?.config || {};
+  const schedule = typeof config.schedule === "string" ? config.schedule.trim() : "";
+
+  if (!schedule || schedule === "immediate") {
+    return null;
+  }
+
+  const definition: ScheduleDefinition = {
+    cronExpression: schedule,
+    timezone: config.timezone || "UTC",
+    missedRunPolicy: config.missedRunPolicy || "skip",
+  };
+  validateScheduleDefinition(definition);
+  return definition;
+}
+
+/**
+ * Keep a workflow's schedule in line with its time trigger block
+ */
+export async function syncWorkflowSchedule(workflow: {
+  id: number;
+  userId: number;
+  name: string;
+  nodes: any[];
+  status: string;
+}): Promise<void> {
+  const definition = getWorkflowTriggerSchedule(workflow.nodes);
+  if (!definition) {
+    await removeTargetSchedule("workflow", workflow.id);
+    return;
+  }
+
+  await upsertTargetSchedule({
+    ...definition,
+    userId: workflow.userId,
+    targetType: "workflow",
+    targetId: workflow.id,
+    name: workflow.name,
+    enabled: workflow.status !== "paused" && workflow.status !== "archived",
+  });
+}
+
+/**
+ * Keep an agent's schedule in line with its trigger configuration
+ */
+export async function syncAgentSchedule(
+  agent: { id: number; workspaceId: number; name: string; createdBy: number },
+  trigger: { type: string; schedule?: string; timezone?: string; conditions?: Record<string, any> }
+): Promise<void> {
+  if (trigger.type !== "schedule" || !trigger.schedule) {
+    await removeTargetSchedule("agent", agent.id);
+    return;
+  }
+
+  await upsertTargetSchedule({
+    userId: agent.createdBy,
+    workspaceId: agent.workspaceId,
+    targetType: "agent",
+    targetId: agent.id,
+    name: agent.name,
+    cronExpression: trigger.schedule,
+    timezone: trigger.timezone,
+    input: trigger.conditions,
+  });
+}
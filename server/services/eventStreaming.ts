@@ -17,7 +17,24 @@ export type EventType =
   | 'governance.violation'
   | 'governance.approved'
   | 'orchestrator.connected'
-  | 'orchestrator.disconnected';
+  | 'orchestrator.disconnected'
+  | 'orchestration.plan_created'
+  | 'orchestration.replanned'
+  | 'orchestration.step_started'
+  | 'orchestration.step_completed'
+  | 'orchestration.step_failed'
+  | 'orchestration.completed'
+  | 'orchestration.failed';
+
+export const ORCHESTRATION_EVENT_TYPES: EventType[] = [
+  'orchestration.plan_created',
+  'orchestration.replanned',
+  'orchestration.step_started',
+  'orchestration.step_completed',
+  'orchestration.step_failed',
+  'orchestration.completed',
+  'orchestration.failed',
+];
 
 export interface StreamEvent {
   id: string;
@@ -99,7 +116,7 @@ export class EventStreamManager extends EventEmitter {
     }
 
     // Dispatch to subscribers
-    for (const subscriber of this.subscribers.values()) {
+    for (const subscriber of Array.from(this.subscribers.values())) {
       if (
         subscriber.workspaceId === event.workspaceId &&
         subscriber.eventTypes.includes(event.type)
@@ -150,7 +167,7 @@ export class EventStreamManager extends EventEmitter {
    */
   clearWorkspaceSubscribers(workspaceId: number): number {
     let count = 0;
-    for (const [id, subscriber] of this.subscribers.entries()) {
+    for (const [id, subscriber] of Array.from(this.subscribers.entries())) {
       if (subscriber.workspaceId === workspaceId) {
         this.subscribers.delete(id);
         count++;
@@ -235,3 +252,19 @@ export function emitGovernanceEvent(
     data,
   });
 }
+
+export function emitOrchestrationEvent(
+  type: 'plan_created' | 'replanned' | 'step_started' | 'step_completed' | 'step_failed' | 'completed' | 'failed',
+  workspaceId: number,
+  data: Record<string, any> = {}
+): void {
+  const manager = getEventStreamManager();
+  if (!manager) return;
+
+  manager.emitEvent({
+    type: `orchestration.${type}` as EventType,
+    timestamp: new Date(),
+    workspaceId,
+    data,
+  });
+}
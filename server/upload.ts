@@ -1,8 +1,9 @@
-import { Router } from "express";
+import { Router, type NextFunction, type Request, type Response } from "express";
 import { storagePut } from "./storage";
 import multer from "multer";
 import { nanoid } from "nanoid";
 import { sdk } from "./_core/sdk";
+import { hasWorkspaceAccess } from "./db";
 
 const router = Router();
 const upload = multer({
@@ -12,30 +13,41 @@ const upload = multer({
   },
 });
 
-router.post("/upload-document", upload.single("file"), async (req, res) => {
-  // Authentication check
-  if (process.env.DEV_MODE !== "true" || process.env.NODE_ENV === "production") {
-    try {
-      const user = await sdk.authenticateRequest(req);
-      if (!user) {
-        res.status(401).json({ error: "Authentication required" });
-        return;
-      }
-    } catch {
+async function requireUploadAuth(req: Request, res: Response, next: NextFunction) {
+  // DEV_MODE bypasses authentication in non-production only, as the dev user
+  if (process.env.DEV_MODE === "true" && process.env.NODE_ENV !== "production") {
+    res.locals.userId = 1;
+    return next();
+  }
+
+  try {
+    const user = await sdk.authenticateRequest(req);
+    if (!user) {
       res.status(401).json({ error: "Authentication required" });
       return;
     }
+    res.locals.userId = user.id;
+  } catch {
+    res.status(401).json({ error: "Authentication required" });
+    return;
   }
 
+  next();
+}
+
+router.post("/upload-document", requireUploadAuth, upload.single("file"), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: "No file provided" });
     }
 
-    const workspaceId = req.body.workspaceId;
-    if (!workspaceId) {
+    if (!req.body.workspaceId) {
       return res.status(400).json({ error: "Workspace ID required" });
     }
+    const workspaceId = Number(req.body.workspaceId);
+    if (!Number.isInteger(workspaceId) || !(await hasWorkspaceAccess(res.locals.userId, workspaceId))) {
+      return res.status(403).json({ error: "No access to this workspace" });
+    }
 
     // Generate unique file key
     const fileExtension = req.file.originalname.split(".").pop();
@@ -59,4 +71,43 @@ router.post("/upload-document", upload.single("file"), async (req, res) => {
   }
 });
 
+// Chat attachments (images, files) referenced from multimodal messages by storage key
+router.post("/upload-attachment", requireUploadAuth, upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file provided" });
+    }
+
+    // Keys are scoped to their owner, which chat requests check before reading them
+    const userId: number = res.locals.userId;
+    let scope = `user-${userId}`;
+    if (req.body.workspaceId) {
+      const workspaceId = Number(req.body.workspaceId);
+      if (!Number.isInteger(workspaceId) || !(await hasWorkspaceAccess(userId, workspaceId))) {
+        return res.status(403).json({ error: "No access to this workspace" });
+      }
+      scope = `workspace-${workspaceId}`;
+    }
+    const fileExtension = req.file.originalname.split(".").pop();
+    const fileKey = `${scope}/attachments/${nanoid()}.${fileExtension}`;
+
+    const result = await storagePut(
+      fileKey,
+      req.file.buffer,
+      req.file.mimetype
+    );
+
+    res.json({
+      success: true,
+      url: result.url,
+      key: result.key,
+      name: req.file.originalname,
+      mimeType: req.file.mimetype,
+    });
+  } catch (error) {
+    console.error("Attachment upload error:", error);
+    res.status(500).json({ error: "Upload failed" });
+  }
+});
+
 export default router;
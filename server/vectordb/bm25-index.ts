@@ -0,0 +1,127 @@
+/**
+ * BM25 Index
+ * In-process lexical index (Okapi BM25). The tokenizer keeps identifiers
+ * such as part numbers and error codes ("ERR-4021", "X12.B7") whole, and
+ * also indexes their parts, so exact codes that embeddings blur still match.
+ */
+
+const DEFAULT_K1 = 1.2;
+const DEFAULT_B = 0.75;
+
+// Runs of letters/digits, joined by the separators used inside codes
+const TOKEN_PATTERN = /[a-z0-9\u00c0-\u1fff\u2c00-\uffef]+(?:[-_./:#][a-z0-9\u00c0-\u1fff\u2c00-\uffef]+)*/g;
+const SEPARATOR_PATTERN = /[-_./:#]+/;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in", "is", "it",
+  "its", "of", "on", "or", "that", "the", "to", "was", "were", "will", "with",
+]);
+
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.toLowerCase().match(TOKEN_PATTERN) ?? []) {
+    if (!STOPWORDS.has(match)) tokens.push(match);
+    if (SEPARATOR_PATTERN.test(match)) {
+      for (const part of match.split(SEPARATOR_PATTERN)) {
+        if (part && !STOPWORDS.has(part)) tokens.push(part);
+      }
+    }
+  }
+  return tokens;
+}
+
+interface IndexedDocument<T> {
+  value: T;
+  length: number;
+  terms: string[];
+}
+
+export class Bm25Index<T> {
+  private documents: Map<string, IndexedDocument<T>> = new Map();
+  private postings: Map<string, Map<string, number>> = new Map(); // term -> document id -> term frequency
+  private totalLength = 0;
+
+  constructor(
+    private readonly k1 = DEFAULT_K1,
+    private readonly b = DEFAULT_B
+  ) {}
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index a document, replacing any document with the same id
+   */
+  add(id: string, text: string, value: T): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+
+    const terms = Array.from(frequencies.keys());
+    for (const term of terms) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequencies.get(term)!);
+    }
+
+    this.documents.set(id, { value, length: tokens.length, terms });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    return true;
+  }
+
+  /**
+   * Best-scoring documents for a query; documents sharing no term with it are never returned
+   */
+  search(
+    query: string,
+    limit: number,
+    filter?: (value: T) => boolean
+  ): Array<{ id: string; score: number; value: T }> {
+    const count = this.documents.size;
+    if (count === 0 || limit <= 0) return [];
+
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of Array.from(new Set(tokenize(query)))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+      posting.forEach((frequency, id) => {
+        const length = this.documents.get(id)!.length;
+        const weight = (frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + (this.b * length) / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * weight);
+      });
+    }
+
+    const results: Array<{ id: string; score: number; value: T }> = [];
+    scores.forEach((score, id) => {
+      const { value } = this.documents.get(id)!;
+      if (!filter || filter(value)) results.push({ id, score, value });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
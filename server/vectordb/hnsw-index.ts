@@ -0,0 +1,259 @@
+/**
+ * HNSW Index
+ * Hierarchical Navigable Small World graph for approximate nearest neighbour
+ * search (Malkov & Yashunin), in plain TypeScript so it runs without native
+ * modules. Serializes to JSON for the on-disk vector store.
+ */
+
+import { similarity, type VectorDistance } from "./vector-store";
+
+export interface HnswNode {
+  id: string;
+  vector: number[];
+  payload: Record<string, any>;
+  level: number;
+  neighbors: string[][]; // Per level, closest first
+}
+
+export interface SerializedHnswIndex {
+  version: 1;
+  dimensions: number;
+  distance: VectorDistance;
+  m: number;
+  efConstruction: number;
+  entryPoint: string | null;
+  nodes: HnswNode[];
+}
+
+interface Candidate {
+  id: string;
+  distance: number;
+}
+
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 200;
+const DEFAULT_EF_SEARCH = 64;
+
+/**
+ * Insert into an array kept sorted by ascending distance
+ */
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].distance < candidate.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+export class HnswIndex {
+  private nodes: Map<string, HnswNode> = new Map();
+  private entryPoint: string | null = null;
+  private readonly levelMultiplier: number;
+
+  constructor(
+    readonly dimensions: number,
+    readonly distance: VectorDistance,
+    readonly m = DEFAULT_M,
+    readonly efConstruction = DEFAULT_EF_CONSTRUCTION
+  ) {
+    this.levelMultiplier = 1 / Math.log(m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  get(id: string): HnswNode | undefined {
+    return this.nodes.get(id);
+  }
+
+  values(): HnswNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  // Lower is closer
+  private distanceTo(query: number[], id: string): number {
+    return -similarity(this.distance, query, this.nodes.get(id)!.vector);
+  }
+
+  private maxNeighbors(level: number): number {
+    return level === 0 ? this.m * 2 : this.m;
+  }
+
+  /**
+   * Insert a point, replacing any point with the same id
+   */
+  upsert(id: string, vector: number[], payload: Record<string, any>): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected a ${this.dimensions}-dimensional vector, got ${vector.length}`);
+    }
+    if (this.nodes.has(id)) this.remove(id);
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = { id, vector, payload, level, neighbors: Array.from({ length: level + 1 }, () => []) };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      return;
+    }
+
+    const entry = this.nodes.get(this.entryPoint)!;
+    let current: Candidate = { id: entry.id, distance: this.distanceTo(vector, entry.id) };
+
+    // Greedy descent through the levels above the new node
+    for (let l = entry.level; l > level; l--) {
+      current = this.searchLayer(vector, [current], 1, l)[0];
+    }
+
+    let entries = [current];
+    for (let l = Math.min(level, entry.level); l >= 0; l--) {
+      const candidates = this.searchLayer(vector, entries, this.efConstruction, l).filter((c) => c.id !== id);
+      node.neighbors[l] = candidates.slice(0, this.m).map((c) => c.id);
+
+      for (const neighborId of node.neighbors[l]) {
+        this.connect(neighborId, id, l);
+      }
+      entries = candidates.length > 0 ? candidates : entries;
+    }
+
+    if (level > entry.level) this.entryPoint = id;
+  }
+
+  /**
+   * Add a link and prune the neighbour list back to its closest entries
+   */
+  private connect(fromId: string, toId: string, level: number): void {
+    const from = this.nodes.get(fromId)!;
+    const links = from.neighbors[level];
+    if (links.includes(toId)) return;
+    links.push(toId);
+
+    if (links.length > this.maxNeighbors(level)) {
+      // Links are one-way, so removed points can linger here until pruned
+      from.neighbors[level] = links
+        .filter((linkId) => this.nodes.has(linkId))
+        .map((linkId) => ({ id: linkId, distance: this.distanceTo(from.vector, linkId) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, this.maxNeighbors(level))
+        .map((c) => c.id);
+    }
+  }
+
+  /**
+   * Remove a point and reconnect its neighbours to each other
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+    this.nodes.delete(id);
+
+    for (let l = 0; l <= node.level; l++) {
+      for (const neighborId of node.neighbors[l]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || !neighbor.neighbors[l]) continue;
+        neighbor.neighbors[l] = neighbor.neighbors[l].filter((linkId) => linkId !== id);
+        for (const replacement of node.neighbors[l]) {
+          if (replacement !== neighborId && this.nodes.has(replacement)) this.connect(neighborId, replacement, l);
+        }
+      }
+    }
+
+    if (this.entryPoint === id) {
+      let best: HnswNode | null = null;
+      for (const candidate of Array.from(this.nodes.values())) {
+        if (!best || candidate.level > best.level) best = candidate;
+      }
+      this.entryPoint = best ? best.id : null;
+    }
+    return true;
+  }
+
+  /**
+   * Best-first search of one layer; returns up to `ef` candidates, closest first
+   */
+  private searchLayer(query: number[], entries: Candidate[], ef: number, level: number): Candidate[] {
+    const visited = new Set(entries.map((e) => e.id));
+    const candidates = [...entries].sort((a, b) => a.distance - b.distance);
+    const results = [...candidates];
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      if (results.length >= ef && closest.distance > results[results.length - 1].distance) break;
+
+      const links = this.nodes.get(closest.id)?.neighbors[level] ?? [];
+      for (const linkId of links) {
+        if (visited.has(linkId) || !this.nodes.has(linkId)) continue;
+        visited.add(linkId);
+
+        const candidate = { id: linkId, distance: this.distanceTo(query, linkId) };
+        if (results.length < ef || candidate.distance < results[results.length - 1].distance) {
+          insertSorted(candidates, candidate);
+          insertSorted(results, candidate);
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * k nearest neighbours as similarity scores, best first. Filtered searches
+   * widen the beam and fall back to an exact scan when too few points match.
+   */
+  search(
+    query: number[],
+    k: number,
+    options: { ef?: number; filter?: (node: HnswNode) => boolean } = {}
+  ): Array<{ node: HnswNode; score: number }> {
+    if (this.entryPoint === null || k <= 0) return [];
+    if (query.length !== this.dimensions) {
+      throw new Error(`Expected a ${this.dimensions}-dimensional query, got ${query.length}`);
+    }
+
+    const { filter } = options;
+    const ef = Math.max(options.ef ?? DEFAULT_EF_SEARCH, filter ? k * 10 : k);
+    const entry = this.nodes.get(this.entryPoint)!;
+    let current: Candidate = { id: entry.id, distance: this.distanceTo(query, entry.id) };
+    for (let l = entry.level; l > 0; l--) {
+      current = this.searchLayer(query, [current], 1, l)[0];
+    }
+
+    let found = this.searchLayer(query, [current], ef, 0)
+      .map((c) => this.nodes.get(c.id)!)
+      .filter((node) => !filter || filter(node));
+
+    if (filter && found.length < k) {
+      found = this.values().filter(filter);
+    }
+
+    return found
+      .map((node) => ({ node, score: similarity(this.distance, query, node.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  toJSON(): SerializedHnswIndex {
+    return {
+      version: 1,
+      dimensions: this.dimensions,
+      distance: this.distance,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      entryPoint: this.entryPoint,
+      nodes: this.values(),
+    };
+  }
+
+  static fromJSON(data: SerializedHnswIndex): HnswIndex {
+    const index = new HnswIndex(data.dimensions, data.distance, data.m, data.efConstruction);
+    for (const node of data.nodes) {
+      index.nodes.set(node.id, node);
+    }
+    index.entryPoint = data.entryPoint;
+    return index;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * HNSW Vector Store
+ * Embedded vector store: one HNSW index per collection, kept in memory and
+ * persisted as a JSON file under VECTOR_STORE_DIR. Needs no external service.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { HnswIndex, type SerializedHnswIndex } from "./hnsw-index";
+import {
+  generatePointIds,
+  matchesFilter,
+  validateInsert,
+  type CollectionConfig,
+  type VectorFilter,
+  type VectorInsertRequest,
+  type VectorPayloadUpdate,
+  type VectorSearchRequest,
+  type VectorSearchResult,
+  type VectorStore,
+} from "./vector-store";
+
+const SAVE_DELAY_MS = 500;
+const FILE_EXTENSION = ".hnsw.json";
+
+export class HnswVectorStore implements VectorStore {
+  readonly backend = "hnsw" as const;
+  private indexes: Map<string, HnswIndex> = new Map();
+  private loading: Map<string, Promise<HnswIndex | null>> = new Map();
+  private saveTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(readonly directory = process.env.VECTOR_STORE_DIR || path.join(process.cwd(), "data", "vectors")) {}
+
+  private filePath(collection: string): string {
+    return path.join(this.directory, `${encodeURIComponent(collection)}${FILE_EXTENSION}`);
+  }
+
+  /**
+   * Load a collection from disk on first access
+   */
+  private async getIndex(collection: string): Promise<HnswIndex | null> {
+    const cached = this.indexes.get(collection);
+    if (cached) return cached;
+
+    let pending = this.loading.get(collection);
+    if (!pending) {
+      pending = fs
+        .readFile(this.filePath(collection), "utf8")
+        .then((raw) => {
+          const index = HnswIndex.fromJSON(JSON.parse(raw) as SerializedHnswIndex);
+          this.indexes.set(collection, index);
+          return index;
+        })
+        .catch((error: any) => {
+          if (error.code === "ENOENT") return null;
+          throw error;
+        })
+        .finally(() => this.loading.delete(collection));
+      this.loading.set(collection, pending);
+    }
+    return pending;
+  }
+
+  private async requireIndex(collection: string): Promise<HnswIndex> {
+    const index = await this.getIndex(collection);
+    if (!index) {
+      throw new Error(`Collection ${collection} does not exist`);
+    }
+    return index;
+  }
+
+  /**
+   * Debounce writes so a batch of inserts is saved once
+   */
+  private scheduleSave(collection: string): void {
+    const existing = this.saveTimers.get(collection);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.saveTimers.delete(collection);
+      this.save(collection).catch((error) => {
+        console.error(`[HnswVectorStore] Failed to save ${collection}:`, error);
+      });
+    }, SAVE_DELAY_MS);
+    timer.unref?.();
+    this.saveTimers.set(collection, timer);
+  }
+
+  private async save(collection: string): Promise<void> {
+    const index = this.indexes.get(collection);
+    if (!index) return;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.filePath(collection);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(index.toJSON()));
+    await fs.rename(temporary, target);
+  }
+
+  /**
+   * Write every pending collection to disk immediately
+   */
+  async flush(): Promise<void> {
+    const pending = Array.from(this.saveTimers.keys());
+    for (const collection of pending) {
+      clearTimeout(this.saveTimers.get(collection)!);
+      this.saveTimers.delete(collection);
+      await this.save(collection);
+    }
+  }
+
+  async createCollection(config: CollectionConfig): Promise<void> {
+    if (await this.getIndex(config.name)) return;
+
+    this.indexes.set(config.name, new HnswIndex(config.vectorSize, config.distance));
+    await this.save(config.name);
+    console.log(`[HnswVectorStore] Created collection: ${config.name}`);
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    const timer = this.saveTimers.get(name);
+    if (timer) clearTimeout(timer);
+    this.saveTimers.delete(name);
+    this.indexes.delete(name);
+
+    await fs.rm(this.filePath(name), { force: true });
+    console.log(`[HnswVectorStore] Deleted collection: ${name}`);
+  }
+
+  async listCollections(): Promise<string[]> {
+    const names = new Set(this.indexes.keys());
+    try {
+      for (const file of await fs.readdir(this.directory)) {
+        if (file.endsWith(FILE_EXTENSION)) {
+          names.add(decodeURIComponent(file.slice(0, -FILE_EXTENSION.length)));
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+    return Array.from(names);
+  }
+
+  async insert(request: VectorInsertRequest): Promise<void> {
+    validateInsert(request);
+    const index = await this.requireIndex(request.collection);
+    const ids = request.ids || generatePointIds(request.vectors.length);
+
+    request.vectors.forEach((vector, i) => {
+      index.upsert(String(ids[i]), vector, request.payloads[i]);
+    });
+    this.scheduleSave(request.collection);
+
+    console.log(`[HnswVectorStore] Inserted ${request.vectors.length} vectors into ${request.collection}`);
+  }
+
+  async search(request: VectorSearchRequest): Promise<VectorSearchResult[]> {
+    const index = await this.requireIndex(request.collection);
+    const filter = request.filter;
+
+    const results = index.search(request.query, request.limit || 10, {
+      filter: filter ? (node) => matchesFilter(node.payload, filter) : undefined,
+    });
+
+    return results
+      .filter((result) => request.scoreThreshold === undefined || result.score >= request.scoreThreshold)
+      .map((result) => ({ id: result.node.id, score: result.score, payload: result.node.payload }));
+  }
+
+  async count(collection: string): Promise<number> {
+    const index = await this.getIndex(collection);
+    return index ? index.size : 0;
+  }
+
+  async deleteByIds(collection: string, ids: (string | number)[]): Promise<void> {
+    const index = await this.requireIndex(collection);
+    for (const id of ids) {
+      index.remove(String(id));
+    }
+    this.scheduleSave(collection);
+
+    console.log(`[HnswVectorStore] Deleted ${ids.length} vectors from ${collection}`);
+  }
+
+  async deleteByFilter(collection: string, filter: VectorFilter): Promise<void> {
+    const index = await this.getIndex(collection);
+    if (!index) return;
+
+    const matching = index.values().filter((node) => matchesFilter(node.payload, filter));
+    for (const node of matching) {
+      index.remove(node.id);
+    }
+    this.scheduleSave(collection);
+
+    console.log(`[HnswVectorStore] Deleted ${matching.length} vectors from ${collection} matching filter`);
+  }
+
+  async updatePayloads(collection: string, updates: VectorPayloadUpdate[]): Promise<void> {
+    const index = await this.getIndex(collection);
+    if (!index || updates.length === 0) return;
+
+    let updated = 0;
+    for (const update of updates) {
+      const node = index.get(String(update.id));
+      if (!node) continue;
+      node.payload = { ...node.payload, ...update.payload };
+      updated++;
+    }
+    this.scheduleSave(collection);
+
+    console.log(`[HnswVectorStore] Updated payloads of ${updated} vectors in ${collection}`);
+  }
+}
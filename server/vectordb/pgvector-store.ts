@@ -0,0 +1,289 @@
+/**
+ * pgvector Vector Store
+ * Stores vectors in the application's Postgres using the pgvector extension.
+ *
+ * The extension and its tables are created on first use rather than by a
+ * migration, so databases without pgvector installed still migrate cleanly
+ * and only fail once a workspace actually selects this backend.
+ */
+
+import { sql, type SQL } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  generatePointIds,
+  validateInsert,
+  type CollectionConfig,
+  type VectorDistance,
+  type VectorFilter,
+  type VectorFilterCondition,
+  type VectorInsertRequest,
+  type VectorPayloadUpdate,
+  type VectorSearchRequest,
+  type VectorSearchResult,
+  type VectorStore,
+} from "./vector-store";
+
+const INSERT_BATCH_SIZE = 200;
+
+// Index operator class, distance operator and the conversion back to a "higher is closer" score
+const DISTANCE_OPERATORS: Record<VectorDistance, { opclass: string; operator: string; toScore: (d: number) => number }> = {
+  Cosine: { opclass: "vector_cosine_ops", operator: "<=>", toScore: (d) => 1 - d },
+  Euclid: { opclass: "vector_l2_ops", operator: "<->", toScore: (d) => -d },
+  Dot: { opclass: "vector_ip_ops", operator: "<#>", toScore: (d) => -d },
+};
+
+function requireDb() {
+  const db = getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db;
+}
+
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
+
+/**
+ * Name of the partial HNSW index for a collection (Postgres identifiers max out at 63 bytes)
+ */
+function indexName(collection: string): string {
+  let hash = 0;
+  for (let i = 0; i < collection.length; i++) {
+    hash = (hash * 31 + collection.charCodeAt(i)) | 0;
+  }
+  const slug = collection.toLowerCase().replace(/[^a-z0-9]+/g, "_").slice(0, 32);
+  return `vector_points_hnsw_${slug}_${(hash >>> 0).toString(36)}`;
+}
+
+function conditionToSql(condition: VectorFilterCondition): SQL {
+  const { key, match } = condition;
+  if (match.any !== undefined) {
+    if (match.any.length === 0) return sql`false`;
+    const values = sql.join(match.any.map((value) => sql`${String(value)}`), sql`, `);
+    return sql`(payload ->> ${key}) IN (${values})`;
+  }
+  if (match.text !== undefined) {
+    const pattern = `%${match.text.replace(/[\\%_]/g, "\\$&")}%`;
+    return sql`(payload ->> ${key}) ILIKE ${pattern}`;
+  }
+  return sql`payload @> ${JSON.stringify({ [key]: match.value })}::jsonb`;
+}
+
+/**
+ * Translate a payload filter into a SQL predicate over the jsonb payload
+ */
+export function filterToSql(filter?: VectorFilter): SQL {
+  const clauses: SQL[] = [];
+  for (const condition of filter?.must ?? []) {
+    clauses.push(conditionToSql(condition));
+  }
+  for (const condition of filter?.must_not ?? []) {
+    clauses.push(sql`NOT (${conditionToSql(condition)})`);
+  }
+  if (filter?.should && filter.should.length > 0) {
+    clauses.push(sql`(${sql.join(filter.should.map(conditionToSql), sql` OR `)})`);
+  }
+  return clauses.length > 0 ? sql.join(clauses, sql` AND `) : sql`true`;
+}
+
+export class PgVectorStore implements VectorStore {
+  readonly backend = "pgvector" as const;
+  private schemaReady: Promise<void> | null = null;
+  private configs: Map<string, CollectionConfig> = new Map();
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      const db = requireDb();
+      this.schemaReady = (async () => {
+        await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`);
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS "vector_collections" (
+            "name" varchar(255) PRIMARY KEY,
+            "dimensions" integer NOT NULL,
+            "distance" varchar(16) NOT NULL DEFAULT 'Cosine',
+            "createdAt" timestamp DEFAULT now() NOT NULL
+          )
+        `);
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS "vector_points" (
+            "collection" varchar(255) NOT NULL REFERENCES "vector_collections"("name") ON DELETE CASCADE,
+            "id" varchar(255) NOT NULL,
+            "embedding" vector NOT NULL,
+            "payload" jsonb NOT NULL DEFAULT '{}'::jsonb,
+            PRIMARY KEY ("collection", "id")
+          )
+        `);
+      })();
+      // Allow a retry once the extension has been installed
+      this.schemaReady.catch((error) => {
+        console.error("[PgVectorStore] Failed to prepare pgvector schema:", error.message);
+        this.schemaReady = null;
+      });
+    }
+    return this.schemaReady;
+  }
+
+  private async getConfig(collection: string): Promise<CollectionConfig | null> {
+    const cached = this.configs.get(collection);
+    if (cached) return cached;
+
+    await this.ensureSchema();
+    const result = await requireDb().execute(
+      sql`SELECT "dimensions", "distance" FROM "vector_collections" WHERE "name" = ${collection}`
+    );
+    const row = result.rows[0] as { dimensions: number; distance: VectorDistance } | undefined;
+    if (!row) return null;
+
+    const config: CollectionConfig = { name: collection, vectorSize: Number(row.dimensions), distance: row.distance };
+    this.configs.set(collection, config);
+    return config;
+  }
+
+  private async requireConfig(collection: string): Promise<CollectionConfig> {
+    const config = await this.getConfig(collection);
+    if (!config) {
+      throw new Error(`Collection ${collection} does not exist`);
+    }
+    return config;
+  }
+
+  async createCollection(config: CollectionConfig): Promise<void> {
+    if (await this.getConfig(config.name)) return;
+    const db = requireDb();
+
+    await db.execute(sql`
+      INSERT INTO "vector_collections" ("name", "dimensions", "distance")
+      VALUES (${config.name}, ${config.vectorSize}, ${config.distance})
+      ON CONFLICT ("name") DO NOTHING
+    `);
+
+    // Partial index per collection: the column is untyped so each collection can have its own dimension
+    const { opclass } = DISTANCE_OPERATORS[config.distance];
+    const literal = config.name.replace(/'/g, "''");
+    await db.execute(
+      sql.raw(
+        `CREATE INDEX IF NOT EXISTS "${indexName(config.name)}" ON "vector_points" ` +
+          `USING hnsw ((embedding::vector(${Math.floor(config.vectorSize)})) ${opclass}) ` +
+          `WHERE collection = '${literal}'`
+      )
+    );
+
+    console.log(`[PgVectorStore] Created collection: ${config.name}`);
+  }
+
+  async deleteCollection(name: string): Promise<void> {
+    await this.ensureSchema();
+    const db = requireDb();
+
+    await db.execute(sql.raw(`DROP INDEX IF EXISTS "${indexName(name)}"`));
+    await db.execute(sql`DELETE FROM "vector_collections" WHERE "name" = ${name}`);
+    this.configs.delete(name);
+    console.log(`[PgVectorStore] Deleted collection: ${name}`);
+  }
+
+  async listCollections(): Promise<string[]> {
+    await this.ensureSchema();
+    const result = await requireDb().execute(sql`SELECT "name" FROM "vector_collections" ORDER BY "name"`);
+    return result.rows.map((row: any) => row.name);
+  }
+
+  async insert(request: VectorInsertRequest): Promise<void> {
+    validateInsert(request);
+    const config = await this.requireConfig(request.collection);
+    const mismatched = request.vectors.find((vector) => vector.length !== config.vectorSize);
+    if (mismatched) {
+      throw new Error(
+        `Collection ${request.collection} expects ${config.vectorSize}-dimensional vectors, got ${mismatched.length}`
+      );
+    }
+
+    const ids = request.ids || generatePointIds(request.vectors.length);
+    const db = requireDb();
+
+    for (let start = 0; start < request.vectors.length; start += INSERT_BATCH_SIZE) {
+      const rows = request.vectors.slice(start, start + INSERT_BATCH_SIZE).map(
+        (vector, i) =>
+          sql`(${request.collection}, ${String(ids[start + i])}, ${toVectorLiteral(vector)}::vector, ${JSON.stringify(
+            request.payloads[start + i] ?? {}
+          )}::jsonb)`
+      );
+      await db.execute(sql`
+        INSERT INTO "vector_points" ("collection", "id", "embedding", "payload")
+        VALUES ${sql.join(rows, sql`, `)}
+        ON CONFLICT ("collection", "id") DO UPDATE
+        SET "embedding" = EXCLUDED."embedding", "payload" = EXCLUDED."payload"
+      `);
+    }
+
+    console.log(`[PgVectorStore] Inserted ${request.vectors.length} vectors into ${request.collection}`);
+  }
+
+  async search(request: VectorSearchRequest): Promise<VectorSearchResult[]> {
+    const config = await this.requireConfig(request.collection);
+    const { operator, toScore } = DISTANCE_OPERATORS[config.distance];
+    const dimensions = sql.raw(String(Math.floor(config.vectorSize)));
+
+    // Cast both sides to the indexed expression so the collection's HNSW index is used
+    const distance = sql`(embedding::vector(${dimensions}) ${sql.raw(operator)} ${toVectorLiteral(
+      request.query
+    )}::vector(${dimensions}))`;
+
+    const result = await requireDb().execute(sql`
+      SELECT "id", "payload", ${distance} AS "distance"
+      FROM "vector_points"
+      WHERE "collection" = ${request.collection} AND ${filterToSql(request.filter)}
+      ORDER BY ${distance}
+      LIMIT ${request.limit || 10}
+    `);
+
+    return result.rows
+      .map((row: any) => ({ id: row.id as string, score: toScore(Number(row.distance)), payload: row.payload ?? {} }))
+      .filter((row) => request.scoreThreshold === undefined || row.score >= request.scoreThreshold);
+  }
+
+  async count(collection: string): Promise<number> {
+    await this.ensureSchema();
+    const result = await requireDb().execute(
+      sql`SELECT count(*)::int AS "count" FROM "vector_points" WHERE "collection" = ${collection}`
+    );
+    return Number((result.rows[0] as any)?.count ?? 0);
+  }
+
+  async deleteByIds(collection: string, ids: (string | number)[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.ensureSchema();
+
+    const values = sql.join(ids.map((id) => sql`${String(id)}`), sql`, `);
+    await requireDb().execute(
+      sql`DELETE FROM "vector_points" WHERE "collection" = ${collection} AND "id" IN (${values})`
+    );
+    console.log(`[PgVectorStore] Deleted ${ids.length} vectors from ${collection}`);
+  }
+
+  async deleteByFilter(collection: string, filter: VectorFilter): Promise<void> {
+    await this.ensureSchema();
+    await requireDb().execute(
+      sql`DELETE FROM "vector_points" WHERE "collection" = ${collection} AND ${filterToSql(filter)}`
+    );
+    console.log(`[PgVectorStore] Deleted vectors from ${collection} matching filter`);
+  }
+
+  async updatePayloads(collection: string, updates: VectorPayloadUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+    await this.ensureSchema();
+    const db = requireDb();
+
+    for (let start = 0; start < updates.length; start += INSERT_BATCH_SIZE) {
+      const rows = updates
+        .slice(start, start + INSERT_BATCH_SIZE)
+        .map((update) => sql`(${String(update.id)}, ${JSON.stringify(update.payload)}::jsonb)`);
+      await db.execute(sql`
+        UPDATE "vector_points" AS p SET "payload" = p."payload" || u."payload"
+        FROM (VALUES ${sql.join(rows, sql`, `)}) AS u("id", "payload")
+        WHERE p."collection" = ${collection} AND p."id" = u."id"
+      `);
+    }
+    console.log(`[PgVectorStore] Updated payloads of ${updates.length} vectors in ${collection}`);
+  }
+}
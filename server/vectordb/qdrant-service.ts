@@ -4,43 +4,33 @@
  */
 
 import { QdrantClient } from "@qdrant/js-client-rest";
+import {
+  generatePointIds,
+  validateInsert,
+  type CollectionConfig,
+  type VectorFilter,
+  type VectorInsertRequest,
+  type VectorPayloadUpdate,
+  type VectorSearchRequest,
+  type VectorSearchResult,
+  type VectorStore,
+} from "./vector-store";
 
-export interface VectorSearchRequest {
-  collection: string;
-  query: number[];
-  limit?: number;
-  filter?: Record<string, any>;
-  scoreThreshold?: number;
-}
-
-export interface VectorSearchResult {
-  id: string | number;
-  score: number;
-  payload: Record<string, any>;
-}
-
-export interface VectorInsertRequest {
-  collection: string;
-  vectors: number[][];
-  payloads: Record<string, any>[];
-  ids?: (string | number)[];
-}
-
-export interface CollectionConfig {
-  name: string;
-  vectorSize: number;
-  distance: "Cosine" | "Euclid" | "Dot";
-}
+export type { CollectionConfig, VectorInsertRequest, VectorSearchRequest, VectorSearchResult } from "./vector-store";
 
 /**
  * Qdrant Vector Database Service
  */
-export class QdrantService {
+export class QdrantService implements VectorStore {
+  readonly backend = "qdrant" as const;
   private client: QdrantClient;
   private initialized = false;
   
-  constructor(url = "http://localhost:6333") {
-    this.client = new QdrantClient({ url });
+  constructor(
+    private readonly url = process.env.QDRANT_URL || "http://localhost:6333",
+    apiKey = process.env.QDRANT_API_KEY || undefined
+  ) {
+    this.client = new QdrantClient({ url, apiKey });
     console.log(`[QdrantService] Initialized with URL: ${url}`);
   }
   
@@ -55,42 +45,46 @@ export class QdrantService {
       console.log("[QdrantService] Connected to Qdrant");
       this.initialized = true;
     } catch (error) {
-      console.warn("[QdrantService] Qdrant not available, using in-memory fallback");
-      // In production, could fall back to in-memory vector store
+      console.warn(`[QdrantService] Qdrant not available at ${this.url}`);
       this.initialized = false;
     }
   }
   
   /**
-   * Create a collection
+   * Connect on first use; fails when no Qdrant server is reachable
    */
-  async createCollection(config: CollectionConfig): Promise<void> {
+  private async ensureInitialized(): Promise<void> {
+    if (this.initialized) return;
+    await this.initialize();
     if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
+      throw new Error(`Qdrant is not reachable at ${this.url}`);
     }
+  }
+  
+  /**
+   * Create a collection
+   */
+  async createCollection(config: CollectionConfig): Promise<void> {
+    await this.ensureInitialized();
     
-    try {
-      await this.client.createCollection(config.name, {
-        vectors: {
-          size: config.vectorSize,
-          distance: config.distance,
-        },
-      });
-      
-      console.log(`[QdrantService] Created collection: ${config.name}`);
-    } catch (error) {
-      // Collection might already exist
-      console.log(`[QdrantService] Collection ${config.name} already exists or error:`, error);
-    }
+    const { collections } = await this.client.getCollections();
+    if (collections.some((c) => c.name === config.name)) return;
+    
+    await this.client.createCollection(config.name, {
+      vectors: {
+        size: config.vectorSize,
+        distance: config.distance,
+      },
+    });
+    
+    console.log(`[QdrantService] Created collection: ${config.name}`);
   }
   
   /**
    * Delete a collection
    */
   async deleteCollection(name: string): Promise<void> {
-    if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
-    }
+    await this.ensureInitialized();
     
     await this.client.deleteCollection(name);
     console.log(`[QdrantService] Deleted collection: ${name}`);
@@ -100,9 +94,7 @@ export class QdrantService {
    * List all collections
    */
   async listCollections(): Promise<string[]> {
-    if (!this.initialized) {
-      return [];
-    }
+    await this.ensureInitialized();
     
     const response = await this.client.getCollections();
     return response.collections.map((c) => c.name);
@@ -112,16 +104,12 @@ export class QdrantService {
    * Insert vectors into a collection
    */
   async insert(request: VectorInsertRequest): Promise<void> {
-    if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
-    }
+    await this.ensureInitialized();
     
-    if (request.vectors.length !== request.payloads.length) {
-      throw new Error("Vectors and payloads must have the same length");
-    }
+    validateInsert(request);
     
     // Generate IDs if not provided
-    const ids = request.ids || request.vectors.map((_, i) => Date.now() + i);
+    const ids = request.ids || generatePointIds(request.vectors.length);
     
     // Prepare points
     const points = request.vectors.map((vector, i) => ({
@@ -142,9 +130,7 @@ export class QdrantService {
    * Search for similar vectors
    */
   async search(request: VectorSearchRequest): Promise<VectorSearchResult[]> {
-    if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
-    }
+    await this.ensureInitialized();
     
     const response = await this.client.search(request.collection, {
       vector: request.query,
@@ -161,47 +147,11 @@ export class QdrantService {
     }));
   }
   
-  /**
-   * Hybrid search (semantic + keyword)
-   * Combines vector search with payload filtering
-   */
-  async hybridSearch(
-    collection: string,
-    query: number[],
-    keywords: string[],
-    limit = 10
-  ): Promise<VectorSearchResult[]> {
-    if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
-    }
-    
-    // Build filter for keywords (simple text matching in payload)
-    const filter = keywords.length > 0
-      ? {
-          should: keywords.map((keyword) => ({
-            key: "text",
-            match: {
-              text: keyword,
-            },
-          })),
-        }
-      : undefined;
-    
-    return this.search({
-      collection,
-      query,
-      limit,
-      filter,
-    });
-  }
-  
   /**
    * Get collection info
    */
   async getCollectionInfo(name: string): Promise<any> {
-    if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
-    }
+    await this.ensureInitialized();
     
     return await this.client.getCollection(name);
   }
@@ -210,9 +160,7 @@ export class QdrantService {
    * Count vectors in collection
    */
   async count(collection: string): Promise<number> {
-    if (!this.initialized) {
-      return 0;
-    }
+    await this.ensureInitialized();
     
     const info = await this.getCollectionInfo(collection);
     return info.points_count || 0;
@@ -222,9 +170,7 @@ export class QdrantService {
    * Delete vectors by IDs
    */
   async deleteByIds(collection: string, ids: (string | number)[]): Promise<void> {
-    if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
-    }
+    await this.ensureInitialized();
     
     await this.client.delete(collection, {
       wait: true,
@@ -237,10 +183,8 @@ export class QdrantService {
   /**
    * Delete vectors by filter
    */
-  async deleteByFilter(collection: string, filter: Record<string, any>): Promise<void> {
-    if (!this.initialized) {
-      throw new Error("Qdrant not initialized");
-    }
+  async deleteByFilter(collection: string, filter: VectorFilter): Promise<void> {
+    await this.ensureInitialized();
     
     await this.client.delete(collection, {
       wait: true,
@@ -250,6 +194,23 @@ export class QdrantService {
     console.log(`[QdrantService] Deleted vectors from ${collection} matching filter`);
   }
   
+  /**
+   * Merge payload keys into existing points
+   */
+  async updatePayloads(collection: string, updates: VectorPayloadUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+    await this.ensureInitialized();
+    
+    await this.client.batchUpdate(collection, {
+      wait: true,
+      operations: updates.map((update) => ({
+        set_payload: { payload: update.payload, points: [update.id] },
+      })),
+    });
+    
+    console.log(`[QdrantService] Updated payloads of ${updates.length} vectors in ${collection}`);
+  }
+  
   /**
    * Shutdown connection
    */
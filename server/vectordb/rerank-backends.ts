@@ -0,0 +1,124 @@
+/**
+ * Rerank Backends
+ * - ONNX: cross-encoders (bge-reranker, ms-marco MiniLM) run in-process on CPU through transformers.js
+ * - Provider: any Provider Hub provider with a rerank endpoint (Cohere, Jina, vLLM, TEI, llama.cpp, ...)
+ * - Lexical: word-overlap heuristic, for deployments without either
+ */
+
+import { loadTransformers } from "../embeddings/backends";
+import { getProviderRegistry } from "../providers/registry";
+
+export interface RerankBackend {
+  /** Relevance of each document to the query, in document order; higher is better */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+// ============================================================================
+// In-process ONNX cross-encoders
+// ============================================================================
+
+// Query/document pairs per forward pass
+const ONNX_BATCH_SIZE = 16;
+
+export class OnnxCrossEncoderBackend implements RerankBackend {
+  private loaded: Promise<{ tokenizer: any; model: any }> | null = null;
+
+  constructor(private readonly repo: string) {}
+
+  private load(): Promise<{ tokenizer: any; model: any }> {
+    if (!this.loaded) {
+      console.log(`[Reranking] Loading ONNX cross-encoder ${this.repo}`);
+      this.loaded = loadTransformers().then(async ({ AutoTokenizer, AutoModelForSequenceClassification }) => ({
+        tokenizer: await AutoTokenizer.from_pretrained(this.repo),
+        model: await AutoModelForSequenceClassification.from_pretrained(this.repo, { dtype: "fp32" }),
+      }));
+      // Allow a retry after a failed download
+      this.loaded.catch(() => {
+        this.loaded = null;
+      });
+    }
+    return this.loaded;
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const { tokenizer, model } = await this.load();
+    const scores: number[] = [];
+
+    for (let i = 0; i < documents.length; i += ONNX_BATCH_SIZE) {
+      const batch = documents.slice(i, i + ONNX_BATCH_SIZE);
+      const inputs = tokenizer(new Array(batch.length).fill(query), {
+        text_pair: batch,
+        padding: true,
+        truncation: true,
+      });
+      const { logits } = await model(inputs);
+      // One relevance logit per pair; the sigmoid maps it to [0, 1]
+      for (const [logit] of logits.tolist() as number[][]) {
+        scores.push(1 / (1 + Math.exp(-logit)));
+      }
+    }
+    return scores;
+  }
+}
+
+// ============================================================================
+// Provider Hub rerank endpoints
+// ============================================================================
+
+export class ProviderRerankBackend implements RerankBackend {
+  constructor(
+    private readonly providerId: number,
+    private readonly model: string
+  ) {}
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const provider = getProviderRegistry().getProvider(this.providerId);
+    if (!provider) {
+      throw new Error(`Rerank provider ${this.providerId} is not registered`);
+    }
+    if (!provider.rerank) {
+      throw new Error(`Provider ${provider.name} does not support reranking`);
+    }
+
+    const results = await provider.rerank(query, documents, { model: this.model });
+    const scores = new Array<number>(documents.length).fill(0);
+    for (const result of results) {
+      scores[result.index] = result.score;
+    }
+    return scores;
+  }
+}
+
+// ============================================================================
+// Lexical heuristic
+// ============================================================================
+
+export class LexicalOverlapBackend implements RerankBackend {
+  async score(query: string, documents: string[]): Promise<number[]> {
+    return documents.map((document) => this.overlapScore(query, document));
+  }
+
+  /**
+   * Word overlap, early-position and exact-phrase bonuses, in [0, 1]
+   */
+  private overlapScore(query: string, document: string): number {
+    const queryLower = query.toLowerCase();
+    const docLower = document.toLowerCase();
+    const queryWords = queryLower.split(/\s+/).filter(Boolean);
+    if (queryWords.length === 0 || docLower.length === 0) return 0;
+
+    const docWords = new Set(docLower.split(/\s+/));
+    const wordOverlap = queryWords.filter((word) => docWords.has(word)).length / queryWords.length;
+
+    let positionScore = 0;
+    for (const word of queryWords) {
+      const index = docLower.indexOf(word);
+      if (index !== -1) positionScore += 1 - index / docLower.length;
+    }
+    positionScore /= queryWords.length;
+
+    const phraseMatch = docLower.includes(queryLower) ? 1 : 0;
+
+    return Math.min(1, wordOverlap * 0.5 + positionScore * 0.3 + phraseMatch * 0.2);
+  }
+}
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const provider = vi.hoisted(() => ({ id: 4, name: "Jina", rerank: vi.fn() }));
+const transformers = vi.hoisted(() => ({
+  tokenizer: vi.fn((queries: string[], options: { text_pair: string[] }) => ({ queries, pairs: options.text_pair })),
+  model: vi.fn(),
+}));
+
+vi.mock("../providers/registry", () => ({
+  getProviderRegistry: () => ({
+    getProvider: (id: number) => (id === provider.id ? provider : undefined),
+  }),
+}));
+vi.mock("../embeddings/backends", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../embeddings/backends")>()),
+  loadTransformers: vi.fn(async () => ({
+    AutoTokenizer: { from_pretrained: vi.fn(async () => transformers.tokenizer) },
+    AutoModelForSequenceClassification: { from_pretrained: vi.fn(async () => transformers.model) },
+  })),
+}));
+
+import { RerankingService } from "./reranking-service";
+import { parseRerankResponse } from "../providers/rerank";
+
+const DOCUMENTS = [
+  { id: "a", text: "Pumps need seals.", score: 0.9 },
+  { id: "b", text: "ERR-4021 means the pump seal failed.", score: 0.5 },
+  { id: "c", text: "Office opening hours.", score: 0.1 },
+];
+
+describe("RerankingService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should reorder by a provider's rerank scores and explain each result", async () => {
+    provider.rerank.mockResolvedValue([
+      { index: 1, score: 0.95 },
+      { index: 0, score: 0.4 },
+      { index: 2, score: 0.01 },
+    ]);
+
+    const results = await new RerankingService().rerank({
+      query: "what is ERR-4021",
+      documents: DOCUMENTS,
+      model: "provider:4:jina-reranker-v2",
+      topK: 2,
+    });
+
+    expect(provider.rerank).toHaveBeenCalledWith("what is ERR-4021", DOCUMENTS.map((d) => d.text), {
+      model: "jina-reranker-v2",
+    });
+    expect(results.map((r) => r.id)).toEqual(["b", "a"]);
+    expect(results[0].explanation).toMatchObject({
+      model: "provider:4:jina-reranker-v2",
+      originalRank: 2,
+      rank: 1,
+      rerankScore: 0.95,
+      normalizedOriginalScore: 0.5,
+    });
+    expect(results[0].explanation.formula).toBe("1.00 × rerank 0.950 + 0.00 × original 0.500 = 0.950");
+  });
+
+  it("should score pairs with an in-process cross-encoder and blend in first-stage scores", async () => {
+    transformers.model.mockResolvedValue({ logits: { tolist: () => [[-2], [3], [-6]] } });
+
+    const results = await new RerankingService().rerank({
+      query: "what is ERR-4021",
+      documents: DOCUMENTS,
+      model: "bge-reranker",
+      originalWeight: 0.5,
+    });
+
+    expect(transformers.tokenizer).toHaveBeenCalledWith(
+      Array(3).fill("what is ERR-4021"),
+      expect.objectContaining({ text_pair: DOCUMENTS.map((d) => d.text), truncation: true })
+    );
+    expect(results.map((r) => r.id)).toEqual(["b", "a", "c"]);
+    expect(results[0].rerankScore).toBeCloseTo(1 / (1 + Math.exp(-3)));
+    expect(results[1].finalScore).toBeCloseTo(0.5 * (1 / (1 + Math.exp(2))) + 0.5);
+  });
+
+  it("should reject unknown rerankers and providers without a rerank endpoint", async () => {
+    const service = new RerankingService();
+    await expect(service.rerank({ query: "q", documents: DOCUMENTS, model: "ms-marco" as any })).rejects.toThrow(
+      /Reranker not found/
+    );
+    await expect(service.rerank({ query: "q", documents: DOCUMENTS, model: "provider:9:x" })).rejects.toThrow(
+      /not registered/
+    );
+    expect(await service.rerank({ query: "pump seal", documents: DOCUMENTS, model: "lexical" })).toHaveLength(3);
+  });
+});
+
+describe("parseRerankResponse", () => {
+  it("should accept Cohere-style and TEI-style responses", () => {
+    expect(parseRerankResponse({ results: [{ index: 1, relevance_score: 0.7 }] }, 2)).toEqual([{ index: 1, score: 0.7 }]);
+    expect(parseRerankResponse([{ index: 0, score: 2.5 }], 2)).toEqual([{ index: 0, score: 2.5 }]);
+    expect(() => parseRerankResponse({ results: [{ index: 5, relevance_score: 1 }] }, 2)).toThrow(/invalid/);
+  });
+});
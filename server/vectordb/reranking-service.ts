@@ -1,9 +1,33 @@
 /**
  * Reranking Service
- * Reranks search results using cross-encoder models for better relevance
+ * Reranks search results with cross-encoders, which score each query-document
+ * pair jointly instead of comparing independently computed embeddings.
+ *
+ * Models:
+ *   - bge-reranker: BAAI bge-reranker-base, in-process ONNX
+ *   - cross-encoder: ms-marco MiniLM-L-6, in-process ONNX (smaller and faster)
+ *   - provider:<providerId>:<model>: the rerank endpoint of a Provider Hub provider
+ *   - lexical: word-overlap heuristic, no model required
  */
 
-import { VectorSearchResult } from "./qdrant-service";
+import { parseProviderModelId } from "../embeddings/backends";
+import {
+  LexicalOverlapBackend,
+  OnnxCrossEncoderBackend,
+  ProviderRerankBackend,
+  type RerankBackend,
+} from "./rerank-backends";
+import type { VectorSearchResult } from "./vector-store";
+
+export type LocalRerankerModel = "bge-reranker" | "cross-encoder" | "lexical";
+export type RerankerModel = LocalRerankerModel | `provider:${number}:${string}`;
+
+export const LOCAL_RERANKER_MODELS: LocalRerankerModel[] = ["bge-reranker", "cross-encoder", "lexical"];
+
+const ONNX_RERANKERS: Record<Exclude<LocalRerankerModel, "lexical">, string> = {
+  "bge-reranker": "Xenova/bge-reranker-base",
+  "cross-encoder": "Xenova/ms-marco-MiniLM-L-6-v2",
+};
 
 export interface RerankRequest {
   query: string;
@@ -13,7 +37,21 @@ export interface RerankRequest {
     score?: number;
   }>;
   topK?: number;
-  model?: "cross-encoder" | "bge-reranker" | "cohere";
+  model?: RerankerModel;
+  originalWeight?: number; // Share of the first-stage score in the final score, 0-1 (default 0)
+}
+
+/**
+ * How a result's final score and position came about
+ */
+export interface RerankExplanation {
+  model: RerankerModel;
+  originalRank: number; // 1-based position before reranking
+  rank: number; // 1-based position after reranking
+  rerankScore: number;
+  originalScore: number;
+  normalizedOriginalScore: number; // First-stage score min-max scaled across the candidates
+  formula: string;
 }
 
 export interface RerankResult {
@@ -22,185 +60,89 @@ export interface RerankResult {
   originalScore: number;
   rerankScore: number;
   finalScore: number;
+  explanation: RerankExplanation;
+}
+
+function isLocalRerankerModel(model: string): model is LocalRerankerModel {
+  return (LOCAL_RERANKER_MODELS as string[]).includes(model);
 }
 
 /**
  * Reranking Service
- * 
- * Reranking improves search quality by using cross-encoder models that
- * directly score query-document pairs, unlike bi-encoders used for initial retrieval.
  */
 export class RerankingService {
-  /**
-   * Rerank search results
-   */
-  async rerank(request: RerankRequest): Promise<RerankResult[]> {
-    const { query, documents, topK = 10, model = "cross-encoder" } = request;
-
-    // Calculate rerank scores based on model
-    const scored = await Promise.all(
-      documents.map(async (doc) => {
-        const rerankScore = await this.calculateRerankScore(query, doc.text, model);
-        const originalScore = doc.score || 0;
-        
-        // Combine original and rerank scores (weighted average)
-        const finalScore = originalScore * 0.3 + rerankScore * 0.7;
-
-        return {
-          id: doc.id,
-          text: doc.text,
-          originalScore,
-          rerankScore,
-          finalScore,
-        };
-      })
-    );
-
-    // Sort by final score (descending)
-    scored.sort((a, b) => b.finalScore - a.finalScore);
-
-    // Return top K
-    return scored.slice(0, topK);
-  }
-
-  /**
-   * Calculate rerank score for a query-document pair
-   */
-  private async calculateRerankScore(
-    query: string,
-    document: string,
-    model: string
-  ): Promise<number> {
-    switch (model) {
-      case "cross-encoder":
-        return this.crossEncoderScore(query, document);
-      case "bge-reranker":
-        return this.bgeRerankerScore(query, document);
-      case "cohere":
-        return this.cohereRerankerScore(query, document);
-      default:
-        return this.crossEncoderScore(query, document);
-    }
-  }
-
-  /**
-   * Cross-encoder scoring (lightweight heuristic implementation)
-   * In production, this would call a real cross-encoder model API
-   */
-  private crossEncoderScore(query: string, document: string): number {
-    // Normalize texts
-    const queryLower = query.toLowerCase();
-    const docLower = document.toLowerCase();
-
-    // Split into words
-    const queryWords = queryLower.split(/\s+/);
-    const docWords = new Set(docLower.split(/\s+/));
-
-    // Calculate word overlap
-    let matchCount = 0;
-    for (const word of queryWords) {
-      if (docWords.has(word)) {
-        matchCount++;
-      }
-    }
-
-    const wordOverlap = queryWords.length > 0 ? matchCount / queryWords.length : 0;
-
-    // Calculate position bonus (earlier matches are better)
-    let positionScore = 0;
-    const docLength = document.length;
-    for (const word of queryWords) {
-      const index = docLower.indexOf(word);
-      if (index !== -1) {
-        // Earlier positions get higher scores
-        positionScore += 1 - index / docLength;
+  private backends: Map<string, RerankBackend> = new Map();
+  readonly defaultModel: RerankerModel = (process.env.RERANKER_MODEL as RerankerModel) || "bge-reranker";
+
+  private getBackend(model: RerankerModel): RerankBackend {
+    let backend = this.backends.get(model);
+    if (backend) return backend;
+
+    if (model === "lexical") {
+      backend = new LexicalOverlapBackend();
+    } else if (isLocalRerankerModel(model)) {
+      backend = new OnnxCrossEncoderBackend(ONNX_RERANKERS[model]);
+    } else {
+      const parsed = parseProviderModelId(model);
+      if (!parsed) {
+        throw new Error(`Reranker not found: ${model}`);
       }
+      backend = new ProviderRerankBackend(parsed.providerId, parsed.model);
     }
-    positionScore = positionScore / queryWords.length;
-
-    // Calculate phrase match bonus
-    const phraseMatch = docLower.includes(queryLower) ? 0.3 : 0;
-
-    // Combine scores
-    const finalScore = wordOverlap * 0.5 + positionScore * 0.3 + phraseMatch * 0.2;
-
-    return Math.min(1, finalScore); // Normalize to [0, 1]
-  }
-
-  /**
-   * BGE Reranker scoring
-   * BGE (BAAI General Embedding) reranker is optimized for Chinese and English
-   */
-  private bgeRerankerScore(query: string, document: string): number {
-    // Similar to cross-encoder but with different weights
-    const baseScore = this.crossEncoderScore(query, document);
-    
-    // BGE tends to favor longer, more detailed documents
-    const lengthBonus = Math.min(0.2, document.length / 5000);
-    
-    return Math.min(1, baseScore + lengthBonus);
-  }
 
-  /**
-   * Cohere Reranker scoring
-   * Cohere's reranker API (would require API key in production)
-   */
-  private async cohereRerankerScore(query: string, document: string): Promise<number> {
-    // In production, this would call Cohere's rerank API
-    // For now, use enhanced cross-encoder scoring
-    const baseScore = this.crossEncoderScore(query, document);
-    
-    // Cohere emphasizes semantic similarity over exact matches
-    const semanticBonus = this.calculateSemanticSimilarity(query, document);
-    
-    return Math.min(1, baseScore * 0.6 + semanticBonus * 0.4);
+    this.backends.set(model, backend);
+    return backend;
   }
 
   /**
-   * Calculate semantic similarity (simple heuristic)
+   * Rerank documents, best first
    */
-  private calculateSemanticSimilarity(query: string, document: string): number {
-    // Extract key concepts (nouns, verbs)
-    const queryConcepts = this.extractConcepts(query);
-    const docConcepts = this.extractConcepts(document);
-
-    const queryConceptsArray = Array.from(queryConcepts);
-    if (queryConceptsArray.length === 0) return 0;
-
-    // Calculate concept overlap
-    let matchCount = 0;
-    for (const concept of queryConceptsArray) {
-      if (docConcepts.has(concept)) {
-        matchCount++;
-      }
-    }
+  async rerank(request: RerankRequest): Promise<RerankResult[]> {
+    const { query, documents, topK = 10, model = this.defaultModel } = request;
+    const originalWeight = Math.min(1, Math.max(0, request.originalWeight ?? 0));
+    if (documents.length === 0) return [];
 
-    return matchCount / queryConceptsArray.length;
-  }
+    const rerankScores = await this.getBackend(model).score(
+      query,
+      documents.map((doc) => doc.text)
+    );
 
-  /**
-   * Extract key concepts from text (simple implementation)
-   */
-  private extractConcepts(text: string): Set<string> {
-    const words = text.toLowerCase().split(/\s+/);
-    
-    // Filter out common stop words
-    const stopWords = new Set([
-      "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
-      "of", "with", "by", "from", "as", "is", "was", "are", "were", "be",
-      "been", "being", "have", "has", "had", "do", "does", "did", "will",
-      "would", "should", "could", "may", "might", "must", "can", "this",
-      "that", "these", "those", "i", "you", "he", "she", "it", "we", "they",
-    ]);
+    // First-stage scores come from different scales (cosine, BM25, RRF), so only their spread is used
+    const originalScores = documents.map((doc) => doc.score ?? 0);
+    const min = Math.min(...originalScores);
+    const range = Math.max(...originalScores) - min;
+
+    const scored = documents.map((doc, i) => {
+      const normalizedOriginalScore = range > 0 ? (originalScores[i] - min) / range : 1;
+      const rerankScore = rerankScores[i];
+      const finalScore = (1 - originalWeight) * rerankScore + originalWeight * normalizedOriginalScore;
+
+      return {
+        id: doc.id,
+        text: doc.text,
+        originalScore: originalScores[i],
+        rerankScore,
+        finalScore,
+        explanation: {
+          model,
+          originalRank: i + 1,
+          rank: 0,
+          rerankScore,
+          originalScore: originalScores[i],
+          normalizedOriginalScore,
+          formula:
+            `${(1 - originalWeight).toFixed(2)} × rerank ${rerankScore.toFixed(3)} + ` +
+            `${originalWeight.toFixed(2)} × original ${normalizedOriginalScore.toFixed(3)} = ${finalScore.toFixed(3)}`,
+        },
+      };
+    });
 
-    const concepts = new Set<string>();
-    for (const word of words) {
-      if (word.length > 3 && !stopWords.has(word)) {
-        concepts.add(word);
-      }
-    }
+    scored.sort((a, b) => b.finalScore - a.finalScore);
+    scored.forEach((result, i) => {
+      result.explanation.rank = i + 1;
+    });
 
-    return concepts;
+    return scored.slice(0, topK);
   }
 
   /**
@@ -209,7 +151,8 @@ export class RerankingService {
   async rerankVectorResults(
     query: string,
     results: VectorSearchResult[],
-    topK?: number
+    topK?: number,
+    model?: RerankerModel
   ): Promise<RerankResult[]> {
     const documents = results.map((result) => ({
       id: result.id,
@@ -221,6 +164,7 @@ export class RerankingService {
       query,
       documents,
       topK,
+      model,
     });
   }
 
@@ -0,0 +1,65 @@
+/**
+ * Vector Store Registry
+ * Resolves the vector store backend of a workspace (workspaces.vectorDb),
+ * falling back to the deployment default.
+ */
+
+import { getWorkspaceById } from "../db";
+import { HnswVectorStore } from "./hnsw-store";
+import { PgVectorStore } from "./pgvector-store";
+import { qdrantService } from "./qdrant-service";
+import { VECTOR_BACKENDS, type VectorBackend, type VectorStore } from "./vector-store";
+
+const stores: Partial<Record<VectorBackend, VectorStore>> = { qdrant: qdrantService };
+const workspaceBackends: Map<number, VectorBackend> = new Map();
+
+function isVectorBackend(value: unknown): value is VectorBackend {
+  return typeof value === "string" && (VECTOR_BACKENDS as string[]).includes(value);
+}
+
+/**
+ * Backend for workspaces that have not picked one
+ */
+export function defaultVectorBackend(): VectorBackend {
+  const configured = process.env.VECTOR_STORE;
+  if (configured) {
+    if (isVectorBackend(configured)) return configured;
+    console.warn(`[VectorStore] Unknown VECTOR_STORE "${configured}", using automatic selection`);
+  }
+  if (process.env.QDRANT_URL) return "qdrant";
+  if (process.env.DATABASE_URL) return "pgvector";
+  return "hnsw";
+}
+
+export function getVectorStoreByBackend(backend: VectorBackend): VectorStore {
+  let store = stores[backend];
+  if (!store) {
+    store = backend === "pgvector" ? new PgVectorStore() : new HnswVectorStore();
+    stores[backend] = store;
+  }
+  return store;
+}
+
+/**
+ * Vector store of a workspace; the default store without a workspace
+ */
+export async function getVectorStore(workspaceId?: number | null): Promise<VectorStore> {
+  if (workspaceId === undefined || workspaceId === null) {
+    return getVectorStoreByBackend(defaultVectorBackend());
+  }
+
+  let backend = workspaceBackends.get(workspaceId);
+  if (!backend) {
+    const workspace = await getWorkspaceById(workspaceId);
+    backend = isVectorBackend(workspace?.vectorDb) ? workspace.vectorDb : defaultVectorBackend();
+    workspaceBackends.set(workspaceId, backend);
+  }
+  return getVectorStoreByBackend(backend);
+}
+
+/**
+ * Forget a cached workspace backend after its settings change
+ */
+export function invalidateWorkspaceVectorStore(workspaceId: number): void {
+  workspaceBackends.delete(workspaceId);
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { HnswIndex } from "./hnsw-index";
+import { HnswVectorStore } from "./hnsw-store";
+import { matchesFilter, similarity } from "./vector-store";
+
+// Deterministic pseudo-random vectors
+function randomVectors(count: number, dimensions: number, seed = 42): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, next));
+}
+
+function bruteForce(vectors: number[][], query: number[], k: number): string[] {
+  return vectors
+    .map((vector, i) => ({ id: String(i), score: similarity("Cosine", query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((r) => r.id);
+}
+
+describe("HnswIndex", () => {
+  it("should find nearly all exact nearest neighbours", () => {
+    const vectors = randomVectors(500, 16);
+    const index = new HnswIndex(16, "Cosine");
+    vectors.forEach((vector, i) => index.upsert(String(i), vector, { i }));
+
+    const queries = randomVectors(20, 16, 7);
+    let hits = 0;
+    for (const query of queries) {
+      const expected = new Set(bruteForce(vectors, query, 10));
+      hits += index.search(query, 10).filter((r) => expected.has(r.node.id)).length;
+    }
+
+    expect(hits / (queries.length * 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it("should replace points on upsert and stay searchable after removals", () => {
+    const vectors = randomVectors(100, 8);
+    const index = new HnswIndex(8, "Cosine");
+    vectors.forEach((vector, i) => index.upsert(String(i), vector, { i }));
+
+    index.upsert("5", vectors[6], { replaced: true });
+    for (let i = 0; i < 50; i++) index.remove(String(i * 2 + 1));
+
+    expect(index.size).toBe(50);
+    const [best] = index.search(vectors[6], 1);
+    expect(best.node.id).toBe("6");
+    expect(index.search(vectors[10], 100).map((r) => r.node.id)).not.toContain("11");
+    expect(() => index.upsert("x", [1, 2], {})).toThrow(/8-dimensional/);
+  });
+
+  it("should honour filters even when few points match", () => {
+    const vectors = randomVectors(200, 8);
+    const index = new HnswIndex(8, "Cosine");
+    vectors.forEach((vector, i) => index.upsert(String(i), vector, { tenant: i === 123 ? "b" : "a" }));
+
+    const results = index.search(vectors[0], 5, { filter: (node) => node.payload.tenant === "b" });
+    expect(results.map((r) => r.node.id)).toEqual(["123"]);
+  });
+});
+
+describe("HnswVectorStore", () => {
+  let directory: string | null = null;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+    directory = null;
+  });
+
+  it("should persist collections to disk", async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "hnsw-store-"));
+    const store = new HnswVectorStore(directory);
+    await store.createCollection({ name: "workspace-1", vectorSize: 3, distance: "Cosine" });
+    await store.insert({
+      collection: "workspace-1",
+      vectors: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+      payloads: [{ text: "x axis", documentId: 1 }, { text: "y axis", documentId: 2 }, { text: "z axis", documentId: 2 }],
+      ids: [1, 2, 3],
+    });
+    await store.deleteByFilter("workspace-1", { must: [{ key: "documentId", match: { value: 1 } }] });
+    await store.flush();
+
+    const reopened = new HnswVectorStore(directory);
+    expect(await reopened.listCollections()).toEqual(["workspace-1"]);
+    expect(await reopened.count("workspace-1")).toBe(2);
+
+    const results = await reopened.search({ collection: "workspace-1", query: [0, 0.9, 0.1], limit: 1 });
+    expect(results[0]).toMatchObject({ id: "2", payload: { text: "y axis" } });
+    await expect(reopened.search({ collection: "missing", query: [1, 0, 0] })).rejects.toThrow(/does not exist/);
+  });
+});
+
+describe("matchesFilter", () => {
+  it("should combine must, should and must_not conditions", () => {
+    const payload = { documentId: 3, type: "long", text: "The Quick brown fox" };
+
+    expect(matchesFilter(payload, { must: [{ key: "documentId", match: { any: [1, 3] } }] })).toBe(true);
+    expect(matchesFilter(payload, { must_not: [{ key: "type", match: { value: "long" } }] })).toBe(false);
+    expect(matchesFilter(payload, { should: [{ key: "text", match: { text: "quick" } }] })).toBe(true);
+    expect(matchesFilter(payload, { should: [{ key: "text", match: { text: "slow" } }] })).toBe(false);
+  });
+});
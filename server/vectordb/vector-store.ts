@@ -0,0 +1,193 @@
+/**
+ * Vector Store
+ * Backend-neutral vector storage used by RAG, memory and the agent executor.
+ *
+ *   - qdrant: external Qdrant server (QDRANT_URL)
+ *   - pgvector: the app's Postgres with the pgvector extension
+ *   - hnsw: pure-TypeScript HNSW index persisted to disk (VECTOR_STORE_DIR)
+ *
+ * Each workspace picks its backend through workspaces.vectorDb; workspaces
+ * without one use VECTOR_STORE, else Qdrant when QDRANT_URL is set, else
+ * pgvector when a database is configured, else the on-disk index.
+ */
+
+export type VectorBackend = "qdrant" | "pgvector" | "hnsw";
+
+export const VECTOR_BACKENDS: VectorBackend[] = ["qdrant", "pgvector", "hnsw"];
+
+export type VectorDistance = "Cosine" | "Euclid" | "Dot";
+
+/**
+ * Qdrant-style payload filter, supported by every backend
+ */
+export interface VectorFilterCondition {
+  key: string;
+  match: { value?: string | number | boolean; any?: Array<string | number>; text?: string };
+}
+
+export interface VectorFilter {
+  must?: VectorFilterCondition[];
+  should?: VectorFilterCondition[];
+  must_not?: VectorFilterCondition[];
+}
+
+export interface VectorSearchRequest {
+  collection: string;
+  query: number[];
+  limit?: number;
+  filter?: VectorFilter;
+  scoreThreshold?: number;
+}
+
+export interface VectorSearchResult {
+  id: string | number;
+  score: number;
+  payload: Record<string, any>;
+}
+
+export interface VectorInsertRequest {
+  collection: string;
+  vectors: number[][];
+  payloads: Record<string, any>[];
+  ids?: (string | number)[];
+}
+
+export interface VectorPayloadUpdate {
+  id: string | number;
+  payload: Record<string, any>; // Top-level keys replace the point's existing ones
+}
+
+export interface CollectionConfig {
+  name: string;
+  vectorSize: number;
+  distance: VectorDistance;
+}
+
+export interface VectorStore {
+  readonly backend: VectorBackend;
+  /** Create the collection if it does not exist yet */
+  createCollection(config: CollectionConfig): Promise<void>;
+  deleteCollection(name: string): Promise<void>;
+  listCollections(): Promise<string[]>;
+  /** Insert or replace points by id */
+  insert(request: VectorInsertRequest): Promise<void>;
+  /** Best matches first */
+  search(request: VectorSearchRequest): Promise<VectorSearchResult[]>;
+  count(collection: string): Promise<number>;
+  deleteByIds(collection: string, ids: (string | number)[]): Promise<void>;
+  deleteByFilter(collection: string, filter: VectorFilter): Promise<void>;
+  /** Merge payload keys into existing points without re-sending vectors; unknown ids are skipped */
+  updatePayloads(collection: string, updates: VectorPayloadUpdate[]): Promise<void>;
+}
+
+/**
+ * Default point ids for a batch without explicit ids
+ */
+export function generatePointIds(count: number): number[] {
+  const base = Date.now() * 1000 + Math.floor(Math.random() * 1000);
+  return Array.from({ length: count }, (_, i) => base + i);
+}
+
+export function validateInsert(request: VectorInsertRequest): void {
+  if (request.vectors.length !== request.payloads.length) {
+    throw new Error("Vectors and payloads must have the same length");
+  }
+  if (request.ids && request.ids.length !== request.vectors.length) {
+    throw new Error("Vectors and ids must have the same length");
+  }
+}
+
+// ============================================================================
+// Filters (in-process evaluation)
+// ============================================================================
+
+function matchesCondition(payload: Record<string, any>, condition: VectorFilterCondition): boolean {
+  const value = payload[condition.key];
+  const { match } = condition;
+  if (match.any !== undefined) return match.any.includes(value);
+  if (match.text !== undefined) {
+    return typeof value === "string" && value.toLowerCase().includes(match.text.toLowerCase());
+  }
+  return value === match.value;
+}
+
+export function matchesFilter(payload: Record<string, any>, filter?: VectorFilter): boolean {
+  if (!filter) return true;
+  if (filter.must && !filter.must.every((condition) => matchesCondition(payload, condition))) return false;
+  if (filter.must_not && filter.must_not.some((condition) => matchesCondition(payload, condition))) return false;
+  if (filter.should && filter.should.length > 0 && !filter.should.some((condition) => matchesCondition(payload, condition))) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+/**
+ * Similarity score for a distance: cosine similarity, dot product, or negated
+ * Euclidean distance, so that higher always means closer
+ */
+export function similarity(distance: VectorDistance, a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let squared = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+    const diff = a[i] - b[i];
+    squared += diff * diff;
+  }
+  if (distance === "Dot") return dot;
+  if (distance === "Euclid") return -Math.sqrt(squared);
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// ============================================================================
+// Rank fusion
+// ============================================================================
+
+export interface FusedSearchResult extends VectorSearchResult {
+  ranks: Record<string, number>; // 1-based rank in each input list the result appeared in
+}
+
+// Standard RRF damping constant (Cormack et al.)
+const RRF_K = 60;
+
+/**
+ * Identity of a result across rankings: the document chunk when known, else the point id
+ */
+function fusionKey(result: VectorSearchResult): string {
+  return result.payload?.chunkId !== undefined ? `chunk:${result.payload.chunkId}` : `point:${result.id}`;
+}
+
+/**
+ * Weighted reciprocal-rank fusion: each list contributes weight / (60 + rank)
+ * for every result it contains; scores are comparable across lists of any scale
+ */
+export function reciprocalRankFusion(
+  rankings: Record<string, { results: VectorSearchResult[]; weight?: number }>,
+  limit = 10
+): FusedSearchResult[] {
+  const fused = new Map<string, FusedSearchResult>();
+
+  for (const [name, { results, weight = 1 }] of Object.entries(rankings)) {
+    results.forEach((result, index) => {
+      const key = fusionKey(result);
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { id: result.id, score: 0, payload: result.payload, ranks: {} };
+        fused.set(key, entry);
+      }
+      entry.score += weight / (RRF_K + index + 1);
+      entry.ranks[name] = index + 1;
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -1,10 +1,102 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "../_core/trpc";
-import { qdrantService } from "./qdrant-service";
+import { hasWorkspaceAccess } from "../db";
+import { getEmbeddingCollection } from "../embeddings/db";
+import { getVectorStore } from "./store-registry";
+import {
+  LOCAL_RERANKER_MODELS,
+  rerankingService,
+  type RerankerModel,
+  type RerankRequest,
+} from "./reranking-service";
+import { hybridSearch } from "../documents/hybrid-search";
+import { getRetrievalProfile } from "../documents/retrieval-profile";
+
+// Workspace whose vector store to use; defaults to the caller's own workspace
+const workspaceId = z.number().optional();
+
+export const rerankerModelSchema = z
+  .string()
+  .refine(
+    (model) => (LOCAL_RERANKER_MODELS as string[]).includes(model) || /^provider:\d+:.+/.test(model),
+    { message: 'Expected a local reranker model or "provider:<providerId>:<model>"' }
+  )
+  .transform((model) => model as RerankerModel);
+
+// A workspace's search settings (workspaces.retrievalProfile)
+export const retrievalProfileSchema = z.object({
+  mode: z.enum(["vector", "lexical", "hybrid"]),
+  vectorWeight: z.number().min(0).max(10),
+  lexicalWeight: z.number().min(0).max(10),
+  reranker: z
+    .object({
+      model: rerankerModelSchema,
+      candidates: z.number().int().min(1).max(200),
+    })
+    .nullable(),
+  topK: z.number().int().min(1).max(50),
+  scoreThreshold: z.number().min(-1).max(1).nullable(),
+  maxContextTokens: z.number().int().min(100).max(200000),
+  citationStyle: z.enum(["source", "numeric", "none"]),
+});
+
+async function resolveWorkspace(userId: number, requestedWorkspaceId?: number): Promise<number> {
+  const id = requestedWorkspaceId ?? userId;
+  if (id !== userId && !(await hasWorkspaceAccess(userId, id))) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Access denied" });
+  }
+  return id;
+}
+
+async function storeFor(userId: number, requestedWorkspaceId?: number) {
+  return getVectorStore(await resolveWorkspace(userId, requestedWorkspaceId));
+}
+
+/**
+ * Vector, lexical (BM25 over the workspace's document chunks) or fused search
+ */
+async function searchWorkspace(
+  userId: number,
+  input: {
+    workspaceId?: number;
+    collection: string;
+    mode: "vector" | "lexical" | "hybrid";
+    query?: number[];
+    text?: string;
+    limit?: number;
+    scoreThreshold?: number;
+  }
+) {
+  if (input.mode !== "lexical" && !input.query) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `A query vector is required for ${input.mode} search` });
+  }
+  if (input.mode !== "vector" && !input.text?.trim()) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: `Query text is required for ${input.mode} search` });
+  }
+
+  const workspaceId = await resolveWorkspace(userId, input.workspaceId);
+  const profile = await getRetrievalProfile(workspaceId);
+  return hybridSearch({
+    workspaceId,
+    mode: input.mode,
+    limit: input.limit || 10,
+    text: input.text,
+    vector: input.query
+      ? {
+          store: await getVectorStore(workspaceId),
+          collection: input.collection,
+          query: input.query,
+          scoreThreshold: input.scoreThreshold,
+        }
+      : null,
+    weights: { vector: profile.vectorWeight, lexical: profile.lexicalWeight },
+  });
+}
 
 /**
  * Vector Database Router
- * Exposes Qdrant vector database via tRPC
+ * Exposes the workspace's vector store (Qdrant, pgvector or on-disk HNSW) via tRPC
  */
 export const vectordbRouter = router({
   /**
@@ -13,37 +105,43 @@ export const vectordbRouter = router({
   createCollection: protectedProcedure
     .input(
       z.object({
+        workspaceId,
         name: z.string(),
         vectorSize: z.number(),
         distance: z.enum(["Cosine", "Euclid", "Dot"]).default("Cosine"),
       })
     )
-    .mutation(async ({ input }) => {
-      await qdrantService.createCollection({
+    .mutation(async ({ ctx, input }) => {
+      const store = await storeFor(ctx.user.id, input.workspaceId);
+      await store.createCollection({
         name: input.name,
         vectorSize: input.vectorSize,
         distance: input.distance,
       });
       
-      return { success: true, collection: input.name };
+      return { success: true, collection: input.name, backend: store.backend };
     }),
   
   /**
    * Delete a collection
    */
   deleteCollection: protectedProcedure
-    .input(z.object({ name: z.string() }))
-    .mutation(async ({ input }) => {
-      await qdrantService.deleteCollection(input.name);
+    .input(z.object({ workspaceId, name: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const store = await storeFor(ctx.user.id, input.workspaceId);
+      await store.deleteCollection(input.name);
       return { success: true };
     }),
   
   /**
    * List all collections
    */
-  listCollections: protectedProcedure.query(async () => {
-    return await qdrantService.listCollections();
-  }),
+  listCollections: protectedProcedure
+    .input(z.object({ workspaceId }).optional())
+    .query(async ({ ctx, input }) => {
+      const store = await storeFor(ctx.user.id, input?.workspaceId);
+      return await store.listCollections();
+    }),
   
   /**
    * Insert vectors
@@ -51,70 +149,105 @@ export const vectordbRouter = router({
   insert: protectedProcedure
     .input(
       z.object({
+        workspaceId,
         collection: z.string(),
         vectors: z.array(z.array(z.number())),
         payloads: z.array(z.record(z.string(), z.any())),
         ids: z.array(z.union([z.string(), z.number()])).optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      await qdrantService.insert(input);
+    .mutation(async ({ ctx, input }) => {
+      const { workspaceId, ...request } = input;
+      const store = await storeFor(ctx.user.id, workspaceId);
+      await store.insert(request);
       
       return { success: true, count: input.vectors.length };
     }),
   
   /**
-   * Search for similar vectors
+   * Search a collection by vector, by text (lexical) or both (hybrid)
    */
   search: protectedProcedure
     .input(
       z.object({
+        workspaceId,
         collection: z.string(),
-        query: z.array(z.number()),
+        mode: z.enum(["vector", "lexical", "hybrid"]).default("vector"),
+        query: z.array(z.number()).optional(),
+        text: z.string().optional(),
         limit: z.number().optional(),
         scoreThreshold: z.number().optional(),
       })
     )
-    .query(async ({ input }) => {
-      return await qdrantService.search(input);
+    .query(async ({ ctx, input }) => {
+      return await searchWorkspace(ctx.user.id, input);
     }),
   
   /**
-   * Hybrid search (semantic + keyword)
+   * Hybrid search (semantic + keyword), fused with reciprocal-rank fusion
    */
   hybridSearch: protectedProcedure
     .input(
       z.object({
+        workspaceId,
         collection: z.string(),
         query: z.array(z.number()),
         keywords: z.array(z.string()),
         limit: z.number().optional(),
       })
     )
+    .query(async ({ ctx, input }) => {
+      const { keywords, ...rest } = input;
+      return await searchWorkspace(ctx.user.id, { ...rest, mode: "hybrid", text: keywords.join(" ") });
+    }),
+  
+  /**
+   * Rerank candidate texts against a query, with score explanations
+   */
+  rerank: protectedProcedure
+    .input(
+      z.object({
+        query: z.string(),
+        documents: z.array(
+          z.object({
+            id: z.union([z.string(), z.number()]),
+            text: z.string(),
+            score: z.number().optional(),
+          })
+        ),
+        model: rerankerModelSchema.optional(),
+        topK: z.number().optional(),
+        originalWeight: z.number().min(0).max(1).optional(),
+      })
+    )
     .query(async ({ input }) => {
-      return await qdrantService.hybridSearch(
-        input.collection,
-        input.query,
-        input.keywords,
-        input.limit
-      );
+      return await rerankingService.rerank(input as RerankRequest);
     }),
   
   /**
    * Get collection info
    */
   getCollectionInfo: protectedProcedure
-    .input(z.object({ name: z.string() }))
-    .query(async ({ input }) => {
-      return await qdrantService.getCollectionInfo(input.name);
+    .input(z.object({ workspaceId, name: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const store = await storeFor(ctx.user.id, input.workspaceId);
+      const binding = await getEmbeddingCollection(input.name).catch(() => null);
+      return {
+        name: input.name,
+        backend: store.backend,
+        vectorCount: await store.count(input.name),
+        embeddingModel: binding?.embeddingModel ?? null,
+        dimensions: binding?.dimensions ?? null,
+      };
     }),
   
   /**
    * Count vectors in collection
    */
   count: protectedProcedure
-    .input(z.object({ collection: z.string() }))
-    .query(async ({ input }) => {
-      return await qdrantService.count(input.collection);
+    .input(z.object({ workspaceId, collection: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const store = await storeFor(ctx.user.id, input.workspaceId);
+      return await store.count(input.collection);
     }),
 });
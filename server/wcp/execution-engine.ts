@@ -7,6 +7,7 @@
 
 import { getDb } from "../db";
 import { sql } from "drizzle-orm";
+import { runScript, sandboxFailure } from "../sandbox/code-sandbox";
 
 // Block execution result
 export interface BlockExecutionResult {
@@ -35,6 +36,7 @@ export interface ExecutionContext {
   executionId: number;
   variables: Record<string, any>; // Shared variables between blocks
   logs: ExecutionLog[];
+  triggerData?: Record<string, any>; // Set when started by the scheduler or a webhook
 }
 
 /**
@@ -93,7 +95,8 @@ async function executeBlock(
 
 /**
  * Time Trigger Block
- * Executes immediately (scheduling logic would be handled by a separate cron service)
+ * Scheduling is handled by server/scheduler; when a schedule started this run
+ * the block outputs the scheduled fire time and the schedule's input.
  */
 async function executeTimeTrigger(
   blockData: any,
@@ -101,33 +104,46 @@ async function executeTimeTrigger(
 ): Promise<any> {
   const config = blockData.config || {};
   const schedule = config.schedule || "immediate";
+  const trigger = context.triggerData;
 
-  // For now, just log that the trigger fired
   return {
     triggered: true,
     schedule,
+    timezone: trigger?.timezone ?? config.timezone ?? "UTC",
+    scheduleId: trigger?.scheduleId,
+    scheduledFor: trigger?.scheduledFor,
+    input: trigger?.input ?? {},
     timestamp: new Date().toISOString(),
   };
 }
 
 /**
  * Webhook Block
- * In a real implementation, this would register a webhook endpoint
- * For now, we'll simulate webhook data
+ * Outputs the delivery that started the run (see server/webhooks). Manual
+ * runs use the block's sample payload, if it has one.
  */
 async function executeWebhook(
   blockData: any,
   context: ExecutionContext
 ): Promise<any> {
   const config = blockData.config || {};
-  const webhookUrl = config.url || "/webhook/trigger";
+  const delivery = context.triggerData?.source === "webhook" ? context.triggerData : null;
+
+  if (!delivery) {
+    return {
+      received: false,
+      payload: config.samplePayload ?? {},
+      timestamp: new Date().toISOString(),
+    };
+  }
 
-  // Simulate webhook data
   return {
     received: true,
-    url: webhookUrl,
-    payload: { message: "Webhook triggered successfully" },
-    timestamp: new Date().toISOString(),
+    deliveryId: delivery.deliveryId,
+    method: delivery.method,
+    headers: delivery.headers,
+    payload: delivery.body,
+    timestamp: delivery.receivedAt,
   };
 }
 
@@ -240,27 +256,27 @@ async function executeRunCode(
   }
 
   try {
-    const forbidden = /process\.|require\(|import\s|global\.|child_process|fs\.|net\.|http\./;
-    if (forbidden.test(code)) {
-      throw new Error("Code contains disallowed references (process, require, fs, etc.)");
-    }
-    const sandboxedFunction = new Function("context", `
-      "use strict";
-      const { variables } = context;
-      ${code}
-    `);
-
-    // Execute the code
-    const result = sandboxedFunction(context);
+    // Same shape the code saw before sandboxing: `context` plus a `variables` shorthand
+    const { value, logs } = await runScript(`const { variables } = context;\n${code}`, {
+      context: {
+        workflowId: context.workflowId,
+        executionId: context.executionId,
+        variables: context.variables,
+        triggerData: context.triggerData,
+      },
+      timeoutMs: config.cpuLimitMs,
+      memoryMb: config.memoryLimitMb,
+    });
 
     return {
       executed: true,
       code: code.substring(0, 100) + (code.length > 100 ? "..." : ""),
-      result,
+      result: value,
+      logs,
       timestamp: new Date().toISOString(),
     };
   } catch (error: any) {
-    throw new Error(`Code execution failed: ${error.message}`);
+    throw sandboxFailure("Code execution failed", error);
   }
 }
 
@@ -294,14 +310,17 @@ export async function executeWorkflow(
   workflowId: number,
   executionId: number,
   nodes: any[],
-  edges: any[]
-): Promise<void> {
+  edges: any[],
+  triggerData?: Record<string, any>
+): Promise<"completed" | "failed"> {
   const db = getDb();
   const context: ExecutionContext = {
     workflowId,
     executionId,
-    variables: {},
+    // Trigger data (webhook payload, scheduled fire time) is visible to every block
+    variables: triggerData ? { trigger: triggerData } : {},
     logs: [],
+    triggerData,
   };
 
   try {
@@ -391,6 +410,7 @@ export async function executeWorkflow(
     );
 
     console.log(`[Execution] Workflow ${workflowId} execution ${executionId} completed`);
+    return "completed";
   } catch (error: any) {
     // Add error log
     context.logs.push({
@@ -414,6 +434,7 @@ export async function executeWorkflow(
     );
 
     console.error(`[Execution] Workflow ${workflowId} execution ${executionId} failed:`, error);
+    return "failed";
   }
 }
 
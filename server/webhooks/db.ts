@@ -0,0 +1,142 @@
+/**
+ * Workflow Webhooks — Database CRUD
+ */
+import { eq, and, desc, or } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  workflowWebhooks,
+  webhookDeliveries,
+  type InsertWorkflowWebhook,
+  type WorkflowWebhook,
+  type InsertWebhookDelivery,
+  type WebhookDelivery,
+} from "../../drizzle/schema";
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+export async function createWebhook(data: InsertWorkflowWebhook): Promise<WorkflowWebhook> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.insert(workflowWebhooks).values(data).returning();
+  return row;
+}
+
+export async function getWebhookById(id: number): Promise<WorkflowWebhook | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(workflowWebhooks).where(eq(workflowWebhooks.id, id));
+  return row ?? null;
+}
+
+export async function getWebhookByToken(token: string): Promise<WorkflowWebhook | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(workflowWebhooks).where(eq(workflowWebhooks.token, token));
+  return row ?? null;
+}
+
+export async function getWebhooksByWorkflow(workflowId: number): Promise<WorkflowWebhook[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(workflowWebhooks)
+    .where(eq(workflowWebhooks.workflowId, workflowId))
+    .orderBy(desc(workflowWebhooks.createdAt));
+}
+
+export async function updateWebhook(
+  id: number,
+  data: Partial<InsertWorkflowWebhook>
+): Promise<WorkflowWebhook | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .update(workflowWebhooks)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(workflowWebhooks.id, id))
+    .returning();
+  return row ?? null;
+}
+
+export async function deleteWebhook(id: number): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+  await db.delete(workflowWebhooks).where(eq(workflowWebhooks.id, id));
+}
+
+// ============================================================================
+// Deliveries
+// ============================================================================
+
+/**
+ * Record a delivery unless one with the same idempotency key or signature
+ * digest exists. Returns null for duplicates.
+ */
+export async function recordDelivery(data: InsertWebhookDelivery): Promise<WebhookDelivery | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  // No conflict target, so either unique index turns the insert into a no-op
+  const [row] = await db
+    .insert(webhookDeliveries)
+    .values(data)
+    .onConflictDoNothing()
+    .returning();
+  return row ?? null;
+}
+
+/**
+ * An earlier delivery with the same idempotency key or signature digest
+ */
+export async function getDelivery(
+  webhookId: number,
+  idempotencyKey: string,
+  signatureDigest: string
+): Promise<WebhookDelivery | null> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.webhookId, webhookId),
+        or(
+          eq(webhookDeliveries.idempotencyKey, idempotencyKey),
+          eq(webhookDeliveries.signatureDigest, signatureDigest)
+        )
+      )
+    )
+    .limit(1);
+  return row ?? null;
+}
+
+export async function updateDelivery(id: number, data: Partial<InsertWebhookDelivery>): Promise<void> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(webhookDeliveries).set(data).where(eq(webhookDeliveries.id, id));
+}
+
+export async function getDeliveriesByWebhook(webhookId: number, limit: number): Promise<WebhookDelivery[]> {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.webhookId, webhookId))
+    .orderBy(desc(webhookDeliveries.receivedAt))
+    .limit(limit);
+}
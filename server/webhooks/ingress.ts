@@ -0,0 +1,30 @@
+/**
+ * Workflow Webhooks — HTTP Ingress
+ *
+ * POST /api/webhooks/wcp/:token starts the workflow behind the token.
+ * Signatures are computed over the exact bytes received, so this router is
+ * mounted ahead of the JSON body parser and reads the raw body itself.
+ */
+import express, { Router } from "express";
+import { handleDelivery, WEBHOOK_PATH_PREFIX } from "./service";
+
+export const webhookIngressRouter = Router();
+
+webhookIngressRouter.post(
+  `${WEBHOOK_PATH_PREFIX}/:token`,
+  express.raw({ type: () => true, limit: "1mb" }),
+  async (req, res) => {
+    try {
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const result = await handleDelivery(req.params.token, {
+        method: req.method,
+        headers: req.headers,
+        body,
+      });
+      res.status(result.status).json(result.body);
+    } catch (error: any) {
+      console.error("[Webhook] Delivery failed:", error);
+      res.status(500).json({ error: "Internal error" });
+    }
+  }
+);
@@ -0,0 +1,86 @@
+/**
+ * Webhook Payload Schemas
+ *
+ * Validates payloads against the JSON Schema subset trigger contracts use:
+ * type, enum, required, properties, additionalProperties, items and the
+ * length/range bounds. Unknown keywords are ignored.
+ */
+
+export type JsonSchema = Record<string, any>;
+
+function typeOf(value: any): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  if (type === "integer") return Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Validate a value, returning one message per violation (empty when valid)
+ */
+export function validatePayload(schema: JsonSchema | null | undefined, value: any, path = "$"): string[] {
+  if (!schema || typeof schema !== "object") return [];
+
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: less than ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: greater than ${schema.maximum}`);
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (properties[key]) {
+        errors.push(...validatePayload(properties[key], child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validatePayload(schema.additionalProperties, child, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items && typeof schema.items === "object") {
+    value.forEach((item, index) => {
+      errors.push(...validatePayload(schema.items, item, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
@@ -0,0 +1,110 @@
+/**
+ * Workflow Webhooks — tRPC Router
+ *
+ *   - list: endpoints for a workflow (secrets never returned)
+ *   - create: new endpoint; the signing secret is returned once
+ *   - update: scheme, tolerance, payload schema, enabled
+ *   - rotateSecret: issue a new signing secret, returned once
+ *   - delete: remove the endpoint and its secret
+ *   - deliveries: recent deliveries with their execution ids
+ */
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { protectedProcedure, router } from "../_core/trpc";
+import { getDb } from "../db";
+import { wcpWorkflows } from "../../drizzle/schema";
+import {
+  createWorkflowWebhook,
+  deleteWorkflowWebhook,
+  rotateWebhookSecret,
+  webhookPath,
+} from "./service";
+import { getDeliveriesByWebhook, getWebhookById, getWebhooksByWorkflow, updateWebhook } from "./db";
+
+const schemeSchema = z.enum(["generic", "github", "stripe"]);
+const toleranceSchema = z.number().int().min(30).max(24 * 60 * 60);
+const payloadSchemaSchema = z.record(z.string(), z.any()).nullable();
+
+async function assertWorkflowOwner(userId: number, workflowId: number) {
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [workflow] = await db
+    .select({ id: wcpWorkflows.id })
+    .from(wcpWorkflows)
+    .where(and(eq(wcpWorkflows.id, workflowId), eq(wcpWorkflows.userId, userId)));
+  if (!workflow) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Workflow not found" });
+  }
+}
+
+async function getOwnedWebhook(userId: number, id: number) {
+  const webhook = await getWebhookById(id);
+  if (!webhook || webhook.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Webhook not found" });
+  }
+  return webhook;
+}
+
+export const workflowWebhooksRouter = router({
+  list: protectedProcedure
+    .input(z.object({ workflowId: z.number().int() }))
+    .query(async ({ ctx, input }) => {
+      await assertWorkflowOwner(ctx.user.id, input.workflowId);
+      const webhooks = await getWebhooksByWorkflow(input.workflowId);
+      return webhooks.map(webhook => ({ ...webhook, path: webhookPath(webhook) }));
+    }),
+
+  create: protectedProcedure
+    .input(
+      z.object({
+        workflowId: z.number().int(),
+        signatureScheme: schemeSchema.default("generic"),
+        toleranceSeconds: toleranceSchema.default(300),
+        payloadSchema: payloadSchemaSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkflowOwner(ctx.user.id, input.workflowId);
+      return createWorkflowWebhook({ ...input, userId: ctx.user.id });
+    }),
+
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.number().int(),
+        signatureScheme: schemeSchema.optional(),
+        toleranceSeconds: toleranceSchema.optional(),
+        payloadSchema: payloadSchemaSchema.optional(),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      await getOwnedWebhook(ctx.user.id, id);
+      return updateWebhook(id, changes);
+    }),
+
+  rotateSecret: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await getOwnedWebhook(ctx.user.id, input.id);
+      return { secret: await rotateWebhookSecret(webhook) };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number().int() }))
+    .mutation(async ({ ctx, input }) => {
+      const webhook = await getOwnedWebhook(ctx.user.id, input.id);
+      await deleteWorkflowWebhook(webhook);
+      return { success: true };
+    }),
+
+  deliveries: protectedProcedure
+    .input(z.object({ webhookId: z.number().int(), limit: z.number().int().min(1).max(200).default(50) }))
+    .query(async ({ ctx, input }) => {
+      await getOwnedWebhook(ctx.user.id, input.webhookId);
+      return getDeliveriesByWebhook(input.webhookId, input.limit);
+    }),
+});
@@ -0,0 +1,254 @@
+/**
+ * Workflow Webhooks — Service
+ *
+ * Inbound deliveries go through, in order:
+ *   1. endpoint lookup by token
+ *   2. HMAC signature check (with timestamp tolerance where the scheme has one)
+ *   3. payload parsing and JSON Schema validation
+ *   4. idempotency: a repeated key or signature returns the original execution
+ *   5. a wcp_executions row carrying the delivery, then executeWorkflow
+ */
+import crypto from "crypto";
+import { eq } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  wcpWorkflows,
+  wcpExecutions,
+  type WorkflowWebhook,
+  type WebhookSignatureScheme,
+} from "../../drizzle/schema";
+import { createSecret, deleteSecret, getSecretByKey, updateSecret } from "../secrets/secrets-service";
+import { generateWebhookSecret, verifyWebhookSignature, type WebhookHeaders } from "./signature";
+import { validatePayload, type JsonSchema } from "./payload-schema";
+import * as webhookDb from "./db";
+
+export const WEBHOOK_PATH_PREFIX = "/api/webhooks/wcp";
+
+// Never copied into execution logs
+const REDACTED_HEADERS = [
+  "authorization",
+  "cookie",
+  "x-webhook-signature",
+  "x-hub-signature",
+  "x-hub-signature-256",
+  "stripe-signature",
+];
+
+export interface DeliveryRequest {
+  method: string;
+  headers: WebhookHeaders;
+  body: Buffer;
+}
+
+export interface DeliveryResult {
+  status: number;
+  body: Record<string, any>;
+}
+
+export function webhookPath(webhook: Pick<WorkflowWebhook, "token">): string {
+  return `${WEBHOOK_PATH_PREFIX}/${webhook.token}`;
+}
+
+// ============================================================================
+// Management
+// ============================================================================
+
+export async function createWorkflowWebhook(data: {
+  userId: number;
+  workflowId: number;
+  signatureScheme?: WebhookSignatureScheme;
+  toleranceSeconds?: number;
+  payloadSchema?: JsonSchema;
+}): Promise<{ webhook: WorkflowWebhook; secret: string; path: string }> {
+  const token = crypto.randomBytes(24).toString("base64url");
+  const secretKey = `webhook:wcp-${data.workflowId}:${token.slice(0, 8)}`;
+  const secret = generateWebhookSecret();
+
+  await createSecret({
+    userId: data.userId,
+    key: secretKey,
+    value: secret,
+    description: `Signing secret for workflow ${data.workflowId} webhook`,
+  });
+
+  const webhook = await webhookDb.createWebhook({
+    workflowId: data.workflowId,
+    userId: data.userId,
+    token,
+    secretKey,
+    signatureScheme: data.signatureScheme || "generic",
+    toleranceSeconds: data.toleranceSeconds ?? 300,
+    payloadSchema: data.payloadSchema,
+  });
+
+  return { webhook, secret, path: webhookPath(webhook) };
+}
+
+/**
+ * Issue a new signing secret; the old one stops working immediately
+ */
+export async function rotateWebhookSecret(webhook: WorkflowWebhook): Promise<string> {
+  const existing = await getSecretByKey(webhook.secretKey, webhook.userId);
+  const secret = generateWebhookSecret();
+
+  if (existing) {
+    await updateSecret(existing.id, webhook.userId, { value: secret });
+  } else {
+    await createSecret({ userId: webhook.userId, key: webhook.secretKey, value: secret });
+  }
+  return secret;
+}
+
+export async function deleteWorkflowWebhook(webhook: WorkflowWebhook): Promise<void> {
+  const existing = await getSecretByKey(webhook.secretKey, webhook.userId);
+  if (existing) {
+    await deleteSecret(existing.id, webhook.userId);
+  }
+  await webhookDb.deleteWebhook(webhook.id);
+}
+
+// ============================================================================
+// Ingress
+// ============================================================================
+
+function parseBody(request: DeliveryRequest): { payload?: any; error?: string } {
+  const text = request.body.toString("utf8");
+  const contentType = String(request.headers["content-type"] || "");
+
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return { payload: Object.fromEntries(new URLSearchParams(text)) };
+  }
+  if (!text.trim()) {
+    return { payload: {} };
+  }
+
+  try {
+    return { payload: JSON.parse(text) };
+  } catch {
+    return contentType.includes("json") ? { error: "Body is not valid JSON" } : { payload: text };
+  }
+}
+
+function forwardedHeaders(headers: WebhookHeaders): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined || REDACTED_HEADERS.includes(name.toLowerCase())) continue;
+    result[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return result;
+}
+
+/**
+ * Digest of what the sender signed. The Idempotency-Key and delivery id
+ * headers aren't covered by any scheme's signature, so a captured delivery
+ * replayed under a new id is only caught by this.
+ */
+function signatureDigestFor(signature: string | undefined, body: Buffer): string {
+  return crypto.createHash("sha256").update(signature ?? body).digest("hex");
+}
+
+function idempotencyKeyFor(headers: WebhookHeaders, deliveryId: string | undefined, signatureDigest: string): string {
+  const explicit = headers["idempotency-key"];
+  const key = (Array.isArray(explicit) ? explicit[0] : explicit) || deliveryId;
+  // Without a key, an identical signed request is treated as a replay
+  return (key || `sig:${signatureDigest}`).slice(0, 255);
+}
+
+/**
+ * Verify, de-duplicate and start the workflow for an inbound delivery
+ */
+export async function handleDelivery(token: string, request: DeliveryRequest): Promise<DeliveryResult> {
+  const webhook = await webhookDb.getWebhookByToken(token);
+  if (!webhook || !webhook.enabled) {
+    return { status: 404, body: { error: "Webhook not found" } };
+  }
+
+  const secret = await getSecretByKey(webhook.secretKey, webhook.userId);
+  if (!secret) {
+    console.error(`[Webhook] Signing secret missing for webhook ${webhook.id}`);
+    return { status: 500, body: { error: "Webhook is misconfigured" } };
+  }
+
+  const verification = verifyWebhookSignature(webhook.signatureScheme, secret.value, request.body, request.headers, {
+    toleranceSeconds: webhook.toleranceSeconds,
+  });
+  if (!verification.valid) {
+    console.warn(`[Webhook] Rejected delivery for webhook ${webhook.id}: ${verification.reason}`);
+    return { status: 401, body: { error: verification.reason } };
+  }
+
+  const signatureDigest = signatureDigestFor(verification.signature, request.body);
+  const idempotencyKey = idempotencyKeyFor(request.headers, verification.deliveryId, signatureDigest);
+  const duplicate = await webhookDb.getDelivery(webhook.id, idempotencyKey, signatureDigest);
+  if (duplicate) {
+    return { status: 200, body: { duplicate: true, status: duplicate.status, executionId: duplicate.executionId } };
+  }
+
+  const { payload, error: parseError } = parseBody(request);
+  const schemaErrors = parseError ? [parseError] : validatePayload(webhook.payloadSchema as JsonSchema, payload);
+  if (schemaErrors.length > 0) {
+    await webhookDb.recordDelivery({
+      webhookId: webhook.id,
+      workflowId: webhook.workflowId,
+      idempotencyKey,
+      signatureDigest,
+      status: "rejected",
+      error: schemaErrors.join("; "),
+    });
+    return { status: 422, body: { error: "Payload failed validation", details: schemaErrors } };
+  }
+
+  const delivery = await webhookDb.recordDelivery({
+    webhookId: webhook.id,
+    workflowId: webhook.workflowId,
+    idempotencyKey,
+    signatureDigest,
+    status: "accepted",
+  });
+  if (!delivery) {
+    // A concurrent request with the same key or signature got there first
+    const existing = await webhookDb.getDelivery(webhook.id, idempotencyKey, signatureDigest);
+    return { status: 200, body: { duplicate: true, status: existing?.status, executionId: existing?.executionId } };
+  }
+
+  const db = getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [workflow] = await db.select().from(wcpWorkflows).where(eq(wcpWorkflows.id, webhook.workflowId));
+  if (!workflow || workflow.status === "deleted" || workflow.status === "archived") {
+    await webhookDb.updateDelivery(delivery.id, { status: "rejected", error: "Workflow is not available" });
+    return { status: 410, body: { error: "Workflow is not available" } };
+  }
+
+  const triggerData = {
+    source: "webhook",
+    webhookId: webhook.id,
+    deliveryId: delivery.id,
+    idempotencyKey,
+    receivedAt: delivery.receivedAt.toISOString(),
+    method: request.method,
+    headers: forwardedHeaders(request.headers),
+    body: payload,
+  };
+
+  const [execution] = await db
+    .insert(wcpExecutions)
+    .values({
+      workflowId: workflow.id,
+      workflowName: workflow.name,
+      status: "running",
+      triggerType: "webhook",
+      triggerData,
+    })
+    .returning({ id: wcpExecutions.id });
+
+  await webhookDb.updateDelivery(delivery.id, { executionId: execution.id });
+  await webhookDb.updateWebhook(webhook.id, { lastDeliveryAt: new Date() });
+
+  const { executeWorkflow } = await import("../wcp/execution-engine");
+  executeWorkflow(workflow.id, execution.id, JSON.parse(workflow.nodes), JSON.parse(workflow.edges), triggerData)
+    .catch(error => console.error(`[Webhook] Execution ${execution.id} failed to start:`, error));
+
+  console.log(`[Webhook] Delivery ${delivery.id} started execution ${execution.id} of workflow ${workflow.id}`);
+  return { status: 202, body: { accepted: true, deliveryId: delivery.id, executionId: execution.id } };
+}
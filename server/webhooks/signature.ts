@@ -0,0 +1,140 @@
+/**
+ * Webhook Signatures
+ *
+ * HMAC-SHA256 verification for the header conventions in
+ * WebhookSignatureScheme. Timestamped schemes (generic, stripe) reject
+ * signatures older than the webhook's tolerance; GitHub signs the body only.
+ * Within the tolerance, and for GitHub at any time, replays are caught by
+ * de-duplicating deliveries on their signature.
+ */
+import crypto from "crypto";
+import type { WebhookSignatureScheme } from "../../drizzle/schema";
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface SignatureVerification {
+  valid: boolean;
+  reason?: string;
+  // Provider-assigned delivery id, when the scheme has one
+  deliveryId?: string;
+  // The verified signature; deliveries are de-duplicated on its digest
+  signature?: string;
+}
+
+export interface VerifyOptions {
+  toleranceSeconds: number;
+  now?: Date;
+}
+
+export function generateWebhookSecret(): string {
+  return "whsec_" + crypto.randomBytes(32).toString("base64url");
+}
+
+export function computeSignature(secret: string, payload: string | Buffer): string {
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function header(headers: WebhookHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function withinTolerance(timestamp: number, options: VerifyOptions): boolean {
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  return Math.abs(now - timestamp) <= options.toleranceSeconds;
+}
+
+function signedPayload(timestamp: string, body: Buffer): Buffer {
+  return Buffer.concat([Buffer.from(`${timestamp}.`), body]);
+}
+
+/**
+ * Verify a delivery's signature headers against the raw request body
+ */
+export function verifyWebhookSignature(
+  scheme: WebhookSignatureScheme,
+  secret: string,
+  body: Buffer,
+  headers: WebhookHeaders,
+  options: VerifyOptions
+): SignatureVerification {
+  switch (scheme) {
+    case "github": {
+      const signature = header(headers, "x-hub-signature-256");
+      if (!signature?.startsWith("sha256=")) {
+        return { valid: false, reason: "Missing X-Hub-Signature-256 header" };
+      }
+      if (!safeEqual(`sha256=${computeSignature(secret, body)}`, signature)) {
+        return { valid: false, reason: "Signature mismatch" };
+      }
+      return { valid: true, deliveryId: header(headers, "x-github-delivery"), signature };
+    }
+
+    case "stripe": {
+      const signature = header(headers, "stripe-signature");
+      const parts = (signature || "").split(",").map(part => part.trim().split("="));
+      const timestamp = parts.find(([k]) => k === "t")?.[1];
+      const candidates = parts.filter(([k]) => k === "v1").map(([, v]) => v);
+      if (!timestamp || candidates.length === 0) {
+        return { valid: false, reason: "Malformed Stripe-Signature header" };
+      }
+      if (!withinTolerance(parseInt(timestamp, 10), options)) {
+        return { valid: false, reason: "Timestamp outside tolerance" };
+      }
+      const expected = computeSignature(secret, signedPayload(timestamp, body));
+      if (!candidates.some(candidate => safeEqual(expected, candidate))) {
+        return { valid: false, reason: "Signature mismatch" };
+      }
+      return { valid: true, signature };
+    }
+
+    case "generic":
+    default: {
+      const signature = header(headers, "x-webhook-signature");
+      const timestamp = header(headers, "x-webhook-timestamp");
+      if (!signature?.startsWith("sha256=") || !timestamp) {
+        return { valid: false, reason: "Missing X-Webhook-Signature or X-Webhook-Timestamp header" };
+      }
+      if (!/^\d+$/.test(timestamp) || !withinTolerance(parseInt(timestamp, 10), options)) {
+        return { valid: false, reason: "Timestamp outside tolerance" };
+      }
+      const expected = `sha256=${computeSignature(secret, signedPayload(timestamp, body))}`;
+      if (!safeEqual(expected, signature)) {
+        return { valid: false, reason: "Signature mismatch" };
+      }
+      return { valid: true, deliveryId: header(headers, "x-webhook-id"), signature };
+    }
+  }
+}
+
+/**
+ * Headers a sender needs for a delivery, e.g. for test deliveries and docs
+ */
+export function signWebhookPayload(
+  scheme: WebhookSignatureScheme,
+  secret: string,
+  body: string,
+  now: Date = new Date()
+): Record<string, string> {
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+  const payload = Buffer.from(body);
+
+  switch (scheme) {
+    case "github":
+      return { "X-Hub-Signature-256": `sha256=${computeSignature(secret, payload)}` };
+    case "stripe":
+      return { "Stripe-Signature": `t=${timestamp},v1=${computeSignature(secret, signedPayload(timestamp, payload))}` };
+    case "generic":
+    default:
+      return {
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": `sha256=${computeSignature(secret, signedPayload(timestamp, payload))}`,
+      };
+  }
+}
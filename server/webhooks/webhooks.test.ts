@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import { computeSignature, signWebhookPayload, verifyWebhookSignature } from "./signature";
+import { validatePayload } from "./payload-schema";
+import { handleDelivery } from "./service";
+import * as webhookDb from "./db";
+import type { InsertWebhookDelivery } from "../../drizzle/schema";
+
+vi.mock("../secrets/secrets-service", () => ({
+  getSecretByKey: vi.fn(async () => ({ id: 1, value: "whsec_test" })),
+}));
+vi.mock("./db", () => ({
+  getWebhookByToken: vi.fn(),
+  getDelivery: vi.fn(),
+  recordDelivery: vi.fn(),
+}));
+
+const secret = "whsec_test";
+const body = '{"event":"order.created","amount":42}';
+const now = new Date("2026-06-01T12:00:00Z");
+
+function lowerCase(headers: Record<string, string>) {
+  return Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+}
+
+describe("verifyWebhookSignature", () => {
+  for (const scheme of ["generic", "github", "stripe"] as const) {
+    it(`should accept ${scheme} signatures produced by signWebhookPayload`, () => {
+      const headers = lowerCase(signWebhookPayload(scheme, secret, body, now));
+      const result = verifyWebhookSignature(scheme, secret, Buffer.from(body), headers, { toleranceSeconds: 300, now });
+
+      expect(result.valid).toBe(true);
+      expect(result.signature).toBeTruthy();
+    });
+
+    it(`should reject tampered ${scheme} bodies`, () => {
+      const headers = lowerCase(signWebhookPayload(scheme, secret, body, now));
+      const result = verifyWebhookSignature(scheme, secret, Buffer.from(body.replace("42", "4200")), headers, {
+        toleranceSeconds: 300,
+        now,
+      });
+
+      expect(result).toMatchObject({ valid: false, reason: "Signature mismatch" });
+    });
+  }
+
+  it("should reject stale timestamps as replays", () => {
+    const headers = lowerCase(signWebhookPayload("stripe", secret, body, new Date(now.getTime() - 10 * 60 * 1000)));
+    const result = verifyWebhookSignature("stripe", secret, Buffer.from(body), headers, { toleranceSeconds: 300, now });
+
+    expect(result).toMatchObject({ valid: false, reason: "Timestamp outside tolerance" });
+  });
+
+  it("should pass through the GitHub delivery id", () => {
+    const headers = {
+      "x-hub-signature-256": `sha256=${computeSignature(secret, body)}`,
+      "x-github-delivery": "72d3162e-cc78-11e3-81ab-4c9367dc0958",
+    };
+    const result = verifyWebhookSignature("github", secret, Buffer.from(body), headers, { toleranceSeconds: 300, now });
+
+    expect(result.deliveryId).toBe("72d3162e-cc78-11e3-81ab-4c9367dc0958");
+  });
+
+  it("should reject missing headers", () => {
+    expect(verifyWebhookSignature("generic", secret, Buffer.from(body), {}, { toleranceSeconds: 300, now }).valid).toBe(false);
+  });
+});
+
+describe("validatePayload", () => {
+  const schema = {
+    type: "object",
+    required: ["event", "amount"],
+    properties: {
+      event: { type: "string", enum: ["order.created", "order.paid"] },
+      amount: { type: "integer", minimum: 0 },
+      items: { type: "array", items: { type: "object", required: ["sku"] } },
+    },
+  };
+
+  it("should accept matching payloads", () => {
+    expect(validatePayload(schema, { event: "order.created", amount: 42, items: [{ sku: "A-1" }] })).toEqual([]);
+    expect(validatePayload(null, "anything")).toEqual([]);
+  });
+
+  it("should report each violation with its path", () => {
+    expect(validatePayload(schema, { event: "order.refunded", amount: -1.5, items: [{}] })).toEqual([
+      '$.event: must be one of "order.created", "order.paid"',
+      "$.amount: expected integer, got number",
+      "$.items[0].sku: is required",
+    ]);
+  });
+});
+
+describe("handleDelivery", () => {
+  it("should treat a signed body replayed under a new delivery id as a duplicate", async () => {
+    const deliveries: InsertWebhookDelivery[] = [];
+    vi.mocked(webhookDb.getWebhookByToken).mockResolvedValue({
+      id: 3,
+      workflowId: 9,
+      userId: 1,
+      token: "tok",
+      secretKey: "webhook:wcp-9:tok",
+      signatureScheme: "github",
+      toleranceSeconds: 300,
+      // Every delivery fails validation, so it's recorded without starting a workflow
+      payloadSchema: { type: "object", required: ["missing"] },
+      enabled: true,
+    } as any);
+    vi.mocked(webhookDb.getDelivery).mockImplementation(async (_webhookId, idempotencyKey, signatureDigest) => {
+      const found = deliveries.find(d => d.idempotencyKey === idempotencyKey || d.signatureDigest === signatureDigest);
+      return (found as any) ?? null;
+    });
+    vi.mocked(webhookDb.recordDelivery).mockImplementation(async (data) => {
+      deliveries.push(data);
+      return data as any;
+    });
+
+    const headers = lowerCase(signWebhookPayload("github", secret, body, now));
+    const deliver = (deliveryId: string) =>
+      handleDelivery("tok", {
+        method: "POST",
+        headers: { ...headers, "content-type": "application/json", "x-github-delivery": deliveryId },
+        body: Buffer.from(body),
+      });
+
+    expect((await deliver("delivery-1")).status).toBe(422);
+    const replay = await deliver("delivery-2");
+
+    expect(replay).toEqual({ status: 200, body: { duplicate: true, status: "rejected", executionId: undefined } });
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({ idempotencyKey: "delivery-1", signatureDigest: expect.stringMatching(/^[0-9a-f]{64}$/) });
+  });
+});